@@ -13,9 +13,12 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as aiUsage from "../aiUsage.js";
 import type * as api_ from "../api.js";
 import type * as auth from "../auth.js";
 import type * as auth_helpers from "../auth_helpers.js";
+import type * as budgetChanges from "../budgetChanges.js";
+import type * as budgetOptimizer from "../budgetOptimizer.js";
 import type * as campaigns_cleanup from "../campaigns/cleanup.js";
 import type * as campaigns_helpers from "../campaigns/helpers.js";
 import type * as campaigns_index from "../campaigns/index.js";
@@ -25,18 +28,28 @@ import type * as campaigns_validation from "../campaigns/validation.js";
 import type * as campaigns_verify from "../campaigns/verify.js";
 import type * as crons from "../crons.js";
 import type * as emailService from "../emailService.js";
+import type * as ensembleWeights from "../ensembleWeights.js";
 import type * as externalDataSources from "../externalDataSources.js";
+import type * as goalSeek from "../goalSeek.js";
 import type * as http from "../http.js";
 import type * as lib_encryption from "../lib/encryption.js";
+import type * as llmProviders from "../llmProviders.js";
 import type * as migrations from "../migrations.js";
+import type * as modelResponseCache from "../modelResponseCache.js";
 import type * as notifications from "../notifications.js";
 import type * as organizations from "../organizations.js";
 import type * as permissions from "../permissions.js";
 import type * as platformConnections from "../platformConnections.js";
 import type * as processingQueue from "../processingQueue.js";
+import type * as recommendations from "../recommendations.js";
+import type * as riskRules from "../riskRules.js";
+import type * as scheduledSimulations from "../scheduledSimulations.js";
 import type * as simulationCache from "../simulationCache.js";
 import type * as simulationHelpers from "../simulationHelpers.js";
+import type * as simulationRunner from "../simulationRunner.js";
+import type * as simulationStaleness from "../simulationStaleness.js";
 import type * as simulations from "../simulations.js";
+import type * as spendLedger from "../spendLedger.js";
 import type * as users from "../users.js";
 
 /**
@@ -48,9 +61,12 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  aiUsage: typeof aiUsage;
   api: typeof api_;
   auth: typeof auth;
   auth_helpers: typeof auth_helpers;
+  budgetChanges: typeof budgetChanges;
+  budgetOptimizer: typeof budgetOptimizer;
   "campaigns/cleanup": typeof campaigns_cleanup;
   "campaigns/helpers": typeof campaigns_helpers;
   "campaigns/index": typeof campaigns_index;
@@ -60,18 +76,28 @@ declare const fullApi: ApiFromModules<{
   "campaigns/verify": typeof campaigns_verify;
   crons: typeof crons;
   emailService: typeof emailService;
+  ensembleWeights: typeof ensembleWeights;
   externalDataSources: typeof externalDataSources;
+  goalSeek: typeof goalSeek;
   http: typeof http;
   "lib/encryption": typeof lib_encryption;
+  llmProviders: typeof llmProviders;
   migrations: typeof migrations;
+  modelResponseCache: typeof modelResponseCache;
   notifications: typeof notifications;
   organizations: typeof organizations;
   permissions: typeof permissions;
   platformConnections: typeof platformConnections;
   processingQueue: typeof processingQueue;
+  recommendations: typeof recommendations;
+  riskRules: typeof riskRules;
+  scheduledSimulations: typeof scheduledSimulations;
   simulationCache: typeof simulationCache;
   simulationHelpers: typeof simulationHelpers;
+  simulationRunner: typeof simulationRunner;
+  simulationStaleness: typeof simulationStaleness;
   simulations: typeof simulations;
+  spendLedger: typeof spendLedger;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
@@ -0,0 +1,325 @@
+/**
+ * AI usage metering, cost accounting and monthly quotas
+ *
+ * Every predictor call a simulation makes is recorded with its tokens,
+ * latency and estimated cost. Organizations may spend up to the monthly quota
+ * of their subscription tier; once the month's spend reaches it, no further
+ * simulations are queued until the next month.
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { canViewCampaign } from "./permissions";
+import { DEFAULT_LLM_PROVIDER_CONFIG } from "../src/lib/simulation/ai-models/LLMProvider";
+import {
+  DEFAULT_SUBSCRIPTION_TIER,
+  estimateSimulationUsage,
+  MONTHLY_USAGE_QUOTAS,
+  monthlyUsageQuota,
+  usagePeriodStart,
+} from "../src/lib/simulation/usage/AIUsage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_SIMULATIONS = 10;
+
+/**
+ * Subscription tier of an organization; every simulation it queues, by a
+ * member, the scheduler or a campaign edit, runs under this tier's quota
+ */
+export async function organizationSubscriptionTier(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">
+): Promise<string> {
+  const organization = await ctx.db.get(organizationId);
+  return organization?.subscriptionTier ?? DEFAULT_SUBSCRIPTION_TIER;
+}
+
+async function loadPeriodUsage(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">,
+  periodStart: number
+) {
+  return await ctx.db
+    .query("aiUsage")
+    .withIndex("by_organization_created", (q) =>
+      q.eq("organizationId", organizationId).gte("createdAt", periodStart)
+    )
+    .collect();
+}
+
+/**
+ * Month-to-date spend of an organization against the quota of a tier
+ */
+export async function getUsageQuotaStatus(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">,
+  subscriptionTier: string
+) {
+  const usage = await loadPeriodUsage(ctx, organizationId, usagePeriodStart());
+  const monthToDateCost = usage.reduce((sum, call) => sum + call.estimatedCost, 0);
+  const quota = monthlyUsageQuota(subscriptionTier);
+
+  return {
+    subscriptionTier,
+    quota,
+    monthToDateCost,
+    remaining: Math.max(0, quota - monthToDateCost),
+    exceeded: monthToDateCost >= quota,
+  };
+}
+
+/**
+ * Refuse to queue a simulation once the organization spent its monthly quota
+ */
+export async function assertWithinUsageQuota(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">,
+  subscriptionTier: string
+) {
+  const status = await getUsageQuotaStatus(ctx, organizationId, subscriptionTier);
+  if (status.exceeded) {
+    throw new Error(
+      `Usage quota exceeded: $${status.monthToDateCost.toFixed(2)} of the $${status.quota.toFixed(2)} monthly ${subscriptionTier} quota has been used`
+    );
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Month-to-date AI usage and cost of an organization, by model, day and simulation
+ */
+export const getUsageSummary = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+
+    const periodStart = usagePeriodStart();
+    const usage = await loadPeriodUsage(ctx, args.organizationId, periodStart);
+    const quota = await getUsageQuotaStatus(
+      ctx,
+      args.organizationId,
+      await organizationSubscriptionTier(ctx, args.organizationId)
+    );
+
+    const byModel = new Map<
+      string,
+      { model: string; calls: number; failedCalls: number; inputTokens: number; outputTokens: number; cost: number; totalLatencyMs: number }
+    >();
+    const byDay = new Map<number, { date: number; calls: number; cost: number }>();
+    const bySimulation = new Map<
+      Id<"simulations">,
+      { simulationId: Id<"simulations">; calls: number; cost: number }
+    >();
+
+    for (const call of usage) {
+      const model = byModel.get(call.model) ?? {
+        model: call.model,
+        calls: 0,
+        failedCalls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        totalLatencyMs: 0,
+      };
+      model.calls += 1;
+      model.failedCalls += call.status === "failed" ? 1 : 0;
+      model.inputTokens += call.inputTokens;
+      model.outputTokens += call.outputTokens;
+      model.cost += call.estimatedCost;
+      model.totalLatencyMs += call.latencyMs;
+      byModel.set(call.model, model);
+
+      const date = Math.floor(call.createdAt / DAY_MS) * DAY_MS;
+      const day = byDay.get(date) ?? { date, calls: 0, cost: 0 };
+      day.calls += 1;
+      day.cost += call.estimatedCost;
+      byDay.set(date, day);
+
+      const simulation = bySimulation.get(call.simulationId) ?? {
+        simulationId: call.simulationId,
+        calls: 0,
+        cost: 0,
+      };
+      simulation.calls += 1;
+      simulation.cost += call.estimatedCost;
+      bySimulation.set(call.simulationId, simulation);
+    }
+
+    const topSimulations = await Promise.all(
+      Array.from(bySimulation.values())
+        .sort((a, b) => b.cost - a.cost || b.calls - a.calls)
+        .slice(0, TOP_SIMULATIONS)
+        .map(async (entry) => {
+          const simulation = await ctx.db.get(entry.simulationId);
+          const campaign = simulation ? await ctx.db.get(simulation.campaignId) : null;
+          return {
+            ...entry,
+            campaignId: simulation?.campaignId,
+            campaignName: campaign?.name,
+            createdAt: simulation?.createdAt,
+          };
+        })
+    );
+
+    return {
+      periodStart,
+      ...quota,
+      totals: {
+        calls: usage.length,
+        failedCalls: usage.filter((call) => call.status === "failed").length,
+        inputTokens: usage.reduce((sum, call) => sum + call.inputTokens, 0),
+        outputTokens: usage.reduce((sum, call) => sum + call.outputTokens, 0),
+        cost: quota.monthToDateCost,
+      },
+      byModel: Array.from(byModel.values())
+        .sort((a, b) => b.cost - a.cost || b.calls - a.calls)
+        .map(({ totalLatencyMs, ...model }) => ({
+          ...model,
+          averageLatencyMs: Math.round(totalLatencyMs / model.calls),
+        })),
+      daily: Array.from(byDay.values()).sort((a, b) => a.date - b.date),
+      topSimulations,
+    };
+  },
+});
+
+/**
+ * Expected cost of simulating a campaign over a window, and whether the
+ * organization's remaining quota covers it
+ */
+export const estimateSimulationCost = query({
+  args: {
+    campaignId: v.id("campaigns"),
+    startDate: v.number(),
+    endDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", campaign.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+    if (!canViewCampaign(userId, campaign)) {
+      throw new Error("Not authorized to view this campaign");
+    }
+
+    // The LLM predictor runs against the organization's endpoint, or OpenAI when a key is configured
+    const organization = await ctx.db.get(campaign.organizationId);
+    const model =
+      organization?.settings.llmProvider?.model ??
+      (process.env.OPENAI_API_KEY ? DEFAULT_LLM_PROVIDER_CONFIG.model : null);
+    const quota = await getUsageQuotaStatus(
+      ctx,
+      campaign.organizationId,
+      await organizationSubscriptionTier(ctx, campaign.organizationId)
+    );
+
+    const estimate = model
+      ? estimateSimulationUsage(model, args.startDate, args.endDate)
+      : { model: null, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+
+    return {
+      ...estimate,
+      ...quota,
+      withinQuota: !quota.exceeded && estimate.estimatedCost <= quota.remaining,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Record a predictor call of a simulation (internal - used by the simulation runner)
+ */
+export const recordUsage = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    modelName: v.string(),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+    estimatedCost: v.number(),
+    status: v.union(v.literal("success"), v.literal("failed")),
+    error: v.optional(v.string()),
+    timestamp: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      return null;
+    }
+
+    const { timestamp, ...call } = args;
+    return await ctx.db.insert("aiUsage", {
+      ...call,
+      organizationId: simulation.organizationId,
+      createdAt: timestamp,
+    });
+  },
+});
+
+/**
+ * Move an organization to another subscription tier (internal - used by billing)
+ */
+export const setSubscriptionTier = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    subscriptionTier: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!(args.subscriptionTier in MONTHLY_USAGE_QUOTAS)) {
+      throw new Error(`Unknown subscription tier: ${args.subscriptionTier}`);
+    }
+
+    await ctx.db.patch(args.organizationId, {
+      subscriptionTier: args.subscriptionTier,
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,370 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { api } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { canEditCampaign, canViewCampaign } from "./permissions";
+import { validateBudgetAllocation } from "./campaigns/validation";
+import { formatCurrency } from "./campaigns/helpers";
+import { getRecommendationForUpdate } from "./recommendations";
+import { flagOutOfDateSimulations } from "./simulationStaleness";
+import { RECOMMENDATION_STATUS_TRANSITIONS } from "../src/lib/simulation/orchestration/RecommendationOutcomeTracker";
+import {
+  planBudgetReallocation,
+  planBudgetAllocation,
+  revertBudgetReallocation,
+  BudgetReallocationPlan,
+} from "../src/lib/simulation/orchestration/BudgetReallocationPlanner";
+
+// How long an applied budget change can be undone
+export const BUDGET_CHANGE_UNDO_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Write new channel budgets to the campaign after checking them against its
+ * budget, and flag simulations computed for the previous split
+ */
+async function updateCampaignBudgets(
+  ctx: MutationCtx,
+  campaign: Doc<"campaigns">,
+  plan: BudgetReallocationPlan<Doc<"campaigns">["channels"][number]>,
+  userId: Id<"users">
+) {
+  const validation = validateBudgetAllocation(campaign.budget, plan.allocation);
+  if (!validation.isValid) {
+    throw new Error(`Validation failed: ${validation.error}`);
+  }
+
+  await ctx.db.patch(campaign._id, {
+    budgetAllocation: { ...campaign.budgetAllocation, channels: plan.allocation },
+    channels: plan.channels,
+    updatedAt: Date.now(),
+  });
+
+  await flagOutOfDateSimulations(ctx, campaign, userId);
+}
+
+/**
+ * Tell the campaign team (except whoever made the change) about it
+ */
+async function notifyBudgetChange(
+  ctx: MutationCtx,
+  campaign: Doc<"campaigns">,
+  userId: Id<"users">,
+  title: string,
+  message: string,
+  budgetChangeId: Id<"budgetChanges">
+) {
+  const teamMemberIds = campaign.teamMembers
+    .filter((member) => member.userId !== userId && member.notifications !== false)
+    .map((member) => member.userId);
+
+  for (const memberId of teamMemberIds) {
+    await ctx.runMutation(api.notifications.createNotification, {
+      userId: memberId,
+      type: "campaign_updated",
+      title,
+      message,
+      campaignId: campaign._id,
+      organizationId: campaign.organizationId,
+      metadata: {
+        updatedBy: userId,
+        campaignName: campaign.name,
+        budgetChangeId,
+      },
+      priority: "medium",
+    });
+  }
+}
+
+function describeChange(
+  changes: Doc<"budgetChanges">["changes"],
+  currency: string
+) {
+  return changes
+    .map(
+      (change) =>
+        `${change.channel} ${formatCurrency(change.allocationBefore, currency)} → ${formatCurrency(change.allocationAfter, currency)}`
+    )
+    .join(", ");
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Apply the budget move of a budget_reallocation recommendation to its campaign
+ */
+export const applyBudgetReallocation = mutation({
+  args: {
+    simulationId: v.id("simulations"),
+    recommendationId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const { simulation, recommendation, tracked } =
+      await getRecommendationForUpdate(
+        ctx,
+        args.simulationId,
+        args.recommendationId,
+        userId
+      );
+
+    if (recommendation.type !== "budget_reallocation" || !recommendation.reallocation) {
+      throw new Error("Only budget reallocation recommendations can be applied to the campaign");
+    }
+    if (!RECOMMENDATION_STATUS_TRANSITIONS[tracked.status].includes("applied")) {
+      throw new Error(`Cannot apply a recommendation with status: ${tracked.status}`);
+    }
+
+    const campaign = await ctx.db.get(simulation.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+    if (!canEditCampaign(userId, campaign)) {
+      throw new Error("Not authorized to update this campaign");
+    }
+
+    const plan = planBudgetReallocation(
+      { allocation: campaign.budgetAllocation.channels, channels: campaign.channels },
+      recommendation.reallocation
+    );
+    await updateCampaignBudgets(ctx, campaign, plan, userId);
+
+    const now = Date.now();
+    const description = `Applied recommendation: ${recommendation.implementation.description}`;
+    const budgetChangeId = await ctx.db.insert("budgetChanges", {
+      campaignId: campaign._id,
+      organizationId: campaign.organizationId,
+      changedBy: userId,
+      description,
+      source: {
+        simulationId: simulation._id,
+        recommendationId: recommendation.id,
+        previousStatus: tracked.status,
+      },
+      changes: plan.changes,
+      undoableUntil: now + BUDGET_CHANGE_UNDO_WINDOW_MS,
+      createdAt: now,
+    });
+
+    await ctx.db.patch(tracked._id, {
+      status: "applied",
+      ownerId: tracked.ownerId ?? userId,
+      dismissalReason: undefined,
+      appliedAt: now,
+      statusChangedBy: userId,
+      statusChangedAt: now,
+      updatedAt: now,
+    });
+
+    await notifyBudgetChange(
+      ctx,
+      campaign,
+      userId,
+      "Budget Reallocated",
+      `Channel budgets of "${campaign.name}" were updated from a simulation recommendation: ${describeChange(plan.changes, campaign.currency)}`,
+      budgetChangeId
+    );
+
+    return {
+      budgetChangeId,
+      undoableUntil: now + BUDGET_CHANGE_UNDO_WINDOW_MS,
+    };
+  },
+});
+
+/**
+ * Replace the campaign's channel budgets with a new split, e.g. the one the
+ * budget optimizer suggests
+ */
+export const applyBudgetAllocation = mutation({
+  args: {
+    campaignId: v.id("campaigns"),
+    allocation: v.record(v.string(), v.number()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+    if (!canEditCampaign(userId, campaign)) {
+      throw new Error("Not authorized to update this campaign");
+    }
+
+    const plan = planBudgetAllocation(
+      { allocation: campaign.budgetAllocation.channels, channels: campaign.channels },
+      args.allocation
+    );
+    await updateCampaignBudgets(ctx, campaign, plan, userId);
+
+    const now = Date.now();
+    const budgetChangeId = await ctx.db.insert("budgetChanges", {
+      campaignId: campaign._id,
+      organizationId: campaign.organizationId,
+      changedBy: userId,
+      description: args.description ?? "Applied a new channel budget split",
+      changes: plan.changes,
+      undoableUntil: now + BUDGET_CHANGE_UNDO_WINDOW_MS,
+      createdAt: now,
+    });
+
+    await notifyBudgetChange(
+      ctx,
+      campaign,
+      userId,
+      "Budget Reallocated",
+      `Channel budgets of "${campaign.name}" were updated: ${describeChange(plan.changes, campaign.currency)}`,
+      budgetChangeId
+    );
+
+    return {
+      budgetChangeId,
+      undoableUntil: now + BUDGET_CHANGE_UNDO_WINDOW_MS,
+    };
+  },
+});
+
+/**
+ * Undo a budget change within its undo window, unless the budgets it touched
+ * have been edited since
+ */
+export const undoBudgetChange = mutation({
+  args: {
+    budgetChangeId: v.id("budgetChanges"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const budgetChange = await ctx.db.get(args.budgetChangeId);
+    if (!budgetChange) {
+      throw new Error("Budget change not found");
+    }
+
+    const campaign = await ctx.db.get(budgetChange.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+    if (!canEditCampaign(userId, campaign)) {
+      throw new Error("Not authorized to update this campaign");
+    }
+
+    const now = Date.now();
+    if (budgetChange.undoneAt) {
+      throw new Error("Budget change has already been undone");
+    }
+    if (now > budgetChange.undoableUntil) {
+      throw new Error("The undo window for this budget change has expired");
+    }
+
+    const plan = revertBudgetReallocation(
+      { allocation: campaign.budgetAllocation.channels, channels: campaign.channels },
+      budgetChange.changes
+    );
+    await updateCampaignBudgets(ctx, campaign, plan, userId);
+
+    await ctx.db.patch(budgetChange._id, {
+      undoneAt: now,
+      undoneBy: userId,
+    });
+
+    // The recommendation goes back to where it was before it was applied
+    if (budgetChange.source) {
+      const { simulationId, recommendationId, previousStatus } = budgetChange.source;
+      const tracked = await ctx.db
+        .query("recommendations")
+        .withIndex("by_simulation_recommendation", (q) =>
+          q.eq("simulationId", simulationId).eq("recommendationId", recommendationId)
+        )
+        .first();
+
+      if (tracked) {
+        await ctx.db.patch(tracked._id, {
+          status: previousStatus,
+          appliedAt: undefined,
+          statusChangedBy: userId,
+          statusChangedAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+
+    await notifyBudgetChange(
+      ctx,
+      campaign,
+      userId,
+      "Budget Change Undone",
+      `Channel budgets of "${campaign.name}" were restored: ${describeChange(plan.changes, campaign.currency)}`,
+      budgetChange._id
+    );
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Budget changes of a campaign, newest first, with who made and undid them
+ */
+export const getBudgetChanges = query({
+  args: {
+    campaignId: v.id("campaigns"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+    if (!canViewCampaign(userId, campaign)) {
+      throw new Error("Not authorized to view this campaign");
+    }
+
+    const budgetChanges = await ctx.db
+      .query("budgetChanges")
+      .withIndex("by_campaign", (q) => q.eq("campaignId", args.campaignId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 20, 100));
+
+    const now = Date.now();
+    return await Promise.all(
+      budgetChanges.map(async (budgetChange) => {
+        const changedBy = await ctx.db.get(budgetChange.changedBy);
+        const undoneBy = budgetChange.undoneBy
+          ? await ctx.db.get(budgetChange.undoneBy)
+          : null;
+
+        return {
+          ...budgetChange,
+          changedByName: changedBy?.name ?? changedBy?.email,
+          undoneByName: undoneBy?.name ?? undoneBy?.email,
+          canUndo:
+            !budgetChange.undoneAt &&
+            now <= budgetChange.undoableUntil &&
+            canEditCampaign(userId, campaign),
+        };
+      })
+    );
+  },
+});
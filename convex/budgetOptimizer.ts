@@ -0,0 +1,225 @@
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { canViewCampaign } from "./permissions";
+import {
+  fitResponseCurves,
+  optimizeBudgetAllocation as solveBudgetAllocation,
+  SpendObservation,
+  RESPONSE_METRICS,
+} from "../src/lib/simulation/orchestration/BudgetAllocationOptimizer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many recent campaigns of the organization a new campaign learns from
+const HISTORY_CAMPAIGN_LIMIT = 20;
+
+/**
+ * Days on which a campaign recorded both spend and actual metrics
+ */
+export async function loadSpendObservations(
+  ctx: QueryCtx,
+  campaign: Doc<"campaigns">,
+  simulations: Doc<"simulations">[]
+): Promise<SpendObservation[]> {
+  const spendEntries = await ctx.db
+    .query("spendLedger")
+    .withIndex("by_campaign_date", (q) => q.eq("campaignId", campaign._id))
+    .collect();
+
+  const spendByDay = new Map<number, Record<string, number>>();
+  for (const entry of spendEntries) {
+    const day = Math.floor(entry.date / DAY_MS) * DAY_MS;
+    const spend = spendByDay.get(day) ?? {};
+    spend[entry.channel] = (spend[entry.channel] ?? 0) + entry.amount;
+    spendByDay.set(day, spend);
+  }
+
+  // Mean of each metric per day, across the simulations that recorded it
+  const actualsByDay = new Map<number, Record<string, { sum: number; count: number }>>();
+  for (const simulation of simulations) {
+    for (const comparison of simulation.performanceComparison?.comparisons ?? []) {
+      const day = Math.floor(comparison.date / DAY_MS) * DAY_MS;
+      const metrics = actualsByDay.get(day) ?? {};
+      const total = metrics[comparison.metric] ?? { sum: 0, count: 0 };
+      metrics[comparison.metric] = {
+        sum: total.sum + comparison.actualValue,
+        count: total.count + 1,
+      };
+      actualsByDay.set(day, metrics);
+    }
+  }
+
+  const observations: SpendObservation[] = [];
+  for (const [day, spend] of spendByDay) {
+    const actuals = actualsByDay.get(day);
+    if (!actuals) continue;
+
+    observations.push({
+      spend,
+      metrics: Object.fromEntries(
+        Object.entries(actuals).map(([metric, total]) => [
+          metric,
+          total.sum / total.count,
+        ])
+      ),
+    });
+  }
+  return observations;
+}
+
+/**
+ * Mean daily metrics of the campaign's latest completed simulation
+ */
+export function simulatedDailyMetrics(simulations: Doc<"simulations">[]) {
+  const latest = simulations
+    .filter((simulation) => simulation.status === "completed" && simulation.results)
+    .sort((a, b) => (b.completedAt ?? b.createdAt) - (a.completedAt ?? a.createdAt))[0];
+  const trajectory = latest?.results?.trajectories ?? [];
+  if (trajectory.length === 0) {
+    return undefined;
+  }
+
+  const totals: Record<string, number> = {};
+  trajectory.forEach((point) => {
+    Object.entries(point.metrics).forEach(([metric, value]) => {
+      totals[metric] = (totals[metric] ?? 0) + value;
+    });
+  });
+  return Object.fromEntries(
+    Object.entries(totals).map(([metric, total]) => [metric, total / trajectory.length])
+  );
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Split a budget across channels to maximize the weighted KPIs. Response
+ * curves are fitted from the campaign's recorded spend and actuals (or, for a
+ * campaign still being planned, the organization's recent campaigns) and its
+ * latest simulation.
+ */
+export const optimizeBudgetAllocation = query({
+  args: {
+    organizationId: v.id("organizations"),
+    campaignId: v.optional(v.id("campaigns")),
+    totalBudget: v.number(),
+    startDate: v.number(),
+    endDate: v.number(),
+    channels: v.array(
+      v.object({
+        type: v.string(),
+        min: v.optional(v.number()),
+        max: v.optional(v.number()),
+        current: v.optional(v.number()),
+      })
+    ),
+    kpis: v.array(
+      v.object({
+        type: v.string(),
+        weight: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+
+    let historyCampaigns: Doc<"campaigns">[];
+    if (args.campaignId) {
+      const campaign = await ctx.db.get(args.campaignId);
+      if (!campaign || campaign.organizationId !== args.organizationId) {
+        throw new Error("Campaign not found");
+      }
+      if (!canViewCampaign(userId, campaign)) {
+        throw new Error("Not authorized to view this campaign");
+      }
+      historyCampaigns = [campaign];
+    } else {
+      historyCampaigns = await ctx.db
+        .query("campaigns")
+        .withIndex("by_organization", (q) =>
+          q.eq("organizationId", args.organizationId)
+        )
+        .order("desc")
+        .take(HISTORY_CAMPAIGN_LIMIT);
+    }
+
+    const observations: SpendObservation[] = [];
+    let simulatedDaily: Record<string, number> | undefined;
+    for (const campaign of historyCampaigns) {
+      const simulations = await ctx.db
+        .query("simulations")
+        .withIndex("by_campaign", (q) => q.eq("campaignId", campaign._id))
+        .collect();
+
+      observations.push(...(await loadSpendObservations(ctx, campaign, simulations)));
+      if (args.campaignId) {
+        simulatedDaily = simulatedDailyMetrics(simulations);
+      }
+    }
+
+    const days = Math.max(1, Math.ceil((args.endDate - args.startDate) / DAY_MS));
+    const curves = fitResponseCurves({
+      channels: args.channels.map((channel) => channel.type),
+      // The simulation ran on the current split
+      referenceSpend: Object.fromEntries(
+        args.channels.map((channel) => [
+          channel.type,
+          (channel.current ?? args.totalBudget / args.channels.length) / days,
+        ])
+      ),
+      observations,
+      simulatedDaily,
+    });
+
+    const dataSources = RESPONSE_METRICS.map((metric) => ({
+      metric,
+      source: curves[metric].source,
+      observations: curves[metric].observations,
+      elasticity: curves[metric].elasticity,
+    }));
+
+    try {
+      const result = solveBudgetAllocation({
+        totalBudget: args.totalBudget,
+        days,
+        channels: args.channels.map((channel) => ({
+          channel: channel.type,
+          min: channel.min,
+          max: channel.max,
+          current: channel.current,
+        })),
+        kpis: args.kpis,
+        curves,
+      });
+
+      return { feasible: true as const, days, dataSources, ...result };
+    } catch (error) {
+      // Constraints being edited can be infeasible; report it instead of failing
+      return {
+        feasible: false as const,
+        days,
+        dataSources,
+        error: error instanceof Error ? error.message : "Optimization failed",
+      };
+    }
+  },
+});
@@ -29,6 +29,7 @@ import {
   notifyCampaignCreation,
   notifyRoleChange,
 } from "../notifications";
+import { flagOutOfDateSimulations } from "../simulationStaleness";
 // Note: Now using getOrCreateUserProfile from users module and new permission/notification systems
 
 // Create a new campaign
@@ -188,6 +189,9 @@ export const createCampaignFromWizard = mutation({
       // KPIs and Metrics
       kpis: kpisMetrics.primaryKPIs,
       customMetrics: kpisMetrics.customMetrics,
+      ...(kpisMetrics.conversionValue !== undefined
+        ? { conversionValue: kpisMetrics.conversionValue }
+        : {}),
 
       // Access Control
       organizationId: args.organizationId,
@@ -351,6 +355,7 @@ export const updateCampaign = mutation({
       ...args.updates,
       updatedAt: Date.now(),
     });
+    await flagOutOfDateSimulations(ctx, campaign, userId);
 
     // Notify team members about campaign update (except the updater)
     const teamMemberIds = campaign.teamMembers
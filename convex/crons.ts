@@ -10,4 +10,35 @@ crons.interval(
   internal.campaigns.cleanup.cleanupExpiredDrafts
 );
 
+// Re-simulate active campaigns on their organization's cadence; checked hourly
+crons.interval(
+  "re-simulate active campaigns",
+  { hours: 1 },
+  internal.scheduledSimulations.scheduleRecurringSimulations,
+  {}
+);
+
+// Drop expired memoized model responses once a day
+crons.interval(
+  "cleanup expired model responses",
+  { hours: 24 },
+  internal.modelResponseCache.cleanupExpiredModelResponses
+);
+
+// Score model forecasts whose simulations have actuals that were not evaluated yet
+crons.interval(
+  "evaluate pending model predictions",
+  { hours: 24 },
+  internal.ensembleWeights.evaluatePendingModelPredictions,
+  {}
+);
+
+// Relearn ensemble weights from the model forecasts evaluated against actuals
+crons.interval(
+  "recompute ensemble weights",
+  { hours: 24 },
+  internal.ensembleWeights.recomputeEnsembleWeights,
+  {}
+);
+
 export default crons;
\ No newline at end of file
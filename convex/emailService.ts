@@ -15,7 +15,8 @@ export type EmailTemplate =
   | "role_changed"
   | "campaign_published"
   | "campaign_deleted"
-  | "team_member_removed";
+  | "team_member_removed"
+  | "risk_alert";
 
 // Email data interface
 interface EmailData {
@@ -181,6 +182,23 @@ export function getEmailTemplate(
         `,
       };
 
+    case "risk_alert":
+      return {
+        subject: `Risk rule matched: ${data.ruleName}`,
+        body: `
+          Hi ${data.userName || "there"},
+          
+          The risk rule "${data.ruleName}" matched in a simulation of the campaign "${data.campaignName}".
+          
+          ${data.descriptions.join("\n          ")}
+          
+          You can review the simulation in your PivotPulse dashboard.
+          
+          Best regards,
+          The PivotPulse Team
+        `,
+      };
+
     default:
       return {
         subject: "PivotPulse Notification",
@@ -0,0 +1,457 @@
+/**
+ * Learned ensemble weights
+ *
+ * Every simulation keeps each model's own forecast in `modelPerformanceMetrics`.
+ * When actual results are stored for a simulation, the server scores each
+ * forecast against them. That accuracy feeds the ensemble weights of the
+ * organization, which are recomputed daily by campaign category, metric and
+ * forecast horizon. Simulations then weight their models by those weights.
+ */
+
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  ForecastAccuracySample,
+  forecastHorizonBetween,
+  learnEnsembleWeights,
+  LearnedWeightSegment,
+} from "../src/lib/simulation/ai-models/LearnedEnsembleWeights";
+import { evaluateForecast } from "../src/lib/simulation/performance/ForecastAccuracy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Forecasts evaluated longer ago than this no longer shape the weights
+const ACCURACY_LOOKBACK_DAYS = 90;
+
+// Pending forecasts checked for new actuals per scheduled batch
+const PENDING_BATCH_SIZE = 200;
+
+// Evaluated forecasts read per query; each carries its points
+const FORECAST_PAGE_SIZE = 50;
+
+// Organizations whose recompute is scheduled per batch
+const ORGANIZATION_BATCH_SIZE = 100;
+
+const learnedWeightSegmentValidator = v.object({
+  category: v.string(),
+  metric: v.string(),
+  horizon: v.union(
+    v.literal("short"),
+    v.literal("medium"),
+    v.literal("long"),
+    v.literal("*")
+  ),
+  weights: v.record(v.string(), v.number()),
+  accuracy: v.array(
+    v.object({
+      modelName: v.string(),
+      samples: v.number(),
+      mape: v.number(),
+      rmse: v.number(),
+    })
+  ),
+});
+
+interface EvaluatedForecastPage {
+  samples: ForecastAccuracySample[];
+  evaluations: number;
+  isDone: boolean;
+  continueCursor: string;
+}
+
+const actualKey = (date: number, metric: string) =>
+  `${Math.floor(date / DAY_MS)}|${metric}`;
+
+async function requireOrganizationMember(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Authentication required");
+  }
+
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization_user", (q) =>
+      q.eq("organizationId", organizationId).eq("userId", userId)
+    )
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+
+  if (!membership) {
+    throw new Error("Access denied: User not member of organization");
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Ensemble weights currently learned for an organization, or null before
+ * enough forecasts have been evaluated
+ */
+export const getEnsembleWeights = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    await requireOrganizationMember(ctx, args.organizationId);
+
+    return await ctx.db
+      .query("ensembleWeights")
+      .withIndex("by_organization", (q) =>
+        q.eq("organizationId", args.organizationId)
+      )
+      .first();
+  },
+});
+
+/**
+ * Learned weight segments of an organization (internal - used by the simulation runner)
+ */
+export const getEnsembleWeightsForRun = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const learned = await ctx.db
+      .query("ensembleWeights")
+      .withIndex("by_organization", (q) =>
+        q.eq("organizationId", args.organizationId)
+      )
+      .first();
+
+    return learned?.segments ?? null;
+  },
+});
+
+/**
+ * Accuracy samples of one page of an organization's forecasts evaluated since
+ * `since` (internal - used by the ensemble weight recompute)
+ */
+export const getEvaluatedForecastPage = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+    since: v.number(),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<EvaluatedForecastPage> => {
+    const page = await ctx.db
+      .query("modelPerformanceMetrics")
+      .withIndex("by_organization_evaluated_at", (q) =>
+        q.eq("organizationId", args.organizationId).gte("evaluatedAt", args.since)
+      )
+      .paginate({ numItems: FORECAST_PAGE_SIZE, cursor: args.cursor });
+
+    const campaigns = new Map<Id<"campaigns">, Doc<"campaigns"> | null>();
+    const samples: ForecastAccuracySample[] = [];
+    let evaluations = 0;
+
+    for (const row of page.page) {
+      // Pending forecasts and validation reports carry no accuracy
+      if (!row.accuracyMetrics || row.predictions.length === 0) {
+        continue;
+      }
+
+      if (!campaigns.has(row.campaignId)) {
+        campaigns.set(row.campaignId, await ctx.db.get(row.campaignId));
+      }
+      const campaign = campaigns.get(row.campaignId);
+      if (!campaign) {
+        continue;
+      }
+
+      const firstDate = new Date(Math.min(...row.predictions.map((p) => p.date)));
+      evaluations += 1;
+      for (const point of row.predictions) {
+        if (point.actualValue === undefined) {
+          continue;
+        }
+
+        samples.push({
+          modelName: row.modelName,
+          category: campaign.category,
+          metric: point.metric,
+          horizon: forecastHorizonBetween(firstDate, new Date(point.date)),
+          predictedValue: point.predictedValue,
+          actualValue: point.actualValue,
+        });
+      }
+    }
+
+    return {
+      samples,
+      evaluations,
+      isDone: page.isDone,
+      continueCursor: page.continueCursor,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Keep each model's forecast of a simulation until actuals arrive
+ * (internal - used by the simulation runner)
+ */
+export const recordModelPredictions = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    predictions: v.array(
+      v.object({
+        modelName: v.string(),
+        modelVersion: v.string(),
+        points: v.array(
+          v.object({
+            date: v.number(),
+            metric: v.string(),
+            predictedValue: v.number(),
+            confidence: v.number(),
+          })
+        ),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      throw new Error("Simulation not found");
+    }
+
+    const recorded = await ctx.db
+      .query("modelPerformanceMetrics")
+      .withIndex("by_simulation", (q) => q.eq("simulationId", args.simulationId))
+      .collect();
+    const recordedModels = new Set(recorded.map((row) => row.modelName));
+
+    const now = Date.now();
+    for (const prediction of args.predictions) {
+      if (recordedModels.has(prediction.modelName) || prediction.points.length === 0) {
+        continue;
+      }
+
+      await ctx.db.insert("modelPerformanceMetrics", {
+        simulationId: args.simulationId,
+        campaignId: simulation.campaignId,
+        organizationId: simulation.organizationId,
+        modelName: prediction.modelName,
+        modelVersion: prediction.modelVersion,
+        predictions: prediction.points,
+        performanceStatus: "pending",
+        alerts: [],
+        evaluatedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Score each model's forecast of a simulation against the actual results
+ * stored for it. Forecasts stay pending until actuals cover one of their days.
+ * (internal - scheduled when actuals are stored, and by cron job)
+ */
+export const evaluateModelAccuracy = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    const comparisons = simulation?.performanceComparison?.comparisons ?? [];
+    if (comparisons.length === 0) {
+      return { evaluated: 0 };
+    }
+
+    // Actuals are per day; hourly forecasts of a day share its value
+    const actuals = new Map<string, number>();
+    for (const comparison of comparisons) {
+      const key = actualKey(comparison.date, comparison.metric);
+      if (!actuals.has(key)) {
+        actuals.set(key, comparison.actualValue);
+      }
+    }
+
+    const forecasts = await ctx.db
+      .query("modelPerformanceMetrics")
+      .withIndex("by_simulation", (q) => q.eq("simulationId", args.simulationId))
+      .collect();
+
+    const now = Date.now();
+    let evaluated = 0;
+    for (const forecast of forecasts) {
+      const evaluation = evaluateForecast(forecast.predictions, (date, metric) =>
+        actuals.get(actualKey(date.getTime(), metric))
+      );
+      if (!evaluation) {
+        continue;
+      }
+
+      await ctx.db.patch(forecast._id, {
+        predictions: evaluation.predictions,
+        accuracyMetrics: evaluation.accuracyMetrics,
+        performanceStatus: evaluation.performanceStatus,
+        evaluatedAt: now,
+        updatedAt: now,
+      });
+      evaluated++;
+    }
+
+    return { evaluated };
+  },
+});
+
+/**
+ * Check pending forecasts of the lookback window for actuals stored since
+ * they were recorded, one page at a time (internal - used by cron job)
+ */
+export const evaluatePendingModelPredictions = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("modelPerformanceMetrics")
+      .withIndex("by_performance_status", (q) =>
+        q
+          .eq("performanceStatus", "pending")
+          .gte("_creationTime", Date.now() - ACCURACY_LOOKBACK_DAYS * DAY_MS)
+      )
+      .paginate({ numItems: PENDING_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    const simulationIds = new Set(page.page.map((row) => row.simulationId));
+    for (const simulationId of simulationIds) {
+      await ctx.scheduler.runAfter(0, internal.ensembleWeights.evaluateModelAccuracy, {
+        simulationId,
+      });
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.ensembleWeights.evaluatePendingModelPredictions,
+        { cursor: page.continueCursor }
+      );
+    }
+
+    return { scheduled: simulationIds.size };
+  },
+});
+
+/**
+ * Store an organization's learned weights; without segments the organization
+ * falls back to dynamic weights (internal - used by the ensemble weight recompute)
+ */
+export const storeEnsembleWeights = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    segments: v.array(learnedWeightSegmentValidator),
+    sampleCount: v.number(),
+    evaluationCount: v.number(),
+    computedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId, ...learned } = args;
+    const existing = await ctx.db
+      .query("ensembleWeights")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .first();
+
+    if (learned.segments.length === 0) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      return null;
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, learned);
+      return existing._id;
+    }
+    return await ctx.db.insert("ensembleWeights", { organizationId, ...learned });
+  },
+});
+
+/**
+ * Schedule the recompute of every organization's ensemble weights, one page
+ * of organizations at a time (internal - used by cron job)
+ */
+export const recomputeEnsembleWeights = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("organizations")
+      .paginate({ numItems: ORGANIZATION_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const organization of page.page) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.ensembleWeights.recomputeOrganizationEnsembleWeights,
+        { organizationId: organization._id }
+      );
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.ensembleWeights.recomputeEnsembleWeights, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { scheduled: page.page.length };
+  },
+});
+
+/**
+ * Relearn an organization's ensemble weights from the forecasts evaluated in
+ * the lookback window, read page by page (internal - scheduled by recomputeEnsembleWeights)
+ */
+export const recomputeOrganizationEnsembleWeights = internalAction({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const computedAt = Date.now();
+    const since = computedAt - ACCURACY_LOOKBACK_DAYS * DAY_MS;
+
+    const samples: ForecastAccuracySample[] = [];
+    let evaluations = 0;
+    let cursor: string | null = null;
+    do {
+      const page: EvaluatedForecastPage = await ctx.runQuery(
+        internal.ensembleWeights.getEvaluatedForecastPage,
+        { organizationId: args.organizationId, since, cursor }
+      );
+      for (const sample of page.samples) {
+        samples.push(sample);
+      }
+      evaluations += page.evaluations;
+      cursor = page.isDone ? null : page.continueCursor;
+    } while (cursor);
+
+    const segments: LearnedWeightSegment[] = learnEnsembleWeights(samples);
+    await ctx.runMutation(internal.ensembleWeights.storeEnsembleWeights, {
+      organizationId: args.organizationId,
+      segments,
+      sampleCount: samples.length,
+      evaluationCount: evaluations,
+      computedAt,
+    });
+
+    return { segments: segments.length, samples: samples.length };
+  },
+});
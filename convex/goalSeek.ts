@@ -0,0 +1,151 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { canViewCampaign } from "./permissions";
+import { loadSpendObservations, simulatedDailyMetrics } from "./budgetOptimizer";
+import { fitResponseCurves } from "../src/lib/simulation/orchestration/BudgetAllocationOptimizer";
+import { solveGoalSeek as solveGoal } from "../src/lib/simulation/orchestration/GoalSeekSolver";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Spread of the KPI total when no simulation has sampled it yet
+const DEFAULT_UNCERTAINTY = 0.25;
+
+/**
+ * Coefficient of variation of the KPI's flight total across the Monte Carlo
+ * runs of the latest completed simulation
+ */
+function simulatedUncertainty(simulations: Doc<"simulations">[], kpiType: string) {
+  const latest = simulations
+    .filter((simulation) => simulation.status === "completed" && simulation.results)
+    .sort((a, b) => (b.completedAt ?? b.createdAt) - (a.completedAt ?? a.createdAt))[0];
+  const distribution = latest?.results?.monteCarlo?.kpiDistributions[kpiType];
+  if (!distribution || distribution.mean <= 0) {
+    return { uncertainty: DEFAULT_UNCERTAINTY, source: "default" as const };
+  }
+  return { uncertainty: distribution.stdDev / distribution.mean, source: "simulation" as const };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Goal seek: the smallest budget, shortest flight or best channel mix that
+ * reaches one of the campaign's KPI targets with the requested probability
+ */
+export const solveGoalSeek = query({
+  args: {
+    campaignId: v.id("campaigns"),
+    kpiType: v.string(),
+    target: v.optional(v.number()), // Defaults to the campaign's KPI target
+    timeframe: v.optional(v.string()),
+    variable: v.union(
+      v.literal("budget"),
+      v.literal("timeline"),
+      v.literal("channel_mix")
+    ),
+    probability: v.number(),
+    startDate: v.optional(v.number()),
+    endDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", campaign.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+    if (!canViewCampaign(userId, campaign)) {
+      throw new Error("Not authorized to view this campaign");
+    }
+
+    const kpi = campaign.kpis.find((entry) => entry.type === args.kpiType);
+    const target = args.target ?? kpi?.target;
+    if (target === undefined) {
+      throw new Error(`Campaign has no ${args.kpiType} KPI target`);
+    }
+    const timeframe = args.timeframe ?? kpi?.timeframe ?? "campaign";
+
+    const startDate = args.startDate ?? campaign.startDate;
+    const endDate = args.endDate ?? campaign.endDate;
+    const days = Math.max(1, Math.ceil((endDate - startDate) / DAY_MS));
+    const channels = campaign.channels
+      .filter((channel) => channel.enabled)
+      .map((channel) => ({
+        channel: channel.type,
+        budget: campaign.budgetAllocation.channels[channel.type] ?? channel.budget,
+      }));
+
+    const simulations = await ctx.db
+      .query("simulations")
+      .withIndex("by_campaign", (q) => q.eq("campaignId", campaign._id))
+      .collect();
+
+    const curves = fitResponseCurves({
+      channels: channels.map((entry) => entry.channel),
+      referenceSpend: Object.fromEntries(
+        channels.map((entry) => [entry.channel, entry.budget / days])
+      ),
+      observations: await loadSpendObservations(ctx, campaign, simulations),
+      simulatedDaily: simulatedDailyMetrics(simulations),
+    });
+    const { uncertainty, source: uncertaintySource } = simulatedUncertainty(
+      simulations,
+      args.kpiType
+    );
+
+    try {
+      const result = solveGoal({
+        kpi: { type: args.kpiType, target, timeframe },
+        variable: args.variable,
+        probability: args.probability,
+        budget: campaign.budget,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        channels,
+        curves,
+        uncertainty,
+      });
+
+      const serialize = (projection: typeof result.current) => ({
+        ...projection,
+        endDate: projection.endDate.getTime(),
+      });
+
+      return {
+        feasible: true as const,
+        ...result,
+        current: serialize(result.current),
+        solution: result.solution ? serialize(result.solution) : undefined,
+        currency: campaign.currency,
+        kpi: { type: args.kpiType, target, timeframe },
+        curveSource: curves[result.metric].source,
+        uncertainty,
+        uncertaintySource,
+      };
+    } catch (error) {
+      // Targets being edited can be invalid; report it instead of failing
+      return {
+        feasible: false as const,
+        error: error instanceof Error ? error.message : "Goal seek failed",
+      };
+    }
+  },
+});
@@ -0,0 +1,199 @@
+/**
+ * Per-organization LLM endpoint settings
+ *
+ * Organizations that may not send campaign data to OpenAI point LLM-backed
+ * features at an OpenAI-compatible server they host, e.g. a local model
+ * gateway. Endpoint API keys are stored encrypted and never returned to clients.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { encryptToken } from "./lib/encryption";
+
+const MAX_TEMPERATURE = 2;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * LLM endpoint of an organization; null when it uses OpenAI
+ */
+export const getLLMProviderSettings = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const llmProvider = organization.settings.llmProvider;
+    return {
+      provider: llmProvider
+        ? {
+            baseUrl: llmProvider.baseUrl,
+            model: llmProvider.model,
+            temperature: llmProvider.temperature,
+            maxTokens: llmProvider.maxTokens,
+            jsonMode: llmProvider.jsonMode ?? true,
+            hasApiKey: llmProvider.apiKey !== undefined,
+          }
+        : null,
+      canManage: ["owner", "admin"].includes(membership.role),
+    };
+  },
+});
+
+/**
+ * LLM endpoint a simulation run of the organization calls, with the API key
+ * still encrypted (internal - used by the simulation runner)
+ */
+export const getLLMProviderForRun = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const organization = await ctx.db.get(args.organizationId);
+    return organization?.settings.llmProvider ?? null;
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Point the organization's LLM-backed features at an OpenAI-compatible
+ * endpoint, or back at OpenAI when `provider` is null. The stored API key is
+ * kept only while the endpoint stays the same, so a key is never sent to a
+ * server it was not issued for.
+ */
+export const updateLLMProviderSettings = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    provider: v.union(
+      v.null(),
+      v.object({
+        baseUrl: v.string(),
+        model: v.string(),
+        temperature: v.optional(v.number()),
+        maxTokens: v.optional(v.number()),
+        jsonMode: v.optional(v.boolean()),
+        // New key; omit to keep the stored one, empty to remove it
+        apiKey: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+    if (!["owner", "admin"].includes(membership.role)) {
+      throw new Error(
+        "Access denied: Admin privileges required to change the LLM provider"
+      );
+    }
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const { llmProvider: current, ...settings } = organization.settings;
+    if (!args.provider) {
+      await ctx.db.patch(args.organizationId, {
+        settings,
+        updatedAt: Date.now(),
+      });
+      return { success: true };
+    }
+
+    const { apiKey, ...provider } = args.provider;
+    const baseUrl = provider.baseUrl.trim().replace(/\/+$/, "");
+    const model = provider.model.trim();
+
+    let url: URL;
+    try {
+      url = new URL(baseUrl);
+    } catch {
+      throw new Error("Invalid LLM provider: base URL must be an absolute URL");
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Invalid LLM provider: base URL must use http or https");
+    }
+    if (!model) {
+      throw new Error("Invalid LLM provider: model name is required");
+    }
+    if (
+      provider.temperature !== undefined &&
+      (provider.temperature < 0 || provider.temperature > MAX_TEMPERATURE)
+    ) {
+      throw new Error(
+        `Invalid LLM provider: temperature must be between 0 and ${MAX_TEMPERATURE}`
+      );
+    }
+    if (
+      provider.maxTokens !== undefined &&
+      (!Number.isInteger(provider.maxTokens) || provider.maxTokens <= 0)
+    ) {
+      throw new Error("Invalid LLM provider: max tokens must be a positive integer");
+    }
+
+    const storedApiKey =
+      apiKey !== undefined
+        ? apiKey
+          ? await encryptToken(apiKey)
+          : undefined
+        : current?.baseUrl === baseUrl
+          ? current.apiKey
+          : undefined;
+
+    await ctx.db.patch(args.organizationId, {
+      settings: {
+        ...settings,
+        llmProvider: {
+          ...provider,
+          baseUrl,
+          model,
+          ...(storedApiKey !== undefined ? { apiKey: storedApiKey } : {}),
+        },
+      },
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,199 @@
+/**
+ * Convex functions backing the model response cache
+ *
+ * Simulation runs memoize individual predictor calls here, so a re-run whose
+ * model inputs did not change reuses the earlier predictions instead of
+ * calling GPT or Hugging Face again. Entries are keyed on the provider, model,
+ * prompt version and a fingerprint of the dataset the model saw, and belong to
+ * the organization whose run cached them.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Cached response for a key; null when missing or expired (internal - used by the simulation runner)
+ */
+export const getModelResponse = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+    cacheKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("modelResponseCache")
+      .withIndex("by_organization_cache_key", (q) =>
+        q.eq("organizationId", args.organizationId).eq("cacheKey", args.cacheKey)
+      )
+      .first();
+
+    if (!cached || cached.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return cached;
+  },
+});
+
+/**
+ * Hit rate of an organization's model response cache, overall and by provider
+ * and model. Every stored entry was a miss, so the rate is hits / (hits + entries).
+ */
+export const getModelResponseCacheStats = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+    if (!["owner", "admin"].includes(membership.role)) {
+      throw new Error(
+        "Access denied: Admin privileges required to view model cache statistics"
+      );
+    }
+
+    const now = Date.now();
+    const entries = await ctx.db
+      .query("modelResponseCache")
+      .withIndex("by_organization", (q) =>
+        q.eq("organizationId", args.organizationId)
+      )
+      .collect();
+
+    const byModel = new Map<
+      string,
+      { provider: string; model: string; entries: number; hits: number }
+    >();
+    for (const entry of entries) {
+      const key = `${entry.provider}:${entry.model}`;
+      const stats = byModel.get(key) ?? {
+        provider: entry.provider,
+        model: entry.model,
+        entries: 0,
+        hits: 0,
+      };
+      stats.entries += 1;
+      stats.hits += entry.hits;
+      byModel.set(key, stats);
+    }
+
+    const hits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+    const hitRate = (hits: number, misses: number) =>
+      hits + misses > 0 ? hits / (hits + misses) : 0;
+
+    return {
+      totalEntries: entries.length,
+      expiredEntries: entries.filter((entry) => entry.expiresAt <= now).length,
+      hits,
+      misses: entries.length,
+      hitRate: hitRate(hits, entries.length),
+      byModel: Array.from(byModel.values())
+        .map((stats) => ({ ...stats, hitRate: hitRate(stats.hits, stats.entries) }))
+        .sort((a, b) => b.hits - a.hits),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Store a model response, replacing an earlier one under the same key
+ * (internal - used by the simulation runner)
+ */
+export const storeModelResponse = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    cacheKey: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    promptVersion: v.optional(v.string()),
+    response: v.string(),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("modelResponseCache")
+      .withIndex("by_organization_cache_key", (q) =>
+        q.eq("organizationId", args.organizationId).eq("cacheKey", args.cacheKey)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        response: args.response,
+        expiresAt: args.expiresAt,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("modelResponseCache", {
+      ...args,
+      hits: 0,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Count a cache hit (internal - used by the simulation runner)
+ */
+export const recordModelResponseHit = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    cacheKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("modelResponseCache")
+      .withIndex("by_organization_cache_key", (q) =>
+        q.eq("organizationId", args.organizationId).eq("cacheKey", args.cacheKey)
+      )
+      .first();
+
+    if (cached) {
+      await ctx.db.patch(cached._id, {
+        hits: cached.hits + 1,
+        lastHitAt: Date.now(),
+      });
+    }
+  },
+});
+
+/**
+ * Delete expired model responses (internal - used by cron job)
+ */
+export const cleanupExpiredModelResponses = internalMutation({
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("modelResponseCache")
+      .withIndex("by_expiry", (q) => q.lt("expiresAt", Date.now()))
+      .collect();
+
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+
+    return expired.length;
+  },
+});
@@ -14,7 +14,8 @@ export const createNotification = mutation({
       v.literal("campaign_updated"),
       v.literal("campaign_deleted"),
       v.literal("team_member_added"),
-      v.literal("team_member_removed")
+      v.literal("team_member_removed"),
+      v.literal("risk_alert")
     ),
     title: v.string(),
     message: v.string(),
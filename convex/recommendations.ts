@@ -0,0 +1,557 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { canEditCampaign } from "./permissions";
+import {
+  measureRecommendationOutcome,
+  summarizeRecommendationTypes,
+  RECOMMENDATION_STATUS_TRANSITIONS,
+  RecommendationOutcome,
+} from "../src/lib/simulation/orchestration/RecommendationOutcomeTracker";
+import { RecommendationImpactEstimator } from "../src/lib/simulation/orchestration/RecommendationImpactEstimator";
+import type {
+  PerformanceMetric,
+  PivotRecommendation,
+  TrajectoryPoint,
+} from "../src/types/simulation";
+
+const recommendationStatusValidator = v.union(
+  v.literal("new"),
+  v.literal("accepted"),
+  v.literal("dismissed"),
+  v.literal("applied")
+);
+
+type SimulationRecommendation = NonNullable<
+  Doc<"simulations">["results"]
+>["recommendations"][number];
+
+/**
+ * Check the user is an active member of the organization; viewers can only read
+ */
+async function requireMembership(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">,
+  userId: Id<"users">,
+  requireEditor: boolean
+) {
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization_user", (q) =>
+      q.eq("organizationId", organizationId).eq("userId", userId)
+    )
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+
+  if (!membership) {
+    throw new Error("Access denied: User not member of simulation organization");
+  }
+  if (requireEditor && membership.role === "viewer") {
+    throw new Error("Access denied: Viewers cannot update recommendations");
+  }
+
+  return membership;
+}
+
+async function getTrackedRecommendations(
+  ctx: QueryCtx,
+  simulationId: Id<"simulations">
+) {
+  return await ctx.db
+    .query("recommendations")
+    .withIndex("by_simulation_recommendation", (q) =>
+      q.eq("simulationId", simulationId)
+    )
+    .collect();
+}
+
+/**
+ * Actual metrics recorded against any of the campaign's simulations
+ */
+async function loadCampaignActuals(
+  ctx: QueryCtx,
+  campaignId: Id<"campaigns">
+): Promise<PerformanceMetric[]> {
+  const simulations = await ctx.db
+    .query("simulations")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", campaignId))
+    .collect();
+
+  return simulations.flatMap((simulation) =>
+    (simulation.performanceComparison?.comparisons ?? []).map((comparison) => ({
+      date: new Date(comparison.date),
+      metric: comparison.metric,
+      value: comparison.actualValue,
+    }))
+  );
+}
+
+function measureOutcome(
+  recommendation: Doc<"recommendations">,
+  actuals: PerformanceMetric[],
+  now: number
+) {
+  if (recommendation.status !== "applied" || !recommendation.appliedAt) {
+    return null;
+  }
+
+  return measureRecommendationOutcome({
+    metric: recommendation.impactEstimate.metric,
+    predictedImprovement: recommendation.impactEstimate.improvement,
+    appliedAt: new Date(recommendation.appliedAt),
+    actuals,
+    now: new Date(now),
+  });
+}
+
+function serializeOutcome(outcome: RecommendationOutcome) {
+  const serializeWindow = (window: RecommendationOutcome["before"]) => ({
+    start: window.start.getTime(),
+    end: window.end.getTime(),
+    days: window.days,
+    mean: window.mean,
+  });
+
+  return {
+    ...outcome,
+    before: serializeWindow(outcome.before),
+    after: serializeWindow(outcome.after),
+  };
+}
+
+/**
+ * Start tracking the recommendations of a completed simulation
+ */
+export async function trackSimulationRecommendations(
+  ctx: MutationCtx,
+  simulation: Doc<"simulations">,
+  recommendations: SimulationRecommendation[]
+) {
+  const tracked = await getTrackedRecommendations(ctx, simulation._id);
+  const trackedIds = new Set(tracked.map((entry) => entry.recommendationId));
+
+  const now = Date.now();
+  for (const recommendation of recommendations) {
+    if (trackedIds.has(recommendation.id)) {
+      continue;
+    }
+
+    await ctx.db.insert("recommendations", {
+      simulationId: simulation._id,
+      campaignId: simulation.campaignId,
+      organizationId: simulation.organizationId,
+      recommendationId: recommendation.id,
+      type: recommendation.type,
+      impactEstimate: recommendation.impact_estimate,
+      status: "new",
+      statusChangedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Find (or start tracking) a recommendation of a simulation the user can edit
+ */
+export async function getRecommendationForUpdate(
+  ctx: MutationCtx,
+  simulationId: Id<"simulations">,
+  recommendationId: string,
+  userId: Id<"users">
+) {
+  const simulation = await ctx.db.get(simulationId);
+  if (!simulation) {
+    throw new Error("Simulation not found");
+  }
+
+  await requireMembership(ctx, simulation.organizationId, userId, true);
+
+  const recommendation = simulation.results?.recommendations.find(
+    (entry) => entry.id === recommendationId
+  );
+  if (!recommendation) {
+    throw new Error("Recommendation not found");
+  }
+
+  const findTracked = () =>
+    ctx.db
+      .query("recommendations")
+      .withIndex("by_simulation_recommendation", (q) =>
+        q.eq("simulationId", simulationId).eq("recommendationId", recommendationId)
+      )
+      .first();
+
+  let tracked = await findTracked();
+  if (!tracked) {
+    // Simulations completed before tracking existed
+    await trackSimulationRecommendations(ctx, simulation, [recommendation]);
+    tracked = (await findTracked())!;
+  }
+
+  return { simulation, recommendation, tracked };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Move a recommendation through new → accepted/dismissed → applied
+ */
+export const updateRecommendationStatus = mutation({
+  args: {
+    simulationId: v.id("simulations"),
+    recommendationId: v.string(),
+    status: recommendationStatusValidator,
+    dismissalReason: v.optional(v.string()),
+    appliedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const { tracked: recommendation } = await getRecommendationForUpdate(
+      ctx,
+      args.simulationId,
+      args.recommendationId,
+      userId
+    );
+
+    if (!RECOMMENDATION_STATUS_TRANSITIONS[recommendation.status].includes(args.status)) {
+      throw new Error(
+        `Cannot change recommendation status from ${recommendation.status} to ${args.status}`
+      );
+    }
+
+    const dismissalReason = args.dismissalReason?.trim();
+    if (args.status === "dismissed" && !dismissalReason) {
+      throw new Error("A reason is required to dismiss a recommendation");
+    }
+
+    const now = Date.now();
+    const appliedAt = args.appliedAt ?? now;
+    if (args.status === "applied" && appliedAt > now) {
+      throw new Error("Applied date cannot be in the future");
+    }
+
+    await ctx.db.patch(recommendation._id, {
+      status: args.status,
+      // Whoever accepts or applies an unowned recommendation takes it on
+      ownerId:
+        args.status === "accepted" || args.status === "applied"
+          ? recommendation.ownerId ?? userId
+          : recommendation.ownerId,
+      dismissalReason: args.status === "dismissed" ? dismissalReason : undefined,
+      appliedAt: args.status === "applied" ? appliedAt : undefined,
+      statusChangedBy: userId,
+      statusChangedAt: now,
+      updatedAt: now,
+    });
+
+    return recommendation._id;
+  },
+});
+
+/**
+ * Assign a recommendation to an organization member, or clear its owner
+ */
+export const assignRecommendationOwner = mutation({
+  args: {
+    simulationId: v.id("simulations"),
+    recommendationId: v.string(),
+    ownerId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const { tracked: recommendation } = await getRecommendationForUpdate(
+      ctx,
+      args.simulationId,
+      args.recommendationId,
+      userId
+    );
+
+    if (args.ownerId) {
+      const ownerMembership = await ctx.db
+        .query("organizationMemberships")
+        .withIndex("by_organization_user", (q) =>
+          q
+            .eq("organizationId", recommendation.organizationId)
+            .eq("userId", args.ownerId!)
+        )
+        .filter((q) => q.eq(q.field("status"), "active"))
+        .first();
+
+      if (!ownerMembership) {
+        throw new Error("Owner must be an active member of the organization");
+      }
+    }
+
+    await ctx.db.patch(recommendation._id, {
+      ownerId: args.ownerId,
+      updatedAt: Date.now(),
+    });
+
+    return recommendation._id;
+  },
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Recommendations of a simulation with their lifecycle state and, once applied,
+ * the before/after outcome on actual metrics
+ */
+export const getSimulationRecommendations = query({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      throw new Error("Simulation not found");
+    }
+
+    const membership = await requireMembership(
+      ctx,
+      simulation.organizationId,
+      userId,
+      false
+    );
+
+    const tracked = await getTrackedRecommendations(ctx, args.simulationId);
+    const trackedById = new Map(tracked.map((entry) => [entry.recommendationId, entry]));
+    const actuals = tracked.some((entry) => entry.status === "applied")
+      ? await loadCampaignActuals(ctx, simulation.campaignId)
+      : [];
+
+    const now = Date.now();
+    const recommendations = await Promise.all(
+      (simulation.results?.recommendations ?? []).map(async (recommendation) => {
+        const state = trackedById.get(recommendation.id);
+        const owner = state?.ownerId ? await ctx.db.get(state.ownerId) : null;
+        const outcome = state ? measureOutcome(state, actuals, now) : null;
+        const budgetChange = recommendation.reallocation
+          ? await ctx.db
+              .query("budgetChanges")
+              .withIndex("by_source", (q) =>
+                q
+                  .eq("source.simulationId", args.simulationId)
+                  .eq("source.recommendationId", recommendation.id)
+              )
+              .order("desc")
+              .first()
+          : null;
+
+        return {
+          ...recommendation,
+          status: state?.status ?? ("new" as const),
+          ownerId: state?.ownerId,
+          ownerName: owner?.name ?? owner?.email,
+          dismissalReason: state?.dismissalReason,
+          appliedAt: state?.appliedAt,
+          statusChangedAt: state?.statusChangedAt,
+          outcome: outcome ? serializeOutcome(outcome) : null,
+          // Latest change that applied this recommendation to the campaign
+          budgetChange:
+            budgetChange && !budgetChange.undoneAt
+              ? {
+                  id: budgetChange._id,
+                  undoableUntil: budgetChange.undoableUntil,
+                }
+              : undefined,
+        };
+      })
+    );
+
+    const campaign = await ctx.db.get(simulation.campaignId);
+
+    return {
+      recommendations,
+      canUpdate: membership.role !== "viewer",
+      canEditCampaign:
+        membership.role !== "viewer" &&
+        !!campaign &&
+        canEditCampaign(userId, campaign),
+    };
+  },
+});
+
+/**
+ * Project a subset of a simulation's recommendations, with tweaked parameters,
+ * against its simulated trajectory. Deterministic, so the what-if builder can
+ * re-run it on every change.
+ */
+export const evaluateWhatIf = query({
+  args: {
+    simulationId: v.id("simulations"),
+    recommendationIds: v.array(v.string()),
+    adjustments: v.optional(
+      v.array(
+        v.object({
+          recommendationId: v.string(),
+          reallocationShare: v.optional(v.number()),
+          startDay: v.optional(v.number()),
+        })
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      throw new Error("Simulation not found");
+    }
+
+    await requireMembership(ctx, simulation.organizationId, userId, false);
+
+    if (!simulation.results) {
+      throw new Error("Simulation has no results yet");
+    }
+
+    for (const adjustment of args.adjustments ?? []) {
+      if (
+        adjustment.reallocationShare !== undefined &&
+        (adjustment.reallocationShare <= 0 || adjustment.reallocationShare > 1)
+      ) {
+        throw new Error("Reallocation share must be between 0 and 1");
+      }
+      if (adjustment.startDay !== undefined && adjustment.startDay < 0) {
+        throw new Error("Start day cannot be negative");
+      }
+    }
+
+    const campaign = await ctx.db.get(simulation.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const selected = new Set(args.recommendationIds);
+    const recommendations = simulation.results.recommendations.filter(
+      (recommendation) => selected.has(recommendation.id)
+    ) as PivotRecommendation[];
+
+    const dataQuality = simulation.modelMetadata?.dataQuality;
+    const estimator = new RecommendationImpactEstimator();
+    const workspace = await estimator.evaluateWhatIf(
+      {
+        recommendations,
+        adjustments: Object.fromEntries(
+          (args.adjustments ?? []).map(({ recommendationId, ...adjustment }) => [
+            recommendationId,
+            adjustment,
+          ])
+        ),
+        channelBudgets: Object.fromEntries(
+          campaign.channels.map((channel) => [
+            channel.type,
+            campaign.budgetAllocation.channels[channel.type] ?? channel.budget,
+          ])
+        ),
+      },
+      {
+        currentTrajectory: simulation.results.trajectories.map((point) => ({
+          ...point,
+          date: new Date(point.date),
+        })),
+        // Campaigns carry no creative inventory; count one creative per channel
+        campaignData: { creativeAssets: campaign.channels },
+        simulationContext: dataQuality
+          ? {
+              dataset: {
+                dataQuality: {
+                  overall:
+                    (dataQuality.completeness +
+                      dataQuality.accuracy +
+                      dataQuality.freshness) /
+                    3,
+                },
+              },
+            }
+          : undefined,
+      }
+    );
+
+    const serializeTrajectory = (trajectory: TrajectoryPoint[]) =>
+      trajectory.map((point) => ({ ...point, date: point.date.getTime() }));
+
+    return {
+      ...workspace,
+      baseline: serializeTrajectory(workspace.baseline),
+      projection: serializeTrajectory(workspace.projection),
+      uncertaintyBounds: {
+        lower: serializeTrajectory(workspace.uncertaintyBounds.lower),
+        upper: serializeTrajectory(workspace.uncertaintyBounds.upper),
+      },
+    };
+  },
+});
+
+/**
+ * Acceptance and realised impact per recommendation type across an organization
+ */
+export const getRecommendationTypePerformance = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    await requireMembership(ctx, args.organizationId, userId, false);
+
+    const recommendations = await ctx.db
+      .query("recommendations")
+      .withIndex("by_organization", (q) =>
+        q.eq("organizationId", args.organizationId)
+      )
+      .collect();
+
+    const actualsByCampaign = new Map<Id<"campaigns">, PerformanceMetric[]>();
+    const now = Date.now();
+    const measured = [];
+    for (const recommendation of recommendations) {
+      if (
+        recommendation.status === "applied" &&
+        !actualsByCampaign.has(recommendation.campaignId)
+      ) {
+        actualsByCampaign.set(
+          recommendation.campaignId,
+          await loadCampaignActuals(ctx, recommendation.campaignId)
+        );
+      }
+
+      measured.push({
+        type: recommendation.type,
+        status: recommendation.status,
+        outcome: measureOutcome(
+          recommendation,
+          actualsByCampaign.get(recommendation.campaignId) ?? [],
+          now
+        ),
+      });
+    }
+
+    return summarizeRecommendationTypes(measured);
+  },
+});
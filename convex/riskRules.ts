@@ -0,0 +1,474 @@
+import { Infer, v } from "convex/values";
+import {
+  internalQuery,
+  mutation,
+  query,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getEmailTemplate } from "./emailService";
+import {
+  RISK_RULE_METRICS,
+  MAX_RULE_LOOKBACK_DAYS,
+} from "../src/lib/simulation/orchestration/RiskRuleEngine";
+import type { RiskRule } from "../src/types/simulation";
+
+// Validation schemas for risk rules (mirrors the riskRules table)
+const riskRuleConditionValidator = v.union(
+  v.object({
+    kind: v.literal("threshold"),
+    operator: v.union(v.literal("above"), v.literal("below")),
+    value: v.number(),
+  }),
+  v.object({
+    kind: v.literal("period_change"),
+    direction: v.union(v.literal("increase"), v.literal("decrease")),
+    threshold: v.number(),
+  }),
+  v.object({
+    kind: v.literal("median_change"),
+    direction: v.union(v.literal("increase"), v.literal("decrease")),
+    threshold: v.number(),
+  }),
+  v.object({
+    kind: v.literal("drops_to_zero"),
+  })
+);
+
+const riskRuleSeverityValidator = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high"),
+  v.literal("critical")
+);
+
+const riskRuleNotifyValidator = v.object({
+  channels: v.array(v.union(v.literal("in_app"), v.literal("email"))),
+  roles: v.array(
+    v.union(
+      v.literal("owner"),
+      v.literal("admin"),
+      v.literal("member"),
+      v.literal("viewer")
+    )
+  ),
+  userIds: v.optional(v.array(v.id("users"))),
+});
+
+const riskThresholdsValidator = v.object({
+  performanceDipThreshold: v.optional(v.number()),
+  audienceFatigueThreshold: v.optional(v.number()),
+  competitorThreatThreshold: v.optional(v.number()),
+  lookbackPeriod: v.optional(v.number()),
+  confidenceThreshold: v.optional(v.number()),
+});
+
+type RiskRuleCondition = Infer<typeof riskRuleConditionValidator>;
+type RiskThresholds = Infer<typeof riskThresholdsValidator>;
+
+/**
+ * Check the user is an active member of the organization, optionally as owner or admin
+ */
+async function requireMembership(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<"organizations">,
+  userId: Id<"users">,
+  requireAdmin: boolean
+) {
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization_user", (q) =>
+      q.eq("organizationId", organizationId).eq("userId", userId)
+    )
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+
+  if (!membership) {
+    throw new Error("Access denied: User not member of organization");
+  }
+  if (requireAdmin && !["owner", "admin"].includes(membership.role)) {
+    throw new Error("Access denied: Admin privileges required to manage risk rules");
+  }
+
+  return membership;
+}
+
+function validateRule(rule: {
+  name?: string;
+  metric?: string;
+  condition?: RiskRuleCondition;
+  lookbackDays?: number;
+}) {
+  if (rule.name !== undefined && rule.name.trim().length === 0) {
+    throw new Error("Risk rule name is required");
+  }
+  if (
+    rule.metric !== undefined &&
+    !(RISK_RULE_METRICS as readonly string[]).includes(rule.metric)
+  ) {
+    throw new Error(
+      `Unsupported metric: ${rule.metric}. Supported metrics: ${RISK_RULE_METRICS.join(", ")}`
+    );
+  }
+  if (
+    rule.lookbackDays !== undefined &&
+    (!Number.isInteger(rule.lookbackDays) ||
+      rule.lookbackDays < 1 ||
+      rule.lookbackDays > MAX_RULE_LOOKBACK_DAYS)
+  ) {
+    throw new Error(
+      `Lookback window must be between 1 and ${MAX_RULE_LOOKBACK_DAYS} days`
+    );
+  }
+  if (
+    rule.condition &&
+    (rule.condition.kind === "period_change" ||
+      rule.condition.kind === "median_change") &&
+    rule.condition.threshold <= 0
+  ) {
+    throw new Error("Change thresholds must be greater than zero");
+  }
+}
+
+function validateThresholds(thresholds: RiskThresholds) {
+  const fractions = [
+    thresholds.performanceDipThreshold,
+    thresholds.audienceFatigueThreshold,
+    thresholds.competitorThreatThreshold,
+    thresholds.confidenceThreshold,
+  ];
+  if (fractions.some((value) => value !== undefined && (value <= 0 || value > 1))) {
+    throw new Error("Risk thresholds must be between 0 and 1");
+  }
+  if (
+    thresholds.lookbackPeriod !== undefined &&
+    (!Number.isInteger(thresholds.lookbackPeriod) ||
+      thresholds.lookbackPeriod < 1 ||
+      thresholds.lookbackPeriod > MAX_RULE_LOOKBACK_DAYS)
+  ) {
+    throw new Error(
+      `Lookback period must be between 1 and ${MAX_RULE_LOOKBACK_DAYS} days`
+    );
+  }
+}
+
+function toRiskRule(rule: Doc<"riskRules">): RiskRule {
+  return {
+    id: rule._id,
+    name: rule.name,
+    metric: rule.metric,
+    condition: rule.condition,
+    severity: rule.severity,
+    lookbackDays: rule.lookbackDays,
+  };
+}
+
+/**
+ * Get the organization's risk thresholds and rules
+ */
+export const getRiskSettings = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await requireMembership(ctx, args.organizationId, userId, false);
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const rules = await ctx.db
+      .query("riskRules")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+
+    return {
+      thresholds: organization.settings.riskThresholds ?? {},
+      rules: rules.sort((a, b) => a.createdAt - b.createdAt),
+      canManage: ["owner", "admin"].includes(membership.role),
+    };
+  },
+});
+
+/**
+ * Override the built-in risk detector thresholds for the organization
+ */
+export const updateRiskThresholds = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    thresholds: riskThresholdsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    await requireMembership(ctx, args.organizationId, userId, true);
+    validateThresholds(args.thresholds);
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    await ctx.db.patch(args.organizationId, {
+      settings: {
+        ...organization.settings,
+        riskThresholds: args.thresholds,
+      },
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Create a risk rule
+ */
+export const createRiskRule = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    metric: v.string(),
+    condition: riskRuleConditionValidator,
+    severity: riskRuleSeverityValidator,
+    lookbackDays: v.number(),
+    notify: riskRuleNotifyValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    await requireMembership(ctx, args.organizationId, userId, true);
+    validateRule(args);
+
+    const now = Date.now();
+    return await ctx.db.insert("riskRules", {
+      organizationId: args.organizationId,
+      name: args.name.trim(),
+      metric: args.metric,
+      condition: args.condition,
+      severity: args.severity,
+      lookbackDays: args.lookbackDays,
+      notify: args.notify,
+      enabled: true,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a risk rule
+ */
+export const updateRiskRule = mutation({
+  args: {
+    ruleId: v.id("riskRules"),
+    name: v.optional(v.string()),
+    metric: v.optional(v.string()),
+    condition: v.optional(riskRuleConditionValidator),
+    severity: v.optional(riskRuleSeverityValidator),
+    lookbackDays: v.optional(v.number()),
+    notify: v.optional(riskRuleNotifyValidator),
+    enabled: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const rule = await ctx.db.get(args.ruleId);
+    if (!rule) {
+      throw new Error("Risk rule not found");
+    }
+
+    await requireMembership(ctx, rule.organizationId, userId, true);
+    validateRule(args);
+
+    const { ruleId, ...updates } = args;
+    await ctx.db.patch(ruleId, {
+      ...updates,
+      ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a risk rule
+ */
+export const deleteRiskRule = mutation({
+  args: {
+    ruleId: v.id("riskRules"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const rule = await ctx.db.get(args.ruleId);
+    if (!rule) {
+      throw new Error("Risk rule not found");
+    }
+
+    await requireMembership(ctx, rule.organizationId, userId, true);
+    await ctx.db.delete(args.ruleId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Thresholds and enabled rules for the simulation runner
+ */
+export const getRiskSettingsForRun = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const organization = await ctx.db.get(args.organizationId);
+    const rules = await ctx.db
+      .query("riskRules")
+      .withIndex("by_organization_enabled", (q) =>
+        q.eq("organizationId", args.organizationId).eq("enabled", true)
+      )
+      .collect();
+
+    return {
+      thresholds: organization?.settings.riskThresholds ?? {},
+      rules: rules.map(toRiskRule),
+    };
+  },
+});
+
+/**
+ * Deliver the risk rule matches of a completed simulation to each rule's
+ * notification target. Rule ids come from the simulation's results, so only
+ * rules of the simulation's organization are notified.
+ */
+export async function notifyRiskRuleMatches(
+  ctx: MutationCtx,
+  simulation: Doc<"simulations">,
+  risks: Array<{
+    severity: string;
+    description: string;
+    rule?: { id: string; name: string };
+  }>
+) {
+  const matchesByRule = new Map<string, typeof risks>();
+  for (const risk of risks) {
+    if (risk.rule) {
+      matchesByRule.set(risk.rule.id, [...(matchesByRule.get(risk.rule.id) ?? []), risk]);
+    }
+  }
+  if (matchesByRule.size === 0) {
+    return;
+  }
+
+  const campaign = await ctx.db.get(simulation.campaignId);
+  const members = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization_status", (q) =>
+      q.eq("organizationId", simulation.organizationId).eq("status", "active")
+    )
+    .collect();
+
+  const now = Date.now();
+  for (const [ruleId, matches] of matchesByRule) {
+    const id = ctx.db.normalizeId("riskRules", ruleId);
+    const rule = id ? await ctx.db.get(id) : null;
+    if (
+      !rule ||
+      rule.organizationId !== simulation.organizationId ||
+      rule.notify.channels.length === 0
+    ) {
+      continue;
+    }
+
+    // Explicit recipients still have to belong to the organization
+    const recipients = members
+      .filter(
+        (member) =>
+          rule.notify.roles.includes(member.role) ||
+          rule.notify.userIds?.includes(member.userId)
+      )
+      .map((member) => member.userId);
+
+    const title = `Risk rule matched: ${rule.name}`;
+    const message = matches.map((match) => match.description).join("\n");
+    const priority =
+      rule.severity === "critical" || rule.severity === "high"
+        ? "high"
+        : rule.severity;
+
+    for (const userId of recipients) {
+      if (rule.notify.channels.includes("in_app")) {
+        await ctx.db.insert("notifications", {
+          userId,
+          type: "risk_alert",
+          title,
+          message,
+          campaignId: simulation.campaignId,
+          organizationId: simulation.organizationId,
+          metadata: {
+            simulationId: simulation._id,
+            ruleId: rule._id,
+            severity: rule.severity,
+          },
+          priority,
+          read: false,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      if (rule.notify.channels.includes("email")) {
+        const user = await ctx.db.get(userId);
+        if (!user?.email) {
+          continue;
+        }
+
+        const template = getEmailTemplate("risk_alert", {
+          userName: user.name,
+          ruleName: rule.name,
+          campaignName: campaign?.name ?? "Unknown campaign",
+          descriptions: matches.map((match) => match.description),
+        });
+
+        // Log the email (in production, replace with actual email sending)
+        const emailLog = {
+          userId,
+          email: user.email,
+          template: "risk_alert",
+          subject: template.subject,
+          data: {
+            body: template.body,
+            campaignName: campaign?.name,
+            simulationId: simulation._id,
+          },
+          status: "sent" as const,
+          sentAt: now,
+        };
+
+        console.log("Email notification:", emailLog);
+        await ctx.db.insert("emailLogs", emailLog);
+      }
+    }
+  }
+}
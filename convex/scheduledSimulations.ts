@@ -0,0 +1,407 @@
+import { Infer, v } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getUsageQuotaStatus, organizationSubscriptionTier } from "./aiUsage";
+import { detectForecastChanges } from "../src/lib/simulation/orchestration/ForecastChangeDetector";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const resimulationCadenceValidator = v.union(
+  v.literal("off"),
+  v.literal("daily"),
+  v.literal("weekly")
+);
+
+type ResimulationCadence = Infer<typeof resimulationCadenceValidator>;
+
+// Scheduled runs are paid AI calls, so organizations opt in
+export const DEFAULT_RESIMULATION_CADENCE: ResimulationCadence = "off";
+
+const CADENCE_INTERVAL_MS = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// The cron checks hourly; a run is due up to one check early so it does not drift later every cycle
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+// Forecast window of a scheduled run, within the limits createSimulation enforces
+const SCHEDULED_WINDOW_DAYS = 14;
+const MIN_WINDOW_DAYS = 5;
+
+// Organizations read per page of the scheduling cron
+const ORGANIZATION_BATCH_SIZE = 100;
+
+// Scheduled runs yield to simulations users are waiting for
+const SCHEDULED_PRIORITY = 2;
+
+// Metrics the simulation pipeline forecasts
+const SIMULATED_METRICS = new Set([
+  "ctr",
+  "impressions",
+  "engagement",
+  "reach",
+  "conversions",
+  "cpc",
+  "cpm",
+  "cpa",
+  "roas",
+  "roi",
+  "brand_awareness",
+]);
+const DEFAULT_METRICS = ["impressions", "ctr", "conversions"];
+
+/**
+ * Metrics of the last completed simulation, so consecutive runs stay comparable;
+ * the campaign's KPIs with equal weights for its first run
+ */
+function scheduledMetrics(
+  campaign: Doc<"campaigns">,
+  latest: Doc<"simulations"> | undefined
+) {
+  if (latest) {
+    return latest.config.metrics;
+  }
+
+  const kpiMetrics = [
+    ...new Set(
+      campaign.kpis
+        .map((kpi) => kpi.type)
+        .filter((type) => SIMULATED_METRICS.has(type))
+    ),
+  ];
+  const types = kpiMetrics.length > 0 ? kpiMetrics : DEFAULT_METRICS;
+  return types.map((type) => ({ type, weight: 1 / types.length }));
+}
+
+/**
+ * Campaign owners who have not muted the campaign's notifications
+ */
+function campaignOwners(campaign: Doc<"campaigns">): Id<"users">[] {
+  const muted = new Set(
+    campaign.teamMembers
+      .filter((member) => member.notifications === false)
+      .map((member) => member.userId)
+  );
+  const owners = [
+    campaign.createdBy,
+    ...campaign.teamMembers
+      .filter((member) => member.role === "owner")
+      .map((member) => member.userId),
+  ];
+  return [...new Set(owners)].filter((userId) => !muted.has(userId));
+}
+
+/**
+ * Notify campaign owners when a scheduled run moved the forecast, its risks or
+ * its KPI attainment meaningfully compared with the previous completed run
+ */
+export async function notifyForecastChanges(
+  ctx: MutationCtx,
+  simulation: Doc<"simulations">,
+  results: NonNullable<Doc<"simulations">["results"]>
+) {
+  const previousId = simulation.scheduledRun?.previousSimulationId;
+  const previous = previousId ? await ctx.db.get(previousId) : null;
+  if (!previous?.results) {
+    return;
+  }
+
+  const changes = detectForecastChanges(
+    { ...previous, results: previous.results },
+    { ...simulation, results }
+  );
+  if (changes.length === 0) {
+    return;
+  }
+
+  const campaign = await ctx.db.get(simulation.campaignId);
+  if (!campaign) {
+    return;
+  }
+
+  const hasRiskChange = changes.some((change) => change.kind === "risk");
+  const title = `Forecast updated: ${campaign.name}`;
+  const message = changes.map((change) => change.description).join("; ");
+
+  const now = Date.now();
+  for (const userId of campaignOwners(campaign)) {
+    await ctx.db.insert("notifications", {
+      userId,
+      type: hasRiskChange ? "risk_alert" : "campaign_updated",
+      title,
+      message,
+      campaignId: campaign._id,
+      organizationId: campaign.organizationId,
+      metadata: {
+        simulationId: simulation._id,
+        previousSimulationId: previous._id,
+        campaignName: campaign.name,
+        changes,
+      },
+      priority: hasRiskChange ? "high" : "medium",
+      read: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Re-simulation settings of an organization
+ */
+export const getResimulationSettings = query({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    return {
+      cadence:
+        organization.settings.resimulationCadence ??
+        DEFAULT_RESIMULATION_CADENCE,
+      autoResimulateOnChange:
+        organization.settings.autoResimulateOnChange ?? false,
+      canManage: ["owner", "admin"].includes(membership.role),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Set how often the organization's active campaigns are re-simulated, and
+ * whether campaign changes trigger a re-run
+ */
+export const updateResimulationSettings = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    cadence: v.optional(resimulationCadenceValidator),
+    autoResimulateOnChange: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", args.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error("Access denied: User not member of organization");
+    }
+    if (!["owner", "admin"].includes(membership.role)) {
+      throw new Error(
+        "Access denied: Admin privileges required to change re-simulation settings"
+      );
+    }
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    await ctx.db.patch(args.organizationId, {
+      settings: {
+        ...organization.settings,
+        ...(args.cadence !== undefined
+          ? { resimulationCadence: args.cadence }
+          : {}),
+        ...(args.autoResimulateOnChange !== undefined
+          ? { autoResimulateOnChange: args.autoResimulateOnChange }
+          : {}),
+      },
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Queue the re-simulations that are due, one organization at a time
+ * (internal - used by cron job). Organizations are read page by page and each
+ * one whose cadence is on gets its own scheduling run.
+ */
+export const scheduleRecurringSimulations = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("organizations")
+      .paginate({ numItems: ORGANIZATION_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let scheduled = 0;
+    for (const organization of page.page) {
+      const cadence =
+        organization.settings.resimulationCadence ?? DEFAULT_RESIMULATION_CADENCE;
+      if (cadence === "off") {
+        continue;
+      }
+
+      await ctx.scheduler.runAfter(
+        0,
+        internal.scheduledSimulations.scheduleOrganizationSimulations,
+        { organizationId: organization._id }
+      );
+      scheduled++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.scheduledSimulations.scheduleRecurringSimulations,
+        { cursor: page.continueCursor }
+      );
+    }
+
+    return { scheduled };
+  },
+});
+
+/**
+ * Queue a lightweight simulation for every active campaign of an organization
+ * that was not simulated within its cadence (internal - scheduled by
+ * scheduleRecurringSimulations). Runs read the campaign and its spend ledger
+ * when they start, so each forecast uses the latest actuals.
+ */
+export const scheduleOrganizationSimulations = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const today = now - (now % DAY_MS);
+    const scheduledIds: Id<"simulations">[] = [];
+
+    const organization = await ctx.db.get(args.organizationId);
+    const cadence =
+      organization?.settings.resimulationCadence ?? DEFAULT_RESIMULATION_CADENCE;
+    if (!organization || cadence === "off") {
+      return { scheduledCount: 0, scheduledIds };
+    }
+
+    // Organizations that spent their tier's monthly AI quota are skipped until the next month
+    const subscriptionTier = await organizationSubscriptionTier(ctx, args.organizationId);
+    const quota = await getUsageQuotaStatus(ctx, args.organizationId, subscriptionTier);
+    if (quota.exceeded) {
+      return { scheduledCount: 0, scheduledIds };
+    }
+
+    const campaigns = await ctx.db
+      .query("campaigns")
+      .withIndex("by_organization_status", (q) =>
+        q.eq("organizationId", args.organizationId).eq("status", "active")
+      )
+      .collect();
+
+    for (const campaign of campaigns) {
+      const startDate = Math.max(today, campaign.startDate);
+      const endDate = Math.min(
+        startDate + SCHEDULED_WINDOW_DAYS * DAY_MS,
+        campaign.endDate
+      );
+      if (endDate - startDate < MIN_WINDOW_DAYS * DAY_MS) {
+        continue;
+      }
+
+      // Any run counts, so a campaign simulated by hand is not re-run until its cadence is due
+      const lastRun = await ctx.db
+        .query("simulations")
+        .withIndex("by_campaign_created", (q) => q.eq("campaignId", campaign._id))
+        .order("desc")
+        .first();
+      if (
+        lastRun &&
+        (lastRun.status === "queued" ||
+          lastRun.status === "processing" ||
+          now - lastRun.createdAt < CADENCE_INTERVAL_MS[cadence] - SCHEDULE_SLACK_MS)
+      ) {
+        continue;
+      }
+
+      const latest = await ctx.db
+        .query("simulations")
+        .withIndex("by_campaign_status", (q) =>
+          q.eq("campaignId", campaign._id).eq("status", "completed")
+        )
+        .order("desc")
+        .first();
+      const metrics = scheduledMetrics(campaign, latest ?? undefined);
+      const timeframeDays = Math.ceil((endDate - startDate) / DAY_MS);
+
+      // Standard scenarios only: no custom shocks, external data or Monte Carlo sampling
+      const simulationId = await ctx.db.insert("simulations", {
+        campaignId: campaign._id,
+        organizationId: campaign.organizationId,
+        createdBy: campaign.createdBy,
+        config: {
+          timeframe: { startDate, endDate, granularity: "daily" },
+          metrics,
+          scenarios: ["optimistic", "realistic", "pessimistic"],
+          externalDataSources: [],
+        },
+        status: "queued",
+        queueMetadata: {
+          priority: SCHEDULED_PRIORITY,
+          estimatedDuration: timeframeDays * metrics.length * 1000, // Rough estimate
+          subscriptionTier,
+          queuedAt: now,
+          retryCount: 0,
+        },
+        scheduledRun: {
+          cadence,
+          previousSimulationId: latest?._id,
+        },
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      await ctx.scheduler.runAfter(0, internal.simulationRunner.runSimulation, {
+        simulationId,
+      });
+      scheduledIds.push(simulationId);
+    }
+
+    return {
+      scheduledCount: scheduledIds.length,
+      scheduledIds,
+    };
+  },
+});
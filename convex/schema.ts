@@ -35,8 +35,36 @@ const schema = defineSchema({
       timezone: v.string(),
       allowPublicJoin: v.optional(v.boolean()), // Optional for backward compatibility
       requireInviteApproval: v.optional(v.boolean()), // Optional for backward compatibility
+      // Overrides of the built-in risk detector thresholds
+      riskThresholds: v.optional(v.object({
+        performanceDipThreshold: v.optional(v.number()),
+        audienceFatigueThreshold: v.optional(v.number()),
+        competitorThreatThreshold: v.optional(v.number()),
+        lookbackPeriod: v.optional(v.number()),
+        confidenceThreshold: v.optional(v.number()),
+      })),
+      // How often active campaigns are re-simulated; off when unset
+      resimulationCadence: v.optional(v.union(
+        v.literal("off"),
+        v.literal("daily"),
+        v.literal("weekly")
+      )),
+      // Re-run the latest simulation as soon as a campaign's inputs change
+      autoResimulateOnChange: v.optional(v.boolean()),
+      // OpenAI-compatible endpoint LLM-backed features call; OpenAI when unset
+      llmProvider: v.optional(v.object({
+        baseUrl: v.string(),
+        model: v.string(),
+        temperature: v.optional(v.number()),
+        maxTokens: v.optional(v.number()),
+        jsonMode: v.optional(v.boolean()),
+        apiKey: v.optional(v.string()), // Encrypted
+      })),
     }),
 
+    // Subscription tier whose monthly AI usage quota every simulation of the organization runs under; free when unset
+    subscriptionTier: v.optional(v.string()),
+
     // Metadata
     createdBy: v.optional(v.id("users")), // Optional for backward compatibility
     createdAt: v.number(),
@@ -198,6 +226,7 @@ const schema = defineSchema({
         unit: v.string(),
       })
     ),
+    conversionValue: v.optional(v.number()), // Average revenue per conversion, for ROI and ROAS
 
     // Access Control
     organizationId: v.id("organizations"),
@@ -311,7 +340,8 @@ const schema = defineSchema({
       v.literal("campaign_updated"),
       v.literal("campaign_deleted"),
       v.literal("team_member_added"),
-      v.literal("team_member_removed")
+      v.literal("team_member_removed"),
+      v.literal("risk_alert")
     ),
     title: v.string(),
     message: v.string(),
@@ -359,7 +389,12 @@ const schema = defineSchema({
       timeframe: v.object({
         startDate: v.number(),
         endDate: v.number(),
-        granularity: v.union(v.literal("daily"), v.literal("weekly")),
+        granularity: v.union(
+          v.literal("hourly"),
+          v.literal("daily"),
+          v.literal("weekly"),
+          v.literal("monthly")
+        ),
       }),
       metrics: v.array(v.object({
         type: v.string(),
@@ -367,7 +402,29 @@ const schema = defineSchema({
         benchmarkSource: v.optional(v.string()),
       })),
       scenarios: v.array(v.string()),
+      customScenarios: v.optional(v.array(v.object({
+        name: v.string(),
+        percentile: v.optional(v.number()),
+        adjustments: v.array(v.object({
+          factor: v.union(
+            v.literal("budget"),
+            v.literal("competition"),
+            v.literal("seasonality"),
+            v.literal("creative_fatigue")
+          ),
+          multiplier: v.number(),
+          startDate: v.number(),
+          endDate: v.number(),
+          channel: v.optional(v.string()),
+          metrics: v.optional(v.array(v.string())),
+          label: v.optional(v.string()),
+        })),
+      }))),
       externalDataSources: v.array(v.string()),
+      monteCarlo: v.optional(v.object({
+        iterations: v.number(),
+        seed: v.optional(v.number()),
+      })),
     }),
     
     // Simulation Status
@@ -391,6 +448,62 @@ const schema = defineSchema({
       error: v.optional(v.string()),
       failedAt: v.optional(v.number()),
     })),
+
+    // Inputs frozen when the simulation ran, so the forecast can be audited and replayed
+    inputSnapshot: v.optional(v.object({
+      campaign: v.any(), // campaign document as read by the run
+      datasetStorageId: v.id("_storage"), // serialized EnrichedDataset, including market data
+      datasetHash: v.string(), // SHA-256 of the stored dataset
+      sourcesUsed: v.array(v.string()),
+      promptVersions: v.optional(v.record(v.string(), v.string())),
+      modelVersions: v.optional(v.record(v.string(), v.string())),
+      capturedAt: v.number(),
+    })),
+
+    // Set on simulations started from another simulation's history entry
+    rerunOf: v.optional(v.object({
+      simulationId: v.id("simulations"),
+      mode: v.union(v.literal("same_inputs"), v.literal("current_campaign")),
+    })),
+
+    // Set on simulations started by the recurring re-simulation cron
+    scheduledRun: v.optional(v.object({
+      cadence: v.union(v.literal("daily"), v.literal("weekly")),
+      previousSimulationId: v.optional(v.id("simulations")), // latest completed run it is compared with
+    })),
+
+    // Set when the campaign's inputs changed after the simulation ran
+    outOfDate: v.optional(v.object({
+      flaggedAt: v.number(),
+      changes: v.array(v.object({
+        field: v.union(
+          v.literal("budget"),
+          v.literal("channels"),
+          v.literal("audiences"),
+          v.literal("startDate"),
+          v.literal("endDate"),
+          v.literal("kpis")
+        ),
+        label: v.string(),
+        before: v.string(),
+        after: v.string(),
+      })),
+      rerunSimulationId: v.optional(v.id("simulations")), // automatic re-run, when enabled
+    })),
+
+    // Pipeline stage transitions recorded while processing
+    stages: v.optional(v.array(v.object({
+      stage: v.string(),
+      model: v.optional(v.string()),
+      status: v.union(
+        v.literal("running"),
+        v.literal("completed"),
+        v.literal("failed")
+      ),
+      startedAt: v.number(),
+      completedAt: v.optional(v.number()),
+      error: v.optional(v.string()),
+    }))),
     
     // Results
     results: v.optional(v.object({
@@ -402,6 +515,7 @@ const schema = defineSchema({
       
       scenarios: v.array(v.object({
         type: v.string(),
+        name: v.optional(v.string()),
         probability: v.number(),
         trajectory: v.array(v.object({
           date: v.number(),
@@ -418,6 +532,10 @@ const schema = defineSchema({
           start: v.number(),
           end: v.number(),
         }),
+        rule: v.optional(v.object({
+          id: v.string(),
+          name: v.string(),
+        })),
       })),
       
       recommendations: v.array(v.object({
@@ -435,13 +553,73 @@ const schema = defineSchema({
           effort: v.string(),
           timeline: v.string(),
         }),
+        reallocation: v.optional(v.object({
+          from: v.string(),
+          to: v.string(),
+          amount: v.number(),
+        })),
+      })),
+
+      monteCarlo: v.optional(v.object({
+        seed: v.number(),
+        iterations: v.number(),
+        primaryMetric: v.string(),
+        bands: v.object({
+          p10: v.array(v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })),
+          p50: v.array(v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })),
+          p90: v.array(v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })),
+        }),
+        kpiDistributions: v.record(v.string(), v.object({
+          mean: v.number(),
+          stdDev: v.number(),
+          min: v.number(),
+          max: v.number(),
+          p10: v.number(),
+          p50: v.number(),
+          p90: v.number(),
+          histogram: v.array(v.object({
+            lower: v.number(),
+            upper: v.number(),
+            count: v.number(),
+          })),
+        })),
       })),
+
+      // Chance of reaching each KPI and custom metric target
+      kpiAttainment: v.optional(v.array(v.object({
+        source: v.union(v.literal("kpi"), v.literal("custom_metric")),
+        name: v.string(),
+        metric: v.optional(v.string()),
+        timeframe: v.string(),
+        target: v.number(),
+        expected: v.optional(v.number()),
+        probability: v.optional(v.number()),
+        expectedShortfall: v.optional(v.number()),
+      }))),
     })),
     
     // Model Metadata
     modelMetadata: v.optional(v.object({
       primaryModel: v.string(),
       modelVersions: v.record(v.string(), v.string()),
+      promptVersions: v.optional(v.record(v.string(), v.string())),
+      ensembleWeights: v.optional(v.record(v.string(), v.number())), // Nominal weight of each model in the ensemble
+      // Learned weights the ensemble combined each metric with instead, per forecast horizon
+      segmentEnsembleWeights: v.optional(v.array(v.object({
+        metric: v.string(),
+        horizon: v.string(),
+        weights: v.record(v.string(), v.number()),
+      }))),
+      weightingStrategy: v.optional(v.string()),
       processingTime: v.number(),
       dataQuality: v.object({
         completeness: v.number(),
@@ -516,6 +694,8 @@ const schema = defineSchema({
     completedAt: v.optional(v.number()),
   })
   .index("by_campaign", ["campaignId"])
+  .index("by_campaign_created", ["campaignId", "createdAt"])
+  .index("by_campaign_status", ["campaignId", "status"])
   .index("by_organization", ["organizationId"])
   .index("by_status", ["status"])
   .index("by_created_at", ["createdAt"]),
@@ -531,6 +711,23 @@ const schema = defineSchema({
   .index("by_cache_key", ["cacheKey"])
   .index("by_expiry", ["expiresAt"]),
 
+  // model_response_cache table (memoized predictor calls, keyed on provider, model, prompt and inputs)
+  modelResponseCache: defineTable({
+    organizationId: v.id("organizations"),
+    cacheKey: v.string(), // Hash of provider, model, prompt version and dataset fingerprint
+    provider: v.string(),
+    model: v.string(),
+    promptVersion: v.optional(v.string()),
+    response: v.string(), // Serialized prediction
+    hits: v.number(),
+    lastHitAt: v.optional(v.number()),
+    expiresAt: v.number(),
+    createdAt: v.number(),
+  })
+  .index("by_organization", ["organizationId"])
+  .index("by_organization_cache_key", ["organizationId", "cacheKey"])
+  .index("by_expiry", ["expiresAt"]),
+
   // external_data_sources table
   externalDataSources: defineTable({
     organizationId: v.id("organizations"),
@@ -570,6 +767,153 @@ const schema = defineSchema({
   .index("by_source_type", ["source", "dataType"])
   .index("by_expiry", ["expiresAt"]),
 
+  // spend_ledger table (actual spend per campaign, channel and UTC day)
+  spendLedger: defineTable({
+    campaignId: v.id("campaigns"),
+    organizationId: v.id("organizations"),
+    channel: v.string(), // Channel type, e.g. 'facebook', 'google'
+    date: v.number(), // Start of the UTC day the spend was incurred
+    amount: v.number(), // In the campaign currency
+    source: v.optional(v.string()), // 'manual', 'import', or a platform name
+    recordedBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+  .index("by_campaign_date", ["campaignId", "date"])
+  .index("by_campaign_channel_date", ["campaignId", "channel", "date"]),
+
+  // ai_usage table (one row per predictor call, for cost accounting and quotas)
+  aiUsage: defineTable({
+    organizationId: v.id("organizations"),
+    simulationId: v.id("simulations"),
+    modelName: v.string(), // Registry name, e.g. 'openai'
+    model: v.string(), // Model that served the call, e.g. 'gpt-4o-2024-08-06'
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+    estimatedCost: v.number(), // In USD
+    status: v.union(v.literal("success"), v.literal("failed")),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+  .index("by_organization_created", ["organizationId", "createdAt"])
+  .index("by_simulation", ["simulationId"]),
+
+  // risk_rules table (organization-defined risk rules evaluated on every simulation)
+  riskRules: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    metric: v.string(),
+    condition: v.union(
+      v.object({
+        kind: v.literal("threshold"),
+        operator: v.union(v.literal("above"), v.literal("below")),
+        value: v.number(),
+      }),
+      v.object({
+        kind: v.literal("period_change"),
+        direction: v.union(v.literal("increase"), v.literal("decrease")),
+        threshold: v.number(),
+      }),
+      v.object({
+        kind: v.literal("median_change"),
+        direction: v.union(v.literal("increase"), v.literal("decrease")),
+        threshold: v.number(),
+      }),
+      v.object({
+        kind: v.literal("drops_to_zero"),
+      })
+    ),
+    severity: v.union(v.literal("low"), v.literal("medium"), v.literal("high"), v.literal("critical")),
+    lookbackDays: v.number(),
+    
+    // Who hears about matches besides the simulation results
+    notify: v.object({
+      channels: v.array(v.union(v.literal("in_app"), v.literal("email"))),
+      roles: v.array(v.union(
+        v.literal("owner"),
+        v.literal("admin"),
+        v.literal("member"),
+        v.literal("viewer")
+      )),
+      userIds: v.optional(v.array(v.id("users"))),
+    }),
+    
+    enabled: v.boolean(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+  .index("by_organization", ["organizationId"])
+  .index("by_organization_enabled", ["organizationId", "enabled"]),
+
+  // recommendations table (lifecycle of the pivot recommendations a simulation produced)
+  recommendations: defineTable({
+    simulationId: v.id("simulations"),
+    campaignId: v.id("campaigns"),
+    organizationId: v.id("organizations"),
+    recommendationId: v.string(), // id within simulations.results.recommendations
+    type: v.string(),
+    impactEstimate: v.object({
+      metric: v.string(),
+      improvement: v.number(),
+      confidence: v.number(),
+    }),
+
+    status: v.union(
+      v.literal("new"),
+      v.literal("accepted"),
+      v.literal("dismissed"),
+      v.literal("applied")
+    ),
+    ownerId: v.optional(v.id("users")),
+    dismissalReason: v.optional(v.string()),
+    appliedAt: v.optional(v.number()),
+    statusChangedBy: v.optional(v.id("users")),
+    statusChangedAt: v.number(),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+  .index("by_simulation_recommendation", ["simulationId", "recommendationId"])
+  .index("by_campaign", ["campaignId"])
+  .index("by_organization", ["organizationId"]),
+
+  // budget_changes table (audit trail of campaign budget moves, with undo)
+  budgetChanges: defineTable({
+    campaignId: v.id("campaigns"),
+    organizationId: v.id("organizations"),
+    changedBy: v.id("users"),
+    description: v.string(),
+
+    // Recommendation the change applied, if any
+    source: v.optional(v.object({
+      simulationId: v.id("simulations"),
+      recommendationId: v.string(),
+      previousStatus: v.union(
+        v.literal("new"),
+        v.literal("accepted"),
+        v.literal("dismissed"),
+        v.literal("applied")
+      ),
+    })),
+
+    changes: v.array(v.object({
+      channel: v.string(),
+      allocationBefore: v.number(),
+      allocationAfter: v.number(),
+      budgetBefore: v.number(),
+      budgetAfter: v.number(),
+    })),
+
+    undoableUntil: v.number(),
+    undoneAt: v.optional(v.number()),
+    undoneBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  })
+  .index("by_campaign", ["campaignId", "createdAt"])
+  .index("by_source", ["source.simulationId", "source.recommendationId"]),
+
   // Model performance tracking tables
   modelPerformanceMetrics: defineTable({
     simulationId: v.id("simulations"),
@@ -598,8 +942,9 @@ const schema = defineSchema({
       confidenceCalibration: v.number(), // How well calibrated confidence scores are
     })),
     
-    // Performance degradation tracking
+    // Performance degradation tracking; "pending" until actuals are compared
     performanceStatus: v.union(
+      v.literal("pending"),
       v.literal("excellent"),
       v.literal("good"),
       v.literal("degraded"),
@@ -625,7 +970,34 @@ const schema = defineSchema({
   .index("by_organization", ["organizationId"])
   .index("by_model", ["modelName", "modelVersion"])
   .index("by_performance_status", ["performanceStatus"])
-  .index("by_evaluated_at", ["evaluatedAt"]),
+  .index("by_evaluated_at", ["evaluatedAt"])
+  .index("by_organization_evaluated_at", ["organizationId", "evaluatedAt"]),
+
+  // Ensemble weights learned from tracked model accuracy, one document per organization
+  ensembleWeights: defineTable({
+    organizationId: v.id("organizations"),
+    segments: v.array(v.object({
+      category: v.string(), // Campaign category, or "*" for any
+      metric: v.string(), // Metric, or "*" for any
+      horizon: v.union(
+        v.literal("short"),
+        v.literal("medium"),
+        v.literal("long"),
+        v.literal("*")
+      ),
+      weights: v.record(v.string(), v.number()), // By model name, summing to 1
+      accuracy: v.array(v.object({
+        modelName: v.string(),
+        samples: v.number(),
+        mape: v.number(),
+        rmse: v.number(),
+      })),
+    })),
+    sampleCount: v.number(),
+    evaluationCount: v.number(), // Evaluated model forecasts the weights were learned from
+    computedAt: v.number(),
+  })
+  .index("by_organization", ["organizationId"]),
 
   // Model validation and feedback
   modelValidationFeedback: defineTable({
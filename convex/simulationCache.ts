@@ -3,7 +3,7 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, MutationCtx, query } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
 
 /**
@@ -69,6 +69,26 @@ export const setCachedResult = mutation({
   },
 });
 
+/**
+ * Delete every cache entry of a campaign; called directly by mutations that
+ * change the campaign
+ */
+export async function deleteCampaignCacheEntries(
+  ctx: MutationCtx,
+  campaignId: Id<"campaigns">
+): Promise<number> {
+  const entries = await ctx.db
+    .query("simulationCache")
+    .filter((q) => q.eq(q.field("campaignId"), campaignId))
+    .collect();
+
+  for (const entry of entries) {
+    await ctx.db.delete(entry._id);
+  }
+
+  return entries.length;
+}
+
 /**
  * Invalidate all cache entries for a specific campaign
  */
@@ -77,17 +97,7 @@ export const invalidateCampaignCache = mutation({
     campaignId: v.id("campaigns"),
   },
   handler: async (ctx, args) => {
-    const entries = await ctx.db
-      .query("simulationCache")
-      .filter((q) => q.eq(q.field("campaignId"), args.campaignId))
-      .collect();
-
-    // Delete all entries for this campaign
-    for (const entry of entries) {
-      await ctx.db.delete(entry._id);
-    }
-
-    return entries.length;
+    return await deleteCampaignCacheEntries(ctx, args.campaignId);
   },
 });
 
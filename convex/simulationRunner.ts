@@ -0,0 +1,301 @@
+"use node";
+
+/**
+ * Background simulation processing
+ *
+ * Runs a queued simulation through the SimulationOrchestrator, recording
+ * stage progress and persisting the results on the simulation document.
+ * The inputs of every run are frozen in file storage; re-runs with the same
+ * inputs replay them instead of reading the campaign again.
+ */
+
+import { createHash } from "crypto";
+import { v } from "convex/values";
+import { ActionCtx, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { SimulationOrchestrator } from "../src/lib/simulation/orchestration/SimulationOrchestrator";
+import { createDefaultModelRegistry } from "../src/lib/simulation/ai-models/ModelRegistry";
+import {
+  ModelResponseCache,
+  ModelResponseStore,
+} from "../src/lib/simulation/caching/ModelResponseCache";
+import { decryptToken } from "./lib/encryption";
+import {
+  toSimulationRequest,
+  serializeSimulationResult,
+  serializeDataset,
+  deserializeDataset,
+} from "../src/lib/simulation/orchestration/SimulationResultSerializer";
+
+/**
+ * Process a queued simulation
+ * Requirements: 7.1, 7.5
+ */
+export const runSimulation = internalAction({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    const started = await ctx.runMutation(
+      internal.simulations.startSimulationRun,
+      { simulationId: args.simulationId }
+    );
+    if (!started) {
+      return;
+    }
+
+    const simulation = await ctx.runQuery(
+      internal.simulations.getSimulationRun,
+      { simulationId: args.simulationId }
+    );
+    if (!simulation) {
+      return;
+    }
+
+    // The campaign document as read by this run, kept for the input snapshot
+    let campaign: Doc<"campaigns"> | null = null;
+
+    try {
+      const modelRegistry = await loadModelRegistry(ctx, simulation.organizationId);
+
+      const orchestrator = new SimulationOrchestrator(modelRegistry, {
+        convexQuery: async (name, queryArgs) => {
+          switch (name) {
+            case "campaigns:get":
+              campaign = await ctx.runQuery(
+                internal.simulations.getCampaignForRun,
+                { campaignId: queryArgs.id as Id<"campaigns"> }
+              );
+              return campaign;
+            case "spendLedger:getCampaignSpend":
+              return await ctx.runQuery(
+                internal.spendLedger.getCampaignSpend,
+                { campaignId: queryArgs.campaignId as Id<"campaigns"> }
+              );
+            default:
+              // External data sources fall back to their defaults
+              return null;
+          }
+        },
+        progressReporter: {
+          report: async (update) => {
+            await ctx.runMutation(internal.simulations.recordSimulationStage, {
+              simulationId: args.simulationId,
+              stage: update.stage,
+              model: update.model,
+              status: update.status,
+              timestamp: update.timestamp.getTime(),
+              error: update.error,
+            });
+          },
+        },
+        snapshotStore: {
+          save: async (snapshot) => {
+            const json = serializeDataset(snapshot.dataset);
+            const datasetStorageId = await ctx.storage.store(
+              new Blob([json], { type: "application/json" })
+            );
+            await ctx.runMutation(internal.simulations.recordInputSnapshot, {
+              simulationId: args.simulationId,
+              campaign,
+              datasetStorageId,
+              datasetHash: hashDataset(json),
+              sourcesUsed: snapshot.sourcesUsed,
+              capturedAt: snapshot.capturedAt.getTime(),
+            });
+          },
+        },
+        usageRecorder: {
+          record: async (usage) => {
+            await ctx.runMutation(internal.aiUsage.recordUsage, {
+              simulationId: args.simulationId,
+              modelName: usage.modelName,
+              model: usage.model,
+              inputTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+              latencyMs: usage.latencyMs,
+              estimatedCost: usage.estimatedCost,
+              status: usage.status,
+              error: usage.error,
+              timestamp: usage.timestamp.getTime(),
+            });
+          },
+        },
+        predictionRecorder: {
+          record: async (simulationId, predictions) => {
+            await ctx.runMutation(internal.ensembleWeights.recordModelPredictions, {
+              simulationId: simulationId as Id<"simulations">,
+              predictions: predictions.map((p) => ({
+                modelName: p.modelName,
+                modelVersion: p.prediction.model_metadata.model_version,
+                points: p.prediction.trajectories.flatMap((point) =>
+                  Object.entries(point.metrics)
+                    .filter(([, value]) => Number.isFinite(value))
+                    .map(([metric, predictedValue]) => ({
+                      date: point.date.getTime(),
+                      metric,
+                      predictedValue,
+                      confidence: point.confidence,
+                    }))
+                ),
+              })),
+            });
+          },
+        },
+        resultStore: {
+          save: async (result) => {
+            const { results, modelMetadata } = serializeSimulationResult(
+              result,
+              simulation.config.timeframe
+            );
+            await ctx.runMutation(internal.simulations.completeSimulationRun, {
+              simulationId: args.simulationId,
+              results,
+              modelMetadata,
+            });
+          },
+        },
+      });
+
+      const replayDataset =
+        simulation.rerunOf?.mode === "same_inputs"
+          ? await loadSnapshotDataset(ctx, simulation)
+          : undefined;
+
+      const riskSettings = await ctx.runQuery(
+        internal.riskRules.getRiskSettingsForRun,
+        { organizationId: simulation.organizationId }
+      );
+      const learnedWeights = await ctx.runQuery(
+        internal.ensembleWeights.getEnsembleWeightsForRun,
+        { organizationId: simulation.organizationId }
+      );
+
+      await orchestrator.runSimulation(toSimulationRequest(simulation), {
+        simulationId: args.simulationId,
+        organizationId: simulation.organizationId,
+        userId: simulation.createdBy,
+        priority: simulation.queueMetadata?.priority,
+        replayDataset,
+        riskSettings,
+        learnedWeights: learnedWeights ?? undefined,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.simulations.failSimulationRun, {
+        simulationId: args.simulationId,
+        error: describeFailure(error),
+      });
+    }
+  },
+});
+
+/**
+ * Predictors for a run, with LLM calls going to the organization's own
+ * endpoint when it configured one. Calls are memoized across runs in the
+ * modelResponseCache table.
+ */
+async function loadModelRegistry(
+  ctx: ActionCtx,
+  organizationId: Id<"organizations">
+) {
+  const responseCache = new ModelResponseCache(
+    createModelResponseStore(ctx, organizationId)
+  );
+  const llmProvider = await ctx.runQuery(
+    internal.llmProviders.getLLMProviderForRun,
+    { organizationId }
+  );
+  if (!llmProvider) {
+    return createDefaultModelRegistry({ responseCache });
+  }
+
+  const { apiKey, ...settings } = llmProvider;
+  return createDefaultModelRegistry({
+    responseCache,
+    openai: {
+      ...settings,
+      ...(apiKey ? { apiKey: await decryptToken(apiKey) } : {}),
+    },
+  });
+}
+
+function createModelResponseStore(
+  ctx: ActionCtx,
+  organizationId: Id<"organizations">
+): ModelResponseStore {
+  return {
+    get: async (key) => {
+      const cached = await ctx.runQuery(
+        internal.modelResponseCache.getModelResponse,
+        { organizationId, cacheKey: key }
+      );
+      return cached
+        ? {
+            key: cached.cacheKey,
+            provider: cached.provider,
+            model: cached.model,
+            promptVersion: cached.promptVersion,
+            response: cached.response,
+            createdAt: cached.createdAt,
+            expiresAt: cached.expiresAt,
+          }
+        : null;
+    },
+    set: async (entry) => {
+      await ctx.runMutation(internal.modelResponseCache.storeModelResponse, {
+        organizationId,
+        cacheKey: entry.key,
+        provider: entry.provider,
+        model: entry.model,
+        promptVersion: entry.promptVersion,
+        response: entry.response,
+        expiresAt: entry.expiresAt,
+      });
+    },
+    recordHit: async (key) => {
+      await ctx.runMutation(internal.modelResponseCache.recordModelResponseHit, {
+        organizationId,
+        cacheKey: key,
+      });
+    },
+  };
+}
+
+function hashDataset(json: string): string {
+  return createHash("sha256").update(json).digest("hex");
+}
+
+// Refuse to replay a dataset that is missing or no longer matches its hash
+async function loadSnapshotDataset(
+  ctx: ActionCtx,
+  simulation: Doc<"simulations">
+) {
+  const snapshot = simulation.inputSnapshot;
+  if (!snapshot) {
+    throw new Error("No input snapshot was recorded for the original simulation");
+  }
+
+  const blob = await ctx.storage.get(snapshot.datasetStorageId);
+  if (!blob) {
+    throw new Error("The recorded input dataset is no longer available");
+  }
+
+  const json = await blob.text();
+  if (hashDataset(json) !== snapshot.datasetHash) {
+    throw new Error("The recorded input dataset does not match its hash");
+  }
+
+  return deserializeDataset(json);
+}
+
+// The orchestrator rethrows failures as the error handler's fallback result
+function describeFailure(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return "Simulation processing failed";
+}
@@ -0,0 +1,80 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { queueSimulationRerun } from "./simulations";
+import { getUsageQuotaStatus, organizationSubscriptionTier } from "./aiUsage";
+import { deleteCampaignCacheEntries } from "./simulationCache";
+import {
+  diffCampaignInputs,
+  mergeCampaignInputChanges,
+} from "../src/lib/simulation/orchestration/CampaignInputDiff";
+
+/**
+ * After a campaign was written, drop its cached simulation results and flag
+ * its latest simulation as out of date when budget, channels, audiences,
+ * dates or KPIs changed. Organizations that opted in get a re-run against the
+ * updated campaign straight away.
+ */
+export async function flagOutOfDateSimulations(
+  ctx: MutationCtx,
+  before: Doc<"campaigns">,
+  userId: Id<"users">
+) {
+  const campaign = await ctx.db.get(before._id);
+  if (!campaign) {
+    return;
+  }
+
+  const changes = diffCampaignInputs(before, campaign);
+  if (changes.length === 0) {
+    return;
+  }
+
+  await deleteCampaignCacheEntries(ctx, campaign._id);
+
+  const simulations = await ctx.db
+    .query("simulations")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", campaign._id))
+    .collect();
+  const latest = simulations
+    .filter((simulation) => simulation.status === "completed" && simulation.results)
+    .sort((a, b) => (b.completedAt ?? b.createdAt) - (a.completedAt ?? a.createdAt))[0];
+  if (!latest) {
+    return;
+  }
+
+  const merged = mergeCampaignInputChanges(latest.outOfDate?.changes ?? [], changes);
+  if (merged.length === 0) {
+    // Every change was reverted; the results match the campaign again
+    await ctx.db.patch(latest._id, { outOfDate: undefined, updatedAt: Date.now() });
+    return;
+  }
+
+  const outOfDate = {
+    flaggedAt: latest.outOfDate?.flaggedAt ?? Date.now(),
+    changes: merged,
+    rerunSimulationId: latest.outOfDate?.rerunSimulationId,
+  };
+  await ctx.db.patch(latest._id, { outOfDate, updatedAt: Date.now() });
+
+  const organization = await ctx.db.get(campaign.organizationId);
+  const inFlight = simulations.some(
+    (simulation) =>
+      simulation.status === "queued" || simulation.status === "processing"
+  );
+  if (organization?.settings.autoResimulateOnChange && !inFlight) {
+    // Organizations over their tier's monthly quota keep the out-of-date flag instead
+    const subscriptionTier = await organizationSubscriptionTier(ctx, campaign.organizationId);
+    const quota = await getUsageQuotaStatus(ctx, campaign.organizationId, subscriptionTier);
+    if (quota.exceeded) {
+      return;
+    }
+
+    await queueSimulationRerun(
+      ctx,
+      { ...latest, outOfDate },
+      userId,
+      subscriptionTier,
+      "current_campaign"
+    );
+  }
+}
@@ -1,7 +1,27 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { Infer, v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  MutationCtx,
+} from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { estimateStageProgress } from "../src/lib/simulation/orchestration/SimulationProgress";
+import {
+  compareSimulations as buildSimulationComparison,
+  ComparableSimulation,
+} from "../src/lib/simulation/orchestration/SimulationComparator";
+import {
+  TIMEFRAME_LIMITS,
+  timeframeLength,
+} from "../src/lib/simulation/orchestration/TrajectoryResampler";
+import { notifyRiskRuleMatches } from "./riskRules";
+import { trackSimulationRecommendations } from "./recommendations";
+import { notifyForecastChanges } from "./scheduledSimulations";
+import { assertWithinUsageQuota, organizationSubscriptionTier } from "./aiUsage";
 import { simulations } from "./api";
 
 // Validation schemas for simulation configuration
@@ -9,7 +29,12 @@ const simulationConfigValidator = v.object({
   timeframe: v.object({
     startDate: v.number(),
     endDate: v.number(),
-    granularity: v.union(v.literal("daily"), v.literal("weekly")),
+    granularity: v.union(
+      v.literal("hourly"),
+      v.literal("daily"),
+      v.literal("weekly"),
+      v.literal("monthly")
+    ),
   }),
   metrics: v.array(
     v.object({
@@ -19,7 +44,37 @@ const simulationConfigValidator = v.object({
     })
   ),
   scenarios: v.array(v.string()),
+  customScenarios: v.optional(
+    v.array(
+      v.object({
+        name: v.string(),
+        percentile: v.optional(v.number()),
+        adjustments: v.array(
+          v.object({
+            factor: v.union(
+              v.literal("budget"),
+              v.literal("competition"),
+              v.literal("seasonality"),
+              v.literal("creative_fatigue")
+            ),
+            multiplier: v.number(),
+            startDate: v.number(),
+            endDate: v.number(),
+            channel: v.optional(v.string()),
+            metrics: v.optional(v.array(v.string())),
+            label: v.optional(v.string()),
+          })
+        ),
+      })
+    )
+  ),
   externalDataSources: v.array(v.string()),
+  monteCarlo: v.optional(
+    v.object({
+      iterations: v.number(),
+      seed: v.optional(v.number()),
+    })
+  ),
 });
 
 const simulationResultsValidator = v.object({
@@ -34,6 +89,7 @@ const simulationResultsValidator = v.object({
   scenarios: v.array(
     v.object({
       type: v.string(),
+      name: v.optional(v.string()),
       probability: v.number(),
       trajectory: v.array(
         v.object({
@@ -54,6 +110,12 @@ const simulationResultsValidator = v.object({
         start: v.number(),
         end: v.number(),
       }),
+      rule: v.optional(
+        v.object({
+          id: v.string(),
+          name: v.string(),
+        })
+      ),
     })
   ),
 
@@ -73,8 +135,100 @@ const simulationResultsValidator = v.object({
         effort: v.string(),
         timeline: v.string(),
       }),
+      reallocation: v.optional(
+        v.object({
+          from: v.string(),
+          to: v.string(),
+          amount: v.number(),
+        })
+      ),
+    })
+  ),
+
+  monteCarlo: v.optional(
+    v.object({
+      seed: v.number(),
+      iterations: v.number(),
+      primaryMetric: v.string(),
+      bands: v.object({
+        p10: v.array(
+          v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })
+        ),
+        p50: v.array(
+          v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })
+        ),
+        p90: v.array(
+          v.object({
+            date: v.number(),
+            metrics: v.record(v.string(), v.number()),
+          })
+        ),
+      }),
+      kpiDistributions: v.record(
+        v.string(),
+        v.object({
+          mean: v.number(),
+          stdDev: v.number(),
+          min: v.number(),
+          max: v.number(),
+          p10: v.number(),
+          p50: v.number(),
+          p90: v.number(),
+          histogram: v.array(
+            v.object({
+              lower: v.number(),
+              upper: v.number(),
+              count: v.number(),
+            })
+          ),
+        })
+      ),
     })
   ),
+
+  kpiAttainment: v.optional(
+    v.array(
+      v.object({
+        source: v.union(v.literal("kpi"), v.literal("custom_metric")),
+        name: v.string(),
+        metric: v.optional(v.string()),
+        timeframe: v.string(),
+        target: v.number(),
+        expected: v.optional(v.number()),
+        probability: v.optional(v.number()),
+        expectedShortfall: v.optional(v.number()),
+      })
+    )
+  ),
+});
+
+const simulationModelMetadataValidator = v.object({
+  primaryModel: v.string(),
+  modelVersions: v.record(v.string(), v.string()),
+  promptVersions: v.optional(v.record(v.string(), v.string())),
+  ensembleWeights: v.optional(v.record(v.string(), v.number())),
+  segmentEnsembleWeights: v.optional(
+    v.array(
+      v.object({
+        metric: v.string(),
+        horizon: v.string(),
+        weights: v.record(v.string(), v.number()),
+      })
+    )
+  ),
+  weightingStrategy: v.optional(v.string()),
+  processingTime: v.number(),
+  dataQuality: v.object({
+    completeness: v.number(),
+    accuracy: v.number(),
+    freshness: v.number(),
+  }),
 });
 
 /**
@@ -127,8 +281,18 @@ export const createSimulation = mutation({
         (1000 * 60 * 60 * 24)
     );
 
-    if (timeframeDays < 5 || timeframeDays > 30) {
-      throw new Error("Invalid timeframe: must be between 5 and 30 days");
+    const { granularity } = config.timeframe;
+    const limits = TIMEFRAME_LIMITS[granularity];
+    const timeframeSize = timeframeLength(
+      granularity,
+      config.timeframe.startDate,
+      config.timeframe.endDate
+    );
+
+    if (timeframeSize < limits.min || timeframeSize > limits.max) {
+      throw new Error(
+        `Invalid timeframe: ${granularity} simulations must be between ${limits.min} and ${limits.max} ${limits.unit}`
+      );
     }
 
     // Validate metrics
@@ -153,6 +317,58 @@ export const createSimulation = mutation({
       throw new Error(`Invalid scenarios: ${invalidScenarios.join(", ")}`);
     }
 
+    // Validate custom scenarios and their dated shocks
+    const customNames = new Set<string>();
+    for (const scenario of config.customScenarios ?? []) {
+      const name = scenario.name.trim();
+      if (!name) {
+        throw new Error("Custom scenarios require a name");
+      }
+      if (customNames.has(name.toLowerCase())) {
+        throw new Error(`Duplicate custom scenario name: ${name}`);
+      }
+      customNames.add(name.toLowerCase());
+
+      if (scenario.adjustments.length > 10) {
+        throw new Error(`Scenario "${name}" has more than 10 shocks`);
+      }
+
+      for (const adjustment of scenario.adjustments) {
+        if (adjustment.multiplier <= 0 || adjustment.multiplier > 5) {
+          throw new Error(
+            `Invalid shock in scenario "${name}": multiplier must be between 0 and 5`
+          );
+        }
+        if (adjustment.startDate > adjustment.endDate) {
+          throw new Error(
+            `Invalid shock in scenario "${name}": start date must be before end date`
+          );
+        }
+      }
+    }
+
+    // Validate Monte Carlo settings and pin the seed so the run can be reproduced
+    let monteCarlo = config.monteCarlo;
+    if (monteCarlo) {
+      if (
+        !Number.isInteger(monteCarlo.iterations) ||
+        monteCarlo.iterations < 100 ||
+        monteCarlo.iterations > 10000
+      ) {
+        throw new Error(
+          "Invalid Monte Carlo iterations: must be an integer between 100 and 10000"
+        );
+      }
+
+      monteCarlo = {
+        ...monteCarlo,
+        seed: monteCarlo.seed ?? Math.floor(Math.random() * 4294967296),
+      };
+    }
+
+    const subscriptionTier = await organizationSubscriptionTier(ctx, campaign.organizationId);
+    await assertWithinUsageQuota(ctx, campaign.organizationId, subscriptionTier);
+
     // Create simulation with queue metadata
     const now = Date.now();
     const estimatedDuration = timeframeDays * config.metrics.length * 1000; // Rough estimate
@@ -161,12 +377,12 @@ export const createSimulation = mutation({
       campaignId: args.campaignId,
       organizationId: campaign.organizationId,
       createdBy: userId,
-      config,
+      config: { ...config, monteCarlo },
       status: "queued",
       queueMetadata: {
         priority: args.priority ?? 5, // Default priority
         estimatedDuration,
-        subscriptionTier: membership.role === "owner" ? "premium" : "standard",
+        subscriptionTier,
         queuedAt: now,
         retryCount: 0,
       },
@@ -174,10 +390,166 @@ export const createSimulation = mutation({
       updatedAt: now,
     });
 
+    // Process the simulation in the background
+    await ctx.scheduler.runAfter(0, internal.simulationRunner.runSimulation, {
+      simulationId,
+    });
+
     return simulationId;
   },
 });
 
+/**
+ * Delete a simulation's recorded dataset unless a replay of it still uses the file
+ */
+async function releaseInputSnapshot(
+  ctx: MutationCtx,
+  simulation: Doc<"simulations">
+) {
+  const snapshot = simulation.inputSnapshot;
+  if (!snapshot) {
+    return;
+  }
+
+  const sharedWith = await ctx.db
+    .query("simulations")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", simulation.campaignId))
+    .filter((q) =>
+      q.and(
+        q.neq(q.field("_id"), simulation._id),
+        q.eq(
+          q.field("inputSnapshot.datasetStorageId"),
+          snapshot.datasetStorageId
+        )
+      )
+    )
+    .first();
+
+  if (!sharedWith) {
+    await ctx.storage.delete(snapshot.datasetStorageId);
+  }
+}
+
+/**
+ * Queue a re-run of a simulation with its configuration and, for
+ * same_inputs, its recorded dataset
+ */
+export async function queueSimulationRerun(
+  ctx: MutationCtx,
+  source: Doc<"simulations">,
+  userId: Id<"users">,
+  subscriptionTier: string,
+  mode: "same_inputs" | "current_campaign"
+) {
+  const now = Date.now();
+  const timeframeDays = Math.ceil(
+    (source.config.timeframe.endDate - source.config.timeframe.startDate) /
+      (1000 * 60 * 60 * 24)
+  );
+  const estimatedDuration =
+    timeframeDays * source.config.metrics.length * 1000; // Rough estimate
+
+  // The copied config keeps the Monte Carlo seed, so replays draw the same samples
+  const simulationId = await ctx.db.insert("simulations", {
+    campaignId: source.campaignId,
+    organizationId: source.organizationId,
+    createdBy: userId,
+    config: source.config,
+    status: "queued",
+    queueMetadata: {
+      priority: source.queueMetadata?.priority ?? 5,
+      estimatedDuration,
+      subscriptionTier,
+      queuedAt: now,
+      retryCount: 0,
+    },
+    inputSnapshot:
+      mode === "same_inputs"
+        ? {
+            ...source.inputSnapshot!,
+            promptVersions: undefined,
+            modelVersions: undefined,
+          }
+        : undefined,
+    rerunOf: {
+      simulationId: source._id,
+      mode,
+    },
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // A re-run against the current campaign is the refresh an out-of-date result waits for
+  if (mode === "current_campaign" && source.outOfDate) {
+    await ctx.db.patch(source._id, {
+      outOfDate: { ...source.outOfDate, rerunSimulationId: simulationId },
+    });
+  }
+
+  await ctx.scheduler.runAfter(0, internal.simulationRunner.runSimulation, {
+    simulationId,
+  });
+
+  return simulationId;
+}
+
+/**
+ * Queue a new simulation with the configuration of an earlier one, either
+ * replaying its recorded inputs or reading the campaign as it is now
+ * Requirements: 7.1, 7.5
+ */
+export const rerunSimulation = mutation({
+  args: {
+    simulationId: v.id("simulations"),
+    mode: v.union(v.literal("same_inputs"), v.literal("current_campaign")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const source = await ctx.db.get(args.simulationId);
+    if (!source) {
+      throw new Error("Simulation not found");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", source.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error(
+        "Access denied: User not member of simulation organization"
+      );
+    }
+
+    if (args.mode === "same_inputs" && !source.inputSnapshot) {
+      throw new Error("No input snapshot was recorded for this simulation");
+    }
+
+    const campaign = await ctx.db.get(source.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const subscriptionTier = await organizationSubscriptionTier(ctx, source.organizationId);
+    await assertWithinUsageQuota(ctx, source.organizationId, subscriptionTier);
+
+    return await queueSimulationRerun(
+      ctx,
+      source,
+      userId,
+      subscriptionTier,
+      args.mode
+    );
+  },
+});
+
 /**
  * Update simulation status
  * Requirements: 7.1, 7.5
@@ -257,18 +629,7 @@ export const completeSimulation = mutation({
   args: {
     simulationId: v.id("simulations"),
     results: simulationResultsValidator,
-    modelMetadata: v.optional(
-      v.object({
-        primaryModel: v.string(),
-        modelVersions: v.record(v.string(), v.string()),
-        processingTime: v.number(),
-        dataQuality: v.object({
-          completeness: v.number(),
-          accuracy: v.number(),
-          freshness: v.number(),
-        }),
-      })
-    ),
+    modelMetadata: v.optional(simulationModelMetadataValidator),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -296,34 +657,278 @@ export const completeSimulation = mutation({
       );
     }
 
-    // Validate simulation is in processing state
-    if (simulation.status !== "processing") {
-      throw new Error(
-        `Cannot complete simulation with status: ${simulation.status}`
-      );
+    await applySimulationResults(
+      ctx,
+      simulation,
+      args.results,
+      args.modelMetadata
+    );
+
+    return args.simulationId;
+  },
+});
+
+/**
+ * Validate results against the simulation and mark it completed
+ */
+async function applySimulationResults(
+  ctx: MutationCtx,
+  simulation: Doc<"simulations">,
+  results: Infer<typeof simulationResultsValidator>,
+  modelMetadata?: Infer<typeof simulationModelMetadataValidator>
+) {
+  // Validate simulation is in processing state
+  if (simulation.status !== "processing") {
+    throw new Error(
+      `Cannot complete simulation with status: ${simulation.status}`
+    );
+  }
+
+  // Validate results
+  if (results.trajectories.length === 0) {
+    throw new Error("Results must contain at least one trajectory point");
+  }
+
+  // Validate trajectory dates are within simulation timeframe
+  const { startDate, endDate } = simulation.config.timeframe;
+  const invalidDates = results.trajectories.filter(
+    (t) => t.date < startDate || t.date > endDate
+  );
+
+  if (invalidDates.length > 0) {
+    throw new Error("Trajectory dates must be within simulation timeframe");
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(simulation._id, {
+    status: "completed",
+    results,
+    modelMetadata,
+    // The snapshot is captured before any model runs; record which ones did
+    inputSnapshot:
+      simulation.inputSnapshot && modelMetadata
+        ? {
+            ...simulation.inputSnapshot,
+            modelVersions: modelMetadata.modelVersions,
+            promptVersions: modelMetadata.promptVersions,
+          }
+        : simulation.inputSnapshot,
+    completedAt: now,
+    updatedAt: now,
+  });
+
+  await notifyRiskRuleMatches(ctx, simulation, results.risks);
+  await trackSimulationRecommendations(ctx, simulation, results.recommendations);
+  if (simulation.scheduledRun) {
+    await notifyForecastChanges(ctx, simulation, results);
+  }
+}
+
+// ============================================================================
+// BACKGROUND PROCESSING (used by simulationRunner)
+// ============================================================================
+
+/**
+ * Load a simulation for the background runner
+ */
+export const getSimulationRun = internalQuery({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.simulationId);
+  },
+});
+
+/**
+ * Load the campaign a simulation runs against
+ */
+export const getCampaignForRun = internalQuery({
+  args: {
+    campaignId: v.id("campaigns"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.campaignId);
+  },
+});
+
+/**
+ * Move a queued simulation to processing.
+ * Returns false when it was cancelled or deleted before the runner picked it up.
+ */
+export const startSimulationRun = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation || simulation.status !== "queued") {
+      return false;
     }
 
-    // Validate results
-    if (args.results.trajectories.length === 0) {
-      throw new Error("Results must contain at least one trajectory point");
+    const now = Date.now();
+    await ctx.db.patch(args.simulationId, {
+      status: "processing",
+      queueMetadata: simulation.queueMetadata && {
+        ...simulation.queueMetadata,
+        startedAt: now,
+      },
+      stages: [],
+      updatedAt: now,
+    });
+
+    return true;
+  },
+});
+
+/**
+ * Record a pipeline stage transition for a processing simulation.
+ * A stage (or model call) that starts again replaces its previous entry.
+ */
+export const recordSimulationStage = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    stage: v.string(),
+    model: v.optional(v.string()),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    timestamp: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation || simulation.status !== "processing") {
+      return null;
     }
 
-    // Validate trajectory dates are within simulation timeframe
-    const { startDate, endDate } = simulation.config.timeframe;
-    const invalidDates = args.results.trajectories.filter(
-      (t) => t.date < startDate || t.date > endDate
+    const stages = [...(simulation.stages ?? [])];
+    const index = stages.findIndex(
+      (s) => s.stage === args.stage && s.model === args.model
     );
 
-    if (invalidDates.length > 0) {
-      throw new Error("Trajectory dates must be within simulation timeframe");
+    const previous = index >= 0 ? stages[index] : undefined;
+    const entry =
+      args.status === "running"
+        ? {
+            stage: args.stage,
+            model: args.model,
+            status: args.status,
+            startedAt: args.timestamp,
+          }
+        : {
+            stage: args.stage,
+            model: args.model,
+            status: args.status,
+            startedAt: previous?.startedAt ?? args.timestamp,
+            completedAt: args.timestamp,
+            error: args.error,
+          };
+
+    if (index >= 0) {
+      stages[index] = entry;
+    } else {
+      stages.push(entry);
+    }
+
+    await ctx.db.patch(args.simulationId, {
+      stages,
+      updatedAt: Date.now(),
+    });
+
+    return args.simulationId;
+  },
+});
+
+/**
+ * Record the inputs a processing simulation is about to run on
+ */
+export const recordInputSnapshot = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    campaign: v.any(),
+    datasetStorageId: v.id("_storage"),
+    datasetHash: v.string(),
+    sourcesUsed: v.array(v.string()),
+    capturedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation || simulation.status !== "processing") {
+      return null;
+    }
+
+    await ctx.db.patch(args.simulationId, {
+      inputSnapshot: {
+        campaign: args.campaign,
+        datasetStorageId: args.datasetStorageId,
+        datasetHash: args.datasetHash,
+        sourcesUsed: args.sourcesUsed,
+        capturedAt: args.capturedAt,
+      },
+      updatedAt: Date.now(),
+    });
+
+    return args.simulationId;
+  },
+});
+
+/**
+ * Persist the orchestrator's results for a processing simulation
+ */
+export const completeSimulationRun = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    results: simulationResultsValidator,
+    modelMetadata: simulationModelMetadataValidator,
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      throw new Error("Simulation not found");
+    }
+
+    // The user cancelled while the models were running
+    if (simulation.status === "cancelled") {
+      return null;
+    }
+
+    await applySimulationResults(
+      ctx,
+      simulation,
+      args.results,
+      args.modelMetadata
+    );
+
+    return args.simulationId;
+  },
+});
+
+/**
+ * Record a failed background run
+ */
+export const failSimulationRun = internalMutation({
+  args: {
+    simulationId: v.id("simulations"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation || simulation.status !== "processing") {
+      return null;
     }
 
     const now = Date.now();
     await ctx.db.patch(args.simulationId, {
-      status: "completed",
-      results: args.results,
-      modelMetadata: args.modelMetadata,
-      completedAt: now,
+      status: "failed",
+      queueMetadata: simulation.queueMetadata && {
+        ...simulation.queueMetadata,
+        failedAt: now,
+        error: args.error,
+        retryCount: simulation.queueMetadata.retryCount + 1,
+      },
       updatedAt: now,
     });
 
@@ -381,6 +986,7 @@ export const deleteSimulation = mutation({
     }
 
     // Delete the simulation
+    await releaseInputSnapshot(ctx, simulation);
     await ctx.db.delete(args.simulationId);
 
     return { success: true };
@@ -465,6 +1071,7 @@ export const cleanupExpiredData = mutation({
       .collect();
 
     for (const simulation of oldSimulations) {
+      await releaseInputSnapshot(ctx, simulation);
       await ctx.db.delete(simulation._id);
     }
 
@@ -719,6 +1326,7 @@ export const getSimulationResults = query({
     // Return simulation with progress information
     const result: any = {
       _id: simulation._id,
+      campaignId: simulation.campaignId,
       status: simulation.status,
       config: simulation.config,
       results: simulation.results,
@@ -727,6 +1335,8 @@ export const getSimulationResults = query({
       updatedAt: simulation.updatedAt,
       completedAt: simulation.completedAt,
       queueMetadata: simulation.queueMetadata,
+      stages: simulation.stages,
+      outOfDate: simulation.outOfDate,
     };
 
     // Calculate progress for processing simulations
@@ -734,15 +1344,21 @@ export const getSimulationResults = query({
       simulation.status === "processing" &&
       simulation.queueMetadata?.startedAt
     ) {
-      const elapsed = Date.now() - simulation.queueMetadata.startedAt;
-      const estimated = simulation.queueMetadata.estimatedDuration;
-      const progress = Math.min(Math.round((elapsed / estimated) * 100), 95); // Cap at 95% until complete
+      const now = Date.now();
+      const elapsed = now - simulation.queueMetadata.startedAt;
+      const estimate = estimateStageProgress(
+        simulation.stages ?? [],
+        simulation.queueMetadata.startedAt,
+        simulation.queueMetadata.estimatedDuration,
+        now
+      );
 
       result.progress = {
-        percentage: progress,
+        percentage: Math.round(estimate.percentage),
         elapsed,
-        estimated,
-        remainingTime: Math.max(estimated - elapsed, 0),
+        estimated: elapsed + estimate.remainingMs,
+        remainingTime: estimate.remainingMs,
+        currentStep: estimate.currentStep,
       };
     }
 
@@ -750,6 +1366,52 @@ export const getSimulationResults = query({
   },
 });
 
+/**
+ * Get the inputs a simulation ran on, with a download link for the recorded dataset
+ */
+export const getSimulationInputSnapshot = query({
+  args: {
+    simulationId: v.id("simulations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const simulation = await ctx.db.get(args.simulationId);
+    if (!simulation) {
+      return null;
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", simulation.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error(
+        "Access denied: User not member of simulation organization"
+      );
+    }
+
+    const snapshot = simulation.inputSnapshot;
+    if (!snapshot) {
+      return null;
+    }
+
+    return {
+      ...snapshot,
+      config: simulation.config,
+      rerunOf: simulation.rerunOf,
+      datasetUrl: await ctx.storage.getUrl(snapshot.datasetStorageId),
+    };
+  },
+});
+
 /**
  * Get simulation history and analytics for a campaign
  * Requirements: 7.1, 7.2
@@ -853,6 +1515,77 @@ export const getCampaignSimulationHistory = query({
   },
 });
 
+// Upper bound keeps the overlay chart and diff tables readable
+const MAX_COMPARED_SIMULATIONS = 5;
+
+/**
+ * Compare completed simulations of the same campaign
+ * Requirements: 7.1, 7.2
+ */
+export const compareSimulations = query({
+  args: {
+    simulationIds: v.array(v.id("simulations")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const simulationIds = [...new Set(args.simulationIds)];
+    if (simulationIds.length < 2) {
+      throw new Error("Select at least two simulations to compare");
+    }
+    if (simulationIds.length > MAX_COMPARED_SIMULATIONS) {
+      throw new Error(
+        `At most ${MAX_COMPARED_SIMULATIONS} simulations can be compared`
+      );
+    }
+
+    const campaignId = (await ctx.db.get(simulationIds[0]))?.campaignId;
+    const simulations: ComparableSimulation[] = [];
+    for (const simulationId of simulationIds) {
+      const simulation = await ctx.db.get(simulationId);
+      if (!simulation) {
+        throw new Error("Simulation not found");
+      }
+      if (simulation.campaignId !== campaignId) {
+        throw new Error(
+          "Only simulations of the same campaign can be compared"
+        );
+      }
+      if (simulation.status !== "completed" || !simulation.results) {
+        throw new Error("Only completed simulations can be compared");
+      }
+      simulations.push({ ...simulation, results: simulation.results });
+    }
+
+    const campaign = campaignId ? await ctx.db.get(campaignId) : null;
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_organization_user", (q) =>
+        q.eq("organizationId", campaign.organizationId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+
+    if (!membership) {
+      throw new Error(
+        "Access denied: User not member of campaign organization"
+      );
+    }
+
+    return {
+      campaignId: campaign._id,
+      ...buildSimulationComparison(simulations),
+    };
+  },
+});
+
 /**
  * Get organization simulation analytics
  * Requirements: 7.1, 7.2
@@ -1260,6 +1993,10 @@ export const storePerformanceComparison = mutation({
         "Access denied: User not member of simulation organization"
       );
     }
+    // Actuals set the organization's learned ensemble weights
+    if (membership.role === "viewer") {
+      throw new Error("Access denied: Viewers cannot record actual performance");
+    }
 
     // Update simulation with performance comparison data
     await ctx.db.patch(args.simulationId, {
@@ -1270,6 +2007,11 @@ export const storePerformanceComparison = mutation({
       updatedAt: Date.now(),
     });
 
+    // Score each model's own forecast against the new actuals
+    await ctx.scheduler.runAfter(0, internal.ensembleWeights.evaluateModelAccuracy, {
+      simulationId: args.simulationId,
+    });
+
     return args.simulationId;
   },
 });
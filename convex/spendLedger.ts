@@ -0,0 +1,260 @@
+import { v } from "convex/values";
+import {
+  internalQuery,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { forecastBudgetPacing } from "../src/lib/simulation/orchestration/BudgetPacingForecaster";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES_PER_BATCH = 500;
+
+/**
+ * Load a campaign and check the user is an active member of its organization
+ */
+async function getCampaignForMember(
+  ctx: QueryCtx,
+  campaignId: Id<"campaigns">,
+  userId: Id<"users">
+) {
+  const campaign = await ctx.db.get(campaignId);
+  if (!campaign) {
+    throw new Error("Campaign not found");
+  }
+
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization_user", (q) =>
+      q.eq("organizationId", campaign.organizationId).eq("userId", userId)
+    )
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+
+  if (!membership) {
+    throw new Error("Access denied: User not member of campaign organization");
+  }
+
+  return campaign;
+}
+
+async function loadCampaignSpend(ctx: QueryCtx, campaignId: Id<"campaigns">) {
+  return await ctx.db
+    .query("spendLedger")
+    .withIndex("by_campaign_date", (q) => q.eq("campaignId", campaignId))
+    .collect();
+}
+
+/**
+ * Record daily spend for a campaign.
+ * Entries are keyed by channel and UTC day; recording the same day again
+ * replaces the earlier amount so platform re-imports stay idempotent.
+ */
+export const recordSpend = mutation({
+  args: {
+    campaignId: v.id("campaigns"),
+    entries: v.array(
+      v.object({
+        channel: v.string(),
+        date: v.number(),
+        amount: v.number(),
+      })
+    ),
+    source: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await getCampaignForMember(ctx, args.campaignId, userId);
+
+    if (args.entries.length === 0) {
+      throw new Error("At least one spend entry is required");
+    }
+    if (args.entries.length > MAX_ENTRIES_PER_BATCH) {
+      throw new Error(
+        `At most ${MAX_ENTRIES_PER_BATCH} spend entries can be recorded at once`
+      );
+    }
+
+    const channels = new Set(campaign.channels.map((channel) => channel.type));
+    for (const entry of args.entries) {
+      if (!channels.has(entry.channel)) {
+        throw new Error(`Channel ${entry.channel} is not part of this campaign`);
+      }
+      if (!Number.isFinite(entry.amount) || entry.amount < 0) {
+        throw new Error("Spend amounts must be zero or positive");
+      }
+    }
+
+    const now = Date.now();
+    const entryIds: Id<"spendLedger">[] = [];
+    for (const entry of args.entries) {
+      const date = Math.floor(entry.date / DAY_MS) * DAY_MS;
+      const existing = await ctx.db
+        .query("spendLedger")
+        .withIndex("by_campaign_channel_date", (q) =>
+          q
+            .eq("campaignId", args.campaignId)
+            .eq("channel", entry.channel)
+            .eq("date", date)
+        )
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          amount: entry.amount,
+          source: args.source ?? existing.source,
+          recordedBy: userId,
+          updatedAt: now,
+        });
+        entryIds.push(existing._id);
+      } else {
+        entryIds.push(
+          await ctx.db.insert("spendLedger", {
+            campaignId: args.campaignId,
+            organizationId: campaign.organizationId,
+            channel: entry.channel,
+            date,
+            amount: entry.amount,
+            source: args.source ?? "manual",
+            recordedBy: userId,
+            createdAt: now,
+            updatedAt: now,
+          })
+        );
+      }
+    }
+
+    return entryIds;
+  },
+});
+
+/**
+ * Delete a spend ledger entry
+ */
+export const deleteSpendEntry = mutation({
+  args: {
+    entryId: v.id("spendLedger"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry) {
+      throw new Error("Spend entry not found");
+    }
+
+    await getCampaignForMember(ctx, entry.campaignId, userId);
+    await ctx.db.delete(args.entryId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Get the spend ledger of a campaign with per-channel totals
+ */
+export const getSpendLedger = query({
+  args: {
+    campaignId: v.id("campaigns"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    await getCampaignForMember(ctx, args.campaignId, userId);
+    const entries = await loadCampaignSpend(ctx, args.campaignId);
+
+    const channelTotals: Record<string, number> = {};
+    for (const entry of entries) {
+      channelTotals[entry.channel] = (channelTotals[entry.channel] ?? 0) + entry.amount;
+    }
+
+    return {
+      entries: entries.sort((a, b) => b.date - a.date),
+      channelTotals,
+      total: entries.reduce((sum, entry) => sum + entry.amount, 0),
+    };
+  },
+});
+
+/**
+ * Project end-of-flight spend from the ledger and raise pacing alerts
+ */
+export const getBudgetPacing = query({
+  args: {
+    campaignId: v.id("campaigns"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const campaign = await getCampaignForMember(ctx, args.campaignId, userId);
+    const entries = await loadCampaignSpend(ctx, args.campaignId);
+
+    const forecast = forecastBudgetPacing({
+      budget: campaign.budget,
+      channelBudgets: campaign.budgetAllocation.channels,
+      flightStart: new Date(campaign.startDate),
+      flightEnd: new Date(campaign.endDate),
+      spend: entries.map((entry) => ({
+        date: new Date(entry.date),
+        channel: entry.channel,
+        amount: entry.amount,
+      })),
+      asOf: new Date(),
+      currency: campaign.currency,
+    });
+
+    // Dates go back to timestamps so the forecast can cross the wire
+    const toWire = (projection: typeof forecast.total) => ({
+      ...projection,
+      exhaustionDate: projection.exhaustionDate?.getTime(),
+    });
+
+    return {
+      currency: campaign.currency,
+      hasSpend: entries.length > 0,
+      asOf: forecast.asOf.getTime(),
+      flightDays: forecast.flightDays,
+      daysElapsed: forecast.daysElapsed,
+      daysRemaining: forecast.daysRemaining,
+      total: toWire(forecast.total),
+      channels: forecast.channels.map(toWire),
+      alerts: forecast.alerts.map((alert) => ({
+        ...alert,
+        date: alert.date.getTime(),
+        projection: toWire(alert.projection),
+      })),
+    };
+  },
+});
+
+/**
+ * Ledger entries for the simulation runner
+ */
+export const getCampaignSpend = internalQuery({
+  args: {
+    campaignId: v.id("campaigns"),
+  },
+  handler: async (ctx, args) => {
+    const entries = await loadCampaignSpend(ctx, args.campaignId);
+    return entries.map((entry) => ({
+      date: entry.date,
+      channel: entry.channel,
+      amount: entry.amount,
+    }));
+  },
+});
@@ -127,6 +127,7 @@ const CampaignEditPage = () => {
                     timeframe: kpi.timeframe as any, // Type assertion for timeframe
                   })),
                   customMetrics: campaign.customMetrics,
+                  conversionValue: campaign.conversionValue,
                 },
                 teamAccess: {
                   teamMembers: campaign.teamMembers.map((member) => ({
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "convex/react";
 import { api } from "@/../convex/_generated/api";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -29,6 +29,8 @@ import { CampaignMetrics } from "@/components/campaigns/campaign-metrics";
 import { CampaignSettings } from "@/components/campaigns/campaign-settings";
 import { SimulationTrigger } from "@/components/simulations/SimulationTrigger";
 import { SimulationHistory } from "@/components/simulations/SimulationHistory";
+import { SimulationDetails } from "@/components/simulations/SimulationDetails";
+import { SimulationComparison } from "@/components/simulations/SimulationComparison";
 import { toast } from "sonner";
 import { useMutation } from "convex/react";
 import { CampaignStatus } from "@/types/campaign";
@@ -38,6 +40,12 @@ const CampaignDetailPage = () => {
   const params = useParams();
   const router = useRouter();
   const campaignId = params.id as Id<"campaigns">;
+  const searchParams = useSearchParams();
+  const selectedSimulationId = searchParams.get("simulation") as Id<"simulations"> | null;
+  const compareParam = searchParams.get("compare");
+  const comparedSimulationIds = (compareParam ?? "")
+    .split(",")
+    .filter(Boolean) as Id<"simulations">[];
   const [activeTab, setActiveTab] = useState("overview");
 
   // Check for simulation tab in URL params
@@ -283,7 +291,17 @@ const CampaignDetailPage = () => {
                 <CampaignOverview campaign={campaign} />
               </TabsContent>
 
-              <TabsContent value="simulations" className="mt-6">
+              <TabsContent value="simulations" className="mt-6 space-y-6">
+                {selectedSimulationId && (
+                  <SimulationDetails simulationId={selectedSimulationId} />
+                )}
+                {compareParam !== null && (
+                  <SimulationComparison
+                    key={compareParam}
+                    campaignId={campaign._id}
+                    initialSimulationIds={comparedSimulationIds}
+                  />
+                )}
                 <SimulationHistory
                   campaignId={campaign._id}
                   showHeader={true}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/../convex/_generated/api";
 import { useParams, useRouter } from "next/navigation";
@@ -8,8 +8,15 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Brain } from "lucide-react";
 import Link from "next/link";
-import { SimulationRequestForm } from "@/components/simulations/SimulationRequestForm";
+import {
+  SimulationRequestForm,
+  SimulationRequestFormData,
+} from "@/components/simulations/SimulationRequestForm";
+import { toCustomScenarioConfig } from "@/components/simulations/ScenarioBuilder";
+import { WhatIfBuilder } from "@/components/simulations/WhatIfBuilder";
+import { BudgetOptimizer } from "@/components/campaigns/budget-optimizer";
 import { toast } from "sonner";
+import { format } from "date-fns";
 import { Id } from "../../../../../../convex/_generated/dataModel";
 
 const CampaignSimulatePage = () => {
@@ -30,10 +37,51 @@ const CampaignSimulatePage = () => {
     campaign ? { organizationId: campaign.organizationId } : "skip"
   );
 
+  // Latest completed simulation, whose recommendations the what-if builder combines
+  const recentSimulations = useQuery(
+    api.simulations.getRecentSimulationsByCampaign,
+    { campaignId, limit: 10 }
+  );
+  const latestSimulation = useMemo(() => {
+    return recentSimulations?.find((s) => s.status === "completed");
+  }, [recentSimulations]);
+  const simulationResults = useQuery(
+    api.simulations.getSimulationResults,
+    latestSimulation ? { simulationId: latestSimulation._id } : "skip"
+  );
+
   // Create simulation mutation
   const createSimulation = useMutation(api.simulations.createSimulation);
+  const applyBudgetAllocation = useMutation(api.budgetChanges.applyBudgetAllocation);
+  const undoBudgetChange = useMutation(api.budgetChanges.undoBudgetChange);
 
-  const handleSubmit = async (data: any) => {
+  const handleApplyAllocation = async (allocation: Record<string, number>) => {
+    try {
+      const { budgetChangeId, undoableUntil } = await applyBudgetAllocation({
+        campaignId,
+        allocation,
+        description: "Applied the optimized channel budget split",
+      });
+      toast.success("Channel budgets updated", {
+        description: `You can undo this until ${format(new Date(undoableUntil), "HH:mm")}`,
+        action: {
+          label: "Undo",
+          onClick: async () => {
+            try {
+              await undoBudgetChange({ budgetChangeId });
+              toast.success("Budget change undone");
+            } catch (error) {
+              toast.error(error instanceof Error ? error.message : "Failed to undo budget change");
+            }
+          },
+        },
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to apply budget allocation");
+    }
+  };
+
+  const handleSubmit = async (data: SimulationRequestFormData) => {
     setIsSubmitting(true);
     try {
       const simulationId = await createSimulation({
@@ -46,6 +94,7 @@ const CampaignSimulatePage = () => {
           },
           metrics: data.metrics,
           scenarios: data.scenarios,
+          customScenarios: data.customScenarios.map(toCustomScenarioConfig),
           externalDataSources: data.externalDataSources,
         },
       });
@@ -133,7 +182,47 @@ const CampaignSimulatePage = () => {
               externalDataSources={externalDataSources || []}
               onSubmit={handleSubmit}
               isSubmitting={isSubmitting}
+              enableGoalSeek
+              enableCostEstimate
             />
+
+            {/* Optimal split of the campaign budget */}
+            <div className="mt-8">
+              <BudgetOptimizer
+                organizationId={campaign.organizationId}
+                campaignId={campaignId}
+                totalBudget={campaign.budget}
+                startDate={campaign.startDate}
+                endDate={campaign.endDate}
+                channels={campaign.channels
+                  .filter((channel) => channel.enabled)
+                  .map((channel) => ({
+                    type: channel.type,
+                    budget: campaign.budgetAllocation.channels[channel.type] ?? channel.budget,
+                  }))}
+                kpis={campaign.kpis}
+                currency={campaign.currency}
+                onApply={handleApplyAllocation}
+              />
+            </div>
+
+            {/* What-if builder on the latest results */}
+            {latestSimulation && simulationResults?.results && (
+              <div className="mt-8">
+                <WhatIfBuilder
+                  simulationId={latestSimulation._id}
+                  recommendations={simulationResults.results.recommendations}
+                  channelBudgets={Object.fromEntries(
+                    campaign.channels.map((channel) => [
+                      channel.type,
+                      campaign.budgetAllocation.channels[channel.type] ?? channel.budget,
+                    ])
+                  )}
+                  currency={campaign.currency}
+                  granularity={simulationResults.config.timeframe.granularity}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
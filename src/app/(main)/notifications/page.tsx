@@ -158,6 +158,8 @@ const Notifications = () => {
         return "�";
       case "team_member_removed":
         return "👋";
+      case "risk_alert":
+        return "⚠️";
       default:
         return "🔔";
     }
@@ -248,6 +250,9 @@ const Notifications = () => {
                           <SelectItem value="team_member_removed">
                             Team Member Removed
                           </SelectItem>
+                          <SelectItem value="risk_alert">
+                            Risk Alerts
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                       <div className="flex space-x-2 ml-auto">
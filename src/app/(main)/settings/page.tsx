@@ -3,8 +3,12 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { UserInvitations } from "@/components/users/user-invitations";
 import { OrganizationMembers } from "@/components/users/organization-members";
+import { RiskRulesManager } from "@/components/simulations/RiskRulesManager";
+import { ResimulationSettings } from "@/components/simulations/ResimulationSettings";
+import { AIUsageSummary } from "@/components/simulations/AIUsageSummary";
+import { LLMProviderSettings } from "@/components/simulations/LLMProviderSettings";
 import { useOrganization } from "@/contexts/organization-context";
-import { Settings, Users, Mail } from "lucide-react";
+import { Settings, Users, Mail, ShieldAlert, Coins, Server } from "lucide-react";
 
 export default function SettingsPage() {
   const { currentOrganization } = useOrganization();
@@ -31,12 +35,12 @@ export default function SettingsPage() {
                 Organization Settings
               </h1>
               <p className="text-muted-foreground">
-                Manage your organization members and invitations
+                Manage your organization members, invitations, forecasting, risk rules, AI provider and usage
               </p>
             </div>
 
             <Tabs defaultValue="members" className="space-y-6">
-              <TabsList className="grid w-full grid-cols-2 max-w-md">
+              <TabsList className="grid w-full grid-cols-5 max-w-3xl">
                 <TabsTrigger value="members" className="flex items-center gap-2">
                   <Users className="h-4 w-4" />
                   Members
@@ -45,6 +49,18 @@ export default function SettingsPage() {
                   <Mail className="h-4 w-4" />
                   Invitations
                 </TabsTrigger>
+                <TabsTrigger value="risk-rules" className="flex items-center gap-2">
+                  <ShieldAlert className="h-4 w-4" />
+                  Risk Rules
+                </TabsTrigger>
+                <TabsTrigger value="ai-provider" className="flex items-center gap-2">
+                  <Server className="h-4 w-4" />
+                  AI Provider
+                </TabsTrigger>
+                <TabsTrigger value="usage" className="flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  Usage
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="members" className="space-y-6">
@@ -54,6 +70,19 @@ export default function SettingsPage() {
               <TabsContent value="invitations" className="space-y-6">
                 <UserInvitations />
               </TabsContent>
+
+              <TabsContent value="risk-rules" className="space-y-6">
+                <ResimulationSettings organizationId={currentOrganization._id} />
+                <RiskRulesManager organizationId={currentOrganization._id} />
+              </TabsContent>
+
+              <TabsContent value="ai-provider" className="space-y-6">
+                <LLMProviderSettings organizationId={currentOrganization._id} />
+              </TabsContent>
+
+              <TabsContent value="usage" className="space-y-6">
+                <AIUsageSummary organizationId={currentOrganization._id} />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, Calculator, Loader2 } from "lucide-react";
+
+// Wait for the user to stop typing constraints before re-solving
+const OPTIMIZE_DEBOUNCE_MS = 400;
+
+const SOURCE_LABELS = {
+  history: "recorded spend and actuals",
+  simulation: "the latest simulation",
+  benchmark: "channel benchmarks",
+} as const;
+
+interface BudgetOptimizerProps {
+  organizationId: Id<"organizations">;
+  campaignId?: Id<"campaigns">;
+  totalBudget: number;
+  startDate: number;
+  endDate: number;
+  channels: Array<{ type: string; budget: number }>;
+  kpis: Array<{ type: string; weight: number }>;
+  minimums?: Record<string, number>; // e.g. platform minimum spend
+  currency?: string;
+  applyLabel?: string;
+  onApply?: (allocation: Record<string, number>) => void | Promise<void>;
+}
+
+interface ChannelLimits {
+  min?: number;
+  max?: number;
+}
+
+export function BudgetOptimizer({
+  organizationId,
+  campaignId,
+  totalBudget,
+  startDate,
+  endDate,
+  channels,
+  kpis,
+  minimums = {},
+  currency = "USD",
+  applyLabel = "Apply allocation",
+  onApply,
+}: BudgetOptimizerProps) {
+  const [limits, setLimits] = useState<Record<string, ChannelLimits>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const args = {
+    organizationId,
+    campaignId,
+    totalBudget,
+    startDate,
+    endDate,
+    channels: channels.map((channel) => ({
+      type: channel.type,
+      min: limits[channel.type]?.min ?? minimums[channel.type],
+      max: limits[channel.type]?.max,
+      current: channel.budget,
+    })),
+    kpis: kpis.map(({ type, weight }) => ({ type, weight })),
+  };
+
+  // Compare by value: parents usually pass freshly built arrays
+  const argsKey = JSON.stringify(args);
+  const [debouncedKey, setDebouncedKey] = useState(argsKey);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedKey(argsKey), OPTIMIZE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [argsKey]);
+  const debouncedArgs = useMemo(
+    () => JSON.parse(debouncedKey) as typeof args,
+    [debouncedKey]
+  );
+
+  const canOptimize = totalBudget > 0 && channels.length > 0 && endDate > startDate;
+  const result = useQuery(
+    api.budgetOptimizer.optimizeBudgetAllocation,
+    canOptimize ? debouncedArgs : "skip"
+  );
+  const isUpdating = result === undefined || debouncedKey !== argsKey;
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const formatChange = (change: number) =>
+    `${change >= 0 ? "+" : ""}${(change * 100).toFixed(1)}%`;
+
+  const updateLimit = (channel: string, field: keyof ChannelLimits, value: string) => {
+    setLimits((current) => ({
+      ...current,
+      [channel]: {
+        ...current[channel],
+        [field]: value === "" ? undefined : Math.max(0, Number(value)),
+      },
+    }));
+  };
+
+  const handleApply = async () => {
+    if (!result?.feasible || !onApply) return;
+    setIsApplying(true);
+    try {
+      await onApply(result.allocation);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // The KPI that drives most of the objective, for the marginal ROI column
+  const primaryKpi = result?.feasible
+    ? [...result.kpis].sort((a, b) => b.weight - a.weight)[0]
+    : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Budget Optimizer
+          {isUpdating && canOptimize && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </CardTitle>
+        <CardDescription>
+          Channel split that maximizes your weighted KPIs, given each channel&apos;s diminishing returns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!canOptimize ? (
+          <p className="text-sm text-muted-foreground">
+            Set a budget, campaign dates and at least one channel to optimize the allocation.
+          </p>
+        ) : !result ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {!result.feasible && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{result.error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-2 font-medium">Channel</th>
+                    <th className="py-2 pr-2 font-medium">Min</th>
+                    <th className="py-2 pr-2 font-medium">Max</th>
+                    <th className="py-2 pr-2 font-medium text-right">Current</th>
+                    <th className="py-2 pr-2 font-medium text-right">Optimized</th>
+                    <th className="py-2 font-medium text-right">
+                      Marginal {primaryKpi ? primaryKpi.metric : "return"} / $100
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {channels.map((channel) => {
+                    const optimized = result.feasible
+                      ? result.channels.find((entry) => entry.channel === channel.type)
+                      : undefined;
+
+                    return (
+                      <tr key={channel.type} className="border-b last:border-0">
+                        <td className="py-2 pr-2 capitalize">{channel.type.replace(/_/g, " ")}</td>
+                        <td className="py-2 pr-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            className="h-8 w-24"
+                            placeholder={String(minimums[channel.type] ?? 0)}
+                            value={limits[channel.type]?.min ?? ""}
+                            onChange={(event) => updateLimit(channel.type, "min", event.target.value)}
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            className="h-8 w-24"
+                            placeholder="None"
+                            value={limits[channel.type]?.max ?? ""}
+                            onChange={(event) => updateLimit(channel.type, "max", event.target.value)}
+                          />
+                        </td>
+                        <td className="py-2 pr-2 text-right">{formatCurrency(channel.budget)}</td>
+                        <td className="py-2 pr-2 text-right font-medium">
+                          {optimized ? (
+                            <div className="flex items-center justify-end gap-2">
+                              {optimized.bound && (
+                                <Badge variant="outline" className="text-xs">
+                                  at {optimized.bound}
+                                </Badge>
+                              )}
+                              {formatCurrency(optimized.budget)}
+                            </div>
+                          ) : (
+                            "—"
+                          )}
+                        </td>
+                        <td className="py-2 text-right text-muted-foreground">
+                          {optimized && primaryKpi
+                            ? (optimized.marginalReturns[primaryKpi.metric] * 100).toLocaleString(
+                                undefined,
+                                { maximumFractionDigits: 1 }
+                              )
+                            : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {result.feasible && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {result.kpis.map((kpi) => (
+                    <div key={kpi.type}>
+                      <p className="text-sm text-muted-foreground capitalize">
+                        {kpi.type.replace(/_/g, " ")} ({Math.round(kpi.weight * 100)}%)
+                      </p>
+                      <p className="font-medium">
+                        {Math.round(kpi.optimized).toLocaleString()} {kpi.metric}{" "}
+                        <span
+                          className={kpi.change >= 0 ? "text-green-600" : "text-red-600"}
+                        >
+                          {formatChange(kpi.change)}
+                        </span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-xs text-muted-foreground">
+                    Weighted objective {formatChange(result.objective.optimized / result.objective.reference - 1)}{" "}
+                    vs the {result.referenceSplit === "current" ? "current" : "even"} split. Curves from{" "}
+                    {[...new Set(result.dataSources.map((source) => SOURCE_LABELS[source.source]))].join(", ")}
+                    {result.dataSources.some((source) => source.source === "history") &&
+                      ` (${Math.max(...result.dataSources.map((source) => source.observations))} days)`}
+                    .
+                  </p>
+                  {onApply && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={handleApply}
+                      disabled={isApplying || isUpdating}
+                    >
+                      {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {applyLabel}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
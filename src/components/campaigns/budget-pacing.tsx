@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Gauge, Plus, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { Campaign } from "@/types/campaign";
+
+interface BudgetPacingProps {
+  campaign: Campaign;
+}
+
+const STATUS_LABELS = {
+  on_track: "On track",
+  over_pacing: "Over-pacing",
+  under_pacing: "Under-pacing",
+} as const;
+
+const getStatusVariant = (status: keyof typeof STATUS_LABELS) => {
+  switch (status) {
+    case "over_pacing":
+      return "destructive";
+    case "under_pacing":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+export const BudgetPacing = ({ campaign }: BudgetPacingProps) => {
+  const pacing = useQuery(api.spendLedger.getBudgetPacing, { campaignId: campaign._id });
+  const recordSpend = useMutation(api.spendLedger.recordSpend);
+
+  const enabledChannels = campaign.channels.filter(c => c.enabled);
+  const [channel, setChannel] = useState(enabledChannels[0]?.type ?? "");
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [amount, setAmount] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: campaign.currency || "USD",
+      maximumFractionDigits: 0,
+    }).format(value);
+
+  const handleRecordSpend = async () => {
+    const value = Number(amount);
+    if (!channel || !date || !Number.isFinite(value) || value < 0) {
+      toast.error("Enter a channel, a day and a spend amount");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await recordSpend({
+        campaignId: campaign._id,
+        entries: [{ channel, date: Date.parse(date), amount: value }],
+      });
+      setAmount("");
+      toast.success("Spend recorded");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record spend");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Budget Pacing
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {pacing === undefined ? (
+            <p className="text-sm text-muted-foreground">Loading pacing...</p>
+          ) : !pacing.hasSpend ? (
+            <p className="text-sm text-muted-foreground">
+              No spend recorded yet. Record daily spend per channel to project end-of-flight spend.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Spent to date</p>
+                  <p className="font-medium">
+                    {formatCurrency(pacing.total.spentToDate)} of {formatCurrency(pacing.total.budget)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Projected by flight end</p>
+                  <p className="font-medium">{formatCurrency(pacing.total.projectedSpend)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Daily run rate</p>
+                  <p className="font-medium">
+                    {formatCurrency(pacing.total.dailyRunRate)} / day ({pacing.daysRemaining} days left)
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {pacing.channels.map(projection => (
+                  <div key={projection.scope} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="capitalize">{projection.scope}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {formatCurrency(projection.projectedSpend)} / {formatCurrency(projection.budget)}
+                        </span>
+                        <Badge variant={getStatusVariant(projection.status)}>
+                          {STATUS_LABELS[projection.status]}
+                        </Badge>
+                      </div>
+                    </div>
+                    <Progress
+                      value={projection.budget > 0 ? Math.min(100, (projection.spentToDate / projection.budget) * 100) : 0}
+                      className="h-1"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {pacing.alerts.length > 0 && (
+                <div className="space-y-2">
+                  {pacing.alerts.map(alert => (
+                    <Alert
+                      key={`${alert.scope}-${alert.type}`}
+                      variant={alert.type === "over_pacing" ? "destructive" : "default"}
+                    >
+                      {alert.type === "over_pacing" ? (
+                        <TrendingUp className="h-4 w-4" />
+                      ) : (
+                        <TrendingDown className="h-4 w-4" />
+                      )}
+                      <AlertDescription>{alert.message}</AlertDescription>
+                    </Alert>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {enabledChannels.length > 0 ? (
+            <>
+              <Separator />
+              <h4 className="font-medium text-sm">Record Spend</h4>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="spend-channel">Channel</Label>
+                  <Select value={channel} onValueChange={setChannel}>
+                    <SelectTrigger id="spend-channel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {enabledChannels.map(c => (
+                        <SelectItem key={c.type} value={c.type} className="capitalize">
+                          {c.type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="spend-date">Day</Label>
+                  <Input id="spend-date" type="date" value={date} onChange={e => setDate(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="spend-amount">Amount ({campaign.currency})</Label>
+                  <Input
+                    id="spend-amount"
+                    type="number"
+                    min={0}
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleRecordSpend} disabled={isSaving || amount === ""}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4" />
+              Enable a channel to record spend against it.
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
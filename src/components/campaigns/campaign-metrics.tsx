@@ -96,6 +96,8 @@ export const CampaignMetrics = ({ campaign }: CampaignMetricsProps) => {
       case "brand_awareness":
         return <Eye className="h-4 w-4" />;
       case "roi":
+      case "roas":
+      case "cpa":
         return <DollarSign className="h-4 w-4" />;
       default:
         return <Target className="h-4 w-4" />;
@@ -113,6 +115,8 @@ export const CampaignMetrics = ({ campaign }: CampaignMetricsProps) => {
       case "brand_awareness":
         return "bg-orange-100 text-orange-600";
       case "roi":
+      case "roas":
+      case "cpa":
         return "bg-red-100 text-red-600";
       default:
         return "bg-gray-100 text-gray-600";
@@ -123,6 +127,10 @@ export const CampaignMetrics = ({ campaign }: CampaignMetricsProps) => {
     switch (type.toLowerCase()) {
       case "roi":
         return `${value}%`;
+      case "roas":
+        return `${value}x`;
+      case "cpa":
+        return `$${value}`;
       case "reach":
       case "engagement":
       case "conversions":
@@ -435,12 +443,14 @@ export const CampaignMetrics = ({ campaign }: CampaignMetricsProps) => {
               simulationResults={simulationResults.results}
               actualPerformance={actualPerformance}
               metric="ctr"
+              granularity={simulationResults.config.timeframe.granularity}
               title="CTR: Predicted vs Actual"
             />
             <PredictedVsActualChart
               simulationResults={simulationResults.results}
               actualPerformance={actualPerformance}
               metric="impressions"
+              granularity={simulationResults.config.timeframe.granularity}
               title="Impressions: Predicted vs Actual"
             />
           </div>
@@ -455,6 +465,8 @@ export const CampaignMetrics = ({ campaign }: CampaignMetricsProps) => {
             <PivotRecommendations
               campaignId={campaign._id}
               recommendations={recommendations}
+              simulationId={latestSimulation?._id}
+              organizationId={campaign.organizationId}
               compact={false}
             />
           </div>
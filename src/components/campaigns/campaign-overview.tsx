@@ -19,6 +19,7 @@ import { Campaign } from "@/types/campaign";
 import { SimulationTrigger } from "@/components/simulations/SimulationTrigger";
 import { SimulationHistory } from "@/components/simulations/SimulationHistory";
 import { RiskAlerts } from "@/components/simulations/RiskAlerts";
+import { BudgetPacing } from "@/components/campaigns/budget-pacing";
 
 interface CampaignOverviewProps {
   campaign: Campaign;
@@ -186,6 +187,9 @@ export const CampaignOverview = ({ campaign }: CampaignOverviewProps) => {
         </Card>
       </div>
 
+      {/* Budget Pacing */}
+      <BudgetPacing campaign={campaign} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* KPIs Overview */}
         <Card>
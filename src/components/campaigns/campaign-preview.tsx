@@ -134,6 +134,13 @@ export const CampaignPreview = memo(function CampaignPreview({
                 </div>
               </div>
             )}
+
+            {kpisMetrics.conversionValue !== undefined && (
+              <div className="flex justify-between items-center">
+                <p className="font-medium">Conversion Value</p>
+                <span className="font-mono">${kpisMetrics.conversionValue} per conversion</span>
+              </div>
+            )}
             
             {kpisMetrics.customMetrics?.length > 0 && (
               <div>
@@ -37,8 +37,12 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { cn } from "@/lib/utils";
+import { useOrganization } from "@/contexts/organization-context";
+import { BudgetOptimizer } from "../budget-optimizer";
 import {
   type AudienceChannels,
+  type CampaignBasics,
+  type KPIsMetrics,
   validateBudgetAllocation,
 } from "@/lib/validations/campaign";
 
@@ -244,15 +248,21 @@ export const validateAudienceChannelsStep = (
 export function AudienceChannelsStep({ className }: AudienceChannelsStepProps) {
   const form = useFormContext<{
     audienceChannels: AudienceChannels;
-    basics?: { budget: number };
+    basics?: CampaignBasics;
+    kpisMetrics?: KPIsMetrics;
   }>();
+  const { currentOrganization } = useOrganization();
   const [budgetError, setBudgetError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<
     Record<string, string>
   >({});
 
   // Get campaign budget from basics step
-  const campaignBudget = form.watch("basics")?.budget || 0;
+  const basics = form.watch("basics");
+  const campaignBudget = basics?.budget || 0;
+
+  // KPIs are set in the next step; optimize for conversions until then
+  const primaryKPIs = form.watch("kpisMetrics.primaryKPIs") ?? [];
 
   // Field arrays for dynamic forms
   const {
@@ -278,7 +288,8 @@ export function AudienceChannelsStep({ className }: AudienceChannelsStepProps) {
     () => form.watch("audienceChannels.budgetAllocation") || {},
     [form]
   );
-  const channels = form.watch("audienceChannels.channels") || [];
+  const watchedChannels = form.watch("audienceChannels.channels");
+  const channels = useMemo(() => watchedChannels || [], [watchedChannels]);
 
   // Validate budget allocation whenever it changes
   useEffect(() => {
@@ -625,6 +636,29 @@ export function AudienceChannelsStep({ className }: AudienceChannelsStepProps) {
           ))}
         </CardContent>
       </Card>
+
+      {/* Budget Optimizer */}
+      {currentOrganization && basics?.startDate && basics?.endDate && (
+        <BudgetOptimizer
+          organizationId={currentOrganization._id}
+          totalBudget={campaignBudget}
+          startDate={new Date(basics.startDate).getTime()}
+          endDate={new Date(basics.endDate).getTime()}
+          channels={channels
+            .filter((channel) => channel.enabled)
+            .map((channel) => ({ type: channel.type, budget: channel.budget }))}
+          kpis={primaryKPIs}
+          minimums={Object.fromEntries(
+            CHANNEL_OPTIONS.map((option) => [option.type, option.minBudget])
+          )}
+          currency={basics.currency}
+          onApply={(allocation) => {
+            Object.entries(allocation).forEach(([channelType, budget]) =>
+              handleBudgetChange(channelType, budget)
+            );
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useFormContext, useFieldArray } from "react-hook-form";
 import { Plus, Trash2, Target, TrendingUp, BarChart3, Eye, DollarSign, MousePointer, Zap, AlertTriangle, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -92,6 +92,20 @@ const KPI_OPTIONS = [
     },
     budgetMultiplier: 0.01, // Based on budget percentage
   },
+  {
+    type: "roas" as const,
+    name: "Return on Ad Spend",
+    description: "Revenue generated for every dollar spent on ads",
+    icon: DollarSign,
+    unit: "x ROAS",
+    category: "financial",
+    suggestedTargets: {
+      low: { value: 2, label: "2x ROAS" },
+      medium: { value: 4, label: "4x ROAS" },
+      high: { value: 6, label: "6x ROAS" },
+    },
+    budgetMultiplier: 0, // Independent of budget
+  },
   {
     type: "ctr" as const,
     name: "Click-Through Rate",
@@ -134,8 +148,25 @@ const KPI_OPTIONS = [
     },
     budgetMultiplier: 0.01, // Based on budget
   },
+  {
+    type: "cpa" as const,
+    name: "Cost Per Acquisition",
+    description: "Average spend for each conversion",
+    icon: Target,
+    unit: "$ per conversion",
+    category: "financial",
+    suggestedTargets: {
+      low: { value: 100, label: "$100 per conversion" },
+      medium: { value: 50, label: "$50 per conversion" },
+      high: { value: 25, label: "$25 per conversion" },
+    },
+    budgetMultiplier: 0.005, // Based on budget
+  },
 ] as const;
 
+// KPIs computed from conversion revenue, which need the campaign's conversion value
+const REVENUE_KPI_TYPES = ["roi", "roas"];
+
 interface KPIsStepProps {
   className?: string;
 }
@@ -232,7 +263,8 @@ export function KPIsStep({ className }: KPIsStepProps) {
   });
 
   // Watch for KPI weight changes
-  const primaryKPIs = form.watch("kpisMetrics.primaryKPIs") || [];
+  const watchedKPIs = form.watch("kpisMetrics.primaryKPIs");
+  const primaryKPIs = useMemo(() => watchedKPIs || [], [watchedKPIs]);
   
   // Validate KPI weights and other requirements whenever they change
   useEffect(() => {
@@ -262,7 +294,7 @@ export function KPIsStep({ className }: KPIsStepProps) {
         const kpiInfo = KPI_OPTIONS.find(k => k.type === kpi.type);
         if (kpiInfo) {
           const maxRealisticTarget = campaignBudget * kpiInfo.budgetMultiplier * 2; // Allow 2x multiplier for ambitious targets
-          if (kpi.target > maxRealisticTarget && kpiInfo.type !== 'roi' && kpiInfo.type !== 'brand_awareness') {
+          if (kpi.target > maxRealisticTarget && kpiInfo.type !== 'roi' && kpiInfo.type !== 'roas' && kpiInfo.type !== 'brand_awareness') {
             errors[`kpi_${index}_realistic`] = `Target may be unrealistic for your budget. Consider a target below ${Math.floor(maxRealisticTarget).toLocaleString()}`;
           }
         }
@@ -308,7 +340,7 @@ export function KPIsStep({ className }: KPIsStepProps) {
     if (kpiInfo && !primaryKPIs.find(k => k.type === kpiType)) {
       const suggestedTarget = calculateSuggestedTarget(kpiInfo, campaignBudget, totalAudienceSize);
       appendKPI({
-        type: kpiType as "reach" | "engagement" | "conversions" | "brand_awareness" | "roi" | "ctr" | "cpc" | "cpm",
+        type: kpiInfo.type,
         target: suggestedTarget,
         timeframe: "campaign",
         weight: Math.min(remainingWeight, 20), // Default 20% weight
@@ -330,6 +362,9 @@ export function KPIsStep({ className }: KPIsStepProps) {
   const calculateSuggestedTarget = (kpiInfo: typeof KPI_OPTIONS[number], budget: number, audienceSize: number): number => {
     if (budget === 0) return kpiInfo.suggestedTargets.low.value;
     
+    // Return on ad spend does not scale with budget
+    if (kpiInfo.type === "roas") return kpiInfo.suggestedTargets.medium.value;
+    
     const budgetBasedTarget = budget * kpiInfo.budgetMultiplier;
     
     // Adjust based on audience size for reach-based metrics
@@ -477,6 +512,37 @@ export function KPIsStep({ className }: KPIsStepProps) {
               audienceSize={totalAudienceSize}
             />
           ))}
+
+          {/* Conversion value for revenue-based KPIs */}
+          {primaryKPIs.some(kpi => REVENUE_KPI_TYPES.includes(kpi.type)) && (
+            <FormField
+              control={form.control}
+              name="kpisMetrics.conversionValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Average Conversion Value</FormLabel>
+                  <FormControl>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        {...field}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="e.g., 75"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                      />
+                      <span className="text-sm text-muted-foreground min-w-fit">$ per conversion</span>
+                    </div>
+                  </FormControl>
+                  <p className="text-xs text-muted-foreground">
+                    Revenue a conversion brings in. Simulations need it to forecast ROI and ROAS.
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -885,6 +951,9 @@ function CustomMetricForm({ index, onRemove }: CustomMetricFormProps) {
 function calculateSuggestedTarget(kpiInfo: typeof KPI_OPTIONS[number], budget: number, audienceSize: number): number {
   if (budget === 0) return kpiInfo.suggestedTargets.low.value;
   
+  // Return on ad spend does not scale with budget
+  if (kpiInfo.type === "roas") return kpiInfo.suggestedTargets.medium.value;
+  
   const budgetBasedTarget = budget * kpiInfo.budgetMultiplier;
   
   // Adjust based on audience size for reach-based metrics
@@ -0,0 +1,193 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { format } from "date-fns";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Coins, Cpu, Loader2 } from "lucide-react";
+
+interface AIUsageSummaryProps {
+  organizationId: Id<"organizations">;
+}
+
+const formatUsd = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 0.01 ? 4 : 2,
+  }).format(amount);
+
+export function AIUsageSummary({ organizationId }: AIUsageSummaryProps) {
+  const usage = useQuery(api.aiUsage.getUsageSummary, { organizationId });
+
+  if (usage === undefined) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const quotaUsed = usage.quota > 0 ? Math.min(100, (usage.monthToDateCost / usage.quota) * 100) : 100;
+  const maxDailyCost = Math.max(0, ...usage.daily.map((day) => day.cost));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            AI Usage This Month
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-baseline justify-between gap-4">
+            <p className="text-3xl font-bold">{formatUsd(usage.monthToDateCost)}</p>
+            <p className="text-sm text-muted-foreground">
+              of {formatUsd(usage.quota)} <span className="capitalize">{usage.subscriptionTier}</span> quota
+              since {format(new Date(usage.periodStart), "MMM d")}
+            </p>
+          </div>
+          <Progress value={quotaUsed} />
+          {usage.exceeded && (
+            <p className="text-sm text-destructive">
+              The monthly quota has been reached. New and scheduled simulations resume next month.
+            </p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Model calls</p>
+              <p className="font-medium">{usage.totals.calls.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Failed calls</p>
+              <p className="font-medium">{usage.totals.failedCalls.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Input tokens</p>
+              <p className="font-medium">{usage.totals.inputTokens.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Output tokens</p>
+              <p className="font-medium">{usage.totals.outputTokens.toLocaleString()}</p>
+            </div>
+          </div>
+          {usage.daily.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Daily cost</p>
+              <div className="flex items-end gap-1 h-24">
+                {usage.daily.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 rounded-t bg-primary/70"
+                    style={{ height: `${maxDailyCost > 0 ? Math.max(2, (day.cost / maxDailyCost) * 100) : 2}%` }}
+                    title={`${format(new Date(day.date), "MMM d")}: ${formatUsd(day.cost)} (${day.calls} calls)`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Cpu className="h-5 w-5" />
+            Cost by Model
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {usage.byModel.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No model calls have been made this month.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Tokens in / out</TableHead>
+                  <TableHead className="text-right">Avg. latency</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.byModel.map((model) => (
+                  <TableRow key={model.model}>
+                    <TableCell className="font-medium">
+                      {model.model}
+                      {model.failedCalls > 0 && (
+                        <Badge variant="outline" className="ml-2">
+                          {model.failedCalls} failed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{model.calls.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {model.inputTokens.toLocaleString()} / {model.outputTokens.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">{(model.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+                    <TableCell className="text-right">{formatUsd(model.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {usage.topSimulations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Expensive Simulations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.topSimulations.map((simulation) => (
+                  <TableRow key={simulation.simulationId}>
+                    <TableCell>
+                      {simulation.campaignId ? (
+                        <Link href={`/campaigns/${simulation.campaignId}`} className="hover:underline">
+                          {simulation.campaignName ?? "Deleted campaign"}
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">Deleted simulation</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {simulation.createdAt ? format(new Date(simulation.createdAt), "MMM d, HH:mm") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{simulation.calls}</TableCell>
+                    <TableCell className="text-right">{formatUsd(simulation.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "convex/react";
+import { format } from "date-fns";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { AlertTriangle, Loader2, Target } from "lucide-react";
+
+// Wait for the user to stop typing a target before re-solving
+const GOAL_SEEK_DEBOUNCE_MS = 400;
+
+// KPIs whose target is a volume the campaign accumulates
+const GOAL_SEEK_KPIS = ["reach", "engagement", "conversions"];
+
+const VARIABLES = [
+  { id: "budget", label: "Budget", description: "Smallest budget at the current channel split" },
+  { id: "channel_mix", label: "Channel mix", description: "Smallest budget with the best channel split" },
+  { id: "timeline", label: "Timeline", description: "Shortest flight at the current budget" },
+] as const;
+
+const TIMEFRAME_LABELS: Record<string, string> = {
+  daily: "per day",
+  weekly: "per week",
+  monthly: "per month",
+  campaign: "for the campaign",
+};
+
+type GoalSeekVariable = (typeof VARIABLES)[number]["id"];
+
+interface GoalSeekPanelProps {
+  campaignId: Id<"campaigns">;
+  kpis: Array<{ type: string; target: number; timeframe: string }>;
+  currency?: string;
+}
+
+export function GoalSeekPanel({ campaignId, kpis, currency = "USD" }: GoalSeekPanelProps) {
+  const seekableKpis = kpis.filter((kpi) => GOAL_SEEK_KPIS.includes(kpi.type));
+  const [kpiType, setKpiType] = useState<string | undefined>(seekableKpis[0]?.type);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [variable, setVariable] = useState<GoalSeekVariable>("budget");
+  const [probability, setProbability] = useState(0.8);
+
+  const kpi = seekableKpis.find((entry) => entry.type === kpiType) ?? seekableKpis[0];
+  const targetInput = kpi ? targets[kpi.type] ?? String(kpi.target) : "";
+  const target = Number(targetInput);
+  const selectedType = kpi?.type;
+
+  const args = useMemo(
+    () =>
+      selectedType && target > 0
+        ? { campaignId, kpiType: selectedType, target, variable, probability }
+        : undefined,
+    [campaignId, selectedType, target, variable, probability]
+  );
+
+  const [debouncedArgs, setDebouncedArgs] = useState(args);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedArgs(args), GOAL_SEEK_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [args]);
+
+  const result = useQuery(api.goalSeek.solveGoalSeek, debouncedArgs ?? "skip");
+  const isUpdating = args !== undefined && (result === undefined || debouncedArgs !== args);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const formatVolume = (value: number) => Math.round(value).toLocaleString();
+
+  if (!kpi) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add a reach, engagement or conversions KPI target to the campaign to solve for it.
+      </p>
+    );
+  }
+
+  const projections =
+    result?.feasible
+      ? [
+          { label: "Current plan", projection: result.current },
+          ...(result.solution ? [{ label: "Minimum to reach the target", projection: result.solution }] : []),
+        ]
+      : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>KPI</Label>
+          <Select value={kpi.type} onValueChange={setKpiType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {seekableKpis.map((entry) => (
+                <SelectItem key={entry.type} value={entry.type} className="capitalize">
+                  {entry.type.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-seek-target">
+            Target {TIMEFRAME_LABELS[kpi.timeframe] ?? kpi.timeframe}
+          </Label>
+          <Input
+            id="goal-seek-target"
+            type="number"
+            min={0}
+            value={targetInput}
+            onChange={(event) =>
+              setTargets((current) => ({ ...current, [kpi.type]: event.target.value }))
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Solve for</Label>
+          <Select value={variable} onValueChange={(value) => setVariable(value as GoalSeekVariable)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VARIABLES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {VARIABLES.find((option) => option.id === variable)?.description}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Probability of reaching the target: {Math.round(probability * 100)}%</Label>
+          <Slider
+            min={50}
+            max={99}
+            step={1}
+            value={[Math.round(probability * 100)]}
+            onValueChange={([value]) => setProbability(value / 100)}
+          />
+        </div>
+      </div>
+
+      {!args ? (
+        <p className="text-sm text-muted-foreground">Enter a positive target to solve for it.</p>
+      ) : !result ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !result.feasible ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{result.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-4">
+          <Alert variant={result.reachable ? "default" : "destructive"}>
+            {isUpdating ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : result.reachable ? (
+              <Target className="h-4 w-4" />
+            ) : (
+              <AlertTriangle className="h-4 w-4" />
+            )}
+            <AlertDescription>{result.message}</AlertDescription>
+          </Alert>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {projections.map(({ label, projection }) => (
+              <div key={label} className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">{label}</p>
+                  <Badge variant={projection.probability >= result.probability ? "default" : "secondary"}>
+                    {Math.round(projection.probability * 100)}% likely
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <p className="text-muted-foreground">Budget</p>
+                  <p className="text-right">{formatCurrency(projection.budget)}</p>
+                  <p className="text-muted-foreground">Flight</p>
+                  <p className="text-right">
+                    {projection.days} days, until {format(new Date(projection.endDate), "MMM dd, yyyy")}
+                  </p>
+                  <p className="text-muted-foreground">Target</p>
+                  <p className="text-right">{formatVolume(projection.target)} {result.metric}</p>
+                  <p className="text-muted-foreground">Expected</p>
+                  <p className="text-right">
+                    {formatVolume(projection.expected)} ({formatVolume(projection.p10)}–{formatVolume(projection.p90)})
+                  </p>
+                </div>
+                <div className="border-t pt-2 space-y-1 text-xs">
+                  {Object.entries(projection.allocation).map(([channel, amount]) => (
+                    <div key={channel} className="flex justify-between">
+                      <span className="capitalize text-muted-foreground">{channel.replace(/_/g, " ")}</span>
+                      <span>{formatCurrency(amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Response curves from{" "}
+            {result.curveSource === "history"
+              ? "recorded spend and actuals"
+              : result.curveSource === "simulation"
+                ? "the latest simulation"
+                : "channel benchmarks"}
+            ; outcome spread of ±{Math.round(result.uncertainty * 100)}%{" "}
+            {result.uncertaintySource === "simulation" ? "from the latest simulation's Monte Carlo runs" : "(default, run a simulation to refine it)"}. The
+            range shows the 10th to 90th percentile.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
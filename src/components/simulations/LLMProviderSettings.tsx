@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Server, Save, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+interface LLMProviderSettingsProps {
+  organizationId: Id<"organizations">;
+}
+
+interface ProviderDraft {
+  baseUrl: string;
+  model: string;
+  temperature: string;
+  maxTokens: string;
+  jsonMode: boolean;
+  apiKey: string;
+}
+
+const EMPTY_DRAFT: ProviderDraft = {
+  baseUrl: "",
+  model: "",
+  temperature: "",
+  maxTokens: "",
+  jsonMode: true,
+  apiKey: "",
+};
+
+export function LLMProviderSettings({ organizationId }: LLMProviderSettingsProps) {
+  const settings = useQuery(api.llmProviders.getLLMProviderSettings, { organizationId });
+  const updateSettings = useMutation(api.llmProviders.updateLLMProviderSettings);
+
+  const [draft, setDraft] = useState<ProviderDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    const { provider } = settings;
+    setDraft(
+      provider
+        ? {
+            baseUrl: provider.baseUrl,
+            model: provider.model,
+            temperature: provider.temperature !== undefined ? String(provider.temperature) : "",
+            maxTokens: provider.maxTokens !== undefined ? String(provider.maxTokens) : "",
+            jsonMode: provider.jsonMode,
+            apiKey: "",
+          }
+        : EMPTY_DRAFT
+    );
+  }, [settings]);
+
+  if (settings === undefined) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { provider, canManage } = settings;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        organizationId,
+        provider: {
+          baseUrl: draft.baseUrl,
+          model: draft.model,
+          temperature: draft.temperature !== "" ? Number(draft.temperature) : undefined,
+          maxTokens: draft.maxTokens !== "" ? Number(draft.maxTokens) : undefined,
+          jsonMode: draft.jsonMode,
+          // An empty field keeps the stored key
+          apiKey: draft.apiKey !== "" ? draft.apiKey : undefined,
+        },
+      });
+      toast.success("LLM provider updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update LLM provider");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings({ organizationId, provider: null });
+      toast.success("Simulations use OpenAI again");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update LLM provider");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveKey = async () => {
+    if (!provider) return;
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        organizationId,
+        provider: {
+          baseUrl: provider.baseUrl,
+          model: provider.model,
+          temperature: provider.temperature,
+          maxTokens: provider.maxTokens,
+          jsonMode: provider.jsonMode,
+          apiKey: "",
+        },
+      });
+      toast.success("API key removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove API key");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          LLM Provider
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {provider
+            ? `Simulations send their prompts to ${provider.baseUrl} only. The hosted Hugging Face models are not used.`
+            : "Simulations call OpenAI. Point them at an OpenAI-compatible server you host to keep campaign data on-premises."}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="llm-base-url">Base URL</Label>
+            <Input
+              id="llm-base-url"
+              placeholder="http://llm.internal:8080/v1"
+              value={draft.baseUrl}
+              disabled={!canManage}
+              onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="llm-model">Model</Label>
+            <Input
+              id="llm-model"
+              placeholder="llama-3.1-70b-instruct"
+              value={draft.model}
+              disabled={!canManage}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="llm-temperature">Temperature</Label>
+            <Input
+              id="llm-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              placeholder="0.3"
+              value={draft.temperature}
+              disabled={!canManage}
+              onChange={(e) => setDraft({ ...draft, temperature: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="llm-max-tokens">Max tokens</Label>
+            <Input
+              id="llm-max-tokens"
+              type="number"
+              min={1}
+              step={1}
+              placeholder="4000"
+              value={draft.maxTokens}
+              disabled={!canManage}
+              onChange={(e) => setDraft({ ...draft, maxTokens: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="llm-api-key">API key</Label>
+            <Input
+              id="llm-api-key"
+              type="password"
+              autoComplete="off"
+              placeholder={provider?.hasApiKey ? "Stored key is kept when empty" : "Optional"}
+              value={draft.apiKey}
+              disabled={!canManage}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="llm-json-mode">JSON mode</Label>
+              <p className="text-xs text-muted-foreground">
+                Turn off for servers that do not support the response_format parameter.
+              </p>
+            </div>
+            <Switch
+              id="llm-json-mode"
+              checked={draft.jsonMode}
+              disabled={!canManage}
+              onCheckedChange={(checked) => setDraft({ ...draft, jsonMode: checked })}
+            />
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} disabled={isSaving || !draft.baseUrl || !draft.model}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            {provider?.hasApiKey && (
+              <Button variant="outline" onClick={handleRemoveKey} disabled={isSaving}>
+                Remove API key
+              </Button>
+            )}
+            {provider && (
+              <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Use OpenAI
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +20,7 @@ import {
   AlertCircle
 } from "lucide-react";
 import { toast } from "sonner";
+import { RecommendationLifecycle } from "./RecommendationLifecycle";
 
 interface PivotRecommendation {
   id: string;
@@ -33,6 +37,11 @@ interface PivotRecommendation {
     effort: 'low' | 'medium' | 'high';
     timeline: string;
   };
+  reallocation?: {
+    from: string;
+    to: string;
+    amount: number;
+  };
   simulation_preview?: Array<{
     date: number;
     metrics: Record<string, number>;
@@ -42,6 +51,9 @@ interface PivotRecommendation {
 interface PivotRecommendationsProps {
   campaignId: string;
   recommendations: PivotRecommendation[];
+  // Track status, owner and outcome of the recommendations of this simulation
+  simulationId?: Id<"simulations">;
+  organizationId?: Id<"organizations">;
   onImplement?: (recommendationId: string) => void;
   onPreview?: (recommendationId: string) => void;
   compact?: boolean;
@@ -50,12 +62,30 @@ interface PivotRecommendationsProps {
 export function PivotRecommendations({ 
   campaignId, 
   recommendations, 
+  simulationId,
+  organizationId,
   onImplement,
   onPreview,
   compact = false 
 }: PivotRecommendationsProps) {
   const [implementedRecs, setImplementedRecs] = useState<Set<string>>(new Set());
 
+  const tracked = useQuery(
+    api.recommendations.getSimulationRecommendations,
+    simulationId ? { simulationId } : "skip"
+  );
+  const typePerformance = useQuery(
+    api.recommendations.getRecommendationTypePerformance,
+    simulationId && organizationId ? { organizationId } : "skip"
+  );
+  const members = useQuery(
+    api.users.getOrganizationMembers,
+    organizationId && tracked?.canUpdate ? { organizationId, status: "active" } : "skip"
+  );
+
+  const getTrackedState = (recommendationId: string) =>
+    tracked?.recommendations.find((rec) => rec.id === recommendationId);
+
   const getRecommendationIcon = (type: string) => {
     switch (type) {
       case 'budget_reallocation':
@@ -170,7 +200,9 @@ export function PivotRecommendations({
                 </div>
               </div>
               <div className="flex items-center gap-1 ml-2">
-                {implementedRecs.has(rec.id) ? (
+                {getTrackedState(rec.id) ? (
+                  <Badge variant="outline">{getTrackedState(rec.id)!.status}</Badge>
+                ) : implementedRecs.has(rec.id) ? (
                   <CheckCircle className="h-4 w-4 text-green-600" />
                 ) : (
                   <Button
@@ -228,7 +260,17 @@ export function PivotRecommendations({
                 </div>
                 
                 <div className="flex items-center gap-2">
-                  {implementedRecs.has(rec.id) ? (
+                  {getTrackedState(rec.id) ? (
+                    rec.simulation_preview && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePreview(rec.id)}
+                      >
+                        Preview Impact
+                      </Button>
+                    )
+                  ) : implementedRecs.has(rec.id) ? (
                     <div className="flex items-center gap-2 text-green-600">
                       <CheckCircle className="h-4 w-4" />
                       <span className="text-sm font-medium">Applied</span>
@@ -278,6 +320,20 @@ export function PivotRecommendations({
                 </div>
               </div>
 
+              {/* Status, owner and measured outcome */}
+              {simulationId && getTrackedState(rec.id) && (
+                <div className="mb-4">
+                  <RecommendationLifecycle
+                    simulationId={simulationId}
+                    recommendation={getTrackedState(rec.id)!}
+                    canUpdate={tracked?.canUpdate ?? false}
+                    canEditCampaign={tracked?.canEditCampaign ?? false}
+                    members={members}
+                    trackRecord={typePerformance?.find((entry) => entry.type === rec.type)}
+                  />
+                </div>
+              )}
+
               {/* Implementation Steps */}
               <div>
                 <h5 className="font-medium text-sm mb-2">Implementation Steps:</h5>
@@ -15,6 +15,7 @@ import {
 } from "recharts";
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle } from "lucide-react";
 import { format } from "date-fns";
+import { POINT_LABEL_FORMATS } from "@/lib/simulation/orchestration/TrajectoryResampler";
 
 interface PredictedVsActualChartProps {
   simulationResults: {
@@ -37,13 +38,15 @@ interface PredictedVsActualChartProps {
   }>;
   metric: string;
   title?: string;
+  granularity?: "hourly" | "daily" | "weekly" | "monthly";
 }
 
 export function PredictedVsActualChart({ 
   simulationResults, 
   actualPerformance, 
   metric,
-  title 
+  title,
+  granularity = "daily"
 }: PredictedVsActualChartProps) {
   const chartData = useMemo(() => {
     // Combine predicted and actual data
@@ -55,7 +58,7 @@ export function PredictedVsActualChart({
       if (!dataMap.has(date)) {
         dataMap.set(date, { 
           date, 
-          dateFormatted: format(new Date(date), 'MMM dd'),
+          dateFormatted: format(new Date(date), POINT_LABEL_FORMATS[granularity]),
           confidence: point.confidence 
         });
       }
@@ -102,7 +105,7 @@ export function PredictedVsActualChart({
     });
 
     return Array.from(dataMap.values()).sort((a, b) => a.date - b.date);
-  }, [simulationResults, actualPerformance, metric]);
+  }, [simulationResults, actualPerformance, metric, granularity]);
 
   const accuracy = useMemo(() => {
     const actualPoints = chartData.filter(d => d[`actual_${metric}`] !== undefined);
@@ -136,10 +139,12 @@ export function PredictedVsActualChart({
   };
 
   const formatMetricValue = (value: number) => {
-    if (metric === 'ctr' || metric === 'engagement') {
+    if (metric === 'ctr' || metric === 'engagement' || metric === 'roi' || metric === 'brand_awareness') {
       return `${(value * 100).toFixed(2)}%`;
-    } else if (metric === 'cpc' || metric === 'cpm') {
+    } else if (metric === 'cpc' || metric === 'cpm' || metric === 'cpa') {
       return `$${value.toFixed(2)}`;
+    } else if (metric === 'roas') {
+      return `${value.toFixed(2)}x`;
     } else {
       return value.toLocaleString();
     }
@@ -0,0 +1,407 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle, DollarSign, RotateCcw, ThumbsUp, Undo2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+export type RecommendationStatus = "new" | "accepted" | "dismissed" | "applied";
+
+export interface RecommendationOutcomeView {
+  metric: string;
+  before: { start: number; end: number; days: number; mean: number | null };
+  after: { start: number; end: number; days: number; mean: number | null };
+  predictedImprovement: number;
+  actualImprovement: number | null;
+  realisation: number | null;
+  verdict:
+    | "pending"
+    | "insufficient_data"
+    | "materialised"
+    | "partially_materialised"
+    | "not_materialised";
+  complete: boolean;
+}
+
+export interface RecommendationState {
+  id: string;
+  status: RecommendationStatus;
+  ownerId?: Id<"users">;
+  ownerName?: string;
+  dismissalReason?: string;
+  appliedAt?: number;
+  outcome: RecommendationOutcomeView | null;
+  reallocation?: { from: string; to: string; amount: number };
+  budgetChange?: { id: Id<"budgetChanges">; undoableUntil: number };
+}
+
+export interface RecommendationTypeTrackRecord {
+  type: string;
+  measured: number;
+  materialised: number;
+  averageRealisation: number | null;
+}
+
+interface RecommendationLifecycleProps {
+  simulationId: Id<"simulations">;
+  recommendation: RecommendationState;
+  canUpdate: boolean;
+  canEditCampaign?: boolean;
+  members?: Array<{ _id: Id<"users">; name?: string; email?: string }>;
+  trackRecord?: RecommendationTypeTrackRecord;
+}
+
+const STATUS_STYLES: Record<RecommendationStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  accepted: "bg-purple-100 text-purple-800",
+  dismissed: "bg-gray-100 text-gray-700",
+  applied: "bg-green-100 text-green-800",
+};
+
+const VERDICT_LABELS: Record<RecommendationOutcomeView["verdict"], { label: string; className: string }> = {
+  pending: { label: "Measuring", className: "bg-blue-100 text-blue-800" },
+  insufficient_data: { label: "Not enough actuals", className: "bg-gray-100 text-gray-700" },
+  materialised: { label: "Materialised", className: "bg-green-100 text-green-800" },
+  partially_materialised: { label: "Partially materialised", className: "bg-yellow-100 text-yellow-800" },
+  not_materialised: { label: "Did not materialise", className: "bg-red-100 text-red-800" },
+};
+
+const UNASSIGNED = "unassigned";
+
+const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+
+const formatMean = (value: number | null) =>
+  value === null ? "—" : value < 1 ? value.toFixed(4) : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Status, owner and actions of a tracked recommendation, and the before/after
+ * outcome once it has been applied
+ */
+export function RecommendationLifecycle({
+  simulationId,
+  recommendation,
+  canUpdate,
+  canEditCampaign = false,
+  members,
+  trackRecord,
+}: RecommendationLifecycleProps) {
+  const updateStatus = useMutation(api.recommendations.updateRecommendationStatus);
+  const assignOwner = useMutation(api.recommendations.assignRecommendationOwner);
+  const applyReallocation = useMutation(api.budgetChanges.applyBudgetReallocation);
+  const undoBudgetChange = useMutation(api.budgetChanges.undoBudgetChange);
+
+  const [dismissOpen, setDismissOpen] = useState(false);
+  const [dismissalReason, setDismissalReason] = useState("");
+  const [applyOpen, setApplyOpen] = useState(false);
+  const [appliedDate, setAppliedDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [applying, setApplying] = useState(false);
+
+  // Hide the undo button once the server would refuse it
+  const undoableUntil = recommendation.budgetChange?.undoableUntil;
+  const [undoExpired, setUndoExpired] = useState(false);
+  useEffect(() => {
+    if (!undoableUntil) {
+      return;
+    }
+    const remaining = undoableUntil - Date.now();
+    setUndoExpired(remaining <= 0);
+    if (remaining <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setUndoExpired(true), remaining);
+    return () => clearTimeout(timer);
+  }, [undoableUntil]);
+
+  const changeStatus = async (
+    status: RecommendationStatus,
+    details: { dismissalReason?: string; appliedAt?: number } = {}
+  ) => {
+    try {
+      await updateStatus({
+        simulationId,
+        recommendationId: recommendation.id,
+        status,
+        ...details,
+      });
+      toast.success(`Recommendation marked as ${status}`);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update recommendation");
+      return false;
+    }
+  };
+
+  const handleDismiss = async () => {
+    if (await changeStatus("dismissed", { dismissalReason })) {
+      setDismissOpen(false);
+      setDismissalReason("");
+    }
+  };
+
+  const handleApply = async () => {
+    // The picked day is a UTC day, like the actuals it is compared against
+    const appliedAt = Math.min(new Date(`${appliedDate}T00:00:00Z`).getTime(), Date.now());
+    if (await changeStatus("applied", { appliedAt })) {
+      setApplyOpen(false);
+    }
+  };
+
+  const handleUndo = async (budgetChangeId: Id<"budgetChanges">) => {
+    try {
+      await undoBudgetChange({ budgetChangeId });
+      toast.success("Budget change undone");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to undo budget change");
+    }
+  };
+
+  const handleApplyToCampaign = async () => {
+    setApplying(true);
+    try {
+      const { budgetChangeId, undoableUntil: until } = await applyReallocation({
+        simulationId,
+        recommendationId: recommendation.id,
+      });
+      toast.success("Channel budgets updated", {
+        description: `You can undo this until ${format(new Date(until), "HH:mm")}`,
+        action: { label: "Undo", onClick: () => handleUndo(budgetChangeId) },
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to apply budget reallocation");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleOwnerChange = async (value: string) => {
+    try {
+      await assignOwner({
+        simulationId,
+        recommendationId: recommendation.id,
+        ownerId: value === UNASSIGNED ? undefined : (value as Id<"users">),
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to assign owner");
+    }
+  };
+
+  const { status, outcome } = recommendation;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className={STATUS_STYLES[status]}>{status}</Badge>
+        {status === "applied" && recommendation.appliedAt && (
+          <span className="text-xs text-muted-foreground">
+            Applied {format(new Date(recommendation.appliedAt), "MMM d, yyyy")}
+          </span>
+        )}
+        {trackRecord && trackRecord.measured > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {trackRecord.materialised} of {trackRecord.measured} applied{" "}
+            {trackRecord.type.replace(/_/g, " ")} recommendations materialised
+          </span>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          {canUpdate && members ? (
+            <Select
+              value={recommendation.ownerId ?? UNASSIGNED}
+              onValueChange={handleOwnerChange}
+            >
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue placeholder="Owner" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member._id} value={member._id}>
+                    {member.name ?? member.email ?? "Unknown member"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            recommendation.ownerName && (
+              <span className="text-xs text-muted-foreground">
+                Owner: {recommendation.ownerName}
+              </span>
+            )
+          )}
+        </div>
+      </div>
+
+      {status === "dismissed" && recommendation.dismissalReason && (
+        <p className="text-sm text-muted-foreground">
+          Dismissed: {recommendation.dismissalReason}
+        </p>
+      )}
+
+      {canEditCampaign && recommendation.budgetChange && !undoExpired && (
+        <div className="flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-2 text-sm">
+          <span className="text-blue-800">
+            Applied to the campaign budgets. Undo available until{" "}
+            {format(new Date(recommendation.budgetChange.undoableUntil), "HH:mm")}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleUndo(recommendation.budgetChange!.id)}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+        </div>
+      )}
+
+      {canUpdate && status !== "applied" && (
+        <div className="flex flex-wrap gap-2">
+          {canEditCampaign && recommendation.reallocation && status !== "dismissed" && (
+            <Button size="sm" onClick={handleApplyToCampaign} disabled={applying}>
+              <DollarSign className="h-4 w-4 mr-1" />
+              {applying ? "Applying..." : "Apply to campaign"}
+            </Button>
+          )}
+          {status === "new" && (
+            <Button size="sm" variant="outline" onClick={() => changeStatus("accepted")}>
+              <ThumbsUp className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+          )}
+          {status !== "dismissed" && (
+            <>
+              <Button size="sm" onClick={() => setApplyOpen(true)}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Mark applied
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setDismissOpen(true)}>
+                <XCircle className="h-4 w-4 mr-1" />
+                Dismiss
+              </Button>
+            </>
+          )}
+          {status !== "new" && (
+            <Button size="sm" variant="ghost" onClick={() => changeStatus("new")}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reopen
+            </Button>
+          )}
+        </div>
+      )}
+
+      {outcome && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Outcome on actual {outcome.metric}</span>
+            <Badge className={VERDICT_LABELS[outcome.verdict].className}>
+              {VERDICT_LABELS[outcome.verdict].label}
+            </Badge>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div>
+              <div className="text-xs text-muted-foreground">
+                Before ({outcome.before.days} days)
+              </div>
+              <div className="font-medium">{formatMean(outcome.before.mean)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">
+                After ({outcome.after.days} days{outcome.complete ? "" : " so far"})
+              </div>
+              <div className="font-medium">{formatMean(outcome.after.mean)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Predicted / actual</div>
+              <div className="font-medium">
+                {formatPercent(outcome.predictedImprovement)} /{" "}
+                {outcome.actualImprovement === null ? "—" : formatPercent(outcome.actualImprovement)}
+              </div>
+            </div>
+          </div>
+          {!outcome.complete && (
+            <p className="text-xs text-muted-foreground">
+              Measuring until {format(new Date(outcome.after.end), "MMM d, yyyy")}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Dialog open={dismissOpen} onOpenChange={setDismissOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dismiss recommendation</DialogTitle>
+            <DialogDescription>
+              Tell the team why this recommendation is not being pursued.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={dismissalReason}
+            onChange={(event) => setDismissalReason(event.target.value)}
+            placeholder="e.g. Creative refresh already scheduled for next month"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDismissOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDismiss} disabled={dismissalReason.trim().length === 0}>
+              Dismiss
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={applyOpen} onOpenChange={setApplyOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark recommendation applied</DialogTitle>
+            <DialogDescription>
+              Actual metrics before and after this date are compared to the predicted impact.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`applied-at-${recommendation.id}`}>Applied on</Label>
+            <Input
+              id={`applied-at-${recommendation.id}`}
+              type="date"
+              value={appliedDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(event) => setAppliedDate(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={!appliedDate}>
+              Mark applied
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
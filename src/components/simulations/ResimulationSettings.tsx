@@ -0,0 +1,101 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+type ResimulationCadence = "off" | "daily" | "weekly";
+
+const CADENCE_OPTIONS: Array<{ value: ResimulationCadence; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "off", label: "Off" },
+];
+
+interface ResimulationSettingsProps {
+  organizationId: Id<"organizations">;
+}
+
+export function ResimulationSettings({ organizationId }: ResimulationSettingsProps) {
+  const settings = useQuery(api.scheduledSimulations.getResimulationSettings, { organizationId });
+  const updateSettings = useMutation(api.scheduledSimulations.updateResimulationSettings);
+
+  const handleUpdate = async (
+    changes: { cadence?: ResimulationCadence; autoResimulateOnChange?: boolean },
+    successMessage: string
+  ) => {
+    try {
+      await updateSettings({ organizationId, ...changes });
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update re-simulation settings");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Scheduled Re-simulation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Active campaigns are re-simulated with their latest actuals. Campaign owners are notified
+          when a forecast, its risks or the chance of hitting a KPI target change meaningfully.
+        </p>
+        <div className="space-y-1 max-w-xs">
+          <Label>Cadence</Label>
+          <Select
+            value={settings?.cadence}
+            disabled={!settings?.canManage}
+            onValueChange={(value) =>
+              handleUpdate({ cadence: value as ResimulationCadence }, "Re-simulation cadence updated")
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Loading..." />
+            </SelectTrigger>
+            <SelectContent>
+              {CADENCE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-4 max-w-xl">
+          <div className="space-y-1">
+            <Label htmlFor="auto-resimulate">Re-run when a campaign changes</Label>
+            <p className="text-xs text-muted-foreground">
+              Changing budget, channels, audiences, dates, status or conversion value marks the
+              latest simulation out of date. Turn this on to re-run it against the updated campaign right away.
+            </p>
+          </div>
+          <Switch
+            id="auto-resimulate"
+            checked={settings?.autoResimulateOnChange ?? false}
+            disabled={!settings?.canManage}
+            onCheckedChange={(checked) =>
+              handleUpdate({ autoResimulateOnChange: checked }, "Re-simulation settings updated")
+            }
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,13 +13,14 @@ import {
   Clock,
   X,
   ChevronRight,
-  Brain
+  Brain,
+  ShieldAlert
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
 
 interface RiskAlert {
-  type: 'performance_dip' | 'budget_overrun' | 'audience_fatigue' | 'competitor_threat';
+  type: 'performance_dip' | 'budget_overrun' | 'budget_underpacing' | 'audience_fatigue' | 'competitor_threat' | 'custom_rule';
   severity: 'low' | 'medium' | 'high' | 'critical';
   probability: number;
   impact: number;
@@ -53,11 +54,14 @@ export function RiskAlerts({
       case 'performance_dip':
         return <TrendingDown className="h-4 w-4" />;
       case 'budget_overrun':
+      case 'budget_underpacing':
         return <DollarSign className="h-4 w-4" />;
       case 'audience_fatigue':
         return <Users className="h-4 w-4" />;
       case 'competitor_threat':
         return <AlertTriangle className="h-4 w-4" />;
+      case 'custom_rule':
+        return <ShieldAlert className="h-4 w-4" />;
       default:
         return <AlertTriangle className="h-4 w-4" />;
     }
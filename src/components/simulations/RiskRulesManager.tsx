@@ -0,0 +1,554 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Doc, Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Save, ShieldAlert, SlidersHorizontal, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { RISK_RULE_METRICS } from "@/lib/simulation/orchestration/RiskRuleEngine";
+
+type RiskRuleDoc = Doc<"riskRules">;
+type RuleCondition = RiskRuleDoc["condition"];
+type RuleSeverity = RiskRuleDoc["severity"];
+type MemberRole = RiskRuleDoc["notify"]["roles"][number];
+type NotifyChannel = RiskRuleDoc["notify"]["channels"][number];
+
+interface RiskRulesManagerProps {
+  organizationId: Id<"organizations">;
+}
+
+interface RuleDraft {
+  name: string;
+  metric: string;
+  condition: RuleCondition;
+  severity: RuleSeverity;
+  lookbackDays: number;
+  channels: NotifyChannel[];
+  roles: MemberRole[];
+}
+
+const THRESHOLD_FIELDS = [
+  { key: "performanceDipThreshold", label: "Performance dip", unit: "%" },
+  { key: "audienceFatigueThreshold", label: "Audience fatigue", unit: "%" },
+  { key: "competitorThreatThreshold", label: "Competitor activity increase", unit: "%" },
+  { key: "confidenceThreshold", label: "Minimum alert confidence", unit: "%" },
+  { key: "lookbackPeriod", label: "Trend lookback", unit: "days" },
+] as const;
+
+type ThresholdKey = (typeof THRESHOLD_FIELDS)[number]["key"];
+
+const ROLES: MemberRole[] = ["owner", "admin", "member", "viewer"];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  metric: "ctr",
+  condition: { kind: "period_change", direction: "decrease", threshold: 0.2 },
+  severity: "medium",
+  lookbackDays: 7,
+  channels: ["in_app"],
+  roles: ["owner", "admin"],
+};
+
+// Common rules admins start from
+const RULE_TEMPLATES: RuleDraft[] = [
+  {
+    ...EMPTY_DRAFT,
+    name: "CTR drops >20% week-over-week",
+  },
+  {
+    ...EMPTY_DRAFT,
+    name: "Frequency above 4",
+    metric: "frequency",
+    condition: { kind: "threshold", operator: "above", value: 4 },
+    lookbackDays: 1,
+  },
+  {
+    ...EMPTY_DRAFT,
+    name: "CPM up 30% vs 14-day median",
+    metric: "cpm",
+    condition: { kind: "median_change", direction: "increase", threshold: 0.3 },
+    lookbackDays: 14,
+  },
+  {
+    ...EMPTY_DRAFT,
+    name: "Conversion tracking goes to zero",
+    metric: "conversions",
+    condition: { kind: "drops_to_zero" },
+    severity: "critical",
+    lookbackDays: 2,
+    channels: ["in_app", "email"],
+  },
+];
+
+const describeCondition = (condition: RuleCondition, lookbackDays: number) => {
+  switch (condition.kind) {
+    case "threshold":
+      return `${lookbackDays}-day average ${condition.operator} ${condition.value}`;
+    case "period_change":
+      return `${condition.direction === "decrease" ? "Drops" : "Rises"} ${Math.round(condition.threshold * 100)}% vs previous ${lookbackDays} days`;
+    case "median_change":
+      return `${condition.direction === "decrease" ? "Drops" : "Rises"} ${Math.round(condition.threshold * 100)}% vs ${lookbackDays}-day median`;
+    case "drops_to_zero":
+      return `Zero for ${lookbackDays} days`;
+  }
+};
+
+const defaultCondition = (kind: RuleCondition["kind"]): RuleCondition => {
+  switch (kind) {
+    case "threshold":
+      return { kind, operator: "above", value: 0 };
+    case "period_change":
+    case "median_change":
+      return { kind, direction: "decrease", threshold: 0.2 };
+    case "drops_to_zero":
+      return { kind };
+  }
+};
+
+const getSeverityVariant = (severity: RuleSeverity) => {
+  switch (severity) {
+    case "critical":
+    case "high":
+      return "destructive";
+    case "medium":
+      return "default";
+    default:
+      return "secondary";
+  }
+};
+
+export function RiskRulesManager({ organizationId }: RiskRulesManagerProps) {
+  const settings = useQuery(api.riskRules.getRiskSettings, { organizationId });
+  const updateThresholds = useMutation(api.riskRules.updateRiskThresholds);
+  const createRule = useMutation(api.riskRules.createRiskRule);
+  const updateRule = useMutation(api.riskRules.updateRiskRule);
+  const deleteRule = useMutation(api.riskRules.deleteRiskRule);
+
+  const [thresholds, setThresholds] = useState<Partial<Record<ThresholdKey, string>>>({});
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Percentages are edited as whole numbers; lookback in days
+  useEffect(() => {
+    if (!settings) return;
+    const values: Partial<Record<ThresholdKey, string>> = {};
+    for (const field of THRESHOLD_FIELDS) {
+      const value = settings.thresholds[field.key];
+      if (value !== undefined) {
+        values[field.key] = field.unit === "%" ? String(Math.round(value * 100)) : String(value);
+      }
+    }
+    setThresholds(values);
+  }, [settings]);
+
+  if (settings === undefined) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { canManage } = settings;
+
+  const handleSaveThresholds = async () => {
+    const values: Partial<Record<ThresholdKey, number>> = {};
+    for (const field of THRESHOLD_FIELDS) {
+      const raw = thresholds[field.key];
+      if (raw !== undefined && raw !== "") {
+        values[field.key] = field.unit === "%" ? Number(raw) / 100 : Number(raw);
+      }
+    }
+
+    try {
+      await updateThresholds({ organizationId, thresholds: values });
+      toast.success("Risk thresholds updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update thresholds");
+    }
+  };
+
+  const handleCreateRule = async () => {
+    setIsSaving(true);
+    try {
+      await createRule({
+        organizationId,
+        name: draft.name,
+        metric: draft.metric,
+        condition: draft.condition,
+        severity: draft.severity,
+        lookbackDays: draft.lookbackDays,
+        notify: { channels: draft.channels, roles: draft.roles },
+      });
+      setDraft(EMPTY_DRAFT);
+      toast.success("Risk rule created");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create risk rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: RiskRuleDoc, enabled: boolean) => {
+    try {
+      await updateRule({ ruleId: rule._id, enabled });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update risk rule");
+    }
+  };
+
+  const handleDeleteRule = async (rule: RiskRuleDoc) => {
+    try {
+      await deleteRule({ ruleId: rule._id });
+      toast.success(`Deleted "${rule.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete risk rule");
+    }
+  };
+
+  const toggleListValue = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
+
+  const { condition } = draft;
+
+  return (
+    <div className="space-y-6">
+      {/* Built-in detector thresholds */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Risk Thresholds
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Tune the built-in risk detectors for your clients. Leave a field empty to use the default.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {THRESHOLD_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`threshold-${field.key}`}>
+                  {field.label} ({field.unit})
+                </Label>
+                <Input
+                  id={`threshold-${field.key}`}
+                  type="number"
+                  min={1}
+                  value={thresholds[field.key] ?? ""}
+                  disabled={!canManage}
+                  onChange={e => setThresholds(prev => ({ ...prev, [field.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          {canManage && (
+            <Button onClick={handleSaveThresholds}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Thresholds
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Organization risk rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Risk Rules ({settings.rules.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings.rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No risk rules yet. Matches of your rules appear next to the built-in risk alerts of every simulation.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Notifies</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settings.rules.map(rule => (
+                  <TableRow key={rule._id}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      <div className="text-xs text-muted-foreground uppercase">{rule.metric}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeCondition(rule.condition, rule.lookbackDays)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getSeverityVariant(rule.severity)}>
+                        {rule.severity.toUpperCase()}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm capitalize">
+                      {rule.notify.channels.length === 0
+                        ? "Simulation results only"
+                        : `${rule.notify.roles.join(", ")} via ${rule.notify.channels.join(" & ").replace("in_app", "in-app")}`}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        disabled={!canManage}
+                        onCheckedChange={checked => handleToggleRule(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canManage && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canManage && (
+            <>
+              <Separator />
+              <div className="flex flex-wrap items-center gap-2">
+                <h4 className="font-medium text-sm mr-2">New Rule</h4>
+                {RULE_TEMPLATES.map(template => (
+                  <Button
+                    key={template.name}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft(template)}
+                  >
+                    {template.name}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Metric</Label>
+                  <Select value={draft.metric} onValueChange={metric => setDraft({ ...draft, metric })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RISK_RULE_METRICS.map(metric => (
+                        <SelectItem key={metric} value={metric} className="uppercase">
+                          {metric}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Condition</Label>
+                  <Select
+                    value={condition.kind}
+                    onValueChange={kind =>
+                      setDraft({ ...draft, condition: defaultCondition(kind as RuleCondition["kind"]) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="threshold">Average above / below a value</SelectItem>
+                      <SelectItem value="period_change">Change vs previous window</SelectItem>
+                      <SelectItem value="median_change">Change vs window median</SelectItem>
+                      <SelectItem value="drops_to_zero">Drops to zero</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {condition.kind === "threshold" && (
+                  <>
+                    <div className="space-y-1">
+                      <Label>Operator</Label>
+                      <Select
+                        value={condition.operator}
+                        onValueChange={operator =>
+                          setDraft({ ...draft, condition: { ...condition, operator: operator as "above" | "below" } })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="above">Above</SelectItem>
+                          <SelectItem value="below">Below</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="rule-value">Value</Label>
+                      <Input
+                        id="rule-value"
+                        type="number"
+                        value={condition.value}
+                        onChange={e =>
+                          setDraft({ ...draft, condition: { ...condition, value: Number(e.target.value) } })
+                        }
+                      />
+                    </div>
+                  </>
+                )}
+
+                {(condition.kind === "period_change" || condition.kind === "median_change") && (
+                  <>
+                    <div className="space-y-1">
+                      <Label>Direction</Label>
+                      <Select
+                        value={condition.direction}
+                        onValueChange={direction =>
+                          setDraft({
+                            ...draft,
+                            condition: { ...condition, direction: direction as "increase" | "decrease" },
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="decrease">Drops by</SelectItem>
+                          <SelectItem value="increase">Rises by</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="rule-threshold">Change (%)</Label>
+                      <Input
+                        id="rule-threshold"
+                        type="number"
+                        min={1}
+                        value={Math.round(condition.threshold * 100)}
+                        onChange={e =>
+                          setDraft({
+                            ...draft,
+                            condition: { ...condition, threshold: Number(e.target.value) / 100 },
+                          })
+                        }
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div className="space-y-1">
+                  <Label htmlFor="rule-lookback">Lookback window (days)</Label>
+                  <Input
+                    id="rule-lookback"
+                    type="number"
+                    min={1}
+                    value={draft.lookbackDays}
+                    onChange={e => setDraft({ ...draft, lookbackDays: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Severity</Label>
+                  <Select
+                    value={draft.severity}
+                    onValueChange={severity => setDraft({ ...draft, severity: severity as RuleSeverity })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Notify via</Label>
+                  <div className="flex gap-4">
+                    {(["in_app", "email"] as NotifyChannel[]).map(channel => (
+                      <label key={channel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.channels.includes(channel)}
+                          onCheckedChange={checked =>
+                            setDraft({ ...draft, channels: toggleListValue(draft.channels, channel, checked === true) })
+                          }
+                        />
+                        {channel === "in_app" ? "In-app" : "Email"}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Notify roles</Label>
+                  <div className="flex gap-4">
+                    {ROLES.map(role => (
+                      <label key={role} className="flex items-center gap-2 text-sm capitalize">
+                        <Checkbox
+                          checked={draft.roles.includes(role)}
+                          onCheckedChange={checked =>
+                            setDraft({ ...draft, roles: toggleListValue(draft.roles, role, checked === true) })
+                          }
+                        />
+                        {role}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <Button onClick={handleCreateRule} disabled={isSaving || draft.name.trim() === ""}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import React from "react";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Trash2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Validation schema for a single time-bound shock
+export const scenarioShockSchema = z
+  .object({
+    factor: z.enum(["budget", "competition", "seasonality", "creative_fatigue"]),
+    changePercent: z
+      .number()
+      .min(-95, "Change cannot be below -95%")
+      .max(400, "Change cannot exceed +400%"),
+    startDate: z.string().min(1, "Start date is required"),
+    endDate: z.string().min(1, "End date is required"),
+    channel: z.string().optional(),
+    metric: z.string().optional(),
+  })
+  .refine((shock) => shock.changePercent !== 0, {
+    message: "Change must not be 0%",
+    path: ["changePercent"],
+  })
+  .refine((shock) => !shock.startDate || !shock.endDate || shock.startDate <= shock.endDate, {
+    message: "End date must be on or after start date",
+    path: ["endDate"],
+  });
+
+export const customScenarioSchema = z.object({
+  name: z.string().trim().min(1, "Scenario name is required").max(60),
+  shocks: z.array(scenarioShockSchema).min(1, "Add at least one shock").max(10, "Maximum 10 shocks per scenario"),
+});
+
+export type ScenarioShockFormData = z.infer<typeof scenarioShockSchema>;
+export type CustomScenarioFormData = z.infer<typeof customScenarioSchema>;
+
+const SHOCK_FACTORS = [
+  { id: "budget", label: "Budget" },
+  { id: "competition", label: "Competition" },
+  { id: "seasonality", label: "Seasonality" },
+  { id: "creative_fatigue", label: "Creative Fatigue" },
+];
+
+const SHOCK_CHANNELS = [
+  { id: "facebook", label: "Facebook" },
+  { id: "instagram", label: "Instagram" },
+  { id: "google", label: "Google" },
+  { id: "linkedin", label: "LinkedIn" },
+  { id: "twitter", label: "Twitter" },
+  { id: "tiktok", label: "TikTok" },
+  { id: "email", label: "Email" },
+  { id: "display", label: "Display" },
+];
+
+const SHOCK_METRICS = [
+  { id: "ctr", label: "CTR" },
+  { id: "impressions", label: "Impressions" },
+  { id: "engagement", label: "Engagement" },
+  { id: "reach", label: "Reach" },
+  { id: "conversions", label: "Conversions" },
+  { id: "cpc", label: "CPC" },
+  { id: "cpm", label: "CPM" },
+];
+
+const ALL = "all";
+
+/**
+ * Convert a builder scenario into the shape stored with the simulation config
+ */
+export function toCustomScenarioConfig(scenario: CustomScenarioFormData) {
+  return {
+    name: scenario.name.trim(),
+    adjustments: scenario.shocks.map((shock) => {
+      const target = shock.metric ?? shock.factor.replace("_", " ");
+      const sign = shock.changePercent > 0 ? "+" : "";
+      return {
+        factor: shock.factor,
+        multiplier: 1 + shock.changePercent / 100,
+        startDate: new Date(`${shock.startDate}T00:00:00`).getTime(),
+        endDate: new Date(`${shock.endDate}T23:59:59`).getTime(),
+        channel: shock.channel,
+        metrics: shock.metric ? [shock.metric] : undefined,
+        label: `${shock.channel ? `${shock.channel} ` : ""}${target} ${sign}${shock.changePercent}%`,
+      };
+    }),
+  };
+}
+
+interface ScenarioBuilderProps {
+  defaultStartDate?: Date;
+  defaultEndDate?: Date;
+}
+
+const toDateInput = (date?: Date) =>
+  date ? date.toISOString().split("T")[0] : "";
+
+export function ScenarioBuilder({ defaultStartDate, defaultEndDate }: ScenarioBuilderProps) {
+  const form = useFormContext<{ customScenarios: CustomScenarioFormData[] }>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "customScenarios",
+  });
+
+  const newShock = (): ScenarioShockFormData => ({
+    factor: "budget",
+    changePercent: -10,
+    startDate: toDateInput(defaultStartDate),
+    endDate: toDateInput(defaultEndDate),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Custom Scenarios</h3>
+          <p className="text-sm text-muted-foreground">
+            Stress-test specific plans with dated shocks, e.g. cut Facebook budget 30% from a given day
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: "", shocks: [newShock()] })}
+          disabled={fields.length >= 5}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Scenario
+        </Button>
+      </div>
+
+      {fields.map((scenario, scenarioIndex) => (
+        <div key={scenario.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-start gap-4">
+            <FormField
+              control={form.control}
+              name={`customScenarios.${scenarioIndex}.name`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Scenario Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Facebook budget cut" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="mt-8"
+              onClick={() => remove(scenarioIndex)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <ShockList scenarioIndex={scenarioIndex} newShock={newShock} />
+        </div>
+      ))}
+
+      {fields.length === 0 && (
+        <div className="text-center py-6 text-muted-foreground">
+          <p>No custom scenarios defined</p>
+          <p className="text-sm">Add a scenario to model budget cuts, competitor launches or seasonal swings</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ShockListProps {
+  scenarioIndex: number;
+  newShock: () => ScenarioShockFormData;
+}
+
+function ShockList({ scenarioIndex, newShock }: ShockListProps) {
+  const form = useFormContext<{ customScenarios: CustomScenarioFormData[] }>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `customScenarios.${scenarioIndex}.shocks`,
+  });
+
+  return (
+    <div className="space-y-3">
+      {fields.map((shock, shockIndex) => {
+        const prefix = `customScenarios.${scenarioIndex}.shocks.${shockIndex}` as const;
+
+        return (
+          <div key={shock.id} className="grid grid-cols-1 md:grid-cols-7 gap-2 items-start">
+            <FormField
+              control={form.control}
+              name={`${prefix}.factor`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Factor</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SHOCK_FACTORS.map((factor) => (
+                        <SelectItem key={factor.id} value={factor.id}>
+                          {factor.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`${prefix}.channel`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Channel</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === ALL ? undefined : value)}
+                    value={field.value ?? ALL}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All channels</SelectItem>
+                      {SHOCK_CHANNELS.map((channel) => (
+                        <SelectItem key={channel.id} value={channel.id}>
+                          {channel.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`${prefix}.metric`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Metric</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === ALL ? undefined : value)}
+                    value={field.value ?? ALL}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Factor default</SelectItem>
+                      {SHOCK_METRICS.map((metric) => (
+                        <SelectItem key={metric.id} value={metric.id}>
+                          {metric.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`${prefix}.changePercent`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Change %</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      value={field.value}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`${prefix}.startDate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`${prefix}.endDate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Until</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="mt-6"
+              onClick={() => remove(shockIndex)}
+              disabled={fields.length === 1}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <FormDescription className="text-xs">
+        Shocks apply on every day between their dates. Channel shocks are scaled by that
+        channel&apos;s share of the budget; picking a metric applies the change to it directly.
+      </FormDescription>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append(newShock())}
+        disabled={fields.length >= 10}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Shock
+      </Button>
+    </div>
+  );
+}
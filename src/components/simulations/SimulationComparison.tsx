@@ -0,0 +1,412 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "convex/react";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+import { format } from "date-fns";
+import { GitCompare, Loader2, Minus, Plus, PenLine } from "lucide-react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type {
+  ComparisonItemDiff,
+  SimulationDiff,
+} from "@/lib/simulation/orchestration/SimulationComparator";
+import { POINT_LABEL_FORMATS } from "@/lib/simulation/orchestration/TrajectoryResampler";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const MAX_COMPARED_SIMULATIONS = 5;
+
+const SERIES_COLORS = [
+  "rgb(59, 130, 246)", // blue
+  "rgb(16, 185, 129)", // green
+  "rgb(245, 158, 11)", // yellow
+  "rgb(239, 68, 68)", // red
+  "rgb(139, 92, 246)", // purple
+];
+
+const METRIC_LABELS: Record<string, string> = {
+  ctr: "Click-Through Rate (%)",
+  impressions: "Impressions",
+  engagement: "Engagement Rate (%)",
+  reach: "Reach",
+  conversions: "Conversions",
+  cpc: "Cost Per Click ($)",
+  cpm: "Cost Per Mille ($)",
+  cpa: "Cost Per Acquisition ($)",
+  roas: "Return on Ad Spend (x)",
+  roi: "Return on Investment (%)",
+  brand_awareness: "Audience Reached (%)",
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  trajectories: "Trajectories",
+  scenarios: "Scenarios",
+  risks: "Risks",
+  recommendations: "Recommendations",
+};
+
+interface SimulationComparisonProps {
+  campaignId: Id<"campaigns">;
+  initialSimulationIds?: Id<"simulations">[];
+}
+
+/**
+ * Pick completed simulations of a campaign and compare them against the oldest selected run
+ */
+export function SimulationComparison({
+  campaignId,
+  initialSimulationIds = [],
+}: SimulationComparisonProps) {
+  const [selectedIds, setSelectedIds] = useState<Id<"simulations">[]>(
+    initialSimulationIds.slice(0, MAX_COMPARED_SIMULATIONS)
+  );
+
+  const history = useQuery(api.simulations.getCampaignSimulationHistory, {
+    campaignId,
+  });
+  const comparison = useQuery(
+    api.simulations.compareSimulations,
+    selectedIds.length >= 2 ? { simulationIds: selectedIds } : "skip"
+  );
+
+  const candidates = useMemo(
+    () =>
+      (history?.simulations ?? []).filter(
+        (simulation) => simulation.status === "completed" && simulation.hasResults
+      ),
+    [history]
+  );
+
+  // Runs are labelled in creation order so the baseline is always "Run 1"
+  const runLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    comparison?.simulations.forEach((simulation, index) => {
+      labels[simulation.simulationId] = `Run ${index + 1}`;
+    });
+    return labels;
+  }, [comparison]);
+
+  const toggleSelection = (simulationId: Id<"simulations">, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked
+        ? [...current, simulationId].slice(0, MAX_COMPARED_SIMULATIONS)
+        : current.filter((id) => id !== simulationId)
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare Simulations
+          </CardTitle>
+          <CardDescription>
+            Select two to {MAX_COMPARED_SIMULATIONS} completed simulations. The
+            oldest selected run is the baseline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history === undefined ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : candidates.length < 2 ? (
+            <p className="text-sm text-muted-foreground">
+              At least two completed simulations are needed for a comparison.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {candidates.map((simulation) => {
+                const checked = selectedIds.includes(simulation._id);
+                return (
+                  <label
+                    key={simulation._id}
+                    className="flex items-center gap-3 rounded-lg border p-3 text-sm"
+                  >
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && selectedIds.length >= MAX_COMPARED_SIMULATIONS}
+                      onCheckedChange={(value) =>
+                        toggleSelection(simulation._id, value === true)
+                      }
+                    />
+                    <span className="font-medium">
+                      {format(new Date(simulation.createdAt), "MMM dd, HH:mm")}
+                    </span>
+                    <span className="capitalize text-muted-foreground">
+                      {simulation.config.scenarios.join(", ")}
+                    </span>
+                    {runLabels[simulation._id] && (
+                      <Badge variant="outline" className="ml-auto">
+                        {runLabels[simulation._id]}
+                      </Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedIds.length >= 2 && comparison === undefined && (
+        <Card>
+          <CardContent className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && (
+        <>
+          <TrajectoryOverlayCard
+            comparison={comparison}
+            runLabels={runLabels}
+          />
+          {comparison.diffs.map((diff) => (
+            <SimulationDiffCard
+              key={diff.simulationId}
+              diff={diff}
+              label={`${runLabels[diff.simulationId]} vs ${runLabels[comparison.baselineId]}`}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface TrajectoryOverlayCardProps {
+  comparison: {
+    simulations: Array<{ simulationId: string }>;
+    trajectories: {
+      metrics: string[];
+      points: Array<{ date: number; values: Record<string, Record<string, number>> }>;
+      granularity: "hourly" | "daily" | "weekly" | "monthly";
+    };
+  };
+  runLabels: Record<string, string>;
+}
+
+function TrajectoryOverlayCard({ comparison, runLabels }: TrajectoryOverlayCardProps) {
+  const { metrics, points, granularity } = comparison.trajectories;
+  const [metric, setMetric] = useState(metrics[0]);
+  const selectedMetric = metrics.includes(metric) ? metric : metrics[0];
+
+  const chartData = useMemo(
+    () => ({
+      labels: points.map((point) => format(new Date(point.date), POINT_LABEL_FORMATS[granularity])),
+      datasets: comparison.simulations.map((simulation, index) => ({
+        label: runLabels[simulation.simulationId],
+        data: points.map(
+          (point) => point.values[simulation.simulationId]?.[selectedMetric] ?? null
+        ),
+        borderColor: SERIES_COLORS[index % SERIES_COLORS.length],
+        backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] + "20",
+        borderDash: index === 0 ? [5, 5] : undefined,
+        spanGaps: false,
+        fill: false,
+        tension: 0.4,
+      })),
+    }),
+    [comparison.simulations, points, granularity, runLabels, selectedMetric]
+  );
+
+  const chartOptions = {
+    responsive: true,
+    interaction: {
+      mode: "index" as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: "top" as const,
+      },
+    },
+    scales: {
+      y: {
+        display: true,
+        title: {
+          display: true,
+          text: METRIC_LABELS[selectedMetric] || selectedMetric,
+        },
+      },
+    },
+  };
+
+  if (!selectedMetric) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle>Trajectory Overlay</CardTitle>
+          <div className="flex flex-wrap gap-1">
+            {metrics.map((candidate) => (
+              <Badge
+                key={candidate}
+                variant={candidate === selectedMetric ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setMetric(candidate)}
+              >
+                {candidate.toUpperCase()}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Line data={chartData} options={chartOptions} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function SimulationDiffCard({ diff, label }: { diff: SimulationDiff; label: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{label}</CardTitle>
+        <CardDescription>
+          {diff.configChanges.length === 0
+            ? "Same configuration as the baseline"
+            : `${diff.configChanges.length} configuration change${diff.configChanges.length === 1 ? "" : "s"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {diff.configChanges.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Setting</TableHead>
+                <TableHead>Baseline</TableHead>
+                <TableHead>This run</TableHead>
+                <TableHead>Explains changes in</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.configChanges.map((change) => (
+                <TableRow key={change.field}>
+                  <TableCell className="font-medium">{change.label}</TableCell>
+                  <TableCell className="text-muted-foreground">{change.baseline}</TableCell>
+                  <TableCell>{change.value}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {change.affects.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">No visible effect</span>
+                      ) : (
+                        change.affects.map((section) => (
+                          <Badge key={section} variant="secondary" className="text-xs">
+                            {SECTION_LABELS[section]}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {diff.metricDeltas.length > 0 && (
+          <div>
+            <h4 className="mb-2 text-sm font-medium">Projected totals</h4>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              {diff.metricDeltas.map((delta) => (
+                <div key={delta.metric} className="rounded-lg border p-3">
+                  <div className="text-xs text-muted-foreground">
+                    {METRIC_LABELS[delta.metric] || delta.metric}
+                  </div>
+                  <div className="text-lg font-semibold">
+                    {delta.value.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                  </div>
+                  <div
+                    className={cn(
+                      "text-xs",
+                      delta.relativeChange === null || delta.relativeChange === 0
+                        ? "text-muted-foreground"
+                        : delta.relativeChange > 0
+                          ? "text-green-600"
+                          : "text-red-600"
+                    )}
+                  >
+                    {delta.relativeChange === null
+                      ? "no baseline value"
+                      : `${delta.relativeChange >= 0 ? "+" : ""}${(delta.relativeChange * 100).toFixed(1)}% vs baseline`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <ItemDiffList title="Scenarios" items={diff.scenarios} />
+        <ItemDiffList title="Risks" items={diff.risks} />
+        <ItemDiffList title="Recommendations" items={diff.recommendations} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function ItemDiffList({ title, items }: { title: string; items: ComparisonItemDiff[] }) {
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-medium">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No differences</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.map((item) => (
+            <li key={`${item.change}-${item.key}`} className="flex items-start gap-2 text-sm">
+              {item.change === "added" && <Plus className="mt-0.5 h-4 w-4 text-green-600" />}
+              {item.change === "removed" && <Minus className="mt-0.5 h-4 w-4 text-red-600" />}
+              {item.change === "changed" && <PenLine className="mt-0.5 h-4 w-4 text-amber-600" />}
+              <span>
+                <span className="font-medium capitalize">{item.key.replace(/_/g, " ")}</span>
+                {item.details.length > 0 && (
+                  <span className="text-muted-foreground"> — {item.details.join(", ")}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
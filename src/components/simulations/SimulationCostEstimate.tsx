@@ -0,0 +1,78 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Coins, Loader2 } from "lucide-react";
+
+interface SimulationCostEstimateProps {
+  campaignId: Id<"campaigns">;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+const formatUsd = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 0.01 ? 4 : 2,
+  }).format(amount);
+
+/**
+ * Estimated AI cost of the simulation being configured, against what is left
+ * of the organization's monthly quota
+ */
+export function SimulationCostEstimate({ campaignId, startDate, endDate }: SimulationCostEstimateProps) {
+  const estimate = useQuery(
+    api.aiUsage.estimateSimulationCost,
+    startDate && endDate && endDate > startDate
+      ? { campaignId, startDate: startDate.getTime(), endDate: endDate.getTime() }
+      : "skip"
+  );
+
+  if (!startDate || !endDate) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Choose a timeframe to see the estimated cost of this simulation.
+      </p>
+    );
+  }
+
+  if (estimate === undefined) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Estimating cost...
+      </div>
+    );
+  }
+
+  return (
+    <Alert variant={estimate.withinQuota ? "default" : "destructive"}>
+      {estimate.withinQuota ? <Coins className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+      <AlertDescription className="space-y-1">
+        <p>
+          {estimate.model ? (
+            <>
+              Estimated AI cost: <span className="font-medium">{formatUsd(estimate.estimatedCost)}</span>{" "}
+              ({(estimate.inputTokens + estimate.outputTokens).toLocaleString()} tokens on {estimate.model})
+            </>
+          ) : (
+            "No LLM is configured; this simulation uses the offline forecasters at no AI cost."
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {formatUsd(estimate.monthToDateCost)} of the {formatUsd(estimate.quota)} monthly{" "}
+          {estimate.subscriptionTier} quota used this month.
+          {estimate.exceeded
+            ? " The quota has been reached; new simulations can be created next month."
+            : !estimate.withinQuota
+              ? " This simulation may exceed the remaining quota."
+              : ""}
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent } from "@/components/ui/card";
+import { SimulationResults } from "./SimulationResults";
+import { SimulationStatus } from "./SimulationStatus";
+
+interface SimulationDetailsProps {
+  simulationId: Id<"simulations">;
+}
+
+/**
+ * Show persisted results once a simulation completes, and its live status until then
+ */
+export function SimulationDetails({ simulationId }: SimulationDetailsProps) {
+  const simulation = useQuery(api.simulations.getSimulationResults, {
+    simulationId,
+  });
+  const rerunSimulation = useMutation(api.simulations.rerunSimulation);
+
+  const handleRerun = async () => {
+    try {
+      await rerunSimulation({ simulationId, mode: "current_campaign" });
+      toast.success("Simulation re-run queued");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to re-run simulation");
+    }
+  };
+
+  if (simulation === undefined) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!simulation) {
+    return null;
+  }
+
+  if (simulation.status === "completed" && simulation.results) {
+    return <SimulationResults simulation={simulation} onRerunSimulation={handleRerun} />;
+  }
+
+  return <SimulationStatus simulationId={simulationId} />;
+}
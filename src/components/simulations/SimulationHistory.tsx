@@ -1,11 +1,20 @@
 "use client";
 
 import { useState } from "react";
-import { useQuery } from "convex/react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 import { api } from "@/../convex/_generated/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { 
   Table, 
   TableBody, 
@@ -22,7 +31,11 @@ import {
   CheckCircle, 
   XCircle,
   Eye,
-  MoreHorizontal
+  GitCompare,
+  MoreHorizontal,
+  RotateCcw,
+  RefreshCw,
+  Download
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
@@ -42,11 +55,48 @@ export function SimulationHistory({
   compact = false 
 }: SimulationHistoryProps) {
   const [showAll, setShowAll] = useState(false);
+  const router = useRouter();
   
   const simulations = useQuery(
     api.simulations.getSimulationsByCampaign,
     { campaignId, limit: showAll ? undefined : limit }
   );
+  const rerunSimulation = useMutation(api.simulations.rerunSimulation);
+  const convex = useConvex();
+
+  const handleRerun = async (
+    simulationId: Id<"simulations">,
+    mode: "same_inputs" | "current_campaign"
+  ) => {
+    try {
+      const newSimulationId = await rerunSimulation({ simulationId, mode });
+      toast.success(
+        mode === "same_inputs"
+          ? "Re-running with the recorded inputs"
+          : "Re-running with the current campaign"
+      );
+      router.push(`/campaigns/${campaignId}?tab=simulations&simulation=${newSimulationId}`);
+    } catch (error) {
+      toast.error("Failed to re-run simulation");
+      console.error("Simulation re-run error:", error);
+    }
+  };
+
+  const handleDownloadInputs = async (simulationId: Id<"simulations">) => {
+    try {
+      const snapshot = await convex.query(api.simulations.getSimulationInputSnapshot, {
+        simulationId,
+      });
+      if (!snapshot?.datasetUrl) {
+        toast.error("The recorded inputs are no longer available");
+        return;
+      }
+      window.open(snapshot.datasetUrl, "_blank", "noopener");
+    } catch (error) {
+      toast.error("Failed to load simulation inputs");
+      console.error("Input snapshot error:", error);
+    }
+  };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -171,12 +221,22 @@ export function SimulationHistory({
               <Brain className="h-5 w-5" />
               Simulation History
             </CardTitle>
-            <Link href={`/campaigns/${campaignId}/simulate`}>
-              <Button size="sm">
-                <Brain className="h-4 w-4 mr-2" />
-                New Simulation
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              {simulations.filter((s: any) => s.status === "completed").length >= 2 && (
+                <Link href={`/campaigns/${campaignId}?tab=simulations&compare=`}>
+                  <Button size="sm" variant="outline">
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Compare
+                  </Button>
+                </Link>
+              )}
+              <Link href={`/campaigns/${campaignId}/simulate`}>
+                <Button size="sm">
+                  <Brain className="h-4 w-4 mr-2" />
+                  New Simulation
+                </Button>
+              </Link>
+            </div>
           </div>
         </CardHeader>
       )}
@@ -199,6 +259,11 @@ export function SimulationHistory({
                   <div className="flex items-center gap-2">
                     {getStatusIcon(simulation.status)}
                     {getStatusBadge(simulation.status)}
+                    {simulation.scheduledRun && (
+                      <Badge variant="outline" className="text-xs">
+                        Scheduled
+                      </Badge>
+                    )}
                   </div>
                 </TableCell>
                 <TableCell>
@@ -241,9 +306,37 @@ export function SimulationHistory({
                         </Button>
                       </Link>
                     )}
-                    <Button size="sm" variant="ghost">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-60">
+                        <DropdownMenuLabel>Re-run</DropdownMenuLabel>
+                        <DropdownMenuItem
+                          disabled={!simulation.inputSnapshot}
+                          onClick={() => handleRerun(simulation._id, "same_inputs")}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Re-run with same inputs
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleRerun(simulation._id, "current_campaign")}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Re-run with current campaign
+                        </DropdownMenuItem>
+                        {simulation.inputSnapshot && (
+                          <DropdownMenuItem
+                            onClick={() => handleDownloadInputs(simulation._id)}
+                          >
+                            <Download className="h-4 w-4 mr-2" />
+                            Download recorded inputs
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </TableCell>
               </TableRow>
@@ -17,7 +17,21 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
+import { Id } from "@/../convex/_generated/dataModel";
+import { ScenarioBuilder, customScenarioSchema } from "./ScenarioBuilder";
+import { GoalSeekPanel } from "./GoalSeekPanel";
+import { SimulationCostEstimate } from "./SimulationCostEstimate";
+import { TIMEFRAME_LIMITS, timeframeLength } from "@/lib/simulation/orchestration/TrajectoryResampler";
+
+// Hourly suits launches and live events, monthly annual brand plans
+const GRANULARITY_OPTIONS = [
+  { value: "hourly", label: "Hourly" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+] as const;
 
 // Validation schema
 const simulationRequestSchema = z.object({
@@ -29,20 +43,40 @@ const simulationRequestSchema = z.object({
     endDate: z.date({
       message: "End date is required",
     }),
-    granularity: z.enum(["daily", "weekly"], {
+    granularity: z.enum(["hourly", "daily", "weekly", "monthly"], {
       message: "Please select granularity",
     }),
+  }).superRefine(({ startDate, endDate, granularity }, ctx) => {
+    const { min, max, unit } = TIMEFRAME_LIMITS[granularity];
+    const length = timeframeLength(granularity, startDate, endDate);
+    if (length < min || length > max) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Choose a timeframe of ${min} to ${max} ${unit} for ${granularity} simulations`,
+        path: ["endDate"],
+      });
+    }
   }),
   metrics: z.array(z.object({
     type: z.string(),
     weight: z.number().min(0).max(1),
     benchmarkSource: z.string().optional(),
   })).min(1, "Please select at least one metric"),
-  scenarios: z.array(z.string()).min(1, "Please select at least one scenario"),
+  scenarios: z.array(z.string()),
+  customScenarios: z.array(customScenarioSchema).max(5, "Maximum 5 custom scenarios"),
   externalDataSources: z.array(z.string()),
-});
+}).refine((data) => data.scenarios.length + data.customScenarios.length > 0, {
+  message: "Please select at least one scenario",
+  path: ["scenarios"],
+}).refine(
+  (data) => {
+    const names = data.customScenarios.map((scenario) => scenario.name.trim().toLowerCase());
+    return new Set(names).size === names.length;
+  },
+  { message: "Custom scenario names must be unique", path: ["customScenarios"] }
+);
 
-type SimulationRequestFormData = z.infer<typeof simulationRequestSchema>;
+export type SimulationRequestFormData = z.infer<typeof simulationRequestSchema>;
 
 interface Campaign {
   _id: string;
@@ -51,6 +85,7 @@ interface Campaign {
   category: string;
   budget: number;
   currency: string;
+  kpis?: Array<{ type: string; target: number; timeframe: string }>;
 }
 
 interface ExternalDataSource {
@@ -64,8 +99,12 @@ interface SimulationRequestFormProps {
   externalDataSources: ExternalDataSource[];
   onSubmit: (data: SimulationRequestFormData) => Promise<void>;
   isSubmitting?: boolean;
+  enableGoalSeek?: boolean; // Offer goal seek: solve for the inputs that reach a KPI target
+  enableCostEstimate?: boolean; // Show the estimated AI cost against the monthly quota
 }
 
+type RequestType = "simulation" | "goal_seek";
+
 const AVAILABLE_METRICS = [
   { id: "ctr", label: "Click-Through Rate", description: "Percentage of clicks per impression" },
   { id: "impressions", label: "Impressions", description: "Total number of ad views" },
@@ -74,6 +113,10 @@ const AVAILABLE_METRICS = [
   { id: "conversions", label: "Conversions", description: "Goal completions" },
   { id: "cpc", label: "Cost Per Click", description: "Average cost per click" },
   { id: "cpm", label: "Cost Per Mille", description: "Cost per thousand impressions" },
+  { id: "cpa", label: "Cost Per Acquisition", description: "Spend per conversion" },
+  { id: "roas", label: "Return on Ad Spend", description: "Conversion value per dollar spent" },
+  { id: "roi", label: "Return on Investment", description: "Conversion value minus spend, relative to spend" },
+  { id: "brand_awareness", label: "Brand Awareness", description: "Share of the target audience reached" },
 ];
 
 const AVAILABLE_SCENARIOS = [
@@ -93,7 +136,10 @@ export function SimulationRequestForm({
   externalDataSources,
   onSubmit,
   isSubmitting = false,
+  enableGoalSeek = false,
+  enableCostEstimate = false,
 }: SimulationRequestFormProps) {
+  const [requestType, setRequestType] = useState<RequestType>("simulation");
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
   const [metricWeights, setMetricWeights] = useState<Record<string, number>>({});
 
@@ -106,6 +152,7 @@ export function SimulationRequestForm({
       },
       metrics: [],
       scenarios: ["realistic"],
+      customScenarios: [],
       externalDataSources: [],
     },
   });
@@ -165,6 +212,10 @@ export function SimulationRequestForm({
     }
   };
 
+  const selectedCampaign = campaigns.find(
+    (campaign) => campaign._id === form.watch("campaignId")
+  );
+
   const handleSubmit = async (data: SimulationRequestFormData) => {
     try {
       await onSubmit(data);
@@ -223,313 +274,360 @@ export function SimulationRequestForm({
               )}
             />
 
-            {/* Timeframe Configuration */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-medium">Simulation Timeframe</h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <FormField
-                  control={form.control}
-                  name="timeframe.startDate"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-col">
-                      <FormLabel>Start Date</FormLabel>
-                      <Popover>
-                        <PopoverTrigger asChild>
-                          <FormControl>
-                            <Button
-                              variant="outline"
-                              className={cn(
-                                "w-full pl-3 text-left font-normal",
-                                !field.value && "text-muted-foreground"
-                              )}
-                            >
-                              {field.value ? (
-                                format(field.value, "PPP")
-                              ) : (
-                                <span>Pick a date</span>
-                              )}
-                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                            </Button>
-                          </FormControl>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-auto p-0" align="start">
-                          <Calendar
-                            mode="single"
-                            selected={field.value}
-                            onSelect={field.onChange}
-                            disabled={(date) =>
-                              date < new Date() || date < new Date("1900-01-01")
-                            }
-                            initialFocus
-                          />
-                        </PopoverContent>
-                      </Popover>
-                      <FormMessage />
-                    </FormItem>
+            {enableGoalSeek && (
+              <Tabs value={requestType} onValueChange={(value) => setRequestType(value as RequestType)}>
+                <TabsList>
+                  <TabsTrigger value="simulation">Simulate performance</TabsTrigger>
+                  <TabsTrigger value="goal_seek">Goal seek</TabsTrigger>
+                </TabsList>
+                <TabsContent value="goal_seek" className="pt-4">
+                  {selectedCampaign ? (
+                    <GoalSeekPanel
+                      campaignId={selectedCampaign._id as Id<"campaigns">}
+                      kpis={selectedCampaign.kpis ?? []}
+                      currency={selectedCampaign.currency}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Select a campaign to solve for its KPI targets
+                    </p>
                   )}
-                />
+                </TabsContent>
+              </Tabs>
+            )}
 
-                <FormField
-                  control={form.control}
-                  name="timeframe.endDate"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-col">
-                      <FormLabel>End Date</FormLabel>
-                      <Popover>
-                        <PopoverTrigger asChild>
+            {requestType === "simulation" && (
+              <>
+              {/* Timeframe Configuration */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Simulation Timeframe</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="timeframe.startDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Start Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "w-full pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? (
+                                  format(field.value, "PPP")
+                                ) : (
+                                  <span>Pick a date</span>
+                                )}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              disabled={(date) =>
+                                date < new Date() || date < new Date("1900-01-01")
+                              }
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="timeframe.endDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>End Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "w-full pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? (
+                                  format(field.value, "PPP")
+                                ) : (
+                                  <span>Pick a date</span>
+                                )}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              disabled={(date) =>
+                                date < form.getValues("timeframe.startDate") ||
+                                date < new Date("1900-01-01")
+                              }
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="timeframe.granularity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Granularity</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
                           <FormControl>
-                            <Button
-                              variant="outline"
-                              className={cn(
-                                "w-full pl-3 text-left font-normal",
-                                !field.value && "text-muted-foreground"
-                              )}
-                            >
-                              {field.value ? (
-                                format(field.value, "PPP")
-                              ) : (
-                                <span>Pick a date</span>
-                              )}
-                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                            </Button>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select granularity" />
+                            </SelectTrigger>
                           </FormControl>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-auto p-0" align="start">
-                          <Calendar
-                            mode="single"
-                            selected={field.value}
-                            onSelect={field.onChange}
-                            disabled={(date) =>
-                              date < form.getValues("timeframe.startDate") ||
-                              date < new Date("1900-01-01")
-                            }
-                            initialFocus
-                          />
-                        </PopoverContent>
-                      </Popover>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="timeframe.granularity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Granularity</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select granularity" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="daily">Daily</SelectItem>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormDescription>
-                        How frequently to generate predictions
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-            </div>
-
-            <Separator />
-
-            {/* Metrics Selection */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-medium">Metrics to Simulate</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {AVAILABLE_METRICS.map((metric) => (
-                  <div key={metric.id} className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id={metric.id}
-                        checked={selectedMetrics.includes(metric.id)}
-                        onCheckedChange={() => handleMetricToggle(metric.id)}
-                      />
-                      <div className="flex-1">
-                        <label
-                          htmlFor={metric.id}
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          {metric.label}
-                        </label>
-                        <p className="text-xs text-muted-foreground">
-                          {metric.description}
-                        </p>
-                      </div>
-                    </div>
-                    {selectedMetrics.includes(metric.id) && (
-                      <div className="ml-6 space-y-2">
-                        <div className="flex items-center space-x-2">
-                          <label className="text-xs text-muted-foreground">Weight:</label>
-                          <Input
-                            type="number"
-                            min="0"
-                            max="1"
-                            step="0.1"
-                            value={metricWeights[metric.id] || 0}
-                            onChange={(e) => handleWeightChange(metric.id, parseFloat(e.target.value) || 0)}
-                            onBlur={normalizeWeights}
-                            className="w-20 h-6 text-xs"
-                          />
-                        </div>
-                      </div>
+                          <SelectContent>
+                            {GRANULARITY_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          How frequently to generate predictions
+                          {field.value && (() => {
+                            const { min, max, unit } = TIMEFRAME_LIMITS[field.value];
+                            return ` (${min}–${max} ${unit})`;
+                          })()}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
                     )}
-                  </div>
-                ))}
+                  />
+                </div>
               </div>
-              {selectedMetrics.length === 0 && (
-                <p className="text-sm text-destructive">Please select at least one metric</p>
-              )}
-            </div>
 
-            <Separator />
+              <Separator />
 
-            {/* Scenario Selection */}
-            <FormField
-              control={form.control}
-              name="scenarios"
-              render={() => (
-                <FormItem>
-                  <div className="mb-4">
-                    <FormLabel className="text-base">Scenarios to Generate</FormLabel>
-                    <FormDescription>
-                      Select which performance scenarios you want to simulate
-                    </FormDescription>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {AVAILABLE_SCENARIOS.map((scenario) => (
-                      <FormField
-                        key={scenario.id}
-                        control={form.control}
-                        name="scenarios"
-                        render={({ field }) => {
-                          return (
-                            <FormItem
-                              key={scenario.id}
-                              className="flex flex-row items-start space-x-3 space-y-0"
-                            >
-                              <FormControl>
-                                <Checkbox
-                                  checked={field.value?.includes(scenario.id)}
-                                  onCheckedChange={(checked) => {
-                                    return checked
-                                      ? field.onChange([...field.value, scenario.id])
-                                      : field.onChange(
-                                          field.value?.filter(
-                                            (value) => value !== scenario.id
-                                          )
-                                        );
-                                  }}
-                                />
-                              </FormControl>
-                              <div className="space-y-1 leading-none">
-                                <FormLabel className="font-medium">
-                                  {scenario.label}
-                                </FormLabel>
-                                <FormDescription className="text-xs">
-                                  {scenario.description}
-                                </FormDescription>
-                              </div>
-                            </FormItem>
-                          );
-                        }}
-                      />
-                    ))}
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              {/* Metrics Selection */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Metrics to Simulate</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {AVAILABLE_METRICS.map((metric) => (
+                    <div key={metric.id} className="space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={metric.id}
+                          checked={selectedMetrics.includes(metric.id)}
+                          onCheckedChange={() => handleMetricToggle(metric.id)}
+                        />
+                        <div className="flex-1">
+                          <label
+                            htmlFor={metric.id}
+                            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                          >
+                            {metric.label}
+                          </label>
+                          <p className="text-xs text-muted-foreground">
+                            {metric.description}
+                          </p>
+                        </div>
+                      </div>
+                      {selectedMetrics.includes(metric.id) && (
+                        <div className="ml-6 space-y-2">
+                          <div className="flex items-center space-x-2">
+                            <label className="text-xs text-muted-foreground">Weight:</label>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="1"
+                              step="0.1"
+                              value={metricWeights[metric.id] || 0}
+                              onChange={(e) => handleWeightChange(metric.id, parseFloat(e.target.value) || 0)}
+                              onBlur={normalizeWeights}
+                              className="w-20 h-6 text-xs"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {selectedMetrics.length === 0 && (
+                  <p className="text-sm text-destructive">Please select at least one metric</p>
+                )}
+              </div>
 
-            <Separator />
+              <Separator />
 
-            {/* External Data Sources */}
-            <FormField
-              control={form.control}
-              name="externalDataSources"
-              render={() => (
-                <FormItem>
-                  <div className="mb-4">
-                    <FormLabel className="text-base">External Data Sources</FormLabel>
-                    <FormDescription>
-                      Include external market data to enhance prediction accuracy
-                    </FormDescription>
-                  </div>
-                  {externalDataSources.length > 0 ? (
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {externalDataSources.map((source) => (
+              {/* Scenario Selection */}
+              <FormField
+                control={form.control}
+                name="scenarios"
+                render={() => (
+                  <FormItem>
+                    <div className="mb-4">
+                      <FormLabel className="text-base">Scenarios to Generate</FormLabel>
+                      <FormDescription>
+                        Select which performance scenarios you want to simulate
+                      </FormDescription>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {AVAILABLE_SCENARIOS.map((scenario) => (
                         <FormField
-                          key={source._id}
+                          key={scenario.id}
                           control={form.control}
-                          name="externalDataSources"
+                          name="scenarios"
                           render={({ field }) => {
                             return (
                               <FormItem
-                                key={source._id}
-                                className="flex flex-row items-center justify-between rounded-lg border p-4"
+                                key={scenario.id}
+                                className="flex flex-row items-start space-x-3 space-y-0"
                               >
-                                <div className="space-y-0.5">
-                                  <FormLabel className="text-base capitalize">
-                                    {source.source.replace('_', ' ')}
-                                  </FormLabel>
-                                  <FormDescription>
-                                    Status: {source.status}
-                                  </FormDescription>
-                                </div>
                                 <FormControl>
                                   <Checkbox
-                                    checked={field.value?.includes(source._id)}
+                                    checked={field.value?.includes(scenario.id)}
                                     onCheckedChange={(checked) => {
                                       return checked
-                                        ? field.onChange([...field.value, source._id])
+                                        ? field.onChange([...field.value, scenario.id])
                                         : field.onChange(
                                             field.value?.filter(
-                                              (value) => value !== source._id
+                                              (value) => value !== scenario.id
                                             )
                                           );
                                     }}
-                                    disabled={source.status !== "active"}
                                   />
                                 </FormControl>
+                                <div className="space-y-1 leading-none">
+                                  <FormLabel className="font-medium">
+                                    {scenario.label}
+                                  </FormLabel>
+                                  <FormDescription className="text-xs">
+                                    {scenario.description}
+                                  </FormDescription>
+                                </div>
                               </FormItem>
                             );
                           }}
                         />
                       ))}
                     </div>
-                  ) : (
-                    <div className="text-center py-6 text-muted-foreground">
-                      <p>No external data sources configured</p>
-                      <p className="text-sm">Configure data sources in settings to enhance predictions</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Custom Scenario Builder */}
+              <ScenarioBuilder
+                defaultStartDate={form.watch("timeframe.startDate")}
+                defaultEndDate={form.watch("timeframe.endDate")}
+              />
+
+              <Separator />
+
+              {/* External Data Sources */}
+              <FormField
+                control={form.control}
+                name="externalDataSources"
+                render={() => (
+                  <FormItem>
+                    <div className="mb-4">
+                      <FormLabel className="text-base">External Data Sources</FormLabel>
+                      <FormDescription>
+                        Include external market data to enhance prediction accuracy
+                      </FormDescription>
                     </div>
-                  )}
-                  <FormMessage />
-                </FormItem>
+                    {externalDataSources.length > 0 ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {externalDataSources.map((source) => (
+                          <FormField
+                            key={source._id}
+                            control={form.control}
+                            name="externalDataSources"
+                            render={({ field }) => {
+                              return (
+                                <FormItem
+                                  key={source._id}
+                                  className="flex flex-row items-center justify-between rounded-lg border p-4"
+                                >
+                                  <div className="space-y-0.5">
+                                    <FormLabel className="text-base capitalize">
+                                      {source.source.replace('_', ' ')}
+                                    </FormLabel>
+                                    <FormDescription>
+                                      Status: {source.status}
+                                    </FormDescription>
+                                  </div>
+                                  <FormControl>
+                                    <Checkbox
+                                      checked={field.value?.includes(source._id)}
+                                      onCheckedChange={(checked) => {
+                                        return checked
+                                          ? field.onChange([...field.value, source._id])
+                                          : field.onChange(
+                                              field.value?.filter(
+                                                (value) => value !== source._id
+                                              )
+                                            );
+                                      }}
+                                      disabled={source.status !== "active"}
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              );
+                            }}
+                          />
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-center py-6 text-muted-foreground">
+                        <p>No external data sources configured</p>
+                        <p className="text-sm">Configure data sources in settings to enhance predictions</p>
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {enableCostEstimate && selectedCampaign && (
+                <SimulationCostEstimate
+                  campaignId={selectedCampaign._id as Id<"campaigns">}
+                  startDate={form.watch("timeframe.startDate")}
+                  endDate={form.watch("timeframe.endDate")}
+                />
               )}
-            />
 
-            {/* Submit Button */}
-            <div className="flex justify-end space-x-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => form.reset()}
-                disabled={isSubmitting}
-              >
-                Reset
-              </Button>
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Creating Simulation..." : "Create Simulation"}
-              </Button>
-            </div>
+              {/* Submit Button */}
+              <div className="flex justify-end space-x-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => form.reset()}
+                  disabled={isSubmitting}
+                >
+                  Reset
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Creating Simulation..." : "Create Simulation"}
+                </Button>
+              </div>
+              </>
+            )}
           </form>
         </Form>
       </CardContent>
@@ -23,7 +23,8 @@ import {
   ChevronRight,
   Clock,
   BarChart3,
-  Activity
+  Activity,
+  RefreshCw
 } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -34,6 +35,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { POINT_LABEL_FORMATS } from "@/lib/simulation/orchestration/TrajectoryResampler";
 
 // Register Chart.js components
 ChartJS.register(
@@ -90,6 +92,17 @@ interface PivotRecommendation {
   };
 }
 
+interface KpiAttainment {
+  source: "kpi" | "custom_metric";
+  name: string;
+  metric?: string;
+  timeframe: string;
+  target: number;
+  expected?: number;
+  probability?: number;
+  expectedShortfall?: number;
+}
+
 interface SimulationResult {
   _id: string;
   campaignId: string;
@@ -99,6 +112,7 @@ interface SimulationResult {
     scenarios: Scenario[];
     risks: RiskAlert[];
     recommendations: PivotRecommendation[];
+    kpiAttainment?: KpiAttainment[];
   };
   modelMetadata?: {
     primaryModel: string;
@@ -109,14 +123,23 @@ interface SimulationResult {
       freshness: number;
     };
   };
+  config?: {
+    timeframe: { granularity: "hourly" | "daily" | "weekly" | "monthly" };
+  };
   createdAt: number;
   completedAt?: number;
+  outOfDate?: {
+    flaggedAt: number;
+    changes: Array<{ field: string; label: string; before: string; after: string }>;
+    rerunSimulationId?: string;
+  };
 }
 
 interface SimulationResultsProps {
   simulation: SimulationResult;
   onRecommendationAction?: (recommendationId: string, action: string) => void;
   onRetrySimulation?: () => void;
+  onRerunSimulation?: () => void; // Re-run against the current campaign
 }
 
 const SEVERITY_COLORS = {
@@ -140,21 +163,58 @@ const METRIC_LABELS = {
   conversions: "Conversions",
   cpc: "Cost Per Click ($)",
   cpm: "Cost Per Mille ($)",
+  cpa: "Cost Per Acquisition ($)",
+  roas: "Return on Ad Spend (x)",
+  roi: "Return on Investment (%)",
+  brand_awareness: "Audience Reached (%)",
+};
+
+// Metrics simulated as fractions and charted as percentages
+const PERCENT_METRICS = new Set(["ctr", "engagement", "roi", "brand_awareness"]);
+
+const chartValue = (metric: string, value: number | undefined) =>
+  value !== undefined && PERCENT_METRICS.has(metric) ? value * 100 : value;
+
+const formatMetricValue = (metric: string, value: number) => {
+  if (PERCENT_METRICS.has(metric)) return `${(value * 100).toFixed(2)}%`;
+  if (metric === "cpc" || metric === "cpm" || metric === "cpa") return `$${value.toFixed(2)}`;
+  if (metric === "roas") return `${value.toFixed(2)}x`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+};
+
+const TIMEFRAME_LABELS: Record<string, string> = {
+  daily: "per day",
+  weekly: "per week",
+  monthly: "per month",
+  campaign: "for the campaign",
 };
 
+// Attainment targets use the campaign's units: CTR, ROI and awareness in percent, costs in dollars
+const formatTargetValue = (name: string, value: number) => {
+  if (name === "ctr" || name === "roi" || name === "brand_awareness") return `${value.toFixed(2)}%`;
+  if (name === "cpc" || name === "cpm" || name === "cpa") return `$${value.toFixed(2)}`;
+  if (name === "roas") return `${value.toFixed(2)}x`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+};
+
+const attainmentColor = (probability: number) =>
+  probability >= 0.7 ? "text-green-600" : probability >= 0.4 ? "text-yellow-600" : "text-red-600";
+
 export function SimulationResults({ 
   simulation, 
   onRecommendationAction,
-  onRetrySimulation 
+  onRetrySimulation,
+  onRerunSimulation
 }: SimulationResultsProps) {
-  const { results, modelMetadata } = simulation;
+  const { results, modelMetadata, outOfDate } = simulation;
+  const pointFormat = POINT_LABEL_FORMATS[simulation.config?.timeframe.granularity ?? "daily"];
 
   // Generate chart data for trajectories
   const chartData = useMemo(() => {
     if (!results?.trajectories.length) return null;
 
     const dates = results.trajectories.map(point => 
-      format(new Date(point.date), "MMM dd")
+      format(new Date(point.date), pointFormat)
     );
 
     const metrics = Object.keys(results.trajectories[0].metrics);
@@ -174,7 +234,7 @@ export function SimulationResults({
       
       datasets.push({
         label: METRIC_LABELS[metric as keyof typeof METRIC_LABELS] || metric,
-        data: results.trajectories.map(point => point.metrics[metric]),
+        data: results.trajectories.map(point => chartValue(metric, point.metrics[metric])),
         borderColor: colors[index % colors.length],
         backgroundColor: colors[index % colors.length] + '20',
         fill: false,
@@ -185,7 +245,7 @@ export function SimulationResults({
     // Add confidence intervals if available
     if (results.trajectories[0].confidence !== undefined) {
       const confidenceData = results.trajectories.map(point => ({
-        x: format(new Date(point.date), "MMM dd"),
+        x: format(new Date(point.date), pointFormat),
         y: point.confidence * 100,
       }));
 
@@ -204,7 +264,7 @@ export function SimulationResults({
       labels: dates,
       datasets,
     };
-  }, [results?.trajectories]);
+  }, [results?.trajectories, pointFormat]);
 
   // Generate scenario comparison data
   const scenarioChartData = useMemo(() => {
@@ -212,7 +272,7 @@ export function SimulationResults({
 
     const firstScenario = results.scenarios[0];
     const dates = firstScenario.trajectory.map(point => 
-      format(new Date(point.date), "MMM dd")
+      format(new Date(point.date), pointFormat)
     );
 
     const metric = Object.keys(firstScenario.trajectory[0].metrics)[0];
@@ -226,7 +286,7 @@ export function SimulationResults({
 
       return {
         label: `${scenario.type.charAt(0).toUpperCase() + scenario.type.slice(1)} (${(scenario.probability * 100).toFixed(0)}%)`,
-        data: scenario.trajectory.map(point => point.metrics[metric]),
+        data: scenario.trajectory.map(point => chartValue(metric, point.metrics[metric])),
         borderColor: colors[scenario.type as keyof typeof colors] || 'rgb(156, 163, 175)',
         backgroundColor: (colors[scenario.type as keyof typeof colors] || 'rgb(156, 163, 175)') + '20',
         fill: false,
@@ -238,7 +298,7 @@ export function SimulationResults({
       labels: dates,
       datasets,
     };
-  }, [results?.scenarios]);
+  }, [results?.scenarios, pointFormat]);
 
   const chartOptions = {
     responsive: true,
@@ -265,6 +325,8 @@ export function SimulationResults({
                 label += context.parsed.y.toFixed(2) + '%';
               } else if (context.dataset.label?.includes('$')) {
                 label += '$' + context.parsed.y.toFixed(2);
+              } else if (context.dataset.label?.includes('(x)')) {
+                label += context.parsed.y.toFixed(2) + 'x';
               } else {
                 label += context.parsed.y.toLocaleString();
               }
@@ -400,6 +462,104 @@ export function SimulationResults({
         )}
       </Card>
 
+      {/* Campaign inputs changed since the run */}
+      {outOfDate && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Out of date</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              The campaign changed {format(new Date(outOfDate.flaggedAt), "MMM dd, yyyy")} after this
+              simulation ran, so these results reflect the previous plan.
+            </p>
+            <div className="space-y-1 text-sm">
+              {outOfDate.changes.map(change => (
+                <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+                  <span className="font-medium">{change.label}</span>
+                  <span>
+                    <span className="line-through text-muted-foreground">{change.before}</span>{" "}
+                    → {change.after}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {outOfDate.rerunSimulationId ? (
+              <p className="flex items-center gap-2 text-sm">
+                <RefreshCw className="h-3 w-3" />
+                A re-run against the updated campaign has been queued.
+              </p>
+            ) : (
+              onRerunSimulation && (
+                <Button size="sm" variant="outline" onClick={onRerunSimulation}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Re-run with current campaign
+                </Button>
+              )
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* KPI attainment */}
+      {results.kpiAttainment && results.kpiAttainment.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              KPI Attainment
+            </CardTitle>
+            <CardDescription>
+              {results.kpiAttainment
+                .filter((attainment) => attainment.probability !== undefined)
+                .map(
+                  (attainment) =>
+                    `${Math.round(attainment.probability! * 100)}% likely to hit ${attainment.name.replace(/_/g, " ")}`
+                )
+                .join(", ") || "None of the targets is simulated"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {results.kpiAttainment.map((attainment) => (
+                <div key={`${attainment.source}:${attainment.name}`} className="rounded-lg border p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium capitalize">{attainment.name.replace(/_/g, " ")}</h4>
+                    {attainment.source === "custom_metric" && (
+                      <Badge variant="outline" className="text-xs">Custom</Badge>
+                    )}
+                  </div>
+                  {attainment.probability !== undefined ? (
+                    <>
+                      <div className={cn("text-2xl font-bold", attainmentColor(attainment.probability))}>
+                        {Math.round(attainment.probability * 100)}%
+                      </div>
+                      <Progress value={attainment.probability * 100} className="h-2" />
+                      <div className="text-xs text-muted-foreground space-y-1">
+                        <p>
+                          Expected {formatTargetValue(attainment.name, attainment.expected ?? 0)} vs target{" "}
+                          {formatTargetValue(attainment.name, attainment.target)}{" "}
+                          {TIMEFRAME_LABELS[attainment.timeframe] ?? attainment.timeframe}
+                        </p>
+                        {(attainment.expectedShortfall ?? 0) > 0 && (
+                          <p>
+                            Expected shortfall{" "}
+                            {formatTargetValue(attainment.name, attainment.expectedShortfall ?? 0)}
+                          </p>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Target {formatTargetValue(attainment.name, attainment.target)} is not simulated
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Main content tabs */}
       <Tabs defaultValue="trajectories" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
@@ -463,7 +623,7 @@ export function SimulationResults({
                               {METRIC_LABELS[metric as keyof typeof METRIC_LABELS] || metric}
                             </span>
                             <span className="font-medium">
-                              {typeof value === 'number' ? value.toLocaleString() : value}
+                              {typeof value === 'number' ? formatMetricValue(metric, value) : value}
                             </span>
                           </div>
                         ))}
@@ -502,7 +662,7 @@ export function SimulationResults({
                   <AlertDescription className="mt-2">
                     <p>{risk.description}</p>
                     <div className="mt-2 text-xs text-muted-foreground">
-                      Risk period: {format(new Date(risk.timeframe.start), "MMM dd")} - {format(new Date(risk.timeframe.end), "MMM dd")}
+                      Risk period: {format(new Date(risk.timeframe.start), pointFormat)} - {format(new Date(risk.timeframe.end), pointFormat)}
                     </div>
                   </AlertDescription>
                 </Alert>
@@ -25,6 +25,11 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import {
+  SIMULATION_STAGES,
+  StageRecord,
+  estimateStageProgress,
+} from "@/lib/simulation/orchestration/SimulationProgress";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
 
@@ -52,6 +57,7 @@ interface SimulationData {
   _id: Id<"simulations">;
   status: "queued" | "processing" | "completed" | "failed" | "cancelled";
   queueMetadata?: QueueMetadata;
+  stages?: StageRecord[];
   createdAt: number;
   updatedAt: number;
   completedAt?: number;
@@ -61,7 +67,7 @@ interface SimulationData {
     timeframe: {
       startDate: number;
       endDate: number;
-      granularity: "daily" | "weekly";
+      granularity: "hourly" | "daily" | "weekly" | "monthly";
     };
     metrics: Array<{
       type: string;
@@ -123,58 +129,45 @@ export function SimulationStatus({
 }: SimulationStatusProps) {
   const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
+  const [currentStep, setCurrentStep] = useState<string | null>(null);
 
   // Subscribe to simulation updates
   const simulation = useQuery(api.simulations.getSimulation, { simulationId }) as SimulationData | null;
 
-  // Calculate progress and time estimates
+  // Derive progress and time estimates from the recorded pipeline stages
   useEffect(() => {
     if (!simulation) return;
 
-    const now = Date.now();
-    
-    if (simulation.status === "processing" && simulation.queueMetadata?.startedAt) {
-      const elapsed = now - simulation.queueMetadata.startedAt;
-      const estimated = simulation.queueMetadata.estimatedDuration;
-      
-      if (estimated > 0) {
-        const progressPercent = Math.min((elapsed / estimated) * 100, 95); // Cap at 95% until complete
-        setProgress(progressPercent);
-        
-        const remaining = Math.max(estimated - elapsed, 0);
-        setEstimatedTimeRemaining(remaining);
+    const update = () => {
+      if (simulation.status === "processing") {
+        const estimate = estimateStageProgress(
+          simulation.stages ?? [],
+          simulation.queueMetadata?.startedAt,
+          simulation.queueMetadata?.estimatedDuration ?? 30000
+        );
+        setProgress(estimate.percentage);
+        setEstimatedTimeRemaining(estimate.remainingMs);
+        setCurrentStep(estimate.currentStep);
+      } else if (simulation.status === "queued") {
+        setProgress(0);
+        setEstimatedTimeRemaining(simulation.queueMetadata?.estimatedDuration || null);
+        setCurrentStep(null);
+      } else if (simulation.status === "completed") {
+        setProgress(100);
+        setEstimatedTimeRemaining(0);
+        setCurrentStep(null);
+      } else {
+        setProgress(0);
+        setEstimatedTimeRemaining(null);
+        setCurrentStep(null);
       }
-    } else if (simulation.status === "queued") {
-      setProgress(0);
-      setEstimatedTimeRemaining(simulation.queueMetadata?.estimatedDuration || null);
-    } else if (simulation.status === "completed") {
-      setProgress(100);
-      setEstimatedTimeRemaining(0);
-    } else {
-      setProgress(0);
-      setEstimatedTimeRemaining(null);
-    }
-  }, [simulation]);
+    };
 
-  // Update progress periodically for processing simulations
-  useEffect(() => {
-    if (simulation?.status !== "processing") return;
-
-    const interval = setInterval(() => {
-      if (simulation.queueMetadata?.startedAt) {
-        const elapsed = Date.now() - simulation.queueMetadata.startedAt;
-        const estimated = simulation.queueMetadata.estimatedDuration;
-        
-        if (estimated > 0) {
-          const progressPercent = Math.min((elapsed / estimated) * 100, 95);
-          setProgress(progressPercent);
-          
-          const remaining = Math.max(estimated - elapsed, 0);
-          setEstimatedTimeRemaining(remaining);
-        }
-      }
-    }, 1000);
+    update();
 
+    // Keep the estimate ticking between stage updates
+    if (simulation.status !== "processing") return;
+    const interval = setInterval(update, 1000);
     return () => clearInterval(interval);
   }, [simulation]);
 
@@ -213,12 +206,17 @@ export function SimulationStatus({
             </span>
             {estimatedTimeRemaining !== null && estimatedTimeRemaining > 0 && (
               <Badge variant="outline" className="text-xs">
-                ~{Math.ceil(estimatedTimeRemaining / 1000 / 60)}m remaining
+                ~{formatRemaining(estimatedTimeRemaining)} remaining
               </Badge>
             )}
           </div>
           {simulation.status === "processing" && (
-            <Progress value={progress} className="h-1 mt-1" />
+            <>
+              {currentStep && (
+                <div className="text-xs text-muted-foreground truncate">{currentStep}</div>
+              )}
+              <Progress value={progress} className="h-1 mt-1" />
+            </>
           )}
         </div>
         {(simulation.status === "failed" || simulation.status === "cancelled") && onRetry && (
@@ -283,7 +281,7 @@ export function SimulationStatus({
         {simulation.status === "processing" && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Progress</span>
+              <span className="text-muted-foreground">{currentStep ?? "Progress"}</span>
               <span className="font-medium">{progress.toFixed(0)}%</span>
             </div>
             <Progress value={progress} className="h-2" />
@@ -291,13 +289,20 @@ export function SimulationStatus({
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Timer className="h-4 w-4" />
                 <span>
-                  Estimated time remaining: {Math.ceil(estimatedTimeRemaining / 1000 / 60)} minutes
+                  Estimated time remaining: {formatRemaining(estimatedTimeRemaining)}
                 </span>
               </div>
             )}
           </div>
         )}
 
+        {/* Pipeline Steps */}
+        {(simulation.status === "processing" || simulation.status === "failed") &&
+          simulation.stages &&
+          simulation.stages.length > 0 && (
+            <StageList stages={simulation.stages} status={simulation.status} />
+          )}
+
         {/* Error Information */}
         {simulation.status === "failed" && simulation.queueMetadata?.error && (
           <Alert className="border-red-200 bg-red-50">
@@ -432,4 +437,108 @@ export function SimulationStatus({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.ceil(seconds / 60)}m`;
+}
+
+function formatStageDuration(record: StageRecord): string | null {
+  if (!record.completedAt) return null;
+  return `${((record.completedAt - record.startedAt) / 1000).toFixed(1)}s`;
+}
+
+interface StageListProps {
+  stages: StageRecord[];
+  status: SimulationData["status"];
+}
+
+function StageList({ stages, status }: StageListProps) {
+  const pipeline = new Map(
+    stages.filter((record) => !record.model).map((record) => [record.stage, record])
+  );
+  const modelCalls = stages.filter((record) => record.model);
+  const lastRecordedIndex = SIMULATION_STAGES.reduce(
+    (last, definition, index) => (pipeline.has(definition.stage) ? index : last),
+    -1
+  );
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Steps</h4>
+      <ol className="space-y-1.5">
+        {SIMULATION_STAGES.map((definition, index) => {
+          const record = pipeline.get(definition.stage);
+          // Stages with no record before the latest one were skipped (e.g. ensemble after a baseline fallback)
+          const skipped = !record && (index < lastRecordedIndex || status === "failed");
+
+          return (
+            <li key={definition.stage} className="text-sm">
+              <div className="flex items-center gap-2">
+                <StageIcon status={record?.status} />
+                <span className={cn(!record && "text-muted-foreground")}>
+                  {definition.label}
+                </span>
+                {skipped && (
+                  <span className="text-xs text-muted-foreground">skipped</span>
+                )}
+                {record && formatStageDuration(record) && (
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {formatStageDuration(record)}
+                  </span>
+                )}
+              </div>
+              {record?.error && (
+                <div
+                  className={cn(
+                    "ml-6 text-xs",
+                    record.status === "failed" ? "text-red-600" : "text-amber-600"
+                  )}
+                >
+                  {record.error}
+                </div>
+              )}
+              {definition.stage === "model_prediction" && modelCalls.length > 0 && (
+                <ul className="ml-6 mt-1 space-y-1">
+                  {modelCalls.map((call) => (
+                    <li key={call.model} className="flex items-center gap-2 text-xs">
+                      <StageIcon status={call.status} small />
+                      <span>{call.model}</span>
+                      {call.error && (
+                        <span className="text-red-600 truncate">{call.error}</span>
+                      )}
+                      {formatStageDuration(call) && (
+                        <span className="ml-auto text-muted-foreground">
+                          {formatStageDuration(call)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function StageIcon({ status, small = false }: { status?: StageRecord["status"]; small?: boolean }) {
+  const size = small ? "h-3 w-3" : "h-4 w-4";
+
+  switch (status) {
+    case "completed":
+      return <CheckCircle className={cn(size, "text-green-600")} />;
+    case "running":
+      return <Loader2 className={cn(size, "text-orange-600 animate-spin")} />;
+    case "failed":
+      return <XCircle className={cn(size, "text-red-600")} />;
+    default:
+      return <Clock className={cn(size, "text-muted-foreground")} />;
+  }
+}
@@ -0,0 +1,429 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/../convex/_generated/api";
+import { Id } from "@/../convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertTriangle, FlaskConical, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { POINT_LABEL_FORMATS } from "@/lib/simulation/orchestration/TrajectoryResampler";
+
+// Wait for the user to stop dragging before re-running the projection
+const EVALUATION_DEBOUNCE_MS = 300;
+
+interface WhatIfRecommendation {
+  id: string;
+  type: string;
+  priority: number;
+  impact_estimate: {
+    metric: string;
+    improvement: number;
+    confidence: number;
+  };
+  implementation: {
+    description: string;
+  };
+  reallocation?: {
+    from: string;
+    to: string;
+    amount: number;
+  };
+}
+
+interface WhatIfBuilderProps {
+  simulationId: Id<"simulations">;
+  recommendations: WhatIfRecommendation[];
+  channelBudgets: Record<string, number>;
+  currency?: string;
+  granularity?: "hourly" | "daily" | "weekly" | "monthly";
+}
+
+interface AdjustmentState {
+  reallocationShare?: number;
+  startDay?: number;
+}
+
+export function WhatIfBuilder({
+  simulationId,
+  recommendations,
+  channelBudgets,
+  currency = "USD",
+  granularity = "daily",
+}: WhatIfBuilderProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [adjustments, setAdjustments] = useState<Record<string, AdjustmentState>>({});
+  const [metric, setMetric] = useState<string | undefined>();
+
+  const args = useMemo(
+    () => ({
+      simulationId,
+      recommendationIds: selectedIds,
+      adjustments: selectedIds
+        .filter((id) => adjustments[id])
+        .map((id) => ({ recommendationId: id, ...adjustments[id] })),
+    }),
+    [simulationId, selectedIds, adjustments]
+  );
+
+  const [debouncedArgs, setDebouncedArgs] = useState(args);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedArgs(args), EVALUATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [args]);
+
+  const evaluation = useQuery(api.recommendations.evaluateWhatIf, debouncedArgs);
+
+  // Keep showing the last projection while the next one loads
+  const [workspace, setWorkspace] = useState(evaluation);
+  useEffect(() => {
+    if (evaluation !== undefined) {
+      setWorkspace(evaluation);
+    }
+  }, [evaluation]);
+
+  const isUpdating = evaluation === undefined || debouncedArgs !== args;
+
+  const metrics = useMemo(
+    () => Object.keys(workspace?.baseline[0]?.metrics ?? {}),
+    [workspace]
+  );
+  const selectedMetric =
+    metric ??
+    recommendations.find((recommendation) => selectedIds.includes(recommendation.id))
+      ?.impact_estimate.metric ??
+    metrics[0];
+
+  const chartData = useMemo(() => {
+    if (!workspace || !selectedMetric) return [];
+
+    return workspace.baseline.map((point, index) => ({
+      dateFormatted: format(new Date(point.date), POINT_LABEL_FORMATS[granularity]),
+      baseline: point.metrics[selectedMetric],
+      projection: workspace.projection[index]?.metrics[selectedMetric],
+      lower: workspace.uncertaintyBounds.lower[index]?.metrics[selectedMetric],
+      upper: workspace.uncertaintyBounds.upper[index]?.metrics[selectedMetric],
+    }));
+  }, [workspace, selectedMetric, granularity]);
+
+  const toggleRecommendation = (id: string, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  const updateAdjustment = (id: string, update: AdjustmentState) => {
+    setAdjustments((current) => ({
+      ...current,
+      [id]: { ...current[id], ...update },
+    }));
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const formatChange = (change: number) =>
+    `${change >= 0 ? "+" : ""}${(change * 100).toFixed(1)}%`;
+
+  const formatMetricValue = (value: number) => {
+    if (["ctr", "engagement", "roi", "brand_awareness"].includes(selectedMetric)) {
+      return `${(value * 100).toFixed(2)}%`;
+    } else if (selectedMetric === "cpc" || selectedMetric === "cpm" || selectedMetric === "cpa") {
+      return `$${value.toFixed(2)}`;
+    } else if (selectedMetric === "roas") {
+      return `${value.toFixed(2)}x`;
+    } else {
+      return Math.round(value).toLocaleString();
+    }
+  };
+
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          What-If Builder
+          {isUpdating && selectedIds.length > 0 && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </CardTitle>
+        <CardDescription>
+          Combine recommendations and tweak them to see the projected impact before acting
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Recommendation picker */}
+        <div className="space-y-3">
+          {recommendations.map((recommendation) => {
+            const selected = selectedIds.includes(recommendation.id);
+            const adjustment = adjustments[recommendation.id] ?? {};
+            const adjusted = workspace?.recommendations.find(
+              (entry) => entry.id === recommendation.id
+            );
+            const sourceBudget = recommendation.reallocation
+              ? channelBudgets[recommendation.reallocation.from]
+              : undefined;
+            const share =
+              adjustment.reallocationShare ??
+              (recommendation.reallocation && sourceBudget
+                ? recommendation.reallocation.amount / sourceBudget
+                : undefined);
+
+            return (
+              <div key={recommendation.id} className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id={`what-if-${recommendation.id}`}
+                    checked={selected}
+                    onCheckedChange={(checked) =>
+                      toggleRecommendation(recommendation.id, checked === true)
+                    }
+                  />
+                  <div className="flex-1">
+                    <Label htmlFor={`what-if-${recommendation.id}`} className="font-medium">
+                      {(selected && adjusted?.implementation.description) ||
+                        recommendation.implementation.description}
+                    </Label>
+                    <p className="text-xs text-muted-foreground capitalize">
+                      {recommendation.type.replace(/_/g, " ")} · {recommendation.impact_estimate.metric}{" "}
+                      {formatChange(
+                        (selected && adjusted?.impact_estimate.improvement) ||
+                          recommendation.impact_estimate.improvement
+                      )}
+                    </p>
+                  </div>
+                </div>
+
+                {selected && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pl-7">
+                    {recommendation.reallocation && share !== undefined && sourceBudget ? (
+                      <div className="space-y-2">
+                        <Label className="text-xs">
+                          Move {Math.round(share * 100)}% of {recommendation.reallocation.from} (
+                          {formatCurrency(sourceBudget * share)})
+                        </Label>
+                        <Slider
+                          min={1}
+                          max={100}
+                          step={1}
+                          value={[Math.round(share * 100)]}
+                          onValueChange={([value]) =>
+                            updateAdjustment(recommendation.id, {
+                              reallocationShare: value / 100,
+                            })
+                          }
+                        />
+                      </div>
+                    ) : (
+                      <div />
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor={`what-if-start-${recommendation.id}`} className="text-xs">
+                        Start after (days)
+                      </Label>
+                      <Input
+                        id={`what-if-start-${recommendation.id}`}
+                        type="number"
+                        min={0}
+                        value={adjustment.startDay ?? 0}
+                        onChange={(event) =>
+                          updateAdjustment(recommendation.id, {
+                            startDay: Math.max(0, Number(event.target.value) || 0),
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {selectedIds.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Select one or more recommendations to project their combined impact
+          </p>
+        ) : workspace ? (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Overall change</p>
+                <p className="font-medium">
+                  {formatChange(workspace.comparisonToBaseline.improvement)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Confidence</p>
+                <p className="font-medium">{Math.round(workspace.confidence * 100)}%</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Complexity</p>
+                <p className="font-medium">
+                  {workspace.implementationRisk.complexityScore.toFixed(1)} / 10
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Timeline</p>
+                <p className="font-medium">{workspace.implementationRisk.timeline}</p>
+              </div>
+            </div>
+
+            {!workspace.feasible && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                These recommendations conflict and cannot all be applied together
+              </div>
+            )}
+            {workspace.interactionFactor < 1 && (
+              <p className="text-xs text-muted-foreground">
+                Overlapping effects reduce the combined uplift to{" "}
+                {Math.round(workspace.interactionFactor * 100)}% of the sum.
+              </p>
+            )}
+
+            {/* Projection chart */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Projected trajectory</p>
+                <Select value={selectedMetric} onValueChange={setMetric}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {metrics.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name.toUpperCase()}{" "}
+                        {formatChange(workspace.metricChanges[name] ?? 0)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="dateFormatted" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} tickFormatter={formatMetricValue} />
+                    <Tooltip formatter={(value: number) => formatMetricValue(value)} />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="baseline"
+                      stroke="#6b7280"
+                      strokeWidth={2}
+                      dot={false}
+                      name="Simulated"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="projection"
+                      stroke="#3b82f6"
+                      strokeWidth={2}
+                      dot={false}
+                      name="With recommendations"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="upper"
+                      stroke="#93c5fd"
+                      strokeDasharray="5 5"
+                      dot={false}
+                      name="Upper bound"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="lower"
+                      stroke="#93c5fd"
+                      strokeDasharray="5 5"
+                      dot={false}
+                      name="Lower bound"
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Ranking */}
+            {workspace.ranking.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Ranking</p>
+                {[...workspace.ranking]
+                  .sort((a, b) => a.ranking - b.ranking)
+                  .map((entry) => {
+                    const recommendation = workspace.recommendations.find(
+                      (candidate) => candidate.id === entry.recommendationId
+                    );
+                    return (
+                      <div
+                        key={entry.recommendationId}
+                        className="flex items-start justify-between gap-4 text-sm border-b pb-2 last:border-0"
+                      >
+                        <div className="flex items-start gap-2">
+                          <Badge variant="outline">#{entry.ranking}</Badge>
+                          <div>
+                            <p>{recommendation?.implementation.description}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {[...entry.pros, ...entry.cons].join(" · ")}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                          <p>{formatChange(entry.improvement)} impact</p>
+                          <p>{Math.round(entry.confidence * 100)}% confidence</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+
+            {/* Implementation risk */}
+            {workspace.implementationRisk.riskFactors.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Implementation risks</p>
+                <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                  {workspace.implementationRisk.riskFactors.map((risk) => (
+                    <li key={risk}>{risk}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,11 @@
 export { SimulationRequestForm } from "./SimulationRequestForm";
 export { SimulationResults } from "./SimulationResults";
 export { SimulationStatus } from "./SimulationStatus";
-export { SimulationDemo } from "./SimulationDemo";
\ No newline at end of file
+export { SimulationDemo } from "./SimulationDemo";
+export { SimulationDetails } from "./SimulationDetails";
+export { SimulationComparison } from "./SimulationComparison";
+export { RiskRulesManager } from "./RiskRulesManager";
+export { RecommendationLifecycle } from "./RecommendationLifecycle";
+export { WhatIfBuilder } from "./WhatIfBuilder";
+export { GoalSeekPanel } from "./GoalSeekPanel";
+export { ResimulationSettings } from "./ResimulationSettings";
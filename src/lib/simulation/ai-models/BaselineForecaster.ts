@@ -0,0 +1,337 @@
+/**
+ * Offline Statistical Baseline Forecaster
+ *
+ * This module implements a deterministic Holt-Winters forecaster (damped
+ * additive trend with weekly seasonality) that runs locally without any
+ * network call. It serves as a regular ensemble member and as the fallback
+ * when the hosted AI providers are unavailable.
+ */
+
+import {
+  EnrichedDataset,
+  PredictionOutput,
+  TrajectoryPoint,
+  ConfidenceInterval,
+  DateRange,
+  FeatureImportance
+} from '../../../types/simulation';
+import { DataValidationError, InsufficientDataError } from '../errors';
+
+export interface BaselineForecasterConfig {
+  horizonDays: number; // forecast length when the dataset has no forecast window
+  seasonLength: number;
+  alpha: number; // level smoothing
+  beta: number; // trend smoothing
+  gamma: number; // seasonal smoothing
+  phi: number; // trend damping
+  confidenceLevel: 0.8 | 0.9 | 0.95;
+}
+
+export interface HoltWintersFit {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  residualStdDev: number;
+  observations: number;
+  seasonal: boolean;
+}
+
+const DEFAULT_CONFIG: BaselineForecasterConfig = {
+  horizonDays: 30,
+  seasonLength: 7,
+  alpha: 0.4,
+  beta: 0.1,
+  gamma: 0.2,
+  phi: 0.9,
+  confidenceLevel: 0.8
+};
+
+const Z_SCORES: Record<BaselineForecasterConfig['confidenceLevel'], number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96
+};
+
+// Rate metrics are averaged across channels for a day, volume metrics are summed
+const RATE_METRICS = new Set(['ctr', 'engagement', 'cpc', 'cpm', 'cpa', 'roas', 'roi', 'brand_awareness']);
+const BOUNDED_METRICS = new Set(['ctr', 'engagement', 'brand_awareness']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BaselineForecaster {
+  private config: BaselineForecasterConfig;
+
+  constructor(config: Partial<BaselineForecasterConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    const { alpha, beta, gamma, phi } = this.config;
+    [alpha, beta, gamma, phi].forEach((value, index) => {
+      if (!(value > 0 && value <= 1)) {
+        const parameter = ['alpha', 'beta', 'gamma', 'phi'][index];
+        throw new DataValidationError(
+          `Smoothing parameter ${parameter} must be in (0, 1]`,
+          parameter,
+          value
+        );
+      }
+    });
+  }
+
+  /**
+   * Forecast every historical metric through the dataset's forecast window,
+   * or over the configured horizon without one
+   */
+  async predict(dataset: EnrichedDataset): Promise<PredictionOutput> {
+    const startTime = Date.now();
+    const series = this.buildDailySeries(dataset);
+    const metricNames = Object.keys(series.values);
+
+    if (metricNames.length === 0) {
+      throw new InsufficientDataError(
+        'Baseline forecaster requires historical performance data',
+        ['historicalPerformance'],
+        ['historicalPerformance']
+      );
+    }
+
+    const fits: Record<string, HoltWintersFit> = {};
+    metricNames.forEach(metric => {
+      fits[metric] = this.fit(series.values[metric]);
+    });
+
+    const primaryMetric = metricNames.includes('ctr') ? 'ctr' : metricNames[0];
+    const confidenceScore = this.calculateConfidenceScore(
+      fits[primaryMetric],
+      series.values[primaryMetric],
+      dataset.dataQuality?.overall ?? 0.5
+    );
+    const z = Z_SCORES[this.config.confidenceLevel];
+
+    const trajectories: TrajectoryPoint[] = [];
+    const confidenceIntervals: ConfidenceInterval[] = [];
+    const steps = this.forecastSteps(series.lastDate, dataset.forecastWindow);
+
+    for (let h = steps.first; h <= steps.last; h++) {
+      const metrics: Record<string, number> = {};
+      metricNames.forEach(metric => {
+        metrics[metric] = this.clamp(metric, this.forecast(fits[metric], h));
+      });
+
+      trajectories.push({
+        date: new Date(series.lastDate.getTime() + h * DAY_MS),
+        metrics,
+        confidence: Math.max(0.3, confidenceScore - 0.01 * (h - 1))
+      });
+
+      const primaryFit = fits[primaryMetric];
+      const spread = z * primaryFit.residualStdDev * Math.sqrt(1 + (h - 1) * this.config.alpha ** 2);
+      confidenceIntervals.push({
+        lower: this.clamp(primaryMetric, metrics[primaryMetric] - spread),
+        upper: this.clamp(primaryMetric, metrics[primaryMetric] + spread),
+        confidence_level: this.config.confidenceLevel
+      });
+    }
+
+    return {
+      trajectories,
+      confidence_intervals: confidenceIntervals,
+      feature_importance: this.calculateFeatureImportance(fits[primaryMetric], steps.last),
+      model_metadata: {
+        model_name: 'Baseline-HoltWinters',
+        model_version: '1.0.0',
+        confidence_score: confidenceScore,
+        processing_time: Date.now() - startTime,
+        data_quality: dataset.dataQuality,
+        feature_count: metricNames.length,
+        prediction_horizon: trajectories.length
+      }
+    };
+  }
+
+  /**
+   * Forecast steps, in days after the last history day, whose points fall
+   * inside the forecast window. Steps before the window are still forecast
+   * internally but not returned, so stale history does not shift the points
+   * out of the window.
+   */
+  private forecastSteps(lastDate: Date, window?: DateRange): { first: number; last: number } {
+    if (!window) {
+      return { first: 1, last: this.config.horizonDays };
+    }
+
+    const windowStartDay = Math.floor(window.start.getTime() / DAY_MS) * DAY_MS;
+    const first = Math.max(1, Math.ceil((windowStartDay - lastDate.getTime()) / DAY_MS));
+    const last = Math.floor((window.end.getTime() - lastDate.getTime()) / DAY_MS);
+
+    // A window that ends before the history does still gets its next day
+    return { first, last: Math.max(first, last) };
+  }
+
+  /**
+   * Fit a damped-trend Holt-Winters model to a daily series.
+   * Seasonality is only estimated once two full seasons are available.
+   */
+  fit(values: number[]): HoltWintersFit {
+    const { seasonLength, alpha, beta, gamma, phi } = this.config;
+    const seasonal = values.length >= seasonLength * 2;
+
+    let level = values[0];
+    let trend = values.length > 1 ? values[1] - values[0] : 0;
+    const seasonals = new Array(seasonLength).fill(0);
+
+    if (seasonal) {
+      const firstSeason = this.mean(values.slice(0, seasonLength));
+      const secondSeason = this.mean(values.slice(seasonLength, seasonLength * 2));
+      level = firstSeason;
+      trend = (secondSeason - firstSeason) / seasonLength;
+      for (let i = 0; i < seasonLength; i++) {
+        seasonals[i] = values[i] - firstSeason;
+      }
+    }
+
+    const errors: number[] = [];
+    const start = seasonal ? 0 : 1;
+
+    for (let t = start; t < values.length; t++) {
+      const seasonIndex = t % seasonLength;
+      const season = seasonal ? seasonals[seasonIndex] : 0;
+      const oneStep = level + phi * trend + season;
+      errors.push(values[t] - oneStep);
+
+      const previousLevel = level;
+      level = alpha * (values[t] - season) + (1 - alpha) * (level + phi * trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+      if (seasonal) {
+        seasonals[seasonIndex] = gamma * (values[t] - level) + (1 - gamma) * season;
+      }
+    }
+
+    const residualStdDev = errors.length > 0
+      ? Math.sqrt(this.mean(errors.map(e => e * e)))
+      : Math.abs(values[0]) * 0.1;
+
+    return {
+      level,
+      trend,
+      seasonals,
+      residualStdDev,
+      observations: values.length,
+      seasonal
+    };
+  }
+
+  /**
+   * Forecast h steps past the end of the fitted series
+   */
+  forecast(fit: HoltWintersFit, h: number): number {
+    const { phi, seasonLength } = this.config;
+
+    let dampedSum = 0;
+    for (let i = 1; i <= h; i++) {
+      dampedSum += phi ** i;
+    }
+
+    const season = fit.seasonal
+      ? fit.seasonals[(fit.observations + h - 1) % seasonLength]
+      : 0;
+
+    return fit.level + dampedSum * fit.trend + season;
+  }
+
+  /**
+   * Aggregate historical metrics into contiguous daily series.
+   * Missing days carry the previous value forward.
+   */
+  private buildDailySeries(dataset: EnrichedDataset): { values: Record<string, number[]>; lastDate: Date } {
+    const byMetric = new Map<string, Map<number, number[]>>();
+    let firstDay = Infinity;
+    let lastDay = -Infinity;
+
+    dataset.historicalPerformance.forEach(point => {
+      if (!Number.isFinite(point.value)) return;
+
+      const day = Math.floor(new Date(point.date).getTime() / DAY_MS);
+      firstDay = Math.min(firstDay, day);
+      lastDay = Math.max(lastDay, day);
+
+      if (!byMetric.has(point.metric)) {
+        byMetric.set(point.metric, new Map());
+      }
+      const days = byMetric.get(point.metric)!;
+      if (!days.has(day)) {
+        days.set(day, []);
+      }
+      days.get(day)!.push(point.value);
+    });
+
+    const values: Record<string, number[]> = {};
+
+    byMetric.forEach((days, metric) => {
+      const series: number[] = [];
+      let previous: number | undefined;
+
+      for (let day = firstDay; day <= lastDay; day++) {
+        const samples = days.get(day);
+        if (samples) {
+          previous = RATE_METRICS.has(metric)
+            ? this.mean(samples)
+            : samples.reduce((sum, v) => sum + v, 0);
+        }
+        if (previous !== undefined) {
+          series.push(previous);
+        }
+      }
+
+      values[metric] = series;
+    });
+
+    const lastDate = Number.isFinite(lastDay)
+      ? new Date(lastDay * DAY_MS)
+      : new Date(dataset.campaign.startDate);
+
+    return { values, lastDate };
+  }
+
+  /**
+   * Score confidence from history length, data quality and in-sample fit
+   */
+  private calculateConfidenceScore(fit: HoltWintersFit, values: number[], dataQuality: number): number {
+    const coverage = Math.min(1, fit.observations / (this.config.seasonLength * 4));
+    const scale = Math.abs(this.mean(values)) || 1;
+    const precision = 1 / (1 + fit.residualStdDev / scale);
+
+    const score = 0.4 + 0.25 * coverage + 0.15 * dataQuality + 0.2 * precision;
+    return Math.round(Math.min(0.9, Math.max(0.3, score)) * 1000) / 1000;
+  }
+
+  private calculateFeatureImportance(fit: HoltWintersFit, horizonDays: number): FeatureImportance[] {
+    const seasonalAmplitude = fit.seasonal
+      ? Math.max(...fit.seasonals) - Math.min(...fit.seasonals)
+      : 0;
+    const trendMagnitude = Math.abs(fit.trend) * horizonDays;
+    const levelMagnitude = Math.abs(fit.level) || 1;
+
+    const raw = {
+      historical_performance: levelMagnitude,
+      trend: trendMagnitude,
+      weekly_seasonality: seasonalAmplitude
+    };
+    const total = raw.historical_performance + raw.trend + raw.weekly_seasonality;
+
+    return [
+      { feature: 'historical_performance', importance: raw.historical_performance / total, category: 'campaign' as const },
+      { feature: 'trend', importance: raw.trend / total, category: 'temporal' as const },
+      { feature: 'weekly_seasonality', importance: raw.weekly_seasonality / total, category: 'temporal' as const }
+    ].filter(feature => feature.importance > 0);
+  }
+
+  private clamp(metric: string, value: number): number {
+    // ROI can be negative, down to losing the whole spend
+    const nonNegative = Math.max(metric === 'roi' ? -1 : 0, value);
+    return BOUNDED_METRICS.has(metric) ? Math.min(1, nonNegative) : nonNegative;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+}
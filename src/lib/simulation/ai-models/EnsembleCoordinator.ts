@@ -11,15 +11,22 @@ import {
   ConfidenceInterval, 
   FeatureImportance, 
   ModelMetadata,
-  EnrichedDataset
+  EnrichedDataset,
+  SegmentEnsembleWeights
 } from '../../../types/simulation';
 import { SimulationError } from '../errors';
+import {
+  LearnedWeightSegment,
+  forecastHorizon,
+  resolveLearnedWeights
+} from './LearnedEnsembleWeights';
 
 export interface EnsembleConfig {
   models: EnsembleModelConfig[];
   weightingStrategy: 'static' | 'dynamic' | 'confidence_based' | 'performance_based';
   confidenceThreshold: number;
   fallbackStrategy: 'best_model' | 'average' | 'weighted_average';
+  learnedWeights?: LearnedWeightSegment[]; // tracked-accuracy weights used by 'performance_based'
 }
 
 export interface EnsembleModelConfig {
@@ -92,8 +99,9 @@ export class EnsembleCoordinator {
     // Calculate dynamic weights based on strategy
     const weights = this.calculateDynamicWeights(validPredictions, dataset);
 
-    // Combine trajectories using weighted ensemble
-    const ensembleTrajectories = this.combineTrajectories(validPredictions, weights);
+    // Combine trajectories using weighted ensemble, noting the learned weights applied
+    const segmentWeights = new Map<string, SegmentEnsembleWeights>();
+    const ensembleTrajectories = this.combineTrajectories(validPredictions, weights, segmentWeights, dataset);
 
     // Combine confidence intervals
     const ensembleConfidenceIntervals = this.combineConfidenceIntervals(validPredictions, weights);
@@ -102,7 +110,7 @@ export class EnsembleCoordinator {
     const ensembleFeatureImportance = this.aggregateFeatureImportance(validPredictions, weights);
 
     // Calculate ensemble metadata
-    const ensembleMetadata = this.calculateEnsembleMetadata(validPredictions, weights);
+    const ensembleMetadata = this.calculateEnsembleMetadata(validPredictions, weights, [...segmentWeights.values()]);
 
     return {
       trajectories: ensembleTrajectories,
@@ -151,7 +159,7 @@ export class EnsembleCoordinator {
         return this.calculateConfidenceBasedWeights(predictions);
       
       case 'performance_based':
-        return this.calculatePerformanceBasedWeights(predictions);
+        return this.calculatePerformanceBasedWeights(predictions, dataset);
       
       case 'dynamic':
       default:
@@ -212,9 +220,15 @@ export class EnsembleCoordinator {
   }
 
   /**
-   * Calculate weights based on historical model performance
+   * Calculate weights based on historical model performance, preferring the
+   * weights learned from tracked accuracy for the campaign's category
    */
-  private calculatePerformanceBasedWeights(predictions: ModelPrediction[]): EnsembleWeights {
+  private calculatePerformanceBasedWeights(predictions: ModelPrediction[], dataset?: EnrichedDataset): EnsembleWeights {
+    const learned = this.getLearnedWeights(predictions.map(p => p.modelName), dataset);
+    if (learned) {
+      return learned;
+    }
+
     const weights: EnsembleWeights = {};
     let totalPerformance = 0;
 
@@ -242,6 +256,31 @@ export class EnsembleCoordinator {
     return weights;
   }
 
+  /**
+   * Learned weights of the models for the dataset's campaign category,
+   * optionally narrowed to a metric and a forecast day
+   */
+  private getLearnedWeights(
+    modelNames: string[],
+    dataset?: EnrichedDataset,
+    metric?: string,
+    daysAhead?: number
+  ): EnsembleWeights | null {
+    if (
+      this.config.weightingStrategy !== 'performance_based' ||
+      !this.config.learnedWeights?.length ||
+      !dataset?.campaign.category
+    ) {
+      return null;
+    }
+
+    return resolveLearnedWeights(this.config.learnedWeights, modelNames, {
+      category: dataset.campaign.category,
+      metric,
+      horizon: daysAhead !== undefined ? forecastHorizon(daysAhead) : undefined
+    });
+  }
+
   /**
    * Calculate adaptive weights considering multiple factors
    */
@@ -309,6 +348,7 @@ export class EnsembleCoordinator {
       case 'huggingface':
       case 'prophet':
       case 'lstm':
+      case 'baseline':
         // Time-series models need higher data quality
         return dataQuality.overall;
       
@@ -320,7 +360,12 @@ export class EnsembleCoordinator {
   /**
    * Combine trajectories from multiple models using weighted ensemble
    */
-  private combineTrajectories(predictions: ModelPrediction[], weights: EnsembleWeights): TrajectoryPoint[] {
+  private combineTrajectories(
+    predictions: ModelPrediction[],
+    weights: EnsembleWeights,
+    segmentWeights: Map<string, SegmentEnsembleWeights> = new Map(),
+    dataset?: EnrichedDataset
+  ): TrajectoryPoint[] {
     if (predictions.length === 0) return [];
 
     // Find the maximum trajectory length
@@ -328,7 +373,7 @@ export class EnsembleCoordinator {
     const ensembleTrajectories: TrajectoryPoint[] = [];
 
     for (let i = 0; i < maxLength; i++) {
-      const trajectoryPoint = this.combineTrajectoryPoint(predictions, weights, i);
+      const trajectoryPoint = this.combineTrajectoryPoint(predictions, weights, i, segmentWeights, dataset);
       if (trajectoryPoint) {
         ensembleTrajectories.push(trajectoryPoint);
       }
@@ -338,14 +383,17 @@ export class EnsembleCoordinator {
   }
 
   /**
-   * Combine a single trajectory point from multiple models
+   * Combine a single trajectory point from multiple models. Learned weights
+   * applied to a metric are noted in segmentWeights, once per horizon.
    */
   private combineTrajectoryPoint(
     predictions: ModelPrediction[], 
     weights: EnsembleWeights, 
-    index: number
+    index: number,
+    segmentWeights: Map<string, SegmentEnsembleWeights>,
+    dataset?: EnrichedDataset
   ): TrajectoryPoint | null {
-    const validPoints: { point: TrajectoryPoint; weight: number }[] = [];
+    const validPoints: { modelName: string; point: TrajectoryPoint; weight: number }[] = [];
     let totalWeight = 0;
 
     // Collect valid trajectory points at this index
@@ -353,7 +401,7 @@ export class EnsembleCoordinator {
       if (index < prediction.prediction.trajectories.length) {
         const point = prediction.prediction.trajectories[index];
         const weight = weights[prediction.modelName] || 0;
-        validPoints.push({ point, weight });
+        validPoints.push({ modelName: prediction.modelName, point, weight });
         totalWeight += weight;
       }
     });
@@ -374,20 +422,33 @@ export class EnsembleCoordinator {
       Object.keys(point.metrics).forEach(key => allMetricKeys.add(key));
     });
 
-    // Calculate weighted average for each metric
+    // Calculate weighted average for each metric; learned weights are specific
+    // to the metric and how far ahead the point is
     allMetricKeys.forEach(metricKey => {
       let weightedSum = 0;
       let metricTotalWeight = 0;
-
-      validPoints.forEach(({ point, weight }) => {
-        if (point.metrics[metricKey] !== undefined) {
-          weightedSum += point.metrics[metricKey] * weight;
-          metricTotalWeight += weight;
-        }
+      const reporting = validPoints.filter(({ point }) => point.metrics[metricKey] !== undefined);
+      const learned = this.getLearnedWeights(reporting.map(p => p.modelName), dataset, metricKey, index + 1);
+      const applied: EnsembleWeights = {};
+
+      reporting.forEach(({ modelName, point, weight }) => {
+        const metricWeight = learned?.[modelName] ?? weight;
+        weightedSum += point.metrics[metricKey] * metricWeight;
+        metricTotalWeight += metricWeight;
+        applied[modelName] = metricWeight;
       });
 
       if (metricTotalWeight > 0) {
         combinedMetrics[metricKey] = weightedSum / metricTotalWeight;
+
+        const horizon = forecastHorizon(index + 1);
+        const segment = `${metricKey}:${horizon}`;
+        if (learned && !segmentWeights.has(segment)) {
+          Object.keys(applied).forEach(modelName => {
+            applied[modelName] = applied[modelName] / metricTotalWeight;
+          });
+          segmentWeights.set(segment, { metric: metricKey, horizon, weights: applied });
+        }
       }
     });
 
@@ -532,7 +593,8 @@ export class EnsembleCoordinator {
    */
   private calculateEnsembleMetadata(
     predictions: ModelPrediction[], 
-    weights: EnsembleWeights
+    weights: EnsembleWeights,
+    segmentWeights: SegmentEnsembleWeights[] = []
   ): ModelMetadata {
     const totalProcessingTime = predictions.reduce((sum, p) => sum + p.processingTime, 0);
     const avgConfidence = predictions.reduce((sum, p) => sum + p.confidence, 0) / predictions.length;
@@ -556,7 +618,10 @@ export class EnsembleCoordinator {
         overall: 0.8
       },
       feature_count: Math.max(...predictions.map(p => p.prediction.model_metadata.feature_count)),
-      prediction_horizon: Math.max(...predictions.map(p => p.prediction.model_metadata.prediction_horizon))
+      prediction_horizon: Math.max(...predictions.map(p => p.prediction.model_metadata.prediction_horizon)),
+      ensemble_weights: { ...weights },
+      ...(segmentWeights.length > 0 ? { segment_ensemble_weights: segmentWeights } : {}),
+      weighting_strategy: this.config.weightingStrategy
     };
   }
 
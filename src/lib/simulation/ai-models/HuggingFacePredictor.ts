@@ -16,6 +16,14 @@ import {
   PerformanceMetric,
 } from "../../../types/simulation";
 import { SimulationError } from "../errors";
+import { ModelCallIdentity } from "../caching/ModelResponseCache";
+
+const HUGGINGFACE_BASE_URL = "https://api-inference.huggingface.co";
+
+// Days forecast after the history when the dataset has no forecast window
+const DEFAULT_FORECAST_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface HuggingFaceConfig {
   apiKey: string;
@@ -75,7 +83,7 @@ export class HuggingFacePredictor {
   constructor(config: HuggingFaceConfig) {
     this.config = {
       ...config,
-      baseUrl: config.baseUrl || "https://api-inference.huggingface.co",
+      baseUrl: config.baseUrl || HUGGINGFACE_BASE_URL,
       timeout: config.timeout || 30000,
       models: config.models || {
         prophet: "facebook/prophet",
@@ -85,6 +93,17 @@ export class HuggingFacePredictor {
     };
   }
 
+  /**
+   * What a prediction depends on besides the dataset, for the model response cache
+   */
+  describeCall(): ModelCallIdentity {
+    const { prophet, lstm, sentiment } = this.config.models;
+    return {
+      provider: this.config.baseUrl === HUGGINGFACE_BASE_URL ? "huggingface" : this.config.baseUrl,
+      model: [prophet, lstm, sentiment].join(","),
+    };
+  }
+
   /**
    * Generate performance trajectories using Hugging Face models
    */
@@ -97,15 +116,16 @@ export class HuggingFacePredictor {
 
       // Prepare time series data for Prophet
       const timeSeriesData = this.prepareTimeSeriesData(dataset);
+      const periods = this.forecastPeriods(timeSeriesData, dataset);
 
       // Prepare creative data for sentiment analysis
       const creativeData = this.prepareCreativeData(dataset);
 
       // Run Prophet forecasting
-      const prophetForecasts = await this.runProphetForecasting(timeSeriesData);
+      const prophetForecasts = await this.runProphetForecasting(timeSeriesData, periods);
 
       // Run LSTM predictions
-      const lstmPredictions = await this.runLSTMForecasting(timeSeriesData);
+      const lstmPredictions = await this.runLSTMForecasting(timeSeriesData, periods);
 
       // Run sentiment analysis on creative content
       const sentimentAnalysis = await this.runSentimentAnalysis(creativeData);
@@ -141,11 +161,7 @@ export class HuggingFacePredictor {
           processing_time: processingTime,
           data_quality: dataset.dataQuality,
           feature_count: Object.keys(timeSeriesData[0] || {}).length,
-          prediction_horizon: Math.ceil(
-            (dataset.campaign.endDate.getTime() -
-              dataset.campaign.startDate.getTime()) /
-              (1000 * 60 * 60 * 24)
-          ),
+          prediction_horizon: periods,
         },
       };
     } catch (error) {
@@ -211,6 +227,13 @@ export class HuggingFacePredictor {
       performanceByDate.get(dateKey)![metric.metric] = metric.value;
     });
 
+    // Recorded spend per day, so conversions can be related to what they cost
+    const spendByDate = new Map<string, number>();
+    dataset.budgetAllocation.dailySpend?.forEach((record) => {
+      const dateKey = record.date.toISOString().split("T")[0];
+      spendByDate.set(dateKey, (spendByDate.get(dateKey) ?? 0) + record.amount);
+    });
+
     // Convert to Prophet format
     performanceByDate.forEach((metrics, date) => {
       // Use CTR as primary target variable, fallback to impressions or first available metric
@@ -227,6 +250,15 @@ export class HuggingFacePredictor {
         creative_count: dataset.creativeAssets.length,
       };
 
+      // Add conversion economics for ROI, ROAS and CPA
+      if (metrics.conversions !== undefined) {
+        dataPoint.conversions = metrics.conversions;
+      }
+      dataPoint.spend = spendByDate.get(date) ?? 0;
+      if (dataset.campaign.conversionValue !== undefined) {
+        dataPoint.conversion_value = dataset.campaign.conversionValue;
+      }
+
       // Add market volatility if available
       if (dataset.marketData?.marketVolatility) {
         dataPoint.market_volatility =
@@ -258,16 +290,38 @@ export class HuggingFacePredictor {
       .filter((content) => content && content.length > 0);
   }
 
+  /**
+   * Days to forecast after the last history day: through the end of the
+   * forecast window, or a fixed horizon without one
+   */
+  private forecastPeriods(
+    timeSeriesData: TimeSeriesData[],
+    dataset: EnrichedDataset
+  ): number {
+    const window = dataset.forecastWindow;
+    if (!window) {
+      return DEFAULT_FORECAST_DAYS;
+    }
+
+    const lastDate = timeSeriesData.reduce(
+      (latest, point) => Math.max(latest, new Date(point.ds).getTime()),
+      -Infinity
+    );
+    const from = Number.isFinite(lastDate) ? lastDate : window.start.getTime();
+    return Math.max(1, Math.floor((window.end.getTime() - from) / DAY_MS));
+  }
+
   /**
    * Run Prophet forecasting via Hugging Face API
    */
   private async runProphetForecasting(
-    timeSeriesData: TimeSeriesData[]
+    timeSeriesData: TimeSeriesData[],
+    periods: number = DEFAULT_FORECAST_DAYS
   ): Promise<ProphetForecast[]> {
     try {
       const response = await this.callHuggingFaceAPI("prophet", {
         data: timeSeriesData,
-        periods: 30, // Forecast 30 days ahead
+        periods,
         freq: "D", // Daily frequency
         include_history: false,
       });
@@ -288,7 +342,8 @@ export class HuggingFacePredictor {
    * Run LSTM forecasting via Hugging Face API
    */
   private async runLSTMForecasting(
-    timeSeriesData: TimeSeriesData[]
+    timeSeriesData: TimeSeriesData[],
+    predictionLength: number = DEFAULT_FORECAST_DAYS
   ): Promise<LSTMPrediction[]> {
     try {
       // Prepare LSTM input format
@@ -304,7 +359,7 @@ export class HuggingFacePredictor {
           point.month || 0,
         ]),
         parameters: {
-          prediction_length: 30,
+          prediction_length: predictionLength,
           context_length: Math.min(timeSeriesData.length, 64),
         },
       };
@@ -0,0 +1,214 @@
+/**
+ * LLM Provider Layer
+ *
+ * LLM-backed features talk to a chat completion endpoint through this module
+ * rather than a vendor SDK, so an organization can point them at OpenAI or at
+ * any server speaking the OpenAI chat completions API, such as a local model
+ * gateway for clients whose data may not leave their infrastructure.
+ */
+
+import { SimulationError } from '../errors';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  // Per-request overrides of the provider configuration
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string; // model that served the request, as reported by the endpoint
+  usage?: LLMUsage;
+}
+
+/**
+ * Contract every LLM backend must satisfy
+ */
+export interface LLMProvider {
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export interface LLMProviderConfig {
+  baseUrl: string; // root of the OpenAI-compatible API, e.g. http://localhost:8080/v1
+  apiKey?: string; // omitted for local endpoints without authentication
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  jsonMode: boolean; // ask the endpoint for a JSON object response
+  timeout: number;
+}
+
+export const DEFAULT_LLM_PROVIDER_CONFIG: LLMProviderConfig = {
+  baseUrl: OPENAI_BASE_URL,
+  model: 'gpt-4o',
+  temperature: 0.3,
+  maxTokens: 4000,
+  jsonMode: true,
+  timeout: 30000
+};
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Provider for OpenAI and any server implementing its chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private config: LLMProviderConfig;
+
+  constructor(config: Partial<LLMProviderConfig> = {}) {
+    this.config = {
+      ...DEFAULT_LLM_PROVIDER_CONFIG,
+      ...config,
+      baseUrl: (config.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '')
+    };
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const jsonMode = request.jsonMode ?? this.config.jsonMode;
+    const body = {
+      model: this.config.model,
+      messages: request.messages,
+      temperature: request.temperature ?? this.config.temperature,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+    };
+
+    // The timeout covers reading the body too, so a stalled response fails
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+    let payload: ChatCompletionResponse;
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (error) {
+        throw this.timeoutOr(
+          controller.signal,
+          this.createError(
+            `LLM endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`,
+            'model_unavailable',
+            'LLM_UNREACHABLE',
+            true
+          )
+        );
+      }
+
+      try {
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw this.classifyHttpError(response.status, errorText);
+        }
+        payload = (await response.json()) as ChatCompletionResponse;
+      } catch (error) {
+        throw this.timeoutOr(controller.signal, error);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const content = payload.choices?.[0]?.message?.content;
+    if (!content) {
+      throw this.createError('Empty response from LLM endpoint', 'api_error', 'LLM_EMPTY_RESPONSE', true);
+    }
+
+    return {
+      content,
+      model: payload.model || this.config.model,
+      ...(payload.usage
+        ? {
+            usage: {
+              promptTokens: payload.usage.prompt_tokens ?? 0,
+              completionTokens: payload.usage.completion_tokens ?? 0,
+              totalTokens:
+                payload.usage.total_tokens ??
+                (payload.usage.prompt_tokens ?? 0) + (payload.usage.completion_tokens ?? 0)
+            }
+          }
+        : {})
+    };
+  }
+
+  /**
+   * The timeout error when the request was aborted by the timer, else the error
+   */
+  private timeoutOr(signal: AbortSignal, error: unknown): unknown {
+    return signal.aborted
+      ? this.createError(`LLM request timeout after ${this.config.timeout}ms`, 'api_timeout', 'LLM_TIMEOUT', true)
+      : error;
+  }
+
+  private classifyHttpError(status: number, errorText: string): SimulationError {
+    const message = `HTTP ${status}: ${errorText}`;
+
+    if (status === 429) {
+      return this.createError(message, 'rate_limit_exceeded', 'LLM_RATE_LIMITED', true, status);
+    }
+    if (status === 404 || status >= 500) {
+      return this.createError(message, 'model_unavailable', 'LLM_UNAVAILABLE', true, status);
+    }
+    return this.createError(message, 'api_error', 'LLM_REQUEST_FAILED', false, status);
+  }
+
+  private createError(
+    message: string,
+    type: string,
+    code: string,
+    retryable: boolean,
+    status?: number
+  ): SimulationError {
+    return new SimulationError(message, type, code, retryable, {
+      baseUrl: this.config.baseUrl,
+      model: this.config.model,
+      ...(status !== undefined ? { status } : {})
+    });
+  }
+}
+
+/**
+ * Create the provider for a configuration. Every supported backend speaks the
+ * OpenAI chat completions API; only the endpoint and credentials differ.
+ */
+export function createLLMProvider(config: Partial<LLMProviderConfig> = {}): LLMProvider {
+  return new OpenAICompatibleProvider(config);
+}
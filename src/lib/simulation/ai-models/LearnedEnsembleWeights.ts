@@ -0,0 +1,206 @@
+/**
+ * Learned Ensemble Weights
+ *
+ * Turns the tracked accuracy of each model's past forecasts into ensemble
+ * weights. Accuracy is broken down by campaign category, metric and forecast
+ * horizon, so a model that is consistently wrong for one kind of campaign
+ * loses weight there without being penalized elsewhere.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Segment dimension that matches any category, metric or horizon
+export const ANY_SEGMENT = '*';
+
+const DEFAULT_MIN_SAMPLES = 5;
+
+// Error floor so a near-perfect model cannot take the whole ensemble
+const MIN_ERROR = 0.02;
+
+export type ForecastHorizon = 'short' | 'medium' | 'long';
+
+/**
+ * One forecast point of one model, compared with what actually happened
+ */
+export interface ForecastAccuracySample {
+  modelName: string;
+  category: string; // campaign category, e.g. 'pr'
+  metric: string;
+  horizon: ForecastHorizon;
+  predictedValue: number;
+  actualValue: number;
+}
+
+export interface ModelAccuracySummary {
+  modelName: string;
+  samples: number;
+  mape: number; // Mean Absolute Percentage Error, in percent
+  rmse: number; // Root Mean Square Error
+}
+
+export interface LearnedWeightSegment {
+  category: string; // or ANY_SEGMENT
+  metric: string; // or ANY_SEGMENT
+  horizon: ForecastHorizon | typeof ANY_SEGMENT;
+  weights: Record<string, number>; // sum to 1 across the segment's models
+  accuracy: ModelAccuracySummary[];
+}
+
+export interface LearnEnsembleWeightsOptions {
+  minSamples?: number; // samples a model needs in a segment before it is weighted there
+}
+
+export interface LearnedWeightLookup {
+  category: string;
+  metric?: string; // any metric when omitted
+  horizon?: ForecastHorizon; // any horizon when omitted
+}
+
+/**
+ * Horizon bucket of a forecast point made `daysAhead` days into the forecast
+ */
+export function forecastHorizon(daysAhead: number): ForecastHorizon {
+  if (daysAhead <= 7) return 'short';
+  if (daysAhead <= 28) return 'medium';
+  return 'long';
+}
+
+/**
+ * Horizon bucket of a forecast point, counted from the first forecast date
+ */
+export function forecastHorizonBetween(firstDate: Date, date: Date): ForecastHorizon {
+  return forecastHorizon(Math.floor((date.getTime() - firstDate.getTime()) / DAY_MS) + 1);
+}
+
+/**
+ * Learn ensemble weights from accuracy samples. Segments are learned per
+ * category, metric and horizon, and rolled up per category and metric, per
+ * category, and overall. Within a segment each model is weighted by the
+ * inverse of its error, the mean of its MAPE and its RMSE relative to the
+ * actual values.
+ */
+export function learnEnsembleWeights(
+  samples: ForecastAccuracySample[],
+  options: LearnEnsembleWeightsOptions = {}
+): LearnedWeightSegment[] {
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const groups = new Map<string, { segment: Omit<LearnedWeightSegment, 'weights' | 'accuracy'>; samples: ForecastAccuracySample[] }>();
+
+  for (const sample of samples) {
+    if (!Number.isFinite(sample.predictedValue) || !Number.isFinite(sample.actualValue)) {
+      continue;
+    }
+
+    for (const segment of segmentsOf(sample)) {
+      const key = segmentKey(segment);
+      const group = groups.get(key) ?? { segment, samples: [] };
+      group.samples.push(sample);
+      groups.set(key, group);
+    }
+  }
+
+  const learned: LearnedWeightSegment[] = [];
+  groups.forEach(({ segment, samples: segmentSamples }) => {
+    const byModel = new Map<string, ForecastAccuracySample[]>();
+    segmentSamples.forEach(sample => {
+      byModel.set(sample.modelName, [...(byModel.get(sample.modelName) ?? []), sample]);
+    });
+
+    const accuracy: ModelAccuracySummary[] = [];
+    const scores: Record<string, number> = {};
+    byModel.forEach((modelSamples, modelName) => {
+      if (modelSamples.length < minSamples) return;
+
+      const summary = summarizeAccuracy(modelName, modelSamples);
+      accuracy.push(summary);
+      scores[modelName] = 1 / Math.max(MIN_ERROR, relativeError(summary, modelSamples));
+    });
+
+    if (accuracy.length === 0) return;
+
+    const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+    learned.push({
+      ...segment,
+      weights: Object.fromEntries(
+        Object.entries(scores).map(([modelName, score]) => [modelName, score / total])
+      ),
+      accuracy: accuracy.sort((a, b) => a.modelName.localeCompare(b.modelName))
+    });
+  });
+
+  return learned.sort((a, b) => segmentKey(a).localeCompare(segmentKey(b)));
+}
+
+/**
+ * Weights for a set of models from the most specific segment that has
+ * learned a weight for every one of them, or null when none has
+ */
+export function resolveLearnedWeights(
+  segments: LearnedWeightSegment[],
+  modelNames: string[],
+  lookup: LearnedWeightLookup
+): Record<string, number> | null {
+  if (modelNames.length === 0) return null;
+
+  const metric = lookup.metric ?? ANY_SEGMENT;
+  const horizon = lookup.horizon ?? ANY_SEGMENT;
+  const candidates = [
+    { category: lookup.category, metric, horizon },
+    { category: lookup.category, metric, horizon: ANY_SEGMENT },
+    { category: lookup.category, metric: ANY_SEGMENT, horizon: ANY_SEGMENT },
+    { category: ANY_SEGMENT, metric: ANY_SEGMENT, horizon: ANY_SEGMENT }
+  ];
+
+  for (const candidate of candidates) {
+    const segment = segments.find(s =>
+      s.category === candidate.category && s.metric === candidate.metric && s.horizon === candidate.horizon
+    );
+    if (!segment || !modelNames.every(name => segment.weights[name] !== undefined)) {
+      continue;
+    }
+
+    const total = modelNames.reduce((sum, name) => sum + segment.weights[name], 0);
+    if (total <= 0) continue;
+
+    return Object.fromEntries(modelNames.map(name => [name, segment.weights[name] / total]));
+  }
+
+  return null;
+}
+
+function segmentsOf(sample: ForecastAccuracySample): Omit<LearnedWeightSegment, 'weights' | 'accuracy'>[] {
+  return [
+    { category: sample.category, metric: sample.metric, horizon: sample.horizon },
+    { category: sample.category, metric: sample.metric, horizon: ANY_SEGMENT },
+    { category: sample.category, metric: ANY_SEGMENT, horizon: ANY_SEGMENT },
+    { category: ANY_SEGMENT, metric: ANY_SEGMENT, horizon: ANY_SEGMENT }
+  ];
+}
+
+function segmentKey(segment: Pick<LearnedWeightSegment, 'category' | 'metric' | 'horizon'>): string {
+  return `${segment.category}|${segment.metric}|${segment.horizon}`;
+}
+
+function summarizeAccuracy(modelName: string, samples: ForecastAccuracySample[]): ModelAccuracySummary {
+  // Percentage errors are undefined where nothing happened
+  const percentageErrors = samples
+    .filter(s => s.actualValue !== 0)
+    .map(s => Math.abs(s.actualValue - s.predictedValue) / Math.abs(s.actualValue) * 100);
+  const squaredErrors = samples.map(s => Math.pow(s.actualValue - s.predictedValue, 2));
+
+  return {
+    modelName,
+    samples: samples.length,
+    mape: percentageErrors.length > 0
+      ? percentageErrors.reduce((sum, error) => sum + error, 0) / percentageErrors.length
+      : 0,
+    rmse: Math.sqrt(squaredErrors.reduce((sum, error) => sum + error, 0) / squaredErrors.length)
+  };
+}
+
+// RMSE is scaled by the mean actual value so metrics of any magnitude compare
+function relativeError(summary: ModelAccuracySummary, samples: ForecastAccuracySample[]): number {
+  const meanActual = samples.reduce((sum, s) => sum + Math.abs(s.actualValue), 0) / samples.length;
+  const normalizedRmse = meanActual > 0 ? summary.rmse / meanActual : 0;
+  return (summary.mape / 100 + normalizedRmse) / 2;
+}
@@ -0,0 +1,299 @@
+/**
+ * Model Registry for AI Predictors
+ *
+ * This module keeps track of the predictors available to the simulation
+ * engine and runs them behind a single predict contract, so their outputs
+ * can be combined by the EnsembleCoordinator.
+ */
+
+import {
+  EnrichedDataset,
+  PredictionOutput
+} from '../../../types/simulation';
+import { RetryManager, SimulationError } from '../errors';
+import { EnsembleConfig, EnsembleModelConfig, ModelPrediction } from './EnsembleCoordinator';
+import { OpenAIPredictor, OpenAIConfig } from './OpenAIPredictor';
+import { HuggingFacePredictor, HuggingFaceConfig } from './HuggingFacePredictor';
+import { BaselineForecaster, BaselineForecasterConfig } from './BaselineForecaster';
+import { OPENAI_BASE_URL } from './LLMProvider';
+import { ModelCallIdentity, ModelResponseCache } from '../caching/ModelResponseCache';
+
+/**
+ * Contract every predictor must satisfy to take part in a simulation
+ */
+export interface AIPredictor {
+  predict(dataset: EnrichedDataset): Promise<PredictionOutput>;
+  // What predict depends on besides the dataset; predictors without it are never memoized
+  describeCall?(): ModelCallIdentity;
+}
+
+export interface RegisteredModel extends EnsembleModelConfig {
+  predictor: AIPredictor;
+}
+
+export type ModelRegistrationOptions = Partial<Omit<EnsembleModelConfig, 'name'>>;
+
+export interface ModelRunFailure {
+  modelName: string;
+  error: Error;
+}
+
+export interface ModelRunResult {
+  predictions: ModelPrediction[];
+  failures: ModelRunFailure[];
+}
+
+/**
+ * Callbacks for following individual model calls during runAll
+ */
+export interface ModelRunListener {
+  onModelStart?(modelName: string): void | Promise<void>;
+  onModelComplete?(modelName: string, prediction: ModelPrediction): void | Promise<void>;
+  onModelError?(modelName: string, error: Error): void | Promise<void>;
+}
+
+export interface DefaultModelRegistryOptions {
+  // LLM predictor; a baseUrl other than OpenAI targets an OpenAI-compatible server
+  openai?: Partial<OpenAIConfig>;
+  huggingface?: Partial<HuggingFaceConfig> & { apiKey: string };
+  baseline?: Partial<BaselineForecasterConfig> | false;
+  responseCache?: ModelResponseCache;
+}
+
+export interface ModelRegistryOptions {
+  // Memoizes calls of predictors that describe them, across simulations
+  responseCache?: ModelResponseCache;
+}
+
+export class ModelRegistry {
+  private models: Map<string, RegisteredModel> = new Map();
+  private responseCache?: ModelResponseCache;
+
+  constructor(options: ModelRegistryOptions = {}) {
+    this.responseCache = options.responseCache;
+  }
+
+  /**
+   * Register a predictor under a unique model name
+   */
+  register(name: string, predictor: AIPredictor, options: ModelRegistrationOptions = {}): void {
+    if (this.models.has(name)) {
+      throw new SimulationError(
+        `Model already registered: ${name}`,
+        'validation_error',
+        'DUPLICATE_MODEL',
+        false,
+        { modelName: name }
+      );
+    }
+
+    this.models.set(name, {
+      name,
+      predictor,
+      weight: options.weight ?? 1,
+      confidenceWeight: options.confidenceWeight ?? 0.5,
+      enabled: options.enabled ?? true,
+      fallbackPriority: options.fallbackPriority ?? this.models.size + 1
+    });
+  }
+
+  /**
+   * Remove a predictor from the registry
+   */
+  unregister(name: string): boolean {
+    return this.models.delete(name);
+  }
+
+  /**
+   * Enable or disable a registered predictor without removing it
+   */
+  setEnabled(name: string, enabled: boolean): void {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new SimulationError(
+        `Model not registered: ${name}`,
+        'model_unavailable',
+        'MODEL_NOT_FOUND',
+        false,
+        { modelName: name }
+      );
+    }
+
+    model.enabled = enabled;
+  }
+
+  get(name: string): RegisteredModel | undefined {
+    return this.models.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  /**
+   * List all registered models ordered by fallback priority
+   */
+  listModels(): RegisteredModel[] {
+    return Array.from(this.models.values()).sort(
+      (a, b) => a.fallbackPriority - b.fallbackPriority
+    );
+  }
+
+  getEnabledModels(): RegisteredModel[] {
+    return this.listModels().filter(model => model.enabled);
+  }
+
+  /**
+   * Build an ensemble configuration from the registered models
+   */
+  getEnsembleConfig(overrides: Partial<EnsembleConfig> = {}): EnsembleConfig {
+    return {
+      models: this.listModels().map(({ name, weight, confidenceWeight, enabled, fallbackPriority }) => ({
+        name,
+        weight,
+        confidenceWeight,
+        enabled,
+        fallbackPriority
+      })),
+      weightingStrategy: 'dynamic',
+      confidenceThreshold: 0.6,
+      fallbackStrategy: 'weighted_average',
+      ...overrides
+    };
+  }
+
+  /**
+   * Run every enabled predictor against the dataset.
+   * Failures are collected rather than thrown so that one unavailable
+   * provider does not sink the whole simulation.
+   */
+  async runAll(
+    dataset: EnrichedDataset,
+    timeoutMs?: number,
+    listener: ModelRunListener = {}
+  ): Promise<ModelRunResult> {
+    const models = this.getEnabledModels();
+    const predictions: ModelPrediction[] = [];
+    const failures: ModelRunFailure[] = [];
+
+    const settled = await Promise.allSettled(
+      models.map(model => this.runObservedModel(model, dataset, timeoutMs, listener))
+    );
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        predictions.push(outcome.value);
+      } else {
+        failures.push({
+          modelName: models[index].name,
+          error: outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason))
+        });
+      }
+    });
+
+    return { predictions, failures };
+  }
+
+  private async runObservedModel(
+    model: RegisteredModel,
+    dataset: EnrichedDataset,
+    timeoutMs: number | undefined,
+    listener: ModelRunListener
+  ): Promise<ModelPrediction> {
+    await listener.onModelStart?.(model.name);
+
+    try {
+      const prediction = await this.runModel(model, dataset, timeoutMs);
+      await listener.onModelComplete?.(model.name, prediction);
+      return prediction;
+    } catch (error) {
+      const runError = error instanceof Error ? error : new Error(String(error));
+      await listener.onModelError?.(model.name, runError);
+      throw runError;
+    }
+  }
+
+  private async runModel(
+    model: RegisteredModel,
+    dataset: EnrichedDataset,
+    timeoutMs?: number
+  ): Promise<ModelPrediction> {
+    const startTime = Date.now();
+    const predict = () => timeoutMs
+      ? RetryManager.withTimeout(() => model.predictor.predict(dataset), timeoutMs)
+      : model.predictor.predict(dataset);
+
+    const identity = this.responseCache ? model.predictor.describeCall?.() : undefined;
+    const prediction = identity
+      ? await this.responseCache!.getOrPredict(identity, dataset, predict)
+      : await predict();
+
+    return {
+      modelName: model.name,
+      prediction,
+      weight: model.weight,
+      confidence: prediction.model_metadata.confidence_score,
+      processingTime: prediction.model_metadata.processing_time || Date.now() - startTime
+    };
+  }
+}
+
+/**
+ * Create a registry with the built-in predictors for which credentials are available.
+ * A self-hosted LLM endpoint needs no credentials, and never receives the
+ * OpenAI key from the environment. With a self-hosted endpoint, campaign data
+ * stays on-prem: the hosted HuggingFace API is only called when its settings
+ * are passed explicitly. The offline baseline is always registered unless
+ * explicitly disabled.
+ */
+export function createDefaultModelRegistry(options: DefaultModelRegistryOptions = {}): ModelRegistry {
+  const registry = new ModelRegistry({ responseCache: options.responseCache });
+
+  const llmBaseUrl = options.openai?.baseUrl || OPENAI_BASE_URL;
+  const selfHosted = llmBaseUrl !== OPENAI_BASE_URL;
+  const openaiKey = options.openai?.apiKey || (selfHosted ? undefined : process.env.OPENAI_API_KEY);
+  if (openaiKey || selfHosted) {
+    registry.register(
+      'openai',
+      new OpenAIPredictor({
+        model: 'gpt-4o',
+        temperature: 0.3,
+        maxTokens: 4000,
+        timeout: 30000,
+        ...options.openai,
+        baseUrl: llmBaseUrl,
+        ...(openaiKey ? { apiKey: openaiKey } : {})
+      }),
+      { weight: 0.5, confidenceWeight: 0.4, fallbackPriority: 1 }
+    );
+  }
+
+  const huggingfaceKey = options.huggingface?.apiKey || (selfHosted ? undefined : process.env.HUGGINGFACE_API_KEY);
+  if (huggingfaceKey) {
+    registry.register(
+      'huggingface',
+      new HuggingFacePredictor({
+        baseUrl: 'https://api-inference.huggingface.co',
+        timeout: 30000,
+        models: {
+          prophet: 'facebook/prophet',
+          lstm: 'huggingface/time-series-transformer',
+          sentiment: 'cardiffnlp/twitter-roberta-base-sentiment-latest'
+        },
+        ...options.huggingface,
+        apiKey: huggingfaceKey
+      }),
+      { weight: 0.5, confidenceWeight: 0.6, fallbackPriority: 2 }
+    );
+  }
+
+  if (options.baseline !== false) {
+    registry.register(
+      'baseline',
+      new BaselineForecaster(options.baseline),
+      { weight: 0.2, confidenceWeight: 0.5, fallbackPriority: 3 }
+    );
+  }
+
+  return registry;
+}
@@ -1,11 +1,11 @@
 /**
- * OpenAI GPT-4o Integration for Campaign Performance Prediction
+ * LLM Integration for Campaign Performance Prediction
  * 
- * This module implements the OpenAI GPT-4o integration for generating
- * campaign performance trajectories and scenario predictions.
+ * This module generates campaign performance trajectories and scenario
+ * predictions with GPT-4o, or any model served behind an OpenAI-compatible
+ * endpoint through the LLM provider layer.
  */
 
-import OpenAI from 'openai';
 import { 
   EnrichedDataset, 
   PredictionOutput, 
@@ -14,17 +14,36 @@ import {
   FeatureImportance, 
   ModelMetadata,
   ModelError,
-  PerformanceMetric
+  PerformanceMetric,
+  TokenUsage
 } from '../../../types/simulation';
 import { SimulationError } from '../errors';
+import { createLLMProvider, LLMCompletion, LLMProvider, LLMUsage, OPENAI_BASE_URL } from './LLMProvider';
+import {
+  CAMPAIGN_FORECAST_PROMPT,
+  getPromptTemplate,
+  PromptTemplate,
+  promptReference,
+  renderPrompt,
+  RenderedPrompt
+} from './prompts/PromptTemplates';
+import { ModelCallIdentity } from '../caching/ModelResponseCache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points a forecast response holds at most; longer windows get a few days per point
+export const MAX_FORECAST_POINTS = 31;
 
 export interface OpenAIConfig {
-  apiKey: string;
+  apiKey?: string; // optional for local endpoints without authentication
+  baseUrl?: string; // OpenAI-compatible endpoint; OpenAI when unset
   model: string;
   temperature: number;
   maxTokens: number;
+  jsonMode?: boolean; // request a JSON object response; on when unset
   timeout: number;
-  dangerouslyAllowBrowser?: boolean;
+  dangerouslyAllowBrowser?: boolean; // allow running in a browser, which exposes the API key
+  promptVersion?: string; // campaign forecast prompt version to use; the latest when unset
 }
 
 export interface GPTPromptContext {
@@ -34,6 +53,8 @@ export interface GPTPromptContext {
     duration: number;
     channels: string[];
     category: string;
+    kpis: string[];
+    conversionValue?: number;
   };
   audience: {
     size: number;
@@ -44,6 +65,7 @@ export interface GPTPromptContext {
     avgCTR: number;
     avgImpressions: number;
     avgEngagement: number;
+    avgConversions: number;
     trendDirection: 'increasing' | 'decreasing' | 'stable';
   };
   market: {
@@ -52,11 +74,25 @@ export interface GPTPromptContext {
     industryTrends: string;
   };
   timeframe: {
+    startDate: string;
+    endDate: string;
     days: number;
+    points: number;
+    stepDays: number; // days each point covers
     granularity: 'daily' | 'weekly';
   };
 }
 
+/**
+ * Days of the forecast window and how the response's points cover them
+ */
+export interface ForecastPlan {
+  start: Date; // UTC day the window starts on
+  days: number;
+  stepDays: number;
+  points: number;
+}
+
 export interface GPTResponse {
   trajectories: Array<{
     date: string;
@@ -64,6 +100,7 @@ export interface GPTResponse {
     impressions: number;
     engagement: number;
     reach: number;
+    conversions?: number;
     confidence: number;
   }>;
   scenarios: Array<{
@@ -80,62 +117,195 @@ export interface GPTResponse {
   reasoning: string;
 }
 
+function toTokenUsage(usage: LLMUsage): TokenUsage {
+  return {
+    input_tokens: usage.promptTokens,
+    output_tokens: usage.completionTokens
+  };
+}
+
+/**
+ * Plan the points a forecast of a window asks for. Windows longer than
+ * MAX_FORECAST_POINTS days are forecast several days per point. Exported so
+ * usage estimates price the same number of points the prompt asks for.
+ */
+export function planForecast(windowStart: Date | number, windowEnd: Date | number): ForecastPlan {
+  const startTime = new Date(windowStart).getTime();
+  const start = new Date(Math.floor(startTime / DAY_MS) * DAY_MS);
+  const days = Math.max(1, Math.floor((new Date(windowEnd).getTime() - start.getTime()) / DAY_MS) + 1);
+  const stepDays = Math.ceil(days / MAX_FORECAST_POINTS);
+
+  return { start, days, stepDays, points: Math.ceil(days / stepDays) };
+}
+
+/**
+ * Parse and validate a campaign forecast response. Exported so recorded
+ * responses can be replayed against it offline.
+ */
+export function parseGPTResponse(response: string): GPTResponse {
+  try {
+    const parsed = JSON.parse(response) as GPTResponse;
+
+    // Validate required fields
+    if (!parsed.trajectories || !Array.isArray(parsed.trajectories)) {
+      throw new Error('Invalid trajectories format');
+    }
+
+    if (!parsed.scenarios || !Array.isArray(parsed.scenarios)) {
+      throw new Error('Invalid scenarios format');
+    }
+
+    if (!parsed.feature_importance || !Array.isArray(parsed.feature_importance)) {
+      throw new Error('Invalid feature_importance format');
+    }
+
+    if (typeof parsed.confidence_score !== 'number' || 
+        parsed.confidence_score < 0 || 
+        parsed.confidence_score > 1) {
+      throw new Error('Invalid confidence_score');
+    }
+
+    // Validate trajectory data
+    for (const trajectory of parsed.trajectories) {
+      if (!trajectory.date || !trajectory.ctr || !trajectory.impressions || 
+          !trajectory.engagement || !trajectory.confidence) {
+        throw new Error('Missing required trajectory fields');
+      }
+
+      if (trajectory.confidence < 0 || trajectory.confidence > 1) {
+        throw new Error('Invalid confidence value in trajectory');
+      }
+    }
+
+    return parsed;
+
+  } catch (error) {
+    throw new SimulationError(
+      `Failed to parse GPT response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'api_error',
+      'RESPONSE_PARSE_ERROR'
+    );
+  }
+}
+
 export class OpenAIPredictor {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private config: OpenAIConfig;
+  private promptTemplate: PromptTemplate;
 
-  constructor(config: OpenAIConfig) {
+  /**
+   * @param provider - LLM backend to call; built from the config when omitted
+   */
+  constructor(config: OpenAIConfig, provider?: LLMProvider) {
     this.config = {
       ...config,
+      baseUrl: config.baseUrl || OPENAI_BASE_URL,
       model: config.model || 'gpt-4o',
       temperature: config.temperature || 0.3,
       maxTokens: config.maxTokens || 4000,
+      jsonMode: config.jsonMode ?? true,
       timeout: config.timeout || 30000
     };
 
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey,
-      timeout: this.config.timeout,
-      dangerouslyAllowBrowser: this.config.dangerouslyAllowBrowser || false,
+    if (this.config.apiKey && typeof window !== 'undefined' && !this.config.dangerouslyAllowBrowser) {
+      throw new SimulationError(
+        'Refusing to send the LLM API key from a browser; set dangerouslyAllowBrowser to override',
+        'validation_error',
+        'BROWSER_NOT_ALLOWED'
+      );
+    }
+
+    this.promptTemplate = getPromptTemplate(CAMPAIGN_FORECAST_PROMPT, this.config.promptVersion);
+
+    this.provider = provider ?? createLLMProvider({
+      baseUrl: this.config.baseUrl,
+      ...(this.config.apiKey ? { apiKey: this.config.apiKey } : {}),
+      model: this.config.model,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      jsonMode: this.config.jsonMode,
+      timeout: this.config.timeout
     });
   }
 
   /**
-   * Generate performance trajectories using GPT-4o
+   * Generate performance trajectories using the configured LLM
    */
   async predict(dataset: EnrichedDataset): Promise<PredictionOutput> {
     const startTime = Date.now();
+    let completion: LLMCompletion | undefined;
 
     try {
-      // Validate input dataset
-      this.validateDataset(dataset);
+      // Render the prompt for the dataset
+      const plan = this.forecastPlan(dataset);
+      const prompt = this.renderPrompt(dataset);
 
-      // Build context for GPT prompt
-      const context = this.buildPromptContext(dataset);
-
-      // Generate the prompt
-      const prompt = this.buildPrompt(context);
-
-      // Call OpenAI API
-      const gptResponse = await this.callOpenAI(prompt);
+      // Call the LLM endpoint
+      completion = await this.callOpenAI(prompt);
 
       // Parse and validate response
-      const parsedResponse = this.parseGPTResponse(gptResponse);
+      const parsedResponse = this.parseGPTResponse(completion.content);
 
       // Convert to standard prediction output format
       const predictionOutput = this.convertToPredictionOutput(
         parsedResponse, 
         dataset, 
-        Date.now() - startTime
+        plan,
+        Date.now() - startTime,
+        completion
       );
 
       return predictionOutput;
 
     } catch (error) {
-      throw this.handleError(error, dataset);
+      const modelError = this.handleError(error, dataset);
+      if (completion?.usage) {
+        // The endpoint answered, so the call used tokens even though it failed
+        modelError.context = {
+          ...modelError.context,
+          model: completion.model,
+          tokenUsage: toTokenUsage(completion.usage)
+        };
+      }
+      throw modelError;
     }
   }
 
+  /**
+   * What a prediction depends on besides the dataset, for the model response cache
+   */
+  describeCall(): ModelCallIdentity {
+    return {
+      provider: this.config.baseUrl === OPENAI_BASE_URL ? 'openai' : this.config.baseUrl!,
+      model: this.config.model,
+      promptVersion: promptReference(this.promptTemplate),
+      parameters: {
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens
+      }
+    };
+  }
+
+  /**
+   * Render the prompt a prediction for the dataset would send, without calling
+   * the model
+   */
+  renderPrompt(dataset: EnrichedDataset): RenderedPrompt {
+    this.validateDataset(dataset);
+    return this.buildPrompt(this.buildPromptContext(dataset));
+  }
+
+  /**
+   * Forecast the dataset's window, or the campaign's dates without one
+   */
+  private forecastPlan(dataset: EnrichedDataset): ForecastPlan {
+    const window = dataset.forecastWindow ?? {
+      start: dataset.campaign.startDate,
+      end: dataset.campaign.endDate
+    };
+    return planForecast(window.start, window.end);
+  }
+
   /**
    * Validate the input dataset has required fields
    */
@@ -166,10 +336,14 @@ export class OpenAIPredictor {
     const avgCTR = this.calculateAverage(historical, 'ctr');
     const avgImpressions = this.calculateAverage(historical, 'impressions');
     const avgEngagement = this.calculateAverage(historical, 'engagement');
+    const avgConversions = this.calculateAverage(historical, 'conversions');
 
     // Determine trend direction
     const trendDirection = this.calculateTrendDirection(historical);
 
+    const plan = this.forecastPlan(dataset);
+    const lastDay = new Date(plan.start.getTime() + (plan.days - 1) * DAY_MS);
+
     // Calculate campaign duration
     const duration = Math.ceil(
       (campaign.endDate.getTime() - campaign.startDate.getTime()) / (1000 * 60 * 60 * 24)
@@ -181,7 +355,9 @@ export class OpenAIPredictor {
         budget: campaign.budget,
         duration,
         channels: campaign.channels.map(c => c.type),
-        category: campaign.category
+        category: campaign.category,
+        kpis: campaign.kpis.map(kpi => `${kpi.type} ${kpi.target} (${kpi.timeframe})`),
+        ...(campaign.conversionValue !== undefined ? { conversionValue: campaign.conversionValue } : {})
       },
       audience: {
         size: audience.totalSize,
@@ -192,6 +368,7 @@ export class OpenAIPredictor {
         avgCTR,
         avgImpressions,
         avgEngagement,
+        avgConversions,
         trendDirection
       },
       market: {
@@ -200,152 +377,89 @@ export class OpenAIPredictor {
         industryTrends: this.summarizeIndustryTrends(market.industryBenchmarks)
       },
       timeframe: {
-        days: duration,
+        startDate: plan.start.toISOString().slice(0, 10),
+        endDate: lastDay.toISOString().slice(0, 10),
+        days: plan.days,
+        points: plan.points,
+        stepDays: plan.stepDays,
         granularity: 'daily'
       }
     };
   }
 
   /**
-   * Build the GPT-4o prompt for campaign performance prediction
+   * Fill the campaign forecast prompt template with the prompt context
    */
-  private buildPrompt(context: GPTPromptContext): string {
-    return `You are an expert digital marketing analyst with deep expertise in campaign performance prediction. Analyze the following campaign data and generate probabilistic performance trajectories.
-
-CAMPAIGN DETAILS:
-- Name: ${context.campaign.name}
-- Budget: $${context.campaign.budget.toLocaleString()}
-- Duration: ${context.campaign.duration} days
-- Channels: ${context.campaign.channels.join(', ')}
-- Category: ${context.campaign.category}
-
-AUDIENCE PROFILE:
-- Size: ${context.audience.size.toLocaleString()} people
-- Demographics: ${context.audience.demographics}
-- Interests: ${context.audience.interests.join(', ')}
-
-HISTORICAL PERFORMANCE:
-- Average CTR: ${(context.historical.avgCTR * 100).toFixed(2)}%
-- Average Impressions: ${context.historical.avgImpressions.toLocaleString()}/day
-- Average Engagement: ${(context.historical.avgEngagement * 100).toFixed(2)}%
-- Trend: ${context.historical.trendDirection}
-
-MARKET CONTEXT:
-- Competitor Activity: ${context.market.competitorActivity}
-- Seasonal Factors: ${context.market.seasonalFactors}
-- Industry Trends: ${context.market.industryTrends}
-
-TASK:
-Generate a ${context.timeframe.days}-day performance trajectory prediction with the following requirements:
-
-1. DAILY PREDICTIONS: Provide daily forecasts for CTR, impressions, engagement, and reach
-2. CONFIDENCE SCORES: Include confidence levels (0-1) for each prediction
-3. SCENARIOS: Generate optimistic (75th percentile), realistic (50th percentile), and pessimistic (25th percentile) scenarios
-4. FEATURE IMPORTANCE: Rank the importance of different factors affecting performance
-5. REASONING: Explain the key assumptions and factors driving your predictions
-
-Consider these factors in your analysis:
-- Campaign fatigue effects over time
-- Seasonal variations and market timing
-- Competitive landscape impact
-- Budget pacing and optimization curves
-- Audience saturation and expansion opportunities
-- Creative performance decay
-- Channel-specific performance patterns
-
-RESPONSE FORMAT:
-Return your analysis as a JSON object with this exact structure:
-
-{
-  "trajectories": [
-    {
-      "date": "YYYY-MM-DD",
-      "ctr": 0.025,
-      "impressions": 15000,
-      "engagement": 0.045,
-      "reach": 12000,
-      "confidence": 0.85
-    }
-  ],
-  "scenarios": [
-    {
-      "type": "optimistic",
-      "probability": 0.25,
-      "key_factors": ["Strong creative performance", "Favorable market conditions"]
-    },
-    {
-      "type": "realistic", 
-      "probability": 0.50,
-      "key_factors": ["Expected performance based on historical data"]
-    },
-    {
-      "type": "pessimistic",
-      "probability": 0.25,
-      "key_factors": ["Increased competition", "Audience fatigue"]
-    }
-  ],
-  "feature_importance": [
-    {
-      "feature": "Historical CTR",
-      "importance": 0.35,
-      "category": "campaign"
-    },
-    {
-      "feature": "Seasonal Trends",
-      "importance": 0.25,
-      "category": "temporal"
-    }
-  ],
-  "confidence_score": 0.78,
-  "reasoning": "Detailed explanation of prediction methodology and key assumptions"
-}
-
-Generate realistic, data-driven predictions that account for the complexity of digital marketing performance. Ensure all numerical values are reasonable for the given campaign parameters.`;
+  private buildPrompt(context: GPTPromptContext): RenderedPrompt {
+    return renderPrompt(this.promptTemplate, {
+      campaignName: context.campaign.name,
+      budget: `$${context.campaign.budget.toLocaleString()}`,
+      duration: String(context.campaign.duration),
+      channels: context.campaign.channels.join(', '),
+      category: context.campaign.category,
+      kpiTargets: context.campaign.kpis.join(', ') || 'none',
+      conversionValue: context.campaign.conversionValue !== undefined
+        ? `$${context.campaign.conversionValue.toLocaleString()} per conversion`
+        : 'not set',
+      audienceSize: context.audience.size.toLocaleString(),
+      demographics: context.audience.demographics,
+      interests: context.audience.interests.join(', '),
+      avgCtr: (context.historical.avgCTR * 100).toFixed(2),
+      avgImpressions: context.historical.avgImpressions.toLocaleString(),
+      avgEngagement: (context.historical.avgEngagement * 100).toFixed(2),
+      avgConversions: context.historical.avgConversions.toLocaleString(),
+      trend: context.historical.trendDirection,
+      competitorActivity: context.market.competitorActivity,
+      seasonalFactors: context.market.seasonalFactors,
+      industryTrends: context.market.industryTrends,
+      startDate: context.timeframe.startDate,
+      endDate: context.timeframe.endDate,
+      days: String(context.timeframe.days),
+      points: String(context.timeframe.points),
+      stepDays: String(context.timeframe.stepDays)
+    });
   }
 
   /**
-   * Call OpenAI API with retry logic and error handling
+   * Call the LLM provider with retry logic and error handling
    */
-  private async callOpenAI(prompt: string): Promise<string> {
+  private async callOpenAI(prompt: RenderedPrompt): Promise<LLMCompletion> {
     const maxRetries = 3;
     let lastError: Error;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const response = await this.openai.chat.completions.create({
-          model: this.config.model,
+        return await this.provider.complete({
           messages: [
             {
               role: "system",
-              content: "You are an expert digital marketing analyst specializing in campaign performance prediction. Always respond with valid JSON."
+              content: prompt.system
             },
             {
               role: "user", 
-              content: prompt
+              content: prompt.user
             }
           ],
           temperature: this.config.temperature,
-          max_tokens: this.config.maxTokens,
-          response_format: { type: "json_object" }
+          maxTokens: this.config.maxTokens,
+          jsonMode: this.config.jsonMode
         });
 
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error('Empty response from OpenAI');
-        }
-
-        return content;
-
       } catch (error) {
         lastError = error as Error;
         
         // Check if it's a rate limit error
-        if (error instanceof Error && error.message.includes('rate_limit')) {
+        if (this.isRateLimited(error)) {
           const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
           await new Promise(resolve => setTimeout(resolve, delay));
           continue;
         }
 
+        // Requests the endpoint rejected will not succeed on retry
+        if (error instanceof SimulationError && !error.retryable) {
+          break;
+        }
+
         // Don't retry for other types of errors on the last attempt
         if (attempt === maxRetries) {
           break;
@@ -359,53 +473,18 @@ Generate realistic, data-driven predictions that account for the complexity of d
     throw lastError!;
   }
 
+  private isRateLimited(error: unknown): boolean {
+    if (error instanceof SimulationError) {
+      return error.type === 'rate_limit_exceeded';
+    }
+    return error instanceof Error && error.message.includes('rate_limit');
+  }
+
   /**
    * Parse and validate GPT response
    */
   private parseGPTResponse(response: string): GPTResponse {
-    try {
-      const parsed = JSON.parse(response) as GPTResponse;
-
-      // Validate required fields
-      if (!parsed.trajectories || !Array.isArray(parsed.trajectories)) {
-        throw new Error('Invalid trajectories format');
-      }
-
-      if (!parsed.scenarios || !Array.isArray(parsed.scenarios)) {
-        throw new Error('Invalid scenarios format');
-      }
-
-      if (!parsed.feature_importance || !Array.isArray(parsed.feature_importance)) {
-        throw new Error('Invalid feature_importance format');
-      }
-
-      if (typeof parsed.confidence_score !== 'number' || 
-          parsed.confidence_score < 0 || 
-          parsed.confidence_score > 1) {
-        throw new Error('Invalid confidence_score');
-      }
-
-      // Validate trajectory data
-      for (const trajectory of parsed.trajectories) {
-        if (!trajectory.date || !trajectory.ctr || !trajectory.impressions || 
-            !trajectory.engagement || !trajectory.confidence) {
-          throw new Error('Missing required trajectory fields');
-        }
-
-        if (trajectory.confidence < 0 || trajectory.confidence > 1) {
-          throw new Error('Invalid confidence value in trajectory');
-        }
-      }
-
-      return parsed;
-
-    } catch (error) {
-      throw new SimulationError(
-        `Failed to parse GPT response: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'api_error',
-        'RESPONSE_PARSE_ERROR'
-      );
-    }
+    return parseGPTResponse(response);
   }
 
   /**
@@ -414,19 +493,29 @@ Generate realistic, data-driven predictions that account for the complexity of d
   private convertToPredictionOutput(
     gptResponse: GPTResponse, 
     dataset: EnrichedDataset,
-    processingTime: number
+    plan: ForecastPlan,
+    processingTime: number,
+    completion: LLMCompletion
   ): PredictionOutput {
-    // Convert trajectories
-    const trajectories: TrajectoryPoint[] = gptResponse.trajectories.map(t => ({
-      date: new Date(t.date),
-      metrics: {
-        ctr: t.ctr,
-        impressions: t.impressions,
-        engagement: t.engagement,
-        reach: t.reach || t.impressions * 0.8 // Estimate reach if not provided
-      },
-      confidence: t.confidence
-    }));
+    // Spread each point's daily averages over the window days it covers. Days
+    // are counted from the window start rather than read from the response, so
+    // the forecast lines up with the other models' day by day.
+    const trajectories: TrajectoryPoint[] = gptResponse.trajectories
+      .slice(0, plan.points)
+      .flatMap((t, index) => {
+        const firstDay = index * plan.stepDays;
+        return Array.from({ length: Math.min(plan.stepDays, plan.days - firstDay) }, (_, offset) => ({
+          date: new Date(plan.start.getTime() + (firstDay + offset) * DAY_MS),
+          metrics: {
+            ctr: t.ctr,
+            impressions: t.impressions,
+            engagement: t.engagement,
+            reach: t.reach || t.impressions * 0.8, // Estimate reach if not provided
+            ...(typeof t.conversions === 'number' ? { conversions: t.conversions } : {})
+          },
+          confidence: t.confidence
+        }));
+      });
 
     // Generate confidence intervals based on trajectory confidence
     const confidence_intervals: ConfidenceInterval[] = trajectories.map(t => {
@@ -448,7 +537,10 @@ Generate realistic, data-driven predictions that account for the complexity of d
     // Build model metadata
     const model_metadata: ModelMetadata = {
       model_name: 'openai-gpt4o',
-      model_version: this.config.model,
+      model_version: completion.model,
+      prompt_version: this.promptTemplate.version,
+      prompt_template: this.promptTemplate.id,
+      ...(completion.usage ? { token_usage: toTokenUsage(completion.usage) } : {}),
       confidence_score: gptResponse.confidence_score,
       processing_time: processingTime,
       data_quality: dataset.dataQuality,
@@ -496,7 +588,8 @@ Generate realistic, data-driven predictions that account for the complexity of d
     modelError.context = {
       campaignId: dataset.campaign.id,
       dataQuality: dataset.dataQuality.overall,
-      model: this.config.model
+      model: this.config.model,
+      baseUrl: this.config.baseUrl
     };
 
     return modelError;
@@ -0,0 +1,243 @@
+/**
+ * Prompt Regression Harness
+ *
+ * Replays recorded campaign datasets and the raw model responses they produced
+ * against the current prompt templates and response parser, without calling a
+ * model. A run checks that every dataset still renders into the prompt, that
+ * responses which parsed when recorded still parse (and malformed ones are
+ * still rejected), and how far the parsed output drifted from the recording.
+ */
+
+import { EnrichedDataset } from '../../../types/simulation';
+import { SimulationError } from '../errors';
+import { deserializeDataset } from '../orchestration/SimulationResultSerializer';
+import { GPTResponse, OpenAIPredictor, parseGPTResponse } from './OpenAIPredictor';
+import { LLMProvider } from './LLMProvider';
+import { CAMPAIGN_FORECAST_PROMPT, getPromptTemplate, promptReference } from './prompts/PromptTemplates';
+
+export interface PromptRegressionFixture {
+  name: string;
+  description?: string;
+  promptTemplate: string; // template reference the response was recorded with, e.g. campaign-forecast@1.1.0
+  model?: string; // model that produced the response
+  recordedAt?: string;
+  dataset: EnrichedDataset;
+  response: string; // raw model output
+  expected: GPTResponse | null; // parse result when recorded; null for a response the parser must reject
+}
+
+export interface PromptRegressionOptions {
+  promptVersion?: string; // campaign forecast prompt version to check; the latest when unset
+  maxDrift?: number; // largest relative change of any parsed value that still passes
+}
+
+export interface PromptRegressionCaseResult {
+  name: string;
+  recordedWith: string;
+  rendered: boolean;
+  parsed: boolean;
+  expectedToParse: boolean;
+  drift: number; // largest relative change of a parsed value, 0-1
+  driftedFields: string[];
+  passed: boolean;
+  error?: string;
+}
+
+export interface PromptRegressionReport {
+  promptTemplate: string;
+  cases: PromptRegressionCaseResult[];
+  parseSuccessRate: number; // share of responses recorded as parseable that still parse
+  maxDrift: number;
+  staleFixtures: string[]; // recorded with another prompt version; re-record their responses
+  passed: boolean;
+}
+
+const DEFAULT_MAX_DRIFT = 0.001;
+
+// Fields listed per case; the drift score covers all of them
+const MAX_DRIFTED_FIELDS = 10;
+
+// The harness renders prompts but must never reach a model
+const OFFLINE_PROVIDER: LLMProvider = {
+  model: 'offline',
+  complete: async () => {
+    throw new SimulationError(
+      'The prompt regression harness does not call models',
+      'validation_error',
+      'OFFLINE_HARNESS'
+    );
+  }
+};
+
+/**
+ * Replay fixtures against the current prompt template and response parser
+ */
+export function runPromptRegression(
+  fixtures: PromptRegressionFixture[],
+  options: PromptRegressionOptions = {}
+): PromptRegressionReport {
+  const predictor = createOfflinePredictor(options.promptVersion);
+  const maxDrift = options.maxDrift ?? DEFAULT_MAX_DRIFT;
+  const promptTemplate = promptReference(getPromptTemplate(CAMPAIGN_FORECAST_PROMPT, options.promptVersion));
+
+  const cases = fixtures.map(fixture => {
+    const result: PromptRegressionCaseResult = {
+      name: fixture.name,
+      recordedWith: fixture.promptTemplate,
+      rendered: false,
+      parsed: false,
+      expectedToParse: fixture.expected !== null,
+      drift: 0,
+      driftedFields: [],
+      passed: false
+    };
+
+    try {
+      predictor.renderPrompt(fixture.dataset);
+      result.rendered = true;
+    } catch (error) {
+      result.error = `Prompt did not render: ${describeError(error)}`;
+      return result;
+    }
+
+    let parsed: GPTResponse | undefined;
+    try {
+      parsed = parseGPTResponse(fixture.response);
+      result.parsed = true;
+    } catch (error) {
+      if (result.expectedToParse) {
+        result.error = describeError(error);
+      }
+    }
+
+    if (parsed && fixture.expected) {
+      const drifts = compareValues(fixture.expected, parsed, '');
+      result.drift = Math.max(0, ...drifts.map(({ drift }) => drift));
+      result.driftedFields = drifts
+        .filter(({ drift }) => drift > maxDrift)
+        .slice(0, MAX_DRIFTED_FIELDS)
+        .map(({ path }) => path);
+    } else if (parsed) {
+      result.error = 'A response recorded as malformed now parses';
+    }
+
+    result.passed = result.parsed === result.expectedToParse && result.drift <= maxDrift;
+    return result;
+  });
+
+  const parseable = cases.filter(result => result.expectedToParse);
+
+  return {
+    promptTemplate,
+    cases,
+    parseSuccessRate: parseable.length > 0
+      ? parseable.filter(result => result.parsed).length / parseable.length
+      : 1,
+    maxDrift: Math.max(0, ...cases.map(result => result.drift)),
+    staleFixtures: cases
+      .filter(result => result.rendered && result.recordedWith !== promptTemplate)
+      .map(result => result.name),
+    passed: cases.every(result => result.passed)
+  };
+}
+
+/**
+ * Build a fixture from a dataset and the raw response a model gave for it,
+ * recording the prompt version and what the parser made of the response
+ */
+export function recordPromptRegressionFixture(
+  name: string,
+  dataset: EnrichedDataset,
+  response: string,
+  options: { promptVersion?: string; model?: string; description?: string } = {}
+): PromptRegressionFixture {
+  const { template } = createOfflinePredictor(options.promptVersion).renderPrompt(dataset);
+
+  let expected: GPTResponse | null = null;
+  try {
+    expected = parseGPTResponse(response);
+  } catch {
+    // Recorded as a response the parser must keep rejecting
+  }
+
+  return {
+    name,
+    ...(options.description !== undefined ? { description: options.description } : {}),
+    promptTemplate: template,
+    ...(options.model !== undefined ? { model: options.model } : {}),
+    recordedAt: new Date().toISOString(),
+    dataset,
+    response,
+    expected
+  };
+}
+
+export function serializePromptRegressionFixture(fixture: PromptRegressionFixture): string {
+  return `${JSON.stringify(fixture, null, 2)}\n`;
+}
+
+/**
+ * Restore a fixture written by serializePromptRegressionFixture
+ */
+export function loadPromptRegressionFixture(json: string): PromptRegressionFixture {
+  const raw = JSON.parse(json) as Omit<PromptRegressionFixture, 'dataset'> & { dataset: unknown };
+  return {
+    ...raw,
+    // Only the dataset holds Dates; recorded responses keep their date strings
+    dataset: deserializeDataset(JSON.stringify(raw.dataset))
+  };
+}
+
+function createOfflinePredictor(promptVersion?: string): OpenAIPredictor {
+  return new OpenAIPredictor(
+    {
+      model: 'offline',
+      temperature: 0,
+      maxTokens: 0,
+      timeout: 0,
+      ...(promptVersion !== undefined ? { promptVersion } : {})
+    },
+    OFFLINE_PROVIDER
+  );
+}
+
+interface FieldDrift {
+  path: string;
+  drift: number;
+}
+
+/**
+ * Relative change of every value between a recorded and a fresh parse result.
+ * Numbers drift by their relative difference; any other changed, added or
+ * removed value counts as fully drifted.
+ */
+function compareValues(expected: unknown, actual: unknown, path: string): FieldDrift[] {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    const scale = Math.max(Math.abs(expected), Math.abs(actual));
+    return [{ path, drift: scale > 0 ? Math.min(1, Math.abs(expected - actual) / scale) : 0 }];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (expected.length !== actual.length) {
+      return [{ path: `${path}.length`, drift: 1 }];
+    }
+    return expected.flatMap((item, index) => compareValues(item, actual[index], `${path}[${index}]`));
+  }
+
+  if (isRecord(expected) && isRecord(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return Array.from(keys).flatMap(key =>
+      compareValues(expected[key], actual[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return [{ path, drift: JSON.stringify(expected) === JSON.stringify(actual) ? 0 : 1 }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for Baseline Forecaster
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BaselineForecaster } from '../BaselineForecaster';
+import { EnsembleCoordinator } from '../EnsembleCoordinator';
+import { SimulationErrorHandler, SimulationError, InsufficientDataError } from '../../errors';
+import { EnrichedDataset, PerformanceMetric } from '../../../../types/simulation';
+
+const buildDataset = (historicalPerformance: PerformanceMetric[]): EnrichedDataset => ({
+  campaign: {
+    id: 'campaign-1',
+    name: 'Baseline Campaign',
+    description: 'Campaign used for baseline tests',
+    budget: 10000,
+    currency: 'USD',
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-02-28'),
+    status: 'active',
+    category: 'brand_awareness',
+    channels: [],
+    audiences: [],
+    kpis: []
+  },
+  historicalPerformance,
+  audienceInsights: {
+    totalSize: 100000,
+    demographics: { ageRange: [18, 45], gender: 'all', locations: [], interests: [] },
+    engagementPatterns: { peakHours: [], peakDays: [], seasonality: {} }
+  },
+  creativeAssets: [],
+  budgetAllocation: { total: 10000, allocated: {}, spent: {}, remaining: {} },
+  marketData: {} as EnrichedDataset['marketData'],
+  externalData: [],
+  dataQuality: { completeness: 0.9, accuracy: 0.9, freshness: 0.9, consistency: 0.9, overall: 0.9 }
+});
+
+// 28 days of CTR with a weekend lift and a slow upward trend
+const buildHistory = (days = 28): PerformanceMetric[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i));
+    const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    return [
+      { date, metric: 'ctr', value: 0.03 + i * 0.0001 + (weekend ? 0.005 : 0) },
+      { date, metric: 'impressions', value: 5000, channel: 'facebook' },
+      { date, metric: 'impressions', value: 3000, channel: 'instagram' }
+    ];
+  }).flat();
+
+describe('BaselineForecaster', () => {
+  let forecaster: BaselineForecaster;
+
+  beforeEach(() => {
+    forecaster = new BaselineForecaster();
+  });
+
+  it('should produce a full prediction output without network access', async () => {
+    const result = await forecaster.predict(buildDataset(buildHistory()));
+
+    expect(result.trajectories).toHaveLength(30);
+    expect(result.confidence_intervals).toHaveLength(30);
+    expect(result.trajectories[0].date.toISOString()).toBe('2024-01-29T00:00:00.000Z');
+    expect(result.model_metadata.model_name).toBe('Baseline-HoltWinters');
+    expect(result.model_metadata.prediction_horizon).toBe(30);
+    expect(result.model_metadata.confidence_score).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('should be deterministic for the same input', async () => {
+    const dataset = buildDataset(buildHistory());
+
+    const first = await forecaster.predict(dataset);
+    const second = await forecaster.predict(dataset);
+
+    expect(second.trajectories).toEqual(first.trajectories);
+    expect(second.confidence_intervals).toEqual(first.confidence_intervals);
+  });
+
+  it('should sum volume metrics and average rate metrics across channels', async () => {
+    const result = await forecaster.predict(buildDataset(buildHistory()));
+
+    expect(result.trajectories[0].metrics.impressions).toBeCloseTo(8000, 0);
+    expect(result.trajectories[0].metrics.ctr).toBeGreaterThan(0.03);
+    expect(result.trajectories[0].metrics.ctr).toBeLessThan(0.04);
+  });
+
+  it('should carry weekly seasonality into the forecast', async () => {
+    const result = await forecaster.predict(buildDataset(buildHistory()));
+
+    const weekend = result.trajectories.filter(p => [0, 6].includes(p.date.getUTCDay()));
+    const weekday = result.trajectories.filter(p => ![0, 6].includes(p.date.getUTCDay()));
+    const average = (points: typeof weekend) =>
+      points.reduce((sum, p) => sum + p.metrics.ctr, 0) / points.length;
+
+    expect(average(weekend)).toBeGreaterThan(average(weekday));
+  });
+
+  it('should widen confidence intervals with the horizon', async () => {
+    const result = await forecaster.predict(buildDataset(buildHistory()));
+
+    const width = (i: number) => result.confidence_intervals[i].upper - result.confidence_intervals[i].lower;
+    expect(width(29)).toBeGreaterThan(width(0));
+    result.confidence_intervals.forEach((interval, i) => {
+      expect(interval.lower).toBeLessThanOrEqual(result.trajectories[i].metrics.ctr);
+      expect(interval.upper).toBeGreaterThanOrEqual(result.trajectories[i].metrics.ctr);
+    });
+  });
+
+  it('should fall back to a damped trend for short histories', async () => {
+    const result = await forecaster.predict(buildDataset(buildHistory(5)));
+
+    expect(result.trajectories).toHaveLength(30);
+    expect(result.feature_importance.map(f => f.feature)).not.toContain('weekly_seasonality');
+    expect(result.model_metadata.confidence_score).toBeLessThan(0.9);
+  });
+
+  it('should forecast through the end of a long forecast window', async () => {
+    const dataset = {
+      ...buildDataset(buildHistory()),
+      forecastWindow: { start: new Date('2024-01-29T00:00:00Z'), end: new Date('2024-12-31T00:00:00Z') }
+    };
+
+    const result = await forecaster.predict(dataset);
+
+    expect(result.trajectories).toHaveLength(338);
+    expect(result.confidence_intervals).toHaveLength(338);
+    expect(result.trajectories[337].date.toISOString()).toBe('2024-12-31T00:00:00.000Z');
+    expect(result.model_metadata.prediction_horizon).toBe(338);
+  });
+
+  it('should only return points inside a window that starts after the history', async () => {
+    const dataset = {
+      ...buildDataset(buildHistory()),
+      forecastWindow: { start: new Date('2024-06-01T09:00:00Z'), end: new Date('2024-06-14T18:00:00Z') }
+    };
+
+    const result = await forecaster.predict(dataset);
+
+    expect(result.trajectories).toHaveLength(14);
+    expect(result.trajectories[0].date.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+    expect(result.trajectories[13].date.toISOString()).toBe('2024-06-14T00:00:00.000Z');
+  });
+
+  it('should reject datasets without historical performance', async () => {
+    await expect(forecaster.predict(buildDataset([]))).rejects.toThrow(InsufficientDataError);
+  });
+
+  it('should reject invalid smoothing parameters', () => {
+    expect(() => new BaselineForecaster({ alpha: 0 })).toThrow(SimulationError);
+  });
+
+  it('should take part in an ensemble like any other model', async () => {
+    const prediction = await forecaster.predict(buildDataset(buildHistory()));
+    const coordinator = new EnsembleCoordinator({
+      models: [{ name: 'baseline', weight: 1, confidenceWeight: 0.5, enabled: true, fallbackPriority: 1 }],
+      weightingStrategy: 'dynamic',
+      confidenceThreshold: 0.6,
+      fallbackStrategy: 'weighted_average'
+    });
+
+    const ensemble = await coordinator.combineModels(
+      [{
+        modelName: 'baseline',
+        prediction,
+        weight: 1,
+        confidence: prediction.model_metadata.confidence_score,
+        processingTime: prediction.model_metadata.processing_time
+      }],
+      buildDataset(buildHistory())
+    );
+
+    expect(ensemble.trajectories).toHaveLength(30);
+    expect(ensemble.trajectories[0].metrics.ctr).toBeCloseTo(prediction.trajectories[0].metrics.ctr, 6);
+  });
+});
+
+describe('SimulationErrorHandler baseline fallback', () => {
+  it('should use the baseline forecast when a model is unavailable', async () => {
+    const handler = new SimulationErrorHandler();
+    const error = new SimulationError('OpenAI unavailable', 'model_unavailable', 'MODEL_DOWN', true);
+
+    const fallback = await handler.handleError(error, { dataset: buildDataset(buildHistory()) });
+
+    expect(fallback.success).toBe(true);
+    expect(fallback.fallback_used).toBe('baseline_forecaster');
+    expect(fallback.result?.trajectories).toHaveLength(30);
+  });
+
+  it('should use the baseline forecast when a provider times out', async () => {
+    const handler = new SimulationErrorHandler();
+    const error = new SimulationError('OpenAI request timed out', 'api_timeout', 'OPENAI_TIMEOUT', true);
+
+    const fallback = await handler.handleError(error, { dataset: buildDataset(buildHistory()) });
+
+    expect(fallback.success).toBe(true);
+    expect(fallback.result?.model_metadata.model_name).toBe('Baseline-HoltWinters');
+  });
+
+  it('should report failure when no dataset is available', async () => {
+    const handler = new SimulationErrorHandler();
+    const error = new SimulationError('OpenAI unavailable', 'model_unavailable', 'MODEL_DOWN', true);
+
+    const fallback = await handler.handleError(error, {});
+
+    expect(fallback.success).toBe(false);
+    expect(fallback.fallback_used).toBe('fallback_model');
+  });
+});
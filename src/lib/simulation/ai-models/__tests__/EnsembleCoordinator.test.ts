@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { EnsembleCoordinator } from '../EnsembleCoordinator';
-import { ModelPrediction } from '../../../../types/simulation';
+import { EnrichedDataset, ModelPrediction } from '../../../../types/simulation';
 import { SimulationError } from '../../errors';
 
 describe('EnsembleCoordinator', () => {
@@ -223,6 +223,69 @@ describe('EnsembleCoordinator', () => {
     });
   });
 
+  describe('learned weights', () => {
+    const prDataset = { campaign: { category: 'pr' }, dataQuality: { overall: 0.9 } } as unknown as EnrichedDataset;
+    const learnedCoordinator = () => new EnsembleCoordinator({
+      models: [],
+      weightingStrategy: 'performance_based',
+      confidenceThreshold: 0.6,
+      fallbackStrategy: 'weighted_average',
+      learnedWeights: [
+        { category: 'pr', metric: '*', horizon: '*', weights: { openai: 0.9, huggingface: 0.1 }, accuracy: [] },
+        { category: 'pr', metric: 'impressions', horizon: 'short', weights: { openai: 0.25, huggingface: 0.75 }, accuracy: [] }
+      ]
+    });
+
+    it('should weight models by their tracked accuracy for the campaign category', () => {
+      const weights = (learnedCoordinator() as any).calculateDynamicWeights(mockPredictions, prDataset);
+
+      expect(weights.openai).toBeCloseTo(0.9, 10);
+      expect(weights.huggingface).toBeCloseTo(0.1, 10);
+    });
+
+    it('should combine each metric with the weights learned for it', async () => {
+      const result = await learnedCoordinator().combineModels(mockPredictions, prDataset);
+      const [first] = result.trajectories;
+      const [openai, huggingface] = mockPredictions.map(p => p.prediction.trajectories[0].metrics);
+
+      expect(first.metrics.ctr).toBeCloseTo(0.9 * openai.ctr + 0.1 * huggingface.ctr, 10);
+      expect(first.metrics.impressions).toBeCloseTo(0.25 * openai.impressions + 0.75 * huggingface.impressions, 6);
+      expect(result.model_metadata.ensemble_weights).toEqual({ openai: 0.9, huggingface: 0.1 });
+      expect(result.model_metadata.weighting_strategy).toBe('performance_based');
+    });
+
+    it('should record the learned weights each metric was combined with', async () => {
+      const result = await learnedCoordinator().combineModels(mockPredictions, prDataset);
+
+      expect(result.model_metadata.segment_ensemble_weights).toEqual([
+        {
+          metric: 'ctr',
+          horizon: 'short',
+          weights: { openai: expect.closeTo(0.9, 10), huggingface: expect.closeTo(0.1, 10) }
+        },
+        {
+          metric: 'impressions',
+          horizon: 'short',
+          weights: { openai: expect.closeTo(0.25, 10), huggingface: expect.closeTo(0.75, 10) }
+        }
+      ]);
+    });
+
+    it('should record no learned weights when none applied', async () => {
+      const result = await coordinator.combineModels(mockPredictions);
+
+      expect(result.model_metadata.segment_ensemble_weights).toBeUndefined();
+    });
+
+    it('should fall back to performance history for categories without learned weights', () => {
+      const socialDataset = { campaign: { category: 'social' }, dataQuality: { overall: 0.9 } } as unknown as EnrichedDataset;
+      const weights = (learnedCoordinator() as any).calculateDynamicWeights(mockPredictions, socialDataset);
+
+      expect(weights.openai).toBeCloseTo(0.5, 10);
+      expect(weights.huggingface).toBeCloseTo(0.5, 10);
+    });
+  });
+
   describe('combineTrajectories', () => {
     it('should combine trajectories using weighted ensemble', () => {
       const weights = { openai: 0.4, huggingface: 0.6 };
@@ -180,6 +180,24 @@ describe('HuggingFacePredictor', () => {
       expect(result.model_metadata.model_name).toBe('HuggingFace-Ensemble');
     });
 
+    it('should forecast through the end of the forecast window', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, json: async () => [{ ds: '2024-01-01', yhat: 0.045 }] })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ prediction: [0.046] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const result = await predictor.predict({
+        ...mockDataset,
+        forecastWindow: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-12-31T00:00:00Z') }
+      });
+
+      // 392 days from the last history day, 2023-12-05
+      const [prophetCall, lstmCall] = (global.fetch as any).mock.calls;
+      expect(JSON.parse(prophetCall[1].body).periods).toBe(392);
+      expect(JSON.parse(lstmCall[1].body).parameters.prediction_length).toBe(392);
+      expect(result.model_metadata.prediction_horizon).toBe(392);
+    });
+
     it('should handle Prophet API failures gracefully', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the LLM provider layer
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createLLMProvider, OpenAICompatibleProvider } from '../LLMProvider';
+import { SimulationError } from '../../errors';
+import { MockLLMServer, startMockLLMServer } from '../../../../test/mockLLMServer';
+
+const messages = [
+  { role: 'system' as const, content: 'Respond with JSON.' },
+  { role: 'user' as const, content: 'Forecast the campaign.' }
+];
+
+describe('OpenAICompatibleProvider', () => {
+  let server: MockLLMServer;
+
+  beforeAll(async () => {
+    server = await startMockLLMServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should send the configured model and settings to a local endpoint without credentials', async () => {
+    const provider = createLLMProvider({
+      baseUrl: server.baseUrl,
+      model: 'llama-3.1-70b-instruct',
+      temperature: 0.1,
+      maxTokens: 2000
+    });
+    server.reply({ content: '{"ok":true}' });
+
+    const completion = await provider.complete({ messages });
+
+    expect(completion).toEqual({
+      content: '{"ok":true}',
+      model: 'llama-3.1-70b-instruct',
+      usage: { promptTokens: 12, completionTokens: 34, totalTokens: 46 }
+    });
+
+    const request = server.requests.at(-1)!;
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).toEqual({
+      model: 'llama-3.1-70b-instruct',
+      messages,
+      temperature: 0.1,
+      max_tokens: 2000,
+      response_format: { type: 'json_object' }
+    });
+  });
+
+  it('should send the API key and leave out JSON mode when the server does not support it', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: `${server.baseUrl}/`,
+      apiKey: 'gateway-key',
+      jsonMode: false
+    });
+    server.reply({ content: 'plain text' });
+
+    await provider.complete({ messages, temperature: 0 });
+
+    const request = server.requests.at(-1)!;
+    expect(request.headers.authorization).toBe('Bearer gateway-key');
+    expect(request.body.temperature).toBe(0);
+    expect(request.body).not.toHaveProperty('response_format');
+  });
+
+  it('should classify rate limits and rejected requests', async () => {
+    const provider = createLLMProvider({ baseUrl: server.baseUrl });
+
+    server.reply({ status: 429, body: 'Too many requests' });
+    const rateLimited = await provider.complete({ messages }).catch(error => error);
+    expect(rateLimited).toBeInstanceOf(SimulationError);
+    expect(rateLimited).toMatchObject({ type: 'rate_limit_exceeded', retryable: true });
+
+    server.reply({ status: 400, body: 'Unknown model' });
+    const rejected = await provider.complete({ messages }).catch(error => error);
+    expect(rejected).toMatchObject({ type: 'api_error', code: 'LLM_REQUEST_FAILED', retryable: false });
+    expect(rejected.message).toBe('HTTP 400: Unknown model');
+  });
+
+  it('should fail on an empty completion', async () => {
+    server.reply({ content: '' });
+
+    await expect(createLLMProvider({ baseUrl: server.baseUrl }).complete({ messages }))
+      .rejects.toMatchObject({ code: 'LLM_EMPTY_RESPONSE' });
+  });
+
+  it('should time out slow endpoints', async () => {
+    server.reply({ content: '{}', delayMs: 500 });
+
+    await expect(createLLMProvider({ baseUrl: server.baseUrl, timeout: 50 }).complete({ messages }))
+      .rejects.toMatchObject({ type: 'api_timeout', code: 'LLM_TIMEOUT' });
+  });
+
+  it('should time out endpoints that stall after sending the headers', async () => {
+    server.reply({ content: '{}', bodyDelayMs: 500 });
+
+    await expect(createLLMProvider({ baseUrl: server.baseUrl, timeout: 50 }).complete({ messages }))
+      .rejects.toMatchObject({ type: 'api_timeout', code: 'LLM_TIMEOUT' });
+  });
+});
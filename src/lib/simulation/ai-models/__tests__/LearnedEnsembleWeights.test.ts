@@ -0,0 +1,149 @@
+/**
+ * Unit tests for learned ensemble weights
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ForecastAccuracySample,
+  ForecastHorizon,
+  forecastHorizon,
+  forecastHorizonBetween,
+  learnEnsembleWeights,
+  resolveLearnedWeights
+} from '../LearnedEnsembleWeights';
+
+// `count` forecasts of a model, each `error` (relative) away from the actual value
+const samplesOf = (
+  modelName: string,
+  category: string,
+  error: number,
+  { metric = 'ctr', horizon = 'short' as ForecastHorizon, count = 6 } = {}
+): ForecastAccuracySample[] =>
+  Array.from({ length: count }, (_, i) => ({
+    modelName,
+    category,
+    metric,
+    horizon,
+    actualValue: 0.03 + i * 0.001,
+    predictedValue: (0.03 + i * 0.001) * (1 + error)
+  }));
+
+describe('forecastHorizon', () => {
+  it('should bucket forecast days into short, medium and long horizons', () => {
+    expect(forecastHorizon(1)).toBe('short');
+    expect(forecastHorizon(7)).toBe('short');
+    expect(forecastHorizon(8)).toBe('medium');
+    expect(forecastHorizon(28)).toBe('medium');
+    expect(forecastHorizon(29)).toBe('long');
+  });
+
+  it('should count days from the first forecast date', () => {
+    const first = new Date('2024-03-01T00:00:00Z');
+
+    expect(forecastHorizonBetween(first, first)).toBe('short');
+    expect(forecastHorizonBetween(first, new Date('2024-03-08T00:00:00Z'))).toBe('medium');
+    expect(forecastHorizonBetween(first, new Date('2024-04-15T00:00:00Z'))).toBe('long');
+  });
+});
+
+describe('learnEnsembleWeights', () => {
+  it('should give less weight to models that are consistently wrong for a category', () => {
+    const segments = learnEnsembleWeights([
+      ...samplesOf('openai', 'pr', 0.05),
+      ...samplesOf('huggingface', 'pr', 0.6),
+      ...samplesOf('openai', 'social', 0.3),
+      ...samplesOf('huggingface', 'social', 0.05)
+    ]);
+
+    const pr = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr' })!;
+    const social = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'social' })!;
+
+    expect(pr.openai).toBeGreaterThan(0.8);
+    expect(pr.openai + pr.huggingface).toBeCloseTo(1, 10);
+    expect(social.huggingface).toBeGreaterThan(social.openai);
+  });
+
+  it('should learn segments by metric and horizon with MAPE and RMSE per model', () => {
+    const segments = learnEnsembleWeights([
+      ...samplesOf('openai', 'pr', 0.1, { metric: 'impressions', horizon: 'long' }),
+      ...samplesOf('huggingface', 'pr', 0.1, { metric: 'impressions', horizon: 'long' })
+    ]);
+
+    expect(segments.map(s => `${s.category}|${s.metric}|${s.horizon}`)).toEqual([
+      '*|*|*',
+      'pr|*|*',
+      'pr|impressions|*',
+      'pr|impressions|long'
+    ]);
+
+    const [huggingface, openai] = segments[3].accuracy;
+    expect(huggingface.modelName).toBe('huggingface');
+    expect(openai).toMatchObject({ modelName: 'openai', samples: 6 });
+    expect(openai.mape).toBeCloseTo(10, 6);
+    expect(openai.rmse).toBeGreaterThan(0);
+  });
+
+  it('should not weight models with too few samples in a segment', () => {
+    const segments = learnEnsembleWeights([
+      ...samplesOf('openai', 'pr', 0.1),
+      ...samplesOf('huggingface', 'pr', 0.1, { count: 2 })
+    ]);
+
+    expect(segments.find(s => s.category === 'pr' && s.metric === '*')?.weights).toEqual({ openai: 1 });
+    expect(learnEnsembleWeights(samplesOf('openai', 'pr', 0.1, { count: 2 }), { minSamples: 2 })).toHaveLength(4);
+  });
+
+  it('should cap the weight of near-perfect forecasts', () => {
+    const segments = learnEnsembleWeights([
+      ...samplesOf('openai', 'pr', 0),
+      ...samplesOf('huggingface', 'pr', 0.1)
+    ]);
+
+    const weights = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr' })!;
+    expect(weights.openai).toBeLessThan(1);
+    expect(weights.huggingface).toBeGreaterThan(0);
+  });
+});
+
+describe('resolveLearnedWeights', () => {
+  const segments = learnEnsembleWeights([
+    ...samplesOf('openai', 'pr', 0.05, { metric: 'ctr', horizon: 'short' }),
+    ...samplesOf('huggingface', 'pr', 0.4, { metric: 'ctr', horizon: 'short' }),
+    ...samplesOf('openai', 'pr', 0.4, { metric: 'impressions', horizon: 'short' }),
+    ...samplesOf('huggingface', 'pr', 0.05, { metric: 'impressions', horizon: 'short' }),
+    ...samplesOf('baseline', 'content', 0.1)
+  ]);
+
+  it('should prefer the most specific segment', () => {
+    const ctr = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr', metric: 'ctr', horizon: 'short' })!;
+    const impressions = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr', metric: 'impressions', horizon: 'short' })!;
+
+    expect(ctr.openai).toBeGreaterThan(ctr.huggingface);
+    expect(impressions.huggingface).toBeGreaterThan(impressions.openai);
+  });
+
+  it('should fall back to broader segments for unseen metrics, horizons and categories', () => {
+    const unseenHorizon = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr', metric: 'ctr', horizon: 'long' });
+    const unseenMetric = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr', metric: 'reach' });
+    const unseenCategory = resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'paid' });
+
+    expect(unseenHorizon).toEqual(resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr', metric: 'ctr' }));
+    expect(unseenMetric).toEqual(resolveLearnedWeights(segments, ['openai', 'huggingface'], { category: 'pr' }));
+    expect(unseenCategory).not.toBeNull();
+  });
+
+  it('should renormalize over the models being combined', () => {
+    // Only baseline was evaluated on content campaigns, so both come from the overall segment
+    const weights = resolveLearnedWeights(segments, ['openai', 'baseline'], { category: 'content' })!;
+    const overall = segments.find(s => s.category === '*')!.weights;
+
+    expect(weights.openai + weights.baseline).toBeCloseTo(1, 10);
+    expect(weights.openai / weights.baseline).toBeCloseTo(overall.openai / overall.baseline, 10);
+    expect(resolveLearnedWeights(segments, ['baseline'], { category: 'content' })).toEqual({ baseline: 1 });
+  });
+
+  it('should return null without learned weights for every model', () => {
+    expect(resolveLearnedWeights(segments, ['openai', 'lstm'], { category: 'pr' })).toBeNull();
+    expect(resolveLearnedWeights([], ['openai'], { category: 'pr' })).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for Model Registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ModelRegistry, createDefaultModelRegistry, AIPredictor } from '../ModelRegistry';
+import { EnrichedDataset, PredictionOutput } from '../../../../types/simulation';
+import { SimulationError } from '../../errors';
+import { ModelResponseCache } from '../../caching/ModelResponseCache';
+
+const buildPrediction = (modelName: string, confidence: number): PredictionOutput => ({
+  trajectories: [
+    { date: new Date('2024-01-01'), metrics: { ctr: 0.045 }, confidence }
+  ],
+  confidence_intervals: [{ lower: 0.04, upper: 0.05, confidence_level: confidence }],
+  feature_importance: [],
+  model_metadata: {
+    model_name: modelName,
+    model_version: '1.0.0',
+    confidence_score: confidence,
+    processing_time: 1200,
+    data_quality: { completeness: 0.9, accuracy: 0.9, freshness: 0.9, consistency: 0.9, overall: 0.9 },
+    feature_count: 0,
+    prediction_horizon: 1
+  }
+});
+
+describe('ModelRegistry', () => {
+  let registry: ModelRegistry;
+  const dataset = {} as EnrichedDataset;
+
+  beforeEach(() => {
+    registry = new ModelRegistry();
+  });
+
+  it('should register predictors with ensemble defaults', () => {
+    const predictor: AIPredictor = { predict: vi.fn() };
+    registry.register('baseline', predictor);
+
+    const model = registry.get('baseline');
+    expect(model).toMatchObject({ name: 'baseline', weight: 1, enabled: true, fallbackPriority: 1 });
+    expect(model?.predictor).toBe(predictor);
+  });
+
+  it('should reject duplicate model names', () => {
+    registry.register('openai', { predict: vi.fn() });
+
+    expect(() => registry.register('openai', { predict: vi.fn() })).toThrow(SimulationError);
+  });
+
+  it('should order models by fallback priority and skip disabled ones', () => {
+    registry.register('second', { predict: vi.fn() }, { fallbackPriority: 2 });
+    registry.register('first', { predict: vi.fn() }, { fallbackPriority: 1 });
+    registry.setEnabled('second', false);
+
+    expect(registry.listModels().map(m => m.name)).toEqual(['first', 'second']);
+    expect(registry.getEnabledModels().map(m => m.name)).toEqual(['first']);
+    expect(registry.getEnsembleConfig().models).toHaveLength(2);
+  });
+
+  it('should throw when toggling an unknown model', () => {
+    expect(() => registry.setEnabled('missing', true)).toThrow(SimulationError);
+  });
+
+  it('should collect failures without discarding successful predictions', async () => {
+    registry.register('openai', { predict: vi.fn().mockResolvedValue(buildPrediction('openai', 0.8)) }, { weight: 0.4 });
+    registry.register('huggingface', { predict: vi.fn().mockRejectedValue(new Error('Service unavailable')) });
+
+    const result = await registry.runAll(dataset);
+
+    expect(result.predictions).toHaveLength(1);
+    expect(result.predictions[0]).toMatchObject({
+      modelName: 'openai',
+      weight: 0.4,
+      confidence: 0.8,
+      processingTime: 1200
+    });
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0].modelName).toBe('huggingface');
+    expect(result.failures[0].error.message).toBe('Service unavailable');
+  });
+
+  it('should notify the listener about each model call', async () => {
+    registry.register('openai', { predict: vi.fn().mockResolvedValue(buildPrediction('openai', 0.8)) });
+    registry.register('huggingface', { predict: vi.fn().mockRejectedValue(new Error('Service unavailable')) });
+    const listener = { onModelStart: vi.fn(), onModelComplete: vi.fn(), onModelError: vi.fn() };
+
+    await registry.runAll(dataset, undefined, listener);
+
+    expect(listener.onModelStart.mock.calls.map(([name]) => name)).toEqual(['openai', 'huggingface']);
+    expect(listener.onModelComplete).toHaveBeenCalledWith('openai', expect.objectContaining({ modelName: 'openai' }));
+    expect(listener.onModelError).toHaveBeenCalledWith('huggingface', expect.objectContaining({ message: 'Service unavailable' }));
+  });
+
+  it('should not call disabled predictors', async () => {
+    const predict = vi.fn();
+    registry.register('openai', { predict }, { enabled: false });
+
+    const result = await registry.runAll(dataset);
+
+    expect(predict).not.toHaveBeenCalled();
+    expect(result.predictions).toHaveLength(0);
+  });
+
+  it('should reuse cached responses of predictors that describe their call', async () => {
+    const registry = new ModelRegistry({ responseCache: new ModelResponseCache() });
+    const openaiPredict = vi.fn().mockResolvedValue(buildPrediction('openai', 0.8));
+    const baselinePredict = vi.fn().mockResolvedValue(buildPrediction('baseline', 0.6));
+    registry.register('openai', {
+      predict: openaiPredict,
+      describeCall: () => ({ provider: 'openai', model: 'gpt-4o', promptVersion: 'campaign-forecast@1.1.0' })
+    });
+    registry.register('baseline', { predict: baselinePredict });
+
+    await registry.runAll(dataset);
+    const rerun = await registry.runAll(dataset);
+
+    expect(openaiPredict).toHaveBeenCalledTimes(1);
+    expect(baselinePredict).toHaveBeenCalledTimes(2);
+    expect(rerun.predictions.map(p => p.prediction.model_metadata.cached)).toEqual([true, undefined]);
+  });
+});
+
+describe('createDefaultModelRegistry', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should only register providers with credentials', () => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.HUGGINGFACE_API_KEY;
+
+    expect(createDefaultModelRegistry().listModels().map(m => m.name)).toEqual(['baseline']);
+
+    const registry = createDefaultModelRegistry({ huggingface: { apiKey: 'hf-test' } });
+    expect(registry.listModels().map(m => m.name)).toEqual(['huggingface', 'baseline']);
+  });
+
+  it('should register the LLM predictor for a self-hosted endpoint without an OpenAI key', () => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.HUGGINGFACE_API_KEY;
+
+    const registry = createDefaultModelRegistry({
+      openai: { baseUrl: 'http://localhost:8080/v1', model: 'llama-3.1-70b-instruct' }
+    });
+    expect(registry.listModels().map(m => m.name)).toEqual(['openai', 'baseline']);
+  });
+
+  it('should not send data to the hosted HuggingFace API with a self-hosted endpoint', () => {
+    delete process.env.OPENAI_API_KEY;
+    process.env.HUGGINGFACE_API_KEY = 'hf-test';
+
+    const selfHosted = createDefaultModelRegistry({
+      openai: { baseUrl: 'http://localhost:8080/v1', model: 'llama-3.1-70b-instruct' }
+    });
+    expect(selfHosted.listModels().map(m => m.name)).toEqual(['openai', 'baseline']);
+    expect(createDefaultModelRegistry().listModels().map(m => m.name)).toEqual(['huggingface', 'baseline']);
+  });
+
+  it('should allow the offline baseline to be disabled', () => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.HUGGINGFACE_API_KEY;
+
+    expect(createDefaultModelRegistry({ baseline: false }).listModels()).toHaveLength(0);
+  });
+});
@@ -1,29 +1,64 @@
 /**
- * Unit tests for OpenAI GPT-4o Predictor
+ * Unit tests for the LLM campaign forecast predictor
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { OpenAIPredictor } from '../OpenAIPredictor';
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll, afterEach } from 'vitest';
+import { OpenAIPredictor, OpenAIConfig } from '../OpenAIPredictor';
+import { LLMCompletionRequest, LLMProvider } from '../LLMProvider';
 import { EnrichedDataset } from '../../../../types/simulation';
 import { SimulationError } from '../../errors';
-
-// Mock fetch globally
-global.fetch = vi.fn();
+import { MockLLMServer, startMockLLMServer } from '../../../../test/mockLLMServer';
+
+const config: OpenAIConfig = {
+  model: 'gpt-4o',
+  timeout: 30000,
+  maxTokens: 4000,
+  temperature: 0.3
+};
+
+const forecastResponse = {
+  trajectories: [
+    { date: '2024-01-01', ctr: 0.045, impressions: 10000, engagement: 0.06, reach: 8000, conversions: 30, confidence: 0.8 },
+    { date: '2024-01-02', ctr: 0.048, impressions: 11000, engagement: 0.065, confidence: 0.82 }
+  ],
+  scenarios: [
+    { type: 'optimistic', probability: 0.25, key_factors: ['Strong creative'] },
+    { type: 'realistic', probability: 0.5, key_factors: ['Historical trend'] },
+    { type: 'pessimistic', probability: 0.25, key_factors: ['Audience fatigue'] }
+  ],
+  feature_importance: [
+    { feature: 'historical_performance', importance: 0.4, category: 'campaign' },
+    { feature: 'budget', importance: 0.3, category: 'campaign' }
+  ],
+  confidence_score: 0.78,
+  reasoning: 'Based on historical performance and market conditions'
+};
+
+// Provider answering from a queue of completions or errors
+const scriptedProvider = (...replies: Array<string | Error>) => {
+  const requests: LLMCompletionRequest[] = [];
+  const provider: LLMProvider = {
+    model: 'gpt-4o',
+    complete: vi.fn(async (request: LLMCompletionRequest) => {
+      requests.push(request);
+      const reply = replies.shift() ?? JSON.stringify(forecastResponse);
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return {
+        content: reply,
+        model: 'gpt-4o-2024-08-06',
+        usage: { promptTokens: 900, completionTokens: 400, totalTokens: 1300 }
+      };
+    })
+  };
+  return { provider, requests };
+};
 
 describe('OpenAIPredictor', () => {
-  let predictor: OpenAIPredictor;
   let mockDataset: EnrichedDataset;
 
   beforeEach(() => {
-    predictor = new OpenAIPredictor({
-      apiKey: 'test-api-key',
-      model: 'gpt-4o',
-      timeout: 30000,
-      maxTokens: 4000,
-      temperature: 0.3,
-      dangerouslyAllowBrowser: true
-    });
-
     mockDataset = {
       campaign: {
         id: 'test-campaign-1',
@@ -126,213 +161,204 @@ describe('OpenAIPredictor', () => {
   });
 
   afterEach(() => {
-    vi.clearAllMocks();
+    vi.useRealTimers();
   });
 
   describe('predict', () => {
-    it('should generate predictions successfully with valid data', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: JSON.stringify({
-              trajectories: [
-                {
-                  date: '2024-01-01',
-                  metrics: { ctr: 0.045, impressions: 10000, engagement: 0.6 },
-                  confidence: 0.8
-                },
-                {
-                  date: '2024-01-02',
-                  metrics: { ctr: 0.048, impressions: 11000, engagement: 0.65 },
-                  confidence: 0.82
-                }
-              ],
-              confidence_intervals: [
-                { lower: 0.04, upper: 0.05, confidence_level: 0.8 },
-                { lower: 0.043, upper: 0.053, confidence_level: 0.82 }
-              ],
-              feature_importance: [
-                { feature: 'historical_performance', importance: 0.4, category: 'campaign' },
-                { feature: 'budget', importance: 0.3, category: 'campaign' }
-              ],
-              reasoning: 'Based on historical performance and market conditions...'
-            })
-          }
-        }]
-      };
-
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse
-      });
+    it('should convert the model response into a prediction', async () => {
+      const { provider, requests } = scriptedProvider();
+      const predictor = new OpenAIPredictor(config, provider);
 
       const result = await predictor.predict(mockDataset);
 
       expect(result.trajectories).toHaveLength(2);
-      expect(result.trajectories[0].metrics.ctr).toBe(0.045);
+      expect(result.trajectories[0]).toEqual({
+        date: new Date('2024-01-01'),
+        metrics: { ctr: 0.045, impressions: 10000, engagement: 0.06, reach: 8000, conversions: 30 },
+        confidence: 0.8
+      });
+      // Reach is estimated when the model leaves it out
+      expect(result.trajectories[1].metrics.reach).toBe(11000 * 0.8);
       expect(result.confidence_intervals).toHaveLength(2);
       expect(result.feature_importance).toHaveLength(2);
-      expect(result.model_metadata.model_name).toBe('OpenAI-GPT-4o');
-      expect(result.model_metadata.confidence_score).toBeGreaterThan(0.7);
+      expect(result.model_metadata).toMatchObject({
+        model_name: 'openai-gpt4o',
+        model_version: 'gpt-4o-2024-08-06',
+        prompt_template: 'campaign-forecast',
+        token_usage: { input_tokens: 900, output_tokens: 400 },
+        confidence_score: 0.78
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({ temperature: 0.3, maxTokens: 4000, jsonMode: true });
+      expect(requests[0].messages.map(message => message.role)).toEqual(['system', 'user']);
+      expect(requests[0].messages[1].content).toContain('- Name: Test Campaign');
     });
 
-    it('should handle API timeout errors', async () => {
-      (global.fetch as any).mockImplementationOnce(() => 
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('timeout')), 100)
-        )
-      );
+    it('should reject malformed responses and report the tokens they used', async () => {
+      const predictor = new OpenAIPredictor(config, scriptedProvider('invalid json').provider);
+
+      const error = await predictor.predict(mockDataset).catch(caught => caught);
 
-      await expect(predictor.predict(mockDataset)).rejects.toThrow(SimulationError);
+      expect(error).toBeInstanceOf(SimulationError);
+      expect(error.code).toBe('RESPONSE_PARSE_ERROR');
+      expect(error.context.tokenUsage).toEqual({ input_tokens: 900, output_tokens: 400 });
     });
 
-    it('should handle invalid API responses', async () => {
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: false,
-        status: 400,
-        text: async () => 'Bad Request'
-      });
+    it('should not retry requests the endpoint rejected', async () => {
+      const rejected = new SimulationError('HTTP 400: Unknown model', 'api_error', 'LLM_REQUEST_FAILED', false);
+      const { provider } = scriptedProvider(rejected);
+      const predictor = new OpenAIPredictor(config, provider);
 
-      await expect(predictor.predict(mockDataset)).rejects.toThrow(SimulationError);
+      await expect(predictor.predict(mockDataset)).rejects.toBe(rejected);
+      expect(provider.complete).toHaveBeenCalledTimes(1);
     });
 
-    it('should handle malformed JSON responses', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'invalid json'
-          }
-        }]
-      };
+    it('should back off and retry when rate limited', async () => {
+      vi.useFakeTimers();
+      const rateLimited = new SimulationError('HTTP 429: Too many requests', 'rate_limit_exceeded', 'LLM_RATE_LIMITED', true);
+      const { provider } = scriptedProvider(rateLimited);
+      const predictor = new OpenAIPredictor(config, provider);
 
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse
-      });
+      const prediction = predictor.predict(mockDataset);
+      await vi.advanceTimersByTimeAsync(2000);
 
-      await expect(predictor.predict(mockDataset)).rejects.toThrow(SimulationError);
+      await expect(prediction).resolves.toMatchObject({ trajectories: expect.any(Array) });
+      expect(provider.complete).toHaveBeenCalledTimes(2);
     });
 
-    it('should validate dataset before processing', async () => {
-      const invalidDataset = { ...mockDataset };
-      delete (invalidDataset as any).campaign;
+    it('should validate the dataset before calling the model', async () => {
+      const { provider } = scriptedProvider();
+      const predictor = new OpenAIPredictor(config, provider);
 
-      await expect(predictor.predict(invalidDataset)).rejects.toThrow(SimulationError);
+      await expect(predictor.predict({ ...mockDataset, historicalPerformance: [] }))
+        .rejects.toMatchObject({ code: 'INSUFFICIENT_DATA' });
+      expect(provider.complete).not.toHaveBeenCalled();
     });
+  });
 
-    it('should handle rate limit errors', async () => {
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-        text: async () => 'Rate limit exceeded'
-      });
-
-      await expect(predictor.predict(mockDataset)).rejects.toThrow(SimulationError);
+  describe('renderPrompt', () => {
+    it('should include the campaign, audience, history and market context', () => {
+      const prompt = new OpenAIPredictor(config, scriptedProvider().provider).renderPrompt(mockDataset);
+
+      expect(prompt.template).toMatch(/^campaign-forecast@/);
+      expect(prompt.user).toContain('- Budget: $10,000');
+      expect(prompt.user).toContain('- Channels: facebook, google');
+      expect(prompt.user).toContain('- Interests: technology, business');
+      expect(prompt.user).toContain('- KPI Targets: ctr 0.05 (monthly)');
+      expect(prompt.user).toContain('- Average CTR: 4.83%');
+      expect(prompt.user).toContain('- Trend: increasing');
+      expect(prompt.user).toContain('- Competitor Activity: High competitive activity');
     });
   });
 
-  describe('buildPrompt', () => {
-    it('should include campaign details in prompt', () => {
-      const prompt = (predictor as any).buildPrompt(mockDataset);
-      
-      expect(prompt).toContain('Test Campaign');
-      expect(prompt).toContain('10000');
-      expect(prompt).toContain('technology');
-      expect(prompt).toContain('business');
-    });
+  describe('forecast window', () => {
+    it('should ask for one point per day of the window from its start date', async () => {
+      const { provider, requests } = scriptedProvider();
+      const predictor = new OpenAIPredictor(config, provider);
+      const dataset = {
+        ...mockDataset,
+        forecastWindow: { start: new Date('2024-03-01T00:00:00Z'), end: new Date('2024-03-10T00:00:00Z') }
+      };
 
-    it('should include historical performance data', () => {
-      const prompt = (predictor as any).buildPrompt(mockDataset);
-      
-      expect(prompt).toContain('0.045');
-      expect(prompt).toContain('0.048');
-      expect(prompt).toContain('0.052');
+      const result = await predictor.predict(dataset);
+
+      const prompt = requests[0].messages[1].content;
+      expect(prompt).toContain('- Start: 2024-03-01');
+      expect(prompt).toContain('- End: 2024-03-10 (10 days)');
+      expect(prompt).toContain('exactly 10 points');
+      expect(prompt).toContain('each point covers 1 day(s)');
+      // Points are dated from the window, not from the dates the model wrote
+      expect(result.trajectories.map(point => point.date)).toEqual([
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-03-02T00:00:00Z')
+      ]);
     });
 
-    it('should include market context when available', () => {
-      const prompt = (predictor as any).buildPrompt(mockDataset);
-      
-      expect(prompt).toContain('Competitor A');
-      expect(prompt).toContain('technology');
-      expect(prompt).toContain('0.035'); // Industry benchmark
+    it('should cap the points of long windows and spread them over the days they cover', async () => {
+      const points = Array.from({ length: 31 }, (_, index) => ({
+        ...forecastResponse.trajectories[0],
+        impressions: 10000 + index
+      }));
+      const { provider, requests } = scriptedProvider(JSON.stringify({ ...forecastResponse, trajectories: points }));
+      const predictor = new OpenAIPredictor(config, provider);
+      const dataset = {
+        ...mockDataset,
+        forecastWindow: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-12-31T00:00:00Z') }
+      };
+
+      const result = await predictor.predict(dataset);
+
+      expect(requests[0].messages[1].content).toContain('exactly 31 points');
+      expect(requests[0].messages[1].content).toContain('each point covers 12 day(s)');
+      expect(result.trajectories).toHaveLength(366);
+      expect(result.trajectories[11].metrics.impressions).toBe(10000);
+      expect(result.trajectories[12].metrics.impressions).toBe(10001);
+      expect(result.trajectories[365]).toMatchObject({
+        date: new Date('2024-12-31T00:00:00Z'),
+        metrics: { impressions: 10030 }
+      });
     });
   });
 
-  describe('parseGPTResponse', () => {
-    it('should parse valid GPT response correctly', () => {
-      const mockGPTResponse = {
-        choices: [{
-          message: {
-            content: JSON.stringify({
-              trajectories: [
-                {
-                  date: '2024-01-01',
-                  metrics: { ctr: 0.045 },
-                  confidence: 0.8
-                }
-              ],
-              confidence_intervals: [
-                { lower: 0.04, upper: 0.05, confidence_level: 0.8 }
-              ],
-              feature_importance: [
-                { feature: 'budget', importance: 0.5, category: 'campaign' }
-              ]
-            })
-          }
-        }]
-      };
-
-      const result = (predictor as any).parseGPTResponse(mockGPTResponse);
-      
-      expect(result.trajectories).toHaveLength(1);
-      expect(result.trajectories[0].date).toBeInstanceOf(Date);
-      expect(result.confidence_intervals).toHaveLength(1);
-      expect(result.feature_importance).toHaveLength(1);
+  describe('configuration', () => {
+    it('should refuse to send an API key from a browser unless allowed', () => {
+      expect(() => new OpenAIPredictor({ ...config, apiKey: 'test-api-key' }))
+        .toThrow('Refusing to send the LLM API key from a browser');
+      expect(() => new OpenAIPredictor({ ...config, apiKey: 'test-api-key', dangerouslyAllowBrowser: true }))
+        .not.toThrow();
     });
 
-    it('should handle missing trajectory data gracefully', () => {
-      const mockGPTResponse = {
-        choices: [{
-          message: {
-            content: JSON.stringify({
-              confidence_intervals: [],
-              feature_importance: []
-            })
-          }
-        }]
-      };
+    it('should identify the endpoint, model and prompt in the cache identity', () => {
+      const openai = new OpenAIPredictor(config, scriptedProvider().provider).describeCall();
+      const local = new OpenAIPredictor({ ...config, baseUrl: 'http://llm.internal:8080/v1', model: 'llama-3.1-70b-instruct' })
+        .describeCall();
 
-      expect(() => (predictor as any).parseGPTResponse(mockGPTResponse)).toThrow();
+      expect(openai).toMatchObject({ provider: 'openai', model: 'gpt-4o', parameters: { temperature: 0.3, maxTokens: 4000 } });
+      expect(local).toMatchObject({ provider: 'http://llm.internal:8080/v1', model: 'llama-3.1-70b-instruct' });
+      expect(local.promptVersion).toBe(openai.promptVersion);
     });
   });
 
-  describe('calculateOverallConfidence', () => {
-    it('should calculate confidence from trajectory data', () => {
-      const trajectories = [
-        { date: new Date(), metrics: { ctr: 0.045 }, confidence: 0.8 },
-        { date: new Date(), metrics: { ctr: 0.048 }, confidence: 0.85 },
-        { date: new Date(), metrics: { ctr: 0.052 }, confidence: 0.9 }
-      ];
-
-      const confidence = (predictor as any).calculateOverallConfidence(trajectories, mockDataset.dataQuality);
-      
-      expect(confidence).toBeGreaterThan(0.7);
-      expect(confidence).toBeLessThanOrEqual(1.0);
+  describe('self-hosted endpoint', () => {
+    let server: MockLLMServer;
+
+    beforeAll(async () => {
+      server = await startMockLLMServer();
     });
 
-    it('should penalize confidence for low data quality', () => {
-      const trajectories = [
-        { date: new Date(), metrics: { ctr: 0.045 }, confidence: 0.9 }
-      ];
+    afterAll(async () => {
+      await server.close();
+    });
 
-      const lowQualityDataset = {
-        ...mockDataset.dataQuality,
-        overall: 0.3
-      };
+    it('should forecast through the configured base URL without credentials', async () => {
+      const predictor = new OpenAIPredictor({
+        ...config,
+        baseUrl: server.baseUrl,
+        model: 'llama-3.1-70b-instruct',
+        jsonMode: false
+      });
+      server.reply({ content: JSON.stringify(forecastResponse) });
+
+      const result = await predictor.predict(mockDataset);
+
+      const request = server.requests.at(-1)!;
+      expect(request.headers.authorization).toBeUndefined();
+      expect(request.body).toMatchObject({ model: 'llama-3.1-70b-instruct', temperature: 0.3, max_tokens: 4000 });
+      expect(request.body).not.toHaveProperty('response_format');
+      expect(result.trajectories).toHaveLength(2);
+      expect(result.model_metadata).toMatchObject({
+        model_version: 'llama-3.1-70b-instruct',
+        token_usage: { input_tokens: 12, output_tokens: 34 }
+      });
+    });
+
+    it('should surface endpoint failures as model errors', async () => {
+      const predictor = new OpenAIPredictor({ ...config, baseUrl: server.baseUrl, model: 'llama-3.1-70b-instruct' });
+      server.reply({ status: 400, body: 'Unknown model' });
 
-      const confidence = (predictor as any).calculateOverallConfidence(trajectories, lowQualityDataset);
-      
-      expect(confidence).toBeLessThan(0.9);
+      await expect(predictor.predict(mockDataset))
+        .rejects.toMatchObject({ type: 'api_error', code: 'LLM_REQUEST_FAILED' });
     });
   });
-});
\ No newline at end of file
+});
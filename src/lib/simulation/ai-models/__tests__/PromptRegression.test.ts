@@ -0,0 +1,92 @@
+/**
+ * Offline prompt regression suite: replays the recorded fixtures against the
+ * current prompt template and response parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  loadPromptRegressionFixture,
+  PromptRegressionFixture,
+  recordPromptRegressionFixture,
+  runPromptRegression
+} from '../PromptRegressionHarness';
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'prompt-regression');
+
+const loadFixtures = (): PromptRegressionFixture[] =>
+  readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => loadPromptRegressionFixture(readFileSync(join(FIXTURE_DIR, file), 'utf8')));
+
+const fixtureNamed = (name: string) => loadFixtures().find(fixture => fixture.name === name)!;
+
+describe('prompt regression fixtures', () => {
+  it('should render every dataset and parse every recorded response as before', () => {
+    const report = runPromptRegression(loadFixtures());
+
+    expect(report.cases.filter(result => !result.passed)).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.promptTemplate).toBe('campaign-forecast@1.2.0');
+    expect(report.parseSuccessRate).toBe(1);
+    expect(report.maxDrift).toBe(0);
+  });
+
+  it('should list fixtures recorded with an older prompt version', () => {
+    expect(runPromptRegression(loadFixtures()).staleFixtures).toEqual([
+      'autumn-brand-awareness',
+      'spring-product-launch',
+      'truncated-response'
+    ]);
+  });
+});
+
+describe('runPromptRegression', () => {
+  it('should score drift between the recorded and the current parse result', () => {
+    const fixture = fixtureNamed('spring-product-launch');
+    fixture.expected!.trajectories[2].impressions *= 1.1;
+    fixture.expected!.scenarios.pop();
+
+    const [result] = runPromptRegression([fixture]).cases;
+
+    expect(result.parsed).toBe(true);
+    expect(result.passed).toBe(false);
+    expect(result.drift).toBe(1);
+    expect(result.driftedFields).toEqual(['trajectories[2].impressions', 'scenarios.length']);
+  });
+
+  it('should fail when a parseable response is rejected or a malformed one accepted', () => {
+    const rejected = { ...fixtureNamed('spring-product-launch'), response: '```json\n{}\n```' };
+    const accepted = { ...fixtureNamed('truncated-response'), response: fixtureNamed('spring-product-launch').response };
+
+    const report = runPromptRegression([rejected, accepted]);
+
+    expect(report.passed).toBe(false);
+    expect(report.parseSuccessRate).toBe(0);
+    expect(report.cases[0].error).toContain('Failed to parse GPT response');
+    expect(report.cases[1].error).toBe('A response recorded as malformed now parses');
+  });
+
+  it('should fail datasets the prompt can no longer be rendered from', () => {
+    const fixture = fixtureNamed('autumn-brand-awareness');
+    fixture.dataset.historicalPerformance = [];
+
+    const [result] = runPromptRegression([fixture], { promptVersion: '1.0.0' }).cases;
+
+    expect(result.rendered).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('Prompt did not render');
+  });
+
+  it('should record the prompt version and parse result of a new response', () => {
+    const { dataset, response } = fixtureNamed('spring-product-launch');
+
+    const fixture = recordPromptRegressionFixture('replayed', dataset, response, { model: 'llama-3.1-70b-instruct' });
+
+    expect(fixture.promptTemplate).toBe('campaign-forecast@1.2.0');
+    expect(fixture.expected?.trajectories).toHaveLength(7);
+    expect(recordPromptRegressionFixture('truncated', dataset, response.slice(0, 200)).expected).toBeNull();
+  });
+});
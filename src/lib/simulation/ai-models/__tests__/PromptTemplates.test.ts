@@ -0,0 +1,52 @@
+/**
+ * Unit tests for versioned prompt templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  CAMPAIGN_FORECAST_PROMPT,
+  getPromptTemplate,
+  listPromptVersions,
+  promptVariables,
+  renderPrompt
+} from '../prompts/PromptTemplates';
+import { SimulationError } from '../../errors';
+
+// Released prompts are immutable; changing one means adding a new version
+const RELEASED_FINGERPRINTS: Record<string, string> = {
+  'campaign-forecast@1.0.0': '72bd3e0f60a69acdee8cf3b15a57d2354d85c6ad08977216efbec72ce0b1211c',
+  'campaign-forecast@1.1.0': 'c5e35503420debc23dc259d07857d957db0d617d85157d6dabf5e820324c7ec6',
+  'campaign-forecast@1.2.0': 'e150a6b2ea9a7b7498599d458d2ac023a19299c86e3ae98d63b51832bad413cb'
+};
+
+describe('prompt templates', () => {
+  it('should keep released versions unchanged', () => {
+    for (const [reference, fingerprint] of Object.entries(RELEASED_FINGERPRINTS)) {
+      const [id, version] = reference.split('@');
+      const template = getPromptTemplate(id, version);
+
+      expect(createHash('sha256').update(`${template.system}\n${template.user}`).digest('hex'), reference)
+        .toBe(fingerprint);
+    }
+  });
+
+  it('should resolve the latest version when none is pinned', () => {
+    expect(listPromptVersions(CAMPAIGN_FORECAST_PROMPT).map(template => template.version)).toEqual(['1.0.0', '1.1.0', '1.2.0']);
+    expect(getPromptTemplate(CAMPAIGN_FORECAST_PROMPT).version).toBe('1.2.0');
+    expect(() => getPromptTemplate(CAMPAIGN_FORECAST_PROMPT, '9.9.9')).toThrow(SimulationError);
+  });
+
+  it('should fill every placeholder and refuse to render with missing variables', () => {
+    const template = getPromptTemplate(CAMPAIGN_FORECAST_PROMPT, '1.0.0');
+    const variables = Object.fromEntries(promptVariables(template).map(name => [name, `<${name}>`]));
+
+    const rendered = renderPrompt(template, variables);
+    expect(rendered.template).toBe('campaign-forecast@1.0.0');
+    expect(rendered.user).toContain('- Name: <campaignName>');
+    expect(rendered.user).not.toMatch(/\{\{/);
+
+    const withoutDays = Object.fromEntries(Object.entries(variables).filter(([name]) => name !== 'days'));
+    expect(() => renderPrompt(template, withoutDays)).toThrow('Missing prompt variables for campaign-forecast@1.0.0: days');
+  });
+});
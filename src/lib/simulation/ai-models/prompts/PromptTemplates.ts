@@ -0,0 +1,116 @@
+/**
+ * Versioned Prompt Templates
+ *
+ * Prompts sent to LLM predictors are stored as versioned artifacts under this
+ * directory, one file per released version. Templates hold `{{variable}}`
+ * placeholders the predictor fills in from the dataset, and a forecast records
+ * the template reference (`id@version`) it was produced with.
+ */
+
+import { SimulationError } from '../../errors';
+import { campaignForecastV1_0_0 } from './campaign-forecast/1.0.0';
+import { campaignForecastV1_1_0 } from './campaign-forecast/1.1.0';
+import { campaignForecastV1_2_0 } from './campaign-forecast/1.2.0';
+
+export interface PromptTemplate {
+  id: string;
+  version: string; // semantic version; released versions never change
+  description: string; // what the version asks for, or changed from the previous one
+  system: string;
+  user: string;
+}
+
+export interface RenderedPrompt {
+  template: string; // reference of the rendered template, e.g. campaign-forecast@1.1.0
+  system: string;
+  user: string;
+}
+
+export const CAMPAIGN_FORECAST_PROMPT = 'campaign-forecast';
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  campaignForecastV1_0_0,
+  campaignForecastV1_1_0,
+  campaignForecastV1_2_0
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Released versions of a prompt, oldest first
+ */
+export function listPromptVersions(id: string): PromptTemplate[] {
+  return PROMPT_TEMPLATES
+    .filter(template => template.id === id)
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * A released prompt version; the latest one when no version is given
+ */
+export function getPromptTemplate(id: string, version?: string): PromptTemplate {
+  const versions = listPromptVersions(id);
+  const template = version
+    ? versions.find(candidate => candidate.version === version)
+    : versions[versions.length - 1];
+
+  if (!template) {
+    throw new SimulationError(
+      `Unknown prompt template: ${id}${version ? `@${version}` : ''}`,
+      'validation_error',
+      'UNKNOWN_PROMPT_TEMPLATE',
+      false,
+      { id, version, available: versions.map(candidate => candidate.version) }
+    );
+  }
+
+  return template;
+}
+
+export function promptReference(template: PromptTemplate): string {
+  return `${template.id}@${template.version}`;
+}
+
+/**
+ * Placeholders a template expects, in order of first use
+ */
+export function promptVariables(template: PromptTemplate): string[] {
+  const text = `${template.system}\n${template.user}`;
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+/**
+ * Fill in a template's placeholders. Every placeholder must have a value, so
+ * a template and the code feeding it cannot silently drift apart.
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+  const missing = promptVariables(template).filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new SimulationError(
+      `Missing prompt variables for ${promptReference(template)}: ${missing.join(', ')}`,
+      'validation_error',
+      'MISSING_PROMPT_VARIABLES',
+      false,
+      { template: promptReference(template), missing }
+    );
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => variables[name]);
+  return {
+    template: promptReference(template),
+    system: fill(template.system),
+    user: fill(template.user)
+  };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
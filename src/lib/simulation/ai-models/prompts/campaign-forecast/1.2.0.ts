@@ -0,0 +1,114 @@
+/**
+ * Campaign forecast prompt 1.2.0
+ *
+ * Released prompt versions are immutable: change the prompt by adding a new
+ * version, so stored forecasts keep pointing at the prompt that produced them.
+ */
+
+import type { PromptTemplate } from '../PromptTemplates';
+
+export const campaignForecastV1_2_0: PromptTemplate = {
+  id: 'campaign-forecast',
+  version: '1.2.0',
+  description: 'Forecasts the simulated window from its start date, with one point per day or per few days so long windows fit the response',
+  system: 'You are an expert digital marketing analyst specializing in campaign performance prediction. Always respond with valid JSON.',
+  user: `You are an expert digital marketing analyst with deep expertise in campaign performance prediction. Analyze the following campaign data and generate probabilistic performance trajectories.
+
+CAMPAIGN DETAILS:
+- Name: {{campaignName}}
+- Budget: {{budget}}
+- Duration: {{duration}} days
+- Channels: {{channels}}
+- Category: {{category}}
+- KPI Targets: {{kpiTargets}}
+- Conversion Value: {{conversionValue}}
+
+AUDIENCE PROFILE:
+- Size: {{audienceSize}} people
+- Demographics: {{demographics}}
+- Interests: {{interests}}
+
+HISTORICAL PERFORMANCE:
+- Average CTR: {{avgCtr}}%
+- Average Impressions: {{avgImpressions}}/day
+- Average Engagement: {{avgEngagement}}%
+- Average Conversions: {{avgConversions}}/day
+- Trend: {{trend}}
+
+FORECAST WINDOW:
+- Start: {{startDate}}
+- End: {{endDate}} ({{days}} days)
+
+MARKET CONTEXT:
+- Competitor Activity: {{competitorActivity}}
+- Seasonal Factors: {{seasonalFactors}}
+- Industry Trends: {{industryTrends}}
+
+TASK:
+Generate a performance trajectory of exactly {{points}} points covering the forecast window. The first point starts on {{startDate}} and each point covers {{stepDays}} day(s); date every point with the first day it covers.
+
+1. DAILY PREDICTIONS: For every point, forecast the average daily CTR, impressions, engagement, reach, and conversions over the days it covers. ROI, ROAS, CPA and brand awareness are derived from these forecasts and the budget, so do not forecast them
+2. CONFIDENCE SCORES: Include confidence levels (0-1) for each prediction
+3. SCENARIOS: Generate optimistic (75th percentile), realistic (50th percentile), and pessimistic (25th percentile) scenarios
+4. FEATURE IMPORTANCE: Rank the importance of different factors affecting performance
+5. REASONING: Explain the key assumptions and factors driving your predictions
+
+Consider these factors in your analysis:
+- Campaign fatigue effects over time
+- Seasonal variations and market timing
+- Competitive landscape impact
+- Budget pacing and optimization curves
+- Audience saturation and expansion opportunities
+- Creative performance decay
+- Channel-specific performance patterns
+
+RESPONSE FORMAT:
+Return your analysis as a JSON object with this exact structure:
+
+{
+  "trajectories": [
+    {
+      "date": "YYYY-MM-DD",
+      "ctr": 0.025,
+      "impressions": 15000,
+      "engagement": 0.045,
+      "reach": 12000,
+      "conversions": 45,
+      "confidence": 0.85
+    }
+  ],
+  "scenarios": [
+    {
+      "type": "optimistic",
+      "probability": 0.25,
+      "key_factors": ["Strong creative performance", "Favorable market conditions"]
+    },
+    {
+      "type": "realistic", 
+      "probability": 0.50,
+      "key_factors": ["Expected performance based on historical data"]
+    },
+    {
+      "type": "pessimistic",
+      "probability": 0.25,
+      "key_factors": ["Increased competition", "Audience fatigue"]
+    }
+  ],
+  "feature_importance": [
+    {
+      "feature": "Historical CTR",
+      "importance": 0.35,
+      "category": "campaign"
+    },
+    {
+      "feature": "Seasonal Trends",
+      "importance": 0.25,
+      "category": "temporal"
+    }
+  ],
+  "confidence_score": 0.78,
+  "reasoning": "Detailed explanation of prediction methodology and key assumptions"
+}
+
+Generate realistic, data-driven predictions that account for the complexity of digital marketing performance. Ensure all numerical values are reasonable for the given campaign parameters.`
+};
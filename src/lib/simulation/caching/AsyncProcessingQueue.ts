@@ -15,6 +15,7 @@ import {
   ProcessingQueue,
   SimulationContext 
 } from "../../../types/simulation";
+import { StageRecord, estimateStageProgress } from "../orchestration/SimulationProgress";
 
 export interface QueueConfig {
   maxConcurrentJobs: number;
@@ -44,6 +45,12 @@ export interface JobProgress {
   lastUpdated: Date;
 }
 
+interface QueueEntryProgress {
+  startedAt?: number;
+  estimatedDuration: number;
+  stages: StageRecord[];
+}
+
 export interface PriorityConfig {
   tier: 'free' | 'pro' | 'enterprise';
   priority: number;
@@ -185,18 +192,30 @@ export class AsyncProcessingQueue {
       return this.activeJobs.get(simulationId)!;
     }
 
-    // Check database for job status
+    // Check database for job status and recorded pipeline stages
     try {
-      // Note: These would use the actual API once generated
-      // const simulation = await this.convex.query(api.simulations.get, { 
-      //   id: simulationId as Id<"simulations"> 
-      // });
-      // const queueEntry = await this.convex.query(api.processingQueue.getBySimulationId, {
-      //   simulationId: simulationId as Id<"simulations">
-      // });
+      const simulation = await this.convex.query(api.simulations.getSimulation, {
+        simulationId: simulationId as Id<"simulations">
+      });
+      if (!simulation) {
+        return null;
+      }
 
-      // Placeholder implementation - always return null for now
-      return null;
+      const queueEntry = {
+        startedAt: simulation.queueMetadata?.startedAt,
+        estimatedDuration: simulation.queueMetadata?.estimatedDuration ?? 30000,
+        stages: simulation.stages ?? []
+      };
+
+      return {
+        simulationId,
+        status: simulation.status,
+        progress: this.calculateProgress(simulation.status, queueEntry),
+        currentStep: this.getCurrentStep(simulation.status, queueEntry),
+        estimatedTimeRemaining: this.estimateTimeRemaining(queueEntry),
+        startedAt: new Date(queueEntry.startedAt ?? simulation.createdAt),
+        lastUpdated: new Date(simulation.updatedAt)
+      };
 
     } catch (error) {
       console.error('Error getting job progress:', error);
@@ -555,17 +574,14 @@ export class AsyncProcessingQueue {
   }
 
   /**
-   * Calculate progress based on status and elapsed time
+   * Calculate progress from status and the recorded pipeline stages
    */
-  private calculateProgress(status: SimulationStatus, startedAt?: number): number {
+  private calculateProgress(status: SimulationStatus, queueEntry: QueueEntryProgress): number {
     switch (status) {
       case 'queued':
         return 0;
       case 'processing':
-        if (!startedAt) return 5;
-        const elapsed = Date.now() - startedAt;
-        // Rough progress estimation based on elapsed time
-        return Math.min(Math.floor((elapsed / 30000) * 100), 95);
+        return Math.floor(this.estimateStages(queueEntry).percentage);
       case 'completed':
         return 100;
       case 'failed':
@@ -577,14 +593,14 @@ export class AsyncProcessingQueue {
   }
 
   /**
-   * Get current step description based on status
+   * Get current step description from status and the running pipeline stage
    */
-  private getCurrentStep(status: SimulationStatus): string {
+  private getCurrentStep(status: SimulationStatus, queueEntry: QueueEntryProgress): string {
     switch (status) {
       case 'queued':
         return 'Waiting in queue';
       case 'processing':
-        return 'Processing simulation';
+        return this.estimateStages(queueEntry).currentStep;
       case 'completed':
         return 'Completed';
       case 'failed':
@@ -599,14 +615,21 @@ export class AsyncProcessingQueue {
   /**
    * Estimate time remaining for a job
    */
-  private estimateTimeRemaining(queueEntry: any): number {
+  private estimateTimeRemaining(queueEntry: QueueEntryProgress): number {
     if (queueEntry.startedAt) {
-      const elapsed = Date.now() - queueEntry.startedAt;
-      return Math.max(0, queueEntry.estimatedDuration - elapsed);
+      return this.estimateStages(queueEntry).remainingMs;
     }
     return queueEntry.estimatedDuration;
   }
 
+  private estimateStages(queueEntry: QueueEntryProgress) {
+    return estimateStageProgress(
+      queueEntry.stages,
+      queueEntry.startedAt,
+      queueEntry.estimatedDuration
+    );
+  }
+
   /**
    * Get count of queued jobs for a user
    */
@@ -0,0 +1,294 @@
+/**
+ * ModelResponseCache - Memoizes individual model calls
+ *
+ * Unlike SimulationCache, which stores whole simulation results keyed on the
+ * request, this cache stores the prediction of a single predictor keyed on
+ * what the model actually saw: the provider, the model, the prompt version and
+ * a canonical fingerprint of the dataset. Simulations that differ only in
+ * what happens after the model calls, such as scenarios, Monte Carlo settings
+ * or the output granularity, reuse the predictions instead of paying for the
+ * calls again.
+ */
+
+import { createHash } from 'crypto';
+import { EnrichedDataset, PredictionOutput } from '../../../types/simulation';
+import {
+  deserializePrediction,
+  serializePrediction
+} from '../orchestration/SimulationResultSerializer';
+
+/**
+ * What a predictor call depends on besides the dataset
+ */
+export interface ModelCallIdentity {
+  provider: string; // e.g. 'openai', or the base URL of a self-hosted endpoint
+  model: string;
+  promptVersion?: string; // prompt template reference, for prompt-driven models
+  parameters?: Record<string, string | number | boolean>; // sampling settings that change the output
+}
+
+export interface CachedModelResponse {
+  key: string;
+  provider: string;
+  model: string;
+  promptVersion?: string;
+  response: string; // serialized PredictionOutput
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Where cached responses live; in memory by default, a Convex table in the runner
+ */
+export interface ModelResponseStore {
+  get(key: string): Promise<CachedModelResponse | null>;
+  set(entry: CachedModelResponse): Promise<void>;
+  recordHit?(key: string): Promise<void>;
+}
+
+export interface ModelResponseCacheConfig {
+  defaultTTL: number; // Time to live in milliseconds
+  ttlByProvider: Record<string, number>; // Overrides of defaultTTL per provider
+  enableMetrics: boolean;
+}
+
+export interface ModelResponseCacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  totalRequests: number;
+  byProvider: Record<string, { hits: number; misses: number; hitRate: number }>;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Fields that record when data was fetched rather than what it contains
+const VOLATILE_FIELDS = new Set(['timestamp']);
+
+/**
+ * Process-local store, bounded to the most recently used entries
+ */
+export class InMemoryModelResponseStore implements ModelResponseStore {
+  private entries: Map<string, CachedModelResponse> = new Map();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CachedModelResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Re-insert so eviction drops the least recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: CachedModelResponse): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class ModelResponseCache {
+  private store: ModelResponseStore;
+  private config: ModelResponseCacheConfig;
+  private metrics: ModelResponseCacheMetrics;
+
+  constructor(
+    store: ModelResponseStore = new InMemoryModelResponseStore(),
+    config?: Partial<ModelResponseCacheConfig>
+  ) {
+    this.store = store;
+    this.config = {
+      defaultTTL: 24 * 60 * 60 * 1000, // 24 hours default
+      ttlByProvider: {},
+      enableMetrics: true,
+      ...config
+    };
+    this.metrics = emptyMetrics();
+  }
+
+  /**
+   * Cache key of a model call on a dataset
+   */
+  buildKey(identity: ModelCallIdentity, dataset: EnrichedDataset): string {
+    const hash = createHash('sha256')
+      .update(JSON.stringify({
+        provider: identity.provider,
+        model: identity.model,
+        promptVersion: identity.promptVersion ?? null,
+        parameters: canonicalize(identity.parameters ?? {}),
+        inputs: fingerprintDataset(dataset)
+      }))
+      .digest('hex');
+
+    return `model_${hash}`;
+  }
+
+  /**
+   * Cached prediction of a model call, or null when missing or expired
+   */
+  async get(identity: ModelCallIdentity, dataset: EnrichedDataset): Promise<PredictionOutput | null> {
+    const key = this.buildKey(identity, dataset);
+
+    try {
+      const entry = await this.store.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        this.updateMetrics(identity.provider, 'miss');
+        return null;
+      }
+
+      this.updateMetrics(identity.provider, 'hit');
+      await this.store.recordHit?.(key);
+
+      const prediction = deserializePrediction(entry.response);
+      return {
+        ...prediction,
+        model_metadata: { ...prediction.model_metadata, cached: true }
+      };
+    } catch (error) {
+      // A cache that cannot be read is a miss; the model is called instead
+      console.error('Error reading model response cache:', error);
+      this.updateMetrics(identity.provider, 'miss');
+      return null;
+    }
+  }
+
+  /**
+   * Store the prediction of a model call
+   */
+  async set(
+    identity: ModelCallIdentity,
+    dataset: EnrichedDataset,
+    prediction: PredictionOutput,
+    ttl?: number
+  ): Promise<void> {
+    const now = Date.now();
+
+    try {
+      await this.store.set({
+        key: this.buildKey(identity, dataset),
+        provider: identity.provider,
+        model: identity.model,
+        ...(identity.promptVersion !== undefined ? { promptVersion: identity.promptVersion } : {}),
+        response: serializePrediction(prediction),
+        createdAt: now,
+        expiresAt: now + (ttl ?? this.ttlFor(identity.provider))
+      });
+    } catch (error) {
+      // Don't throw - caching failures shouldn't break the simulation
+      console.error('Error storing model response:', error);
+    }
+  }
+
+  /**
+   * Return the cached prediction of a model call, or run it and cache the result.
+   * Failed calls are not cached.
+   */
+  async getOrPredict(
+    identity: ModelCallIdentity,
+    dataset: EnrichedDataset,
+    predict: () => Promise<PredictionOutput>
+  ): Promise<PredictionOutput> {
+    const cached = await this.get(identity, dataset);
+    if (cached) {
+      return cached;
+    }
+
+    const prediction = await predict();
+    await this.set(identity, dataset, prediction);
+    return prediction;
+  }
+
+  getMetrics(): ModelResponseCacheMetrics {
+    return {
+      ...this.metrics,
+      byProvider: Object.fromEntries(
+        Object.entries(this.metrics.byProvider).map(([provider, counts]) => [provider, { ...counts }])
+      )
+    };
+  }
+
+  resetMetrics(): void {
+    this.metrics = emptyMetrics();
+  }
+
+  getConfig(): ModelResponseCacheConfig {
+    return { ...this.config, ttlByProvider: { ...this.config.ttlByProvider } };
+  }
+
+  private ttlFor(provider: string): number {
+    return this.config.ttlByProvider[provider] ?? this.config.defaultTTL;
+  }
+
+  private updateMetrics(provider: string, type: 'hit' | 'miss'): void {
+    if (!this.config.enableMetrics) return;
+
+    const counts = this.metrics.byProvider[provider] ?? { hits: 0, misses: 0, hitRate: 0 };
+    if (type === 'hit') {
+      this.metrics.hits++;
+      counts.hits++;
+    } else {
+      this.metrics.misses++;
+      counts.misses++;
+    }
+
+    this.metrics.totalRequests++;
+    this.metrics.hitRate = this.metrics.hits / this.metrics.totalRequests;
+    counts.hitRate = counts.hits / (counts.hits + counts.misses);
+    this.metrics.byProvider[provider] = counts;
+  }
+}
+
+/**
+ * Canonical fingerprint of a dataset. Object keys are sorted and fetch
+ * timestamps are left out, so datasets aggregated from the same data at
+ * different times match. Every other Date counts to the millisecond.
+ */
+export function fingerprintDataset(dataset: EnrichedDataset): string {
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(dataset)))
+    .digest('hex');
+}
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => !VOLATILE_FIELDS.has(key) && (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+}
+
+function emptyMetrics(): ModelResponseCacheMetrics {
+  return {
+    hits: 0,
+    misses: 0,
+    hitRate: 0,
+    totalRequests: 0,
+    byProvider: {}
+  };
+}
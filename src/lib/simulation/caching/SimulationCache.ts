@@ -284,8 +284,8 @@ export class SimulationCache {
     // Add value for each metric
     value += request.metrics.length * 5;
 
-    // Add value for daily granularity (more data points)
-    if (request.timeframe.granularity === 'daily') {
+    // Add value for finer granularities (more data points)
+    if (request.timeframe.granularity === 'hourly' || request.timeframe.granularity === 'daily') {
       value += 15;
     }
 
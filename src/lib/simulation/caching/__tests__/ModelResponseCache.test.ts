@@ -0,0 +1,233 @@
+/**
+ * Unit tests for the model response cache
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  InMemoryModelResponseStore,
+  ModelCallIdentity,
+  ModelResponseCache,
+  fingerprintDataset
+} from '../ModelResponseCache';
+import { EnrichedDataset, PredictionOutput } from '../../../../types/simulation';
+
+const buildDataset = (overrides: Partial<EnrichedDataset> = {}): EnrichedDataset => ({
+  campaign: {
+    id: 'campaign_1',
+    name: 'Spring Launch',
+    budget: 10000,
+    startDate: new Date('2024-03-01T00:00:00Z'),
+    endDate: new Date('2024-03-31T00:00:00Z')
+  },
+  historicalPerformance: [
+    { date: new Date('2024-02-01T00:00:00Z'), metric: 'ctr', value: 0.031 },
+    { date: new Date('2024-02-02T00:00:00Z'), metric: 'ctr', value: 0.034 }
+  ],
+  marketData: {
+    competitorActivity: [
+      { competitor: 'Acme', metric: 'share_of_voice', value: 0.2, date: new Date('2024-02-28T09:15:00Z'), source: 'default' }
+    ]
+  },
+  externalData: [
+    { source: 'google_trends', type: 'trends', data: { interest: 62 }, timestamp: new Date('2024-02-28T09:15:00Z'), reliability: 0.8 }
+  ],
+  dataQuality: { completeness: 0.9, accuracy: 0.9, freshness: 0.8, consistency: 0.9, overall: 0.875 },
+  ...overrides
+} as unknown as EnrichedDataset);
+
+const buildPrediction = (ctr: number): PredictionOutput => ({
+  trajectories: [
+    { date: new Date('2024-03-01T00:00:00Z'), metrics: { ctr }, confidence: 0.8 }
+  ],
+  confidence_intervals: [{ lower: ctr * 0.9, upper: ctr * 1.1, confidence_level: 0.8 }],
+  feature_importance: [],
+  model_metadata: {
+    model_name: 'openai-gpt4o',
+    model_version: 'gpt-4o-2024-08-06',
+    confidence_score: 0.8,
+    processing_time: 1200,
+    data_quality: { completeness: 0.9, accuracy: 0.9, freshness: 0.8, consistency: 0.9, overall: 0.875 },
+    feature_count: 0,
+    prediction_horizon: 1,
+    token_usage: { input_tokens: 2000, output_tokens: 1000 }
+  }
+});
+
+const openai: ModelCallIdentity = {
+  provider: 'openai',
+  model: 'gpt-4o',
+  promptVersion: 'campaign-forecast@1.1.0',
+  parameters: { temperature: 0.3, maxTokens: 4000 }
+};
+
+describe('fingerprintDataset', () => {
+  it('should ignore key order and fetch timestamps', () => {
+    const dataset = buildDataset();
+    const reaggregated = buildDataset({
+      marketData: {
+        competitorActivity: [
+          { source: 'default', date: new Date('2024-02-28T09:15:00Z'), value: 0.2, metric: 'share_of_voice', competitor: 'Acme' }
+        ]
+      } as unknown as EnrichedDataset['marketData'],
+      externalData: [
+        { source: 'google_trends', type: 'trends', data: { interest: 62 }, timestamp: new Date('2024-02-28T18:00:00Z'), reliability: 0.8 }
+      ]
+    });
+
+    expect(fingerprintDataset(reaggregated)).toBe(fingerprintDataset(dataset));
+  });
+
+  it('should change when the data the model sees changes', () => {
+    const dataset = buildDataset();
+    const changed = buildDataset({
+      historicalPerformance: [
+        { date: new Date('2024-02-01T00:00:00Z'), metric: 'ctr', value: 0.031 },
+        { date: new Date('2024-02-02T00:00:00Z'), metric: 'ctr', value: 0.036 }
+      ]
+    });
+
+    expect(fingerprintDataset(changed)).not.toBe(fingerprintDataset(dataset));
+  });
+
+  it('should tell apart dates within the same day', () => {
+    const dataset = buildDataset();
+    const later = buildDataset({
+      historicalPerformance: [
+        { date: new Date('2024-02-01T12:00:00Z'), metric: 'ctr', value: 0.031 },
+        { date: new Date('2024-02-02T00:00:00Z'), metric: 'ctr', value: 0.034 }
+      ]
+    });
+
+    expect(fingerprintDataset(later)).not.toBe(fingerprintDataset(dataset));
+  });
+});
+
+describe('ModelResponseCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should key calls on provider, model, prompt version and sampling settings', () => {
+    const cache = new ModelResponseCache();
+    const dataset = buildDataset();
+    const key = cache.buildKey(openai, dataset);
+
+    expect(cache.buildKey({ ...openai }, buildDataset())).toBe(key);
+    expect(cache.buildKey({ ...openai, provider: 'http://localhost:8080/v1' }, dataset)).not.toBe(key);
+    expect(cache.buildKey({ ...openai, model: 'gpt-4o-mini' }, dataset)).not.toBe(key);
+    expect(cache.buildKey({ ...openai, promptVersion: 'campaign-forecast@1.0.0' }, dataset)).not.toBe(key);
+    expect(cache.buildKey({ ...openai, parameters: { temperature: 0.7, maxTokens: 4000 } }, dataset)).not.toBe(key);
+  });
+
+  it('should call the model once for identical inputs and flag the cached response', async () => {
+    const cache = new ModelResponseCache();
+    const predict = vi.fn().mockResolvedValue(buildPrediction(0.032));
+
+    const first = await cache.getOrPredict(openai, buildDataset(), predict);
+    const second = await cache.getOrPredict(openai, buildDataset(), predict);
+
+    expect(predict).toHaveBeenCalledTimes(1);
+    expect(first.model_metadata.cached).toBeUndefined();
+    expect(second.model_metadata.cached).toBe(true);
+    expect(second.trajectories[0].date).toEqual(new Date('2024-03-01T00:00:00Z'));
+    expect(second.trajectories[0].metrics.ctr).toBe(0.032);
+  });
+
+  it('should not cache failed calls', async () => {
+    const cache = new ModelResponseCache();
+    const predict = vi.fn()
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce(buildPrediction(0.032));
+
+    await expect(cache.getOrPredict(openai, buildDataset(), predict)).rejects.toThrow('Service unavailable');
+    await cache.getOrPredict(openai, buildDataset(), predict);
+
+    expect(predict).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire responses after the TTL of their provider', async () => {
+    const now = Date.UTC(2024, 2, 1);
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+    const cache = new ModelResponseCache(undefined, { defaultTTL: 60_000, ttlByProvider: { openai: 1000 } });
+    const huggingface: ModelCallIdentity = { provider: 'huggingface', model: 'facebook/prophet' };
+
+    await cache.set(openai, buildDataset(), buildPrediction(0.032));
+    await cache.set(huggingface, buildDataset(), buildPrediction(0.03));
+    clock.mockReturnValue(now + 5000);
+
+    expect(await cache.get(openai, buildDataset())).toBeNull();
+    expect(await cache.get(huggingface, buildDataset())).not.toBeNull();
+  });
+
+  it('should report hit rates overall and by provider', async () => {
+    const cache = new ModelResponseCache();
+    const huggingface: ModelCallIdentity = { provider: 'huggingface', model: 'facebook/prophet' };
+    const predict = vi.fn().mockResolvedValue(buildPrediction(0.032));
+
+    await cache.getOrPredict(openai, buildDataset(), predict);
+    await cache.getOrPredict(openai, buildDataset(), predict);
+    await cache.getOrPredict(openai, buildDataset(), predict);
+    await cache.getOrPredict(huggingface, buildDataset(), predict);
+
+    const metrics = cache.getMetrics();
+    expect(metrics).toMatchObject({ hits: 2, misses: 2, totalRequests: 4, hitRate: 0.5 });
+    expect(metrics.byProvider.openai).toEqual({ hits: 2, misses: 1, hitRate: 2 / 3 });
+    expect(metrics.byProvider.huggingface).toEqual({ hits: 0, misses: 1, hitRate: 0 });
+  });
+
+  it('should count hits in the store', async () => {
+    const memory = new InMemoryModelResponseStore();
+    const store = {
+      get: (key: string) => memory.get(key),
+      set: (entry: Parameters<typeof memory.set>[0]) => memory.set(entry),
+      recordHit: vi.fn().mockResolvedValue(undefined)
+    };
+    const cache = new ModelResponseCache(store);
+    const predict = vi.fn().mockResolvedValue(buildPrediction(0.032));
+
+    await cache.getOrPredict(openai, buildDataset(), predict);
+    await cache.getOrPredict(openai, buildDataset(), predict);
+
+    expect(store.recordHit).toHaveBeenCalledTimes(1);
+    expect(store.recordHit).toHaveBeenCalledWith(cache.buildKey(openai, buildDataset()));
+  });
+
+  it('should call the model when the store fails', async () => {
+    const store = {
+      get: vi.fn().mockRejectedValue(new Error('Convex unavailable')),
+      set: vi.fn().mockRejectedValue(new Error('Convex unavailable'))
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new ModelResponseCache(store);
+    const predict = vi.fn().mockResolvedValue(buildPrediction(0.032));
+
+    const prediction = await cache.getOrPredict(openai, buildDataset(), predict);
+
+    expect(prediction.trajectories[0].metrics.ctr).toBe(0.032);
+    expect(predict).toHaveBeenCalledTimes(1);
+    expect(cache.getMetrics().misses).toBe(1);
+  });
+});
+
+describe('InMemoryModelResponseStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new InMemoryModelResponseStore(2);
+    const entry = (key: string) => ({
+      key,
+      provider: 'openai',
+      model: 'gpt-4o',
+      response: '{}',
+      createdAt: 0,
+      expiresAt: Number.MAX_SAFE_INTEGER
+    });
+
+    await store.set(entry('a'));
+    await store.set(entry('b'));
+    await store.get('a');
+    await store.set(entry('c'));
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+  });
+});
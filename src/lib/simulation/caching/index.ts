@@ -8,9 +8,22 @@
 
 export { SimulationCache } from "./SimulationCache";
 export { AsyncProcessingQueue } from "./AsyncProcessingQueue";
+export {
+  ModelResponseCache,
+  InMemoryModelResponseStore,
+  fingerprintDataset,
+} from "./ModelResponseCache";
 
 export type { CacheMetrics, CacheConfig } from "./SimulationCache";
 
+export type {
+  ModelCallIdentity,
+  CachedModelResponse,
+  ModelResponseStore,
+  ModelResponseCacheConfig,
+  ModelResponseCacheMetrics,
+} from "./ModelResponseCache";
+
 export type {
   QueueConfig,
   QueueMetrics,
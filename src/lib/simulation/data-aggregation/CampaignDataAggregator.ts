@@ -13,6 +13,7 @@ import {
   AudienceData, 
   CreativeData, 
   BudgetData,
+  SpendRecord,
   ValidationResult,
   DataQualityScore
 } from "../../../types/simulation";
@@ -69,8 +70,9 @@ export class CampaignDataAggregator {
       // Extract creative assets information
       const creativeAssets = this.extractCreativeAssets(campaign);
 
-      // Calculate budget allocation data
-      const budgetAllocation = this.calculateBudgetAllocation(campaign);
+      // Calculate budget allocation data against recorded spend
+      const spend = await this.fetchSpendLedger(campaignId, convexQuery);
+      const budgetAllocation = this.calculateBudgetAllocation(campaign, spend);
 
       const dataset: CampaignDataset = {
         campaign,
@@ -127,8 +129,11 @@ export class CampaignDataAggregator {
       status: campaignDoc.status,
       category: campaignDoc.category,
       channels: campaignDoc.channels || [],
+      channelBudgets: campaignDoc.budgetAllocation?.channels,
       audiences: campaignDoc.audiences || [],
-      kpis: campaignDoc.kpis || []
+      kpis: campaignDoc.kpis || [],
+      customMetrics: campaignDoc.customMetrics || [],
+      ...(campaignDoc.conversionValue !== undefined ? { conversionValue: campaignDoc.conversionValue } : {})
     };
   }
 
@@ -150,6 +155,31 @@ export class CampaignDataAggregator {
     return [];
   }
 
+  /**
+   * Fetch recorded spend for the campaign from the spend ledger.
+   * Campaigns without recorded spend are simulated as not having spent yet.
+   */
+  private async fetchSpendLedger(
+    campaignId: Id<"campaigns">,
+    convexQuery: any
+  ): Promise<SpendRecord[]> {
+    try {
+      const entries = await convexQuery("spendLedger:getCampaignSpend", { campaignId });
+      if (!Array.isArray(entries)) {
+        return [];
+      }
+
+      return entries.map((entry: { date: number; channel: string; amount: number }) => ({
+        date: new Date(entry.date),
+        channel: entry.channel,
+        amount: entry.amount
+      }));
+    } catch (error) {
+      console.warn('Spend ledger unavailable, assuming no spend:', error);
+      return [];
+    }
+  }
+
   /**
    * Extract audience insights from campaign configuration
    */
@@ -238,26 +268,36 @@ export class CampaignDataAggregator {
   /**
    * Calculate budget allocation data from campaign configuration
    */
-  private calculateBudgetAllocation(campaign: CampaignData): BudgetData {
+  private calculateBudgetAllocation(campaign: CampaignData, spend: SpendRecord[]): BudgetData {
     const allocated: Record<string, number> = {};
     const spent: Record<string, number> = {};
     const remaining: Record<string, number> = {};
 
-    // Extract budget allocation from channels
+    // The campaign's budget allocation takes precedence over per-channel budgets
     campaign.channels.forEach(channel => {
-      allocated[channel.type] = channel.budget;
-      spent[channel.type] = 0; // No spending data available yet
-      remaining[channel.type] = channel.budget;
+      allocated[channel.type] = campaign.channelBudgets?.[channel.type] ?? channel.budget;
+    });
+    Object.entries(campaign.channelBudgets ?? {}).forEach(([channel, budget]) => {
+      allocated[channel] = budget;
     });
 
-    // Also include budget allocation from campaign budgetAllocation if available
-    // Note: budgetAllocation is stored in the campaign channels array in current schema
+    Object.keys(allocated).forEach(channel => {
+      spent[channel] = 0;
+    });
+    spend.forEach(record => {
+      spent[record.channel] = (spent[record.channel] ?? 0) + record.amount;
+    });
+
+    Object.keys(spent).forEach(channel => {
+      remaining[channel] = (allocated[channel] ?? 0) - spent[channel];
+    });
 
     return {
       total: campaign.budget,
       allocated,
       spent,
-      remaining
+      remaining,
+      ...(spend.length > 0 ? { dailySpend: spend } : {})
     };
   }
 
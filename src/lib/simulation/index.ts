@@ -22,6 +22,9 @@ export * from './orchestration';
 // Export caching and performance optimization utilities
 export * from './caching';
 
+// Export AI usage pricing and quotas
+export * from './usage';
+
 // Export utility functions
 export { 
   SimulationErrorHandler,
@@ -101,8 +104,10 @@ export const CHANNEL_TYPES = {
 export const RISK_TYPES = {
   PERFORMANCE_DIP: 'performance_dip',
   BUDGET_OVERRUN: 'budget_overrun',
+  BUDGET_UNDERPACING: 'budget_underpacing',
   AUDIENCE_FATIGUE: 'audience_fatigue',
-  COMPETITOR_THREAT: 'competitor_threat'
+  COMPETITOR_THREAT: 'competitor_threat',
+  CUSTOM_RULE: 'custom_rule'
 } as const;
 
 // Recommendation type mappings
@@ -0,0 +1,586 @@
+/**
+ * BudgetAllocationOptimizer
+ *
+ * Fits a diminishing-returns response curve per channel and KPI from recorded
+ * spend and actuals, anchored on channel benchmarks calibrated to simulation
+ * output, and splits a total budget across channels to maximize the weighted
+ * KPI objective within per-channel minimums and maximums.
+ */
+
+/**
+ * Additive volumes the curves are fitted on. Rates and costs are not additive
+ * across channels, so each KPI is optimized through the volume it depends on.
+ */
+export type ResponseMetric = 'impressions' | 'reach' | 'clicks' | 'engagements' | 'conversions';
+
+export const RESPONSE_METRICS: ResponseMetric[] = ['impressions', 'reach', 'clicks', 'engagements', 'conversions'];
+
+// At a fixed budget a lower CPC or CPM means more clicks or impressions, and a
+// higher ROI means more conversions
+export const KPI_RESPONSE_METRICS: Record<string, ResponseMetric> = {
+  reach: 'reach',
+  brand_awareness: 'reach',
+  engagement: 'engagements',
+  conversions: 'conversions',
+  roi: 'conversions',
+  ctr: 'clicks',
+  cpc: 'clicks',
+  cpm: 'impressions'
+};
+
+export interface ChannelBenchmark {
+  cpm: number;
+  ctr: number;
+  conversionRate: number; // conversions per click
+  engagementRate: number; // engagements per impression
+  reachRatio: number; // unique reach per impression
+}
+
+export const CHANNEL_BENCHMARKS: Record<string, ChannelBenchmark> = {
+  facebook: { cpm: 9, ctr: 0.012, conversionRate: 0.08, engagementRate: 0.03, reachRatio: 0.55 },
+  instagram: { cpm: 8, ctr: 0.01, conversionRate: 0.06, engagementRate: 0.04, reachRatio: 0.6 },
+  twitter: { cpm: 6, ctr: 0.009, conversionRate: 0.04, engagementRate: 0.02, reachRatio: 0.6 },
+  linkedin: { cpm: 30, ctr: 0.006, conversionRate: 0.1, engagementRate: 0.01, reachRatio: 0.5 },
+  google: { cpm: 12, ctr: 0.03, conversionRate: 0.07, engagementRate: 0.005, reachRatio: 0.45 },
+  google_ads: { cpm: 12, ctr: 0.03, conversionRate: 0.07, engagementRate: 0.005, reachRatio: 0.45 },
+  youtube: { cpm: 10, ctr: 0.005, conversionRate: 0.03, engagementRate: 0.02, reachRatio: 0.5 },
+  email: { cpm: 4, ctr: 0.025, conversionRate: 0.05, engagementRate: 0.15, reachRatio: 0.9 },
+  content: { cpm: 15, ctr: 0.015, conversionRate: 0.03, engagementRate: 0.05, reachRatio: 0.7 },
+  pr: { cpm: 20, ctr: 0.004, conversionRate: 0.02, engagementRate: 0.01, reachRatio: 0.8 }
+};
+
+const DEFAULT_BENCHMARK: ChannelBenchmark = {
+  cpm: 10,
+  ctr: 0.01,
+  conversionRate: 0.05,
+  engagementRate: 0.02,
+  reachRatio: 0.55
+};
+
+/**
+ * One day of one campaign: what each channel spent and the metrics recorded
+ */
+export interface SpendObservation {
+  spend: Record<string, number>;
+  metrics: Record<string, number>; // as recorded, e.g. ctr, impressions, conversions
+}
+
+export interface ResponseCurveInput {
+  channels: string[];
+  referenceSpend: Record<string, number>; // daily spend per channel the simulation ran with
+  observations: SpendObservation[];
+  simulatedDaily?: Record<string, number>; // mean daily metrics of the simulated trajectory
+}
+
+export interface ResponseCurveOptions {
+  elasticities?: number[]; // candidate exponents tried when fitting history
+  defaultElasticity?: number; // Default: 0.7
+  minObservations?: number; // Default: 7 days with spend and actuals
+  priorObservations?: number; // Default: 14, how many days the prior counts as
+}
+
+export type ResponseCurveSource = 'history' | 'simulation' | 'benchmark';
+
+/**
+ * Daily volume of a metric from daily spend s on a channel: scale * s^elasticity
+ */
+export interface ResponseCurve {
+  metric: ResponseMetric;
+  elasticity: number;
+  scales: Record<string, number>;
+  source: ResponseCurveSource;
+  observations: number;
+}
+
+export type ResponseCurves = Record<ResponseMetric, ResponseCurve>;
+
+export interface ChannelConstraint {
+  channel: string;
+  min?: number; // over the whole campaign, like the budget
+  max?: number;
+  current?: number;
+}
+
+export interface KpiWeight {
+  type: string;
+  weight: number;
+}
+
+export interface BudgetAllocationInput {
+  totalBudget: number;
+  days: number;
+  channels: ChannelConstraint[];
+  kpis: KpiWeight[];
+  curves: ResponseCurves;
+}
+
+export interface ChannelAllocation {
+  channel: string;
+  budget: number;
+  current?: number;
+  min: number;
+  max?: number;
+  bound: 'min' | 'max' | null;
+  projected: Record<ResponseMetric, number>; // over the campaign
+  marginalReturns: Record<ResponseMetric, number>; // extra volume per extra currency unit
+  marginalObjective: number; // weighted objective gained per extra currency unit
+}
+
+export interface KpiProjection {
+  type: string;
+  metric: ResponseMetric;
+  weight: number; // normalized to sum to 1
+  reference: number; // volume at the current (or even) split
+  optimized: number;
+  change: number; // (optimized - reference) / reference
+}
+
+export interface OptimizedAllocation {
+  allocation: Record<string, number>;
+  channels: ChannelAllocation[];
+  kpis: KpiProjection[];
+  objective: {
+    reference: number; // 1 by construction: each KPI is measured against the reference split
+    optimized: number;
+  };
+  referenceSplit: 'current' | 'even';
+}
+
+const DEFAULT_CURVE_OPTIONS: Required<ResponseCurveOptions> = {
+  elasticities: [0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95],
+  defaultElasticity: 0.7,
+  minObservations: 7,
+  priorObservations: 14
+};
+
+const SEARCH_ITERATIONS = 100;
+
+/**
+ * Additive volumes of a day's recorded metrics. Rates are turned into volumes
+ * through impressions.
+ */
+export function toResponseMetrics(metrics: Record<string, number>): Partial<Record<ResponseMetric, number>> {
+  const volumes: Partial<Record<ResponseMetric, number>> = {};
+  const { impressions } = metrics;
+
+  if (impressions !== undefined) volumes.impressions = impressions;
+  if (metrics.reach !== undefined) volumes.reach = metrics.reach;
+  if (metrics.conversions !== undefined) volumes.conversions = metrics.conversions;
+
+  if (metrics.clicks !== undefined) {
+    volumes.clicks = metrics.clicks;
+  } else if (metrics.ctr !== undefined && impressions !== undefined) {
+    volumes.clicks = metrics.ctr * impressions;
+  }
+
+  if (metrics.engagement !== undefined) {
+    // Engagement is recorded either as a rate or as a count
+    volumes.engagements =
+      metrics.engagement <= 1 && impressions !== undefined ? metrics.engagement * impressions : metrics.engagement;
+  }
+
+  return volumes;
+}
+
+/**
+ * Fit a response curve per metric. Channel benchmarks, scaled so they reproduce
+ * the simulated trajectory at the reference spend, are the prior; recorded
+ * spend and actuals pull the channel scales towards what actually happened.
+ */
+export function fitResponseCurves(
+  input: ResponseCurveInput,
+  options: ResponseCurveOptions = {}
+): ResponseCurves {
+  const opts = { ...DEFAULT_CURVE_OPTIONS, ...options };
+
+  // Channels that only appear in history still explain part of the outcomes
+  const channels = [...new Set([...input.channels, ...input.observations.flatMap(obs => Object.keys(obs.spend))])];
+  const referenceSpend = resolveReferenceSpend(channels, input);
+  const simulated = input.simulatedDaily ? toResponseMetrics(input.simulatedDaily) : {};
+
+  const observations = input.observations.map(obs => ({
+    spend: obs.spend,
+    volumes: toResponseMetrics(obs.metrics)
+  }));
+
+  return Object.fromEntries(
+    RESPONSE_METRICS.map(metric => {
+      const rates = Object.fromEntries(channels.map(channel => [channel, benchmarkRate(channel, metric)]));
+      const benchmarkDaily = input.channels.reduce(
+        (sum, channel) => sum + rates[channel] * (input.referenceSpend[channel] ?? 0),
+        0
+      );
+      const simulatedValue = simulated[metric];
+      const calibration =
+        simulatedValue !== undefined && benchmarkDaily > 0 ? simulatedValue / benchmarkDaily : 1;
+
+      const priorScales = (elasticity: number) =>
+        Object.fromEntries(
+          channels.map(channel => [
+            channel,
+            calibration * rates[channel] * Math.pow(referenceSpend[channel], 1 - elasticity)
+          ])
+        );
+
+      const rows = observations.filter(obs => obs.volumes[metric] !== undefined);
+      if (rows.length < opts.minObservations) {
+        const curve: ResponseCurve = {
+          metric,
+          elasticity: opts.defaultElasticity,
+          scales: priorScales(opts.defaultElasticity),
+          source: simulatedValue !== undefined ? 'simulation' : 'benchmark',
+          observations: rows.length
+        };
+        return [metric, curve];
+      }
+
+      let best: { elasticity: number; scales: Record<string, number>; error: number } | null = null;
+      for (const elasticity of opts.elasticities) {
+        const prior = priorScales(elasticity);
+        const design = rows.map(row => channels.map(channel => Math.pow(row.spend[channel] ?? 0, elasticity)));
+        const targets = rows.map(row => row.volumes[metric]!);
+
+        const penalties = channels.map((channel, c) => {
+          const meanSquare = design.reduce((sum, x) => sum + x[c] * x[c], 0) / design.length;
+          return opts.priorObservations * (meanSquare > 0 ? meanSquare : Math.pow(referenceSpend[channel], 2 * elasticity));
+        });
+        const fitted = ridgeSolve(design, targets, penalties, channels.map(channel => prior[channel]))
+          .map(scale => Math.max(0, scale));
+
+        const error = design.reduce((sum, x, d) => {
+          const predicted = x.reduce((acc, value, c) => acc + value * fitted[c], 0);
+          return sum + Math.pow(targets[d] - predicted, 2);
+        }, 0);
+
+        if (!best || error < best.error) {
+          best = {
+            elasticity,
+            scales: Object.fromEntries(channels.map((channel, c) => [channel, fitted[c]])),
+            error
+          };
+        }
+      }
+
+      const curve: ResponseCurve = {
+        metric,
+        elasticity: best!.elasticity,
+        scales: best!.scales,
+        source: 'history',
+        observations: rows.length
+      };
+      return [metric, curve];
+    })
+  ) as ResponseCurves;
+}
+
+/**
+ * Split the total budget to maximize the weighted KPI objective. Each KPI is
+ * measured relative to its volume at the reference split (the current budgets,
+ * or an even split), so KPIs with different units can be weighed together.
+ * With concave curves the optimum equalizes the marginal objective of every
+ * channel that is not held at its minimum or maximum.
+ */
+export function optimizeBudgetAllocation(input: BudgetAllocationInput): OptimizedAllocation {
+  const { totalBudget, channels, curves } = input;
+  if (!(totalBudget > 0)) {
+    throw new Error('Total budget must be positive');
+  }
+  if (channels.length === 0) {
+    throw new Error('At least one channel is required');
+  }
+  if (new Set(channels.map(constraint => constraint.channel)).size !== channels.length) {
+    throw new Error('Each channel can only be listed once');
+  }
+
+  const days = Math.max(1, input.days);
+  const bounds = channels.map(constraint => {
+    const min = constraint.min ?? 0;
+    const max = constraint.max;
+    if (min < 0 || (max !== undefined && max < min)) {
+      throw new Error(`Invalid budget range for ${constraint.channel}`);
+    }
+    return { min, max };
+  });
+
+  const minimumTotal = bounds.reduce((sum, bound) => sum + bound.min, 0);
+  if (minimumTotal > totalBudget + 0.005) {
+    throw new Error(
+      `Channel minimums (${formatAmount(minimumTotal)}) exceed the total budget (${formatAmount(totalBudget)})`
+    );
+  }
+  if (bounds.every(bound => bound.max !== undefined)) {
+    const maximumTotal = bounds.reduce((sum, bound) => sum + bound.max!, 0);
+    if (maximumTotal < totalBudget - 0.005) {
+      throw new Error(
+        `Channel maximums (${formatAmount(maximumTotal)}) do not cover the total budget (${formatAmount(totalBudget)})`
+      );
+    }
+  }
+
+  const kpis = normalizeKpis(input.kpis);
+  const currentTotal = channels.reduce((sum, constraint) => sum + (constraint.current ?? 0), 0);
+  const referenceSplit = channels.every(constraint => constraint.current !== undefined) && currentTotal > 0
+    ? 'current'
+    : 'even';
+  const reference = channels.map(constraint =>
+    referenceSplit === 'current' ? constraint.current! : totalBudget / channels.length
+  );
+
+  const volumeAt = (metric: ResponseMetric, budgets: number[]) =>
+    channels.reduce(
+      (sum, constraint, c) => sum + days * responseAt(curves[metric], constraint.channel, budgets[c] / days),
+      0
+    );
+
+  // Weight per metric, per unit of its reference volume
+  const metricWeights = new Map<ResponseMetric, number>();
+  kpis.forEach(kpi => {
+    const referenceVolume = volumeAt(kpi.metric, reference);
+    if (referenceVolume > 0) {
+      metricWeights.set(kpi.metric, (metricWeights.get(kpi.metric) ?? 0) + kpi.weight / referenceVolume);
+    }
+  });
+
+  // Marginal objective of a channel's campaign budget
+  const marginal = (c: number, budget: number) =>
+    [...metricWeights].reduce(
+      (sum, [metric, weight]) => sum + weight * marginalAt(curves[metric], channels[c].channel, budget / days),
+      0
+    );
+
+  const spendAt = (c: number, lambda: number) => {
+    const low = bounds[c].min;
+    const high = Math.min(bounds[c].max ?? totalBudget, totalBudget);
+    if (marginal(c, low) <= lambda) return low;
+    if (marginal(c, high) >= lambda) return high;
+
+    let lo = low;
+    let hi = high;
+    for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (marginal(c, mid) > lambda) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  // Search the marginal objective every unconstrained channel ends up at
+  const marginals = channels.map((_, c) => marginal(c, Math.max(bounds[c].min, totalBudget * 1e-9)));
+  let logLow = Math.log(1e-15);
+  let logHigh = Math.log(Math.max(...marginals, 1e-12));
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const logMid = (logLow + logHigh) / 2;
+    const allocated = channels.reduce((sum, _, c) => sum + spendAt(c, Math.exp(logMid)), 0);
+    if (allocated > totalBudget) logLow = logMid;
+    else logHigh = logMid;
+  }
+  const budgets = fillRemainder(
+    channels.map((_, c) => spendAt(c, Math.exp(logHigh))),
+    bounds,
+    totalBudget
+  );
+
+  const rounded = roundToTotal(budgets, totalBudget);
+  const allocation = Object.fromEntries(channels.map((constraint, c) => [constraint.channel, rounded[c]]));
+
+  const kpiProjections = kpis.map(kpi => {
+    const referenceVolume = volumeAt(kpi.metric, reference);
+    const optimized = volumeAt(kpi.metric, rounded);
+    return {
+      type: kpi.type,
+      metric: kpi.metric,
+      weight: kpi.weight,
+      reference: referenceVolume,
+      optimized,
+      change: referenceVolume > 0 ? (optimized - referenceVolume) / referenceVolume : 0
+    };
+  });
+
+  return {
+    allocation,
+    channels: channels.map((constraint, c) => ({
+      channel: constraint.channel,
+      budget: rounded[c],
+      current: constraint.current,
+      min: bounds[c].min,
+      max: bounds[c].max,
+      bound:
+        rounded[c] <= bounds[c].min + 0.005
+          ? 'min'
+          : bounds[c].max !== undefined && rounded[c] >= bounds[c].max! - 0.005
+            ? 'max'
+            : null,
+      projected: Object.fromEntries(
+        RESPONSE_METRICS.map(metric => [
+          metric,
+          days * responseAt(curves[metric], constraint.channel, rounded[c] / days)
+        ])
+      ) as Record<ResponseMetric, number>,
+      marginalReturns: Object.fromEntries(
+        RESPONSE_METRICS.map(metric => [metric, marginalAt(curves[metric], constraint.channel, rounded[c] / days)])
+      ) as Record<ResponseMetric, number>,
+      marginalObjective: marginal(c, rounded[c])
+    })),
+    kpis: kpiProjections,
+    objective: {
+      reference: kpiProjections.reduce((sum, kpi) => sum + (kpi.reference > 0 ? kpi.weight : 0), 0),
+      optimized: kpiProjections.reduce(
+        (sum, kpi) => sum + (kpi.reference > 0 ? (kpi.weight * kpi.optimized) / kpi.reference : 0),
+        0
+      )
+    },
+    referenceSplit
+  };
+}
+
+function normalizeKpis(kpis: KpiWeight[]): Array<{ type: string; metric: ResponseMetric; weight: number }> {
+  const known = kpis.filter(kpi => KPI_RESPONSE_METRICS[kpi.type] && kpi.weight >= 0);
+  if (known.length === 0) {
+    return [{ type: 'conversions', metric: 'conversions', weight: 1 }];
+  }
+
+  // Unweighted KPIs count equally
+  const totalWeight = known.reduce((sum, kpi) => sum + kpi.weight, 0);
+  return known.map(kpi => ({
+    type: kpi.type,
+    metric: KPI_RESPONSE_METRICS[kpi.type],
+    weight: totalWeight > 0 ? kpi.weight / totalWeight : 1 / known.length
+  }));
+}
+
+function benchmarkRate(channel: string, metric: ResponseMetric): number {
+  const benchmark = CHANNEL_BENCHMARKS[channel] ?? DEFAULT_BENCHMARK;
+  const impressions = 1000 / benchmark.cpm;
+
+  switch (metric) {
+    case 'impressions':
+      return impressions;
+    case 'reach':
+      return impressions * benchmark.reachRatio;
+    case 'clicks':
+      return impressions * benchmark.ctr;
+    case 'engagements':
+      return impressions * benchmark.engagementRate;
+    case 'conversions':
+      return impressions * benchmark.ctr * benchmark.conversionRate;
+  }
+}
+
+function resolveReferenceSpend(channels: string[], input: ResponseCurveInput): Record<string, number> {
+  const observed = (channel: string) => {
+    const spends = input.observations.map(obs => obs.spend[channel] ?? 0).filter(spend => spend > 0);
+    return spends.length > 0 ? spends.reduce((sum, spend) => sum + spend, 0) / spends.length : 0;
+  };
+
+  const spends = Object.fromEntries(
+    channels.map(channel => [channel, input.referenceSpend[channel] || observed(channel)])
+  );
+  const positive = Object.values(spends).filter(spend => spend > 0);
+  const fallback = positive.length > 0 ? positive.reduce((sum, spend) => sum + spend, 0) / positive.length : 1;
+
+  return Object.fromEntries(channels.map(channel => [channel, spends[channel] > 0 ? spends[channel] : fallback]));
+}
+
+function responseAt(curve: ResponseCurve, channel: string, dailySpend: number): number {
+  const scale = curve.scales[channel] ?? 0;
+  return dailySpend > 0 ? scale * Math.pow(dailySpend, curve.elasticity) : 0;
+}
+
+function marginalAt(curve: ResponseCurve, channel: string, dailySpend: number): number {
+  const scale = curve.scales[channel] ?? 0;
+  if (scale === 0) return 0;
+  if (dailySpend <= 0) return Number.POSITIVE_INFINITY;
+  return scale * curve.elasticity * Math.pow(dailySpend, curve.elasticity - 1);
+}
+
+/**
+ * Solve (XᵀX + diag(penalties)) a = Xᵀy + diag(penalties) prior, which pulls
+ * each coefficient towards its prior in proportion to its penalty
+ */
+function ridgeSolve(design: number[][], targets: number[], penalties: number[], prior: number[]): number[] {
+  const size = prior.length;
+  const matrix = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) =>
+      design.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? penalties[i] : 0)
+    )
+  );
+  const vector = prior.map(
+    (value, i) => design.reduce((sum, row, d) => sum + row[i] * targets[d], 0) + penalties[i] * value
+  );
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [vector[col], vector[pivot]] = [vector[pivot], vector[col]];
+    if (matrix[col][col] === 0) continue;
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < size; k++) matrix[row][k] -= factor * matrix[col][k];
+      vector[row] -= factor * vector[col];
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    if (matrix[row][row] === 0) {
+      solution[row] = prior[row];
+      continue;
+    }
+    const rest = matrix[row].reduce((sum, value, k) => (k > row ? sum + value * solution[k] : sum), 0);
+    solution[row] = (vector[row] - rest) / matrix[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Hand out what the search left over (channels without any response stay at
+ * their minimum) to channels with room, in proportion to that room
+ */
+function fillRemainder(
+  budgets: number[],
+  bounds: Array<{ min: number; max?: number }>,
+  totalBudget: number
+): number[] {
+  const remainder = totalBudget - budgets.reduce((sum, budget) => sum + budget, 0);
+  if (Math.abs(remainder) < 1e-9) return budgets;
+
+  const room = budgets.map((budget, c) =>
+    remainder > 0 ? (bounds[c].max ?? Number.POSITIVE_INFINITY) - budget : budget - bounds[c].min
+  );
+  if (room.some(value => value === Number.POSITIVE_INFINITY)) {
+    const open = room.filter(value => value === Number.POSITIVE_INFINITY).length;
+    return budgets.map((budget, c) => (room[c] === Number.POSITIVE_INFINITY ? budget + remainder / open : budget));
+  }
+
+  const totalRoom = room.reduce((sum, value) => sum + value, 0);
+  return totalRoom > 0
+    ? budgets.map((budget, c) => budget + (remainder * room[c]) / totalRoom)
+    : budgets;
+}
+
+/**
+ * Round to cents, putting the rounding difference on the largest budget so the
+ * split still adds up to the total
+ */
+function roundToTotal(budgets: number[], totalBudget: number): number[] {
+  const rounded = budgets.map(roundAmount);
+  const difference = roundAmount(totalBudget - rounded.reduce((sum, budget) => sum + budget, 0));
+  if (difference !== 0) {
+    const largest = rounded.indexOf(Math.max(...rounded));
+    rounded[largest] = roundAmount(rounded[largest] + difference);
+  }
+  return rounded;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
@@ -0,0 +1,287 @@
+/**
+ * BudgetPacingForecaster
+ *
+ * Projects end-of-flight spend from the recorded spend ledger against the
+ * campaign budget and each channel's allocation, and raises dated under- and
+ * over-pacing alerts.
+ */
+
+import { SpendRecord } from '../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BudgetPacingInput {
+  budget: number;
+  channelBudgets: Record<string, number>;
+  flightStart: Date;
+  flightEnd: Date;
+  spend: SpendRecord[];
+  asOf: Date; // spend is known up to (not including) this moment
+  currency?: string;
+}
+
+export interface BudgetPacingOptions {
+  overPacingTolerance?: number; // Default: 0.05 (projected 5% over budget)
+  underPacingTolerance?: number; // Default: 0.1 (projected 10% under budget)
+  runRateWindowDays?: number; // Default: 7 trailing days
+}
+
+export type PacingStatus = 'on_track' | 'over_pacing' | 'under_pacing';
+
+export interface PacingProjection {
+  scope: string; // 'total' or a channel type
+  budget: number;
+  spentToDate: number;
+  expectedToDate: number; // spend to date under even pacing
+  dailyRunRate: number;
+  projectedSpend: number;
+  variance: number; // (projected - budget) / budget
+  requiredDailySpend: number; // daily spend that lands exactly on budget
+  exhaustionDate?: Date; // day the budget runs out, if before the flight ends
+  status: PacingStatus;
+}
+
+export interface BudgetPacingAlert {
+  scope: string;
+  type: 'over_pacing' | 'under_pacing';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  date: Date; // when the budget runs out, or from when spend has to change
+  projection: PacingProjection;
+  message: string;
+}
+
+export interface BudgetPacingForecast {
+  asOf: Date;
+  flightDays: number;
+  daysElapsed: number;
+  daysRemaining: number;
+  total: PacingProjection;
+  channels: PacingProjection[];
+  alerts: BudgetPacingAlert[];
+}
+
+export const TOTAL_SCOPE = 'total';
+
+const DEFAULT_OPTIONS: Required<BudgetPacingOptions> = {
+  overPacingTolerance: 0.05,
+  underPacingTolerance: 0.1,
+  runRateWindowDays: 7
+};
+
+/**
+ * Forecast end-of-flight spend for the campaign and each of its channels
+ */
+export function forecastBudgetPacing(
+  input: BudgetPacingInput,
+  options: BudgetPacingOptions = {}
+): BudgetPacingForecast {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const flightStart = startOfDay(input.flightStart).getTime();
+  const flightDays = Math.max(1, Math.ceil((input.flightEnd.getTime() - flightStart) / DAY_MS));
+  const daysElapsed = clamp(Math.floor((input.asOf.getTime() - flightStart) / DAY_MS), 0, flightDays);
+  const asOf = new Date(flightStart + daysElapsed * DAY_MS);
+  const flightEnd = new Date(flightStart + flightDays * DAY_MS);
+
+  const inFlight = input.spend.filter(record => {
+    const time = record.date.getTime();
+    return time >= flightStart && time < asOf.getTime();
+  });
+
+  const window = { asOf, flightEnd, flightDays, daysElapsed, options: opts };
+  const total = projectScope(TOTAL_SCOPE, input.budget, inFlight, window);
+
+  const channelTypes = new Set([
+    ...Object.keys(input.channelBudgets),
+    ...inFlight.map(record => record.channel)
+  ]);
+  const channels = [...channelTypes].sort().map(channel =>
+    projectScope(
+      channel,
+      input.channelBudgets[channel] ?? 0,
+      inFlight.filter(record => record.channel === channel),
+      window
+    )
+  );
+
+  // Nothing can be said about pacing before the first day of spend is in
+  const alerts = daysElapsed === 0
+    ? []
+    : [total, ...channels]
+        .filter(projection => projection.status !== 'on_track')
+        .map(projection => buildAlert(projection, asOf, flightEnd, input.currency ?? 'USD'));
+
+  return {
+    asOf,
+    flightDays,
+    daysElapsed,
+    daysRemaining: flightDays - daysElapsed,
+    total,
+    channels,
+    alerts
+  };
+}
+
+interface PacingWindow {
+  asOf: Date;
+  flightEnd: Date;
+  flightDays: number;
+  daysElapsed: number;
+  options: Required<BudgetPacingOptions>;
+}
+
+function projectScope(
+  scope: string,
+  budget: number,
+  records: SpendRecord[],
+  { asOf, flightDays, daysElapsed, options }: PacingWindow
+): PacingProjection {
+  const spentToDate = sum(records.map(record => record.amount));
+  const daysRemaining = flightDays - daysElapsed;
+
+  // Recent spend reflects bid and budget changes better than the flight average
+  const windowDays = Math.min(options.runRateWindowDays, daysElapsed);
+  const windowStart = asOf.getTime() - windowDays * DAY_MS;
+  const dailyRunRate = windowDays > 0
+    ? sum(records.filter(record => record.date.getTime() >= windowStart).map(record => record.amount)) / windowDays
+    : 0;
+
+  const projectedSpend = spentToDate + dailyRunRate * daysRemaining;
+  const variance = budget > 0
+    ? (projectedSpend - budget) / budget
+    : (projectedSpend > 0 ? 1 : 0);
+
+  let status: PacingStatus = 'on_track';
+  if (variance > options.overPacingTolerance) {
+    status = 'over_pacing';
+  } else if (variance < -options.underPacingTolerance) {
+    status = 'under_pacing';
+  }
+
+  return {
+    scope,
+    budget,
+    spentToDate,
+    expectedToDate: budget * (daysElapsed / flightDays),
+    dailyRunRate,
+    projectedSpend,
+    variance,
+    requiredDailySpend: daysRemaining > 0 ? Math.max(0, budget - spentToDate) / daysRemaining : 0,
+    exhaustionDate: findExhaustionDate(budget, spentToDate, dailyRunRate, records, asOf, daysRemaining),
+    status
+  };
+}
+
+/**
+ * The day cumulative spend reaches the budget: from the ledger if it already
+ * has, otherwise by extending the current run rate
+ */
+function findExhaustionDate(
+  budget: number,
+  spentToDate: number,
+  dailyRunRate: number,
+  records: SpendRecord[],
+  asOf: Date,
+  daysRemaining: number
+): Date | undefined {
+  if (spentToDate >= budget && spentToDate > 0) {
+    let cumulative = 0;
+    const ordered = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+    for (const record of ordered) {
+      cumulative += record.amount;
+      if (cumulative >= budget) {
+        return startOfDay(record.date);
+      }
+    }
+  }
+
+  if (dailyRunRate <= 0) {
+    return undefined;
+  }
+
+  const daysUntilExhausted = Math.floor((budget - spentToDate) / dailyRunRate);
+  return daysUntilExhausted < daysRemaining
+    ? new Date(asOf.getTime() + daysUntilExhausted * DAY_MS)
+    : undefined;
+}
+
+function buildAlert(
+  projection: PacingProjection,
+  asOf: Date,
+  flightEnd: Date,
+  currency: string
+): BudgetPacingAlert {
+  const money = (value: number) => formatMoney(value, currency);
+  const label = projection.scope === TOTAL_SCOPE ? 'Campaign' : projection.scope;
+  const lastDay = formatDay(new Date(flightEnd.getTime() - DAY_MS));
+  const deviation = Math.abs(projection.variance);
+
+  if (projection.status === 'over_pacing') {
+    const exhausted = projection.exhaustionDate;
+    const severity = exhausted && exhausted.getTime() < asOf.getTime()
+      ? 'critical'
+      : deviation >= 0.25 ? 'critical' : deviation >= 0.15 ? 'high' : 'medium';
+
+    const parts = [
+      `${label} is over-pacing: ${money(projection.spentToDate)} of ${money(projection.budget)} spent, ` +
+      `projected ${money(projection.projectedSpend)} by ${lastDay} (${formatVariance(projection.variance)}).`
+    ];
+    if (exhausted) {
+      parts.push(
+        exhausted.getTime() < asOf.getTime()
+          ? `The budget ran out on ${formatDay(exhausted)}.`
+          : `At ${money(projection.dailyRunRate)}/day the budget runs out on ${formatDay(exhausted)}.`
+      );
+    }
+    parts.push(`Cap daily spend at ${money(projection.requiredDailySpend)} to land on budget.`);
+
+    return {
+      scope: projection.scope,
+      type: 'over_pacing',
+      severity,
+      date: exhausted ?? flightEnd,
+      projection,
+      message: parts.join(' ')
+    };
+  }
+
+  return {
+    scope: projection.scope,
+    type: 'under_pacing',
+    severity: deviation >= 0.25 ? 'high' : deviation >= 0.15 ? 'medium' : 'low',
+    date: asOf,
+    projection,
+    message:
+      `${label} is under-pacing: projected ${money(projection.projectedSpend)} of ${money(projection.budget)} ` +
+      `by ${lastDay} (${formatVariance(projection.variance)}). ` +
+      `Raise daily spend to ${money(projection.requiredDailySpend)} from ${formatDay(asOf)} to deliver the budget.`
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatMoney(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+  } catch {
+    return `${Math.round(value)} ${currency}`;
+  }
+}
+
+function formatVariance(variance: number): string {
+  const percent = Math.round(variance * 100);
+  return percent >= 0 ? `+${percent}%` : `${percent}%`;
+}
@@ -0,0 +1,181 @@
+/**
+ * BudgetReallocationPlanner
+ *
+ * Turns the budget move of a budget_reallocation recommendation, or a whole
+ * new channel split, into new campaign channel budgets, and reverts an applied
+ * change as long as the budgets it touched have not changed since.
+ */
+
+import { BudgetReallocation } from '../../../types/simulation';
+
+export interface CampaignBudgetChannel {
+  type: string;
+  budget: number;
+}
+
+export interface CampaignBudgetState<TChannel extends CampaignBudgetChannel = CampaignBudgetChannel> {
+  allocation: Record<string, number>; // campaigns.budgetAllocation.channels
+  channels: TChannel[];
+}
+
+export interface BudgetChannelChange {
+  channel: string;
+  allocationBefore: number;
+  allocationAfter: number;
+  budgetBefore: number; // channels[].budget
+  budgetAfter: number;
+}
+
+export interface BudgetReallocationPlan<TChannel extends CampaignBudgetChannel = CampaignBudgetChannel> {
+  allocation: Record<string, number>;
+  channels: TChannel[];
+  changes: BudgetChannelChange[];
+}
+
+/**
+ * Move budget between two campaign channels, keeping budgetAllocation.channels
+ * and channels[].budget in step
+ */
+export function planBudgetReallocation<TChannel extends CampaignBudgetChannel>(
+  state: CampaignBudgetState<TChannel>,
+  reallocation: BudgetReallocation
+): BudgetReallocationPlan<TChannel> {
+  const { from, to, amount } = reallocation;
+  if (from === to) {
+    throw new Error('Budget has to move between two different channels');
+  }
+  if (!(amount > 0)) {
+    throw new Error('Reallocated amount must be positive');
+  }
+
+  const fromChannel = state.channels.find(channel => channel.type === from);
+  const toChannel = state.channels.find(channel => channel.type === to);
+  if (!fromChannel || !toChannel) {
+    throw new Error(`Campaign has no ${!fromChannel ? from : to} channel`);
+  }
+
+  const available = state.allocation[from] ?? fromChannel.budget;
+  if (available < amount) {
+    throw new Error(
+      `Only ${formatAmount(available)} is allocated to ${from}; cannot move ${formatAmount(amount)}`
+    );
+  }
+
+  const allocationAfter = {
+    [from]: roundAmount(available - amount),
+    [to]: roundAmount((state.allocation[to] ?? toChannel.budget) + amount)
+  };
+
+  const changes = [fromChannel, toChannel].map(channel => ({
+    channel: channel.type,
+    allocationBefore: state.allocation[channel.type] ?? channel.budget,
+    allocationAfter: allocationAfter[channel.type],
+    budgetBefore: channel.budget,
+    budgetAfter: allocationAfter[channel.type]
+  }));
+
+  return {
+    allocation: { ...state.allocation, ...allocationAfter },
+    channels: state.channels.map(channel =>
+      channel.type in allocationAfter ? { ...channel, budget: allocationAfter[channel.type] } : channel
+    ),
+    changes
+  };
+}
+
+/**
+ * Set new budgets for some or all campaign channels, e.g. an optimized split.
+ * Only channels whose budget actually changes are recorded.
+ */
+export function planBudgetAllocation<TChannel extends CampaignBudgetChannel>(
+  state: CampaignBudgetState<TChannel>,
+  budgets: Record<string, number>
+): BudgetReallocationPlan<TChannel> {
+  const allocationAfter: Record<string, number> = {};
+  const changes: BudgetChannelChange[] = [];
+
+  Object.entries(budgets).forEach(([type, amount]) => {
+    const channel = state.channels.find(entry => entry.type === type);
+    if (!channel) {
+      throw new Error(`Campaign has no ${type} channel`);
+    }
+    if (!(amount >= 0)) {
+      throw new Error(`Budget for ${type} cannot be negative`);
+    }
+
+    const allocationBefore = state.allocation[type] ?? channel.budget;
+    const budget = roundAmount(amount);
+    if (budget === allocationBefore && budget === channel.budget) {
+      return;
+    }
+
+    allocationAfter[type] = budget;
+    changes.push({
+      channel: type,
+      allocationBefore,
+      allocationAfter: budget,
+      budgetBefore: channel.budget,
+      budgetAfter: budget
+    });
+  });
+
+  if (changes.length === 0) {
+    throw new Error('The new budgets are the same as the current ones');
+  }
+
+  return {
+    allocation: { ...state.allocation, ...allocationAfter },
+    channels: state.channels.map(channel =>
+      channel.type in allocationAfter ? { ...channel, budget: allocationAfter[channel.type] } : channel
+    ),
+    changes
+  };
+}
+
+/**
+ * Restore the budgets an applied move changed. Refuses when any of them has
+ * been edited since, so an undo never overwrites someone else's change.
+ */
+export function revertBudgetReallocation<TChannel extends CampaignBudgetChannel>(
+  state: CampaignBudgetState<TChannel>,
+  changes: BudgetChannelChange[]
+): BudgetReallocationPlan<TChannel> {
+  for (const change of changes) {
+    const channel = state.channels.find(entry => entry.type === change.channel);
+    if (
+      !channel ||
+      state.allocation[change.channel] !== change.allocationAfter ||
+      channel.budget !== change.budgetAfter
+    ) {
+      throw new Error(`The ${change.channel} budget has changed since; undo is no longer possible`);
+    }
+  }
+
+  const allocation = { ...state.allocation };
+  changes.forEach(change => {
+    allocation[change.channel] = change.allocationBefore;
+  });
+
+  return {
+    allocation,
+    channels: state.channels.map(channel => {
+      const change = changes.find(entry => entry.channel === channel.type);
+      return change ? { ...channel, budget: change.budgetBefore } : channel;
+    }),
+    changes: changes.map(change => ({
+      channel: change.channel,
+      allocationBefore: change.allocationAfter,
+      allocationAfter: change.allocationBefore,
+      budgetBefore: change.budgetAfter,
+      budgetAfter: change.budgetBefore
+    }))
+  };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
@@ -0,0 +1,162 @@
+/**
+ * CampaignInputDiff
+ *
+ * Detects changes to the campaign inputs a simulation forecasts from (budget,
+ * channel plan, audiences, flight dates and KPIs), so results computed for an
+ * earlier plan can be flagged as out of date.
+ */
+
+export type CampaignInputField =
+  | 'budget'
+  | 'channels'
+  | 'audiences'
+  | 'startDate'
+  | 'endDate'
+  | 'kpis';
+
+export interface CampaignInputChange {
+  field: CampaignInputField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The parts of a campaign document a simulation reads
+ */
+export interface SimulatedCampaignInputs {
+  budget: number;
+  currency: string;
+  budgetAllocation: { channels: Record<string, number> };
+  channels: Array<{ type: string; enabled: boolean; budget: number }>;
+  audiences: Array<{ id: string; name: string; demographics: unknown; estimatedSize?: number }>;
+  startDate: number;
+  endDate: number;
+  kpis: Array<{ type: string; target: number; timeframe: string; weight: number }>;
+}
+
+interface InputFieldDefinition {
+  field: CampaignInputField;
+  label: string;
+  describe: (campaign: SimulatedCampaignInputs) => string;
+  // Equality key, when the description does not capture every difference
+  fingerprint?: (campaign: SimulatedCampaignInputs) => string;
+}
+
+const INPUT_FIELDS: InputFieldDefinition[] = [
+  {
+    field: 'budget',
+    label: 'Budget',
+    describe: campaign => formatCurrency(campaign.budget, campaign.currency)
+  },
+  {
+    field: 'channels',
+    label: 'Channels',
+    describe: campaign => {
+      const enabled = campaign.channels.filter(channel => channel.enabled);
+      return enabled.length > 0
+        ? enabled
+            .map(channel => `${channel.type} ${formatCurrency(channelBudget(campaign, channel), campaign.currency)}`)
+            .sort()
+            .join(', ')
+        : 'none';
+    }
+  },
+  {
+    field: 'audiences',
+    label: 'Audiences',
+    describe: campaign => campaign.audiences.length > 0
+      ? campaign.audiences.map(audience => audience.name).sort().join(', ')
+      : 'none',
+    fingerprint: campaign => JSON.stringify(
+      [...campaign.audiences]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(({ id, demographics, estimatedSize }) => ({ id, demographics, estimatedSize }))
+    )
+  },
+  {
+    field: 'startDate',
+    label: 'Start date',
+    describe: campaign => formatDate(campaign.startDate)
+  },
+  {
+    field: 'endDate',
+    label: 'End date',
+    describe: campaign => formatDate(campaign.endDate)
+  },
+  {
+    field: 'kpis',
+    label: 'KPIs',
+    describe: campaign => campaign.kpis.length > 0
+      ? campaign.kpis.map(kpi => `${kpi.type} ${kpi.target}`).sort().join(', ')
+      : 'none',
+    fingerprint: campaign => JSON.stringify(
+      [...campaign.kpis]
+        .sort((a, b) => a.type.localeCompare(b.type))
+        .map(({ type, target, timeframe, weight }) => ({ type, target, timeframe, weight }))
+    )
+  }
+];
+
+/**
+ * Inputs that differ between two versions of a campaign
+ */
+export function diffCampaignInputs(
+  before: SimulatedCampaignInputs,
+  after: SimulatedCampaignInputs
+): CampaignInputChange[] {
+  return INPUT_FIELDS
+    .filter(definition => fingerprintOf(definition, before) !== fingerprintOf(definition, after))
+    .map(definition => {
+      const description = definition.describe(after);
+      return {
+        field: definition.field,
+        label: definition.label,
+        before: definition.describe(before),
+        // Differences the description leaves out, such as audience interests
+        after: description === definition.describe(before) ? `${description} (details changed)` : description
+      };
+    });
+}
+
+/**
+ * Fold further changes into those already recorded against a simulation:
+ * each field keeps the value the simulation ran with and takes the latest
+ * value, and fields changed back to what the simulation saw are dropped
+ */
+export function mergeCampaignInputChanges(
+  recorded: CampaignInputChange[],
+  changes: CampaignInputChange[]
+): CampaignInputChange[] {
+  const merged = new Map(recorded.map(change => [change.field, change]));
+
+  changes.forEach(change => {
+    const existing = merged.get(change.field);
+    merged.set(change.field, existing ? { ...existing, after: change.after } : change);
+  });
+
+  return INPUT_FIELDS
+    .map(definition => merged.get(definition.field))
+    .filter((change): change is CampaignInputChange => change !== undefined && change.before !== change.after);
+}
+
+function channelBudget(campaign: SimulatedCampaignInputs, channel: { type: string; budget: number }): number {
+  return campaign.budgetAllocation.channels[channel.type] ?? channel.budget;
+}
+
+function fingerprintOf(definition: InputFieldDefinition, campaign: SimulatedCampaignInputs): string {
+  return definition.fingerprint ? definition.fingerprint(campaign) : definition.describe(campaign);
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
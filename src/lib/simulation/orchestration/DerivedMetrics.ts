@@ -0,0 +1,147 @@
+/**
+ * DerivedMetrics
+ *
+ * Adds the financial and awareness metrics campaigns report on to a forecast
+ * trajectory: CPA, ROAS and ROI from the planned spend and the campaign's
+ * conversion value, and brand awareness from the share of the target audience
+ * reached. Each point holds the running value from the start of the forecast,
+ * so the last point is the figure for the whole window.
+ */
+
+import { DerivedMetricType, TrajectoryPoint } from '../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DERIVED_METRICS: readonly DerivedMetricType[] = ['cpa', 'roas', 'roi', 'brand_awareness'];
+
+export interface DerivedMetricInputs {
+  dailySpend: number; // planned spend per day over the forecast window
+  conversionValue?: number; // average revenue per conversion
+  audienceSize?: number; // people the campaign targets
+}
+
+export interface SkippedDerivedMetric {
+  metric: DerivedMetricType;
+  reason: string;
+}
+
+export interface DerivedMetricsResult {
+  trajectory: TrajectoryPoint[];
+  skipped: SkippedDerivedMetric[];
+}
+
+interface RunningTotals {
+  spend: number;
+  conversions: number;
+  reach: number;
+}
+
+interface DerivedMetricDefinition {
+  requires: string[]; // forecast metrics the value is computed from
+  missingInput?: (inputs: DerivedMetricInputs) => string | undefined;
+  compute: (totals: RunningTotals, inputs: DerivedMetricInputs) => number;
+}
+
+const missingConversionValue = (inputs: DerivedMetricInputs) =>
+  inputs.conversionValue === undefined ? 'the campaign has no conversion value' : undefined;
+
+const DEFINITIONS: Record<DerivedMetricType, DerivedMetricDefinition> = {
+  cpa: {
+    requires: ['conversions'],
+    // At least one conversion is assumed so the first days do not read as unbounded cost
+    compute: totals => totals.spend / Math.max(1, totals.conversions)
+  },
+  roas: {
+    requires: ['conversions'],
+    missingInput: missingConversionValue,
+    compute: (totals, inputs) =>
+      totals.spend > 0 ? (totals.conversions * (inputs.conversionValue ?? 0)) / totals.spend : 0
+  },
+  roi: {
+    // A fraction of spend: 0.5 is a 50% return
+    requires: ['conversions'],
+    missingInput: missingConversionValue,
+    compute: (totals, inputs) =>
+      totals.spend > 0
+        ? (totals.conversions * (inputs.conversionValue ?? 0) - totals.spend) / totals.spend
+        : 0
+  },
+  brand_awareness: {
+    // Share of the target audience reached so far, a proxy for awareness lift
+    requires: ['reach'],
+    missingInput: inputs => (inputs.audienceSize ? undefined : 'the audience size is unknown'),
+    compute: (totals, inputs) => Math.min(1, totals.reach / (inputs.audienceSize ?? 1))
+  }
+};
+
+export function isDerivedMetric(metric: string): metric is DerivedMetricType {
+  return (DERIVED_METRICS as readonly string[]).includes(metric);
+}
+
+/**
+ * Add every requested derived metric the forecast and campaign provide the
+ * inputs for. Metrics the forecast already carries, e.g. from a model trained
+ * on their history, are kept as forecast.
+ */
+export function deriveMetrics(
+  trajectory: TrajectoryPoint[],
+  metrics: string[],
+  inputs: DerivedMetricInputs
+): DerivedMetricsResult {
+  const available = new Set(trajectory.flatMap(point => Object.keys(point.metrics)));
+  const skipped: SkippedDerivedMetric[] = [];
+
+  const derivable = DERIVED_METRICS
+    .filter(metric => metrics.includes(metric) && !available.has(metric))
+    .filter(metric => {
+      const definition = DEFINITIONS[metric];
+      const missingMetric = definition.requires.find(required => !available.has(required));
+      const reason = missingMetric
+        ? `the forecast has no ${missingMetric}`
+        : definition.missingInput?.(inputs);
+      if (reason) {
+        skipped.push({ metric, reason });
+      }
+      return !reason;
+    });
+
+  if (derivable.length === 0) {
+    return { trajectory, skipped };
+  }
+
+  const totals: RunningTotals = { spend: 0, conversions: 0, reach: 0 };
+  const derived = trajectory.map((point, index) => {
+    totals.spend += inputs.dailySpend * pointDays(trajectory, index);
+    totals.conversions += point.metrics.conversions ?? 0;
+    totals.reach += point.metrics.reach ?? 0;
+
+    return {
+      ...point,
+      metrics: derivable.reduce(
+        (pointMetrics, metric) => {
+          pointMetrics[metric] = DEFINITIONS[metric].compute(totals, inputs);
+          return pointMetrics;
+        },
+        { ...point.metrics }
+      )
+    };
+  });
+
+  return { trajectory: derived, skipped };
+}
+
+/**
+ * Days a trajectory point covers: the spacing to the next point, or from the
+ * previous one for the last point
+ */
+function pointDays(trajectory: TrajectoryPoint[], index: number): number {
+  if (trajectory.length < 2) {
+    return 1;
+  }
+
+  const [from, to] = index < trajectory.length - 1
+    ? [trajectory[index], trajectory[index + 1]]
+    : [trajectory[index - 1], trajectory[index]];
+  const days = (new Date(to.date).getTime() - new Date(from.date).getTime()) / DAY_MS;
+  return days > 0 ? days : 1;
+}
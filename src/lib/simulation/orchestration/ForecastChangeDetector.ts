@@ -0,0 +1,119 @@
+/**
+ * ForecastChangeDetector
+ *
+ * Decides whether a re-run of a campaign's simulation moved the forecast enough
+ * to tell anyone: metric totals that shifted past a threshold, high-severity
+ * risks that appeared, cleared or escalated, and KPI targets whose chance of
+ * being hit moved noticeably.
+ */
+
+import { compareSimulations, riskKey, ComparableSimulation } from './SimulationComparator';
+
+export type ForecastChangeKind = 'forecast' | 'risk' | 'kpi_attainment';
+
+export interface ForecastChange {
+  kind: ForecastChangeKind;
+  key: string;
+  description: string;
+}
+
+export interface ForecastChangeOptions {
+  metricChangeThreshold: number; // Relative change of a metric's flight total
+  attainmentChangeThreshold: number; // Absolute change of a target's probability
+}
+
+const DEFAULT_OPTIONS: ForecastChangeOptions = {
+  metricChangeThreshold: 0.1,
+  attainmentChangeThreshold: 0.15
+};
+
+// Risks worth a notification on their own
+const ALERTING_SEVERITIES = new Set(['high', 'critical']);
+
+/**
+ * Meaningful changes from the previous simulation of a campaign to the current one
+ */
+export function detectForecastChanges(
+  previous: ComparableSimulation,
+  current: ComparableSimulation,
+  options: Partial<ForecastChangeOptions> = {}
+): ForecastChange[] {
+  const { metricChangeThreshold, attainmentChangeThreshold } = { ...DEFAULT_OPTIONS, ...options };
+  // The comparator diffs against the oldest simulation, whatever order they are passed in
+  const [diff] = compareSimulations([
+    trimToSharedDates({ ...previous, createdAt: Math.min(previous.createdAt, current.createdAt - 1) }, current),
+    trimToSharedDates(current, previous)
+  ]).diffs;
+  const changes: ForecastChange[] = [];
+
+  diff.metricDeltas.forEach(delta => {
+    if (delta.relativeChange === null || Math.abs(delta.relativeChange) < metricChangeThreshold) return;
+    changes.push({
+      kind: 'forecast',
+      key: delta.metric,
+      description: `${delta.metric} forecast ${delta.relativeChange > 0 ? 'up' : 'down'} ${formatPercent(Math.abs(delta.relativeChange))} (${formatNumber(delta.baseline)} → ${formatNumber(delta.value)})`
+    });
+  });
+
+  const previousRisks = new Map(previous.results.risks.map(risk => [riskKey(risk), risk]));
+  const currentRisks = new Map(current.results.risks.map(risk => [riskKey(risk), risk]));
+  diff.risks.forEach(({ key, change }) => {
+    const before = previousRisks.get(key);
+    const after = currentRisks.get(key);
+
+    if (change === 'added' && after && ALERTING_SEVERITIES.has(after.severity)) {
+      changes.push({ kind: 'risk', key, description: `New ${after.severity} risk: ${key}` });
+    } else if (change === 'removed' && before && ALERTING_SEVERITIES.has(before.severity)) {
+      changes.push({ kind: 'risk', key, description: `${capitalize(before.severity)} risk cleared: ${key}` });
+    } else if (
+      change === 'changed' &&
+      before &&
+      after &&
+      before.severity !== after.severity &&
+      (ALERTING_SEVERITIES.has(before.severity) || ALERTING_SEVERITIES.has(after.severity))
+    ) {
+      changes.push({ kind: 'risk', key, description: `${key} risk now ${after.severity} (was ${before.severity})` });
+    }
+  });
+
+  const attainmentKey = (attainment: { source: string; name: string; timeframe: string }) =>
+    `${attainment.source}:${attainment.name}:${attainment.timeframe}`;
+  const previousAttainment = new Map((previous.results.kpiAttainment ?? []).map(entry => [attainmentKey(entry), entry]));
+  (current.results.kpiAttainment ?? []).forEach(after => {
+    const before = previousAttainment.get(attainmentKey(after));
+    if (before?.probability === undefined || after.probability === undefined) return;
+    if (Math.abs(after.probability - before.probability) < attainmentChangeThreshold) return;
+    changes.push({
+      kind: 'kpi_attainment',
+      key: after.name,
+      description: `Chance of hitting the ${after.name} target ${formatPercent(before.probability)} → ${formatPercent(after.probability)}`
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Re-runs forecast rolling windows; totals are only comparable over the days
+ * both simulations forecast, so trim the trajectory to those when they overlap
+ */
+function trimToSharedDates(simulation: ComparableSimulation, other: ComparableSimulation): ComparableSimulation {
+  const otherDates = new Set(other.results.trajectories.map(point => point.date));
+  const trajectories = simulation.results.trajectories.filter(point => otherDates.has(point.date));
+  if (trajectories.length === 0) {
+    return simulation;
+  }
+  return { ...simulation, results: { ...simulation.results, trajectories } };
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 100 ? Math.round(value).toLocaleString('en-US') : value.toFixed(2);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,302 @@
+/**
+ * GoalSeekSolver
+ *
+ * Reverse simulation: finds the smallest budget, the shortest flight or the
+ * channel mix that reaches a KPI target with a chosen probability, from the
+ * channel response curves and the spread of simulated outcomes.
+ */
+
+import { ResponseCurve, ResponseCurves, ResponseMetric } from './BudgetAllocationOptimizer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type GoalSeekVariable = 'budget' | 'timeline' | 'channel_mix';
+
+// KPIs whose target is a volume the campaign accumulates
+export const GOAL_SEEK_METRICS: Record<string, ResponseMetric> = {
+  reach: 'reach',
+  engagement: 'engagements',
+  conversions: 'conversions'
+};
+
+const TIMEFRAME_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+
+export interface GoalSeekInput {
+  kpi: {
+    type: string;
+    target: number;
+    timeframe: string; // 'daily' | 'weekly' | 'monthly' | 'campaign'
+  };
+  variable: GoalSeekVariable;
+  probability: number; // chance of reaching the target the answer has to give (0-1)
+  budget: number;
+  startDate: Date;
+  endDate: Date;
+  channels: Array<{ channel: string; budget: number }>;
+  curves: ResponseCurves;
+  uncertainty: number; // coefficient of variation of the simulated KPI total
+}
+
+export interface GoalSeekOptions {
+  maxBudgetMultiple?: number; // Default: 10 times the current budget
+  maxDays?: number; // Default: 365
+}
+
+export interface GoalSeekProjection {
+  budget: number;
+  days: number;
+  endDate: Date;
+  allocation: Record<string, number>;
+  target: number; // over the whole flight
+  expected: number;
+  p10: number;
+  p90: number;
+  probability: number; // of reaching the target
+}
+
+export interface GoalSeekResult {
+  variable: GoalSeekVariable;
+  metric: ResponseMetric;
+  probability: number;
+  reachable: boolean;
+  current: GoalSeekProjection;
+  solution?: GoalSeekProjection; // minimum inputs, when reachable within the search limits
+  message: string;
+}
+
+const DEFAULT_OPTIONS: Required<GoalSeekOptions> = {
+  maxBudgetMultiple: 10,
+  maxDays: 365
+};
+
+/**
+ * Solve for the inputs that reach the KPI target at the requested probability.
+ * Every channel's curve shares the metric's elasticity b, which keeps the
+ * search closed-form: at a fixed split the expected total grows with
+ * budget^b and with days^(1-b), and the best split for a single metric is
+ * proportional to scale^(1/(1-b)) whatever the budget.
+ */
+export function solveGoalSeek(input: GoalSeekInput, options: GoalSeekOptions = {}): GoalSeekResult {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const metric = GOAL_SEEK_METRICS[input.kpi.type];
+  if (!metric) {
+    throw new Error(`Goal seek supports ${Object.keys(GOAL_SEEK_METRICS).join(', ')} targets, not ${input.kpi.type}`);
+  }
+  if (!(input.kpi.target > 0)) {
+    throw new Error('KPI target must be positive');
+  }
+  if (!(input.probability > 0 && input.probability < 1)) {
+    throw new Error('Probability must be between 0 and 1');
+  }
+  if (!(input.budget > 0)) {
+    throw new Error('Budget must be positive');
+  }
+  if (input.channels.length === 0) {
+    throw new Error('At least one channel is required');
+  }
+  if (input.variable === 'timeline' && input.kpi.timeframe !== 'campaign') {
+    throw new Error('Solving for the timeline needs a KPI with a campaign-wide target');
+  }
+
+  const curve = input.curves[metric];
+  const days = flightDays(input.startDate, input.endDate);
+  const sigma = Math.sqrt(Math.log(1 + Math.pow(Math.max(0, input.uncertainty), 2)));
+  const requiredExpected = (target: number) =>
+    target * Math.exp((sigma * sigma) / 2 + inverseNormalCdf(input.probability) * sigma);
+
+  const currentShares = shareOf(input.channels.map(entry => [entry.channel, entry.budget]));
+  const project = (budget: number, flight: number, shares: Record<string, number>): GoalSeekProjection => {
+    const allocation = roundAllocation(shares, budget);
+    const expected = expectedTotal(curve, allocation, flight);
+    const target = targetOver(input.kpi, flight);
+    return {
+      budget: roundAmount(budget),
+      days: flight,
+      endDate: new Date(input.startDate.getTime() + flight * DAY_MS),
+      allocation,
+      target,
+      expected,
+      ...lognormalOutcome(expected, sigma, target)
+    };
+  };
+
+  const current = project(input.budget, days, currentShares);
+  const base = { variable: input.variable, metric, probability: input.probability, current };
+
+  if (current.expected <= 0) {
+    return {
+      ...base,
+      reachable: false,
+      message: `No channel is expected to deliver any ${metric}`
+    };
+  }
+
+  if (input.variable === 'timeline') {
+    if (curve.elasticity >= 1) {
+      return {
+        ...base,
+        reachable: false,
+        message: 'Spreading the same budget over more days does not change the projected total'
+      };
+    }
+
+    // Campaign-wide target: expected total grows with days^(1-b)
+    const ratio = requiredExpected(current.target) / current.expected;
+    let needed = Math.max(1, Math.ceil(days * Math.pow(ratio, 1 / (1 - curve.elasticity)) - 1e-9));
+    if (needed > opts.maxDays) {
+      return {
+        ...base,
+        reachable: false,
+        message: `Even a ${opts.maxDays}-day flight does not reach the target at this budget`
+      };
+    }
+    while (needed > 1 && project(input.budget, needed - 1, currentShares).probability >= input.probability) {
+      needed -= 1;
+    }
+    const solution = project(input.budget, needed, currentShares);
+    return {
+      ...base,
+      reachable: true,
+      solution,
+      message: `A ${needed}-day flight reaches the target with ${formatPercent(solution.probability)} probability`
+    };
+  }
+
+  const shares = input.variable === 'channel_mix' ? optimalShares(curve, input.channels) : currentShares;
+  const atCurrentBudget = project(input.budget, days, shares);
+  const ratio = requiredExpected(atCurrentBudget.target) / atCurrentBudget.expected;
+  const neededBudget = input.budget * Math.pow(ratio, 1 / curve.elasticity);
+  const maxBudget = input.budget * opts.maxBudgetMultiple;
+
+  if (neededBudget > maxBudget) {
+    return {
+      ...base,
+      reachable: false,
+      message: `Even ${opts.maxBudgetMultiple} times the current budget does not reach the target`
+    };
+  }
+
+  // Round up to the cent so rounding never drops below the target
+  const solution = project(Math.ceil(neededBudget * 100) / 100, days, shares);
+  return {
+    ...base,
+    reachable: true,
+    solution,
+    message:
+      input.variable === 'channel_mix'
+        ? `With a rebalanced channel mix, ${formatAmount(solution.budget)} reaches the target with ${formatPercent(solution.probability)} probability`
+        : `A budget of ${formatAmount(solution.budget)} reaches the target with ${formatPercent(solution.probability)} probability`
+  };
+}
+
+/**
+ * Chance of reaching the target when the total is lognormal around its
+ * expected value with the given log-spread, plus its 10th and 90th percentiles
+ */
+export function lognormalOutcome(
+  expected: number,
+  sigma: number,
+  target: number
+): { probability: number; p10: number; p90: number } {
+  if (expected <= 0) {
+    return { probability: 0, p10: 0, p90: 0 };
+  }
+  if (sigma === 0) {
+    return { probability: expected >= target ? 1 : 0, p10: expected, p90: expected };
+  }
+
+  const mu = Math.log(expected) - (sigma * sigma) / 2;
+  const z90 = inverseNormalCdf(0.9);
+  return {
+    probability: 1 - normalCdf((Math.log(target) - mu) / sigma),
+    p10: Math.exp(mu - z90 * sigma),
+    p90: Math.exp(mu + z90 * sigma)
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Standard normal quantile, by bisection on the CDF
+ */
+export function inverseNormalCdf(p: number): number {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+function targetOver(kpi: GoalSeekInput['kpi'], days: number): number {
+  const period = TIMEFRAME_DAYS[kpi.timeframe];
+  return period ? (kpi.target * days) / period : kpi.target;
+}
+
+function expectedTotal(curve: ResponseCurve, allocation: Record<string, number>, days: number): number {
+  return Object.entries(allocation).reduce((sum, [channel, budget]) => {
+    const scale = curve.scales[channel] ?? 0;
+    return budget > 0 ? sum + days * scale * Math.pow(budget / days, curve.elasticity) : sum;
+  }, 0);
+}
+
+function optimalShares(curve: ResponseCurve, channels: GoalSeekInput['channels']): Record<string, number> {
+  if (curve.elasticity >= 1) {
+    // Linear returns: everything goes to the most efficient channel
+    const best = channels.reduce((top, entry) =>
+      (curve.scales[entry.channel] ?? 0) > (curve.scales[top.channel] ?? 0) ? entry : top
+    );
+    return Object.fromEntries(channels.map(entry => [entry.channel, entry.channel === best.channel ? 1 : 0]));
+  }
+  return shareOf(
+    channels.map(entry => [entry.channel, Math.pow(curve.scales[entry.channel] ?? 0, 1 / (1 - curve.elasticity))])
+  );
+}
+
+/**
+ * Normalize channel weights to shares of the budget; without any weight the
+ * budget is split evenly
+ */
+function shareOf(weights: Array<[string, number]>): Record<string, number> {
+  const sum = weights.reduce((acc, [, weight]) => acc + Math.max(0, weight), 0);
+  return Object.fromEntries(
+    weights.map(([channel, weight]) => [channel, sum > 0 ? Math.max(0, weight) / sum : 1 / weights.length])
+  );
+}
+
+function roundAllocation(shares: Record<string, number>, budget: number): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(shares).map(([channel, share]) => [channel, roundAmount(budget * share)])
+  );
+}
+
+function flightDays(startDate: Date, endDate: Date): number {
+  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS));
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
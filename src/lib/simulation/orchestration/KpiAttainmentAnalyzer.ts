@@ -0,0 +1,231 @@
+/**
+ * KpiAttainmentAnalyzer
+ *
+ * Reads the chance of reaching every campaign KPI and custom metric target
+ * from the spread of simulated flight totals: the Monte Carlo runs when the
+ * simulation sampled them, otherwise a normal fit to the percentile scenarios.
+ */
+
+import {
+  CustomMetricConfig,
+  KPIAttainment,
+  KPIConfig,
+  ScenarioResult,
+  TrajectoryPoint
+} from '../../../types/simulation';
+import {
+  MonteCarloSampleSet,
+  aggregateMetricTotal,
+  metricFloor,
+  RATE_METRICS,
+  COST_METRICS
+} from './MonteCarloSampler';
+import { inverseNormalCdf } from './GoalSeekSolver';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TIMEFRAME_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+
+// Simulated metric each campaign KPI is measured on; CTR, ROI and brand
+// awareness targets are percentages
+const KPI_MEASURES: Record<string, { metric: string; scale: number }> = {
+  reach: { metric: 'reach', scale: 1 },
+  engagement: { metric: 'engagements', scale: 1 },
+  conversions: { metric: 'conversions', scale: 1 },
+  ctr: { metric: 'ctr', scale: 100 },
+  cpc: { metric: 'cpc', scale: 1 },
+  cpm: { metric: 'cpm', scale: 1 },
+  cpa: { metric: 'cpa', scale: 1 },
+  roas: { metric: 'roas', scale: 1 },
+  roi: { metric: 'roi', scale: 100 },
+  brand_awareness: { metric: 'brand_awareness', scale: 100 }
+};
+
+// Volumes derived from a rate applied to impressions
+const DERIVED_VOLUMES: Record<string, string> = {
+  engagements: 'engagement',
+  clicks: 'ctr'
+};
+
+// Performance percentile of the standard scenarios (see ScenarioGenerator)
+const SCENARIO_PERCENTILES: Record<string, number> = {
+  optimistic: 75,
+  realistic: 50,
+  pessimistic: 25
+};
+
+const SCENARIO_QUANTILES = 200;
+
+/**
+ * Flight totals per metric, one per sampled run
+ */
+export type OutcomeSamples = Record<string, ArrayLike<number>>;
+
+export interface KpiAttainmentInput {
+  kpis: KPIConfig[];
+  customMetrics?: CustomMetricConfig[];
+  outcomes: OutcomeSamples;
+  flight: { startDate: Date; endDate: Date }; // Simulated window
+  campaign: { startDate: Date; endDate: Date };
+}
+
+/**
+ * Probability and expected shortfall of every KPI and custom metric target.
+ * Periodic targets are compared with the flight's average per period and
+ * campaign-wide targets with the flight total scaled to the campaign's length.
+ */
+export function assessKpiAttainment(input: KpiAttainmentInput): KPIAttainment[] {
+  const flightDays = daysBetween(input.flight.startDate, input.flight.endDate);
+  const campaignDays = daysBetween(input.campaign.startDate, input.campaign.endDate);
+
+  const targets = [
+    ...input.kpis.map(kpi => ({
+      source: 'kpi' as const,
+      name: kpi.type,
+      timeframe: kpi.timeframe,
+      target: kpi.target,
+      measure: KPI_MEASURES[kpi.type]
+    })),
+    ...(input.customMetrics ?? []).map(metric => ({
+      source: 'custom_metric' as const,
+      name: metric.name,
+      timeframe: 'campaign',
+      target: metric.target,
+      measure: { metric: metric.name.trim().toLowerCase().replace(/\s+/g, '_'), scale: 1 }
+    }))
+  ];
+
+  return targets.map(({ measure, ...target }) => {
+    const totals = measure ? input.outcomes[measure.metric] : undefined;
+    if (!measure || !totals || totals.length === 0) {
+      return target;
+    }
+
+    const period = TIMEFRAME_DAYS[target.timeframe];
+    const factor = RATE_METRICS.has(measure.metric)
+      ? measure.scale
+      : (measure.scale * (period ?? campaignDays)) / flightDays;
+    const lowerIsBetter = COST_METRICS.has(measure.metric);
+
+    let sum = 0;
+    let reached = 0;
+    let shortfall = 0;
+    for (let i = 0; i < totals.length; i++) {
+      const value = totals[i] * factor;
+      const gap = lowerIsBetter ? value - target.target : target.target - value;
+      sum += value;
+      if (gap <= 0) reached++;
+      else shortfall += gap;
+    }
+
+    return {
+      ...target,
+      metric: measure.metric,
+      expected: sum / totals.length,
+      probability: reached / totals.length,
+      expectedShortfall: shortfall / totals.length
+    };
+  });
+}
+
+/**
+ * Flight totals of every Monte Carlo run, including engagements and clicks
+ * from the runs whose point values were kept
+ */
+export function monteCarloOutcomes(samples: MonteCarloSampleSet): OutcomeSamples {
+  const outcomes: OutcomeSamples = { ...samples.totals };
+  const impressions = samples.values.impressions;
+
+  Object.entries(DERIVED_VOLUMES).forEach(([volume, rate]) => {
+    const rates = samples.values[rate];
+    if (!rates || !impressions) return;
+
+    const totals = new Float64Array(samples.pointSamples);
+    rates.forEach((pointRates, index) => {
+      for (let run = 0; run < samples.pointSamples; run++) {
+        totals[run] += pointRates[run] * impressions[index][run];
+      }
+    });
+    outcomes[volume] = totals;
+  });
+  return outcomes;
+}
+
+/**
+ * Quantiles of a normal fit to the flight totals of the optimistic, realistic
+ * and pessimistic scenarios. A lone scenario takes its spread from the
+ * trajectory's confidence, as the Monte Carlo sampler does.
+ */
+export function scenarioOutcomes(scenarios: ScenarioResult[]): OutcomeSamples {
+  const anchors = scenarios
+    .filter(scenario => SCENARIO_PERCENTILES[scenario.type] !== undefined && scenario.trajectory.length > 0)
+    .map(scenario => ({
+      z: inverseNormalCdf(SCENARIO_PERCENTILES[scenario.type] / 100),
+      totals: trajectoryTotals(scenario.trajectory),
+      relativeSigma:
+        scenario.trajectory.reduce((sum, point) => sum + Math.min(1, (1 - point.confidence) * 0.5), 0) /
+        scenario.trajectory.length
+    }));
+  if (anchors.length === 0) {
+    return {};
+  }
+
+  const quantiles = Array.from({ length: SCENARIO_QUANTILES }, (_, k) =>
+    inverseNormalCdf((k + 0.5) / SCENARIO_QUANTILES)
+  );
+  const metrics = new Set(anchors.flatMap(anchor => Object.keys(anchor.totals)));
+  const outcomes: OutcomeSamples = {};
+
+  metrics.forEach(metric => {
+    const points = anchors.filter(anchor => anchor.totals[metric] !== undefined);
+    const zMean = points.reduce((sum, point) => sum + point.z, 0) / points.length;
+    const valueMean = points.reduce((sum, point) => sum + point.totals[metric], 0) / points.length;
+    const zSpread = points.reduce((sum, point) => sum + (point.z - zMean) ** 2, 0);
+
+    let center = valueMean;
+    let sigma = Math.abs(valueMean) * points[0].relativeSigma;
+    if (zSpread > 0) {
+      // Least-squares line through (z, total): the slope is the standard deviation
+      const slope =
+        points.reduce((sum, point) => sum + (point.z - zMean) * (point.totals[metric] - valueMean), 0) / zSpread;
+      center = valueMean - slope * zMean;
+      sigma = Math.abs(slope);
+    }
+
+    outcomes[metric] = Float64Array.from(quantiles, z => Math.max(metricFloor(metric), center + sigma * z));
+  });
+  return outcomes;
+}
+
+/**
+ * Flight total of every metric of a trajectory, including engagements and clicks
+ */
+function trajectoryTotals(trajectory: TrajectoryPoint[]): Record<string, number> {
+  const metrics = new Set(trajectory.flatMap(point => Object.keys(point.metrics)));
+  const totals: Record<string, number> = {};
+
+  metrics.forEach(metric => {
+    totals[metric] = aggregateMetricTotal(metric, trajectory.map(point => point.metrics[metric] ?? 0));
+  });
+  Object.entries(DERIVED_VOLUMES).forEach(([volume, rate]) => {
+    if (metrics.has(rate) && metrics.has('impressions')) {
+      totals[volume] = trajectory.reduce(
+        (sum, point) => sum + (point.metrics[rate] ?? 0) * (point.metrics.impressions ?? 0),
+        0
+      );
+    }
+  });
+  return totals;
+}
+
+/**
+ * Days between two dates to the started hour, so hourly flights shorter than
+ * a day are not counted as a full day
+ */
+function daysBetween(startDate: Date, endDate: Date): number {
+  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / HOUR_MS)) / 24;
+}
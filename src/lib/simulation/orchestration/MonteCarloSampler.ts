@@ -0,0 +1,341 @@
+/**
+ * MonteCarloSampler
+ *
+ * Samples trajectories around an ensemble prediction from its confidence
+ * intervals and scenario factors. A seeded generator makes every run reproducible.
+ */
+
+import {
+  TrajectoryPoint,
+  ConfidenceInterval,
+  KPIDistribution,
+  HistogramBin
+} from '../../../types/simulation';
+import { ScenarioFactors } from './ScenarioGenerator';
+
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 2000;
+export const MAX_MONTE_CARLO_ITERATIONS = 10000;
+
+// Per-point values kept across all metrics (8 MB); flight totals keep every run
+const MAX_POINT_VALUES = 1_000_000;
+
+const HISTOGRAM_BINS = 20;
+const NOISE_AUTOCORRELATION = 0.7;
+
+// Derived ratios are running values to date, so a flight's figure is its last point
+export const CUMULATIVE_METRICS = new Set(['cpa', 'roas', 'roi', 'brand_awareness']);
+export const RATE_METRICS = new Set(['ctr', 'engagement', 'cpc', 'cpm', ...CUMULATIVE_METRICS]);
+export const COST_METRICS = new Set(['cpc', 'cpm', 'cpa']);
+const VOLUME_METRICS = new Set(['impressions', 'reach', 'conversions']);
+const CREATIVE_METRICS = new Set(['ctr', 'engagement']);
+const SHARE_METRICS = new Set(['ctr', 'engagement', 'brand_awareness']);
+
+/**
+ * Create a deterministic uniform generator (mulberry32) from a 32-bit seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Aggregate a metric over a flight: volume metrics are summed, rate metrics
+ * averaged and cumulative metrics read at the end of the flight
+ */
+export function aggregateMetricTotal(metric: string, values: ArrayLike<number>): number {
+  if (CUMULATIVE_METRICS.has(metric)) {
+    return values.length > 0 ? values[values.length - 1] : 0;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  return RATE_METRICS.has(metric) && values.length > 0 ? sum / values.length : sum;
+}
+
+/**
+ * Scale a metric by a performance factor. ROI moves with the return on spend
+ * (1 + ROI), so a loss shrinks as performance improves.
+ */
+export function scaleMetric(metric: string, value: number, factor: number): number {
+  return metric === 'roi' ? (1 + value) * factor - 1 : value * factor;
+}
+
+/**
+ * Lowest value a metric can take: ROI bottoms out at losing the whole spend
+ */
+export function metricFloor(metric: string): number {
+  return metric === 'roi' ? -1 : 0;
+}
+
+export class MonteCarloSampleSet {
+  private sortedCache: Map<string, Float64Array> = new Map();
+
+  constructor(
+    readonly baseTrajectory: TrajectoryPoint[],
+    readonly metrics: string[],
+    // values[metric][pointIndex][run] of the first pointSamples runs
+    readonly values: Record<string, Float64Array[]>,
+    // totals[metric][iteration]
+    readonly totals: Record<string, Float64Array>,
+    readonly iterations: number,
+    readonly pointSamples: number = iterations
+  ) {}
+
+  /**
+   * Build the trajectory formed by a performance percentile of every point and metric.
+   * Cost metrics are inverted so that higher percentiles always mean better outcomes.
+   */
+  percentileTrajectory(percentile: number): TrajectoryPoint[] {
+    return this.baseTrajectory.map((point, index) => ({
+      date: point.date,
+      metrics: this.metrics.reduce((metrics, metric) => {
+        const rank = COST_METRICS.has(metric) ? 100 - percentile : percentile;
+        metrics[metric] = percentileOf(this.sorted(metric, index), rank);
+        return metrics;
+      }, {} as Record<string, number>),
+      confidence: point.confidence
+    }));
+  }
+
+  /**
+   * Share of runs whose flight total performs at least as well as the given value
+   */
+  shareOutperforming(metric: string, total: number): number {
+    return COST_METRICS.has(metric)
+      ? this.share(metric, value => value <= total)
+      : this.share(metric, value => value >= total);
+  }
+
+  /**
+   * Share of runs whose flight total performs no better than the given value
+   */
+  shareUnderperforming(metric: string, total: number): number {
+    return COST_METRICS.has(metric)
+      ? this.share(metric, value => value >= total)
+      : this.share(metric, value => value <= total);
+  }
+
+  distribution(metric: string): KPIDistribution {
+    const totals = Float64Array.from(this.totals[metric]).sort();
+    const n = totals.length;
+    const mean = totals.reduce((sum, value) => sum + value, 0) / Math.max(1, n);
+    const variance = totals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, n);
+
+    return {
+      mean,
+      stdDev: Math.sqrt(variance),
+      min: totals[0],
+      max: totals[n - 1],
+      p10: percentileOf(totals, 10),
+      p50: percentileOf(totals, 50),
+      p90: percentileOf(totals, 90),
+      histogram: buildHistogram(totals)
+    };
+  }
+
+  private sorted(metric: string, index: number): Float64Array {
+    const key = `${metric}:${index}`;
+    let sorted = this.sortedCache.get(key);
+    if (!sorted) {
+      sorted = Float64Array.from(this.values[metric][index]).sort();
+      this.sortedCache.set(key, sorted);
+    }
+    return sorted;
+  }
+
+  private share(metric: string, predicate: (value: number) => boolean): number {
+    const totals = this.totals[metric];
+    let count = 0;
+    for (let i = 0; i < totals.length; i++) {
+      if (predicate(totals[i])) count++;
+    }
+    return totals.length > 0 ? count / totals.length : 0;
+  }
+}
+
+export class MonteCarloSampler {
+  private random: () => number;
+  private spareNormal: number | null = null;
+
+  constructor(readonly seed: number) {
+    this.random = createSeededRandom(seed);
+  }
+
+  /**
+   * Sample trajectories around the base trajectory.
+   * Each run draws one set of factor shocks plus autocorrelated noise
+   * scaled by the confidence interval at every point. Runs are independent,
+   * so long trajectories keep the point values of the first runs only.
+   */
+  sample(
+    baseTrajectory: TrajectoryPoint[],
+    confidenceIntervals: ConfidenceInterval[],
+    factors: ScenarioFactors,
+    iterations: number,
+    primaryMetric: string
+  ): MonteCarloSampleSet {
+    const metrics = Array.from(
+      new Set(baseTrajectory.flatMap(point => Object.keys(point.metrics)))
+    );
+    const pointCount = baseTrajectory.length;
+    const relativeSigmas = baseTrajectory.map((point, index) =>
+      this.relativeSigma(point, confidenceIntervals[index], primaryMetric)
+    );
+
+    const pointSamples = Math.min(
+      iterations,
+      Math.max(1, Math.floor(MAX_POINT_VALUES / Math.max(1, pointCount * metrics.length)))
+    );
+
+    const values: Record<string, Float64Array[]> = {};
+    const totals: Record<string, Float64Array> = {};
+    metrics.forEach(metric => {
+      values[metric] = baseTrajectory.map(() => new Float64Array(pointSamples));
+      totals[metric] = new Float64Array(iterations);
+    });
+
+    const runValues = new Float64Array(pointCount);
+
+    for (let run = 0; run < iterations; run++) {
+      const levelShock = 1 + factors.marketVolatility * 0.5 * this.normal();
+      const competitionDrag = 1 - factors.competitorActivity * 0.1 * Math.abs(this.normal());
+      const budgetDrag = 1 - factors.budgetConstraints * Math.abs(this.normal());
+      const seasonalAmplitude = factors.seasonalTrends * this.normal();
+      const fatigueRate = factors.creativeFatigue * (0.5 + this.random());
+
+      const performance = new Float64Array(pointCount);
+      let noise = this.normal();
+      for (let i = 0; i < pointCount; i++) {
+        if (i > 0) {
+          noise = NOISE_AUTOCORRELATION * noise +
+            Math.sqrt(1 - NOISE_AUTOCORRELATION ** 2) * this.normal();
+        }
+        performance[i] = levelShock * competitionDrag *
+          (1 + seasonalAmplitude * Math.sin(i * Math.PI / 30)) *
+          (1 + relativeSigmas[i] * noise);
+      }
+
+      for (const metric of metrics) {
+        for (let i = 0; i < pointCount; i++) {
+          const base = baseTrajectory[i].metrics[metric] ?? 0;
+          let value = COST_METRICS.has(metric)
+            ? base / Math.max(0.05, performance[i])
+            : scaleMetric(metric, base, performance[i]);
+
+          if (VOLUME_METRICS.has(metric)) {
+            value *= budgetDrag;
+          }
+          if (CREATIVE_METRICS.has(metric)) {
+            value *= 1 - fatigueRate * (i / pointCount);
+          }
+
+          value = Math.max(metricFloor(metric), value);
+          if (SHARE_METRICS.has(metric)) {
+            value = Math.min(1, value);
+          }
+
+          runValues[i] = value;
+          if (run < pointSamples) {
+            values[metric][i][run] = value;
+          }
+        }
+        totals[metric][run] = aggregateMetricTotal(metric, runValues);
+      }
+    }
+
+    return new MonteCarloSampleSet(baseTrajectory, metrics, values, totals, iterations, pointSamples);
+  }
+
+  /**
+   * Convert a confidence interval into a relative standard deviation
+   */
+  private relativeSigma(
+    point: TrajectoryPoint,
+    interval: ConfidenceInterval | undefined,
+    primaryMetric: string
+  ): number {
+    const value = point.metrics[primaryMetric];
+    if (interval && value > 0 && interval.upper > interval.lower) {
+      const z = twoSidedZScore(interval.confidence_level || 0.8);
+      return Math.min(1, (interval.upper - interval.lower) / (2 * z * value));
+    }
+
+    return Math.min(1, (1 - point.confidence) * 0.5);
+  }
+
+  /**
+   * Standard normal draw using the Box-Muller transform
+   */
+  private normal(): number {
+    if (this.spareNormal !== null) {
+      const spare = this.spareNormal;
+      this.spareNormal = null;
+      return spare;
+    }
+
+    const u = Math.max(this.random(), Number.EPSILON);
+    const v = this.random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function percentileOf(sorted: ArrayLike<number>, percentile: number): number {
+  if (sorted.length === 0) return 0;
+
+  const rank = (Math.min(100, Math.max(0, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function buildHistogram(sorted: Float64Array): HistogramBin[] {
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) {
+    return [{ lower: min, upper: max, count: sorted.length }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    lower: min + i * width,
+    upper: i === HISTOGRAM_BINS - 1 ? max : min + (i + 1) * width,
+    count: 0
+  }));
+
+  sorted.forEach(value => {
+    const index = Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width));
+    bins[index].count++;
+  });
+
+  return bins;
+}
+
+/**
+ * z-score for a two-sided confidence level (Abramowitz & Stegun 26.2.23)
+ */
+function twoSidedZScore(confidenceLevel: number): number {
+  const tail = (1 - Math.min(0.999, Math.max(0.5, confidenceLevel))) / 2;
+  const t = Math.sqrt(-2 * Math.log(tail));
+  return t - (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+    (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
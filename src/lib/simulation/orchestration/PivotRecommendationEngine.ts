@@ -169,6 +169,11 @@ export class PivotRecommendationEngine {
             effort: this.calculateImplementationEffort("budget_reallocation"),
             timeline: "1-2 days",
           },
+          reallocation: {
+            from: reallocation.from,
+            to: reallocation.to,
+            amount: reallocation.amount,
+          },
         };
 
         // Add simulation preview if requested
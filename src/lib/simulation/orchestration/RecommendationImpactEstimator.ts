@@ -8,9 +8,19 @@
 import {
   PivotRecommendation,
   TrajectoryPoint,
-  SimulationContext,
 } from "../../../types/simulation";
-import { RecommendationContext } from "./PivotRecommendationEngine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a RecommendationContext impact estimation reads, so what-if
+ * projections can run from a stored simulation without its full dataset
+ */
+export interface ImpactEstimationContext {
+  currentTrajectory: TrajectoryPoint[];
+  campaignData: { creativeAssets: readonly unknown[] };
+  simulationContext?: { dataset?: { dataQuality?: { overall?: number } } };
+}
 
 export interface ImpactEstimationOptions {
   simulationDays?: number;
@@ -53,6 +63,55 @@ export interface WhatIfScenario {
   };
 }
 
+/**
+ * Parameters a user can tweak on a recommendation in the what-if builder
+ */
+export interface WhatIfAdjustment {
+  reallocationShare?: number; // budget_reallocation: share of the source channel budget to move (0-1)
+  startDay?: number; // days into the projection before implementation starts
+}
+
+export interface WhatIfInput {
+  recommendations: PivotRecommendation[]; // the selected subset
+  adjustments?: Record<string, WhatIfAdjustment>; // keyed by recommendation id
+  channelBudgets?: Record<string, number>; // current budgets, to size reallocation shares
+}
+
+export interface WhatIfRanking {
+  recommendationId: string;
+  ranking: number;
+  rankingScore: number;
+  improvement: number;
+  confidence: number;
+  complexity: number;
+  pros: string[];
+  cons: string[];
+}
+
+export interface WhatIfWorkspace {
+  recommendations: PivotRecommendation[]; // with adjustments applied
+  baseline: TrajectoryPoint[];
+  projection: TrajectoryPoint[];
+  uncertaintyBounds: {
+    lower: TrajectoryPoint[];
+    upper: TrajectoryPoint[];
+  };
+  metricChanges: Record<string, number>; // change of each metric's total vs the baseline
+  comparisonToBaseline: {
+    improvement: number;
+    significance: number;
+  };
+  confidence: number;
+  feasible: boolean; // false when the selection combines conflicting recommendations
+  interactionFactor: number;
+  implementationRisk: {
+    riskFactors: string[];
+    complexityScore: number;
+    timeline: string;
+  };
+  ranking: WhatIfRanking[];
+}
+
 export class RecommendationImpactEstimator {
   private readonly DEFAULT_OPTIONS: Required<ImpactEstimationOptions> = {
     simulationDays: 30,
@@ -66,7 +125,7 @@ export class RecommendationImpactEstimator {
    */
   async estimateRecommendationImpact(
     recommendation: PivotRecommendation,
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     options: ImpactEstimationOptions = {}
   ): Promise<ImpactEstimationResult> {
     const opts = { ...this.DEFAULT_OPTIONS, ...options };
@@ -136,7 +195,7 @@ export class RecommendationImpactEstimator {
    */
   async runWhatIfScenarios(
     recommendations: PivotRecommendation[],
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     options: ImpactEstimationOptions = {}
   ): Promise<WhatIfScenario[]> {
     const opts = { ...this.DEFAULT_OPTIONS, ...options };
@@ -187,7 +246,7 @@ export class RecommendationImpactEstimator {
    */
   async compareRecommendations(
     recommendations: PivotRecommendation[],
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     options: ImpactEstimationOptions = {}
   ): Promise<
     Array<{
@@ -232,10 +291,143 @@ export class RecommendationImpactEstimator {
     }
   }
 
+  /**
+   * Project a user-picked subset of recommendations, with tweaked parameters,
+   * against the simulated trajectory. The simulated trajectory is the baseline
+   * (no random forward projection), so the same selection always gives the
+   * same answer and the builder can re-run it on every change.
+   */
+  async evaluateWhatIf(
+    input: WhatIfInput,
+    context: ImpactEstimationContext,
+    options: ImpactEstimationOptions = {}
+  ): Promise<WhatIfWorkspace> {
+    const opts = { ...this.DEFAULT_OPTIONS, ...options, simulationDays: 0 };
+    const adjustments = input.adjustments ?? {};
+    const recommendations = input.recommendations.map((recommendation) =>
+      this.adjustRecommendation(
+        recommendation,
+        adjustments[recommendation.id],
+        input.channelBudgets ?? {}
+      )
+    );
+
+    const baseline = context.currentTrajectory.map((point) => ({ ...point }));
+    let projection = baseline;
+    for (const recommendation of recommendations) {
+      const startIndex = this.pointIndexAfterDays(
+        projection,
+        Math.max(0, Math.floor(adjustments[recommendation.id]?.startDay ?? 0))
+      );
+      const affected = await this.applyRecommendationEffects(
+        projection.slice(startIndex),
+        recommendation,
+        context,
+        opts
+      );
+      projection = [...projection.slice(0, startIndex), ...affected];
+    }
+
+    const interactionFactor =
+      recommendations.length > 1
+        ? this.calculateInteractionFactor(recommendations)
+        : 1;
+    if (interactionFactor !== 1) {
+      projection = this.applyInteractionEffects(
+        baseline,
+        projection,
+        interactionFactor
+      );
+    }
+
+    // Independent uncertainties add up in quadrature
+    const uncertaintyFactor = Math.min(
+      0.5,
+      Math.sqrt(
+        recommendations.reduce(
+          (sum, recommendation) =>
+            sum + Math.pow(this.calculateUncertaintyFactor(recommendation, context), 2),
+          0
+        )
+      )
+    );
+
+    const complexities = recommendations.map((recommendation) =>
+      this.calculateImplementationComplexity(recommendation, context)
+    );
+    const mostComplex = complexities.reduce(
+      (max, complexity) => (complexity.score > max.score ? complexity : max),
+      { score: 0, factors: [], timeline: "No changes" }
+    );
+
+    const comparisons = await this.compareRecommendations(
+      recommendations,
+      context,
+      { ...opts, includeUncertainty: false }
+    );
+
+    return {
+      recommendations,
+      baseline,
+      projection,
+      uncertaintyBounds: recommendations.length > 0
+        ? {
+            lower: this.scaleTrajectory(projection, 1 - uncertaintyFactor),
+            upper: this.scaleTrajectory(projection, 1 + uncertaintyFactor),
+          }
+        : { lower: [], upper: [] },
+      metricChanges: this.calculateMetricChanges(baseline, projection),
+      comparisonToBaseline: this.compareToBaseline(baseline, projection),
+      confidence: recommendations.reduce(
+        (acc, recommendation) => acc * recommendation.impact_estimate.confidence,
+        1
+      ),
+      feasible: this.isCombinationFeasible(recommendations),
+      interactionFactor,
+      implementationRisk: {
+        riskFactors: [
+          ...new Set(
+            recommendations.flatMap((recommendation) =>
+              this.assessImplementationRisks(recommendation, context)
+            )
+          ),
+        ],
+        complexityScore: mostComplex.score,
+        timeline: mostComplex.timeline,
+      },
+      ranking: comparisons.map((comparison) => ({
+        recommendationId: comparison.recommendation.id,
+        ranking: comparison.ranking,
+        rankingScore: (comparison as { rankingScore?: number }).rankingScore ?? 0,
+        improvement: comparison.impact.estimatedImpact.improvement,
+        confidence: comparison.impact.estimatedImpact.confidence,
+        complexity: comparison.impact.implementationComplexity.score,
+        pros: comparison.pros,
+        cons: comparison.cons,
+      })),
+    };
+  }
+
   // ============================================================================
   // Baseline and Projection Methods
   // ============================================================================
 
+  /**
+   * Index of the first point at least the given number of days into the
+   * trajectory, whatever its granularity
+   */
+  private pointIndexAfterDays(trajectory: TrajectoryPoint[], days: number): number {
+    if (days === 0 || trajectory.length === 0) {
+      return 0;
+    }
+
+    const start = new Date(trajectory[0].date).getTime() + days * DAY_MS;
+    const index = trajectory.findIndex(
+      (point) => new Date(point.date).getTime() >= start
+    );
+    return index === -1 ? trajectory.length : index;
+  }
+
   private async generateBaselineProjection(
     currentTrajectory: TrajectoryPoint[],
     days: number
@@ -322,7 +514,7 @@ export class RecommendationImpactEstimator {
   private async applyRecommendationEffects(
     baselineProjection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     options: Required<ImpactEstimationOptions>
   ): Promise<TrajectoryPoint[]> {
     const impactedProjection = baselineProjection.map((point) => ({
@@ -375,7 +567,7 @@ export class RecommendationImpactEstimator {
   private applyBudgetReallocationEffects(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): TrajectoryPoint[] {
     const improvementFactor = 1 + recommendation.impact_estimate.improvement;
     const rampUpDays = 3; // Effects take time to materialize
@@ -401,7 +593,7 @@ export class RecommendationImpactEstimator {
   private applyCreativeRefreshEffects(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): TrajectoryPoint[] {
     const improvementFactor = 1 + recommendation.impact_estimate.improvement;
     const implementationDelay = 5; // Creative refresh takes time
@@ -439,7 +631,7 @@ export class RecommendationImpactEstimator {
   private applyAudienceExpansionEffects(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): TrajectoryPoint[] {
     const improvementFactor = 1 + recommendation.impact_estimate.improvement;
     const testingPeriod = 7; // Testing period before full rollout
@@ -483,7 +675,7 @@ export class RecommendationImpactEstimator {
   private applyChannelShiftEffects(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): TrajectoryPoint[] {
     const improvementFactor = 1 + recommendation.impact_estimate.improvement;
     const setupPeriod = 7; // Time to set up new channel
@@ -523,7 +715,7 @@ export class RecommendationImpactEstimator {
   private applyTimingAdjustmentEffects(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): TrajectoryPoint[] {
     const improvementFactor = 1 + recommendation.impact_estimate.improvement;
     const implementationDelay = 1; // Quick to implement
@@ -631,7 +823,7 @@ export class RecommendationImpactEstimator {
   private async generateUncertaintyBounds(
     projection: TrajectoryPoint[],
     recommendation: PivotRecommendation,
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     options: Required<ImpactEstimationOptions>
   ): Promise<{ lower: TrajectoryPoint[]; upper: TrajectoryPoint[] }> {
     const uncertaintyFactor = this.calculateUncertaintyFactor(
@@ -639,32 +831,30 @@ export class RecommendationImpactEstimator {
       context
     );
 
-    const lowerBound = projection.map((point) => ({
-      ...point,
-      metrics: Object.fromEntries(
-        Object.entries(point.metrics).map(([metric, value]) => [
-          metric,
-          value * (1 - uncertaintyFactor),
-        ])
-      ),
-    }));
+    return {
+      lower: this.scaleTrajectory(projection, 1 - uncertaintyFactor),
+      upper: this.scaleTrajectory(projection, 1 + uncertaintyFactor),
+    };
+  }
 
-    const upperBound = projection.map((point) => ({
+  private scaleTrajectory(
+    trajectory: TrajectoryPoint[],
+    factor: number
+  ): TrajectoryPoint[] {
+    return trajectory.map((point) => ({
       ...point,
       metrics: Object.fromEntries(
         Object.entries(point.metrics).map(([metric, value]) => [
           metric,
-          value * (1 + uncertaintyFactor),
+          value * factor,
         ])
       ),
     }));
-
-    return { lower: lowerBound, upper: upperBound };
   }
 
   private calculateUncertaintyFactor(
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): number {
     let baseFactor = 0.2; // 20% base uncertainty
 
@@ -695,7 +885,7 @@ export class RecommendationImpactEstimator {
 
   private assessImplementationRisks(
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): string[] {
     const risks: string[] = [];
 
@@ -749,7 +939,7 @@ export class RecommendationImpactEstimator {
 
   private calculateImplementationComplexity(
     recommendation: PivotRecommendation,
-    context: RecommendationContext
+    context: ImpactEstimationContext
   ): any {
     let complexityScore = 0;
     const factors: string[] = [];
@@ -810,7 +1000,7 @@ export class RecommendationImpactEstimator {
 
   private async createSingleRecommendationScenario(
     recommendation: PivotRecommendation,
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     baseline: TrajectoryPoint[],
     options: Required<ImpactEstimationOptions>
   ): Promise<WhatIfScenario> {
@@ -839,7 +1029,7 @@ export class RecommendationImpactEstimator {
 
   private async createCombinationScenarios(
     recommendations: PivotRecommendation[],
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     baseline: TrajectoryPoint[],
     options: Required<ImpactEstimationOptions>
   ): Promise<WhatIfScenario[]> {
@@ -868,7 +1058,7 @@ export class RecommendationImpactEstimator {
 
   private async createCombinationScenario(
     recommendations: PivotRecommendation[],
-    context: RecommendationContext,
+    context: ImpactEstimationContext,
     baseline: TrajectoryPoint[],
     options: Required<ImpactEstimationOptions>
   ): Promise<WhatIfScenario> {
@@ -887,6 +1077,7 @@ export class RecommendationImpactEstimator {
     // Account for interaction effects (combinations may be less effective)
     const interactionFactor = this.calculateInteractionFactor(recommendations);
     projectedOutcome = this.applyInteractionEffects(
+      baseline,
       projectedOutcome,
       interactionFactor
     );
@@ -1078,21 +1269,97 @@ export class RecommendationImpactEstimator {
     return factor;
   }
 
+  /**
+   * Dampen the combined change against the baseline; the baseline itself is
+   * not affected by how well recommendations work together
+   */
   private applyInteractionEffects(
+    baseline: TrajectoryPoint[],
     trajectory: TrajectoryPoint[],
     interactionFactor: number
   ): TrajectoryPoint[] {
-    return trajectory.map((point) => ({
+    return trajectory.map((point, index) => ({
       ...point,
       metrics: Object.fromEntries(
-        Object.entries(point.metrics).map(([metric, value]) => [
-          metric,
-          value * interactionFactor,
-        ])
+        Object.entries(point.metrics).map(([metric, value]) => {
+          const baseValue = baseline[index]?.metrics[metric];
+          return [
+            metric,
+            baseValue === undefined
+              ? value
+              : baseValue + (value - baseValue) * interactionFactor,
+          ];
+        })
       ),
     }));
   }
 
+  /**
+   * Apply what-if parameters to a recommendation. Moving more budget than
+   * recommended is assumed to pay off with diminishing returns, and to be
+   * less certain.
+   */
+  private adjustRecommendation(
+    recommendation: PivotRecommendation,
+    adjustment: WhatIfAdjustment | undefined,
+    channelBudgets: Record<string, number>
+  ): PivotRecommendation {
+    const { reallocation } = recommendation;
+    const sourceBudget = reallocation ? channelBudgets[reallocation.from] : undefined;
+    if (
+      adjustment?.reallocationShare === undefined ||
+      !reallocation ||
+      !sourceBudget ||
+      reallocation.amount <= 0
+    ) {
+      return recommendation;
+    }
+
+    const share = Math.min(1, Math.max(0, adjustment.reallocationShare));
+    const amount = Math.round(sourceBudget * share * 100) / 100;
+    const ratio = amount / reallocation.amount;
+
+    return {
+      ...recommendation,
+      impact_estimate: {
+        ...recommendation.impact_estimate,
+        improvement: recommendation.impact_estimate.improvement * Math.sqrt(ratio),
+        confidence:
+          ratio > 1
+            ? recommendation.impact_estimate.confidence / Math.sqrt(ratio)
+            : recommendation.impact_estimate.confidence,
+      },
+      implementation: {
+        ...recommendation.implementation,
+        description: `Reallocate $${amount.toFixed(2)} from ${reallocation.from} to ${reallocation.to}`,
+      },
+      reallocation: { ...reallocation, amount },
+    };
+  }
+
+  private calculateMetricChanges(
+    baseline: TrajectoryPoint[],
+    projected: TrajectoryPoint[]
+  ): Record<string, number> {
+    const totals = (trajectory: TrajectoryPoint[]) =>
+      trajectory.reduce<Record<string, number>>((acc, point) => {
+        Object.entries(point.metrics).forEach(([metric, value]) => {
+          acc[metric] = (acc[metric] ?? 0) + value;
+        });
+        return acc;
+      }, {});
+
+    const baselineTotals = totals(baseline);
+    const projectedTotals = totals(projected);
+
+    return Object.fromEntries(
+      Object.entries(projectedTotals).map(([metric, total]) => {
+        const baseTotal = baselineTotals[metric] ?? 0;
+        return [metric, baseTotal > 0 ? (total - baseTotal) / baseTotal : 0];
+      })
+    );
+  }
+
   private identifyRecommendationPros(
     recommendation: PivotRecommendation,
     impact: ImpactEstimationResult
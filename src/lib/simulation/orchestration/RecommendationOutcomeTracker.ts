@@ -0,0 +1,240 @@
+/**
+ * RecommendationOutcomeTracker
+ *
+ * Measures whether an applied pivot recommendation delivered its predicted
+ * impact by comparing actual metrics before and after it was applied, and
+ * rolls outcomes up per recommendation type.
+ */
+
+import { PerformanceMetric, PivotRecommendation } from '../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Metrics where a decrease is the improvement
+ */
+const COST_METRICS = new Set(['cpc', 'cpm', 'cpa']);
+
+export type RecommendationStatus = 'new' | 'accepted' | 'dismissed' | 'applied';
+
+/**
+ * Allowed status changes; applied recommendations are final
+ */
+export const RECOMMENDATION_STATUS_TRANSITIONS: Record<RecommendationStatus, RecommendationStatus[]> = {
+  new: ['accepted', 'dismissed', 'applied'],
+  accepted: ['new', 'dismissed', 'applied'],
+  dismissed: ['new', 'accepted'],
+  applied: []
+};
+
+export type OutcomeVerdict =
+  | 'pending' // the after window has not collected enough days yet
+  | 'insufficient_data'
+  | 'materialised'
+  | 'partially_materialised'
+  | 'not_materialised';
+
+export interface OutcomeInput {
+  metric: string;
+  predictedImprovement: number; // fraction, as in impact_estimate.improvement
+  appliedAt: Date;
+  actuals: PerformanceMetric[];
+  now: Date;
+}
+
+export interface OutcomeOptions {
+  windowDays?: number; // Default: 14 days on each side of the applied date
+  minDays?: number; // Default: 3 days of actuals on each side
+  materialisedRatio?: number; // Default: 0.8 of the predicted improvement
+  partialRatio?: number; // Default: 0.3 of the predicted improvement
+}
+
+export interface OutcomeWindow {
+  start: Date;
+  end: Date;
+  days: number; // days with actuals
+  mean: number | null;
+}
+
+export interface RecommendationOutcome {
+  metric: string;
+  before: OutcomeWindow;
+  after: OutcomeWindow;
+  predictedImprovement: number;
+  actualImprovement: number | null; // fraction, positive when the metric improved
+  realisation: number | null; // actual / predicted improvement
+  verdict: OutcomeVerdict;
+  complete: boolean; // the after window has fully elapsed
+}
+
+export interface TrackedRecommendation {
+  type: PivotRecommendation['type'] | string;
+  status: RecommendationStatus;
+  outcome?: RecommendationOutcome | null;
+}
+
+export interface RecommendationTypePerformance {
+  type: string;
+  total: number;
+  byStatus: Record<RecommendationStatus, number>;
+  acceptanceRate: number | null; // accepted or applied, of those decided
+  measured: number; // applied recommendations with a verdict
+  materialised: number;
+  partiallyMaterialised: number;
+  notMaterialised: number;
+  averageRealisation: number | null;
+}
+
+const DEFAULT_OPTIONS: Required<OutcomeOptions> = {
+  windowDays: 14,
+  minDays: 3,
+  materialisedRatio: 0.8,
+  partialRatio: 0.3
+};
+
+/**
+ * Compare the actual metric before and after a recommendation was applied
+ */
+export function measureRecommendationOutcome(
+  input: OutcomeInput,
+  options: OutcomeOptions = {}
+): RecommendationOutcome {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const appliedDay = startOfDay(input.appliedAt).getTime();
+  const windowMs = opts.windowDays * DAY_MS;
+  const afterEnd = appliedDay + windowMs;
+  const complete = input.now.getTime() >= afterEnd;
+
+  const daily = dailyMeans(input.actuals.filter(point => point.metric === input.metric));
+  const before = summarizeWindow(daily, appliedDay - windowMs, appliedDay);
+  const after = {
+    ...summarizeWindow(daily, appliedDay, Math.min(afterEnd, input.now.getTime())),
+    end: new Date(afterEnd)
+  };
+
+  const outcome: RecommendationOutcome = {
+    metric: input.metric,
+    before,
+    after,
+    predictedImprovement: input.predictedImprovement,
+    actualImprovement: null,
+    realisation: null,
+    verdict: 'insufficient_data',
+    complete
+  };
+
+  if (after.days < opts.minDays) {
+    return { ...outcome, verdict: complete ? 'insufficient_data' : 'pending' };
+  }
+  if (before.days < opts.minDays || !before.mean || after.mean === null) {
+    return outcome;
+  }
+
+  const change = (after.mean - before.mean) / Math.abs(before.mean);
+  const actualImprovement = COST_METRICS.has(input.metric) ? -change : change;
+  const realisation = input.predictedImprovement !== 0
+    ? actualImprovement / input.predictedImprovement
+    : null;
+
+  return {
+    ...outcome,
+    actualImprovement,
+    realisation,
+    verdict: getVerdict(realisation, actualImprovement, opts)
+  };
+}
+
+/**
+ * Roll tracked recommendations up per type, so teams can see which kinds of
+ * pivot are accepted and which deliver what they promise
+ */
+export function summarizeRecommendationTypes(
+  recommendations: TrackedRecommendation[]
+): RecommendationTypePerformance[] {
+  const byType = new Map<string, TrackedRecommendation[]>();
+  for (const recommendation of recommendations) {
+    byType.set(recommendation.type, [...(byType.get(recommendation.type) ?? []), recommendation]);
+  }
+
+  return [...byType.entries()]
+    .map(([type, items]) => {
+      const byStatus: Record<RecommendationStatus, number> = { new: 0, accepted: 0, dismissed: 0, applied: 0 };
+      items.forEach(item => byStatus[item.status]++);
+
+      const decided = byStatus.accepted + byStatus.dismissed + byStatus.applied;
+      const verdicts = items
+        .map(item => item.outcome)
+        .filter((outcome): outcome is RecommendationOutcome =>
+          !!outcome && outcome.verdict !== 'pending' && outcome.verdict !== 'insufficient_data'
+        );
+      const realisations = verdicts
+        .map(outcome => outcome.realisation)
+        .filter((realisation): realisation is number => realisation !== null);
+
+      return {
+        type,
+        total: items.length,
+        byStatus,
+        acceptanceRate: decided > 0 ? (byStatus.accepted + byStatus.applied) / decided : null,
+        measured: verdicts.length,
+        materialised: verdicts.filter(outcome => outcome.verdict === 'materialised').length,
+        partiallyMaterialised: verdicts.filter(outcome => outcome.verdict === 'partially_materialised').length,
+        notMaterialised: verdicts.filter(outcome => outcome.verdict === 'not_materialised').length,
+        averageRealisation: realisations.length > 0
+          ? realisations.reduce((sum, value) => sum + value, 0) / realisations.length
+          : null
+      };
+    })
+    .sort((a, b) => b.total - a.total || a.type.localeCompare(b.type));
+}
+
+function getVerdict(
+  realisation: number | null,
+  actualImprovement: number,
+  options: Required<OutcomeOptions>
+): OutcomeVerdict {
+  // A zero prediction materialises as long as the metric did not get worse
+  if (realisation === null) {
+    return actualImprovement >= 0 ? 'materialised' : 'not_materialised';
+  }
+  if (realisation >= options.materialisedRatio) {
+    return 'materialised';
+  }
+  if (realisation >= options.partialRatio) {
+    return 'partially_materialised';
+  }
+  return 'not_materialised';
+}
+
+/**
+ * Average actuals reported more than once for the same UTC day
+ */
+function dailyMeans(points: PerformanceMetric[]): Map<number, number> {
+  const sums = new Map<number, { sum: number; count: number }>();
+  for (const point of points) {
+    const day = startOfDay(point.date).getTime();
+    const entry = sums.get(day) ?? { sum: 0, count: 0 };
+    sums.set(day, { sum: entry.sum + point.value, count: entry.count + 1 });
+  }
+
+  return new Map([...sums.entries()].map(([day, { sum, count }]) => [day, sum / count]));
+}
+
+function summarizeWindow(daily: Map<number, number>, start: number, end: number): OutcomeWindow {
+  const values = [...daily.entries()]
+    .filter(([day]) => day >= start && day < end)
+    .map(([, value]) => value);
+
+  return {
+    start: new Date(start),
+    end: new Date(end),
+    days: values.length,
+    mean: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  };
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
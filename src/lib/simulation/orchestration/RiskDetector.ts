@@ -12,8 +12,22 @@ import {
   CompetitorMetric,
   DateRange,
   SimulationContext,
-  PerformanceMetric
+  PerformanceMetric,
+  SpendRecord,
+  RiskRule,
+  SimulationGranularity
 } from '../../../types/simulation';
+import {
+  forecastBudgetPacing,
+  BudgetPacingAlert,
+  BudgetPacingForecast,
+  TOTAL_SCOPE
+} from './BudgetPacingForecaster';
+import { evaluateRiskRules } from './RiskRuleEngine';
+import { COST_METRICS } from './MonteCarloSampler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOURS_PER_DAY = 24;
 
 export interface RiskDetectionOptions {
   performanceDipThreshold?: number; // Default: 0.2 (20% decline)
@@ -21,6 +35,7 @@ export interface RiskDetectionOptions {
   competitorThreatThreshold?: number; // Default: 0.3 (30% competitor activity increase)
   lookbackPeriod?: number; // Days to look back for trend analysis
   confidenceThreshold?: number; // Minimum confidence for risk alerts
+  rules?: RiskRule[]; // Organization risk rules evaluated next to the built-in detectors
 }
 
 export interface RiskPattern {
@@ -45,7 +60,8 @@ export class RiskDetector {
     audienceFatigueThreshold: 0.12, // More sensitive - 12% engagement drop
     competitorThreatThreshold: 0.25, // More sensitive - 25% competitor activity increase
     lookbackPeriod: 14,
-    confidenceThreshold: 0.6 // Lower confidence threshold
+    confidenceThreshold: 0.6, // Lower confidence threshold
+    rules: []
   };
 
   /**
@@ -58,14 +74,15 @@ export class RiskDetector {
   ): Promise<RiskAlert[]> {
     const opts = { ...this.DEFAULT_OPTIONS, ...options };
     const risks: RiskAlert[] = [];
+    const trendTrajectory = this.smoothIntradayCycle(trajectory, context.request.timeframe.granularity);
 
     try {
       // Detect performance dips
-      const performanceRisks = await this.detectPerformanceDips(trajectory, context, opts);
+      const performanceRisks = await this.detectPerformanceDips(trendTrajectory, context, opts);
       risks.push(...performanceRisks);
 
       // Detect audience fatigue
-      const fatigueRisks = await this.detectAudienceFatigue(trajectory, context, opts);
+      const fatigueRisks = await this.detectAudienceFatigue(trendTrajectory, context, opts);
       risks.push(...fatigueRisks);
 
       // Detect competitor threats
@@ -80,6 +97,10 @@ export class RiskDetector {
       const budgetRisks = await this.detectBudgetOverruns(trajectory, context, opts);
       risks.push(...budgetRisks);
 
+      // Evaluate organization risk rules
+      const ruleRisks = evaluateRiskRules(opts.rules, trajectory, context.dataset.historicalPerformance);
+      risks.push(...ruleRisks);
+
       // Filter by confidence threshold and prioritize
       const filteredRisks = risks.filter(risk => risk.confidence >= opts.confidenceThreshold);
       return this.prioritizeRisks(filteredRisks);
@@ -102,12 +123,15 @@ export class RiskDetector {
     const trends = this.analyzePerformanceTrends(trajectory);
 
     for (const trend of trends) {
-      if (trend.direction === 'decreasing') {
+      // Costs such as CPC and CPA worsen as they rise, everything else as it falls
+      const isCost = COST_METRICS.has(trend.metric);
+      if (trend.direction === (isCost ? 'increasing' : 'decreasing')) {
         // Calculate percentage decline from trajectory data
-        const values = trajectory.map(point => point.metrics[trend.metric] || 0);
+        const values = trajectory.map(point => this.performanceLevel(trend.metric, point.metrics[trend.metric] || 0));
         const startValue = values[0] || 0;
         const endValue = values[values.length - 1] || 0;
-        const percentageDecline = startValue > 0 ? (startValue - endValue) / startValue : 0;
+        const change = startValue > 0 ? (startValue - endValue) / startValue : 0;
+        const percentageDecline = isCost ? -change : change;
         
         if (percentageDecline >= options.performanceDipThreshold) {
           const severity = this.calculateSeverity(percentageDecline, options.performanceDipThreshold);
@@ -216,13 +240,28 @@ export class RiskDetector {
   }
 
   /**
-   * Detect budget overrun risks
+   * Detect budget overrun risks. Campaigns with recorded spend are paced from
+   * the ledger; otherwise overrun risk is inferred from the trajectory.
    */
   private async detectBudgetOverruns(
     trajectory: TrajectoryPoint[],
     context: SimulationContext,
     options: Required<RiskDetectionOptions>
   ): Promise<RiskAlert[]> {
+    const { budgetAllocation, campaign } = context.dataset;
+    if (budgetAllocation.dailySpend?.length) {
+      const forecast = forecastBudgetPacing({
+        budget: budgetAllocation.total,
+        channelBudgets: budgetAllocation.allocated,
+        flightStart: campaign.startDate,
+        flightEnd: campaign.endDate,
+        spend: budgetAllocation.dailySpend,
+        asOf: this.latestSpendDay(budgetAllocation.dailySpend),
+        currency: campaign.currency
+      });
+      return forecast.alerts.map(alert => this.createPacingRisk(alert, forecast));
+    }
+
     const risks: RiskAlert[] = [];
     
     // Analyze spend trajectory vs budget
@@ -248,6 +287,46 @@ export class RiskDetector {
     return risks;
   }
 
+  private createPacingRisk(alert: BudgetPacingAlert, forecast: BudgetPacingForecast): RiskAlert {
+    const { projection } = alert;
+    const flightEnd = new Date(forecast.asOf.getTime() + forecast.daysRemaining * 24 * 60 * 60 * 1000);
+    const scope = alert.scope === TOTAL_SCOPE ? 'campaign' : alert.scope;
+    const dailyTarget = Math.round(projection.requiredDailySpend);
+
+    // A week of recorded spend makes the run rate reliable
+    const confidence = Math.min(0.95, 0.6 + 0.35 * Math.min(1, forecast.daysElapsed / 7));
+
+    return {
+      type: alert.type === 'over_pacing' ? 'budget_overrun' : 'budget_underpacing',
+      severity: alert.severity,
+      probability: Math.min(0.95, 0.5 + Math.abs(projection.variance)),
+      impact: Math.min(1, Math.abs(projection.variance)),
+      timeframe: {
+        start: forecast.asOf,
+        end: alert.type === 'over_pacing' ? (projection.exhaustionDate ?? flightEnd) : flightEnd
+      },
+      description: alert.message,
+      recommendations: alert.type === 'over_pacing'
+        ? [
+            `Cap ${scope} daily spend at ${dailyTarget}`,
+            'Implement stricter budget controls',
+            'Adjust bid strategies to control costs'
+          ]
+        : [
+            `Raise ${scope} daily spend to ${dailyTarget}`,
+            'Reallocate unspent budget to channels that are on pace',
+            'Broaden targeting to increase delivery'
+          ],
+      confidence
+    };
+  }
+
+  private latestSpendDay(spend: SpendRecord[]): Date {
+    const latest = Math.max(...spend.map(record => record.date.getTime()));
+    // Ledger days are complete once recorded, so spend is known through the end of the latest day
+    return new Date(latest + 24 * 60 * 60 * 1000);
+  }
+
   // ============================================================================
   // Analysis Methods
   // ============================================================================
@@ -256,6 +335,7 @@ export class RiskDetector {
     const trends: PerformanceTrend[] = [];
     
     if (trajectory.length < 3) return trends;
+    const pointsPerDay = this.pointsPerDay(trajectory);
 
     // Get all unique metrics
     const metrics = new Set<string>();
@@ -266,7 +346,7 @@ export class RiskDetector {
     // Analyze trend for each metric
     metrics.forEach(metric => {
       const values = trajectory.map(point => point.metrics[metric] || 0);
-      const trend = this.calculateTrend(values);
+      const trend = this.calculateTrend(values, pointsPerDay);
       const inflectionPoints = this.findInflectionPoints(trajectory, metric);
       
       trends.push({
@@ -302,7 +382,7 @@ export class RiskDetector {
       }
     });
 
-    const trend = this.calculateTrend(engagementValues);
+    const trend = this.calculateTrend(engagementValues, this.pointsPerDay(trajectory));
     
     return {
       metric: 'engagement_composite',
@@ -355,7 +435,7 @@ export class RiskDetector {
     );
     
     // Assume we're partway through the campaign
-    const timeElapsed = trajectory.length;
+    const timeElapsed = this.trajectoryDays(trajectory);
     const timeRemaining = Math.max(1, campaignDuration - timeElapsed);
     const dailySpendRate = currentSpend / Math.max(1, timeElapsed);
     const projectedTotalSpend = currentSpend + (dailySpendRate * timeRemaining);
@@ -374,7 +454,57 @@ export class RiskDetector {
   // Utility Methods
   // ============================================================================
 
-  private calculateTrend(values: number[]): {
+  /**
+   * Hourly forecasts follow the audience's daily cycle; trends are read from
+   * trailing 24-hour averages so quiet night hours do not read as dips
+   */
+  private smoothIntradayCycle(trajectory: TrajectoryPoint[], granularity: SimulationGranularity): TrajectoryPoint[] {
+    if (granularity !== 'hourly' || trajectory.length <= HOURS_PER_DAY) {
+      return trajectory;
+    }
+
+    return trajectory.slice(HOURS_PER_DAY - 1).map((point, index) => {
+      const window = trajectory.slice(index, index + HOURS_PER_DAY);
+      const metrics: Record<string, number> = {};
+      Object.keys(point.metrics).forEach(metric => {
+        metrics[metric] = window.reduce((sum, windowPoint) => sum + (windowPoint.metrics[metric] ?? 0), 0) / window.length;
+      });
+      return { ...point, metrics };
+    });
+  }
+
+  private pointsPerDay(trajectory: TrajectoryPoint[]): number {
+    const days = this.trajectoryDays(trajectory);
+    return trajectory.length > 1 && days > 0 ? trajectory.length / days : 1;
+  }
+
+  /**
+   * Days a trajectory covers, counting the last point's spacing in full
+   */
+  private trajectoryDays(trajectory: TrajectoryPoint[]): number {
+    if (trajectory.length < 2) {
+      return trajectory.length;
+    }
+
+    const first = new Date(trajectory[0].date).getTime();
+    const last = new Date(trajectory[trajectory.length - 1].date).getTime();
+    const spacing = (last - first) / (trajectory.length - 1);
+    return (last - first + spacing) / DAY_MS;
+  }
+
+  /**
+   * Level a metric's relative change is measured on: ROI on the return on
+   * spend (1 + ROI), so that changes around break-even stay meaningful
+   */
+  private performanceLevel(metric: string, value: number): number {
+    return metric === 'roi' ? 1 + value : value;
+  }
+
+  /**
+   * Linear trend of evenly spaced values, with the slope per day when the
+   * points per day are given so hourly and weekly forecasts are judged alike
+   */
+  private calculateTrend(values: number[], pointsPerDay = 1): {
     direction: 'increasing' | 'decreasing' | 'stable';
     slope: number;
     confidence: number;
@@ -385,7 +515,7 @@ export class RiskDetector {
 
     // Simple linear regression
     const n = values.length;
-    const x = Array.from({ length: n }, (_, i) => i);
+    const x = Array.from({ length: n }, (_, i) => i / pointsPerDay);
     const sumX = x.reduce((a, b) => a + b, 0);
     const sumY = values.reduce((a, b) => a + b, 0);
     const sumXY = x.reduce((sum, xi, i) => sum + xi * values[i], 0);
@@ -448,7 +578,10 @@ export class RiskDetector {
       'engagement': 1.1,
       'conversions': 1.5,
       'impressions': 0.8,
-      'reach': 0.9
+      'reach': 0.9,
+      'cpa': 1.4,
+      'roas': 1.5,
+      'roi': 1.5
     };
     
     const weight = metricWeights[metric] || 1.0;
@@ -550,7 +683,10 @@ export class RiskDetector {
   // ============================================================================
 
   private generatePerformanceDipDescription(trend: PerformanceTrend): string {
-    return `Predicted ${Math.round(trend.magnitude * 100)}% decline in ${trend.metric} performance. ` +
+    const change = COST_METRICS.has(trend.metric)
+      ? `increase in ${trend.metric}`
+      : `decline in ${trend.metric} performance`;
+    return `Predicted ${Math.round(trend.magnitude * 100)}% ${change}. ` +
            `Trend analysis shows ${trend.direction} pattern with ${Math.round(trend.confidence * 100)}% confidence.`;
   }
 
@@ -569,6 +705,11 @@ export class RiskDetector {
       recommendations.push('Experiment with different content formats');
     }
 
+    if (['cpa', 'roas', 'roi'].includes(trend.metric)) {
+      recommendations.push('Shift budget toward the channels with the lowest cost per acquisition');
+      recommendations.push('Review landing pages and checkout for conversion drop-off');
+    }
+
     return recommendations;
   }
 
@@ -0,0 +1,270 @@
+/**
+ * RiskRuleEngine
+ *
+ * Evaluates organization-defined risk rules over the recorded history and the
+ * predicted trajectory of a campaign, turning consecutive matching days into
+ * risk alerts.
+ */
+
+import {
+  TrajectoryPoint,
+  PerformanceMetric,
+  RiskAlert,
+  RiskRule
+} from '../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Metrics a rule can watch: everything a simulation predicts plus derived ones
+ */
+export const RISK_RULE_METRICS = [
+  'ctr',
+  'impressions',
+  'engagement',
+  'reach',
+  'conversions',
+  'cpc',
+  'cpm',
+  'cpa',
+  'roas',
+  'roi',
+  'brand_awareness',
+  'frequency'
+] as const;
+
+export const MAX_RULE_LOOKBACK_DAYS = 90;
+
+/**
+ * Metrics computed from others when the trajectory does not carry them
+ */
+const DERIVED_METRICS: Record<string, (metrics: Record<string, number>) => number | undefined> = {
+  frequency: metrics =>
+    metrics.impressions !== undefined && metrics.reach ? metrics.impressions / metrics.reach : undefined
+};
+
+interface SeriesPoint {
+  time: number;
+  metrics: Record<string, number>;
+  confidence: number;
+  predicted: boolean;
+}
+
+interface RuleMatch {
+  time: number;
+  value: number; // the observed value that broke the rule
+  magnitude: number; // relative deviation, used for impact
+  confidence: number;
+}
+
+/**
+ * Evaluate rules on every predicted day, using the recorded history as lookback
+ */
+export function evaluateRiskRules(
+  rules: RiskRule[],
+  trajectory: TrajectoryPoint[],
+  history: PerformanceMetric[] = []
+): RiskAlert[] {
+  if (rules.length === 0 || trajectory.length === 0) {
+    return [];
+  }
+
+  const series = buildSeries(trajectory, history);
+  const alerts: RiskAlert[] = [];
+
+  for (const rule of rules) {
+    let run: RuleMatch[] = [];
+    for (const point of series) {
+      if (!point.predicted) {
+        continue;
+      }
+
+      const match = evaluateRule(rule, series, point);
+      if (match) {
+        run.push(match);
+      } else if (run.length > 0) {
+        alerts.push(createRuleAlert(rule, run));
+        run = [];
+      }
+    }
+    if (run.length > 0) {
+      alerts.push(createRuleAlert(rule, run));
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Value of a metric on a point, falling back to derived metrics
+ */
+export function getMetricValue(metrics: Record<string, number>, metric: string): number | undefined {
+  if (metrics[metric] !== undefined) {
+    return metrics[metric];
+  }
+  return DERIVED_METRICS[metric]?.(metrics);
+}
+
+function buildSeries(trajectory: TrajectoryPoint[], history: PerformanceMetric[]): SeriesPoint[] {
+  const byDay = new Map<number, SeriesPoint>();
+
+  // Several records of the same metric on one day are averaged
+  const recorded = new Map<number, Record<string, number[]>>();
+  for (const record of history) {
+    const time = startOfDay(record.date);
+    const day = recorded.get(time) ?? {};
+    (day[record.metric] ??= []).push(record.value);
+    recorded.set(time, day);
+  }
+  for (const [time, day] of recorded) {
+    const metrics: Record<string, number> = {};
+    for (const [metric, values] of Object.entries(day)) {
+      metrics[metric] = mean(values);
+    }
+    byDay.set(time, { time, metrics, confidence: 1, predicted: false });
+  }
+
+  // Predictions take over from history on days both cover
+  for (const point of trajectory) {
+    const time = startOfDay(point.date);
+    byDay.set(time, { time, metrics: point.metrics, confidence: point.confidence, predicted: true });
+  }
+
+  return [...byDay.values()].sort((a, b) => a.time - b.time);
+}
+
+function evaluateRule(rule: RiskRule, series: SeriesPoint[], point: SeriesPoint): RuleMatch | null {
+  const lookback = Math.max(1, rule.lookbackDays) * DAY_MS;
+  const { condition } = rule;
+
+  // Values in the window ending (inclusive) at `end`
+  const windowValues = (start: number, end: number) =>
+    series
+      .filter(p => p.time > start && p.time <= end)
+      .map(p => getMetricValue(p.metrics, rule.metric))
+      .filter((value): value is number => value !== undefined);
+
+  const current = windowValues(point.time - lookback, point.time);
+  if (current.length === 0) {
+    return null;
+  }
+
+  switch (condition.kind) {
+    case 'threshold': {
+      const value = mean(current);
+      const breached = condition.operator === 'above' ? value > condition.value : value < condition.value;
+      return breached
+        ? { time: point.time, value, magnitude: Math.abs(relativeChange(value, condition.value)), confidence: point.confidence }
+        : null;
+    }
+
+    case 'period_change': {
+      const previous = windowValues(point.time - 2 * lookback, point.time - lookback);
+      if (previous.length === 0) {
+        return null;
+      }
+      const change = relativeChange(mean(current), mean(previous));
+      return breachesChange(change, condition.direction, condition.threshold)
+        ? { time: point.time, value: change, magnitude: Math.abs(change), confidence: point.confidence }
+        : null;
+    }
+
+    case 'median_change': {
+      const baseline = windowValues(point.time - lookback - DAY_MS, point.time - DAY_MS);
+      const value = getMetricValue(point.metrics, rule.metric);
+      if (baseline.length === 0 || value === undefined) {
+        return null;
+      }
+      const change = relativeChange(value, median(baseline));
+      return breachesChange(change, condition.direction, condition.threshold)
+        ? { time: point.time, value: change, magnitude: Math.abs(change), confidence: point.confidence }
+        : null;
+    }
+
+    case 'drops_to_zero': {
+      const hadData = series.some(p =>
+        p.time <= point.time - lookback && (getMetricValue(p.metrics, rule.metric) ?? 0) > 0
+      );
+      return hadData && current.every(value => value === 0)
+        ? { time: point.time, value: 0, magnitude: 1, confidence: point.confidence }
+        : null;
+    }
+  }
+}
+
+function breachesChange(change: number, direction: 'increase' | 'decrease', threshold: number): boolean {
+  return direction === 'increase' ? change >= threshold : change <= -threshold;
+}
+
+function createRuleAlert(rule: RiskRule, run: RuleMatch[]): RiskAlert {
+  const worst = run.reduce((a, b) => (b.magnitude > a.magnitude ? b : a));
+  const confidence = mean(run.map(match => match.confidence));
+  const start = new Date(run[0].time);
+  const end = new Date(run[run.length - 1].time);
+  const period = start.getTime() === end.getTime()
+    ? `on ${formatDay(start)}`
+    : `from ${formatDay(start)} to ${formatDay(end)}`;
+
+  return {
+    type: 'custom_rule',
+    severity: rule.severity,
+    probability: confidence,
+    impact: Math.min(1, worst.magnitude),
+    timeframe: { start, end },
+    description: `${rule.name}: ${rule.metric} ${describeMatch(rule, worst)} ${period}`,
+    recommendations: [`Review ${rule.metric} against the "${rule.name}" rule before ${formatDay(start)}`],
+    confidence,
+    rule: { id: rule.id, name: rule.name }
+  };
+}
+
+function describeMatch(rule: RiskRule, match: RuleMatch): string {
+  const days = Math.max(1, rule.lookbackDays);
+  const { condition } = rule;
+
+  switch (condition.kind) {
+    case 'threshold':
+      return days === 1
+        ? `is ${formatNumber(match.value)} (${condition.operator} ${formatNumber(condition.value)})`
+        : `averages ${formatNumber(match.value)} over ${days} days (${condition.operator} ${formatNumber(condition.value)})`;
+    case 'period_change':
+      return `${match.value < 0 ? 'falls' : 'rises'} ${formatPercent(match.value)} against the previous ${days} days`;
+    case 'median_change':
+      return `is ${formatPercent(match.value)} ${match.value < 0 ? 'below' : 'above'} its ${days}-day median`;
+    case 'drops_to_zero':
+      return `reports zero for ${days} days`;
+  }
+}
+
+function relativeChange(value: number, baseline: number): number {
+  if (baseline === 0) {
+    return value === 0 ? 0 : Math.sign(value);
+  }
+  return (value - baseline) / Math.abs(baseline);
+}
+
+function startOfDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(3)));
+}
+
+function formatPercent(value: number): string {
+  return `${Math.abs(value * 100).toFixed(1)}%`;
+}
@@ -2,7 +2,8 @@
  * ScenarioGenerator
  * 
  * Generates multiple trajectory scenarios (optimistic, realistic, pessimistic)
- * with probability calculations and market factor adjustments.
+ * with probability calculations and market factor adjustments, optionally
+ * from seeded Monte Carlo sampling.
  */
 
 import {
@@ -12,8 +13,22 @@ import {
   ScenarioAdjustment,
   MarketDataset,
   DateRange,
-  SimulationContext
+  SimulationContext,
+  ConfidenceInterval,
+  MonteCarloConfig,
+  MonteCarloResult
 } from '../../../types/simulation';
+import {
+  MonteCarloSampler,
+  MonteCarloSampleSet,
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  MAX_MONTE_CARLO_ITERATIONS,
+  aggregateMetricTotal,
+  generateSeed,
+  metricFloor,
+  scaleMetric,
+  COST_METRICS
+} from './MonteCarloSampler';
 
 export interface ScenarioGenerationOptions {
   includeMarketFactors?: boolean;
@@ -30,6 +45,12 @@ export interface ScenarioFactors {
   budgetConstraints: number;
 }
 
+export interface MonteCarloScenarioResult {
+  scenarios: ScenarioResult[];
+  monteCarlo: MonteCarloResult;
+  samples: MonteCarloSampleSet;
+}
+
 export class ScenarioGenerator {
   private readonly PERCENTILE_MAPPINGS = {
     optimistic: 75,
@@ -38,6 +59,13 @@ export class ScenarioGenerator {
     custom: 50 // Default, can be overridden
   };
 
+  private readonly MONTE_CARLO_PERCENTILES = {
+    optimistic: 90,
+    realistic: 50,
+    pessimistic: 10,
+    custom: 50
+  };
+
   private readonly SCENARIO_PROBABILITIES = {
     optimistic: 0.25,
     realistic: 0.50,
@@ -77,6 +105,115 @@ export class ScenarioGenerator {
     return scenarios;
   }
 
+  /**
+   * Generate scenarios from seeded Monte Carlo sampling of the base trajectory.
+   * Scenario probabilities are empirical shares of the sampled runs.
+   */
+  async generateMonteCarloScenarios(
+    baseTrajectory: TrajectoryPoint[],
+    confidenceIntervals: ConfidenceInterval[],
+    scenarioConfigs: ScenarioConfig[],
+    context: SimulationContext,
+    config: Partial<MonteCarloConfig> = {}
+  ): Promise<MonteCarloScenarioResult> {
+    const seed = config.seed ?? generateSeed();
+    const iterations = Math.min(
+      MAX_MONTE_CARLO_ITERATIONS,
+      Math.max(1, Math.round(config.iterations ?? DEFAULT_MONTE_CARLO_ITERATIONS))
+    );
+    const primaryMetric = this.selectPrimaryMetric(baseTrajectory);
+    const factors = this.calculateScenarioFactors(context.dataset.marketData, 'realistic');
+
+    const samples = new MonteCarloSampler(seed).sample(
+      baseTrajectory,
+      confidenceIntervals,
+      factors,
+      iterations,
+      primaryMetric
+    );
+
+    const monteCarlo: MonteCarloResult = {
+      seed,
+      iterations,
+      primaryMetric,
+      bands: {
+        p10: samples.percentileTrajectory(10),
+        p50: samples.percentileTrajectory(50),
+        p90: samples.percentileTrajectory(90)
+      },
+      kpiDistributions: samples.metrics.reduce((distributions, metric) => {
+        distributions[metric] = samples.distribution(metric);
+        return distributions;
+      }, {} as MonteCarloResult['kpiDistributions'])
+    };
+
+    const scenarios: ScenarioResult[] = [];
+
+    for (const scenarioConfig of scenarioConfigs) {
+      try {
+        scenarios.push(
+          await this.generateMonteCarloScenario(samples, monteCarlo, scenarioConfig, context)
+        );
+      } catch (error) {
+        console.error(`Failed to generate Monte Carlo scenario ${scenarioConfig.type}:`, error);
+        // Continue with other scenarios even if one fails
+      }
+    }
+
+    return { scenarios, monteCarlo, samples };
+  }
+
+  /**
+   * Generate a single scenario from a percentile band of the sampled runs
+   */
+  private async generateMonteCarloScenario(
+    samples: MonteCarloSampleSet,
+    monteCarlo: MonteCarloResult,
+    config: ScenarioConfig,
+    context: SimulationContext
+  ): Promise<ScenarioResult> {
+    const percentile = config.percentile ?? this.MONTE_CARLO_PERCENTILES[config.type];
+    let trajectory = samples.percentileTrajectory(percentile);
+
+    if (config.adjustments && config.adjustments.length > 0) {
+      trajectory = await this.applyScenarioAdjustments(trajectory, config.adjustments, context);
+    }
+
+    const metric = monteCarlo.primaryMetric;
+    const total = this.trajectoryTotal(trajectory, metric);
+    let probability: number;
+
+    switch (config.type) {
+      case 'optimistic':
+        probability = samples.shareOutperforming(metric, total);
+        break;
+      case 'pessimistic':
+        probability = samples.shareUnderperforming(metric, total);
+        break;
+      case 'realistic':
+        probability = Math.max(
+          0,
+          1 -
+            samples.shareOutperforming(metric, this.trajectoryTotal(monteCarlo.bands.p90, metric)) -
+            samples.shareUnderperforming(metric, this.trajectoryTotal(monteCarlo.bands.p10, metric))
+        );
+        break;
+      default:
+        probability = percentile >= 50
+          ? samples.shareOutperforming(metric, total)
+          : samples.shareUnderperforming(metric, total);
+    }
+
+    return {
+      type: config.type,
+      name: config.name,
+      probability,
+      trajectory,
+      key_factors: this.identifyKeyFactors(config, trajectory, context),
+      confidence: this.calculateScenarioConfidence(config, context, {})
+    };
+  }
+
   /**
    * Generate a single scenario with adjustments
    */
@@ -134,6 +271,7 @@ export class ScenarioGenerator {
 
     return {
       type: config.type,
+      name: config.name,
       probability,
       trajectory: adjustedTrajectory,
       key_factors: keyFactors,
@@ -160,7 +298,7 @@ export class ScenarioGenerator {
           adjustmentFactor
         );
         
-        adjusted[metric] = Math.max(0, adjustedValue); // Ensure non-negative values
+        adjusted[metric] = Math.max(metricFloor(metric), adjustedValue); // Ensure non-negative values
         return adjusted;
       }, {} as Record<string, number>),
       confidence: point.confidence * (0.8 + (percentile / 100) * 0.4) // Adjust confidence based on percentile
@@ -204,21 +342,21 @@ export class ScenarioGenerator {
       return {
         ...point,
         metrics: Object.entries(point.metrics).reduce((adjusted, [metric, value]) => {
-          let adjustedValue = value;
+          let marketFactor = 1;
 
           // Apply market volatility
-          adjustedValue *= (1 + factors.marketVolatility * timeBasedFactor);
+          marketFactor *= (1 + factors.marketVolatility * timeBasedFactor);
 
           // Apply competitor activity impact
-          adjustedValue *= (1 - factors.competitorActivity * 0.1);
+          marketFactor *= (1 - factors.competitorActivity * 0.1);
 
           // Apply seasonal trends
-          adjustedValue *= (1 + factors.seasonalTrends * Math.sin(index * Math.PI / 30));
+          marketFactor *= (1 + factors.seasonalTrends * Math.sin(index * Math.PI / 30));
 
           // Apply creative fatigue (increases over time)
-          adjustedValue *= (1 - factors.creativeFatigue * (index / trajectory.length));
+          marketFactor *= (1 - factors.creativeFatigue * (index / trajectory.length));
 
-          adjusted[metric] = Math.max(0, adjustedValue);
+          adjusted[metric] = Math.max(metricFloor(metric), scaleMetric(metric, value, marketFactor));
           return adjusted;
         }, {} as Record<string, number>)
       };
@@ -250,7 +388,9 @@ export class ScenarioGenerator {
   }
 
   /**
-   * Apply a single adjustment to trajectory
+   * Apply a single adjustment to the trajectory point by point.
+   * A weekly or monthly point is adjusted when the timeframe overlaps any of
+   * its days; points outside the adjustment timeframe are left untouched.
    */
   private applyAdjustment(
     trajectory: TrajectoryPoint[],
@@ -261,56 +401,100 @@ export class ScenarioGenerator {
       start: trajectory[0].date,
       end: trajectory[trajectory.length - 1].date
     };
+    const startDay = this.toDayIndex(timeframe.start);
+    const endDay = this.toDayIndex(timeframe.end);
+    const channelShare = adjustment.channel
+      ? this.getChannelBudgetShare(adjustment.channel, context)
+      : 1;
 
-    return trajectory.map(point => {
-      // Check if point is within adjustment timeframe
-      if (point.date >= timeframe.start && point.date <= timeframe.end) {
-        return {
-          ...point,
-          metrics: Object.entries(point.metrics).reduce((adjusted, [metric, value]) => {
-            adjusted[metric] = this.applyFactorAdjustment(
-              value,
-              adjustment.factor,
-              adjustment.multiplier
-            );
-            return adjusted;
-          }, {} as Record<string, number>)
-        };
+    return trajectory.map((point, index) => {
+      const day = this.toDayIndex(point.date);
+      // Days the point covers: up to the next point, the last one as long as the one before
+      const [from, to] = index < trajectory.length - 1
+        ? [point, trajectory[index + 1]]
+        : [trajectory[index - 1] ?? point, point];
+      const lastDay = day + Math.max(1, this.toDayIndex(to.date) - this.toDayIndex(from.date)) - 1;
+      if (lastDay < startDay || day > endDay) {
+        return point;
       }
-      return point;
+
+      return {
+        ...point,
+        metrics: Object.entries(point.metrics).reduce((adjusted, [metric, value]) => {
+          const shocked = this.applyFactorAdjustment(value, adjustment, metric);
+          // A channel-scoped shock only moves that channel's share of the total
+          adjusted[metric] = Math.max(metricFloor(metric), value + (shocked - value) * channelShare);
+          return adjusted;
+        }, {} as Record<string, number>)
+      };
     });
   }
 
   /**
-   * Apply factor-specific adjustments
+   * Apply factor-specific adjustments to a single metric value
    */
   private applyFactorAdjustment(
     value: number,
-    factor: ScenarioAdjustment['factor'],
-    multiplier: number
+    adjustment: ScenarioAdjustment,
+    metric: string
   ): number {
+    const { factor, multiplier } = adjustment;
+
+    // Explicitly targeted metrics take the multiplier as stated
+    if (adjustment.metrics && adjustment.metrics.length > 0) {
+      return adjustment.metrics.includes(metric) ? value * multiplier : value;
+    }
+
+    const isCost = COST_METRICS.has(metric);
+
     switch (factor) {
       case 'budget':
-        // Budget changes affect reach and impressions more than engagement
-        return value * multiplier;
+        // Budget changes move volume metrics, with diminishing returns on reach;
+        // conversions grow slower than spend, so returns per dollar fall
+        if (metric === 'impressions') return value * multiplier;
+        if (metric === 'reach') return value * Math.pow(multiplier, 0.8);
+        if (metric === 'conversions') return value * Math.pow(multiplier, 0.9);
+        if (metric === 'cpa') return value * Math.pow(multiplier, 0.1);
+        if (metric === 'roas' || metric === 'roi') return scaleMetric(metric, value, Math.pow(multiplier, -0.1));
+        return value;
       
-      case 'competition':
-        // Competition affects CTR and conversion rates more
-        return value * (1 - (1 - multiplier) * 0.8);
+      case 'competition': {
+        // Competitive pressure lowers performance and raises costs
+        const pressure = 1 - (1 - multiplier) * 0.8;
+        return isCost ? value / Math.max(0.05, pressure) : scaleMetric(metric, value, pressure);
+      }
       
       case 'seasonality':
-        // Seasonal effects vary by metric type
-        return value * multiplier;
+        // Seasonal demand shifts performance but not unit costs
+        return isCost ? value : scaleMetric(metric, value, multiplier);
       
       case 'creative_fatigue':
         // Creative fatigue primarily affects engagement and CTR
-        return value * (1 - (1 - multiplier) * 0.6);
+        if (metric === 'ctr' || metric === 'engagement' || metric === 'conversions') {
+          return value * (1 - (1 - multiplier) * 0.6);
+        }
+        return value;
       
       default:
         return value * multiplier;
     }
   }
 
+  /**
+   * Share of the campaign budget allocated to a channel
+   */
+  private getChannelBudgetShare(channel: string, context: SimulationContext): number {
+    const { total, allocated } = context.dataset.budgetAllocation;
+    const channelBudget = allocated[channel];
+
+    if (channelBudget === undefined || total <= 0) {
+      console.warn(`No budget allocation found for channel ${channel}; shock has no effect`);
+      return 0;
+    }
+
+    return Math.min(1, channelBudget / total);
+  }
+
   /**
    * Calculate probability for a scenario
    */
@@ -369,6 +553,9 @@ export class ScenarioGenerator {
     if (config.adjustments) {
       config.adjustments.forEach(adj => {
         factors.push(`${adj.factor}_adjustment`);
+        if (adj.label) {
+          factors.push(adj.label);
+        }
       });
     }
 
@@ -453,16 +640,38 @@ export class ScenarioGenerator {
         // Volume metrics are less sensitive
         return value * Math.pow(adjustmentFactor, 0.8);
       
+      case 'brand_awareness':
+        // Share of the audience reached, so it moves with reach
+        return Math.min(1, value * Math.pow(adjustmentFactor, 0.8));
+      
       case 'cpc':
       case 'cpm':
+      case 'cpa':
         // Cost metrics have inverse relationship
         return value / Math.pow(adjustmentFactor, 0.6);
       
       default:
-        return value * adjustmentFactor;
+        return scaleMetric(metric, value, adjustmentFactor);
     }
   }
 
+  private selectPrimaryMetric(trajectory: TrajectoryPoint[]): string {
+    const metrics = Object.keys(trajectory[0]?.metrics || {});
+    if (metrics.includes('ctr')) return 'ctr';
+    return metrics.find(metric => !COST_METRICS.has(metric)) || metrics[0] || 'ctr';
+  }
+
+  private trajectoryTotal(trajectory: TrajectoryPoint[], metric: string): number {
+    return aggregateMetricTotal(metric, trajectory.map(point => point.metrics[metric] ?? 0));
+  }
+
+  private toDayIndex(date: Date): number {
+    const value = new Date(date);
+    return Math.floor(
+      Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()) / (24 * 60 * 60 * 1000)
+    );
+  }
+
   private calculateTimeBasedFactor(index: number, totalPoints: number): number {
     // Create a factor that varies over time (0.5 to 1.5)
     return 0.5 + Math.sin((index / totalPoints) * Math.PI);
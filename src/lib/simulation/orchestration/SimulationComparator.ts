@@ -0,0 +1,416 @@
+/**
+ * SimulationComparator
+ *
+ * Compares completed simulations of one campaign: overlays their trajectories,
+ * diffs scenarios, risks and recommendations against the oldest run, and
+ * attributes the differences to the configuration changes that can explain them.
+ */
+
+import { SimulationGranularity } from '../../../types/simulation';
+import { aggregateMetricTotal } from './MonteCarloSampler';
+import { SimulationRecord, StoredSimulationResults } from './SimulationResultSerializer';
+
+export type ComparisonSection = 'trajectories' | 'scenarios' | 'risks' | 'recommendations';
+
+export type ComparisonConfigField =
+  | 'timeframe'
+  | 'metrics'
+  | 'scenarios'
+  | 'customScenarios'
+  | 'externalDataSources'
+  | 'monteCarlo'
+  | 'modelVersions';
+
+/**
+ * A completed simulation as loaded for comparison
+ */
+export type ComparableSimulation = Pick<SimulationRecord, '_id' | 'createdAt' | 'config' | 'modelMetadata'> & {
+  results: StoredSimulationResults;
+};
+
+export interface ComparedSimulationSummary {
+  simulationId: string;
+  createdAt: number;
+  isBaseline: boolean;
+}
+
+export interface TrajectoryOverlayPoint {
+  date: number;
+  // values[simulationId][metric]; simulations without a point on this date are absent
+  values: Record<string, Record<string, number>>;
+}
+
+export interface TrajectoryOverlay {
+  metrics: string[];
+  points: TrajectoryOverlayPoint[];
+  granularity: SimulationGranularity; // finest granularity among the runs, which sets the axis labels
+}
+
+export interface ConfigChange {
+  field: ComparisonConfigField;
+  label: string;
+  baseline: string;
+  value: string;
+  // Result sections this change can explain and that actually differ
+  affects: ComparisonSection[];
+}
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number;
+  value: number;
+  relativeChange: number | null;
+}
+
+export type ComparisonItemChange = 'added' | 'removed' | 'changed';
+
+export interface ComparisonItemDiff {
+  key: string;
+  change: ComparisonItemChange;
+  details: string[];
+}
+
+export interface SimulationDiff {
+  simulationId: string;
+  configChanges: ConfigChange[];
+  changedSections: ComparisonSection[];
+  metricDeltas: MetricDelta[];
+  scenarios: ComparisonItemDiff[];
+  risks: ComparisonItemDiff[];
+  recommendations: ComparisonItemDiff[];
+}
+
+export interface SimulationComparison {
+  baselineId: string;
+  simulations: ComparedSimulationSummary[];
+  trajectories: TrajectoryOverlay;
+  diffs: SimulationDiff[];
+}
+
+const GRANULARITIES: SimulationGranularity[] = ['hourly', 'daily', 'weekly', 'monthly'];
+
+// Relative differences below this are treated as noise
+const RELATIVE_TOLERANCE = 0.005;
+
+const ALL_SECTIONS: ComparisonSection[] = ['trajectories', 'scenarios', 'risks', 'recommendations'];
+
+interface ConfigFieldDefinition {
+  field: ComparisonConfigField;
+  label: string;
+  influences: ComparisonSection[];
+  describe: (simulation: ComparableSimulation) => string;
+  // Equality key, when the description does not capture every difference
+  fingerprint?: (simulation: ComparableSimulation) => string;
+}
+
+const CONFIG_FIELDS: ConfigFieldDefinition[] = [
+  {
+    field: 'timeframe',
+    label: 'Timeframe',
+    influences: ALL_SECTIONS,
+    describe: ({ config }) =>
+      `${formatDate(config.timeframe.startDate)} – ${formatDate(config.timeframe.endDate)} (${config.timeframe.granularity})`
+  },
+  {
+    field: 'metrics',
+    label: 'Metrics',
+    influences: ['trajectories', 'recommendations'],
+    describe: ({ config }) => config.metrics.map(metric => `${metric.type} (${metric.weight})`).join(', ')
+  },
+  {
+    field: 'scenarios',
+    label: 'Scenarios',
+    influences: ['scenarios'],
+    describe: ({ config }) => describeList(config.scenarios)
+  },
+  {
+    field: 'customScenarios',
+    label: 'Custom scenarios',
+    influences: ['scenarios'],
+    describe: ({ config }) => describeList((config.customScenarios ?? []).map(scenario =>
+      `${scenario.name} (${scenario.adjustments.length} adjustment${scenario.adjustments.length === 1 ? '' : 's'})`
+    )),
+    fingerprint: ({ config }) => JSON.stringify(config.customScenarios ?? [])
+  },
+  {
+    field: 'externalDataSources',
+    label: 'External data sources',
+    influences: ['trajectories', 'risks', 'recommendations'],
+    describe: ({ config }) => describeList(config.externalDataSources)
+  },
+  {
+    field: 'monteCarlo',
+    label: 'Monte Carlo',
+    influences: ['scenarios'],
+    describe: ({ config }) => config.monteCarlo
+      ? `${config.monteCarlo.iterations} iterations${config.monteCarlo.seed !== undefined ? `, seed ${config.monteCarlo.seed}` : ''}`
+      : 'off'
+  },
+  {
+    field: 'modelVersions',
+    label: 'Model versions',
+    influences: ALL_SECTIONS,
+    describe: ({ modelMetadata }) => {
+      const versions = modelMetadata?.modelVersions;
+      if (!versions || Object.keys(versions).length === 0) {
+        return modelMetadata?.primaryModel ?? 'unknown';
+      }
+      return Object.keys(versions).sort().map(model => `${model}@${versions[model]}`).join(', ');
+    }
+  }
+];
+
+/**
+ * Compare two or more completed simulations. The oldest simulation is the
+ * baseline every other simulation is diffed against.
+ */
+export function compareSimulations(simulations: ComparableSimulation[]): SimulationComparison {
+  if (simulations.length < 2) {
+    throw new Error('At least two simulations are required for a comparison');
+  }
+
+  const ordered = [...simulations].sort((a, b) => a.createdAt - b.createdAt);
+  const [baseline, ...others] = ordered;
+
+  return {
+    baselineId: baseline._id,
+    simulations: ordered.map(simulation => ({
+      simulationId: simulation._id,
+      createdAt: simulation.createdAt,
+      isBaseline: simulation === baseline
+    })),
+    trajectories: overlayTrajectories(ordered),
+    diffs: others.map(simulation => diffSimulation(baseline, simulation))
+  };
+}
+
+/**
+ * Merge trajectories on their dates so each metric can be plotted per simulation
+ */
+export function overlayTrajectories(simulations: ComparableSimulation[]): TrajectoryOverlay {
+  const metrics = new Set<string>();
+  const byDate = new Map<number, TrajectoryOverlayPoint>();
+
+  simulations.forEach(simulation => {
+    simulation.results.trajectories.forEach(point => {
+      Object.keys(point.metrics).forEach(metric => metrics.add(metric));
+
+      let overlayPoint = byDate.get(point.date);
+      if (!overlayPoint) {
+        overlayPoint = { date: point.date, values: {} };
+        byDate.set(point.date, overlayPoint);
+      }
+      overlayPoint.values[simulation._id] = { ...point.metrics };
+    });
+  });
+
+  return {
+    metrics: [...metrics].sort(),
+    points: [...byDate.values()].sort((a, b) => a.date - b.date),
+    granularity: GRANULARITIES.find(granularity =>
+      simulations.some(simulation => simulation.config.timeframe.granularity === granularity)
+    ) ?? 'daily'
+  };
+}
+
+function diffSimulation(baseline: ComparableSimulation, simulation: ComparableSimulation): SimulationDiff {
+  const metricDeltas = diffMetricTotals(baseline, simulation);
+  const scenarios = diffScenarios(baseline.results, simulation.results);
+  const risks = diffRisks(baseline.results, simulation.results);
+  const recommendations = diffRecommendations(baseline.results, simulation.results);
+
+  const changedSections = ALL_SECTIONS.filter(section => {
+    switch (section) {
+      case 'trajectories':
+        return metricDeltas.some(delta => delta.relativeChange === null || Math.abs(delta.relativeChange) >= RELATIVE_TOLERANCE);
+      case 'scenarios':
+        return scenarios.length > 0;
+      case 'risks':
+        return risks.length > 0;
+      case 'recommendations':
+        return recommendations.length > 0;
+    }
+  });
+
+  const configChanges = CONFIG_FIELDS
+    .filter(definition => fingerprintOf(definition, baseline) !== fingerprintOf(definition, simulation))
+    .map(definition => ({
+      field: definition.field,
+      label: definition.label,
+      baseline: definition.describe(baseline),
+      value: definition.describe(simulation),
+      affects: definition.influences.filter(section => changedSections.includes(section))
+    }));
+
+  return {
+    simulationId: simulation._id,
+    configChanges,
+    changedSections,
+    metricDeltas,
+    scenarios,
+    risks,
+    recommendations
+  };
+}
+
+function diffMetricTotals(baseline: ComparableSimulation, simulation: ComparableSimulation): MetricDelta[] {
+  const baselineTotals = trajectoryTotals(baseline.results.trajectories);
+  const totals = trajectoryTotals(simulation.results.trajectories);
+  const metrics = [...new Set([...Object.keys(baselineTotals), ...Object.keys(totals)])].sort();
+
+  return metrics
+    .filter(metric => metric in baselineTotals && metric in totals)
+    .map(metric => ({
+      metric,
+      baseline: baselineTotals[metric],
+      value: totals[metric],
+      relativeChange: relativeChange(baselineTotals[metric], totals[metric])
+    }));
+}
+
+function diffScenarios(baseline: StoredSimulationResults, results: StoredSimulationResults): ComparisonItemDiff[] {
+  return diffByKey(
+    baseline.scenarios,
+    results.scenarios,
+    scenario => scenario.name ?? scenario.type,
+    (before, after) => {
+      const details: string[] = [];
+      if (Math.abs(before.probability - after.probability) >= 0.01) {
+        details.push(`probability ${formatPercent(before.probability)} → ${formatPercent(after.probability)}`);
+      }
+
+      const beforeTotals = trajectoryTotals(before.trajectory);
+      const afterTotals = trajectoryTotals(after.trajectory);
+      Object.keys(beforeTotals).sort().forEach(metric => {
+        if (!(metric in afterTotals)) return;
+        const change = relativeChange(beforeTotals[metric], afterTotals[metric]);
+        if (change !== null && Math.abs(change) >= RELATIVE_TOLERANCE) {
+          details.push(`${metric} ${formatSignedPercent(change)}`);
+        }
+      });
+      return details;
+    }
+  );
+}
+
+function diffRisks(baseline: StoredSimulationResults, results: StoredSimulationResults): ComparisonItemDiff[] {
+  return diffByKey(
+    baseline.risks,
+    results.risks,
+    riskKey,
+    (before, after) => {
+      const details: string[] = [];
+      if (before.severity !== after.severity) {
+        details.push(`severity ${before.severity} → ${after.severity}`);
+      }
+      if (Math.abs(before.probability - after.probability) >= 0.01) {
+        details.push(`probability ${formatPercent(before.probability)} → ${formatPercent(after.probability)}`);
+      }
+      return details;
+    }
+  );
+}
+
+/**
+ * Identity of a risk across simulations; rule-triggered risks are told apart by rule name
+ */
+export function riskKey(risk: StoredSimulationResults['risks'][number]): string {
+  return risk.rule ? `${risk.type} (${risk.rule.name})` : risk.type;
+}
+
+function diffRecommendations(baseline: StoredSimulationResults, results: StoredSimulationResults): ComparisonItemDiff[] {
+  return diffByKey(
+    baseline.recommendations,
+    results.recommendations,
+    recommendation => `${recommendation.type} (${recommendation.impact_estimate.metric})`,
+    (before, after) => {
+      const details: string[] = [];
+      if (before.priority !== after.priority) {
+        details.push(`priority ${before.priority} → ${after.priority}`);
+      }
+      if (Math.abs(before.impact_estimate.improvement - after.impact_estimate.improvement) >= 0.01) {
+        details.push(
+          `improvement ${formatPercent(before.impact_estimate.improvement)} → ${formatPercent(after.impact_estimate.improvement)}`
+        );
+      }
+      if (before.implementation.effort !== after.implementation.effort) {
+        details.push(`effort ${before.implementation.effort} → ${after.implementation.effort}`);
+      }
+      return details;
+    }
+  );
+}
+
+function diffByKey<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  describeChanges: (before: T, after: T) => string[]
+): ComparisonItemDiff[] {
+  const beforeByKey = new Map(before.map(item => [keyOf(item), item]));
+  const afterByKey = new Map(after.map(item => [keyOf(item), item]));
+  const diffs: ComparisonItemDiff[] = [];
+
+  beforeByKey.forEach((item, key) => {
+    const counterpart = afterByKey.get(key);
+    if (!counterpart) {
+      diffs.push({ key, change: 'removed', details: [] });
+      return;
+    }
+    const details = describeChanges(item, counterpart);
+    if (details.length > 0) {
+      diffs.push({ key, change: 'changed', details });
+    }
+  });
+
+  afterByKey.forEach((_, key) => {
+    if (!beforeByKey.has(key)) {
+      diffs.push({ key, change: 'added', details: [] });
+    }
+  });
+
+  return diffs;
+}
+
+function trajectoryTotals(trajectory: Array<{ metrics: Record<string, number> }>): Record<string, number> {
+  const values: Record<string, number[]> = {};
+  trajectory.forEach(point => {
+    Object.entries(point.metrics).forEach(([metric, value]) => {
+      (values[metric] ??= []).push(value);
+    });
+  });
+
+  const totals: Record<string, number> = {};
+  Object.entries(values).forEach(([metric, metricValues]) => {
+    totals[metric] = aggregateMetricTotal(metric, metricValues);
+  });
+  return totals;
+}
+
+function relativeChange(baseline: number, value: number): number | null {
+  if (baseline === 0) {
+    return value === 0 ? 0 : null;
+  }
+  return (value - baseline) / Math.abs(baseline);
+}
+
+function fingerprintOf(definition: ConfigFieldDefinition, simulation: ComparableSimulation): string {
+  return definition.fingerprint ? definition.fingerprint(simulation) : definition.describe(simulation);
+}
+
+function describeList(values: string[]): string {
+  return values.length > 0 ? [...values].sort().join(', ') : 'none';
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatSignedPercent(value: number): string {
+  const percent = (value * 100).toFixed(1);
+  return value >= 0 ? `+${percent}%` : `${percent}%`;
+}
@@ -10,18 +10,51 @@ import {
   SimulationResult,
   SimulationStatus,
   SimulationContext,
-  EnrichedDataset,
   PredictionOutput,
   ScenarioResult,
   RiskAlert,
   PivotRecommendation,
   ModelMetadata,
+  MonteCarloResult,
+  KPIAttainment,
   ValidationResult,
+  SimulationStage,
+  SimulationStageStatus,
+  SimulationStageUpdate,
+  SimulationInputSnapshot,
+  EnrichedDataset,
+  RiskRule,
+  RiskThresholds,
+  ModelError,
+  ModelUsageRecord,
+  ModelPrediction,
+  TokenUsage,
 } from "../../../types/simulation";
 import { SimulationRequestValidator } from "../validation";
 import { SimulationErrorHandler, createSimulationError } from "../errors";
 import { CampaignDataAggregator } from "../data-aggregation/CampaignDataAggregator";
 import { DataEnrichmentService } from "../data-aggregation/DataEnrichmentService";
+import { EnsembleCoordinator } from "../ai-models/EnsembleCoordinator";
+import { LearnedWeightSegment } from "../ai-models/LearnedEnsembleWeights";
+import {
+  ModelRegistry,
+  ModelRunListener,
+  createDefaultModelRegistry,
+} from "../ai-models/ModelRegistry";
+import { ScenarioGenerator } from "./ScenarioGenerator";
+import { deriveMetrics } from "./DerivedMetrics";
+import { resampleTrajectory } from "./TrajectoryResampler";
+import { MonteCarloSampleSet } from "./MonteCarloSampler";
+import {
+  assessKpiAttainment,
+  monteCarloOutcomes,
+  scenarioOutcomes,
+} from "./KpiAttainmentAnalyzer";
+import { RiskDetector } from "./RiskDetector";
+import { PivotRecommendationEngine } from "./PivotRecommendationEngine";
+import { estimateModelCost } from "../usage/AIUsage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface SimulationQueue {
   id: string;
@@ -38,6 +71,67 @@ export interface SimulationProcessingOptions {
   timeout?: number;
   retryAttempts?: number;
   cacheResults?: boolean;
+  simulationId?: string; // reuse an existing simulation record instead of generating an ID
+  organizationId?: string;
+  userId?: string;
+  replayDataset?: EnrichedDataset; // frozen inputs of an earlier run; skips aggregation and enrichment
+  riskSettings?: {
+    thresholds?: RiskThresholds; // organization overrides of the built-in detector thresholds
+    rules?: RiskRule[]; // organization risk rules evaluated next to the built-in detectors
+  };
+  learnedWeights?: LearnedWeightSegment[]; // ensemble weights learned from the organization's tracked accuracy
+}
+
+/**
+ * Query function handed to the data aggregators, e.g. ("campaigns:get", { id })
+ */
+export type ConvexQueryFunction = (
+  name: string,
+  args: Record<string, unknown>
+) => Promise<any>;
+
+/**
+ * Persists completed simulation results
+ */
+export interface SimulationResultStore {
+  save(result: SimulationResult): Promise<void>;
+}
+
+/**
+ * Receives stage transitions while a simulation is processing
+ */
+export interface SimulationProgressReporter {
+  report(update: SimulationStageUpdate): Promise<void>;
+}
+
+/**
+ * Persists the inputs a simulation ran on before any model is called
+ */
+export interface SimulationSnapshotStore {
+  save(snapshot: SimulationInputSnapshot): Promise<void>;
+}
+
+/**
+ * Meters every predictor call a simulation makes
+ */
+export interface SimulationUsageRecorder {
+  record(usage: ModelUsageRecord): Promise<void>;
+}
+
+/**
+ * Keeps each model's own forecast so its accuracy can be tracked once actuals arrive
+ */
+export interface SimulationPredictionRecorder {
+  record(simulationId: string, predictions: ModelPrediction[]): Promise<void>;
+}
+
+export interface SimulationOrchestratorDependencies {
+  resultStore?: SimulationResultStore;
+  progressReporter?: SimulationProgressReporter;
+  snapshotStore?: SimulationSnapshotStore;
+  usageRecorder?: SimulationUsageRecorder;
+  predictionRecorder?: SimulationPredictionRecorder;
+  convexQuery?: ConvexQueryFunction;
 }
 
 export class SimulationOrchestrator {
@@ -45,14 +139,37 @@ export class SimulationOrchestrator {
   private errorHandler: SimulationErrorHandler;
   private campaignAggregator: CampaignDataAggregator;
   private enrichmentService: DataEnrichmentService;
+  private modelRegistry: ModelRegistry;
+  private scenarioGenerator: ScenarioGenerator;
+  private riskDetector: RiskDetector;
+  private recommendationEngine: PivotRecommendationEngine;
+  private resultStore?: SimulationResultStore;
+  private progressReporter?: SimulationProgressReporter;
+  private snapshotStore?: SimulationSnapshotStore;
+  private usageRecorder?: SimulationUsageRecorder;
+  private predictionRecorder?: SimulationPredictionRecorder;
+  private convexQuery: ConvexQueryFunction | null;
   private processingQueue: Map<string, SimulationQueue> = new Map();
   private activeSimulations: Map<string, Promise<SimulationResult>> = new Map();
 
-  constructor() {
+  constructor(
+    modelRegistry: ModelRegistry = createDefaultModelRegistry(),
+    dependencies: SimulationOrchestratorDependencies = {}
+  ) {
     this.validator = new SimulationRequestValidator();
     this.errorHandler = new SimulationErrorHandler();
     this.campaignAggregator = new CampaignDataAggregator();
     this.enrichmentService = new DataEnrichmentService();
+    this.modelRegistry = modelRegistry;
+    this.scenarioGenerator = new ScenarioGenerator();
+    this.riskDetector = new RiskDetector();
+    this.recommendationEngine = new PivotRecommendationEngine();
+    this.resultStore = dependencies.resultStore;
+    this.progressReporter = dependencies.progressReporter;
+    this.snapshotStore = dependencies.snapshotStore;
+    this.usageRecorder = dependencies.usageRecorder;
+    this.predictionRecorder = dependencies.predictionRecorder;
+    this.convexQuery = dependencies.convexQuery ?? null;
   }
 
   /**
@@ -62,7 +179,7 @@ export class SimulationOrchestrator {
     request: SimulationRequest,
     options: SimulationProcessingOptions = {}
   ): Promise<SimulationResult> {
-    const simulationId = this.generateSimulationId();
+    const simulationId = options.simulationId ?? this.generateSimulationId();
 
     try {
       // Step 1: Validate the simulation request
@@ -78,7 +195,11 @@ export class SimulationOrchestrator {
       }
 
       // Step 2: Create simulation context
-      const context = await this.createSimulationContext(simulationId, request);
+      const context = await this.createSimulationContext(
+        simulationId,
+        request,
+        options
+      );
 
       // Step 3: Queue the simulation
       await this.queueSimulation(context, options);
@@ -141,6 +262,13 @@ export class SimulationOrchestrator {
     }
   }
 
+  /**
+   * Get the model registry used to resolve predictors for each run
+   */
+  getModelRegistry(): ModelRegistry {
+    return this.modelRegistry;
+  }
+
   /**
    * Get queue status and processing metrics
    */
@@ -176,29 +304,65 @@ export class SimulationOrchestrator {
 
   private async createSimulationContext(
     simulationId: string,
-    request: SimulationRequest
+    request: SimulationRequest,
+    options: SimulationProcessingOptions
   ): Promise<SimulationContext> {
-    // Aggregate campaign data (placeholder - would use actual Convex query in production)
-    const campaignDataset = await this.campaignAggregator.aggregateCampaignData(
-      request.campaignId,
-      null // Placeholder for Convex query function
+    const context = {
+      simulationId,
+      organizationId: options.organizationId ?? "org_placeholder",
+      userId: options.userId ?? "user_placeholder",
+      request,
+    };
+
+    // Re-runs with the same inputs use the recorded dataset as-is
+    const { replayDataset } = options;
+    if (replayDataset) {
+      const dataset = await this.runStage(
+        simulationId,
+        "data_aggregation",
+        async () => replayDataset,
+        () => "Replayed from input snapshot"
+      );
+      return { ...context, dataset };
+    }
+
+    // Aggregate campaign data
+    await this.runStage(simulationId, "data_aggregation", () =>
+      this.campaignAggregator.aggregateCampaignData(
+        request.campaignId,
+        this.convexQuery
+      )
     );
 
-    // Enrich with external data (placeholder - would use actual Convex query in production)
-    const enrichmentResult = await this.enrichmentService.enrichCampaignData(
-      request.campaignId,
-      request.externalDataSources,
-      null // Placeholder for Convex query function
+    // Enrich with external data, noting any sources that fell back to defaults
+    const enrichmentResult = await this.runStage(
+      simulationId,
+      "market_enrichment",
+      () =>
+        this.enrichmentService.enrichCampaignData(
+          request.campaignId,
+          request.externalDataSources,
+          this.convexQuery
+        ),
+      (result) => {
+        const fallbacks = result.enrichmentSummary?.fallbacksUsed ?? [];
+        return fallbacks.length > 0
+          ? `Used fallbacks: ${fallbacks.join(", ")}`
+          : undefined;
+      }
     );
     const enrichedDataset = enrichmentResult.dataset;
 
-    return {
-      simulationId,
-      organizationId: "org_placeholder", // Would be extracted from campaign data
-      userId: "user_placeholder", // Would be extracted from request context
-      request,
-      dataset: enrichedDataset,
-    };
+    if (this.snapshotStore) {
+      await this.snapshotStore.save({
+        simulationId,
+        dataset: enrichedDataset,
+        sourcesUsed: enrichmentResult.enrichmentSummary?.sourcesUsed ?? [],
+        capturedAt: new Date(),
+      });
+    }
+
+    return { ...context, dataset: enrichedDataset };
   }
 
   private async queueSimulation(
@@ -231,20 +395,35 @@ export class SimulationOrchestrator {
         queueItem.startedAt = new Date();
       }
 
-      // Step 1: Generate AI predictions (placeholder - would integrate with AI models)
-      const predictions = await this.generatePredictions(context);
+      // Step 1: Generate AI predictions from the registered models, resample
+      // them to the requested granularity and add the derived financial and
+      // awareness metrics
+      const predictions = this.deriveMetrics(
+        this.resamplePredictions(
+          await this.generatePredictions(context, options),
+          context
+        ),
+        context
+      );
 
-      // Step 2: Generate scenarios (placeholder - would be implemented in ScenarioGenerator)
-      const scenarios = await this.generateScenarios(predictions, context);
+      // Step 2: Generate scenarios from the ensemble trajectory
+      const { scenarios, monteCarlo, samples } = await this.runStage(
+        context.simulationId,
+        "scenarios",
+        () => this.generateScenarios(predictions, context)
+      );
+      const kpiAttainment = this.assessKpiAttainment(scenarios, samples, context);
 
-      // Step 3: Detect risks (placeholder - would be implemented in RiskDetector)
-      const risks = await this.detectRisks(predictions, context);
+      // Step 3: Detect risks in the ensemble trajectory
+      const risks = await this.runStage(context.simulationId, "risks", () =>
+        this.detectRisks(predictions, context, options)
+      );
 
-      // Step 4: Generate recommendations (placeholder - would be implemented in PivotRecommendationEngine)
-      const recommendations = await this.generateRecommendations(
-        predictions,
-        risks,
-        context
+      // Step 4: Generate pivot recommendations
+      const recommendations = await this.runStage(
+        context.simulationId,
+        "recommendations",
+        () => this.generateRecommendations(predictions, risks, context)
       );
 
       // Step 5: Create model metadata
@@ -259,11 +438,13 @@ export class SimulationOrchestrator {
         risks,
         recommendations,
         modelMetadata,
+        monteCarlo,
+        kpiAttainment,
         createdAt: new Date(startTime),
         completedAt: new Date(),
       };
 
-      // Step 7: Store result (would be implemented with Convex)
+      // Step 7: Persist the result
       await this.storeSimulationResult(result);
 
       return result;
@@ -308,98 +489,268 @@ export class SimulationOrchestrator {
   }
 
   // ============================================================================
-  // Placeholder Methods (to be implemented by other components)
+  // Pipeline Stages
   // ============================================================================
 
   private async generatePredictions(
-    context: SimulationContext
+    context: SimulationContext,
+    options: SimulationProcessingOptions
   ): Promise<PredictionOutput> {
-    // Placeholder - would integrate with AI model pipeline
+    const registeredModels = this.modelRegistry.getEnabledModels();
+    if (registeredModels.length === 0) {
+      throw createSimulationError(
+        "No prediction models are registered",
+        "model_unavailable",
+        "NO_MODELS_REGISTERED",
+        false
+      );
+    }
+
+    // Models forecast the requested timeframe, not a fixed horizon
+    const { startDate, endDate } = context.request.timeframe;
+    const dataset: EnrichedDataset = {
+      ...context.dataset,
+      forecastWindow: { start: startDate, end: endDate },
+    };
+
+    await this.reportStage(context.simulationId, "model_prediction", "running");
+    const { predictions, failures } = await this.modelRegistry.runAll(
+      dataset,
+      options.timeout,
+      this.createModelRunListener(context)
+    );
+
+    failures.forEach((failure) => {
+      console.warn(
+        `Model ${failure.modelName} failed for simulation ${context.simulationId}:`,
+        failure.error
+      );
+    });
+    const failureSummary = failures.length
+      ? failures.map((f) => `${f.modelName}: ${f.error.message}`).join("; ")
+      : undefined;
+
+    if (predictions.length === 0) {
+      const error = createSimulationError(
+        "All prediction models failed",
+        "model_unavailable",
+        "ALL_MODELS_FAILED",
+        true,
+        {
+          failures: failures.map((f) => ({
+            model: f.modelName,
+            message: f.error.message,
+          })),
+        }
+      );
+
+      // Fall back to the offline baseline before giving up on the simulation
+      const fallback = await this.errorHandler.handleError(error, {
+        simulationId: context.simulationId,
+        dataset,
+      });
+      if (fallback?.success && fallback.result) {
+        await this.reportStage(context.simulationId, "model_prediction", "completed", {
+          error: `${failureSummary}; used baseline forecast`,
+        });
+        return fallback.result;
+      }
+
+      await this.reportStage(context.simulationId, "model_prediction", "failed", {
+        error: failureSummary,
+      });
+      throw error;
+    }
+
+    await this.reportStage(context.simulationId, "model_prediction", "completed", {
+      error: failureSummary,
+    });
+    await this.recordPredictions(context, predictions);
+
+    // Weight models by their tracked accuracy once the organization has some
+    const ensemble = new EnsembleCoordinator(
+      this.modelRegistry.getEnsembleConfig(
+        options.learnedWeights?.length
+          ? { weightingStrategy: "performance_based", learnedWeights: options.learnedWeights }
+          : {}
+      )
+    );
+    const combined = await this.runStage(context.simulationId, "ensemble", () =>
+      ensemble.combineModels(predictions, context.dataset)
+    );
+
     return {
-      trajectories: this.generatePlaceholderTrajectories(context),
-      confidence_intervals: [],
-      feature_importance: [],
+      ...combined,
       model_metadata: {
-        model_name: "placeholder",
-        model_version: "1.0.0",
-        confidence_score: 0.85,
-        processing_time: 5000,
-        data_quality: context.dataset.dataQuality,
-        feature_count: 10,
-        prediction_horizon: 30,
+        ...combined.model_metadata,
+        // Prompt-driven models also record the prompt template they used,
+        // e.g. { openai: "gpt-4o", "openai.prompt": "campaign-forecast@1.1.0" }
+        model_versions: Object.fromEntries(
+          predictions.flatMap((p) => {
+            const { model_version, prompt_template, prompt_version } =
+              p.prediction.model_metadata;
+            return [
+              [p.modelName, model_version],
+              ...(prompt_template && prompt_version
+                ? [[`${p.modelName}.prompt`, `${prompt_template}@${prompt_version}`]]
+                : []),
+            ];
+          })
+        ),
+        prompt_versions: Object.fromEntries(
+          predictions
+            .filter((p) => p.prediction.model_metadata.prompt_version)
+            .map((p) => [
+              p.modelName,
+              p.prediction.model_metadata.prompt_version as string,
+            ])
+        ),
       },
     };
   }
 
-  private async generateScenarios(
+  /**
+   * Bring the models' daily forecast to the requested granularity; hourly
+   * points follow the audience's peak hours and stop at the end of the window
+   */
+  private resamplePredictions(
     predictions: PredictionOutput,
     context: SimulationContext
-  ): Promise<ScenarioResult[]> {
-    // Placeholder - would be implemented by ScenarioGenerator
-    return context.request.scenarios.map((config, index) => ({
-      type: config.type,
-      probability: 0.33,
-      trajectory: predictions.trajectories,
-      key_factors: ["market_conditions", "seasonal_trends"],
-      confidence: 0.8,
-    }));
+  ): PredictionOutput {
+    const { startDate, endDate, granularity } = context.request.timeframe;
+    const { trajectory, confidenceIntervals } = resampleTrajectory(
+      predictions.trajectories,
+      predictions.confidence_intervals,
+      granularity,
+      {
+        windowStart: startDate,
+        windowMs: endDate.getTime() - startDate.getTime(),
+        peakHours:
+          context.dataset.audienceInsights.engagementPatterns?.peakHours,
+      }
+    );
+
+    return {
+      ...predictions,
+      trajectories: trajectory,
+      confidence_intervals: confidenceIntervals,
+    };
   }
 
-  private async detectRisks(
+  /**
+   * Add the derived metrics the request or the campaign's KPIs ask for, with
+   * the budget left paced evenly over the rest of the campaign
+   */
+  private deriveMetrics(
     predictions: PredictionOutput,
     context: SimulationContext
-  ): Promise<RiskAlert[]> {
-    // Placeholder - would be implemented by RiskDetector
-    return [];
+  ): PredictionOutput {
+    const { campaign, budgetAllocation, audienceInsights } = context.dataset;
+    const spent = Object.values(budgetAllocation.spent).reduce(
+      (sum, amount) => sum + amount,
+      0
+    );
+    const from = Math.max(
+      context.request.timeframe.startDate.getTime(),
+      campaign.startDate.getTime()
+    );
+    const remainingDays = Math.max(
+      1,
+      Math.ceil((campaign.endDate.getTime() - from) / DAY_MS)
+    );
+
+    const { trajectory, skipped } = deriveMetrics(
+      predictions.trajectories,
+      [
+        ...context.request.metrics.map((metric) => metric.type),
+        ...campaign.kpis.map((kpi) => kpi.type),
+      ],
+      {
+        dailySpend: Math.max(0, campaign.budget - spent) / remainingDays,
+        conversionValue: campaign.conversionValue,
+        audienceSize: audienceInsights.totalSize,
+      }
+    );
+
+    skipped.forEach(({ metric, reason }) => {
+      console.warn(
+        `Cannot derive ${metric} for simulation ${context.simulationId}: ${reason}`
+      );
+    });
+
+    return { ...predictions, trajectories: trajectory };
   }
 
-  private async generateRecommendations(
+  private async generateScenarios(
     predictions: PredictionOutput,
-    risks: RiskAlert[],
     context: SimulationContext
-  ): Promise<PivotRecommendation[]> {
-    // Placeholder - would be implemented by PivotRecommendationEngine
-    return [];
-  }
+  ): Promise<{
+    scenarios: ScenarioResult[];
+    monteCarlo?: MonteCarloResult;
+    samples?: MonteCarloSampleSet;
+  }> {
+    if (context.request.monteCarlo) {
+      return this.scenarioGenerator.generateMonteCarloScenarios(
+        predictions.trajectories,
+        predictions.confidence_intervals,
+        context.request.scenarios,
+        context,
+        context.request.monteCarlo
+      );
+    }
 
-  private generatePlaceholderTrajectories(context: SimulationContext): any[] {
-    // Generate placeholder trajectory data
-    const trajectories = [];
-    const startDate = context.request.timeframe.startDate;
-    const endDate = context.request.timeframe.endDate;
-    const days = Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
+    const scenarios = await this.scenarioGenerator.generateScenarios(
+      predictions.trajectories,
+      context.request.scenarios,
+      context,
+      { includeMarketFactors: true }
     );
 
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000);
-      const metrics: Record<string, number> = {};
-
-      context.request.metrics.forEach((metric) => {
-        // Generate realistic-looking placeholder values
-        switch (metric.type) {
-          case "ctr":
-            metrics[metric.type] = 0.02 + Math.random() * 0.03; // 2-5% CTR
-            break;
-          case "impressions":
-            metrics[metric.type] = 1000 + Math.random() * 5000; // 1k-6k impressions
-            break;
-          case "engagement":
-            metrics[metric.type] = 0.05 + Math.random() * 0.1; // 5-15% engagement
-            break;
-          default:
-            metrics[metric.type] = Math.random() * 100;
-        }
-      });
+    return { scenarios };
+  }
 
-      trajectories.push({
-        date,
-        metrics,
-        confidence: 0.8 + Math.random() * 0.15, // 80-95% confidence
-      });
-    }
+  /**
+   * Chance of reaching each campaign target, from the Monte Carlo runs when
+   * sampled and from the scenario spread otherwise
+   */
+  private assessKpiAttainment(
+    scenarios: ScenarioResult[],
+    samples: MonteCarloSampleSet | undefined,
+    context: SimulationContext
+  ): KPIAttainment[] {
+    const { campaign } = context.dataset;
+    return assessKpiAttainment({
+      kpis: campaign.kpis,
+      customMetrics: campaign.customMetrics,
+      outcomes: samples ? monteCarloOutcomes(samples) : scenarioOutcomes(scenarios),
+      flight: context.request.timeframe,
+      campaign,
+    });
+  }
 
-    return trajectories;
+  private async detectRisks(
+    predictions: PredictionOutput,
+    context: SimulationContext,
+    options: SimulationProcessingOptions
+  ): Promise<RiskAlert[]> {
+    const { thresholds, rules } = options.riskSettings ?? {};
+    return this.riskDetector.detectRisks(predictions.trajectories, context, {
+      ...thresholds,
+      rules: rules ?? [],
+    });
+  }
+
+  private async generateRecommendations(
+    predictions: PredictionOutput,
+    risks: RiskAlert[],
+    context: SimulationContext
+  ): Promise<PivotRecommendation[]> {
+    return this.recommendationEngine.generateRecommendations({
+      currentTrajectory: predictions.trajectories,
+      risks,
+      campaignData: context.dataset,
+      simulationContext: context,
+    });
   }
 
   private createModelMetadata(
@@ -407,18 +758,187 @@ export class SimulationOrchestrator {
     startTime: number
   ): ModelMetadata {
     return {
-      model_name: "simulation_orchestrator",
-      model_version: "1.0.0",
-      confidence_score: 0.85,
+      model_name: predictions.model_metadata.model_name,
+      model_version: predictions.model_metadata.model_version,
+      confidence_score: predictions.model_metadata.confidence_score,
       processing_time: Date.now() - startTime,
       data_quality: predictions.model_metadata.data_quality,
       feature_count: predictions.model_metadata.feature_count,
       prediction_horizon: predictions.model_metadata.prediction_horizon,
+      model_versions: predictions.model_metadata.model_versions ?? {
+        [predictions.model_metadata.model_name]:
+          predictions.model_metadata.model_version,
+      },
+      prompt_versions: predictions.model_metadata.prompt_versions,
+      ensemble_weights: predictions.model_metadata.ensemble_weights,
+      segment_ensemble_weights: predictions.model_metadata.segment_ensemble_weights,
+      weighting_strategy: predictions.model_metadata.weighting_strategy,
+    };
+  }
+
+  // ============================================================================
+  // Progress Reporting
+  // ============================================================================
+
+  /**
+   * Run a pipeline stage, reporting when it starts and how it ended.
+   * `partialError` describes problems the stage recovered from.
+   */
+  private async runStage<T>(
+    simulationId: string,
+    stage: SimulationStage,
+    run: () => Promise<T>,
+    partialError?: (result: T) => string | undefined
+  ): Promise<T> {
+    await this.reportStage(simulationId, stage, "running");
+
+    try {
+      const result = await run();
+      await this.reportStage(simulationId, stage, "completed", {
+        error: partialError?.(result),
+      });
+      return result;
+    } catch (error) {
+      await this.reportStage(simulationId, stage, "failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private createModelRunListener(context: SimulationContext): ModelRunListener {
+    const { simulationId } = context;
+    const startedAt = new Map<string, number>();
+    const latency = (model: string) =>
+      Date.now() - (startedAt.get(model) ?? Date.now());
+
+    return {
+      onModelStart: (model) => {
+        startedAt.set(model, Date.now());
+        return this.reportStage(simulationId, "model_prediction", "running", { model });
+      },
+      onModelComplete: async (model, { prediction }) => {
+        const metadata = prediction.model_metadata;
+        // Memoized responses were paid for by the run that cached them
+        if (!metadata.cached) {
+          await this.recordUsage(context, model, {
+            // Token-priced models report the model that served the call as their version
+            model: metadata.token_usage ? metadata.model_version : metadata.model_name,
+            tokenUsage: metadata.token_usage,
+            latencyMs: latency(model),
+            status: "success",
+          });
+        }
+        await this.reportStage(simulationId, "model_prediction", "completed", { model });
+      },
+      onModelError: async (model, error) => {
+        const errorContext = (error as ModelError).context;
+        await this.recordUsage(context, model, {
+          model: typeof errorContext?.model === "string" ? errorContext.model : model,
+          tokenUsage: errorContext?.tokenUsage,
+          latencyMs: latency(model),
+          status: "failed",
+          error: error.message,
+        });
+        await this.reportStage(simulationId, "model_prediction", "failed", {
+          model,
+          error: error.message,
+        });
+      },
     };
   }
 
+  private async recordUsage(
+    context: SimulationContext,
+    modelName: string,
+    call: {
+      model: string;
+      tokenUsage?: TokenUsage;
+      latencyMs: number;
+      status: ModelUsageRecord["status"];
+      error?: string;
+    }
+  ): Promise<void> {
+    if (!this.usageRecorder) {
+      return;
+    }
+
+    const inputTokens = call.tokenUsage?.input_tokens ?? 0;
+    const outputTokens = call.tokenUsage?.output_tokens ?? 0;
+    try {
+      await this.usageRecorder.record({
+        simulationId: context.simulationId,
+        organizationId: context.organizationId,
+        modelName,
+        model: call.model,
+        inputTokens,
+        outputTokens,
+        latencyMs: call.latencyMs,
+        estimatedCost: estimateModelCost(call.model, inputTokens, outputTokens),
+        status: call.status,
+        ...(call.error !== undefined ? { error: call.error } : {}),
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      // Metering must not fail the simulation it meters
+      console.warn(
+        `Failed to record ${modelName} usage for simulation ${context.simulationId}:`,
+        error
+      );
+    }
+  }
+
+  private async recordPredictions(
+    context: SimulationContext,
+    predictions: ModelPrediction[]
+  ): Promise<void> {
+    if (!this.predictionRecorder) {
+      return;
+    }
+
+    try {
+      await this.predictionRecorder.record(context.simulationId, predictions);
+    } catch (error) {
+      // Accuracy tracking must not fail the simulation it tracks
+      console.warn(
+        `Failed to record model predictions for simulation ${context.simulationId}:`,
+        error
+      );
+    }
+  }
+
+  private async reportStage(
+    simulationId: string,
+    stage: SimulationStage,
+    status: SimulationStageStatus,
+    details: { model?: string; error?: string } = {}
+  ): Promise<void> {
+    if (!this.progressReporter) {
+      return;
+    }
+
+    try {
+      await this.progressReporter.report({
+        simulationId,
+        stage,
+        status,
+        timestamp: new Date(),
+        ...details,
+      });
+    } catch (error) {
+      // Progress is informational; a failed update must not fail the simulation
+      console.warn(
+        `Failed to report ${stage} progress for simulation ${simulationId}:`,
+        error
+      );
+    }
+  }
+
   private async storeSimulationResult(result: SimulationResult): Promise<void> {
-    // Placeholder - would store result in Convex database
-    console.log(`Storing simulation result: ${result.id}`);
+    if (!this.resultStore) {
+      return;
+    }
+
+    await this.resultStore.save(result);
   }
 }
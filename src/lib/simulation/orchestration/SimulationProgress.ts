@@ -0,0 +1,104 @@
+/**
+ * SimulationProgress
+ *
+ * Stage definitions for the simulation pipeline and progress/ETA estimates
+ * derived from the stage transitions recorded on a simulation.
+ */
+
+import { SimulationStage, SimulationStageStatus } from '../../../types/simulation';
+
+export interface SimulationStageDefinition {
+  stage: SimulationStage;
+  label: string;
+  weight: number; // expected share of the total processing time
+}
+
+export const SIMULATION_STAGES: SimulationStageDefinition[] = [
+  { stage: 'data_aggregation', label: 'Aggregating campaign data', weight: 0.1 },
+  { stage: 'market_enrichment', label: 'Enriching with market data', weight: 0.15 },
+  { stage: 'model_prediction', label: 'Running prediction models', weight: 0.45 },
+  { stage: 'ensemble', label: 'Combining model predictions', weight: 0.05 },
+  { stage: 'scenarios', label: 'Generating scenarios', weight: 0.1 },
+  { stage: 'risks', label: 'Detecting risks', weight: 0.05 },
+  { stage: 'recommendations', label: 'Generating recommendations', weight: 0.1 }
+];
+
+/**
+ * A stage transition as stored on the simulation document
+ */
+export interface StageRecord {
+  stage: string;
+  status: SimulationStageStatus;
+  model?: string;
+  startedAt: number;
+  completedAt?: number;
+  error?: string;
+}
+
+export interface StageProgressEstimate {
+  percentage: number;
+  remainingMs: number;
+  currentStep: string;
+}
+
+// Progress stays below 100% until the simulation is marked completed
+const MAX_PROCESSING_PERCENTAGE = 99;
+
+/**
+ * Estimate progress and remaining time from recorded stages.
+ * The time spent on finished stages calibrates how long the remaining
+ * stages should take; before any stage finishes, the queue estimate is used.
+ */
+export function estimateStageProgress(
+  records: StageRecord[],
+  startedAt: number | undefined,
+  estimatedDuration: number,
+  now: number = Date.now()
+): StageProgressEstimate {
+  const pipeline = records.filter(record => !record.model);
+  const byStage = new Map(pipeline.map(record => [record.stage, record]));
+
+  let finishedWeight = 0;
+  let lastFinishedAt = startedAt ?? now;
+  let running: { definition: SimulationStageDefinition; record: StageRecord } | undefined;
+
+  SIMULATION_STAGES.forEach(definition => {
+    const record = byStage.get(definition.stage);
+    if (!record) return;
+
+    if (record.status === 'running') {
+      running = { definition, record };
+    } else {
+      finishedWeight += definition.weight;
+      lastFinishedAt = Math.max(lastFinishedAt, record.completedAt ?? record.startedAt);
+    }
+  });
+
+  const processingStart = startedAt ?? pipeline[0]?.startedAt ?? now;
+  const msPerWeight = finishedWeight > 0
+    ? Math.max(1, lastFinishedAt - processingStart) / finishedWeight
+    : estimatedDuration;
+
+  let runningWeight = 0;
+  let runningRemaining = 0;
+  if (running) {
+    const expected = msPerWeight * running.definition.weight;
+    const elapsed = now - running.record.startedAt;
+    runningWeight = running.definition.weight * Math.min(0.95, elapsed / Math.max(1, expected));
+    runningRemaining = Math.max(0, expected - elapsed);
+  }
+
+  const pendingWeight = Math.max(0, 1 - finishedWeight - (running ? running.definition.weight : 0));
+  const percentage = Math.min(MAX_PROCESSING_PERCENTAGE, (finishedWeight + runningWeight) * 100);
+
+  return {
+    percentage,
+    remainingMs: Math.round(runningRemaining + pendingWeight * msPerWeight),
+    currentStep: running?.definition.label ?? nextStepLabel(byStage)
+  };
+}
+
+function nextStepLabel(byStage: Map<string, StageRecord>): string {
+  const next = SIMULATION_STAGES.find(definition => !byStage.has(definition.stage));
+  return next ? next.label : 'Finalizing results';
+}
@@ -0,0 +1,256 @@
+/**
+ * SimulationResultSerializer
+ *
+ * Converts between the stored `simulations` document and the orchestrator's
+ * request/result types. Dates become timestamps and fields the document does
+ * not store are dropped, so the output matches the Convex validators exactly.
+ */
+
+import { Doc } from '../../../../convex/_generated/dataModel';
+import {
+  SimulationRequest,
+  SimulationResult,
+  SimulationMetric,
+  ScenarioConfig,
+  ExternalDataSource,
+  TrajectoryPoint,
+  EnrichedDataset,
+  PredictionOutput
+} from '../../../types/simulation';
+
+export type SimulationRecord = Doc<'simulations'>;
+export type StoredSimulationResults = NonNullable<SimulationRecord['results']>;
+export type StoredModelMetadata = NonNullable<SimulationRecord['modelMetadata']>;
+
+export interface SerializedSimulationResult {
+  results: StoredSimulationResults;
+  modelMetadata: StoredModelMetadata;
+}
+
+/**
+ * Build an orchestrator request from a stored simulation configuration
+ */
+export function toSimulationRequest(simulation: SimulationRecord): SimulationRequest {
+  const { config } = simulation;
+
+  const scenarios: ScenarioConfig[] = [
+    ...config.scenarios.map(type => ({ type: type as ScenarioConfig['type'] })),
+    ...(config.customScenarios ?? []).map(scenario => ({
+      type: 'custom' as const,
+      name: scenario.name,
+      percentile: scenario.percentile,
+      adjustments: scenario.adjustments.map(adjustment => ({
+        factor: adjustment.factor,
+        multiplier: adjustment.multiplier,
+        timeframe: {
+          start: new Date(adjustment.startDate),
+          end: new Date(adjustment.endDate)
+        },
+        channel: adjustment.channel,
+        metrics: adjustment.metrics,
+        label: adjustment.label
+      }))
+    }))
+  ];
+
+  // API keys are resolved by the data aggregators, not carried on the request
+  const externalDataSources: ExternalDataSource[] = config.externalDataSources.map(source => ({
+    source: source as ExternalDataSource['source'],
+    enabled: true,
+    config: {
+      apiKey: '',
+      endpoint: '',
+      rateLimit: { requests: 0, period: 0 },
+      enabled: true
+    }
+  }));
+
+  return {
+    campaignId: simulation.campaignId,
+    timeframe: {
+      startDate: new Date(config.timeframe.startDate),
+      endDate: new Date(config.timeframe.endDate),
+      granularity: config.timeframe.granularity
+    },
+    metrics: config.metrics.map(metric => ({
+      type: metric.type as SimulationMetric['type'],
+      weight: metric.weight,
+      benchmarkSource: metric.benchmarkSource as SimulationMetric['benchmarkSource']
+    })),
+    scenarios,
+    externalDataSources,
+    monteCarlo: config.monteCarlo
+  };
+}
+
+/**
+ * Convert an orchestrator result into the document's `results` and `modelMetadata`.
+ * Trajectory points outside the simulated timeframe are dropped.
+ */
+export function serializeSimulationResult(
+  result: SimulationResult,
+  timeframe: { startDate: number; endDate: number }
+): SerializedSimulationResult {
+  const inTimeframe = (point: TrajectoryPoint) => {
+    const date = point.date.getTime();
+    return date >= timeframe.startDate && date <= timeframe.endDate;
+  };
+  const toPoint = (point: TrajectoryPoint) => ({
+    date: point.date.getTime(),
+    metrics: { ...point.metrics }
+  });
+
+  const results: StoredSimulationResults = {
+    trajectories: result.trajectories.filter(inTimeframe).map(point => ({
+      ...toPoint(point),
+      confidence: point.confidence
+    })),
+    scenarios: result.scenarios.map(scenario => ({
+      type: scenario.type,
+      ...(scenario.name ? { name: scenario.name } : {}),
+      probability: scenario.probability,
+      trajectory: scenario.trajectory.filter(inTimeframe).map(toPoint)
+    })),
+    risks: result.risks.map(risk => ({
+      type: risk.type,
+      severity: risk.severity,
+      probability: risk.probability,
+      description: risk.description,
+      timeframe: {
+        start: risk.timeframe.start.getTime(),
+        end: risk.timeframe.end.getTime()
+      },
+      ...(risk.rule ? { rule: { ...risk.rule } } : {})
+    })),
+    recommendations: result.recommendations.map(recommendation => ({
+      id: recommendation.id,
+      type: recommendation.type,
+      priority: recommendation.priority,
+      impact_estimate: {
+        metric: recommendation.impact_estimate.metric,
+        improvement: recommendation.impact_estimate.improvement,
+        confidence: recommendation.impact_estimate.confidence
+      },
+      implementation: {
+        description: recommendation.implementation.description,
+        steps: [...recommendation.implementation.steps],
+        effort: recommendation.implementation.effort,
+        timeline: recommendation.implementation.timeline
+      },
+      ...(recommendation.reallocation ? { reallocation: { ...recommendation.reallocation } } : {})
+    }))
+  };
+
+  if (result.monteCarlo) {
+    const { bands } = result.monteCarlo;
+    results.monteCarlo = {
+      seed: result.monteCarlo.seed,
+      iterations: result.monteCarlo.iterations,
+      primaryMetric: result.monteCarlo.primaryMetric,
+      bands: {
+        p10: bands.p10.filter(inTimeframe).map(toPoint),
+        p50: bands.p50.filter(inTimeframe).map(toPoint),
+        p90: bands.p90.filter(inTimeframe).map(toPoint)
+      },
+      kpiDistributions: Object.fromEntries(
+        Object.entries(result.monteCarlo.kpiDistributions).map(([metric, distribution]) => [
+          metric,
+          {
+            mean: distribution.mean,
+            stdDev: distribution.stdDev,
+            min: distribution.min,
+            max: distribution.max,
+            p10: distribution.p10,
+            p50: distribution.p50,
+            p90: distribution.p90,
+            histogram: distribution.histogram.map(bin => ({
+              lower: bin.lower,
+              upper: bin.upper,
+              count: bin.count
+            }))
+          }
+        ])
+      )
+    };
+  }
+
+  if (result.kpiAttainment) {
+    results.kpiAttainment = result.kpiAttainment.map(attainment => ({
+      source: attainment.source,
+      name: attainment.name,
+      timeframe: attainment.timeframe,
+      target: attainment.target,
+      ...(attainment.metric !== undefined ? { metric: attainment.metric } : {}),
+      ...(attainment.expected !== undefined ? { expected: attainment.expected } : {}),
+      ...(attainment.probability !== undefined ? { probability: attainment.probability } : {}),
+      ...(attainment.expectedShortfall !== undefined
+        ? { expectedShortfall: attainment.expectedShortfall }
+        : {})
+    }));
+  }
+
+  const metadata = result.modelMetadata;
+  const modelMetadata: StoredModelMetadata = {
+    primaryModel: metadata.model_name,
+    modelVersions: metadata.model_versions ?? { [metadata.model_name]: metadata.model_version },
+    ...(metadata.prompt_versions && Object.keys(metadata.prompt_versions).length > 0
+      ? { promptVersions: { ...metadata.prompt_versions } }
+      : {}),
+    ...(metadata.ensemble_weights && Object.keys(metadata.ensemble_weights).length > 0
+      ? { ensembleWeights: { ...metadata.ensemble_weights } }
+      : {}),
+    ...(metadata.segment_ensemble_weights && metadata.segment_ensemble_weights.length > 0
+      ? {
+          segmentEnsembleWeights: metadata.segment_ensemble_weights.map(segment => ({
+            metric: segment.metric,
+            horizon: segment.horizon,
+            weights: { ...segment.weights }
+          }))
+        }
+      : {}),
+    ...(metadata.weighting_strategy ? { weightingStrategy: metadata.weighting_strategy } : {}),
+    processingTime: metadata.processing_time,
+    dataQuality: {
+      completeness: metadata.data_quality.completeness,
+      accuracy: metadata.data_quality.accuracy,
+      freshness: metadata.data_quality.freshness
+    }
+  };
+
+  return { results, modelMetadata };
+}
+
+// JSON.stringify writes Dates as UTC ISO-8601 strings
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Serialize an enriched dataset for the input snapshot
+ */
+export function serializeDataset(dataset: EnrichedDataset): string {
+  return JSON.stringify(dataset);
+}
+
+/**
+ * Restore a dataset written by serializeDataset, turning ISO timestamps back into Dates
+ */
+export function deserializeDataset(json: string): EnrichedDataset {
+  return JSON.parse(json, reviveDates);
+}
+
+/**
+ * Serialize a single model's prediction for the model response cache
+ */
+export function serializePrediction(prediction: PredictionOutput): string {
+  return JSON.stringify(prediction);
+}
+
+/**
+ * Restore a prediction written by serializePrediction
+ */
+export function deserializePrediction(json: string): PredictionOutput {
+  return JSON.parse(json, reviveDates);
+}
+
+function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+}
@@ -0,0 +1,206 @@
+/**
+ * TrajectoryResampler
+ *
+ * Prediction models forecast one point per day. Simulations ask for hourly,
+ * daily, weekly or monthly points: coarser granularities aggregate the
+ * forecast into weeks or calendar months, and hourly forecasts split each
+ * day's volume over the hours the audience is most active. The forecast
+ * window each granularity supports and how charts label its points are
+ * defined here as well.
+ */
+
+import {
+  ConfidenceInterval,
+  SimulationGranularity,
+  TrajectoryPoint
+} from '../../../types/simulation';
+import { aggregateMetricTotal, RATE_METRICS } from './MonteCarloSampler';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Peak hours carry twice the volume of the other hours of the day
+const PEAK_HOUR_WEIGHT = 2;
+
+export interface TimeframeLimits {
+  min: number;
+  max: number;
+  unit: 'hours' | 'days';
+}
+
+/**
+ * Forecast windows each granularity supports: a few hours up to a week for
+ * bursts such as product drops, up to a year for monthly brand plans
+ */
+export const TIMEFRAME_LIMITS: Record<SimulationGranularity, TimeframeLimits> = {
+  hourly: { min: 12, max: 168, unit: 'hours' },
+  daily: { min: 5, max: 30, unit: 'days' },
+  weekly: { min: 5, max: 30, unit: 'days' },
+  monthly: { min: 60, max: 366, unit: 'days' }
+};
+
+/**
+ * date-fns patterns charts label the points of each granularity with
+ */
+export const POINT_LABEL_FORMATS: Record<SimulationGranularity, string> = {
+  hourly: 'MMM dd HH:mm',
+  daily: 'MMM dd',
+  weekly: 'MMM dd',
+  monthly: 'MMM yyyy'
+};
+
+/**
+ * Length of a forecast window in the unit its granularity's limits use, with
+ * a started hour or day counting in full
+ */
+export function timeframeLength(
+  granularity: SimulationGranularity,
+  startDate: Date | number,
+  endDate: Date | number
+): number {
+  const unitMs = TIMEFRAME_LIMITS[granularity].unit === 'hours' ? HOUR_MS : DAY_MS;
+  return Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / unitMs);
+}
+
+export interface ResampleOptions {
+  windowStart?: Date; // Start of the forecast window; the first hourly point
+  windowMs?: number; // Length of the forecast window; caps the number of hourly points
+  peakHours?: number[]; // Hours of the day (0-23) the audience is most active
+}
+
+export interface ResampledForecast {
+  trajectory: TrajectoryPoint[];
+  confidenceIntervals: ConfidenceInterval[];
+}
+
+/**
+ * Resample a forecast to the requested granularity. Volumes are summed over a
+ * week or month, rates averaged and running values such as ROI taken from the
+ * bucket's last point. Confidence intervals are resampled like rates.
+ */
+export function resampleTrajectory(
+  trajectory: TrajectoryPoint[],
+  confidenceIntervals: ConfidenceInterval[],
+  granularity: SimulationGranularity,
+  options: ResampleOptions = {}
+): ResampledForecast {
+  if (trajectory.length === 0) {
+    return { trajectory, confidenceIntervals };
+  }
+
+  if (granularity === 'hourly') {
+    return splitIntoHours(trajectory, confidenceIntervals, options);
+  }
+
+  const start = new Date(trajectory[0].date);
+  const bucketOf = (date: Date): number => {
+    const value = new Date(date);
+    switch (granularity) {
+      case 'daily':
+        return Math.floor((value.getTime() - start.getTime()) / DAY_MS);
+      case 'weekly':
+        return Math.floor((value.getTime() - start.getTime()) / (7 * DAY_MS));
+      case 'monthly':
+        return (value.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+          value.getUTCMonth() - start.getUTCMonth();
+    }
+  };
+
+  const buckets = new Map<number, number[]>();
+  trajectory.forEach((point, index) => {
+    const bucket = bucketOf(point.date);
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), index]);
+  });
+
+  // Already at the requested granularity
+  if (buckets.size === trajectory.length) {
+    return { trajectory, confidenceIntervals };
+  }
+
+  const resampled: ResampledForecast = { trajectory: [], confidenceIntervals: [] };
+  for (const indices of buckets.values()) {
+    const points = indices.map(index => trajectory[index]);
+    const metrics = Array.from(new Set(points.flatMap(point => Object.keys(point.metrics))));
+
+    resampled.trajectory.push({
+      date: points[0].date,
+      metrics: Object.fromEntries(
+        metrics.map(metric => [
+          metric,
+          aggregateMetricTotal(
+            metric,
+            points.filter(point => point.metrics[metric] !== undefined).map(point => point.metrics[metric])
+          )
+        ])
+      ),
+      confidence: mean(points.map(point => point.confidence))
+    });
+
+    const intervals = indices
+      .map(index => confidenceIntervals[index])
+      .filter((interval): interval is ConfidenceInterval => interval !== undefined);
+    if (intervals.length > 0) {
+      resampled.confidenceIntervals.push({
+        lower: mean(intervals.map(interval => interval.lower)),
+        upper: mean(intervals.map(interval => interval.upper)),
+        confidence_level: intervals[0].confidence_level
+      });
+    }
+  }
+
+  return resampled;
+}
+
+/**
+ * Share of a day's volume each hour receives, with the audience's peak hours
+ * weighted up; flat when the peak hours are unknown
+ */
+export function hourlyProfile(peakHours: number[] = []): number[] {
+  const peaks = new Set(peakHours.filter(hour => hour >= 0 && hour < 24));
+  const weights = Array.from({ length: 24 }, (_, hour) => (peaks.has(hour) ? PEAK_HOUR_WEIGHT : 1));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+}
+
+function splitIntoHours(
+  trajectory: TrajectoryPoint[],
+  confidenceIntervals: ConfidenceInterval[],
+  options: ResampleOptions
+): ResampledForecast {
+  const profile = hourlyProfile(options.peakHours);
+  const maxPoints = options.windowMs ? Math.max(1, Math.ceil(options.windowMs / HOUR_MS)) : Infinity;
+  const start = new Date(options.windowStart ?? trajectory[0].date).getTime();
+  const end = new Date(trajectory[trajectory.length - 1].date).getTime() + DAY_MS;
+  const resampled: ResampledForecast = { trajectory: [], confidenceIntervals: [] };
+
+  // Each hour takes its share of the day forecast that covers it
+  let index = 0;
+  for (let time = start; time < end && resampled.trajectory.length < maxPoints; time += HOUR_MS) {
+    while (index + 1 < trajectory.length && new Date(trajectory[index + 1].date).getTime() <= time) {
+      index++;
+    }
+    const point = trajectory[index];
+    const date = new Date(time);
+    const share = profile[date.getHours()];
+
+    resampled.trajectory.push({
+      date,
+      metrics: Object.fromEntries(
+        Object.entries(point.metrics).map(([metric, value]) => [
+          metric,
+          RATE_METRICS.has(metric) ? value : value * share
+        ])
+      ),
+      confidence: point.confidence
+    });
+    if (confidenceIntervals[index]) {
+      resampled.confidenceIntervals.push(confidenceIntervals[index]);
+    }
+  }
+
+  return resampled;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
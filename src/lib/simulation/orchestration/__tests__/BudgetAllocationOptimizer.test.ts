@@ -0,0 +1,169 @@
+/**
+ * Unit tests for Budget Allocation Optimizer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fitResponseCurves,
+  optimizeBudgetAllocation,
+  toResponseMetrics,
+  ResponseCurves,
+  RESPONSE_METRICS,
+  SpendObservation
+} from '../BudgetAllocationOptimizer';
+
+// Curves with the same shape on every metric, so the expected optimum is easy to derive
+const buildCurves = (scales: Record<string, number>, elasticity = 0.5): ResponseCurves =>
+  Object.fromEntries(
+    RESPONSE_METRICS.map(metric => [metric, { metric, elasticity, scales, source: 'benchmark', observations: 0 }])
+  ) as ResponseCurves;
+
+describe('toResponseMetrics', () => {
+  it('should turn rates into volumes through impressions', () => {
+    expect(toResponseMetrics({ impressions: 10000, ctr: 0.02, engagement: 0.05, conversions: 12, reach: 7000 }))
+      .toEqual({ impressions: 10000, clicks: 200, engagements: 500, conversions: 12, reach: 7000 });
+    expect(toResponseMetrics({ engagement: 340 })).toEqual({ engagements: 340 });
+  });
+});
+
+describe('fitResponseCurves', () => {
+  it('should calibrate channel benchmarks to the simulated trajectory without history', () => {
+    const curves = fitResponseCurves({
+      channels: ['facebook', 'google'],
+      referenceSpend: { facebook: 100, google: 100 },
+      observations: [],
+      simulatedDaily: { impressions: 40000, ctr: 0.02 }
+    });
+
+    const impressionsAt = (channel: string) =>
+      curves.impressions.scales[channel] * Math.pow(100, curves.impressions.elasticity);
+    expect(curves.impressions.source).toBe('simulation');
+    expect(curves.impressions.elasticity).toBe(0.7);
+    expect(impressionsAt('facebook') + impressionsAt('google')).toBeCloseTo(40000);
+    // Channel differences come from the benchmarks: facebook's CPM is lower
+    expect(impressionsAt('facebook')).toBeGreaterThan(impressionsAt('google'));
+    expect(curves.reach.source).toBe('benchmark');
+  });
+
+  it('should recover channel curves from recorded spend and actuals', () => {
+    // conversions = 4 * sqrt(facebook) + 1 * sqrt(google)
+    const observations: SpendObservation[] = [];
+    for (let day = 0; day < 30; day++) {
+      const facebook = 50 + (day % 6) * 40;
+      const google = 60 + ((day * 7) % 5) * 50;
+      observations.push({
+        spend: { facebook, google },
+        metrics: { conversions: 4 * Math.sqrt(facebook) + Math.sqrt(google) }
+      });
+    }
+
+    const curves = fitResponseCurves(
+      { channels: ['facebook', 'google'], referenceSpend: { facebook: 150, google: 150 }, observations },
+      { priorObservations: 0.01 }
+    );
+
+    expect(curves.conversions.source).toBe('history');
+    expect(curves.conversions.observations).toBe(30);
+    expect(curves.conversions.elasticity).toBe(0.5);
+    expect(curves.conversions.scales.facebook).toBeCloseTo(4, 1);
+    expect(curves.conversions.scales.google).toBeCloseTo(1, 1);
+  });
+});
+
+describe('optimizeBudgetAllocation', () => {
+  it('should equalize marginal returns across channels', () => {
+    // With sqrt curves the optimum is proportional to scale squared: 3^2 : 1^2
+    const result = optimizeBudgetAllocation({
+      totalBudget: 10000,
+      days: 10,
+      channels: [
+        { channel: 'facebook', current: 5000 },
+        { channel: 'google', current: 5000 }
+      ],
+      kpis: [{ type: 'conversions', weight: 100 }],
+      curves: buildCurves({ facebook: 3, google: 1 })
+    });
+
+    expect(result.allocation).toEqual({ facebook: 9000, google: 1000 });
+    expect(result.referenceSplit).toBe('current');
+    expect(result.channels[0].marginalObjective).toBeCloseTo(result.channels[1].marginalObjective);
+    expect(result.channels[0].marginalReturns.conversions).toBeCloseTo(3 * 0.5 / Math.sqrt(900));
+    // 10 * (3 * sqrt(900) + sqrt(100)) against 10 * (3 + 1) * sqrt(500)
+    expect(result.kpis[0].optimized).toBeCloseTo(1000);
+    expect(result.kpis[0].change).toBeCloseTo(1000 / (40 * Math.sqrt(500)) - 1);
+    expect(result.objective.optimized).toBeGreaterThan(result.objective.reference);
+  });
+
+  it('should respect channel minimums and maximums', () => {
+    const result = optimizeBudgetAllocation({
+      totalBudget: 10000,
+      days: 10,
+      channels: [
+        { channel: 'facebook', max: 6000 },
+        { channel: 'google', min: 500 },
+        { channel: 'linkedin', min: 2000 }
+      ],
+      kpis: [],
+      curves: buildCurves({ facebook: 3, google: 1, linkedin: 0.1 })
+    });
+
+    expect(result.allocation.facebook).toBe(6000);
+    expect(result.allocation.linkedin).toBe(2000);
+    expect(result.allocation.google).toBe(2000);
+    expect(result.channels.map(channel => channel.bound)).toEqual(['max', null, 'min']);
+    expect(result.referenceSplit).toBe('even');
+    expect(result.kpis).toEqual([expect.objectContaining({ type: 'conversions', weight: 1 })]);
+  });
+
+  it('should weigh KPIs against their reference volumes', () => {
+    const curves = buildCurves({ facebook: 1, google: 1 });
+    curves.reach = { ...curves.reach, scales: { facebook: 1000, google: 10 } };
+    curves.conversions = { ...curves.conversions, scales: { facebook: 1, google: 2 } };
+
+    const reachHeavy = optimizeBudgetAllocation({
+      totalBudget: 1000,
+      days: 1,
+      channels: [{ channel: 'facebook' }, { channel: 'google' }],
+      kpis: [{ type: 'reach', weight: 90 }, { type: 'conversions', weight: 10 }],
+      curves
+    });
+    const conversionHeavy = optimizeBudgetAllocation({
+      totalBudget: 1000,
+      days: 1,
+      channels: [{ channel: 'facebook' }, { channel: 'google' }],
+      kpis: [{ type: 'reach', weight: 10 }, { type: 'conversions', weight: 90 }],
+      curves
+    });
+
+    // Reach is a much larger number, but only its relative change counts
+    expect(reachHeavy.allocation.facebook).toBeGreaterThan(conversionHeavy.allocation.facebook);
+    expect(conversionHeavy.allocation.google).toBeGreaterThan(conversionHeavy.allocation.facebook);
+    expect(reachHeavy.allocation.facebook + reachHeavy.allocation.google).toBe(1000);
+  });
+
+  it('should refuse constraints the budget cannot meet', () => {
+    const curves = buildCurves({ facebook: 1, google: 1 });
+
+    expect(() => optimizeBudgetAllocation({
+      totalBudget: 1000,
+      days: 10,
+      channels: [{ channel: 'facebook', min: 800 }, { channel: 'google', min: 300 }],
+      kpis: [],
+      curves
+    })).toThrow('Channel minimums (1100.00) exceed the total budget (1000.00)');
+    expect(() => optimizeBudgetAllocation({
+      totalBudget: 1000,
+      days: 10,
+      channels: [{ channel: 'facebook', max: 400 }, { channel: 'google', max: 300 }],
+      kpis: [],
+      curves
+    })).toThrow('do not cover the total budget');
+    expect(() => optimizeBudgetAllocation({
+      totalBudget: 1000,
+      days: 10,
+      channels: [{ channel: 'facebook', min: 500, max: 400 }],
+      kpis: [],
+      curves
+    })).toThrow('Invalid budget range for facebook');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for Budget Pacing Forecaster
+ */
+
+import { describe, it, expect } from 'vitest';
+import { forecastBudgetPacing, BudgetPacingInput, TOTAL_SCOPE } from '../BudgetPacingForecaster';
+import { SpendRecord } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Daily spend per channel for the first `days` days of the flight
+const buildSpend = (days: number, perChannel: Record<string, number>): SpendRecord[] =>
+  Array.from({ length: days }, (_, i) =>
+    Object.entries(perChannel).map(([channel, amount]) => ({
+      date: new Date(START + i * DAY_MS),
+      channel,
+      amount
+    }))
+  ).flat();
+
+const buildInput = (overrides: Partial<BudgetPacingInput> = {}): BudgetPacingInput => ({
+  budget: 3000,
+  channelBudgets: { facebook: 1500, google: 1500 },
+  flightStart: new Date(START),
+  flightEnd: new Date(START + 30 * DAY_MS),
+  spend: buildSpend(10, { facebook: 50, google: 50 }),
+  asOf: new Date(START + 10 * DAY_MS),
+  ...overrides
+});
+
+describe('forecastBudgetPacing', () => {
+  it('should report even spend as on track', () => {
+    const forecast = forecastBudgetPacing(buildInput());
+
+    expect(forecast.flightDays).toBe(30);
+    expect(forecast.daysElapsed).toBe(10);
+    expect(forecast.daysRemaining).toBe(20);
+    expect(forecast.total).toMatchObject({
+      scope: TOTAL_SCOPE,
+      spentToDate: 1000,
+      expectedToDate: 1000,
+      dailyRunRate: 100,
+      projectedSpend: 3000,
+      status: 'on_track'
+    });
+    expect(forecast.channels.map(channel => channel.scope)).toEqual(['facebook', 'google']);
+    expect(forecast.alerts).toEqual([]);
+  });
+
+  it('should date the day an over-pacing channel exhausts its budget', () => {
+    const forecast = forecastBudgetPacing(buildInput({
+      spend: buildSpend(10, { facebook: 100, google: 50 })
+    }));
+
+    const facebook = forecast.channels.find(channel => channel.scope === 'facebook');
+    expect(facebook?.status).toBe('over_pacing');
+    expect(facebook?.projectedSpend).toBe(3000);
+    expect(facebook?.exhaustionDate).toEqual(new Date(START + 15 * DAY_MS));
+    expect(facebook?.requiredDailySpend).toBe(25);
+
+    const alert = forecast.alerts.find(a => a.scope === 'facebook');
+    expect(alert).toMatchObject({ type: 'over_pacing', severity: 'critical', date: new Date(START + 15 * DAY_MS) });
+    expect(alert?.message).toContain('runs out on 2024-01-16');
+    expect(alert?.message).toContain('Cap daily spend at $25');
+  });
+
+  it('should tell under-pacing channels how much to raise daily spend', () => {
+    const forecast = forecastBudgetPacing(buildInput({
+      spend: buildSpend(10, { facebook: 50, google: 20 })
+    }));
+
+    const alert = forecast.alerts.find(a => a.scope === 'google');
+    expect(alert).toMatchObject({ type: 'under_pacing', severity: 'high', date: new Date(START + 10 * DAY_MS) });
+    expect(alert?.message).toContain('projected $600 of $1,500');
+    expect(alert?.message).toContain('Raise daily spend to $65 from 2024-01-11');
+  });
+
+  it('should project from the trailing run rate rather than the flight average', () => {
+    const spend = [
+      ...buildSpend(3, { facebook: 200 }),
+      ...buildSpend(10, { facebook: 50 }).slice(3)
+    ];
+
+    const forecast = forecastBudgetPacing(buildInput({ channelBudgets: { facebook: 3000 }, spend }));
+
+    expect(forecast.total.dailyRunRate).toBe(50);
+    expect(forecast.total.projectedSpend).toBe(950 + 50 * 20);
+  });
+
+  it('should report a budget that already ran out as critical', () => {
+    const forecast = forecastBudgetPacing(buildInput({
+      budget: 500,
+      channelBudgets: { facebook: 500 },
+      spend: buildSpend(10, { facebook: 100 })
+    }));
+
+    expect(forecast.total.exhaustionDate).toEqual(new Date(START + 4 * DAY_MS));
+    expect(forecast.alerts[0]).toMatchObject({ scope: TOTAL_SCOPE, severity: 'critical' });
+    expect(forecast.alerts[0].message).toContain('The budget ran out on 2024-01-05');
+  });
+
+  it('should not alert before the flight starts', () => {
+    const forecast = forecastBudgetPacing(buildInput({ spend: [], asOf: new Date(START - DAY_MS) }));
+
+    expect(forecast.daysElapsed).toBe(0);
+    expect(forecast.alerts).toEqual([]);
+  });
+
+  it('should ignore spend recorded outside the flight', () => {
+    const forecast = forecastBudgetPacing(buildInput({
+      spend: [
+        ...buildSpend(10, { facebook: 50, google: 50 }),
+        { date: new Date(START - DAY_MS), channel: 'facebook', amount: 1000 }
+      ]
+    }));
+
+    expect(forecast.total.spentToDate).toBe(1000);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for Budget Reallocation Planner
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  planBudgetReallocation,
+  planBudgetAllocation,
+  revertBudgetReallocation,
+  CampaignBudgetState
+} from '../BudgetReallocationPlanner';
+
+const buildState = (): CampaignBudgetState<{ type: string; budget: number; enabled: boolean }> => ({
+  allocation: { facebook: 1000, google: 1500, linkedin: 500 },
+  channels: [
+    { type: 'facebook', budget: 1000, enabled: true },
+    { type: 'google', budget: 1500, enabled: true },
+    { type: 'linkedin', budget: 500, enabled: false }
+  ]
+});
+
+describe('planBudgetReallocation', () => {
+  it('should move budget between channels and keep both budget fields in step', () => {
+    const plan = planBudgetReallocation(buildState(), { from: 'facebook', to: 'google', amount: 300 });
+
+    expect(plan.allocation).toEqual({ facebook: 700, google: 1800, linkedin: 500 });
+    expect(plan.channels).toEqual([
+      { type: 'facebook', budget: 700, enabled: true },
+      { type: 'google', budget: 1800, enabled: true },
+      { type: 'linkedin', budget: 500, enabled: false }
+    ]);
+    expect(plan.changes).toEqual([
+      { channel: 'facebook', allocationBefore: 1000, allocationAfter: 700, budgetBefore: 1000, budgetAfter: 700 },
+      { channel: 'google', allocationBefore: 1500, allocationAfter: 1800, budgetBefore: 1500, budgetAfter: 1800 }
+    ]);
+  });
+
+  it('should fall back to the channel budget when the allocation has no entry', () => {
+    const state = buildState();
+    delete state.allocation.linkedin;
+
+    const plan = planBudgetReallocation(state, { from: 'linkedin', to: 'facebook', amount: 150.555 });
+
+    expect(plan.allocation.linkedin).toBe(349.45);
+    expect(plan.allocation.facebook).toBe(1150.56);
+  });
+
+  it('should refuse moves the campaign cannot make', () => {
+    const state = buildState();
+
+    expect(() => planBudgetReallocation(state, { from: 'facebook', to: 'tiktok', amount: 100 }))
+      .toThrow('Campaign has no tiktok channel');
+    expect(() => planBudgetReallocation(state, { from: 'linkedin', to: 'google', amount: 600 }))
+      .toThrow('Only 500.00 is allocated to linkedin; cannot move 600.00');
+    expect(() => planBudgetReallocation(state, { from: 'google', to: 'google', amount: 100 }))
+      .toThrow('two different channels');
+    expect(() => planBudgetReallocation(state, { from: 'facebook', to: 'google', amount: 0 }))
+      .toThrow('must be positive');
+  });
+});
+
+describe('planBudgetAllocation', () => {
+  it('should set a new split and record only the channels that change', () => {
+    const plan = planBudgetAllocation(buildState(), { facebook: 1200.004, google: 1300, linkedin: 500 });
+
+    expect(plan.allocation).toEqual({ facebook: 1200, google: 1300, linkedin: 500 });
+    expect(plan.changes.map(change => change.channel)).toEqual(['facebook', 'google']);
+    expect(revertBudgetReallocation(plan, plan.changes).allocation).toEqual(buildState().allocation);
+  });
+
+  it('should refuse unknown channels and unchanged splits', () => {
+    expect(() => planBudgetAllocation(buildState(), { tiktok: 100 })).toThrow('Campaign has no tiktok channel');
+    expect(() => planBudgetAllocation(buildState(), { facebook: 1000 }))
+      .toThrow('The new budgets are the same as the current ones');
+  });
+});
+
+describe('revertBudgetReallocation', () => {
+  it('should restore the budgets an applied move changed', () => {
+    const state = buildState();
+    const plan = planBudgetReallocation(state, { from: 'facebook', to: 'google', amount: 300 });
+
+    const reverted = revertBudgetReallocation(plan, plan.changes);
+
+    expect(reverted.allocation).toEqual(state.allocation);
+    expect(reverted.channels).toEqual(state.channels);
+    expect(reverted.changes[0]).toMatchObject({ channel: 'facebook', allocationBefore: 700, allocationAfter: 1000 });
+  });
+
+  it('should not overwrite budgets edited after the move', () => {
+    const plan = planBudgetReallocation(buildState(), { from: 'facebook', to: 'google', amount: 300 });
+    const edited = { ...plan, allocation: { ...plan.allocation, google: 2000 } };
+
+    expect(() => revertBudgetReallocation(edited, plan.changes))
+      .toThrow('The google budget has changed since; undo is no longer possible');
+  });
+});
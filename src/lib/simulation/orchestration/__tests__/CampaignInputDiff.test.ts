@@ -0,0 +1,97 @@
+/**
+ * Unit tests for Campaign Input Diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffCampaignInputs,
+  mergeCampaignInputChanges,
+  SimulatedCampaignInputs
+} from '../CampaignInputDiff';
+
+const START = Date.UTC(2024, 0, 1);
+const END = Date.UTC(2024, 0, 31);
+
+const audience = (interests: string[]) => ({
+  id: 'aud_1',
+  name: 'Young professionals',
+  demographics: { ageRange: [25, 34], gender: 'all', location: ['US'], interests }
+});
+
+const buildCampaign = (overrides: Partial<SimulatedCampaignInputs> = {}): SimulatedCampaignInputs => ({
+  budget: 10000,
+  currency: 'USD',
+  budgetAllocation: { channels: { facebook: 6000, google: 4000 } },
+  channels: [
+    { type: 'facebook', enabled: true, budget: 5000 },
+    { type: 'google', enabled: true, budget: 5000 },
+    { type: 'tiktok', enabled: false, budget: 0 }
+  ],
+  audiences: [audience(['tech'])],
+  startDate: START,
+  endDate: END,
+  kpis: [{ type: 'conversions', target: 500, timeframe: 'campaign', weight: 1 }],
+  ...overrides
+});
+
+describe('diffCampaignInputs', () => {
+  it('should report nothing when no simulated input changed', () => {
+    expect(diffCampaignInputs(buildCampaign(), buildCampaign())).toEqual([]);
+  });
+
+  it('should describe budget, channel plan and date changes', () => {
+    const changes = diffCampaignInputs(
+      buildCampaign(),
+      buildCampaign({
+        budget: 12000,
+        budgetAllocation: { channels: { facebook: 8000, google: 4000 } },
+        endDate: Date.UTC(2024, 1, 15)
+      })
+    );
+
+    expect(changes).toEqual([
+      { field: 'budget', label: 'Budget', before: '$10,000', after: '$12,000' },
+      { field: 'channels', label: 'Channels', before: 'facebook $6,000, google $4,000', after: 'facebook $8,000, google $4,000' },
+      { field: 'endDate', label: 'End date', before: '2024-01-31', after: '2024-02-15' }
+    ]);
+  });
+
+  it('should ignore changes outside the simulated inputs', () => {
+    const paused = { ...buildCampaign(), status: 'paused', conversionValue: 40 };
+
+    expect(diffCampaignInputs(buildCampaign(), paused)).toEqual([]);
+  });
+
+  it('should flag audience targeting changes the description leaves out', () => {
+    const [change] = diffCampaignInputs(buildCampaign(), buildCampaign({ audiences: [audience(['tech', 'travel'])] }));
+
+    expect(change).toEqual({
+      field: 'audiences',
+      label: 'Audiences',
+      before: 'Young professionals',
+      after: 'Young professionals (details changed)'
+    });
+  });
+});
+
+describe('mergeCampaignInputChanges', () => {
+  it('should keep what the simulation ran with and drop reverted fields', () => {
+    const original = buildCampaign();
+    const raised = buildCampaign({ budget: 12000 });
+    const recorded = diffCampaignInputs(original, raised);
+
+    const further = mergeCampaignInputChanges(
+      recorded,
+      diffCampaignInputs(raised, buildCampaign({
+        budget: 15000,
+        kpis: [{ type: 'conversions', target: 650, timeframe: 'campaign', weight: 1 }]
+      }))
+    );
+    expect(further).toEqual([
+      { field: 'budget', label: 'Budget', before: '$10,000', after: '$15,000' },
+      { field: 'kpis', label: 'KPIs', before: 'conversions 500', after: 'conversions 650' }
+    ]);
+
+    expect(mergeCampaignInputChanges(recorded, diffCampaignInputs(raised, original))).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for Derived Metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deriveMetrics } from '../DerivedMetrics';
+import { TrajectoryPoint } from '../../../../types/simulation';
+
+const buildTrajectory = (conversions: number[], reach = 1000): TrajectoryPoint[] =>
+  conversions.map((value, day) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + day)),
+    metrics: { impressions: 10000, reach, conversions: value },
+    confidence: 0.8
+  }));
+
+describe('deriveMetrics', () => {
+  it('should compute running CPA, ROAS and ROI from spend and conversion value', () => {
+    const { trajectory, skipped } = deriveMetrics(
+      buildTrajectory([5, 15]),
+      ['conversions', 'cpa', 'roas', 'roi'],
+      { dailySpend: 100, conversionValue: 20 }
+    );
+
+    expect(skipped).toEqual([]);
+    expect(trajectory[0].metrics).toMatchObject({ cpa: 20, roas: 1, roi: 0 });
+    // 200 spent for 20 conversions worth 400
+    expect(trajectory[1].metrics).toMatchObject({ cpa: 10, roas: 2, roi: 1 });
+    expect(trajectory[1].metrics.conversions).toBe(15);
+  });
+
+  it('should cover the spacing of weekly points', () => {
+    const trajectory = buildTrajectory([10, 10]).map((point, index) => ({
+      ...point,
+      date: new Date(Date.UTC(2024, 0, 1 + index * 7))
+    }));
+
+    const { trajectory: derived } = deriveMetrics(trajectory, ['cpa'], { dailySpend: 10 });
+
+    expect(derived[0].metrics.cpa).toBe(7);
+    expect(derived[1].metrics.cpa).toBe(7);
+  });
+
+  it('should read brand awareness as the share of the audience reached, capped at everyone', () => {
+    const { trajectory } = deriveMetrics(buildTrajectory([1, 1, 1], 4000), ['brand_awareness'], {
+      dailySpend: 100,
+      audienceSize: 10000
+    });
+
+    expect(trajectory.map(point => point.metrics.brand_awareness)).toEqual([0.4, 0.8, 1]);
+  });
+
+  it('should skip metrics whose inputs are missing and keep ones the forecast carries', () => {
+    const forecast = buildTrajectory([5, 5]).map(point => ({
+      ...point,
+      metrics: { ...point.metrics, cpa: 42 }
+    }));
+
+    const { trajectory, skipped } = deriveMetrics(forecast, ['cpa', 'roas', 'roi', 'brand_awareness'], {
+      dailySpend: 100
+    });
+
+    expect(skipped).toEqual([
+      { metric: 'roas', reason: 'the campaign has no conversion value' },
+      { metric: 'roi', reason: 'the campaign has no conversion value' },
+      { metric: 'brand_awareness', reason: 'the audience size is unknown' }
+    ]);
+    expect(trajectory).toBe(forecast);
+    expect(trajectory[1].metrics.cpa).toBe(42);
+  });
+});
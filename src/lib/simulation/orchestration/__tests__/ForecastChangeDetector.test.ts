@@ -0,0 +1,114 @@
+/**
+ * Unit tests for Forecast Change Detector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectForecastChanges } from '../ForecastChangeDetector';
+import { ComparableSimulation } from '../SimulationComparator';
+import { StoredSimulationResults } from '../SimulationResultSerializer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const buildTrajectory = (firstDay: number, days: number, conversions: number) =>
+  Array.from({ length: days }, (_, i) => ({
+    date: START + (firstDay + i) * DAY_MS,
+    metrics: { conversions },
+    confidence: 0.8
+  }));
+
+type Risk = StoredSimulationResults['risks'][number];
+
+const buildRisk = (type: string, severity: string): Risk => ({
+  type,
+  severity,
+  probability: 0.5,
+  description: `${type} expected`,
+  timeframe: { start: START, end: START + 3 * DAY_MS }
+});
+
+const buildSimulation = (
+  id: string,
+  createdAt: number,
+  results: Partial<StoredSimulationResults> = {}
+): ComparableSimulation => ({
+  _id: id as ComparableSimulation['_id'],
+  createdAt,
+  config: {
+    timeframe: { startDate: START, endDate: START + 14 * DAY_MS, granularity: 'daily' },
+    metrics: [{ type: 'conversions', weight: 1 }],
+    scenarios: ['realistic'],
+    externalDataSources: []
+  },
+  results: {
+    trajectories: buildTrajectory(0, 14, 100),
+    scenarios: [],
+    risks: [],
+    recommendations: [],
+    ...results
+  }
+});
+
+describe('detectForecastChanges', () => {
+  it('should report nothing when the forecast barely moves', () => {
+    const previous = buildSimulation('sim_previous', START);
+    const current = buildSimulation('sim_current', START + DAY_MS, {
+      trajectories: buildTrajectory(0, 14, 105),
+      risks: [buildRisk('audience_fatigue', 'low')]
+    });
+
+    expect(detectForecastChanges(previous, current)).toEqual([]);
+  });
+
+  it('should report metric totals that moved past the threshold', () => {
+    const previous = buildSimulation('sim_previous', START);
+    const current = buildSimulation('sim_current', START + DAY_MS, {
+      trajectories: buildTrajectory(0, 14, 80)
+    });
+
+    expect(detectForecastChanges(previous, current)).toEqual([
+      { kind: 'forecast', key: 'conversions', description: 'conversions forecast down 20% (1,400 → 1,120)' }
+    ]);
+    expect(detectForecastChanges(previous, current, { metricChangeThreshold: 0.25 })).toEqual([]);
+  });
+
+  it('should compare rolling windows over the days both runs forecast', () => {
+    // A week later the window has moved on; the shared week is unchanged
+    const previous = buildSimulation('sim_previous', START);
+    const current = buildSimulation('sim_current', START + 7 * DAY_MS, {
+      trajectories: [...buildTrajectory(7, 7, 100), ...buildTrajectory(14, 7, 10)]
+    });
+
+    expect(detectForecastChanges(previous, current)).toEqual([]);
+  });
+
+  it('should report high-severity risks that appear, clear or escalate', () => {
+    const previous = buildSimulation('sim_previous', START, {
+      risks: [buildRisk('budget_overrun', 'high'), buildRisk('performance_dip', 'medium')]
+    });
+    const current = buildSimulation('sim_current', START + DAY_MS, {
+      risks: [buildRisk('performance_dip', 'critical'), buildRisk('competitor_activity', 'high')]
+    });
+
+    expect(detectForecastChanges(previous, current)).toEqual([
+      { kind: 'risk', key: 'budget_overrun', description: 'High risk cleared: budget_overrun' },
+      { kind: 'risk', key: 'performance_dip', description: 'performance_dip risk now critical (was medium)' },
+      { kind: 'risk', key: 'competitor_activity', description: 'New high risk: competitor_activity' }
+    ]);
+  });
+
+  it('should report KPI targets whose chance of being hit moved', () => {
+    const attainment = (probability: number) => [
+      { source: 'kpi' as const, name: 'conversions', timeframe: 'campaign', target: 1400, probability },
+      { source: 'kpi' as const, name: 'roi', timeframe: 'campaign', target: 300 }
+    ];
+    const previous = buildSimulation('sim_previous', START, { kpiAttainment: attainment(0.8) });
+
+    expect(detectForecastChanges(previous, buildSimulation('sim_current', START + DAY_MS, { kpiAttainment: attainment(0.7) })))
+      .toEqual([]);
+    expect(detectForecastChanges(previous, buildSimulation('sim_current', START + DAY_MS, { kpiAttainment: attainment(0.55) })))
+      .toEqual([
+        { kind: 'kpi_attainment', key: 'conversions', description: 'Chance of hitting the conversions target 80% → 55%' }
+      ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for Goal Seek Solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  solveGoalSeek,
+  lognormalOutcome,
+  normalCdf,
+  inverseNormalCdf,
+  GoalSeekInput
+} from '../GoalSeekSolver';
+import { ResponseCurves, RESPONSE_METRICS } from '../BudgetAllocationOptimizer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date(Date.UTC(2024, 0, 1));
+
+const buildCurves = (scales: Record<string, number>, elasticity = 0.5): ResponseCurves =>
+  Object.fromEntries(
+    RESPONSE_METRICS.map(metric => [metric, { metric, elasticity, scales, source: 'benchmark', observations: 0 }])
+  ) as ResponseCurves;
+
+// 30 days, $3000 split evenly: 30 * (2 * sqrt(50) + 2 * sqrt(50)) = 120 * sqrt(50) conversions
+const buildInput = (overrides: Partial<GoalSeekInput> = {}): GoalSeekInput => ({
+  kpi: { type: 'conversions', target: 1000, timeframe: 'campaign' },
+  variable: 'budget',
+  probability: 0.8,
+  budget: 3000,
+  startDate: START,
+  endDate: new Date(START.getTime() + 30 * DAY_MS),
+  channels: [
+    { channel: 'facebook', budget: 1500 },
+    { channel: 'google', budget: 1500 }
+  ],
+  curves: buildCurves({ facebook: 2, google: 2 }),
+  uncertainty: 0,
+  ...overrides
+});
+
+describe('normal distribution helpers', () => {
+  it('should invert the standard normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5);
+    expect(normalCdf(1.6449)).toBeCloseTo(0.95, 4);
+    expect(inverseNormalCdf(0.975)).toBeCloseTo(1.96, 3);
+    expect(inverseNormalCdf(normalCdf(-0.7))).toBeCloseTo(-0.7, 5);
+  });
+
+  it('should give the chance of a lognormal total reaching the target', () => {
+    const sigma = 0.3;
+    const median = 1000 * Math.exp(-(sigma * sigma) / 2);
+
+    expect(lognormalOutcome(1000, sigma, median).probability).toBeCloseTo(0.5);
+    expect(lognormalOutcome(1000, sigma, 400).probability).toBeGreaterThan(0.99);
+    expect(lognormalOutcome(1000, 0, 1000).probability).toBe(1);
+    const { p10, p90 } = lognormalOutcome(1000, sigma, 1000);
+    expect(p10).toBeLessThan(median);
+    expect(p90).toBeGreaterThan(median);
+  });
+});
+
+describe('solveGoalSeek', () => {
+  it('should find the minimum budget at the current channel split', () => {
+    const result = solveGoalSeek(buildInput());
+
+    // Expected total grows with sqrt(budget): 1000 = 120 * sqrt(50) * sqrt(B / 3000)
+    const expectedBudget = 3000 * Math.pow(1000 / (120 * Math.sqrt(50)), 2);
+    expect(result.current.expected).toBeCloseTo(120 * Math.sqrt(50));
+    expect(result.reachable).toBe(true);
+    expect(result.solution!.budget).toBeCloseTo(expectedBudget, 1);
+    expect(result.solution!.allocation.facebook).toBeCloseTo(expectedBudget / 2, 1);
+    expect(result.solution!.expected).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should ask for more budget when a higher probability is required', () => {
+    const likely = solveGoalSeek(buildInput({ uncertainty: 0.3, probability: 0.5 }));
+    const nearlyCertain = solveGoalSeek(buildInput({ uncertainty: 0.3, probability: 0.9 }));
+
+    expect(nearlyCertain.solution!.budget).toBeGreaterThan(likely.solution!.budget);
+    expect(likely.solution!.probability).toBeCloseTo(0.5, 2);
+    expect(nearlyCertain.solution!.probability).toBeCloseTo(0.9, 2);
+  });
+
+  it('should rebalance the channel mix to need less budget', () => {
+    const input = buildInput({ curves: buildCurves({ facebook: 3, google: 1 }) });
+
+    const atCurrentMix = solveGoalSeek(input);
+    const rebalanced = solveGoalSeek({ ...input, variable: 'channel_mix' });
+
+    // sqrt curves: the best split is proportional to scale squared, 9 : 1
+    expect(rebalanced.solution!.allocation.facebook / rebalanced.solution!.budget).toBeCloseTo(0.9, 3);
+    expect(rebalanced.solution!.budget).toBeLessThan(atCurrentMix.solution!.budget);
+  });
+
+  it('should find the shortest flight for a campaign-wide target', () => {
+    const result = solveGoalSeek(buildInput({ variable: 'timeline', kpi: { type: 'conversions', target: 900, timeframe: 'campaign' } }));
+
+    // Expected total grows with sqrt(days): 120 * sqrt(50) * sqrt(D / 30) >= 900
+    const expectedDays = Math.ceil(30 * Math.pow(900 / (120 * Math.sqrt(50)), 2));
+    expect(result.solution!.days).toBe(expectedDays);
+    expect(result.solution!.endDate).toEqual(new Date(START.getTime() + expectedDays * DAY_MS));
+    expect(result.solution!.budget).toBe(3000);
+  });
+
+  it('should scale period targets with the flight', () => {
+    const result = solveGoalSeek(buildInput({ kpi: { type: 'reach', target: 70, timeframe: 'weekly' } }));
+
+    expect(result.metric).toBe('reach');
+    expect(result.current.target).toBeCloseTo(300);
+  });
+
+  it('should report targets out of reach and unsupported requests', () => {
+    const unreachable = solveGoalSeek(buildInput({ kpi: { type: 'conversions', target: 1e6, timeframe: 'campaign' } }));
+    expect(unreachable.reachable).toBe(false);
+    expect(unreachable.solution).toBeUndefined();
+    expect(unreachable.message).toContain('10 times the current budget');
+
+    expect(() => solveGoalSeek(buildInput({ kpi: { type: 'cpc', target: 1.2, timeframe: 'campaign' } })))
+      .toThrow('Goal seek supports reach, engagement, conversions targets, not cpc');
+    expect(() => solveGoalSeek(buildInput({ variable: 'timeline', kpi: { type: 'reach', target: 10, timeframe: 'daily' } })))
+      .toThrow('campaign-wide target');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for KPI Attainment Analyzer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assessKpiAttainment,
+  monteCarloOutcomes,
+  scenarioOutcomes
+} from '../KpiAttainmentAnalyzer';
+import { MonteCarloSampleSet } from '../MonteCarloSampler';
+import { ScenarioResult, TrajectoryPoint } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date(Date.UTC(2024, 0, 1));
+const after = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const flightOf = (days: number) => ({ startDate: START, endDate: after(days) });
+
+const buildTrajectory = (days: number, metrics: Record<string, number>): TrajectoryPoint[] =>
+  Array.from({ length: days }, (_, day) => ({ date: after(day), metrics: { ...metrics }, confidence: 0.8 }));
+
+const buildScenario = (type: string, conversionsPerDay: number): ScenarioResult => ({
+  type,
+  probability: 1 / 3,
+  trajectory: buildTrajectory(10, { conversions: conversionsPerDay }),
+  key_factors: [],
+  confidence: 0.8
+});
+
+describe('assessKpiAttainment', () => {
+  it('should give the share of runs reaching a campaign target and the mean shortfall', () => {
+    const [conversions] = assessKpiAttainment({
+      kpis: [{ type: 'conversions', target: 100, timeframe: 'campaign', weight: 1 }],
+      outcomes: { conversions: [80, 90, 100, 110, 120] },
+      flight: flightOf(30),
+      campaign: flightOf(30)
+    });
+
+    expect(conversions).toEqual({
+      source: 'kpi',
+      name: 'conversions',
+      metric: 'conversions',
+      timeframe: 'campaign',
+      target: 100,
+      expected: 100,
+      probability: 0.6,
+      expectedShortfall: 6
+    });
+  });
+
+  it('should compare periodic targets per period and scale campaign targets to the campaign', () => {
+    const [weeklyReach, campaignReach] = assessKpiAttainment({
+      kpis: [
+        { type: 'reach', target: 1000, timeframe: 'weekly', weight: 1 },
+        { type: 'reach', target: 4000, timeframe: 'campaign', weight: 1 }
+      ],
+      // A 14-day flight of a 28-day campaign
+      outcomes: { reach: [1400, 2800] },
+      flight: flightOf(14),
+      campaign: flightOf(28)
+    });
+
+    expect(weeklyReach.expected).toBeCloseTo(1050);
+    expect(weeklyReach.probability).toBe(0.5);
+    expect(weeklyReach.expectedShortfall).toBeCloseTo(150);
+    expect(campaignReach.expected).toBeCloseTo(4200);
+    expect(campaignReach.probability).toBe(0.5);
+  });
+
+  it('should read CTR targets as percentages and cost targets as ceilings', () => {
+    const [ctr, cpc] = assessKpiAttainment({
+      kpis: [
+        { type: 'ctr', target: 2, timeframe: 'campaign', weight: 1 },
+        { type: 'cpc', target: 1.5, timeframe: 'campaign', weight: 1 }
+      ],
+      outcomes: { ctr: [0.015, 0.025, 0.03, 0.04], cpc: [1, 1.4, 1.6, 2] },
+      flight: flightOf(10),
+      campaign: flightOf(10)
+    });
+
+    expect(ctr.probability).toBe(0.75);
+    expect(ctr.expectedShortfall).toBeCloseTo(0.125);
+    expect(cpc.probability).toBe(0.5);
+    expect(cpc.expectedShortfall).toBeCloseTo((0.1 + 0.5) / 4);
+  });
+
+  it('should match custom metrics by name and leave unsimulated targets without a probability', () => {
+    const [roi, impressions, signups] = assessKpiAttainment({
+      kpis: [{ type: 'roi', target: 300, timeframe: 'campaign', weight: 1 }],
+      customMetrics: [
+        { name: 'Impressions', description: '', target: 5000, unit: 'views' },
+        { name: 'Newsletter signups', description: '', target: 50, unit: 'signups' }
+      ],
+      outcomes: { impressions: [4000, 6000] },
+      flight: flightOf(10),
+      campaign: flightOf(10)
+    });
+
+    expect(roi).toEqual({ source: 'kpi', name: 'roi', timeframe: 'campaign', target: 300 });
+    expect(impressions).toEqual(expect.objectContaining({ source: 'custom_metric', metric: 'impressions', probability: 0.5 }));
+    expect(signups.probability).toBeUndefined();
+  });
+});
+
+describe('monteCarloOutcomes', () => {
+  it('should derive engagement volumes from every run', () => {
+    // Two days, two runs
+    const samples = new MonteCarloSampleSet(
+      buildTrajectory(2, { impressions: 1000, engagement: 0.05 }),
+      ['impressions', 'engagement'],
+      {
+        impressions: [Float64Array.from([1000, 2000]), Float64Array.from([1000, 500])],
+        engagement: [Float64Array.from([0.05, 0.1]), Float64Array.from([0.02, 0.04])]
+      },
+      {
+        impressions: Float64Array.from([2000, 2500]),
+        engagement: Float64Array.from([0.035, 0.07])
+      },
+      2
+    );
+
+    const outcomes = monteCarloOutcomes(samples);
+
+    expect(Array.from(outcomes.engagements)).toEqual([70, 220]);
+    expect(outcomes.clicks).toBeUndefined();
+    expect(outcomes.impressions).toBe(samples.totals.impressions);
+  });
+});
+
+describe('scenarioOutcomes', () => {
+  it('should fit a normal spread through the scenario percentiles', () => {
+    const outcomes = scenarioOutcomes([
+      buildScenario('optimistic', 120),
+      buildScenario('realistic', 100),
+      buildScenario('pessimistic', 80)
+    ]);
+
+    const [atMedian, atPessimistic] = assessKpiAttainment({
+      kpis: [
+        { type: 'conversions', target: 1000, timeframe: 'campaign', weight: 1 },
+        { type: 'conversions', target: 800, timeframe: 'campaign', weight: 1 }
+      ],
+      outcomes,
+      flight: flightOf(10),
+      campaign: flightOf(10)
+    });
+
+    expect(outcomes.conversions).toHaveLength(200);
+    expect(atMedian.expected).toBeCloseTo(1000, 0);
+    expect(atMedian.probability).toBeCloseTo(0.5, 2);
+    expect(atPessimistic.probability).toBeCloseTo(0.75, 2);
+  });
+
+  it('should take a lone scenario spread from its confidence and skip custom scenarios', () => {
+    const outcomes = scenarioOutcomes([
+      buildScenario('realistic', 100),
+      { ...buildScenario('custom', 500), name: 'Holiday push' }
+    ]);
+    const totals = Array.from(outcomes.conversions);
+
+    // Confidence 0.8 gives a relative standard deviation of 0.1
+    const mean = totals.reduce((sum, value) => sum + value, 0) / totals.length;
+    const stdDev = Math.sqrt(totals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / totals.length);
+    expect(mean).toBeCloseTo(1000, 0);
+    expect(stdDev).toBeGreaterThan(90);
+    expect(stdDev).toBeLessThan(100);
+    expect(scenarioOutcomes([])).toEqual({});
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for Recommendation Impact Estimator what-if projections
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecommendationImpactEstimator, ImpactEstimationContext } from '../RecommendationImpactEstimator';
+import { PivotRecommendation, TrajectoryPoint } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const buildTrajectory = (days = 14): TrajectoryPoint[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(START + i * DAY_MS),
+    metrics: { ctr: 0.02, impressions: 10000, reach: 8000, engagement: 0.05, conversions: 50, cpc: 1.2 },
+    confidence: 0.8
+  }));
+
+const buildRecommendation = (overrides: Partial<PivotRecommendation> = {}): PivotRecommendation => ({
+  id: 'budget_facebook_to_google',
+  type: 'budget_reallocation',
+  priority: 8,
+  impact_estimate: { metric: 'conversions', improvement: 0.2, confidence: 0.8 },
+  implementation: {
+    description: 'Reallocate $300.00 from facebook to google',
+    steps: ['Reduce facebook budget', 'Increase google budget'],
+    effort: 'low',
+    timeline: '1-2 days'
+  },
+  reallocation: { from: 'facebook', to: 'google', amount: 300 },
+  ...overrides
+});
+
+const creativeRefresh = buildRecommendation({
+  id: 'creative_refresh_1',
+  type: 'creative_refresh',
+  priority: 6,
+  impact_estimate: { metric: 'ctr', improvement: 0.15, confidence: 0.7 },
+  implementation: { description: 'Refresh creatives', steps: ['Brief design'], effort: 'medium', timeline: '5 days' },
+  reallocation: undefined
+});
+
+describe('RecommendationImpactEstimator.evaluateWhatIf', () => {
+  let estimator: RecommendationImpactEstimator;
+  let context: ImpactEstimationContext;
+
+  beforeEach(() => {
+    estimator = new RecommendationImpactEstimator();
+    context = {
+      currentTrajectory: buildTrajectory(),
+      campaignData: { creativeAssets: [{}, {}, {}] },
+      simulationContext: { dataset: { dataQuality: { overall: 0.8 } } }
+    };
+  });
+
+  it('should project against the simulated trajectory without random noise', async () => {
+    const input = { recommendations: [buildRecommendation()] };
+
+    const first = await estimator.evaluateWhatIf(input, context);
+    const second = await estimator.evaluateWhatIf(input, context);
+
+    expect(first.baseline).toEqual(context.currentTrajectory);
+    expect(first.projection).toEqual(second.projection);
+    expect(first.projection[0].metrics.conversions).toBe(50); // effects ramp up from day 0
+    expect(first.projection[5].metrics.conversions).toBeCloseTo(60);
+    expect(first.metricChanges.conversions).toBeGreaterThan(0);
+    expect(first.uncertaintyBounds.lower[5].metrics.conversions).toBeLessThan(60);
+    expect(first.uncertaintyBounds.upper[5].metrics.conversions).toBeGreaterThan(60);
+  });
+
+  it('should resize budget moves from the reallocation share with diminishing returns', async () => {
+    const workspace = await estimator.evaluateWhatIf(
+      {
+        recommendations: [buildRecommendation()],
+        adjustments: { budget_facebook_to_google: { reallocationShare: 0.6 } },
+        channelBudgets: { facebook: 1000, google: 1500 }
+      },
+      context
+    );
+
+    const [adjusted] = workspace.recommendations;
+    expect(adjusted.reallocation?.amount).toBe(600);
+    expect(adjusted.impact_estimate.improvement).toBeCloseTo(0.2 * Math.SQRT2);
+    expect(adjusted.impact_estimate.confidence).toBeCloseTo(0.8 / Math.SQRT2);
+    expect(adjusted.implementation.description).toBe('Reallocate $600.00 from facebook to google');
+  });
+
+  it('should leave the days before the start day untouched', async () => {
+    const workspace = await estimator.evaluateWhatIf(
+      {
+        recommendations: [buildRecommendation()],
+        adjustments: { budget_facebook_to_google: { startDay: 7 } }
+      },
+      context
+    );
+
+    expect(workspace.projection.slice(0, 8).map(point => point.metrics.conversions)).toEqual(Array(8).fill(50));
+    expect(workspace.projection[10].metrics.conversions).toBeCloseTo(60);
+    expect(workspace.projection).toHaveLength(14);
+  });
+
+  it('should dampen the combined uplift and rank the selected recommendations', async () => {
+    const single = await estimator.evaluateWhatIf({ recommendations: [creativeRefresh] }, context);
+    const combined = await estimator.evaluateWhatIf(
+      { recommendations: [buildRecommendation(), creativeRefresh] },
+      context
+    );
+
+    expect(combined.interactionFactor).toBe(0.85);
+    expect(combined.feasible).toBe(true);
+    // Interaction only shrinks the change, never drops below the baseline
+    expect(combined.projection[13].metrics.ctr).toBeGreaterThan(0.02);
+    expect(combined.projection[13].metrics.ctr).toBeLessThan(single.projection[13].metrics.ctr);
+    expect(combined.confidence).toBeCloseTo(0.8 * 0.7);
+    expect(combined.ranking.map(entry => entry.ranking).sort()).toEqual([1, 2]);
+    expect(combined.implementationRisk.riskFactors).toContain('New creatives may not resonate with audience');
+    expect(combined.implementationRisk.complexityScore).toBeGreaterThan(single.ranking[0].complexity - 1);
+  });
+
+  it('should flag conflicting selections and handle an empty one', async () => {
+    const channelShift = buildRecommendation({ id: 'shift', type: 'channel_shift', reallocation: undefined });
+
+    const conflicting = await estimator.evaluateWhatIf(
+      { recommendations: [buildRecommendation(), channelShift] },
+      context
+    );
+    const empty = await estimator.evaluateWhatIf({ recommendations: [] }, context);
+
+    expect(conflicting.feasible).toBe(false);
+    expect(empty.projection).toEqual(context.currentTrajectory);
+    expect(empty.uncertaintyBounds).toEqual({ lower: [], upper: [] });
+    expect(empty.ranking).toEqual([]);
+    expect(empty.comparisonToBaseline.improvement).toBe(0);
+  });
+});
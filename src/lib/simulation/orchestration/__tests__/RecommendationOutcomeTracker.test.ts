@@ -0,0 +1,132 @@
+/**
+ * Unit tests for Recommendation Outcome Tracker
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  measureRecommendationOutcome,
+  summarizeRecommendationTypes,
+  OutcomeInput
+} from '../RecommendationOutcomeTracker';
+import { PerformanceMetric } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+const APPLIED = new Date(START + 14 * DAY_MS);
+
+// One actual per day for 28 days, split around the applied date
+const buildActuals = (metric: string, before: number, after: number, days = 28): PerformanceMetric[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(START + i * DAY_MS),
+    metric,
+    value: i < 14 ? before : after
+  }));
+
+const buildInput = (overrides: Partial<OutcomeInput> = {}): OutcomeInput => ({
+  metric: 'ctr',
+  predictedImprovement: 0.2,
+  appliedAt: APPLIED,
+  actuals: buildActuals('ctr', 0.02, 0.024),
+  now: new Date(START + 30 * DAY_MS),
+  ...overrides
+});
+
+describe('measureRecommendationOutcome', () => {
+  it('should report a predicted improvement that materialised', () => {
+    const outcome = measureRecommendationOutcome(buildInput());
+
+    expect(outcome.before).toMatchObject({ days: 14, start: new Date(START) });
+    expect(outcome.after).toMatchObject({ days: 14, start: APPLIED, end: new Date(START + 28 * DAY_MS) });
+    expect(outcome.before.mean).toBeCloseTo(0.02);
+    expect(outcome.after.mean).toBeCloseTo(0.024);
+    expect(outcome.actualImprovement).toBeCloseTo(0.2);
+    expect(outcome.realisation).toBeCloseTo(1);
+    expect(outcome.verdict).toBe('materialised');
+    expect(outcome.complete).toBe(true);
+  });
+
+  it('should grade partial and missed improvements', () => {
+    const partial = measureRecommendationOutcome(buildInput({ actuals: buildActuals('ctr', 0.02, 0.021) }));
+    const missed = measureRecommendationOutcome(buildInput({ actuals: buildActuals('ctr', 0.02, 0.019) }));
+
+    expect(partial.realisation).toBeCloseTo(0.25);
+    expect(partial.verdict).toBe('not_materialised');
+    expect(measureRecommendationOutcome(buildInput({ actuals: buildActuals('ctr', 0.02, 0.022) })).verdict)
+      .toBe('partially_materialised');
+    expect(missed.actualImprovement).toBeCloseTo(-0.05);
+    expect(missed.verdict).toBe('not_materialised');
+  });
+
+  it('should treat a lower cost as the improvement for cost metrics', () => {
+    const outcome = measureRecommendationOutcome(buildInput({
+      metric: 'cpc',
+      predictedImprovement: 0.1,
+      actuals: buildActuals('cpc', 2, 1.8)
+    }));
+
+    expect(outcome.actualImprovement).toBeCloseTo(0.1);
+    expect(outcome.verdict).toBe('materialised');
+  });
+
+  it('should stay pending until the after window has enough days', () => {
+    const outcome = measureRecommendationOutcome(buildInput({
+      actuals: buildActuals('ctr', 0.02, 0.024, 16),
+      now: new Date(START + 16 * DAY_MS)
+    }));
+
+    expect(outcome.after.days).toBe(2);
+    expect(outcome.verdict).toBe('pending');
+    expect(outcome.complete).toBe(false);
+  });
+
+  it('should report insufficient data without a baseline', () => {
+    const outcome = measureRecommendationOutcome(buildInput({
+      actuals: buildActuals('ctr', 0.02, 0.024).filter(point => point.date >= APPLIED)
+    }));
+
+    expect(outcome.before.days).toBe(0);
+    expect(outcome.actualImprovement).toBeNull();
+    expect(outcome.verdict).toBe('insufficient_data');
+  });
+
+  it('should average actuals reported twice for the same day', () => {
+    const actuals = [
+      ...buildActuals('ctr', 0.02, 0.024),
+      { date: new Date(START + 20 * DAY_MS + 3600000), metric: 'ctr', value: 0.038 },
+      { date: new Date(START + 20 * DAY_MS), metric: 'impressions', value: 1000 }
+    ];
+
+    const outcome = measureRecommendationOutcome(buildInput({ actuals }));
+
+    expect(outcome.after.days).toBe(14);
+    expect(outcome.after.mean).toBeCloseTo(0.0245);
+  });
+});
+
+describe('summarizeRecommendationTypes', () => {
+  it('should roll up statuses and outcomes per type', () => {
+    const materialised = measureRecommendationOutcome(buildInput());
+    const missed = measureRecommendationOutcome(buildInput({ actuals: buildActuals('ctr', 0.02, 0.019) }));
+    const pending = measureRecommendationOutcome(buildInput({ now: new Date(START + 15 * DAY_MS) }));
+
+    const summary = summarizeRecommendationTypes([
+      { type: 'creative_refresh', status: 'applied', outcome: materialised },
+      { type: 'creative_refresh', status: 'applied', outcome: missed },
+      { type: 'creative_refresh', status: 'applied', outcome: pending },
+      { type: 'creative_refresh', status: 'dismissed' },
+      { type: 'timing_adjustment', status: 'new' }
+    ]);
+
+    expect(summary.map(entry => entry.type)).toEqual(['creative_refresh', 'timing_adjustment']);
+    expect(summary[0]).toMatchObject({
+      total: 4,
+      byStatus: { new: 0, accepted: 0, dismissed: 1, applied: 3 },
+      acceptanceRate: 0.75,
+      measured: 2,
+      materialised: 1,
+      notMaterialised: 1
+    });
+    expect(summary[0].averageRealisation).toBeCloseTo((1 - 0.25) / 2);
+    expect(summary[1].acceptanceRate).toBeNull();
+  });
+});
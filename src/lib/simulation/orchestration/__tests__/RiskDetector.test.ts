@@ -225,6 +225,33 @@ describe('RiskDetector Integration Tests', () => {
       }
     });
 
+    it('should raise dated pacing risks from recorded spend', async () => {
+      mockContext.dataset.budgetAllocation.dailySpend = Array.from({ length: 10 }, (_, i) => [
+        { date: new Date(Date.UTC(2024, 0, i + 1)), channel: 'facebook', amount: 400 },
+        { date: new Date(Date.UTC(2024, 0, i + 1)), channel: 'google', amount: 50 }
+      ]).flat();
+
+      const trajectory: TrajectoryPoint[] = Array.from({ length: 30 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        metrics: { ctr: 0.03, impressions: 1000, engagement: 0.05 },
+        confidence: 0.85
+      }));
+
+      const risks = await detector.detectRisks(trajectory, mockContext);
+
+      const overruns = risks.filter(risk => risk.type === 'budget_overrun');
+      expect(overruns.map(risk => risk.description)).toEqual(expect.arrayContaining([
+        expect.stringContaining('facebook is over-pacing'),
+        expect.stringContaining('runs out on 2024-01-13')
+      ]));
+      expect(overruns[0].recommendations).toContain('Implement stricter budget controls');
+      expect(overruns[0].timeframe.start).toEqual(new Date(Date.UTC(2024, 0, 11)));
+
+      const underpacing = risks.find(risk => risk.type === 'budget_underpacing');
+      expect(underpacing?.description).toContain('google is under-pacing');
+      expect(underpacing?.description).toContain('from 2024-01-11');
+    });
+
     it('should prioritize risks by severity and impact', async () => {
       // Create trajectory with multiple risk patterns
       const multiRiskTrajectory: TrajectoryPoint[] = Array.from({ length: 30 }, (_, i) => ({
@@ -278,6 +305,30 @@ describe('RiskDetector Integration Tests', () => {
       expect(lowThresholdRisks.length).toBeGreaterThanOrEqual(highThresholdRisks.length);
     });
 
+    it('should raise organization risk rule matches next to built-in risks', async () => {
+      const trajectory: TrajectoryPoint[] = Array.from({ length: 30 }, (_, i) => ({
+        date: new Date(Date.UTC(2024, 0, i + 1)),
+        metrics: { ctr: 0.03, impressions: i >= 20 ? 5000 : 3000, reach: 1000, engagement: 0.05 },
+        confidence: 0.85
+      }));
+
+      const risks = await detector.detectRisks(trajectory, mockContext, {
+        rules: [{
+          id: 'rule_frequency',
+          name: 'Frequency above 4',
+          metric: 'frequency',
+          condition: { kind: 'threshold', operator: 'above', value: 4 },
+          severity: 'critical',
+          lookbackDays: 1
+        }]
+      });
+
+      const ruleRisk = risks.find(risk => risk.type === 'custom_rule');
+      expect(ruleRisk?.rule).toEqual({ id: 'rule_frequency', name: 'Frequency above 4' });
+      expect(ruleRisk?.timeframe.start).toEqual(new Date(Date.UTC(2024, 0, 21)));
+      expect(risks[0].severity).toBe('critical');
+    });
+
     it('should handle custom risk detection thresholds', async () => {
       const trajectory: TrajectoryPoint[] = Array.from({ length: 30 }, (_, i) => ({
         date: new Date(2024, 0, i + 1),
@@ -382,6 +433,45 @@ describe('RiskDetector Integration Tests', () => {
     });
   });
 
+  describe('hourly forecasts', () => {
+    const hourlyContext = (): SimulationContext => ({
+      ...mockContext,
+      request: {
+        ...mockContext.request,
+        timeframe: {
+          startDate: new Date(Date.UTC(2024, 0, 1)),
+          endDate: new Date(Date.UTC(2024, 0, 3, 12)),
+          granularity: 'hourly'
+        }
+      }
+    });
+
+    // Busy mornings, quiet evenings: the window ends in a quiet stretch
+    const hourlyTrajectory = (): TrajectoryPoint[] =>
+      Array.from({ length: 60 }, (_, hour) => ({
+        date: new Date(Date.UTC(2024, 0, 1, hour)),
+        metrics: { ctr: 0.03, impressions: hour % 24 < 6 ? 2000 : 500 },
+        confidence: 0.85
+      }));
+
+    it('should not read the daily audience cycle as a performance dip', async () => {
+      const risks = await detector.detectRisks(hourlyTrajectory(), hourlyContext(), { rules: [] });
+
+      expect(risks.filter(risk => risk.type === 'performance_dip')).toEqual([]);
+    });
+
+    it('should still flag a decline across days', async () => {
+      const declining = hourlyTrajectory().map((point, hour) => ({
+        ...point,
+        metrics: { ...point.metrics, ctr: 0.04 * (1 - hour / 80) }
+      }));
+
+      const risks = await detector.detectRisks(declining, hourlyContext(), { rules: [] });
+
+      expect(risks.some(risk => risk.type === 'performance_dip')).toBe(true);
+    });
+  });
+
   describe('risk pattern analysis', () => {
     it('should identify inflection points in performance trends', async () => {
       // Create trajectory with clear inflection point
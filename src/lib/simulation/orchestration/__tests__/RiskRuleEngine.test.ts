@@ -0,0 +1,112 @@
+/**
+ * Unit tests for Risk Rule Engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateRiskRules } from '../RiskRuleEngine';
+import { PerformanceMetric, RiskRule, TrajectoryPoint } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const buildTrajectory = (
+  days: number,
+  metrics: (day: number) => Record<string, number>,
+  offset = 0
+): TrajectoryPoint[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(START + (offset + i) * DAY_MS),
+    metrics: metrics(offset + i),
+    confidence: 0.8
+  }));
+
+const buildRule = (overrides: Partial<RiskRule>): RiskRule => ({
+  id: 'rule_1',
+  name: 'Test rule',
+  metric: 'ctr',
+  condition: { kind: 'threshold', operator: 'above', value: 1 },
+  severity: 'high',
+  lookbackDays: 1,
+  ...overrides
+});
+
+describe('evaluateRiskRules', () => {
+  it('should flag week-over-week drops and date the matching days', () => {
+    // CTR falls from 0.05 to 0.03 from day 14 on
+    const trajectory = buildTrajectory(21, day => ({ ctr: day < 14 ? 0.05 : 0.03 }));
+    const rule = buildRule({
+      name: 'CTR drops >20% week-over-week',
+      condition: { kind: 'period_change', direction: 'decrease', threshold: 0.2 },
+      lookbackDays: 7
+    });
+
+    const [alert, ...rest] = evaluateRiskRules([rule], trajectory);
+
+    expect(rest).toEqual([]);
+    expect(alert).toMatchObject({
+      type: 'custom_rule',
+      severity: 'high',
+      rule: { id: 'rule_1', name: 'CTR drops >20% week-over-week' }
+    });
+    // Four days at 0.03 are the first to pull the 7-day average 20% under the week before
+    expect(alert.timeframe.start).toEqual(new Date(START + 17 * DAY_MS));
+    expect(alert.timeframe.end).toEqual(new Date(START + 20 * DAY_MS));
+    expect(alert.description).toContain('ctr falls 40.0% against the previous 7 days');
+  });
+
+  it('should evaluate derived metrics such as frequency', () => {
+    const trajectory = buildTrajectory(5, day => ({ impressions: day >= 3 ? 5000 : 3000, reach: 1000 }));
+    const rule = buildRule({
+      name: 'Frequency above 4',
+      metric: 'frequency',
+      condition: { kind: 'threshold', operator: 'above', value: 4 }
+    });
+
+    const [alert] = evaluateRiskRules([rule], trajectory);
+
+    expect(alert.timeframe.start).toEqual(new Date(START + 3 * DAY_MS));
+    expect(alert.description).toBe('Frequency above 4: frequency is 5 (above 4) from 2024-01-04 to 2024-01-05');
+  });
+
+  it('should compare against the median of the lookback window', () => {
+    const trajectory = buildTrajectory(15, day => ({ cpm: day === 14 ? 13.5 : day % 2 === 0 ? 10 : 9 }));
+    const rule = buildRule({
+      metric: 'cpm',
+      condition: { kind: 'median_change', direction: 'increase', threshold: 0.3 },
+      lookbackDays: 14
+    });
+
+    const alerts = evaluateRiskRules([rule], trajectory);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].timeframe.start).toEqual(new Date(START + 14 * DAY_MS));
+    expect(alerts[0].description).toContain('42.1% above its 14-day median on 2024-01-15');
+  });
+
+  it('should use recorded history as lookback for the first predicted days', () => {
+    const history: PerformanceMetric[] = Array.from({ length: 3 }, (_, i) => ({
+      date: new Date(START + i * DAY_MS),
+      metric: 'conversions',
+      value: 12
+    }));
+    const trajectory = buildTrajectory(3, () => ({ conversions: 0 }), 3);
+    const rule = buildRule({
+      metric: 'conversions',
+      condition: { kind: 'drops_to_zero' },
+      lookbackDays: 2
+    });
+
+    const [alert] = evaluateRiskRules([rule], trajectory, history);
+
+    expect(alert.timeframe.start).toEqual(new Date(START + 4 * DAY_MS));
+    expect(alert.impact).toBe(1);
+    expect(alert.description).toContain('reports zero for 2 days');
+  });
+
+  it('should not alert when no rule matches', () => {
+    const trajectory = buildTrajectory(10, () => ({ ctr: 0.03 }));
+
+    expect(evaluateRiskRules([buildRule({})], trajectory)).toEqual([]);
+    expect(evaluateRiskRules([], trajectory)).toEqual([]);
+  });
+});
@@ -440,4 +440,260 @@ describe('ScenarioGenerator Integration Tests', () => {
       expect(scenario.confidence).toBeLessThan(0.5);
     });
   });
-});
\ No newline at end of file
+
+  describe('custom scenarios with dated shocks', () => {
+    const shockWindow = {
+      start: new Date(2024, 0, 10),
+      end: new Date(2024, 0, 16)
+    };
+
+    it('should only change days inside the shock window', async () => {
+      const [scenario] = await generator.generateScenarios(
+        mockTrajectory,
+        [{
+          type: 'custom',
+          name: 'Budget cut',
+          percentile: 50,
+          adjustments: [{ factor: 'budget', multiplier: 0.7, timeframe: shockWindow }]
+        }],
+        mockContext
+      );
+      const [baseline] = await generator.generateScenarios(
+        mockTrajectory,
+        [{ type: 'custom', name: 'Baseline', percentile: 50 }],
+        mockContext
+      );
+
+      expect(scenario.name).toBe('Budget cut');
+      scenario.trajectory.forEach((point, i) => {
+        const inside = point.date >= shockWindow.start && point.date <= shockWindow.end;
+        const ratio = point.metrics.impressions / baseline.trajectory[i].metrics.impressions;
+        expect(ratio).toBeCloseTo(inside ? 0.7 : 1, 6);
+        // Budget shocks leave rate metrics alone
+        expect(point.metrics.ctr).toBeCloseTo(baseline.trajectory[i].metrics.ctr, 10);
+      });
+    });
+
+    it('should scale channel shocks by the channel budget share', async () => {
+      const context = {
+        ...mockContext,
+        dataset: {
+          ...mockContext.dataset,
+          budgetAllocation: {
+            total: 10000,
+            allocated: { facebook: 4000, google: 6000 },
+            spent: {},
+            remaining: {}
+          }
+        }
+      };
+
+      const [scenario] = await generator.generateScenarios(
+        mockTrajectory,
+        [{
+          type: 'custom',
+          name: 'Facebook cut',
+          percentile: 50,
+          adjustments: [{ factor: 'budget', multiplier: 0.7, channel: 'facebook', timeframe: shockWindow }]
+        }],
+        context
+      );
+      const [baseline] = await generator.generateScenarios(
+        mockTrajectory,
+        [{ type: 'custom', name: 'Baseline', percentile: 50 }],
+        context
+      );
+
+      const index = scenario.trajectory.findIndex(point => point.date >= shockWindow.start);
+      // 40% of the budget loses 30% of its delivery
+      expect(scenario.trajectory[index].metrics.impressions / baseline.trajectory[index].metrics.impressions)
+        .toBeCloseTo(1 - 0.4 * 0.3, 6);
+    });
+
+    it('should apply the multiplier directly to targeted metrics', async () => {
+      const trajectory = mockTrajectory.map(point => ({
+        ...point,
+        metrics: { ...point.metrics, cpm: 12 }
+      }));
+
+      const [scenario] = await generator.generateScenarios(
+        trajectory,
+        [{
+          type: 'custom',
+          name: 'Competitor launch',
+          percentile: 50,
+          adjustments: [{
+            factor: 'competition',
+            multiplier: 1.15,
+            metrics: ['cpm'],
+            timeframe: shockWindow,
+            label: 'competitor launch'
+          }]
+        }],
+        mockContext
+      );
+      const [baseline] = await generator.generateScenarios(
+        trajectory,
+        [{ type: 'custom', name: 'Baseline', percentile: 50 }],
+        mockContext
+      );
+
+      const index = scenario.trajectory.findIndex(point => point.date >= shockWindow.start);
+      expect(scenario.trajectory[index].metrics.cpm / baseline.trajectory[index].metrics.cpm).toBeCloseTo(1.15, 6);
+      expect(scenario.trajectory[index].metrics.ctr).toBeCloseTo(baseline.trajectory[index].metrics.ctr, 10);
+      expect(scenario.key_factors).toContain('competitor launch');
+    });
+
+    it('should raise costs and lower performance under competitive pressure', async () => {
+      const trajectory = mockTrajectory.map(point => ({
+        ...point,
+        metrics: { ...point.metrics, cpc: 1.5 }
+      }));
+
+      const [scenario] = await generator.generateScenarios(
+        trajectory,
+        [{ type: 'custom', name: 'Pressure', percentile: 50, adjustments: [{ factor: 'competition', multiplier: 0.8 }] }],
+        mockContext
+      );
+      const [baseline] = await generator.generateScenarios(
+        trajectory,
+        [{ type: 'custom', name: 'Baseline', percentile: 50 }],
+        mockContext
+      );
+
+      expect(scenario.trajectory[0].metrics.cpc).toBeGreaterThan(baseline.trajectory[0].metrics.cpc);
+      expect(scenario.trajectory[0].metrics.ctr).toBeLessThan(baseline.trajectory[0].metrics.ctr);
+    });
+  });
+
+  describe('Monte Carlo mode', () => {
+    const standardScenarios: ScenarioConfig[] = [
+      { type: 'optimistic' },
+      { type: 'realistic' },
+      { type: 'pessimistic' }
+    ];
+
+    const confidenceIntervals = () => mockTrajectory.map(point => ({
+      lower: point.metrics.ctr * 0.8,
+      upper: point.metrics.ctr * 1.2,
+      confidence_level: 0.8
+    }));
+
+    it('should reproduce identical results for the same seed', async () => {
+      const intervals = confidenceIntervals();
+
+      const first = await generator.generateMonteCarloScenarios(
+        mockTrajectory, intervals, standardScenarios, mockContext, { iterations: 500, seed: 42 }
+      );
+      const second = await generator.generateMonteCarloScenarios(
+        mockTrajectory, intervals, standardScenarios, mockContext, { iterations: 500, seed: 42 }
+      );
+
+      expect(second.monteCarlo).toEqual(first.monteCarlo);
+      expect(second.scenarios).toEqual(first.scenarios);
+    });
+
+    it('should produce different samples for different seeds', async () => {
+      const intervals = confidenceIntervals();
+
+      const first = await generator.generateMonteCarloScenarios(
+        mockTrajectory, intervals, standardScenarios, mockContext, { iterations: 500, seed: 1 }
+      );
+      const second = await generator.generateMonteCarloScenarios(
+        mockTrajectory, intervals, standardScenarios, mockContext, { iterations: 500, seed: 2 }
+      );
+
+      expect(second.monteCarlo.kpiDistributions.ctr.mean).not.toBe(first.monteCarlo.kpiDistributions.ctr.mean);
+    });
+
+    it('should report a generated seed so the run can be replayed', async () => {
+      const { monteCarlo } = await generator.generateMonteCarloScenarios(
+        mockTrajectory, confidenceIntervals(), standardScenarios, mockContext, { iterations: 200 }
+      );
+
+      expect(Number.isInteger(monteCarlo.seed)).toBe(true);
+      expect(monteCarlo.iterations).toBe(200);
+    });
+
+    it('should order P10, P50 and P90 bands at every point', async () => {
+      const { monteCarlo } = await generator.generateMonteCarloScenarios(
+        mockTrajectory, confidenceIntervals(), standardScenarios, mockContext, { iterations: 1000, seed: 7 }
+      );
+
+      expect(monteCarlo.primaryMetric).toBe('ctr');
+      expect(monteCarlo.bands.p50).toHaveLength(30);
+      monteCarlo.bands.p50.forEach((point, i) => {
+        expect(monteCarlo.bands.p10[i].metrics.ctr).toBeLessThanOrEqual(point.metrics.ctr);
+        expect(monteCarlo.bands.p90[i].metrics.ctr).toBeGreaterThanOrEqual(point.metrics.ctr);
+        expect(point.date).toEqual(mockTrajectory[i].date);
+      });
+    });
+
+    it('should report the distribution of end-of-flight totals', async () => {
+      const { monteCarlo } = await generator.generateMonteCarloScenarios(
+        mockTrajectory, confidenceIntervals(), standardScenarios, mockContext, { iterations: 1000, seed: 7 }
+      );
+
+      const impressions = monteCarlo.kpiDistributions.impressions;
+      const histogramCount = impressions.histogram.reduce((sum, bin) => sum + bin.count, 0);
+
+      expect(histogramCount).toBe(1000);
+      expect(impressions.min).toBeLessThanOrEqual(impressions.p10);
+      expect(impressions.p10).toBeLessThanOrEqual(impressions.p50);
+      expect(impressions.p50).toBeLessThanOrEqual(impressions.p90);
+      expect(impressions.p90).toBeLessThanOrEqual(impressions.max);
+      // Volume metrics are totalled over the flight
+      expect(impressions.p50).toBeGreaterThan(20000);
+    });
+
+    it('should bound the point values kept for long trajectories', async () => {
+      const hourly = Array.from({ length: 168 }, (_, i) => ({
+        ...mockTrajectory[i % 30],
+        date: new Date(Date.UTC(2024, 0, 1, i))
+      }));
+
+      const { monteCarlo, samples } = await generator.generateMonteCarloScenarios(
+        hourly, [], standardScenarios, mockContext, { iterations: 10000, seed: 5 }
+      );
+
+      expect(samples.iterations).toBe(10000);
+      expect(samples.pointSamples).toBe(Math.floor(1_000_000 / (168 * 3)));
+      expect(samples.values.ctr[167]).toHaveLength(samples.pointSamples);
+      expect(samples.totals.ctr).toHaveLength(10000);
+      expect(monteCarlo.kpiDistributions.impressions.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(10000);
+      monteCarlo.bands.p50.forEach((point, i) => {
+        expect(monteCarlo.bands.p10[i].metrics.ctr).toBeLessThanOrEqual(point.metrics.ctr);
+        expect(monteCarlo.bands.p90[i].metrics.ctr).toBeGreaterThanOrEqual(point.metrics.ctr);
+      });
+    });
+
+    it('should derive probabilities from the sampled runs', async () => {
+      const { scenarios } = await generator.generateMonteCarloScenarios(
+        mockTrajectory, confidenceIntervals(), standardScenarios, mockContext, { iterations: 2000, seed: 11 }
+      );
+
+      const optimistic = scenarios.find(s => s.type === 'optimistic')!;
+      const realistic = scenarios.find(s => s.type === 'realistic')!;
+      const pessimistic = scenarios.find(s => s.type === 'pessimistic')!;
+
+      expect(optimistic.probability).toBeLessThan(0.2);
+      expect(pessimistic.probability).toBeLessThan(0.2);
+      expect(optimistic.probability + realistic.probability + pessimistic.probability).toBeCloseTo(1, 5);
+    });
+
+    it('should apply adjustments on top of a custom percentile band', async () => {
+      const { scenarios, monteCarlo } = await generator.generateMonteCarloScenarios(
+        mockTrajectory,
+        confidenceIntervals(),
+        [{ type: 'custom', percentile: 50, adjustments: [{ factor: 'budget', multiplier: 1.5 }] }],
+        mockContext,
+        { iterations: 500, seed: 3 }
+      );
+
+      expect(scenarios[0].trajectory[0].metrics.impressions).toBeCloseTo(
+        monteCarlo.bands.p50[0].metrics.impressions * 1.5,
+        6
+      );
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for Simulation Comparator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareSimulations, ComparableSimulation } from '../SimulationComparator';
+import { StoredSimulationResults } from '../SimulationResultSerializer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+const END = Date.UTC(2024, 0, 10);
+
+const buildTrajectory = (days: number, ctr: number, impressions: number) =>
+  Array.from({ length: days }, (_, i) => ({
+    date: START + i * DAY_MS,
+    metrics: { ctr, impressions }
+  }));
+
+const buildResults = (ctr = 0.03, impressions = 1000): StoredSimulationResults => ({
+  trajectories: buildTrajectory(10, ctr, impressions).map(point => ({ ...point, confidence: 0.8 })),
+  scenarios: [
+    { type: 'optimistic', probability: 0.2, trajectory: buildTrajectory(10, ctr * 1.2, impressions) },
+    { type: 'pessimistic', probability: 0.2, trajectory: buildTrajectory(10, ctr * 0.8, impressions) }
+  ],
+  risks: [
+    {
+      type: 'performance_dip',
+      severity: 'medium',
+      probability: 0.4,
+      description: 'CTR drops below target',
+      timeframe: { start: START, end: START + 3 * DAY_MS }
+    }
+  ],
+  recommendations: [
+    {
+      id: 'rec_1',
+      type: 'creative_refresh',
+      priority: 1,
+      impact_estimate: { metric: 'ctr', improvement: 0.1, confidence: 0.6 },
+      implementation: { description: 'Rotate creatives', steps: ['Pause ad A'], effort: 'low', timeline: '2 days' }
+    }
+  ]
+});
+
+const buildSimulation = (
+  id: string,
+  createdAt: number,
+  overrides: Partial<ComparableSimulation> = {}
+): ComparableSimulation => ({
+  _id: id as ComparableSimulation['_id'],
+  createdAt,
+  config: {
+    timeframe: { startDate: START, endDate: END, granularity: 'daily' },
+    metrics: [{ type: 'ctr', weight: 1 }],
+    scenarios: ['optimistic', 'pessimistic'],
+    externalDataSources: ['google_trends']
+  },
+  modelMetadata: {
+    primaryModel: 'Ensemble',
+    modelVersions: { openai: 'gpt-4', baseline: '1.0.0' },
+    processingTime: 1500,
+    dataQuality: { completeness: 0.9, accuracy: 0.8, freshness: 0.7 }
+  },
+  results: buildResults(),
+  ...overrides
+});
+
+describe('compareSimulations', () => {
+  it('should diff against the oldest simulation', () => {
+    const comparison = compareSimulations([
+      buildSimulation('sim_new', START + 2000),
+      buildSimulation('sim_old', START + 1000)
+    ]);
+
+    expect(comparison.baselineId).toBe('sim_old');
+    expect(comparison.simulations.map(s => s.simulationId)).toEqual(['sim_old', 'sim_new']);
+    expect(comparison.diffs.map(diff => diff.simulationId)).toEqual(['sim_new']);
+  });
+
+  it('should report no differences between identical runs', () => {
+    const [diff] = compareSimulations([
+      buildSimulation('sim_1', START),
+      buildSimulation('sim_2', START + 1000)
+    ]).diffs;
+
+    expect(diff.configChanges).toEqual([]);
+    expect(diff.changedSections).toEqual([]);
+    expect(diff.scenarios).toEqual([]);
+    expect(diff.risks).toEqual([]);
+    expect(diff.recommendations).toEqual([]);
+  });
+
+  it('should overlay trajectories by date', () => {
+    const shorter = buildResults(0.04);
+    shorter.trajectories = shorter.trajectories.slice(0, 5);
+
+    const { trajectories } = compareSimulations([
+      buildSimulation('sim_1', START),
+      buildSimulation('sim_2', START + 1000, { results: shorter })
+    ]);
+
+    expect(trajectories.metrics).toEqual(['ctr', 'impressions']);
+    expect(trajectories.points).toHaveLength(10);
+    expect(trajectories.points[0].values).toEqual({
+      sim_1: { ctr: 0.03, impressions: 1000 },
+      sim_2: { ctr: 0.04, impressions: 1000 }
+    });
+    expect(trajectories.points[9].values).not.toHaveProperty('sim_2');
+  });
+
+  it('should diff scenarios, risks and recommendations', () => {
+    const results = buildResults(0.033, 1000);
+    results.scenarios = [
+      results.scenarios[0],
+      { type: 'custom', name: 'Facebook cut', probability: 0.2, trajectory: buildTrajectory(10, 0.02, 800) }
+    ];
+    results.risks[0] = { ...results.risks[0], severity: 'high', probability: 0.6 };
+    results.recommendations[0] = { ...results.recommendations[0], priority: 2 };
+
+    const [diff] = compareSimulations([
+      buildSimulation('sim_1', START),
+      buildSimulation('sim_2', START + 1000, { results })
+    ]).diffs;
+
+    expect(diff.metricDeltas.find(delta => delta.metric === 'ctr')?.relativeChange).toBeCloseTo(0.1, 5);
+    expect(diff.scenarios).toEqual([
+      { key: 'optimistic', change: 'changed', details: ['ctr +10.0%'] },
+      { key: 'pessimistic', change: 'removed', details: [] },
+      { key: 'Facebook cut', change: 'added', details: [] }
+    ]);
+    expect(diff.risks).toEqual([
+      { key: 'performance_dip', change: 'changed', details: ['severity medium → high', 'probability 40% → 60%'] }
+    ]);
+    expect(diff.recommendations).toEqual([
+      { key: 'creative_refresh (ctr)', change: 'changed', details: ['priority 1 → 2'] }
+    ]);
+  });
+
+  it('should attribute differences to the config changes that can explain them', () => {
+    const results = buildResults();
+    results.risks = [];
+
+    const [diff] = compareSimulations([
+      buildSimulation('sim_1', START),
+      buildSimulation('sim_2', START + 1000, {
+        config: {
+          timeframe: { startDate: START, endDate: END, granularity: 'daily' },
+          metrics: [{ type: 'ctr', weight: 1 }],
+          scenarios: ['optimistic', 'pessimistic'],
+          externalDataSources: ['google_trends', 'semrush'],
+          monteCarlo: { iterations: 500, seed: 42 }
+        },
+        results
+      })
+    ]).diffs;
+
+    expect(diff.changedSections).toEqual(['risks']);
+    expect(diff.configChanges).toEqual([
+      {
+        field: 'externalDataSources',
+        label: 'External data sources',
+        baseline: 'google_trends',
+        value: 'google_trends, semrush',
+        affects: ['risks']
+      },
+      {
+        field: 'monteCarlo',
+        label: 'Monte Carlo',
+        baseline: 'off',
+        value: '500 iterations, seed 42',
+        affects: []
+      }
+    ]);
+  });
+
+  it('should flag model version changes', () => {
+    const [diff] = compareSimulations([
+      buildSimulation('sim_1', START),
+      buildSimulation('sim_2', START + 1000, {
+        modelMetadata: {
+          primaryModel: 'Ensemble',
+          modelVersions: { openai: 'gpt-4o', baseline: '1.0.0' },
+          processingTime: 1200,
+          dataQuality: { completeness: 0.9, accuracy: 0.8, freshness: 0.7 }
+        },
+        results: buildResults(0.036)
+      })
+    ]).diffs;
+
+    expect(diff.configChanges).toHaveLength(1);
+    expect(diff.configChanges[0]).toMatchObject({
+      field: 'modelVersions',
+      baseline: 'baseline@1.0.0, openai@gpt-4',
+      value: 'baseline@1.0.0, openai@gpt-4o'
+    });
+    expect(diff.configChanges[0].affects).toContain('trajectories');
+  });
+
+  it('should require at least two simulations', () => {
+    expect(() => compareSimulations([buildSimulation('sim_1', START)])).toThrow();
+  });
+});
@@ -6,13 +6,16 @@
 
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
 import { SimulationOrchestrator } from '../SimulationOrchestrator';
+import { ModelRegistry } from '../../ai-models/ModelRegistry';
+import { BaselineForecaster } from '../../ai-models/BaselineForecaster';
 import { 
   SimulationRequest, 
   SimulationResult, 
   SimulationStatus,
   CampaignDataset,
   EnrichedDataset,
-  MarketDataset
+  MarketDataset,
+  PredictionOutput
 } from '../../../../types/simulation';
 
 // Mock the dependencies
@@ -23,12 +26,39 @@ vi.mock('../../errors');
 
 describe('SimulationOrchestrator Integration Tests', () => {
   let orchestrator: SimulationOrchestrator;
+  let modelRegistry: ModelRegistry;
   let mockRequest: SimulationRequest;
   let mockCampaignDataset: CampaignDataset;
   let mockEnrichedDataset: EnrichedDataset;
 
+  const buildPrediction = (modelName: string, ctrBase: number): PredictionOutput => {
+    const trajectories = Array.from({ length: 30 }, (_, i) => ({
+      date: new Date(Date.UTC(2024, 0, 1 + i)),
+      metrics: { ctr: ctrBase - i * 0.0002, impressions: 10000 + i * 50, engagement: 0.05 },
+      confidence: 0.85
+    }));
+
+    return {
+      trajectories,
+      confidence_intervals: trajectories.map(() => ({ lower: 0.02, upper: 0.04, confidence_level: 0.8 })),
+      feature_importance: [{ feature: 'historical_performance', importance: 1, category: 'campaign' }],
+      model_metadata: {
+        model_name: modelName,
+        model_version: '1.0.0',
+        confidence_score: 0.85,
+        processing_time: 100,
+        data_quality: { completeness: 0.9, accuracy: 0.9, freshness: 0.9, consistency: 0.9, overall: 0.9 },
+        feature_count: 1,
+        prediction_horizon: 30
+      }
+    };
+  };
+
   beforeEach(() => {
-    orchestrator = new SimulationOrchestrator();
+    modelRegistry = new ModelRegistry();
+    modelRegistry.register('openai', { predict: vi.fn().mockResolvedValue(buildPrediction('openai', 0.03)) });
+    modelRegistry.register('huggingface', { predict: vi.fn().mockResolvedValue(buildPrediction('huggingface', 0.032)) });
+    orchestrator = new SimulationOrchestrator(modelRegistry);
     
     // Setup mock request
     mockRequest = {
@@ -206,6 +236,12 @@ describe('SimulationOrchestrator Integration Tests', () => {
       expect(result.createdAt).toBeInstanceOf(Date);
       expect(result.completedAt).toBeInstanceOf(Date);
 
+      // Ensemble of the registered predictors, not placeholder values
+      expect(result.trajectories).toHaveLength(30);
+      expect(result.trajectories[0].metrics.ctr).toBeGreaterThan(0.03);
+      expect(result.trajectories[0].metrics.ctr).toBeLessThan(0.032);
+      expect(result.modelMetadata.model_name).toBe('Ensemble');
+
       // Verify dependencies were called
       expect(mockValidator.validate).toHaveBeenCalledWith(mockRequest);
       expect(mockCampaignAggregator.aggregateCampaignData).toHaveBeenCalledWith(mockRequest.campaignId, null);
@@ -216,6 +252,348 @@ describe('SimulationOrchestrator Integration Tests', () => {
       );
     });
 
+    it('should attach seeded Monte Carlo results when requested', async () => {
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation({
+        ...mockRequest,
+        monteCarlo: { iterations: 300, seed: 1234 }
+      });
+
+      expect(result.monteCarlo?.seed).toBe(1234);
+      expect(result.monteCarlo?.iterations).toBe(300);
+      expect(result.monteCarlo?.bands.p50).toHaveLength(30);
+      expect(result.scenarios).toHaveLength(3);
+    });
+
+    it('should resample the forecast to the requested granularity', async () => {
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const weekly = await orchestrator.runSimulation({
+        ...mockRequest,
+        timeframe: { ...mockRequest.timeframe, granularity: 'weekly' }
+      });
+      expect(weekly.trajectories).toHaveLength(5);
+      expect(weekly.trajectories[0].metrics.impressions).toBeGreaterThan(60000);
+
+      const hourly = await orchestrator.runSimulation({
+        ...mockRequest,
+        timeframe: {
+          startDate: new Date('2024-01-01T00:00:00Z'),
+          endDate: new Date('2024-01-03T00:00:00Z'),
+          granularity: 'hourly'
+        }
+      });
+      expect(hourly.trajectories).toHaveLength(48);
+      expect(hourly.scenarios[0].trajectory).toHaveLength(48);
+    });
+
+    it('should forecast a yearly plan month by month', async () => {
+      modelRegistry = new ModelRegistry();
+      modelRegistry.register('baseline', new BaselineForecaster());
+      orchestrator = new SimulationOrchestrator(modelRegistry);
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation({
+        ...mockRequest,
+        timeframe: {
+          startDate: new Date('2024-01-01T00:00:00Z'),
+          endDate: new Date('2024-12-31T00:00:00Z'),
+          granularity: 'monthly'
+        }
+      });
+
+      expect(result.trajectories).toHaveLength(12);
+      expect(new Date(result.trajectories[0].date).getUTCMonth()).toBe(0);
+      expect(new Date(result.trajectories[11].date).getUTCMonth()).toBe(11);
+      expect(result.scenarios[0].trajectory).toHaveLength(12);
+    });
+
+    it('should persist results through the result store under the given simulation id', async () => {
+      const resultStore = { save: vi.fn().mockResolvedValue(undefined) };
+      const convexQuery = vi.fn();
+      orchestrator = new SimulationOrchestrator(modelRegistry, { resultStore, convexQuery });
+
+      const mockCampaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = mockCampaignAggregator;
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest, { simulationId: 'sim_stored' });
+
+      expect(result.id).toBe('sim_stored');
+      expect(resultStore.save).toHaveBeenCalledWith(result);
+      expect(mockCampaignAggregator.aggregateCampaignData).toHaveBeenCalledWith(mockRequest.campaignId, convexQuery);
+      expect(result.modelMetadata.model_versions).toEqual({ openai: '1.0.0', huggingface: '1.0.0' });
+    });
+
+    it('should report stage transitions and partial model failures', async () => {
+      modelRegistry.unregister('huggingface');
+      modelRegistry.register('huggingface', { predict: vi.fn().mockRejectedValue(new Error('Service unavailable')) });
+      const progressReporter = { report: vi.fn().mockResolvedValue(undefined) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { progressReporter });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      await orchestrator.runSimulation(mockRequest, { simulationId: 'sim_progress' });
+
+      const updates = progressReporter.report.mock.calls.map(([update]) => update);
+      const pipeline = updates.filter(u => !u.model).map(u => `${u.stage}:${u.status}`);
+      expect(pipeline).toEqual([
+        'data_aggregation:running', 'data_aggregation:completed',
+        'market_enrichment:running', 'market_enrichment:completed',
+        'model_prediction:running', 'model_prediction:completed',
+        'ensemble:running', 'ensemble:completed',
+        'scenarios:running', 'scenarios:completed',
+        'risks:running', 'risks:completed',
+        'recommendations:running', 'recommendations:completed'
+      ]);
+      expect(updates.every(u => u.simulationId === 'sim_progress' && u.timestamp instanceof Date)).toBe(true);
+
+      const modelStage = updates.find(u => u.stage === 'model_prediction' && !u.model && u.status === 'completed');
+      expect(modelStage?.error).toBe('huggingface: Service unavailable');
+      expect(updates).toContainEqual(expect.objectContaining({ model: 'openai', status: 'completed' }));
+      expect(updates).toContainEqual(expect.objectContaining({ model: 'huggingface', status: 'failed', error: 'Service unavailable' }));
+    });
+
+    it('should keep processing when progress reporting fails', async () => {
+      const progressReporter = { report: vi.fn().mockRejectedValue(new Error('Convex unavailable')) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { progressReporter });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest);
+
+      expect(result.status).toBe('completed');
+    });
+
+    it('should meter every predictor call, including failed ones', async () => {
+      modelRegistry.unregister('openai');
+      modelRegistry.register('openai', {
+        predict: vi.fn().mockResolvedValue({
+          ...buildPrediction('openai-gpt4o', 0.03),
+          model_metadata: {
+            ...buildPrediction('openai-gpt4o', 0.03).model_metadata,
+            model_version: 'gpt-4o-2024-08-06',
+            token_usage: { input_tokens: 2000, output_tokens: 1000 }
+          }
+        })
+      });
+      modelRegistry.unregister('huggingface');
+      const unparseable = Object.assign(new Error('Invalid GPT response format'), {
+        context: { model: 'gpt-4o-mini', tokenUsage: { input_tokens: 1000, output_tokens: 500 } }
+      });
+      modelRegistry.register('huggingface', { predict: vi.fn().mockRejectedValue(unparseable) });
+      const usageRecorder = { record: vi.fn().mockResolvedValue(undefined) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { usageRecorder });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      await orchestrator.runSimulation(mockRequest, { simulationId: 'sim_usage', organizationId: 'org_usage' });
+
+      expect(usageRecorder.record).toHaveBeenCalledTimes(2);
+      expect(usageRecorder.record).toHaveBeenCalledWith(expect.objectContaining({
+        simulationId: 'sim_usage',
+        organizationId: 'org_usage',
+        modelName: 'openai',
+        model: 'gpt-4o-2024-08-06',
+        inputTokens: 2000,
+        outputTokens: 1000,
+        estimatedCost: 0.015,
+        status: 'success'
+      }));
+      expect(usageRecorder.record).toHaveBeenCalledWith(expect.objectContaining({
+        modelName: 'huggingface',
+        model: 'gpt-4o-mini',
+        inputTokens: 1000,
+        outputTokens: 500,
+        status: 'failed',
+        error: 'Invalid GPT response format'
+      }));
+      const [[openaiCall]] = usageRecorder.record.mock.calls;
+      expect(openaiCall.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep processing when usage metering fails', async () => {
+      const usageRecorder = { record: vi.fn().mockRejectedValue(new Error('Convex unavailable')) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { usageRecorder });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest);
+
+      expect(result.status).toBe('completed');
+      expect(usageRecorder.record).toHaveBeenCalledTimes(2);
+    });
+
+    it('should weight models by learned accuracy and record each model forecast', async () => {
+      const predictionRecorder = { record: vi.fn().mockResolvedValue(undefined) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { predictionRecorder });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest, {
+        simulationId: 'sim_learned',
+        learnedWeights: [
+          { category: 'pr', metric: '*', horizon: '*', weights: { openai: 0.8, huggingface: 0.2 }, accuracy: [] }
+        ]
+      });
+
+      expect(result.modelMetadata.weighting_strategy).toBe('performance_based');
+      expect(result.modelMetadata.ensemble_weights).toEqual({ openai: 0.8, huggingface: 0.2 });
+      expect(result.trajectories[0].metrics.ctr).toBeCloseTo(0.8 * 0.03 + 0.2 * 0.032, 6);
+      expect(predictionRecorder.record).toHaveBeenCalledWith('sim_learned', [
+        expect.objectContaining({ modelName: 'openai' }),
+        expect.objectContaining({ modelName: 'huggingface' })
+      ]);
+    });
+
+    it('should keep processing when recording model forecasts fails', async () => {
+      const predictionRecorder = { record: vi.fn().mockRejectedValue(new Error('Convex unavailable')) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { predictionRecorder });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest);
+
+      expect(result.status).toBe('completed');
+      expect(result.modelMetadata.weighting_strategy).toBe('dynamic');
+    });
+
+    it('should snapshot the enriched inputs and record prompt versions', async () => {
+      modelRegistry.unregister('openai');
+      modelRegistry.register('openai', {
+        predict: vi.fn().mockResolvedValue({
+          ...buildPrediction('openai', 0.03),
+          model_metadata: {
+            ...buildPrediction('openai', 0.03).model_metadata,
+            prompt_version: '1.0.0',
+            prompt_template: 'campaign-forecast'
+          }
+        })
+      });
+      const snapshotStore = { save: vi.fn().mockResolvedValue(undefined) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { snapshotStore });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = {
+        enrichCampaignData: vi.fn().mockResolvedValue({
+          dataset: mockEnrichedDataset,
+          enrichmentSummary: { sourcesUsed: ['campaign_data', 'market_data'], fallbacksUsed: [] }
+        })
+      };
+
+      const result = await orchestrator.runSimulation(mockRequest, { simulationId: 'sim_snapshot' });
+
+      expect(snapshotStore.save).toHaveBeenCalledTimes(1);
+      expect(snapshotStore.save).toHaveBeenCalledWith({
+        simulationId: 'sim_snapshot',
+        dataset: mockEnrichedDataset,
+        sourcesUsed: ['campaign_data', 'market_data'],
+        capturedAt: expect.any(Date)
+      });
+      expect(result.modelMetadata.prompt_versions).toEqual({ openai: '1.0.0' });
+      expect(result.modelMetadata.model_versions).toMatchObject({ 'openai.prompt': 'campaign-forecast@1.0.0' });
+    });
+
+    it('should replay a recorded dataset without aggregating or enriching', async () => {
+      const snapshotStore = { save: vi.fn().mockResolvedValue(undefined) };
+      const progressReporter = { report: vi.fn().mockResolvedValue(undefined) };
+      orchestrator = new SimulationOrchestrator(modelRegistry, { snapshotStore, progressReporter });
+
+      const mockCampaignAggregator = { aggregateCampaignData: vi.fn() };
+      const mockEnrichmentService = { enrichCampaignData: vi.fn() };
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = mockCampaignAggregator;
+      (orchestrator as any).enrichmentService = mockEnrichmentService;
+
+      const predict = modelRegistry.get('openai')!.predictor.predict as Mock;
+      const result = await orchestrator.runSimulation(mockRequest, { replayDataset: mockEnrichedDataset });
+
+      expect(result.status).toBe('completed');
+      expect(predict).toHaveBeenCalledWith({
+        ...mockEnrichedDataset,
+        forecastWindow: { start: mockRequest.timeframe.startDate, end: mockRequest.timeframe.endDate }
+      });
+      expect(mockCampaignAggregator.aggregateCampaignData).not.toHaveBeenCalled();
+      expect(mockEnrichmentService.enrichCampaignData).not.toHaveBeenCalled();
+      expect(snapshotStore.save).not.toHaveBeenCalled();
+      expect(progressReporter.report).toHaveBeenCalledWith(expect.objectContaining({
+        stage: 'data_aggregation',
+        status: 'completed',
+        error: 'Replayed from input snapshot'
+      }));
+    });
+
+    it('should hand organization risk settings to the risk detector', async () => {
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      const detectRisks = vi.spyOn((orchestrator as any).riskDetector, 'detectRisks');
+      const rule = {
+        id: 'rule_1',
+        name: 'CTR drops >20% week-over-week',
+        metric: 'ctr',
+        condition: { kind: 'period_change' as const, direction: 'decrease' as const, threshold: 0.2 },
+        severity: 'high' as const,
+        lookbackDays: 7
+      };
+
+      await orchestrator.runSimulation(mockRequest, {
+        replayDataset: mockEnrichedDataset,
+        riskSettings: { thresholds: { confidenceThreshold: 0.8 }, rules: [rule] }
+      });
+
+      expect(detectRisks).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.anything(),
+        { confidenceThreshold: 0.8, rules: [rule] }
+      );
+    });
+
+    it('should use the remaining models when one predictor fails', async () => {
+      modelRegistry.unregister('huggingface');
+      modelRegistry.register('huggingface', { predict: vi.fn().mockRejectedValue(new Error('Request timeout')) });
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      const result = await orchestrator.runSimulation(mockRequest);
+
+      expect(result.trajectories).toHaveLength(30);
+      expect(result.trajectories[0].metrics.ctr).toBeCloseTo(0.03, 5);
+    });
+
+    it('should reject when no predictor produces a result', async () => {
+      orchestrator = new SimulationOrchestrator(new ModelRegistry());
+
+      (orchestrator as any).validator = { validate: vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [], score: 1 }) };
+      (orchestrator as any).campaignAggregator = { aggregateCampaignData: vi.fn().mockResolvedValue(mockCampaignDataset) };
+      (orchestrator as any).enrichmentService = { enrichCampaignData: vi.fn().mockResolvedValue({ dataset: mockEnrichedDataset }) };
+
+      // The errors module is mocked, so createSimulationError yields undefined
+      await expect(orchestrator.runSimulation(mockRequest)).rejects.toBeUndefined();
+    });
+
     it('should handle validation errors gracefully', async () => {
       const mockValidator = {
         validate: vi.fn().mockResolvedValue({
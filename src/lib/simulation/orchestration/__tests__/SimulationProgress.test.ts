@@ -0,0 +1,72 @@
+/**
+ * Unit tests for Simulation Progress estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateStageProgress, StageRecord } from '../SimulationProgress';
+
+const START = 1_000_000;
+
+describe('estimateStageProgress', () => {
+  it('should fall back to the queue estimate before any stage finishes', () => {
+    const estimate = estimateStageProgress([], START, 60000, START + 6000);
+
+    expect(estimate.percentage).toBe(0);
+    expect(estimate.remainingMs).toBe(60000);
+    expect(estimate.currentStep).toBe('Aggregating campaign data');
+  });
+
+  it('should calibrate the remaining time on finished stages', () => {
+    // Aggregation and enrichment (25% of the work) took 5 seconds
+    const stages: StageRecord[] = [
+      { stage: 'data_aggregation', status: 'completed', startedAt: START, completedAt: START + 2000 },
+      { stage: 'market_enrichment', status: 'completed', startedAt: START + 2000, completedAt: START + 5000 }
+    ];
+
+    const estimate = estimateStageProgress(stages, START, 60000, START + 5000);
+
+    expect(estimate.percentage).toBeCloseTo(25, 5);
+    expect(estimate.remainingMs).toBe(15000);
+    expect(estimate.currentStep).toBe('Running prediction models');
+  });
+
+  it('should count the running stage by its elapsed share', () => {
+    const stages: StageRecord[] = [
+      { stage: 'data_aggregation', status: 'completed', startedAt: START, completedAt: START + 2000 },
+      { stage: 'market_enrichment', status: 'completed', startedAt: START + 2000, completedAt: START + 5000 },
+      { stage: 'model_prediction', status: 'running', startedAt: START + 5000 },
+      { stage: 'model_prediction', model: 'openai', status: 'running', startedAt: START + 5000 }
+    ];
+
+    // Models are expected to take 9 seconds at the calibrated rate; 3 have passed
+    const estimate = estimateStageProgress(stages, START, 60000, START + 8000);
+
+    expect(estimate.percentage).toBeCloseTo(40, 5);
+    expect(estimate.remainingMs).toBe(12000);
+    expect(estimate.currentStep).toBe('Running prediction models');
+  });
+
+  it('should keep a stage that overruns its estimate below completion', () => {
+    const stages: StageRecord[] = [
+      { stage: 'data_aggregation', status: 'completed', startedAt: START, completedAt: START + 1000 },
+      { stage: 'market_enrichment', status: 'running', startedAt: START + 1000 }
+    ];
+
+    const estimate = estimateStageProgress(stages, START, 60000, START + 120000);
+
+    expect(estimate.percentage).toBeLessThan(25);
+    expect(estimate.remainingMs).toBe(7500);
+  });
+
+  it('should treat failed stages as finished', () => {
+    const stages: StageRecord[] = [
+      { stage: 'data_aggregation', status: 'completed', startedAt: START, completedAt: START + 1000 },
+      { stage: 'market_enrichment', status: 'failed', startedAt: START + 1000, completedAt: START + 2500, error: 'SEMrush timeout' }
+    ];
+
+    const estimate = estimateStageProgress(stages, START, 60000, START + 2500);
+
+    expect(estimate.percentage).toBeCloseTo(25, 5);
+    expect(estimate.remainingMs).toBe(7500);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Unit tests for Simulation Result Serializer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toSimulationRequest,
+  serializeSimulationResult,
+  serializeDataset,
+  deserializeDataset,
+  SimulationRecord
+} from '../SimulationResultSerializer';
+import { EnrichedDataset, SimulationResult, TrajectoryPoint } from '../../../../types/simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+const END = Date.UTC(2024, 0, 10);
+
+const buildRecord = (overrides: Partial<SimulationRecord['config']> = {}): SimulationRecord => ({
+  _id: 'sim_1' as SimulationRecord['_id'],
+  _creationTime: START,
+  campaignId: 'campaign_1' as SimulationRecord['campaignId'],
+  organizationId: 'org_1' as SimulationRecord['organizationId'],
+  createdBy: 'user_1' as SimulationRecord['createdBy'],
+  config: {
+    timeframe: { startDate: START, endDate: END, granularity: 'daily' },
+    metrics: [{ type: 'ctr', weight: 1 }],
+    scenarios: ['optimistic', 'pessimistic'],
+    externalDataSources: ['google_trends'],
+    ...overrides
+  },
+  status: 'processing',
+  createdAt: START,
+  updatedAt: START
+});
+
+// 15 daily points, the last 5 past the simulated timeframe
+const buildTrajectory = (): TrajectoryPoint[] =>
+  Array.from({ length: 15 }, (_, i) => ({
+    date: new Date(START + i * DAY_MS),
+    metrics: { ctr: 0.03, impressions: 1000 },
+    confidence: 0.8
+  }));
+
+const buildResult = (): SimulationResult => ({
+  id: 'sim_1',
+  status: 'completed',
+  trajectories: buildTrajectory(),
+  scenarios: [
+    {
+      type: 'custom',
+      name: 'Facebook cut',
+      probability: 0.2,
+      trajectory: buildTrajectory(),
+      key_factors: ['facebook budget -30%'],
+      confidence: 0.7
+    }
+  ],
+  risks: [
+    {
+      type: 'performance_dip',
+      severity: 'high',
+      probability: 0.6,
+      impact: 0.4,
+      timeframe: { start: new Date(START), end: new Date(START + 3 * DAY_MS) },
+      description: 'CTR drops below target',
+      recommendations: ['Refresh creatives'],
+      confidence: 0.7
+    }
+  ],
+  recommendations: [
+    {
+      id: 'rec_1',
+      type: 'creative_refresh',
+      priority: 1,
+      impact_estimate: { metric: 'ctr', improvement: 0.1, confidence: 0.6 },
+      implementation: { description: 'Rotate creatives', steps: ['Pause ad A'], effort: 'low', timeline: '2 days' },
+      simulation_preview: buildTrajectory()
+    }
+  ],
+  modelMetadata: {
+    model_name: 'Ensemble',
+    model_version: '1.0.0',
+    confidence_score: 0.8,
+    processing_time: 1500,
+    data_quality: { completeness: 0.9, accuracy: 0.8, freshness: 0.7, consistency: 0.9, overall: 0.85 },
+    feature_count: 3,
+    prediction_horizon: 15,
+    model_versions: { openai: 'gpt-4', baseline: '1.0.0' }
+  },
+  createdAt: new Date(START),
+  completedAt: new Date(START + 1000)
+});
+
+describe('toSimulationRequest', () => {
+  it('should convert a stored configuration into an orchestrator request', () => {
+    const request = toSimulationRequest(buildRecord({ monteCarlo: { iterations: 500, seed: 42 } }));
+
+    expect(request.campaignId).toBe('campaign_1');
+    expect(request.timeframe.startDate).toEqual(new Date(START));
+    expect(request.timeframe.endDate).toEqual(new Date(END));
+    expect(request.scenarios).toEqual([{ type: 'optimistic' }, { type: 'pessimistic' }]);
+    expect(request.externalDataSources.map(s => s.source)).toEqual(['google_trends']);
+    expect(request.monteCarlo).toEqual({ iterations: 500, seed: 42 });
+  });
+
+  it('should turn custom scenarios into dated adjustments', () => {
+    const request = toSimulationRequest(buildRecord({
+      customScenarios: [{
+        name: 'Facebook cut',
+        adjustments: [{
+          factor: 'budget',
+          multiplier: 0.7,
+          startDate: START + 2 * DAY_MS,
+          endDate: END,
+          channel: 'facebook'
+        }]
+      }]
+    }));
+
+    const custom = request.scenarios.find(s => s.type === 'custom');
+    expect(custom?.name).toBe('Facebook cut');
+    expect(custom?.adjustments?.[0]).toMatchObject({
+      factor: 'budget',
+      multiplier: 0.7,
+      channel: 'facebook',
+      timeframe: { start: new Date(START + 2 * DAY_MS), end: new Date(END) }
+    });
+  });
+});
+
+describe('serializeSimulationResult', () => {
+  it('should keep only points inside the simulated timeframe', () => {
+    const { results } = serializeSimulationResult(buildResult(), { startDate: START, endDate: END });
+
+    expect(results.trajectories).toHaveLength(10);
+    expect(results.trajectories[0]).toEqual({ date: START, metrics: { ctr: 0.03, impressions: 1000 }, confidence: 0.8 });
+    expect(results.scenarios[0].trajectory).toHaveLength(10);
+  });
+
+  it('should drop fields the simulation document does not store', () => {
+    const { results } = serializeSimulationResult(buildResult(), { startDate: START, endDate: END });
+
+    expect(results.scenarios[0]).toEqual({
+      type: 'custom',
+      name: 'Facebook cut',
+      probability: 0.2,
+      trajectory: expect.any(Array)
+    });
+    expect(results.scenarios[0].trajectory[0]).not.toHaveProperty('confidence');
+    expect(results.risks[0]).toEqual({
+      type: 'performance_dip',
+      severity: 'high',
+      probability: 0.6,
+      description: 'CTR drops below target',
+      timeframe: { start: START, end: START + 3 * DAY_MS }
+    });
+    expect(results.recommendations[0]).not.toHaveProperty('simulation_preview');
+    expect(results).not.toHaveProperty('monteCarlo');
+  });
+
+  it('should keep the budget move of reallocation recommendations', () => {
+    const result = buildResult();
+    result.recommendations.push({
+      ...result.recommendations[0],
+      id: 'budget_facebook_to_google',
+      type: 'budget_reallocation',
+      reallocation: { from: 'facebook', to: 'google', amount: 300 }
+    });
+
+    const { results } = serializeSimulationResult(result, { startDate: START, endDate: END });
+
+    expect(results.recommendations[0]).not.toHaveProperty('reallocation');
+    expect(results.recommendations[1].reallocation).toEqual({ from: 'facebook', to: 'google', amount: 300 });
+  });
+
+  it('should record model versions and data quality', () => {
+    const { modelMetadata } = serializeSimulationResult(buildResult(), { startDate: START, endDate: END });
+
+    expect(modelMetadata).toEqual({
+      primaryModel: 'Ensemble',
+      modelVersions: { openai: 'gpt-4', baseline: '1.0.0' },
+      processingTime: 1500,
+      dataQuality: { completeness: 0.9, accuracy: 0.8, freshness: 0.7 }
+    });
+  });
+
+  it('should record prompt versions when prompt-driven models ran', () => {
+    const result = buildResult();
+    result.modelMetadata.prompt_versions = { openai: '1.0.0' };
+
+    const { modelMetadata } = serializeSimulationResult(result, { startDate: START, endDate: END });
+
+    expect(modelMetadata.promptVersions).toEqual({ openai: '1.0.0' });
+  });
+
+  it('should record the ensemble weights the simulation used', () => {
+    const result = buildResult();
+    result.modelMetadata.ensemble_weights = { openai: 0.7, baseline: 0.3 };
+    result.modelMetadata.segment_ensemble_weights = [
+      { metric: 'ctr', horizon: 'short', weights: { openai: 0.4, baseline: 0.6 } }
+    ];
+    result.modelMetadata.weighting_strategy = 'performance_based';
+
+    const { modelMetadata } = serializeSimulationResult(result, { startDate: START, endDate: END });
+
+    expect(modelMetadata.ensembleWeights).toEqual({ openai: 0.7, baseline: 0.3 });
+    expect(modelMetadata.segmentEnsembleWeights).toEqual([
+      { metric: 'ctr', horizon: 'short', weights: { openai: 0.4, baseline: 0.6 } }
+    ]);
+    expect(modelMetadata.weightingStrategy).toBe('performance_based');
+  });
+
+  it('should serialize Monte Carlo bands and distributions', () => {
+    const result = buildResult();
+    result.monteCarlo = {
+      seed: 7,
+      iterations: 100,
+      primaryMetric: 'ctr',
+      bands: { p10: buildTrajectory(), p50: buildTrajectory(), p90: buildTrajectory() },
+      kpiDistributions: {
+        ctr: { mean: 0.03, stdDev: 0.01, min: 0.01, max: 0.05, p10: 0.02, p50: 0.03, p90: 0.04, histogram: [{ lower: 0.01, upper: 0.05, count: 100 }] }
+      }
+    };
+
+    const { results } = serializeSimulationResult(result, { startDate: START, endDate: END });
+
+    expect(results.monteCarlo?.seed).toBe(7);
+    expect(results.monteCarlo?.bands.p50).toHaveLength(10);
+    expect(results.monteCarlo?.bands.p50[0]).toEqual({ date: START, metrics: { ctr: 0.03, impressions: 1000 } });
+    expect(results.monteCarlo?.kpiDistributions.ctr.histogram).toEqual([{ lower: 0.01, upper: 0.05, count: 100 }]);
+  });
+
+  it('should store KPI attainment without the fields of unsimulated targets', () => {
+    const result = buildResult();
+    result.kpiAttainment = [
+      { source: 'kpi', name: 'reach', metric: 'reach', timeframe: 'weekly', target: 5000, expected: 5400, probability: 0.78, expectedShortfall: 120 },
+      { source: 'kpi', name: 'roi', timeframe: 'campaign', target: 300 }
+    ];
+
+    const { results } = serializeSimulationResult(result, { startDate: START, endDate: END });
+
+    expect(results.kpiAttainment?.[0]).toEqual(result.kpiAttainment[0]);
+    expect(results.kpiAttainment?.[1]).toEqual({ source: 'kpi', name: 'roi', timeframe: 'campaign', target: 300 });
+    expect(Object.keys(results.kpiAttainment![1])).not.toContain('probability');
+  });
+});
+
+describe('serializeDataset', () => {
+  it('should restore dates when a stored dataset is read back', () => {
+    const dataset = {
+      historicalPerformance: [{ date: new Date(START), metric: 'ctr', value: 0.03 }],
+      externalData: [{ source: 'google_trends', type: 'trend_data', data: { label: '2024 trend' }, timestamp: new Date(END), reliability: 0.9 }]
+    } as unknown as EnrichedDataset;
+
+    const restored = deserializeDataset(serializeDataset(dataset));
+
+    expect(restored).toEqual(dataset);
+    expect(restored.historicalPerformance[0].date).toBeInstanceOf(Date);
+  });
+});
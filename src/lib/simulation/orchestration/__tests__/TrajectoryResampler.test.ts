@@ -0,0 +1,113 @@
+/**
+ * Unit tests for Trajectory Resampler
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hourlyProfile, resampleTrajectory, timeframeLength } from '../TrajectoryResampler';
+import { ConfidenceInterval, TrajectoryPoint } from '../../../../types/simulation';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const buildDaily = (days: number, start = Date.UTC(2024, 0, 1)): TrajectoryPoint[] =>
+  Array.from({ length: days }, (_, day) => ({
+    date: new Date(start + day * 24 * HOUR_MS),
+    metrics: { impressions: 1000 + day, ctr: 0.02 + day * 0.001, roi: day * 0.1 },
+    confidence: 0.8
+  }));
+
+const buildIntervals = (count: number): ConfidenceInterval[] =>
+  Array.from({ length: count }, (_, index) => ({
+    lower: index,
+    upper: index + 2,
+    confidence_level: 0.95
+  }));
+
+describe('resampleTrajectory', () => {
+  it('should leave a daily forecast untouched', () => {
+    const trajectory = buildDaily(10);
+    const intervals = buildIntervals(10);
+
+    const resampled = resampleTrajectory(trajectory, intervals, 'daily');
+
+    expect(resampled.trajectory).toBe(trajectory);
+    expect(resampled.confidenceIntervals).toBe(intervals);
+  });
+
+  it('should sum volumes, average rates and keep running values per week', () => {
+    const { trajectory, confidenceIntervals } = resampleTrajectory(buildDaily(10), buildIntervals(10), 'weekly');
+
+    expect(trajectory).toHaveLength(2);
+    expect(trajectory[0].date).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    expect(trajectory[1].date).toEqual(new Date(Date.UTC(2024, 0, 8)));
+    expect(trajectory[0].metrics.impressions).toBe(7021);
+    expect(trajectory[0].metrics.ctr).toBeCloseTo(0.023);
+    expect(trajectory[0].metrics.roi).toBeCloseTo(0.6);
+    expect(trajectory[1].metrics.impressions).toBe(3024);
+    expect(confidenceIntervals[0]).toEqual({ lower: 3, upper: 5, confidence_level: 0.95 });
+  });
+
+  it('should bucket a forecast by calendar month', () => {
+    const { trajectory } = resampleTrajectory(buildDaily(60, Date.UTC(2024, 0, 20)), [], 'monthly');
+
+    expect(trajectory.map(point => new Date(point.date).getUTCMonth())).toEqual([0, 1, 2]);
+    // 12 days left in January, all 29 of February and 19 days of March
+    expect(trajectory[0].metrics.impressions).toBe(12 * 1000 + 66);
+    expect(trajectory[1].metrics.impressions).toBe(29 * 1000 + (12 + 40) * 29 / 2);
+  });
+
+  it('should split daily volume over the audience peak hours and stop at the window end', () => {
+    const { trajectory, confidenceIntervals } = resampleTrajectory(
+      buildDaily(3),
+      buildIntervals(3),
+      'hourly',
+      { windowMs: 36 * HOUR_MS, peakHours: [18, 19, 20, 21] }
+    );
+
+    expect(trajectory).toHaveLength(36);
+    expect(confidenceIntervals).toHaveLength(36);
+    expect(confidenceIntervals[30]).toEqual(buildIntervals(3)[1]);
+
+    const firstDay = trajectory.slice(0, 24);
+    const dayVolume = firstDay.reduce((sum, point) => sum + point.metrics.impressions, 0);
+    expect(dayVolume).toBeCloseTo(1000);
+
+    const peakHour = firstDay.find(point => new Date(point.date).getHours() === 19)!;
+    const quietHour = firstDay.find(point => new Date(point.date).getHours() === 3)!;
+    expect(peakHour.metrics.impressions).toBeCloseTo(2 * quietHour.metrics.impressions);
+    expect(firstDay.every(point => point.metrics.ctr === 0.02)).toBe(true);
+  });
+
+  it('should start the hourly points at the window start', () => {
+    const windowStart = new Date(Date.UTC(2024, 0, 1, 14));
+    const { trajectory, confidenceIntervals } = resampleTrajectory(
+      buildDaily(3),
+      buildIntervals(3),
+      'hourly',
+      { windowStart, windowMs: 24 * HOUR_MS }
+    );
+
+    expect(trajectory).toHaveLength(24);
+    expect(trajectory[0].date).toEqual(windowStart);
+    expect(trajectory[23].date).toEqual(new Date(Date.UTC(2024, 0, 2, 13)));
+    // Hours after midnight take the second day's forecast
+    expect(trajectory[9].metrics.ctr).toBe(0.02);
+    expect(trajectory[10].metrics.ctr).toBeCloseTo(0.021);
+    expect(confidenceIntervals[10]).toEqual(buildIntervals(3)[1]);
+  });
+});
+
+describe('hourlyProfile', () => {
+  it('should spread the day evenly when peak hours are unknown', () => {
+    expect(hourlyProfile()).toEqual(Array(24).fill(1 / 24));
+  });
+});
+
+describe('timeframeLength', () => {
+  it('should count started hours for hourly and started days otherwise', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const end = start + 47.5 * HOUR_MS;
+
+    expect(timeframeLength('hourly', start, end)).toBe(48);
+    expect(timeframeLength('daily', start, end)).toBe(2);
+  });
+});
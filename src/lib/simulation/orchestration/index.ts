@@ -7,15 +7,219 @@
 export { SimulationOrchestrator } from './SimulationOrchestrator';
 export { ScenarioGenerator } from './ScenarioGenerator';
 export { RiskDetector } from './RiskDetector';
+export {
+  MonteCarloSampler,
+  MonteCarloSampleSet,
+  createSeededRandom,
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  MAX_MONTE_CARLO_ITERATIONS
+} from './MonteCarloSampler';
+export {
+  toSimulationRequest,
+  serializeSimulationResult,
+  serializeDataset,
+  deserializeDataset
+} from './SimulationResultSerializer';
+export {
+  SIMULATION_STAGES,
+  estimateStageProgress
+} from './SimulationProgress';
+export {
+  compareSimulations,
+  overlayTrajectories,
+  riskKey
+} from './SimulationComparator';
+export {
+  detectForecastChanges
+} from './ForecastChangeDetector';
+export {
+  diffCampaignInputs,
+  mergeCampaignInputChanges
+} from './CampaignInputDiff';
+export {
+  deriveMetrics,
+  isDerivedMetric,
+  DERIVED_METRICS
+} from './DerivedMetrics';
+
+export {
+  resampleTrajectory,
+  hourlyProfile,
+  timeframeLength,
+  TIMEFRAME_LIMITS,
+  POINT_LABEL_FORMATS
+} from './TrajectoryResampler';
+export {
+  forecastBudgetPacing,
+  TOTAL_SCOPE
+} from './BudgetPacingForecaster';
+export {
+  evaluateRiskRules,
+  getMetricValue,
+  RISK_RULE_METRICS,
+  MAX_RULE_LOOKBACK_DAYS
+} from './RiskRuleEngine';
+export {
+  measureRecommendationOutcome,
+  summarizeRecommendationTypes,
+  RECOMMENDATION_STATUS_TRANSITIONS
+} from './RecommendationOutcomeTracker';
+export {
+  planBudgetReallocation,
+  planBudgetAllocation,
+  revertBudgetReallocation
+} from './BudgetReallocationPlanner';
+export {
+  fitResponseCurves,
+  optimizeBudgetAllocation,
+  toResponseMetrics,
+  RESPONSE_METRICS,
+  KPI_RESPONSE_METRICS,
+  CHANNEL_BENCHMARKS
+} from './BudgetAllocationOptimizer';
+export {
+  assessKpiAttainment,
+  monteCarloOutcomes,
+  scenarioOutcomes
+} from './KpiAttainmentAnalyzer';
+export {
+  solveGoalSeek,
+  lognormalOutcome,
+  normalCdf,
+  inverseNormalCdf,
+  GOAL_SEEK_METRICS
+} from './GoalSeekSolver';
+export { RecommendationImpactEstimator } from './RecommendationImpactEstimator';
 
 export type {
   SimulationQueue,
-  SimulationProcessingOptions
+  SimulationProcessingOptions,
+  SimulationResultStore,
+  SimulationProgressReporter,
+  SimulationSnapshotStore,
+  SimulationOrchestratorDependencies,
+  ConvexQueryFunction
 } from './SimulationOrchestrator';
 
+export type {
+  SimulationRecord,
+  SerializedSimulationResult
+} from './SimulationResultSerializer';
+
+export type {
+  SimulationStageDefinition,
+  StageRecord,
+  StageProgressEstimate
+} from './SimulationProgress';
+
+export type {
+  ComparableSimulation,
+  ComparisonSection,
+  ComparisonConfigField,
+  ConfigChange,
+  MetricDelta,
+  ComparisonItemDiff,
+  SimulationDiff,
+  SimulationComparison,
+  TrajectoryOverlay
+} from './SimulationComparator';
+
+export type {
+  ForecastChange,
+  ForecastChangeKind,
+  ForecastChangeOptions
+} from './ForecastChangeDetector';
+
+export type {
+  CampaignInputField,
+  CampaignInputChange,
+  SimulatedCampaignInputs
+} from './CampaignInputDiff';
+
+export type {
+  DerivedMetricInputs,
+  SkippedDerivedMetric,
+  DerivedMetricsResult
+} from './DerivedMetrics';
+
+export type {
+  TimeframeLimits,
+  ResampleOptions,
+  ResampledForecast
+} from './TrajectoryResampler';
+
+export type {
+  BudgetPacingInput,
+  BudgetPacingOptions,
+  PacingStatus,
+  PacingProjection,
+  BudgetPacingAlert,
+  BudgetPacingForecast
+} from './BudgetPacingForecaster';
+
+export type {
+  RecommendationStatus,
+  OutcomeVerdict,
+  OutcomeInput,
+  OutcomeOptions,
+  OutcomeWindow,
+  RecommendationOutcome,
+  TrackedRecommendation,
+  RecommendationTypePerformance
+} from './RecommendationOutcomeTracker';
+
+export type {
+  CampaignBudgetChannel,
+  CampaignBudgetState,
+  BudgetChannelChange,
+  BudgetReallocationPlan
+} from './BudgetReallocationPlanner';
+
+export type {
+  ResponseMetric,
+  ChannelBenchmark,
+  SpendObservation,
+  ResponseCurveInput,
+  ResponseCurveOptions,
+  ResponseCurveSource,
+  ResponseCurve,
+  ResponseCurves,
+  ChannelConstraint,
+  KpiWeight,
+  BudgetAllocationInput,
+  ChannelAllocation,
+  KpiProjection,
+  OptimizedAllocation
+} from './BudgetAllocationOptimizer';
+
+export type {
+  OutcomeSamples,
+  KpiAttainmentInput
+} from './KpiAttainmentAnalyzer';
+
+export type {
+  GoalSeekVariable,
+  GoalSeekInput,
+  GoalSeekOptions,
+  GoalSeekProjection,
+  GoalSeekResult
+} from './GoalSeekSolver';
+
+export type {
+  ImpactEstimationContext,
+  ImpactEstimationOptions,
+  ImpactEstimationResult,
+  WhatIfScenario,
+  WhatIfAdjustment,
+  WhatIfInput,
+  WhatIfRanking,
+  WhatIfWorkspace
+} from './RecommendationImpactEstimator';
+
 export type {
   ScenarioGenerationOptions,
-  ScenarioFactors
+  ScenarioFactors,
+  MonteCarloScenarioResult
 } from './ScenarioGenerator';
 
 export type {
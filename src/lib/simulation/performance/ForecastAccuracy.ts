@@ -0,0 +1,174 @@
+/**
+ * Forecast Accuracy
+ *
+ * Pure accuracy calculations shared by the ModelPerformanceTracker and the
+ * Convex functions that score each model's forecast against the actual
+ * results stored for a simulation.
+ */
+
+export interface PredictionComparison {
+  date: Date;
+  metric: string;
+  predictedValue: number;
+  actualValue?: number;
+  confidence: number;
+  error?: number;
+  percentageError?: number;
+}
+
+export interface AccuracyMetrics {
+  mape: number; // Mean Absolute Percentage Error
+  rmse: number; // Root Mean Square Error
+  mae: number;  // Mean Absolute Error
+  r2Score: number; // R-squared score
+  confidenceCalibration: number; // How well calibrated confidence scores are
+}
+
+export type PerformanceStatus = 'excellent' | 'good' | 'degraded' | 'poor';
+
+/**
+ * One point of a stored model forecast
+ */
+export interface ForecastPoint {
+  date: number;
+  metric: string;
+  predictedValue: number;
+  actualValue?: number;
+  confidence: number;
+}
+
+export interface ForecastEvaluation {
+  predictions: ForecastPoint[]; // With the actual values that were matched
+  comparisons: number;
+  accuracyMetrics: AccuracyMetrics;
+  performanceStatus: PerformanceStatus;
+}
+
+/**
+ * Compare a model's forecast with the actual value of each point's day and
+ * metric, or null when no point has an actual value yet
+ */
+export function evaluateForecast(
+  points: ForecastPoint[],
+  actualFor: (date: Date, metric: string) => number | undefined
+): ForecastEvaluation | null {
+  const predictions = points.map(point => ({
+    ...point,
+    actualValue: actualFor(new Date(point.date), point.metric) ?? point.actualValue
+  }));
+
+  const comparisons: PredictionComparison[] = predictions
+    .filter(point => point.actualValue !== undefined && Number.isFinite(point.actualValue))
+    .map(point => {
+      const actualValue = point.actualValue!;
+      const error = Math.abs(actualValue - point.predictedValue);
+      return {
+        date: new Date(point.date),
+        metric: point.metric,
+        predictedValue: point.predictedValue,
+        actualValue,
+        confidence: point.confidence,
+        error,
+        percentageError: actualValue !== 0 ? (error / Math.abs(actualValue)) * 100 : 0
+      };
+    });
+
+  if (comparisons.length === 0) {
+    return null;
+  }
+
+  const accuracyMetrics = calculateAccuracyMetrics(comparisons);
+  return {
+    predictions,
+    comparisons: comparisons.length,
+    accuracyMetrics,
+    performanceStatus: performanceStatusFor(accuracyMetrics)
+  };
+}
+
+/**
+ * Calculate comprehensive accuracy metrics for model performance
+ */
+export function calculateAccuracyMetrics(comparisons: PredictionComparison[]): AccuracyMetrics {
+  if (comparisons.length === 0) {
+    throw new Error('No comparison data available for accuracy calculation');
+  }
+
+  const validComparisons = comparisons.filter(c => c.actualValue !== undefined && c.error !== undefined);
+
+  if (validComparisons.length === 0) {
+    throw new Error('No valid comparison data with actual values');
+  }
+
+  // Mean Absolute Percentage Error (MAPE)
+  const mape = validComparisons.reduce((sum, c) => sum + c.percentageError!, 0) / validComparisons.length;
+
+  // Root Mean Square Error (RMSE)
+  const squaredErrors = validComparisons.map(c => Math.pow(c.error!, 2));
+  const rmse = Math.sqrt(squaredErrors.reduce((sum, se) => sum + se, 0) / squaredErrors.length);
+
+  // Mean Absolute Error (MAE)
+  const mae = validComparisons.reduce((sum, c) => sum + c.error!, 0) / validComparisons.length;
+
+  // R-squared score
+  const actualValues = validComparisons.map(c => c.actualValue!);
+  const actualMean = actualValues.reduce((sum, val) => sum + val, 0) / actualValues.length;
+
+  const totalSumSquares = actualValues.reduce((sum, val) => sum + Math.pow(val - actualMean, 2), 0);
+  const residualSumSquares = validComparisons.reduce((sum, c) => sum + Math.pow(c.actualValue! - c.predictedValue, 2), 0);
+  const r2Score = totalSumSquares !== 0 ? 1 - (residualSumSquares / totalSumSquares) : 0;
+
+  // Confidence calibration - measure how well confidence scores match actual accuracy
+  const confidenceCalibration = calculateConfidenceCalibration(validComparisons);
+
+  return {
+    mape,
+    rmse,
+    mae,
+    r2Score,
+    confidenceCalibration
+  };
+}
+
+/**
+ * Performance status of a forecast from its MAPE
+ */
+export function performanceStatusFor(metrics: AccuracyMetrics): PerformanceStatus {
+  if (metrics.mape < 5) return 'excellent';
+  if (metrics.mape < 15) return 'good';
+  if (metrics.mape < 30) return 'degraded';
+  return 'poor';
+}
+
+/**
+ * Calculate confidence calibration score
+ */
+function calculateConfidenceCalibration(comparisons: PredictionComparison[]): number {
+  // Group predictions by confidence bins
+  const confidenceBins = new Map<number, { correct: number; total: number }>();
+
+  comparisons.forEach(c => {
+    const confidenceBin = Math.floor(c.confidence * 10) / 10; // Round to nearest 0.1
+    const isAccurate = c.percentageError! < 10; // Consider <10% error as accurate
+
+    if (!confidenceBins.has(confidenceBin)) {
+      confidenceBins.set(confidenceBin, { correct: 0, total: 0 });
+    }
+
+    const bin = confidenceBins.get(confidenceBin)!;
+    bin.total++;
+    if (isAccurate) bin.correct++;
+  });
+
+  // Calculate calibration error
+  let calibrationError = 0;
+  let totalPredictions = 0;
+
+  confidenceBins.forEach((bin, confidence) => {
+    const accuracy = bin.correct / bin.total;
+    calibrationError += bin.total * Math.abs(confidence - accuracy);
+    totalPredictions += bin.total;
+  });
+
+  return totalPredictions > 0 ? 1 - (calibrationError / totalPredictions) : 0;
+}
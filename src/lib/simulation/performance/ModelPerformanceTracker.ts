@@ -9,24 +9,15 @@
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "../../../../convex/_generated/api";
 import { Id } from "../../../../convex/_generated/dataModel";
+import {
+  AccuracyMetrics,
+  PerformanceStatus,
+  PredictionComparison,
+  calculateAccuracyMetrics,
+  performanceStatusFor
+} from "./ForecastAccuracy";
 
-export interface PredictionComparison {
-  date: Date;
-  metric: string;
-  predictedValue: number;
-  actualValue?: number;
-  confidence: number;
-  error?: number;
-  percentageError?: number;
-}
-
-export interface AccuracyMetrics {
-  mape: number; // Mean Absolute Percentage Error
-  rmse: number; // Root Mean Square Error
-  mae: number;  // Mean Absolute Error
-  r2Score: number; // R-squared score
-  confidenceCalibration: number; // How well calibrated confidence scores are
-}
+export type { AccuracyMetrics, PredictionComparison } from "./ForecastAccuracy";
 
 export interface PerformanceAlert {
   type: 'accuracy_degradation' | 'confidence_miscalibration' | 'prediction_bias' | 'data_drift';
@@ -137,78 +128,7 @@ export class ModelPerformanceTracker {
    * Calculate comprehensive accuracy metrics for model performance
    */
   calculateAccuracyMetrics(comparisons: PredictionComparison[]): AccuracyMetrics {
-    if (comparisons.length === 0) {
-      throw new Error('No comparison data available for accuracy calculation');
-    }
-
-    const validComparisons = comparisons.filter(c => c.actualValue !== undefined && c.error !== undefined);
-    
-    if (validComparisons.length === 0) {
-      throw new Error('No valid comparison data with actual values');
-    }
-
-    // Mean Absolute Percentage Error (MAPE)
-    const mape = validComparisons.reduce((sum, c) => sum + c.percentageError!, 0) / validComparisons.length;
-
-    // Root Mean Square Error (RMSE)
-    const squaredErrors = validComparisons.map(c => Math.pow(c.error!, 2));
-    const rmse = Math.sqrt(squaredErrors.reduce((sum, se) => sum + se, 0) / squaredErrors.length);
-
-    // Mean Absolute Error (MAE)
-    const mae = validComparisons.reduce((sum, c) => sum + c.error!, 0) / validComparisons.length;
-
-    // R-squared score
-    const actualValues = validComparisons.map(c => c.actualValue!);
-    const predictedValues = validComparisons.map(c => c.predictedValue);
-    const actualMean = actualValues.reduce((sum, val) => sum + val, 0) / actualValues.length;
-    
-    const totalSumSquares = actualValues.reduce((sum, val) => sum + Math.pow(val - actualMean, 2), 0);
-    const residualSumSquares = validComparisons.reduce((sum, c) => sum + Math.pow(c.actualValue! - c.predictedValue, 2), 0);
-    const r2Score = totalSumSquares !== 0 ? 1 - (residualSumSquares / totalSumSquares) : 0;
-
-    // Confidence calibration - measure how well confidence scores match actual accuracy
-    const confidenceCalibration = this.calculateConfidenceCalibration(validComparisons);
-
-    return {
-      mape,
-      rmse,
-      mae,
-      r2Score,
-      confidenceCalibration
-    };
-  }
-
-  /**
-   * Calculate confidence calibration score
-   */
-  private calculateConfidenceCalibration(comparisons: PredictionComparison[]): number {
-    // Group predictions by confidence bins
-    const confidenceBins = new Map<number, { correct: number; total: number }>();
-    
-    comparisons.forEach(c => {
-      const confidenceBin = Math.floor(c.confidence * 10) / 10; // Round to nearest 0.1
-      const isAccurate = c.percentageError! < 10; // Consider <10% error as accurate
-      
-      if (!confidenceBins.has(confidenceBin)) {
-        confidenceBins.set(confidenceBin, { correct: 0, total: 0 });
-      }
-      
-      const bin = confidenceBins.get(confidenceBin)!;
-      bin.total++;
-      if (isAccurate) bin.correct++;
-    });
-
-    // Calculate calibration error
-    let calibrationError = 0;
-    let totalPredictions = 0;
-
-    confidenceBins.forEach((bin, confidence) => {
-      const accuracy = bin.correct / bin.total;
-      calibrationError += bin.total * Math.abs(confidence - accuracy);
-      totalPredictions += bin.total;
-    });
-
-    return totalPredictions > 0 ? 1 - (calibrationError / totalPredictions) : 0;
+    return calculateAccuracyMetrics(comparisons);
   }
 
   /**
@@ -344,21 +264,17 @@ export class ModelPerformanceTracker {
         throw new Error(`Simulation ${simulationId} not found`);
       }
 
-      // Compare predictions with actuals
+      // Compare predictions with actuals. Storing them also has the server score
+      // each model's own forecast, which feeds the learned ensemble weights.
       const comparisons = await this.comparePredictionsWithActuals(simulationId, actualData);
       
       // Calculate accuracy metrics
       let accuracyMetrics: AccuracyMetrics | undefined;
-      let performanceStatus: 'excellent' | 'good' | 'degraded' | 'poor' = 'poor';
+      let performanceStatus: PerformanceStatus = 'poor';
       
       if (comparisons.length > 0) {
         accuracyMetrics = this.calculateAccuracyMetrics(comparisons);
-        
-        // Determine performance status based on MAPE
-        if (accuracyMetrics.mape < 5) performanceStatus = 'excellent';
-        else if (accuracyMetrics.mape < 15) performanceStatus = 'good';
-        else if (accuracyMetrics.mape < 30) performanceStatus = 'degraded';
-        else performanceStatus = 'poor';
+        performanceStatus = performanceStatusFor(accuracyMetrics);
       }
 
       // Detect performance issues
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for forecast accuracy calculations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateForecast, performanceStatusFor } from '../ForecastAccuracy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2024, 2, 1);
+
+const forecast = [0, 1, 2].flatMap(day => [
+  { date: start + day * DAY_MS, metric: 'ctr', predictedValue: 0.03, confidence: 0.8 },
+  { date: start + day * DAY_MS, metric: 'impressions', predictedValue: 1000, confidence: 0.8 }
+]);
+
+describe('evaluateForecast', () => {
+  it('should score the points that have actual values', () => {
+    const actuals: Record<string, number> = { ctr: 0.033, impressions: 800 };
+    const evaluation = evaluateForecast(forecast, (date, metric) =>
+      date.getTime() < start + 2 * DAY_MS ? actuals[metric] : undefined
+    )!;
+
+    expect(evaluation.comparisons).toBe(4);
+    expect(evaluation.predictions.filter(p => p.actualValue !== undefined)).toHaveLength(4);
+    expect(evaluation.accuracyMetrics.mape).toBeCloseTo((100 / 11 + 25) / 2, 6);
+    expect(evaluation.performanceStatus).toBe('degraded');
+  });
+
+  it('should keep actual values matched earlier', () => {
+    const evaluated = forecast.map(point => ({ ...point, actualValue: point.predictedValue }));
+
+    const evaluation = evaluateForecast(evaluated, () => undefined)!;
+    expect(evaluation.comparisons).toBe(forecast.length);
+    expect(evaluation.accuracyMetrics.mape).toBe(0);
+  });
+
+  it('should return null without any actual values', () => {
+    expect(evaluateForecast(forecast, () => undefined)).toBeNull();
+    expect(evaluateForecast([], () => 1)).toBeNull();
+  });
+});
+
+describe('performanceStatusFor', () => {
+  it('should grade forecasts by MAPE', () => {
+    const metrics = { rmse: 0, mae: 0, r2Score: 1, confidenceCalibration: 1 };
+
+    expect(performanceStatusFor({ ...metrics, mape: 4 })).toBe('excellent');
+    expect(performanceStatusFor({ ...metrics, mape: 14 })).toBe('good');
+    expect(performanceStatusFor({ ...metrics, mape: 29 })).toBe('degraded');
+    expect(performanceStatusFor({ ...metrics, mape: 30 })).toBe('poor');
+  });
+});
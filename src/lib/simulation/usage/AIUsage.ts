@@ -0,0 +1,115 @@
+/**
+ * AI Usage Pricing and Quotas
+ *
+ * Prices predictor calls from the tokens they used, estimates what a
+ * simulation will cost before it is queued, and defines the monthly spend
+ * each subscription tier may run up on model calls.
+ */
+
+import { CAMPAIGN_FORECAST_PROMPT, getPromptTemplate } from '../ai-models/prompts/PromptTemplates';
+import { planForecast } from '../ai-models/OpenAIPredictor';
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million completion tokens
+}
+
+/**
+ * List prices of hosted models. Models missing here, e.g. ones served by a
+ * self-hosted gateway, are not billed per token.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 }
+};
+
+/**
+ * Monthly spend on model calls, in USD, each subscription tier may run up
+ */
+export const MONTHLY_USAGE_QUOTAS: Record<string, number> = {
+  free: 5,
+  standard: 50,
+  premium: 250,
+  enterprise: 1000
+};
+
+export const DEFAULT_SUBSCRIPTION_TIER = 'free';
+
+// Rough token counts of a campaign forecast call, used before the model has run
+const CHARS_PER_TOKEN = 4;
+const PROMPT_VARIABLE_TOKENS = 150; // campaign details filled into the template
+const OUTPUT_TOKENS_PER_POINT = 70; // one trajectory point
+const OUTPUT_OVERHEAD_TOKENS = 450; // scenarios, feature importance and reasoning
+
+export interface SimulationUsageEstimate {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // USD
+}
+
+/**
+ * Pricing of a model; dated snapshots such as gpt-4o-2024-08-06 use the
+ * price of the model they belong to
+ */
+export function modelPricing(model: string): ModelPricing | undefined {
+  const name = model.toLowerCase();
+  const match = Object.keys(MODEL_PRICING)
+    .filter(candidate => name === candidate || name.startsWith(`${candidate}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : undefined;
+}
+
+/**
+ * Cost of a call in USD; 0 for models that are not billed per token
+ */
+export function estimateModelCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = modelPricing(model);
+  if (!pricing) {
+    return 0;
+  }
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Expected tokens and cost of the LLM call a simulation makes. The response
+ * holds one point per day of the window, up to the cap the prompt asks for,
+ * so the length of the window drives the size of the response.
+ */
+export function estimateSimulationUsage(
+  model: string,
+  startDate: Date | number,
+  endDate: Date | number
+): SimulationUsageEstimate {
+  const { points } = planForecast(startDate, endDate);
+  const template = getPromptTemplate(CAMPAIGN_FORECAST_PROMPT);
+
+  const inputTokens =
+    Math.ceil((template.system.length + template.user.length) / CHARS_PER_TOKEN) + PROMPT_VARIABLE_TOKENS;
+  const outputTokens = OUTPUT_OVERHEAD_TOKENS + points * OUTPUT_TOKENS_PER_POINT;
+
+  return {
+    model,
+    inputTokens,
+    outputTokens,
+    estimatedCost: estimateModelCost(model, inputTokens, outputTokens)
+  };
+}
+
+/**
+ * Monthly quota of a subscription tier; unknown tiers get the free quota
+ */
+export function monthlyUsageQuota(subscriptionTier: string): number {
+  return MONTHLY_USAGE_QUOTAS[subscriptionTier] ?? MONTHLY_USAGE_QUOTAS[DEFAULT_SUBSCRIPTION_TIER];
+}
+
+/**
+ * Start of the calendar month (UTC) usage is counted from
+ */
+export function usagePeriodStart(now: Date | number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
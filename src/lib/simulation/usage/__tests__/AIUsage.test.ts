@@ -0,0 +1,83 @@
+/**
+ * Unit tests for AI usage pricing and quotas
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateModelCost,
+  estimateSimulationUsage,
+  modelPricing,
+  monthlyUsageQuota,
+  usagePeriodStart
+} from '../AIUsage';
+import { planForecast } from '../../ai-models/OpenAIPredictor';
+
+describe('estimateModelCost', () => {
+  it('should price prompt and completion tokens separately', () => {
+    expect(estimateModelCost('gpt-4o', 1_000_000, 0)).toBeCloseTo(2.5, 10);
+    expect(estimateModelCost('gpt-4o', 2000, 1000)).toBeCloseTo(0.015, 10);
+  });
+
+  it('should price dated snapshots like the model they belong to', () => {
+    expect(modelPricing('gpt-4o-2024-08-06')).toEqual(modelPricing('gpt-4o'));
+    expect(modelPricing('gpt-4o-mini-2024-07-18')).toEqual(modelPricing('gpt-4o-mini'));
+    expect(modelPricing('GPT-4.1-mini')).toEqual(modelPricing('gpt-4.1-mini'));
+  });
+
+  it('should not bill models without a list price', () => {
+    expect(modelPricing('llama-3.1-70b-instruct')).toBeUndefined();
+    expect(estimateModelCost('llama-3.1-70b-instruct', 5000, 5000)).toBe(0);
+  });
+});
+
+describe('estimateSimulationUsage', () => {
+  it('should grow with the length of the forecast window', () => {
+    const week = estimateSimulationUsage('gpt-4o', new Date('2024-01-01'), new Date('2024-01-08'));
+    const month = estimateSimulationUsage('gpt-4o', new Date('2024-01-01'), new Date('2024-01-31'));
+
+    expect(week.inputTokens).toBe(month.inputTokens);
+    expect(month.outputTokens - week.outputTokens).toBe(23 * 70);
+    expect(month.estimatedCost).toBeGreaterThan(week.estimatedCost);
+    expect(month.estimatedCost).toBeCloseTo(
+      estimateModelCost('gpt-4o', month.inputTokens, month.outputTokens),
+      10
+    );
+  });
+
+  it('should count a partial day as a full day', () => {
+    const hours = estimateSimulationUsage('gpt-4o', Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 2, 12));
+    const day = estimateSimulationUsage('gpt-4o', Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 2));
+
+    expect(hours.outputTokens).toBe(day.outputTokens);
+  });
+
+  it('should price no more points than the prompt asks for', () => {
+    const month = estimateSimulationUsage('gpt-4o', Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 31));
+    const year = estimateSimulationUsage('gpt-4o', Date.UTC(2024, 0, 1), Date.UTC(2024, 11, 31));
+
+    expect(planForecast(Date.UTC(2024, 0, 1), Date.UTC(2024, 11, 31)).points).toBe(31);
+    expect(year.outputTokens).toBe(month.outputTokens);
+  });
+
+  it('should estimate no cost for self-hosted models', () => {
+    const estimate = estimateSimulationUsage('llama-3.1-70b-instruct', Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 31));
+
+    expect(estimate.inputTokens).toBeGreaterThan(0);
+    expect(estimate.estimatedCost).toBe(0);
+  });
+});
+
+describe('monthlyUsageQuota', () => {
+  it('should allow higher tiers more spend and fall back to the free quota', () => {
+    expect(monthlyUsageQuota('premium')).toBeGreaterThan(monthlyUsageQuota('standard'));
+    expect(monthlyUsageQuota('standard')).toBeGreaterThan(monthlyUsageQuota('free'));
+    expect(monthlyUsageQuota('unknown')).toBe(monthlyUsageQuota('free'));
+  });
+});
+
+describe('usagePeriodStart', () => {
+  it('should start the period on the first of the month in UTC', () => {
+    expect(usagePeriodStart(Date.UTC(2024, 1, 29, 23, 59))).toBe(Date.UTC(2024, 1, 1));
+    expect(usagePeriodStart(new Date(Date.UTC(2024, 2, 1)))).toBe(Date.UTC(2024, 2, 1));
+  });
+});
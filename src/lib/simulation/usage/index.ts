@@ -0,0 +1,21 @@
+/**
+ * AI Usage Module
+ *
+ * Pricing, cost estimates and monthly quotas for the model calls simulations make.
+ */
+
+export {
+  MODEL_PRICING,
+  MONTHLY_USAGE_QUOTAS,
+  DEFAULT_SUBSCRIPTION_TIER,
+  modelPricing,
+  estimateModelCost,
+  estimateSimulationUsage,
+  monthlyUsageQuota,
+  usagePeriodStart
+} from './AIUsage';
+
+export type {
+  ModelPricing,
+  SimulationUsageEstimate
+} from './AIUsage';
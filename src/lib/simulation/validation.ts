@@ -18,8 +18,14 @@ import {
   TrajectoryPoint,
   PredictionOutput,
   ScenarioConfig,
+  ScenarioAdjustment,
+  MonteCarloConfig,
 } from "../../types/simulation";
 import { DataValidationError, InsufficientDataError } from "./errors";
+import {
+  TIMEFRAME_LIMITS,
+  timeframeLength,
+} from "./orchestration/TrajectoryResampler";
 
 // ============================================================================
 // Validation Schema Definitions
@@ -40,9 +46,11 @@ export class SimulationRequestValidator
 {
   private readonly REQUIRED_FIELDS = ["campaignId", "timeframe", "metrics"];
 
-  private readonly MAX_TIMEFRAME_DAYS = 90;
-  private readonly MIN_TIMEFRAME_DAYS = 5;
   private readonly MAX_METRICS = 10;
+  private readonly MAX_SCENARIO_ADJUSTMENTS = 10;
+  private readonly MAX_ADJUSTMENT_MULTIPLIER = 5;
+  private readonly MIN_MONTE_CARLO_ITERATIONS = 100;
+  private readonly MAX_MONTE_CARLO_ITERATIONS = 10000;
 
   validate(request: SimulationRequest): ValidationResult {
     const errors: ValidationError[] = [];
@@ -76,11 +84,19 @@ export class SimulationRequestValidator
 
     // Validate scenarios
     if (request.scenarios) {
-      const scenariosValidation = this.validateScenarios(request.scenarios);
+      const scenariosValidation = this.validateScenarios(
+        request.scenarios,
+        request.timeframe
+      );
       errors.push(...scenariosValidation.errors);
       warnings.push(...scenariosValidation.warnings);
     }
 
+    // Validate Monte Carlo settings
+    if (request.monteCarlo) {
+      errors.push(...this.validateMonteCarlo(request.monteCarlo));
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -125,9 +141,18 @@ export class SimulationRequestValidator
 
     const startDate = new Date(timeframe.startDate);
     const endDate = new Date(timeframe.endDate);
-    const diffDays = Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const granularity = timeframe.granularity ?? "daily";
+    const limits = TIMEFRAME_LIMITS[granularity as keyof typeof TIMEFRAME_LIMITS];
+    if (!limits) {
+      errors.push({
+        field: "timeframe.granularity",
+        message: `Invalid granularity: ${granularity}`,
+        code: "INVALID_GRANULARITY",
+        severity: "error",
+      });
+      return { errors, warnings };
+    }
+    const length = timeframeLength(granularity, startDate, endDate);
 
     if (startDate >= endDate) {
       errors.push({
@@ -138,20 +163,22 @@ export class SimulationRequestValidator
       });
     }
 
-    if (diffDays < this.MIN_TIMEFRAME_DAYS) {
+    if (length < limits.min) {
       errors.push({
         field: "timeframe",
-        message: `Timeframe must be at least ${this.MIN_TIMEFRAME_DAYS} days`,
+        message: `Timeframe must be at least ${limits.min} ${limits.unit} for ${granularity} simulations`,
         code: "TIMEFRAME_TOO_SHORT",
         severity: "error",
       });
     }
 
-    if (diffDays > this.MAX_TIMEFRAME_DAYS) {
+    if (length > limits.max) {
       warnings.push({
         field: "timeframe",
-        message: `Timeframe longer than ${this.MAX_TIMEFRAME_DAYS} days may reduce accuracy`,
-        suggestion: "Consider shorter timeframes for better predictions",
+        message: `Timeframe longer than ${limits.max} ${limits.unit} may reduce accuracy of ${granularity} simulations`,
+        suggestion: granularity === "monthly"
+          ? "Consider shorter timeframes for better predictions"
+          : "Consider a coarser granularity or a shorter timeframe",
       });
     }
 
@@ -208,6 +235,10 @@ export class SimulationRequestValidator
       "conversions",
       "cpc",
       "cpm",
+      "cpa",
+      "roas",
+      "roi",
+      "brand_awareness",
     ];
     metrics.forEach((metric, index) => {
       if (!validMetricTypes.includes(metric.type)) {
@@ -232,7 +263,10 @@ export class SimulationRequestValidator
     return { errors, warnings };
   }
 
-  private validateScenarios(scenarios: ScenarioConfig[]): {
+  private validateScenarios(
+    scenarios: ScenarioConfig[],
+    timeframe?: SimulationRequest["timeframe"]
+  ): {
     errors: ValidationError[];
     warnings: ValidationWarning[];
   } {
@@ -266,11 +300,186 @@ export class SimulationRequestValidator
           severity: "error",
         });
       }
+
+      if (scenario.type === "custom") {
+        if (!scenario.name || scenario.name.trim().length === 0) {
+          errors.push({
+            field: `scenarios[${index}].name`,
+            message: "Custom scenarios require a name",
+            code: "MISSING_SCENARIO_NAME",
+            severity: "error",
+          });
+        }
+
+        if (!scenario.adjustments || scenario.adjustments.length === 0) {
+          warnings.push({
+            field: `scenarios[${index}].adjustments`,
+            message: "Custom scenario has no shocks and will match its percentile band",
+            suggestion: "Add at least one budget, competition, seasonality or creative fatigue shock",
+          });
+        }
+      }
+
+      if (scenario.adjustments) {
+        const adjustmentsValidation = this.validateAdjustments(
+          scenario.adjustments,
+          `scenarios[${index}].adjustments`,
+          timeframe
+        );
+        errors.push(...adjustmentsValidation.errors);
+        warnings.push(...adjustmentsValidation.warnings);
+      }
+    });
+
+    const customNames = scenarios
+      .filter((scenario) => scenario.type === "custom" && scenario.name)
+      .map((scenario) => scenario.name!.trim().toLowerCase());
+    if (new Set(customNames).size !== customNames.length) {
+      errors.push({
+        field: "scenarios",
+        message: "Custom scenario names must be unique",
+        code: "DUPLICATE_SCENARIO_NAME",
+        severity: "error",
+      });
+    }
+
+    return { errors, warnings };
+  }
+
+  private validateAdjustments(
+    adjustments: ScenarioAdjustment[],
+    fieldPrefix: string,
+    timeframe?: SimulationRequest["timeframe"]
+  ): {
+    errors: ValidationError[];
+    warnings: ValidationWarning[];
+  } {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    const validFactors = ["budget", "competition", "seasonality", "creative_fatigue"];
+    const validMetrics = ["ctr", "impressions", "engagement", "reach", "conversions", "cpc", "cpm"];
+
+    if (adjustments.length > this.MAX_SCENARIO_ADJUSTMENTS) {
+      errors.push({
+        field: fieldPrefix,
+        message: `Maximum ${this.MAX_SCENARIO_ADJUSTMENTS} shocks allowed per scenario`,
+        code: "TOO_MANY_ADJUSTMENTS",
+        severity: "error",
+      });
+    }
+
+    adjustments.forEach((adjustment, index) => {
+      const field = `${fieldPrefix}[${index}]`;
+
+      if (!validFactors.includes(adjustment.factor)) {
+        errors.push({
+          field: `${field}.factor`,
+          message: `Invalid adjustment factor: ${adjustment.factor}`,
+          code: "INVALID_ADJUSTMENT_FACTOR",
+          severity: "error",
+        });
+      }
+
+      if (
+        !Number.isFinite(adjustment.multiplier) ||
+        adjustment.multiplier <= 0 ||
+        adjustment.multiplier > this.MAX_ADJUSTMENT_MULTIPLIER
+      ) {
+        errors.push({
+          field: `${field}.multiplier`,
+          message: `Multiplier must be greater than 0 and at most ${this.MAX_ADJUSTMENT_MULTIPLIER}`,
+          code: "INVALID_ADJUSTMENT_MULTIPLIER",
+          severity: "error",
+        });
+      } else if (adjustment.multiplier < 0.5 || adjustment.multiplier > 2) {
+        warnings.push({
+          field: `${field}.multiplier`,
+          message: "Shocks beyond -50% or +100% fall outside typical campaign ranges",
+          suggestion: "Double-check the size of this shock",
+        });
+      }
+
+      const invalidMetrics = (adjustment.metrics || []).filter(
+        (metric) => !validMetrics.includes(metric)
+      );
+      if (invalidMetrics.length > 0) {
+        errors.push({
+          field: `${field}.metrics`,
+          message: `Invalid metric types: ${invalidMetrics.join(", ")}`,
+          code: "INVALID_METRIC_TYPE",
+          severity: "error",
+        });
+      }
+
+      if (adjustment.channel !== undefined && adjustment.channel.trim().length === 0) {
+        errors.push({
+          field: `${field}.channel`,
+          message: "Channel must not be empty when provided",
+          code: "INVALID_ADJUSTMENT_CHANNEL",
+          severity: "error",
+        });
+      }
+
+      if (adjustment.timeframe) {
+        const start = new Date(adjustment.timeframe.start);
+        const end = new Date(adjustment.timeframe.end);
+
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+          errors.push({
+            field: `${field}.timeframe`,
+            message: "Shock start date must be on or before its end date",
+            code: "INVALID_DATE_RANGE",
+            severity: "error",
+          });
+        } else if (
+          timeframe?.startDate &&
+          timeframe?.endDate &&
+          (end < new Date(timeframe.startDate) || start > new Date(timeframe.endDate))
+        ) {
+          warnings.push({
+            field: `${field}.timeframe`,
+            message: "Shock falls entirely outside the simulation timeframe",
+            suggestion: "Move the shock dates inside the simulated period",
+          });
+        }
+      }
     });
 
     return { errors, warnings };
   }
 
+  private validateMonteCarlo(config: MonteCarloConfig): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (
+      !Number.isInteger(config.iterations) ||
+      config.iterations < this.MIN_MONTE_CARLO_ITERATIONS ||
+      config.iterations > this.MAX_MONTE_CARLO_ITERATIONS
+    ) {
+      errors.push({
+        field: "monteCarlo.iterations",
+        message: `Monte Carlo iterations must be an integer between ${this.MIN_MONTE_CARLO_ITERATIONS} and ${this.MAX_MONTE_CARLO_ITERATIONS}`,
+        code: "INVALID_MONTE_CARLO_ITERATIONS",
+        severity: "error",
+      });
+    }
+
+    if (
+      config.seed !== undefined &&
+      (!Number.isInteger(config.seed) || config.seed < 0 || config.seed > 0xffffffff)
+    ) {
+      errors.push({
+        field: "monteCarlo.seed",
+        message: "Monte Carlo seed must be a 32-bit unsigned integer",
+        code: "INVALID_MONTE_CARLO_SEED",
+        severity: "error",
+      });
+    }
+
+    return errors;
+  }
+
   private validateCampaignId(value: any): ValidationError | null {
     if (!value || typeof value !== "string") {
       return {
@@ -136,9 +136,11 @@ export const kpiTypeSchema = z.enum([
   "conversions",
   "brand_awareness",
   "roi",
+  "roas",
   "ctr",
   "cpc",
   "cpm",
+  "cpa",
 ]);
 
 export const kpiTimeframeSchema = z.enum([
@@ -211,6 +213,11 @@ export const kpisMetricsSchema = z.object({
   customMetrics: z
     .array(customMetricSchema)
     .max(20, "Maximum 20 custom metrics allowed"),
+  conversionValue: z
+    .number()
+    .positive("Conversion value must be positive")
+    .max(1000000, "Conversion value cannot exceed $1,000,000")
+    .optional(),
   trackingSettings: z
     .object({
       enableAnalytics: z.boolean().default(true),
@@ -0,0 +1,104 @@
+/**
+ * Stand-in for an OpenAI-compatible chat completions server
+ *
+ * Serves POST /v1/chat/completions on a random local port, records the
+ * requests it receives and answers from a queue of canned replies, so LLM
+ * integrations can be tested over real HTTP without a model.
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockLLMReply {
+  status?: number; // HTTP status; 200 when unset
+  content?: string; // assistant message content of a successful reply
+  body?: string; // raw response body, used instead of a completion
+  model?: string;
+  delayMs?: number; // wait before answering, e.g. to trigger client timeouts
+  bodyDelayMs?: number; // send the headers, then wait before sending the body
+}
+
+export interface MockLLMRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export interface MockLLMServer {
+  baseUrl: string; // e.g. http://127.0.0.1:53124/v1
+  requests: MockLLMRequest[];
+  reply(...replies: MockLLMReply[]): void;
+  close(): Promise<void>;
+}
+
+export async function startMockLLMServer(): Promise<MockLLMServer> {
+  const requests: MockLLMRequest[] = [];
+  const replies: MockLLMReply[] = [];
+
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `Unknown route ${req.method} ${req.url}` } }));
+        return;
+      }
+
+      const body = raw ? JSON.parse(raw) : {};
+      requests.push({ path: req.url, headers: req.headers, body });
+
+      const reply = replies.shift() ?? { content: '{}' };
+      const respond = () => {
+        const status = reply.status ?? 200;
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        const payload =
+          reply.body ??
+            JSON.stringify({
+              id: `chatcmpl-${requests.length}`,
+              object: 'chat.completion',
+              model: reply.model ?? body.model,
+              choices: [
+                {
+                  index: 0,
+                  message: { role: 'assistant', content: reply.content ?? '' },
+                  finish_reason: 'stop'
+                }
+              ],
+              usage: { prompt_tokens: 12, completion_tokens: 34, total_tokens: 46 }
+            });
+
+        if (reply.bodyDelayMs) {
+          res.flushHeaders();
+          setTimeout(() => res.end(payload), reply.bodyDelayMs);
+        } else {
+          res.end(payload);
+        }
+      };
+
+      if (reply.delayMs) {
+        setTimeout(respond, reply.delayMs);
+      } else {
+        respond();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    reply: (...next) => {
+      replies.push(...next);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(error => (error ? reject(error) : resolve()));
+      })
+  };
+}
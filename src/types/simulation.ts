@@ -15,15 +15,18 @@ export interface SimulationRequest {
   timeframe: {
     startDate: Date;
     endDate: Date;
-    granularity: 'daily' | 'weekly';
+    granularity: SimulationGranularity;
   };
   metrics: SimulationMetric[];
   scenarios: ScenarioConfig[];
   externalDataSources: ExternalDataSource[];
+  monteCarlo?: MonteCarloConfig;
 }
 
+export type SimulationGranularity = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
 export interface SimulationMetric {
-  type: 'ctr' | 'impressions' | 'engagement' | 'reach' | 'conversions' | 'cpc' | 'cpm';
+  type: MetricType | DerivedMetricType;
   weight: number;
   benchmarkSource?: 'industry' | 'historical' | 'competitor';
 }
@@ -36,12 +39,67 @@ export interface SimulationResult {
   risks: RiskAlert[];
   recommendations: PivotRecommendation[];
   modelMetadata: ModelMetadata;
+  monteCarlo?: MonteCarloResult;
+  kpiAttainment?: KPIAttainment[];
   createdAt: Date;
   completedAt?: Date;
 }
 
 export type SimulationStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
+export type SimulationStage =
+  | 'data_aggregation'
+  | 'market_enrichment'
+  | 'model_prediction'
+  | 'ensemble'
+  | 'scenarios'
+  | 'risks'
+  | 'recommendations';
+
+export type SimulationStageStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A stage transition reported while a simulation is processing.
+ * Individual model calls are reported under 'model_prediction' with their model name;
+ * an error on a completed stage records a partial failure the pipeline recovered from.
+ */
+export interface SimulationStageUpdate {
+  simulationId: string;
+  stage: SimulationStage;
+  status: SimulationStageStatus;
+  model?: string;
+  timestamp: Date;
+  error?: string;
+}
+
+/**
+ * A single predictor call of a simulation, metered for cost accounting.
+ * Calls that failed after the model answered still used (and billed) tokens.
+ */
+export interface ModelUsageRecord {
+  simulationId: string;
+  organizationId: string;
+  modelName: string; // registry name, e.g. 'openai'
+  model: string; // model that served the call, e.g. 'gpt-4o-2024-08-06'
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  estimatedCost: number; // USD
+  status: 'success' | 'failed';
+  error?: string;
+  timestamp: Date;
+}
+
+/**
+ * Inputs a simulation ran on, frozen so the forecast can be justified and replayed later
+ */
+export interface SimulationInputSnapshot {
+  simulationId: string;
+  dataset: EnrichedDataset;
+  sourcesUsed: string[]; // data sources that contributed to the dataset
+  capturedAt: Date;
+}
+
 // ============================================================================
 // Data Models
 // ============================================================================
@@ -77,8 +135,11 @@ export interface CampaignData {
   status: string;
   category: string;
   channels: ChannelConfig[];
+  channelBudgets?: Record<string, number>; // campaign budgetAllocation.channels
   audiences: AudienceConfig[];
   kpis: KPIConfig[];
+  customMetrics?: CustomMetricConfig[];
+  conversionValue?: number; // average revenue per conversion, for ROI and ROAS
 }
 
 export interface PerformanceMetric {
@@ -120,6 +181,13 @@ export interface BudgetData {
   allocated: Record<string, number>;
   spent: Record<string, number>;
   remaining: Record<string, number>;
+  dailySpend?: SpendRecord[]; // spend ledger entries, when spend has been recorded
+}
+
+export interface SpendRecord {
+  date: Date; // day the spend was incurred (UTC midnight)
+  channel: string;
+  amount: number;
 }
 
 export interface ChannelConfig {
@@ -148,6 +216,13 @@ export interface KPIConfig {
   weight: number;
 }
 
+export interface CustomMetricConfig {
+  name: string;
+  description: string;
+  target: number;
+  unit: string;
+}
+
 // ============================================================================
 // Market Data Types
 // ============================================================================
@@ -196,6 +271,7 @@ export interface EnrichedDataset extends CampaignDataset {
   marketData: MarketDataset;
   externalData: ExternalAPIData[];
   dataQuality: DataQualityScore;
+  forecastWindow?: DateRange; // simulation timeframe predictors forecast; set by the orchestrator
 }
 
 export interface ExternalAPIData {
@@ -246,6 +322,30 @@ export interface ModelMetadata {
   data_quality: DataQualityScore;
   feature_count: number;
   prediction_horizon: number;
+  model_versions?: Record<string, string>; // versions of the models behind an ensemble, by model name
+  prompt_version?: string; // version of the prompt template, for prompt-driven models
+  prompt_template?: string; // id of the prompt template, for prompt-driven models
+  prompt_versions?: Record<string, string>; // prompt versions behind an ensemble, by model name
+  token_usage?: TokenUsage; // tokens billed for the call, for token-priced models
+  cached?: boolean; // served from the model response cache; no call was made
+  ensemble_weights?: Record<string, number>; // nominal weight of each model in an ensemble, by model name
+  segment_ensemble_weights?: SegmentEnsembleWeights[]; // learned weights that replaced the nominal ones
+  weighting_strategy?: string; // how an ensemble weighted its models
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Weights an ensemble actually combined one metric with over one forecast
+ * horizon, normalized over the models that reported the metric
+ */
+export interface SegmentEnsembleWeights {
+  metric: string;
+  horizon: string; // 'short', 'medium' or 'long'
+  weights: Record<string, number>;
 }
 
 export interface ModelPrediction {
@@ -262,26 +362,95 @@ export interface ModelPrediction {
 
 export interface ScenarioConfig {
   type: 'optimistic' | 'realistic' | 'pessimistic' | 'custom';
+  name?: string;
   percentile?: number;
   adjustments?: ScenarioAdjustment[];
 }
 
+/**
+ * A shock applied to the trajectory on every day inside its timeframe,
+ * e.g. "cut Facebook budget 30% from Nov 20" or "CPM +15% for two weeks".
+ */
 export interface ScenarioAdjustment {
   factor: 'budget' | 'competition' | 'seasonality' | 'creative_fatigue';
   multiplier: number;
   timeframe?: DateRange;
+  channel?: string; // scales the shock by the channel's budget share
+  metrics?: string[]; // applies the multiplier directly to these metrics only
+  label?: string;
 }
 
 export interface ScenarioResult {
   type: string;
+  name?: string;
+  /**
+   * Heuristic weight by default. In Monte Carlo mode this is the share of
+   * sampled runs whose primary KPI total reaches (optimistic), falls short of
+   * (pessimistic) or lands between (realistic) the scenario trajectory.
+   */
   probability: number;
   trajectory: TrajectoryPoint[];
   key_factors: string[];
   confidence: number;
 }
 
+export interface MonteCarloConfig {
+  iterations: number;
+  seed?: number;
+}
+
+export interface MonteCarloResult {
+  seed: number;
+  iterations: number;
+  primaryMetric: string;
+  // Performance percentiles: for cost metrics the P90 band holds the lowest costs
+  bands: {
+    p10: TrajectoryPoint[];
+    p50: TrajectoryPoint[];
+    p90: TrajectoryPoint[];
+  };
+  kpiDistributions: Record<string, KPIDistribution>;
+}
+
+/**
+ * Distribution of end-of-flight totals for a metric across sampled runs.
+ * Volume metrics are summed over the flight, rate metrics are averaged.
+ */
+export interface KPIDistribution {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: HistogramBin[];
+}
+
+/**
+ * Chance of reaching a campaign KPI or custom metric target, read from the
+ * spread of simulated outcomes. Values are in the target's own unit and
+ * timeframe; metrics the simulation does not produce have no probability.
+ */
+export interface KPIAttainment {
+  source: 'kpi' | 'custom_metric';
+  name: string; // KPI type or custom metric name
+  metric?: string; // Simulated metric the target is measured on
+  timeframe: string;
+  target: number;
+  expected?: number;
+  probability?: number;
+  expectedShortfall?: number; // Mean gap to the target, counting runs that reach it as zero
+}
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
 export interface RiskAlert {
-  type: 'performance_dip' | 'budget_overrun' | 'audience_fatigue' | 'competitor_threat';
+  type: 'performance_dip' | 'budget_overrun' | 'budget_underpacing' | 'audience_fatigue' | 'competitor_threat' | 'custom_rule';
   severity: 'low' | 'medium' | 'high' | 'critical';
   probability: number;
   impact: number;
@@ -289,6 +458,40 @@ export interface RiskAlert {
   description: string;
   recommendations: string[];
   confidence: number;
+  rule?: { id: string; name: string }; // set on alerts raised by an organization risk rule
+}
+
+/**
+ * Organization-defined risk rule evaluated next to the built-in detectors
+ */
+export interface RiskRule {
+  id: string;
+  name: string;
+  metric: string; // trajectory metric, or a derived one such as 'frequency'
+  condition: RiskRuleCondition;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  lookbackDays: number;
+}
+
+export type RiskRuleCondition =
+  // Lookback-window average above or below a fixed value, e.g. frequency > 4
+  | { kind: 'threshold'; operator: 'above' | 'below'; value: number }
+  // Lookback-window average against the window before it, e.g. week-over-week with 7 days
+  | { kind: 'period_change'; direction: 'increase' | 'decrease'; threshold: number }
+  // Day value against the median of the lookback window
+  | { kind: 'median_change'; direction: 'increase' | 'decrease'; threshold: number }
+  // Metric reported nothing for the whole lookback window after having data
+  | { kind: 'drops_to_zero' };
+
+/**
+ * Organization overrides for the built-in detector thresholds
+ */
+export interface RiskThresholds {
+  performanceDipThreshold?: number;
+  audienceFatigueThreshold?: number;
+  competitorThreatThreshold?: number;
+  lookbackPeriod?: number;
+  confidenceThreshold?: number;
 }
 
 export interface DateRange {
@@ -315,9 +518,19 @@ export interface PivotRecommendation {
     effort: 'low' | 'medium' | 'high';
     timeline: string;
   };
+  reallocation?: BudgetReallocation; // budget_reallocation only: the move to apply
   simulation_preview?: TrajectoryPoint[];
 }
 
+/**
+ * Budget moved between two channels of a campaign, keyed by channel type
+ */
+export interface BudgetReallocation {
+  from: string;
+  to: string;
+  amount: number;
+}
+
 // ============================================================================
 // External Data Source Types
 // ============================================================================
@@ -471,7 +684,10 @@ export interface MarketContext {
 // ============================================================================
 
 export type MetricType = 'ctr' | 'impressions' | 'engagement' | 'reach' | 'conversions' | 'cpc' | 'cpm';
+
+// Computed from the forecast, planned spend and conversion value rather than forecast directly
+export type DerivedMetricType = 'cpa' | 'roas' | 'roi' | 'brand_awareness';
 export type ChannelType = 'facebook' | 'google' | 'twitter' | 'linkedin' | 'instagram' | 'tiktok' | 'email' | 'display';
 export type CampaignCategory = 'pr' | 'content' | 'social' | 'paid' | 'mixed';
-export type RiskType = 'performance_dip' | 'budget_overrun' | 'audience_fatigue' | 'competitor_threat';
+export type RiskType = 'performance_dip' | 'budget_overrun' | 'budget_underpacing' | 'audience_fatigue' | 'competitor_threat' | 'custom_rule';
 export type RecommendationType = 'budget_reallocation' | 'creative_refresh' | 'audience_expansion' | 'channel_shift' | 'timing_adjustment';
\ No newline at end of file